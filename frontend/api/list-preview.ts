@@ -0,0 +1,91 @@
+/**
+ * Vercel Edge Function: the Open Graph page for a shared list.
+ *
+ * vercel.json sends chat and social unfurlers asking for /shared/:code or /embed/list/:code
+ * here (matched by user agent), so their previews come from the site's own origin; people
+ * still get the app. The summary comes from the list-embed Supabase function, which also
+ * answers the oEmbed discovery link.
+ */
+
+export const config = { runtime: 'edge' };
+
+const SUPABASE_URL = (process.env.VITE_SUPABASE_URL ?? '').replace(/\/$/, '');
+const SUPABASE_ANON_KEY = process.env.VITE_SUPABASE_ANON_KEY ?? '';
+const SHARE_CODE = /^[A-Za-z0-9]{4,32}$/;
+
+interface ListSummary {
+  shareCode: string;
+  name: string;
+  description: string;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+async function loadSummary(shareCode: string): Promise<ListSummary | null> {
+  const response = await fetch(`${SUPABASE_URL}/functions/v1/list-embed?code=${shareCode}`, {
+    headers: { apikey: SUPABASE_ANON_KEY },
+  });
+  if (!response.ok) return null;
+  return (await response.json()) as ListSummary;
+}
+
+function renderPage(summary: ListSummary, origin: string): string {
+  const shareUrl = `${origin}/shared/${summary.shareCode}`;
+  const oEmbedUrl = new URL(`${SUPABASE_URL}/functions/v1/list-embed`);
+  oEmbedUrl.searchParams.set('url', shareUrl);
+  oEmbedUrl.searchParams.set('format', 'json');
+
+  const title = escapeHtml(summary.name);
+  const description = escapeHtml(summary.description);
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8" />
+<title>${title} · WarForge</title>
+<meta name="description" content="${description}" />
+<meta property="og:type" content="website" />
+<meta property="og:site_name" content="WarForge" />
+<meta property="og:title" content="${title}" />
+<meta property="og:description" content="${description}" />
+<meta property="og:url" content="${escapeHtml(shareUrl)}" />
+<meta property="og:image" content="${origin}/pwa-512.svg" />
+<meta name="twitter:card" content="summary" />
+<meta name="twitter:title" content="${title}" />
+<meta name="twitter:description" content="${description}" />
+<meta name="theme-color" content="#c9a84c" />
+<link rel="alternate" type="application/json+oembed" href="${escapeHtml(oEmbedUrl.toString())}" title="${title}" />
+<link rel="canonical" href="${escapeHtml(shareUrl)}" />
+</head>
+<body>
+<p><a href="${escapeHtml(shareUrl)}">${title}</a> — ${description}</p>
+</body>
+</html>`;
+}
+
+export default async function handler(request: Request): Promise<Response> {
+  const url = new URL(request.url);
+  const code = url.searchParams.get('code');
+  const summary = code && SHARE_CODE.test(code) ? await loadSummary(code).catch(() => null) : null;
+
+  if (!summary) {
+    return new Response('<!doctype html><title>List not found · WarForge</title>', {
+      status: 404,
+      headers: { 'Content-Type': 'text/html; charset=utf-8' },
+    });
+  }
+
+  return new Response(renderPage(summary, url.origin), {
+    status: 200,
+    headers: {
+      'Content-Type': 'text/html; charset=utf-8',
+      'Cache-Control': 'public, max-age=300',
+    },
+  });
+}
@@ -71,6 +71,7 @@ const BattleReportPage = lazy(() => lazyRetry(() => import('./features/play-mode
 const RivalryPage = lazy(() => lazyRetry(() => import('./features/social/pages/RivalryPage').then(m => ({ default: m.RivalryPage }))));
 const ApiReferencePage = lazy(() => lazyRetry(() => import('./features/social/pages/ApiReferencePage').then(m => ({ default: m.ApiReferencePage }))));
 const RoadmapPage = lazy(() => lazyRetry(() => import('./shared/pages/RoadmapPage').then(m => ({ default: m.RoadmapPage }))));
+const EmbedListPage = lazy(() => lazyRetry(() => import('./shared/pages/EmbedListPage').then(m => ({ default: m.EmbedListPage }))));
 
 // Clear the reload flag on successful page load
 sessionStorage.removeItem('chunk_reload');
@@ -304,10 +305,8 @@ function SentryFallback({ error, resetError }: { error: unknown; resetError: ()
   );
 }
 
-function App() {
+function AppShell() {
   return (
-    <Sentry.ErrorBoundary fallback={SentryFallback}>
-    <BrowserRouter>
       <div className="app-layout">
         <AppHeader />
         <main className="app-main">
@@ -346,6 +345,7 @@ function App() {
             <Route path="/settings" element={<ProtectedRoute><SettingsPage /></ProtectedRoute>} />
             {/* Public routes */}
             <Route path="/units" element={<UnitsPage />} />
+            <Route path="/shared" element={<SharedListPage />} />
             <Route path="/shared/:code" element={<SharedListPage />} />
             <Route path="/spectate/:code" element={<SpectateGamePage />} />
             <Route path="/changelog" element={<ChangelogPage />} />
@@ -362,6 +362,18 @@ function App() {
         <AppFooter />
         <MobileTabBar />
       </div>
+  );
+}
+
+function App() {
+  return (
+    <Sentry.ErrorBoundary fallback={SentryFallback}>
+    <BrowserRouter>
+      <Routes>
+        {/* Embeds are framed by other sites, so they render without the app chrome */}
+        <Route path="/embed/list/:shareCode" element={<Suspense fallback={null}><EmbedListPage /></Suspense>} />
+        <Route path="*" element={<AppShell />} />
+      </Routes>
     </BrowserRouter>
     <SpeedInsights />
     </Sentry.ErrorBoundary>
@@ -2,6 +2,7 @@ import { useState, useRef } from 'react';
 import { ROLE_ORDER, ROLE_LABELS, getUnitPoints, type ArmyListUnitWithDetails } from '../hooks/useListEditor';
 import type { Enhancement } from '../../../shared/types/database';
 import { RosterItem } from './RosterItem';
+import type { ListPresence } from '../lib/listCollaboration';
 
 interface ArmyRosterProps {
   listUnits: ArmyListUnitWithDetails[];
@@ -10,16 +11,20 @@ interface ArmyRosterProps {
   rosterSectionPoints: Record<string, number>;
   rosterAlliedPoints: number;
   selectedArmyListUnitId: string | null;
+  /** Other editors with the list open, for showing which unit each has selected */
+  collaborators?: ListPresence[];
   getEnhancementForUnit: (armyListUnitId: string) => Enhancement | null;
   getWargearSummary: (armyListUnitId: string, unitId: string) => string;
   onSelectUnit: (armyListUnitId: string) => void;
-  onRemoveUnit: (armyListUnitId: string) => void;
-  onReorder: (fromIndex: number, toIndex: number) => void;
+  /** Omitted for a fixed force */
+  onRemoveUnit?: (armyListUnitId: string) => void;
+  /** Omitted when the list is view-only */
+  onReorder?: (fromIndex: number, toIndex: number) => void;
 }
 
 export function ArmyRoster({
   listUnits, rosterByRole, rosterAlliedUnits, rosterSectionPoints, rosterAlliedPoints,
-  selectedArmyListUnitId, getEnhancementForUnit, getWargearSummary, onSelectUnit,
+  selectedArmyListUnitId, collaborators = [], getEnhancementForUnit, getWargearSummary, onSelectUnit,
   onRemoveUnit, onReorder,
 }: ArmyRosterProps) {
   const [dragOverIndex, setDragOverIndex] = useState<number | null>(null);
@@ -53,7 +58,7 @@ export function ArmyRoster({
     const fromIndex = dragIndexRef.current;
     const toIndex = getGlobalIndex(armyListUnitId);
     if (fromIndex !== null && fromIndex !== toIndex) {
-      onReorder(fromIndex, toIndex);
+      onReorder?.(fromIndex, toIndex);
     }
     dragIndexRef.current = null;
     setDragOverIndex(null);
@@ -66,12 +71,12 @@ export function ArmyRoster({
 
   function handleMoveUp(armyListUnitId: string) {
     const idx = getGlobalIndex(armyListUnitId);
-    if (idx > 0) onReorder(idx, idx - 1);
+    if (idx > 0) onReorder?.(idx, idx - 1);
   }
 
   function handleMoveDown(armyListUnitId: string) {
     const idx = getGlobalIndex(armyListUnitId);
-    if (idx < listUnits.length - 1) onReorder(idx, idx + 1);
+    if (idx < listUnits.length - 1) onReorder?.(idx, idx + 1);
   }
 
   return (
@@ -95,7 +100,7 @@ export function ArmyRoster({
               return (
                 <div
                   key={lu.id}
-                  draggable
+                  draggable={!!onReorder}
                   onDragStart={() => handleDragStart(lu.id)}
                   onDragOver={(e) => handleDragOver(e, lu.id)}
                   onDrop={() => handleDrop(lu.id)}
@@ -110,10 +115,11 @@ export function ArmyRoster({
                     enhancementPoints={enh?.points}
                     wargearSummary={wargearSummary}
                     isSelected={lu.id === selectedArmyListUnitId}
+                    editors={collaborators.filter(c => c.selectedArmyListUnitId === lu.id)}
                     onClick={() => onSelectUnit(lu.id)}
-                    onRemove={() => onRemoveUnit(lu.id)}
-                    onMoveUp={globalIdx > 0 ? () => handleMoveUp(lu.id) : undefined}
-                    onMoveDown={globalIdx < listUnits.length - 1 ? () => handleMoveDown(lu.id) : undefined}
+                    onRemove={onRemoveUnit ? () => onRemoveUnit(lu.id) : undefined}
+                    onMoveUp={onReorder && globalIdx > 0 ? () => handleMoveUp(lu.id) : undefined}
+                    onMoveDown={onReorder && globalIdx < listUnits.length - 1 ? () => handleMoveDown(lu.id) : undefined}
                     unit={lu.units}
                     weapons={lu.units.weapons ?? []}
                   />
@@ -139,7 +145,7 @@ export function ArmyRoster({
             return (
               <div
                 key={lu.id}
-                draggable
+                draggable={!!onReorder}
                 onDragStart={() => handleDragStart(lu.id)}
                 onDragOver={(e) => handleDragOver(e, lu.id)}
                 onDrop={() => handleDrop(lu.id)}
@@ -154,10 +160,11 @@ export function ArmyRoster({
                   enhancementPoints={enh?.points}
                   wargearSummary={wargearSummary}
                   isSelected={lu.id === selectedArmyListUnitId}
+                  editors={collaborators.filter(c => c.selectedArmyListUnitId === lu.id)}
                   onClick={() => onSelectUnit(lu.id)}
-                  onRemove={() => onRemoveUnit(lu.id)}
-                  onMoveUp={globalIdx > 0 ? () => handleMoveUp(lu.id) : undefined}
-                  onMoveDown={globalIdx < listUnits.length - 1 ? () => handleMoveDown(lu.id) : undefined}
+                  onRemove={onRemoveUnit ? () => onRemoveUnit(lu.id) : undefined}
+                  onMoveUp={onReorder && globalIdx > 0 ? () => handleMoveUp(lu.id) : undefined}
+                  onMoveDown={onReorder && globalIdx < listUnits.length - 1 ? () => handleMoveDown(lu.id) : undefined}
                   unit={lu.units}
                   weapons={lu.units.weapons ?? []}
                 />
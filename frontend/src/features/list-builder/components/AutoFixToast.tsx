@@ -0,0 +1,37 @@
+import { useEffect } from 'react';
+import { useListEditorStore } from '../stores/listEditorStore';
+
+const DISMISS_AFTER_MS = 8000;
+
+export function AutoFixToast() {
+  const lastAutoFix = useListEditorStore((s) => s.lastAutoFix);
+  const undoAutoFix = useListEditorStore((s) => s.undoAutoFix);
+  const dismissAutoFix = useListEditorStore((s) => s.dismissAutoFix);
+
+  useEffect(() => {
+    if (!lastAutoFix) return;
+    const timer = setTimeout(dismissAutoFix, DISMISS_AFTER_MS);
+    return () => clearTimeout(timer);
+  }, [lastAutoFix, dismissAutoFix]);
+
+  if (!lastAutoFix) return null;
+
+  return (
+    <div className="auto-fix-toast" role="status" aria-live="polite">
+      <div className="auto-fix-toast__header">
+        <span className="auto-fix-toast__title">
+          {lastAutoFix.fixes.length === 1 ? 'Fix applied' : `${lastAutoFix.fixes.length} fixes applied`}
+        </span>
+        <button className="auto-fix-toast__undo" onClick={undoAutoFix}>
+          Undo
+        </button>
+        <button className="auto-fix-toast__dismiss" onClick={dismissAutoFix} aria-label="Dismiss">
+          &#10005;
+        </button>
+      </div>
+      <ul className="auto-fix-toast__list">
+        {lastAutoFix.fixes.map((fix, i) => <li key={i}>{fix}</li>)}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+import { useEffect, useRef } from 'react';
+import { useListEditorStore } from '../stores/listEditorStore';
+
+export function CascadePreviewDialog() {
+  const pendingChange = useListEditorStore((s) => s.pendingChange);
+  const confirmPendingChange = useListEditorStore((s) => s.confirmPendingChange);
+  const cancelPendingChange = useListEditorStore((s) => s.cancelPendingChange);
+  const dialogRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!pendingChange) return;
+    function handleKeyDown(e: KeyboardEvent) {
+      if (e.key === 'Escape') cancelPendingChange();
+    }
+    document.addEventListener('keydown', handleKeyDown);
+    dialogRef.current?.focus();
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [pendingChange, cancelPendingChange]);
+
+  if (!pendingChange) return null;
+
+  return (
+    <div className="modal-backdrop" onClick={cancelPendingChange}>
+      <div
+        ref={dialogRef}
+        className="confirm-dialog"
+        role="alertdialog"
+        aria-modal="true"
+        aria-labelledby="cascade-preview-title"
+        tabIndex={-1}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h3 id="cascade-preview-title" className="confirm-dialog__title">{pendingChange.label}?</h3>
+        <p className="confirm-dialog__message">This change will also affect the rest of your list:</p>
+        <ul className="cascade-preview__effects">
+          {pendingChange.effects.map((effect, i) => <li key={i}>{effect}</li>)}
+        </ul>
+        <div className="confirm-dialog__actions">
+          <button className="btn" onClick={cancelPendingChange}>Cancel</button>
+          <button className="btn btn--primary" onClick={confirmPendingChange}>Apply change</button>
+        </div>
+      </div>
+    </div>
+  );
+}
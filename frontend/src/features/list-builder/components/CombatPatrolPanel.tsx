@@ -0,0 +1,51 @@
+import type { CombatPatrolCatalogue } from '../lib/combatPatrol';
+import type { UnitWithRelations } from '../stores/listEditorStore';
+
+interface CombatPatrolPanelProps {
+  catalogue: CombatPatrolCatalogue;
+  /** Faction units, for naming the patrol's datasheets */
+  availableUnits: UnitWithRelations[];
+  className?: string;
+}
+
+/** Takes the unit picker's place in a Combat Patrol list: the fixed force, and nothing to add. */
+export function CombatPatrolPanel({ catalogue, availableUnits, className }: CombatPatrolPanelProps) {
+  const { patrol, units, wargearOptions } = catalogue;
+
+  return (
+    <div className={`list-editor__picker${className ? ` ${className}` : ''}`}>
+      <div className="list-editor__picker-header">
+        <div className="list-editor__picker-title">{patrol.name}</div>
+        <div className="list-editor__picker-points">Combat Patrol</div>
+      </div>
+
+      <div className="list-editor__picker-list combat-patrol-panel">
+        {patrol.description && (
+          <p className="combat-patrol-panel__description">{patrol.description}</p>
+        )}
+        <div className="combat-patrol-panel__notice">
+          This force is fixed. Only the wargear options the patrol permits can be changed.
+        </div>
+        {units.map(u => {
+          const unit = availableUnits.find(au => au.id === u.unit_id);
+          const swaps = wargearOptions.filter(w => w.combat_patrol_unit_id === u.id).length;
+          return (
+            <div key={u.id} className="combat-patrol-panel__unit">
+              <div className="combat-patrol-panel__unit-name">
+                {u.model_count > 1 ? `${u.model_count} ` : ''}{unit?.name ?? 'Unknown unit'}
+              </div>
+              {swaps > 0 && (
+                <div className="combat-patrol-panel__unit-meta">
+                  {swaps} wargear {swaps === 1 ? 'option' : 'options'}
+                </div>
+              )}
+              {u.datasheet_notes && (
+                <div className="combat-patrol-panel__unit-notes">{u.datasheet_notes}</div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+import type { ReactNode } from 'react';
+import { describeProposal, parseProposal, type CommentThread, type CommentWithAuthor } from '../lib/listReview';
+
+interface CommentThreadViewProps {
+  thread: CommentThread;
+  /** Heading for the thread, e.g. the unit it is on */
+  anchorLabel?: string;
+  /** Controls under a comment's proposal (accept / dismiss); omitted on read-only views */
+  renderProposalActions?: (comment: CommentWithAuthor) => ReactNode;
+  /** Controls under the whole thread (reply, resolve) */
+  footer?: ReactNode;
+  /** Deletes a comment; the button only shows where `canDelete` allows */
+  onDelete?: (comment: CommentWithAuthor) => void;
+  canDelete?: (comment: CommentWithAuthor) => boolean;
+}
+
+const PROPOSAL_STATUS_LABELS = { open: 'Suggested', accepted: 'Accepted', dismissed: 'Dismissed' } as const;
+
+function CommentView({ comment, renderProposalActions, onDelete }: {
+  comment: CommentWithAuthor;
+  renderProposalActions?: CommentThreadViewProps['renderProposalActions'];
+  onDelete?: (comment: CommentWithAuthor) => void;
+}) {
+  const proposal = parseProposal(comment.proposal);
+  return (
+    <div className="comment-thread__comment">
+      <div className="comment-thread__meta">
+        <span className="comment-thread__author">{comment.user_profiles?.display_name ?? 'Unknown player'}</span>
+        <span className="comment-thread__time">{new Date(comment.created_at).toLocaleString()}</span>
+        {onDelete && (
+          <button className="comment-thread__delete" onClick={() => onDelete(comment)} title="Delete comment">
+            &times;
+          </button>
+        )}
+      </div>
+      <p className="comment-thread__body">{comment.body}</p>
+      {proposal && comment.proposal_status && (
+        <div className={`comment-thread__proposal comment-thread__proposal--${comment.proposal_status}`}>
+          <span className="comment-thread__proposal-status">{PROPOSAL_STATUS_LABELS[comment.proposal_status]}</span>
+          <span className="comment-thread__proposal-text">{describeProposal(proposal)}</span>
+          {renderProposalActions?.(comment)}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function CommentThreadView({
+  thread, anchorLabel, renderProposalActions, footer, onDelete, canDelete,
+}: CommentThreadViewProps) {
+  const resolved = !!thread.root.resolved_at;
+  return (
+    <div className={`comment-thread${resolved ? ' comment-thread--resolved' : ''}`}>
+      {(anchorLabel || resolved) && (
+        <div className="comment-thread__header">
+          {anchorLabel && <span className="comment-thread__anchor">{anchorLabel}</span>}
+          {resolved && <span className="comment-thread__resolved">Resolved</span>}
+        </div>
+      )}
+      {[thread.root, ...thread.replies].map(comment => (
+        <CommentView
+          key={comment.id}
+          comment={comment}
+          renderProposalActions={renderProposalActions}
+          onDelete={onDelete && canDelete?.(comment) ? onDelete : undefined}
+        />
+      ))}
+      {footer}
+    </div>
+  );
+}
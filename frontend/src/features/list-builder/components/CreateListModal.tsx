@@ -2,8 +2,9 @@ import { useEffect, useRef, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { supabase } from '../../../shared/lib/supabase';
 import { useAuth } from '../../../shared/hooks/useAuth';
-import type { Faction, BattleSize } from '../../../shared/types/database';
+import type { Faction, BattleSize, CombatPatrol, CombatPatrolUnit } from '../../../shared/types/database';
 import { SAMPLE_LISTS } from '../data/sampleLists';
+import { combatPatrolUnitInserts } from '../lib/combatPatrol';
 
 interface CreateListModalProps {
   onClose: () => void;
@@ -18,6 +19,10 @@ export function CreateListModal({ onClose, onCreated }: CreateListModalProps) {
   const [name, setName] = useState('');
   const [factionId, setFactionId] = useState('');
   const [battleSizeId, setBattleSizeId] = useState('strike_force');
+  // Combat Patrols loaded for a faction. The chosen id is null until picked, meaning the
+  // first patrol; '' builds a free 500-point list instead.
+  const [loadedPatrols, setLoadedPatrols] = useState<{ factionId: string; patrols: CombatPatrol[] } | null>(null);
+  const [pickedPatrolId, setPickedPatrolId] = useState<string | null>(null);
   const [saving, setSaving] = useState(false);
   const [loadingSample, setLoadingSample] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -43,6 +48,32 @@ export function CreateListModal({ onClose, onCreated }: CreateListModalProps) {
       });
   }, []);
 
+  useEffect(() => {
+    if (battleSizeId !== 'combat_patrol' || !factionId) return;
+    const faction = factions.find(f => f.id === factionId);
+    const patrolFactionIds = [factionId];
+    if (faction?.parent_faction_id) patrolFactionIds.push(faction.parent_faction_id);
+
+    let cancelled = false;
+    supabase
+      .from('combat_patrols')
+      .select('*')
+      .in('faction_id', patrolFactionIds)
+      .order('name')
+      .then(({ data, error: patrolError }) => {
+        if (cancelled) return;
+        if (patrolError) console.error('Failed to load combat patrols:', patrolError);
+        setLoadedPatrols({ factionId, patrols: (data ?? []) as CombatPatrol[] });
+        setPickedPatrolId(null);
+      });
+    return () => { cancelled = true; };
+  }, [battleSizeId, factionId, factions]);
+
+  const combatPatrols = battleSizeId === 'combat_patrol' && loadedPatrols?.factionId === factionId
+    ? loadedPatrols.patrols
+    : [];
+  const combatPatrolId = pickedPatrolId ?? combatPatrols[0]?.id ?? '';
+
   const selectedBattleSize = battleSizes.find(bs => bs.id === battleSizeId);
 
   async function handleSubmit(e: React.FormEvent) {
@@ -51,6 +82,12 @@ export function CreateListModal({ onClose, onCreated }: CreateListModalProps) {
     setSaving(true);
     setError(null);
 
+    const patrol = combatPatrols.find(p => p.id === combatPatrolId);
+    if (patrol) {
+      await createCombatPatrolList(patrol);
+      return;
+    }
+
     // Auto-select the first available detachment for this faction
     const faction = factions.find(f => f.id === factionId);
     const detFactionIds = [factionId];
@@ -62,6 +99,7 @@ export function CreateListModal({ onClose, onCreated }: CreateListModalProps) {
       .from('detachments')
       .select('id')
       .in('faction_id', detFactionIds)
+      .eq('is_combat_patrol', false)
       .order('name')
       .limit(1);
 
@@ -89,6 +127,60 @@ export function CreateListModal({ onClose, onCreated }: CreateListModalProps) {
     setSaving(false);
   }
 
+  /**
+   * Create a list from a Combat Patrol: the patrol's detachment and its fixed force. The
+   * editor holds the list to that force from then on.
+   */
+  async function createCombatPatrolList(patrol: CombatPatrol) {
+    const { data: patrolUnits, error: unitsError } = await supabase
+      .from('combat_patrol_units')
+      .select('*')
+      .eq('combat_patrol_id', patrol.id)
+      .order('sort_order');
+
+    if (unitsError || !patrolUnits || patrolUnits.length === 0) {
+      if (unitsError) console.error('Failed to load combat patrol units:', unitsError);
+      setError(`Couldn't load the units for ${patrol.name}.`);
+      setSaving(false);
+      return;
+    }
+
+    const { data: insertedList, error: listError } = await supabase
+      .from('army_lists')
+      .insert({
+        name,
+        faction_id: factionId,
+        detachment_id: patrol.detachment_id,
+        combat_patrol_id: patrol.id,
+        points_limit: selectedBattleSize?.max_points ?? 500,
+        battle_size: 'combat_patrol',
+        user_id: user!.id,
+      })
+      .select('id')
+      .single();
+
+    if (listError || !insertedList) {
+      setError(listError?.message ?? 'Failed to create list');
+      setSaving(false);
+      return;
+    }
+
+    const { error: forceError } = await supabase
+      .from('army_list_units')
+      .insert(combatPatrolUnitInserts(patrolUnits as CombatPatrolUnit[], insertedList.id));
+    if (forceError) {
+      // A patrol without its force can't be fixed in the editor; don't leave it behind
+      console.error('Failed to add combat patrol units:', forceError);
+      await supabase.from('army_lists').delete().eq('id', insertedList.id);
+      setError(`Couldn't add the units for ${patrol.name}: ${forceError.message}`);
+      setSaving(false);
+      return;
+    }
+
+    setSaving(false);
+    navigate(`/list/${insertedList.id}`);
+  }
+
   /**
    * Create a pre-populated demo list so brand-new users can see what a finished
    * list looks like. Ignores the form's name/faction/battle-size selections and
@@ -123,6 +215,7 @@ export function CreateListModal({ onClose, onCreated }: CreateListModalProps) {
       .from('detachments')
       .select('id')
       .in('faction_id', detFactionIds)
+      .eq('is_combat_patrol', false)
       .order('name')
       .limit(1);
 
@@ -247,6 +340,22 @@ export function CreateListModal({ onClose, onCreated }: CreateListModalProps) {
             </div>
           </div>
 
+          {combatPatrols.length > 0 && (
+            <div className="form-group">
+              <label>Combat Patrol</label>
+              <select
+                className="form-select"
+                value={combatPatrolId}
+                onChange={(e) => setPickedPatrolId(e.target.value)}
+              >
+                {combatPatrols.map((p) => (
+                  <option key={p.id} value={p.id}>{p.name}</option>
+                ))}
+                <option value="">Build your own ({selectedBattleSize?.max_points ?? 500} pts)</option>
+              </select>
+            </div>
+          )}
+
           {error && (
             <div className="validation-banner validation-banner--error">
               {error}
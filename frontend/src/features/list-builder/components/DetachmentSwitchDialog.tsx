@@ -0,0 +1,155 @@
+import { useEffect, useState } from 'react';
+import { selectTotalPoints, useListEditorStore } from '../stores/listEditorStore';
+import {
+  duplicateChoices, enhancementPointsDelta, suggestReplacements,
+  type DetachmentSwitchPlan, type EnhancementChoices, type RuleUnit,
+} from '../lib/detachmentSwitch';
+
+const signed = (n: number) => (n > 0 ? `+${n}` : `${n}`);
+
+/** Review a detachment change and choose what each enhancement bearer takes instead. */
+export function DetachmentSwitchDialog() {
+  const plan = useListEditorStore((s) => s.detachmentSwitch);
+  if (!plan) return null;
+  return <DetachmentSwitchPanel plan={plan} />;
+}
+
+function RuleUnitList({ title, units }: { title: string; units: RuleUnit[] }) {
+  if (units.length === 0) return null;
+  return (
+    <div className="detachment-switch__group">
+      <h4 className="detachment-switch__heading">{title}</h4>
+      <ul className="detachment-switch__list">
+        {units.map(u => (
+          <li key={u.armyListUnitId}>
+            {u.unitName} <span className="detachment-switch__keywords">({u.keywords.join(', ')})</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+function DetachmentSwitchPanel({ plan }: { plan: DetachmentSwitchPlan }) {
+  const list = useListEditorStore((s) => s.list);
+  const totalPoints = useListEditorStore(selectTotalPoints);
+  const accessRole = useListEditorStore((s) => s.accessRole);
+  const confirmDetachmentSwitch = useListEditorStore((s) => s.confirmDetachmentSwitch);
+  const cancelDetachmentSwitch = useListEditorStore((s) => s.cancelDetachmentSwitch);
+  const [choices, setChoices] = useState<EnhancementChoices>(() => suggestReplacements(plan.bearers));
+  const [applying, setApplying] = useState(false);
+
+  useEffect(() => {
+    function handleKeyDown(e: KeyboardEvent) {
+      if (e.key === 'Escape') cancelDetachmentSwitch();
+    }
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [cancelDetachmentSwitch]);
+
+  const duplicates = duplicateChoices(choices);
+  const delta = enhancementPointsDelta(plan, choices);
+  const nothingElse = plan.bearers.length === 0
+    && plan.stratagemsLost.length === 0 && plan.stratagemsGained.length === 0
+    && plan.ruleUnitsLost.length === 0 && plan.ruleUnitsGained.length === 0;
+
+  async function handleConfirm() {
+    setApplying(true);
+    await confirmDetachmentSwitch(choices);
+  }
+
+  return (
+    <div className="modal-backdrop" onClick={cancelDetachmentSwitch}>
+      <div
+        className="modal-panel modal-panel--sm detachment-switch"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="detachment-switch-title"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h3 className="modal-panel__title" id="detachment-switch-title">
+          Switch to {plan.detachment.name}?
+        </h3>
+
+        {nothingElse && (
+          <p className="detachment-switch__hint">Nothing else in the list changes.</p>
+        )}
+
+        {plan.bearers.length > 0 && (
+          <div className="detachment-switch__group">
+            <h4 className="detachment-switch__heading">Enhancements</h4>
+            <p className="detachment-switch__hint">
+              Enhancements stay with the old detachment. Pick what each unit takes instead.
+            </p>
+            {plan.bearers.map(b => {
+              const value = choices[b.armyListUnitId] ?? '';
+              return (
+                <div key={b.armyListUnitId} className="detachment-switch__bearer">
+                  <div className="detachment-switch__bearer-name">
+                    {b.unitName}
+                    <span className="detachment-switch__was">
+                      was {b.current.name} ({b.current.points} pts)
+                    </span>
+                  </div>
+                  {b.candidates.length === 0 ? (
+                    <span className="detachment-switch__none">
+                      No {plan.detachment.name} enhancement fits this unit — it is removed.
+                    </span>
+                  ) : (
+                    <select
+                      className={`form-select${duplicates.has(value) ? ' detachment-switch__select--duplicate' : ''}`}
+                      value={value}
+                      onChange={(e) => setChoices({ ...choices, [b.armyListUnitId]: e.target.value })}
+                      aria-label={`Replacement enhancement for ${b.unitName}`}
+                    >
+                      <option value="">No enhancement</option>
+                      {b.candidates.map(e => (
+                        <option key={e.id} value={e.id}>{e.name} ({e.points} pts)</option>
+                      ))}
+                    </select>
+                  )}
+                </div>
+              );
+            })}
+            {duplicates.size > 0 && (
+              <div className="detachment-switch__error">Each enhancement can only be taken once.</div>
+            )}
+            {list && delta !== 0 && (
+              <div className="detachment-switch__delta">
+                Enhancements {signed(delta)} pts — list total {totalPoints + delta} / {list.points_limit}
+              </div>
+            )}
+          </div>
+        )}
+
+        {(plan.stratagemsLost.length > 0 || plan.stratagemsGained.length > 0) && (
+          <div className="detachment-switch__group">
+            <h4 className="detachment-switch__heading">Stratagems</h4>
+            <ul className="detachment-switch__list">
+              {plan.stratagemsLost.map(s => (
+                <li key={`lost-${s}`} className="detachment-switch__lost">{s}</li>
+              ))}
+              {plan.stratagemsGained.map(s => (
+                <li key={`gained-${s}`} className="detachment-switch__gained">{s}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <RuleUnitList title="Units losing the detachment rule" units={plan.ruleUnitsLost} />
+        <RuleUnitList title="Units gaining the detachment rule" units={plan.ruleUnitsGained} />
+
+        <div className="modal-panel__actions">
+          <button className="btn" onClick={cancelDetachmentSwitch}>Cancel</button>
+          <button
+            className="btn btn--primary"
+            onClick={handleConfirm}
+            disabled={applying || duplicates.size > 0 || accessRole === 'viewer'}
+          >
+            Switch detachment
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
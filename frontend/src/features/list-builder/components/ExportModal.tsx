@@ -1,109 +1,15 @@
 import { useEffect, useRef, useState } from 'react';
 import { QRCodeSVG } from 'qrcode.react';
-import type { ArmyList, Enhancement, Detachment, WargearOption } from '../../../shared/types/database';
+import type { ArmyList, Enhancement, Detachment, TransportEmbark, WargearOption } from '../../../shared/types/database';
 import { supabase } from '../../../shared/lib/supabase';
 import { ROLE_ORDER, getUnitPoints, type ArmyListUnitWithDetails } from '../hooks/useListEditor';
-
-export interface ParsedUnit {
-  name: string;
-  modelCount: number;
-  enhancementName: string | null;
-}
-
-// ============================================================
-// Parsers
-// ============================================================
-
-function parseImportText(text: string): ParsedUnit[] {
-  // Try BattleScribe-style first, then fall back to native format
-  const bsUnits = parseBattleScribeText(text);
-  if (bsUnits.length > 0) return bsUnits;
-  return parseNativeText(text);
-}
-
-/** Parse our native export format */
-function parseNativeText(text: string): ParsedUnit[] {
-  const units: ParsedUnit[] = [];
-  const lines = text.split('\n');
-
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i];
-    const unitMatch = line.match(/^\s{2}(.+?)(?:\s+\((\d+)\s+models?\))?\s+-\s+\d+\s+pts\s*$/);
-    if (!unitMatch) continue;
-
-    const name = unitMatch[1].trim();
-    const modelCount = unitMatch[2] ? parseInt(unitMatch[2], 10) : 1;
-
-    let enhancementName: string | null = null;
-    if (i + 1 < lines.length) {
-      const enhMatch = lines[i + 1].match(/^\s{4}Enhancement:\s+(.+?)\s+\(\+\d+\s+pts\)\s*$/);
-      if (enhMatch) {
-        enhancementName = enhMatch[1].trim();
-        i++;
-      }
-    }
-
-    units.push({ name, modelCount, enhancementName });
-  }
-
-  return units;
-}
-
-/**
- * Parse BattleScribe plain-text export format.
- * Typical format:
- *   Unit Name [X pts]: Enhancement Name
- *   . Model count x Model Name
- *   . Weapon Name
- *
- * We extract unit name, model count (from header brackets or model lines), and enhancement.
- */
-function parseBattleScribeText(text: string): ParsedUnit[] {
-  const units: ParsedUnit[] = [];
-  const lines = text.split('\n');
-
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i];
-
-    // BattleScribe unit header: "Unit Name [Xpts]" or "Unit Name [X pts]"
-    // Can also have selections after colon
-    const bsMatch = line.match(/^([A-Z][A-Za-z0-9' -]+?)\s*\[(\d+)\s*pts?\]/);
-    if (!bsMatch) continue;
-
-    const name = bsMatch[1].trim();
-    let modelCount = 1;
-    let enhancementName: string | null = null;
-
-    // Check for enhancement on same line (after colon): "Unit Name [pts]: Enhancement, ..."
-    const colonPart = line.split(']:')[1];
-    if (colonPart) {
-      // Enhancement is usually the first selection that doesn't look like a weapon
-      const selections = colonPart.split(',').map(s => s.trim()).filter(Boolean);
-      for (const sel of selections) {
-        // Skip weapon-like entries and model count entries
-        if (!sel.match(/^\d+x /)) {
-          enhancementName = sel;
-          break;
-        }
-      }
-    }
-
-    // Look at following lines for model count (". 5x Intercessor" pattern)
-    for (let j = i + 1; j < lines.length && j < i + 15; j++) {
-      const modelLine = lines[j];
-      if (!modelLine.match(/^\s*[.•]/)) break;
-
-      const countMatch = modelLine.match(/(\d+)x\s/);
-      if (countMatch) {
-        modelCount = Math.max(modelCount, parseInt(countMatch[1], 10));
-      }
-    }
-
-    units.push({ name, modelCount, enhancementName });
-  }
-
-  return units;
-}
+import type { RosterImportResult } from '../stores/listEditorStore';
+import { detectImportFormat, parseImportText, type ParsedList } from '../lib/importFormats';
+import { looksLikeListDocument, serializeListDocument, type ListDocument } from '../lib/listDocument';
+import { encodeListLink, listLinkUrl } from '../lib/listLink';
+import { PRINT_LAYOUTS, type PrintLayout, type PrintPackOptions } from '../lib/printPack';
+import { describeEmbarkPlan } from '../lib/transportPlan';
+import { PrintPack } from './PrintPack';
 
 // ============================================================
 // Export generators
@@ -129,6 +35,7 @@ interface ExportData {
   totalPoints: number;
   wargearOptions: WargearOption[];
   unitWargearSelections: Map<string, Map<string, string>>;
+  transportEmbarks?: TransportEmbark[];
 }
 
 function groupByRole(listUnits: ArmyListUnitWithDetails[]) {
@@ -142,7 +49,10 @@ function groupByRole(listUnits: ArmyListUnitWithDetails[]) {
 }
 
 function generateStandardExport(data: ExportData): string {
-  const { list, listUnits, enhancements, listEnhancements, totalPoints, wargearOptions, unitWargearSelections } = data;
+  const {
+    list, listUnits, enhancements, listEnhancements, totalPoints, wargearOptions, unitWargearSelections,
+    transportEmbarks = [],
+  } = data;
   const lines: string[] = [];
 
   lines.push(`++ ${list.name} [${totalPoints}/${list.points_limit} pts] ++`);
@@ -181,6 +91,12 @@ function generateStandardExport(data: ExportData): string {
           }
         }
       }
+
+      const embark = transportEmbarks.find(te => te.passenger_army_list_unit_id === lu.id);
+      const transport = embark && listUnits.find(t => t.id === embark.transport_army_list_unit_id);
+      if (transport) {
+        lines.push(`    Embarked in: ${transport.units.name}`);
+      }
     }
     lines.push('');
   }
@@ -190,7 +106,7 @@ function generateStandardExport(data: ExportData): string {
 }
 
 function generateTournamentExport(data: ExportData): string {
-  const { list, listUnits, enhancements, listEnhancements, totalPoints } = data;
+  const { list, listUnits, enhancements, listEnhancements, totalPoints, transportEmbarks = [] } = data;
   const lines: string[] = [];
 
   // GW/ITC-style compact tournament format
@@ -219,6 +135,15 @@ function generateTournamentExport(data: ExportData): string {
     }
   }
 
+  const embarkPlan = describeEmbarkPlan({ listUnits, transportEmbarks });
+  if (embarkPlan.length > 0) {
+    lines.push('---');
+    lines.push('Embarked:');
+    for (const { transport, passengers } of embarkPlan) {
+      lines.push(`${transport}: ${passengers.join(', ')}`);
+    }
+  }
+
   lines.push('---');
   lines.push(`Total: ${totalPoints} pts`);
   return lines.join('\n');
@@ -229,8 +154,11 @@ function generateTournamentExport(data: ExportData): string {
 // ============================================================
 
 interface ExportModalProps extends ExportData {
+  listDocument?: ListDocument | null;
   onClose: () => void;
-  onImport?: (parsed: ParsedUnit[]) => Promise<{ success: boolean; matched: number; unmatched: string[] }>;
+  onImport?: (parsed: ParsedList) => Promise<RosterImportResult>;
+  onImportRoster?: (data: ArrayBuffer) => Promise<RosterImportResult>;
+  onImportDocument?: (text: string) => Promise<RosterImportResult>;
 }
 
 function generateShareCode(): string {
@@ -241,20 +169,29 @@ function generateShareCode(): string {
 }
 
 export function ExportModal(props: ExportModalProps) {
-  const { list, onClose, onImport } = props;
+  const { list, listDocument, onClose, onImport, onImportRoster, onImportDocument } = props;
   const [copied, setCopied] = useState(false);
-  const [tab, setTab] = useState<'export' | 'import' | 'share'>('export');
-  const [exportFormat, setExportFormat] = useState<'standard' | 'tournament'>('standard');
+  const [tab, setTab] = useState<'export' | 'print' | 'import' | 'share'>('export');
+  const [exportFormat, setExportFormat] = useState<'standard' | 'tournament' | 'json'>('standard');
   const [importText, setImportText] = useState('');
   const [importing, setImporting] = useState(false);
-  const [importResult, setImportResult] = useState<{ success: boolean; matched: number; unmatched: string[] } | null>(null);
+  const [importResult, setImportResult] = useState<RosterImportResult | null>(null);
+  const rosterInputRef = useRef<HTMLInputElement>(null);
   const [shareCode, setShareCode] = useState<string | null>(list.share_code ?? null);
   const [shareCopied, setShareCopied] = useState(false);
   const [sharing, setSharing] = useState(false);
-
-  const exportText = exportFormat === 'tournament'
-    ? generateTournamentExport(props)
-    : generateStandardExport(props);
+  const [listLinkCopied, setListLinkCopied] = useState(false);
+  const [embedCopied, setEmbedCopied] = useState(false);
+  const [printLayout, setPrintLayout] = useState<PrintLayout>('roster-datasheets');
+  const [printQr, setPrintQr] = useState(true);
+  const [printAppendix, setPrintAppendix] = useState(true);
+  const [printJob, setPrintJob] = useState<PrintPackOptions | null>(null);
+
+  const exportText = exportFormat === 'json' && listDocument
+    ? serializeListDocument(listDocument)
+    : exportFormat === 'tournament'
+      ? generateTournamentExport(props)
+      : generateStandardExport(props);
 
   function handleCopy() {
     navigator.clipboard.writeText(exportText).then(() => {
@@ -263,6 +200,16 @@ export function ExportModal(props: ExportModalProps) {
     });
   }
 
+  function handleDownload() {
+    const blob = new Blob([exportText], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${list.name.replace(/[\\/:*?"<>|]+/g, '').trim() || 'list'}.warforge.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
   async function handleGenerateShareLink() {
     if (shareCode) return;
     setSharing(true);
@@ -286,8 +233,77 @@ export function ExportModal(props: ExportModalProps) {
     });
   }
 
+  function handleCopyEmbedCode() {
+    if (!shareCode) return;
+    const src = `${window.location.origin}/embed/list/${shareCode}`;
+    const html = `<iframe src="${src}" width="480" height="600" style="border:0;border-radius:8px" loading="lazy" title="WarForge army list"></iframe>`;
+    navigator.clipboard.writeText(html).then(() => {
+      setEmbedCopied(true);
+      setTimeout(() => setEmbedCopied(false), 2000);
+    });
+  }
+
+  async function handleCopyListLink() {
+    if (!listDocument) return;
+    const url = listLinkUrl(window.location.origin, await encodeListLink(listDocument));
+    await navigator.clipboard.writeText(url);
+    setListLinkCopied(true);
+    setTimeout(() => setListLinkCopied(false), 2000);
+  }
+
+  const isListDocument = !!onImportDocument && looksLikeListDocument(importText);
+  const detectedFormat = isListDocument
+    ? { label: 'WarForge list file (JSON)' }
+    : importText.trim() ? detectImportFormat(importText) : null;
+
+  async function runImport(run: () => Promise<RosterImportResult>) {
+    setImporting(true);
+    setImportResult(null);
+    try {
+      const result = await run();
+      setImportResult(result);
+      // Stay open when there is something in the report to read
+      const report = result.report;
+      if (result.success && report && report.unmatched.length === 0 && report.notes.length === 0) {
+        setTimeout(onClose, 1500);
+      }
+    } catch {
+      setImportResult({ success: false, error: null, report: null });
+    } finally {
+      setImporting(false);
+    }
+  }
+
+  function handleImportText() {
+    if (isListDocument) {
+      runImport(() => onImportDocument!(importText));
+      return;
+    }
+    if (!onImport) return;
+    const parsed = parseImportText(importText);
+    if (!parsed) {
+      setImportResult({ success: false, error: 'Unrecognised list format.', report: null });
+      return;
+    }
+    runImport(() => onImport(parsed));
+  }
+
+  function handleImportFile(file: File | undefined) {
+    if (!file) return;
+    if (file.name.toLowerCase().endsWith('.json')) {
+      if (onImportDocument) runImport(async () => onImportDocument(await file.text()));
+    } else if (onImportRoster) {
+      runImport(async () => onImportRoster(await file.arrayBuffer()));
+    }
+    if (rosterInputRef.current) rosterInputRef.current.value = '';
+  }
+
   function handlePrint() {
-    window.print();
+    setPrintJob({
+      layout: printLayout,
+      shareUrl: printQr ? shareUrl : null,
+      includeAppendix: printAppendix,
+    });
   }
 
   const dialogRef = useRef<HTMLDivElement>(null);
@@ -303,7 +319,7 @@ export function ExportModal(props: ExportModalProps) {
 
   const shareUrl = shareCode ? `${window.location.origin}/shared/${shareCode}` : null;
 
-  const tabLabels: Record<string, string> = { export: 'Export', share: 'Share', import: 'Import' };
+  const tabLabels: Record<string, string> = { export: 'Export', print: 'Print', share: 'Share', import: 'Import' };
 
   return (
     <div className="modal-backdrop" onClick={onClose}>
@@ -319,8 +335,11 @@ export function ExportModal(props: ExportModalProps) {
         <h3 id="export-modal-title" className="sr-only">{tabLabels[tab]}</h3>
         <div className="export-modal__tabs">
           <button className={`export-modal__tab${tab === 'export' ? ' export-modal__tab--active' : ''}`} onClick={() => setTab('export')}>Export</button>
+          <button className={`export-modal__tab${tab === 'print' ? ' export-modal__tab--active' : ''}`} onClick={() => setTab('print')}>Print</button>
           <button className={`export-modal__tab${tab === 'share' ? ' export-modal__tab--active' : ''}`} onClick={() => setTab('share')}>Share</button>
-          <button className={`export-modal__tab${tab === 'import' ? ' export-modal__tab--active' : ''}`} onClick={() => setTab('import')}>Import</button>
+          {(onImport || onImportRoster || onImportDocument) && (
+            <button className={`export-modal__tab${tab === 'import' ? ' export-modal__tab--active' : ''}`} onClick={() => setTab('import')}>Import</button>
+          )}
         </div>
 
         {tab === 'export' && (
@@ -338,6 +357,14 @@ export function ExportModal(props: ExportModalProps) {
               >
                 Tournament
               </button>
+              {listDocument && (
+                <button
+                  className={`export-modal__format-btn${exportFormat === 'json' ? ' export-modal__format-btn--active' : ''}`}
+                  onClick={() => setExportFormat('json')}
+                >
+                  WarForge JSON
+                </button>
+              )}
             </div>
             <textarea
               readOnly
@@ -345,7 +372,11 @@ export function ExportModal(props: ExportModalProps) {
               className="export-modal__textarea"
             />
             <div className="modal-panel__actions">
-              <button className="btn" onClick={handlePrint}>Print / PDF</button>
+              {exportFormat === 'json' ? (
+                <button className="btn" onClick={handleDownload}>Download .json</button>
+              ) : (
+                <button className="btn" onClick={() => setTab('print')}>Print / PDF</button>
+              )}
               <button className="btn" onClick={onClose}>Close</button>
               <button className="btn btn--primary" onClick={handleCopy}>
                 {copied ? 'Copied!' : 'Copy to Clipboard'}
@@ -354,6 +385,47 @@ export function ExportModal(props: ExportModalProps) {
           </>
         )}
 
+        {tab === 'print' && (
+          <>
+            <div className="export-modal__print-options" role="radiogroup" aria-label="Layout">
+              {PRINT_LAYOUTS.map(layout => (
+                <label key={layout.id} className="export-modal__print-option">
+                  <input
+                    type="radio"
+                    name="print-layout"
+                    checked={printLayout === layout.id}
+                    onChange={() => setPrintLayout(layout.id)}
+                  />
+                  <span>
+                    <span className="export-modal__print-label">{layout.label}</span>
+                    <span className="export-modal__help-text">{layout.description}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+            <label className="export-modal__print-option">
+              <input type="checkbox" checked={printQr && !!shareUrl} disabled={!shareUrl} onChange={(e) => setPrintQr(e.target.checked)} />
+              <span>
+                <span className="export-modal__print-label">QR code to the shared list</span>
+                {!shareUrl && <span className="export-modal__help-text">Generate a share link first.</span>}
+              </span>
+            </label>
+            <label className="export-modal__print-option">
+              <input type="checkbox" checked={printAppendix} onChange={(e) => setPrintAppendix(e.target.checked)} />
+              <span className="export-modal__print-label">Detachment rules and stratagems appendix</span>
+            </label>
+            <p className="export-modal__help-text export-modal__help-text--spaced">
+              Choose "Save as PDF" as the printer to get a file for event submission.
+            </p>
+            <div className="modal-panel__actions">
+              <button className="btn" onClick={onClose}>Close</button>
+              <button className="btn btn--primary" onClick={handlePrint} disabled={!!printJob}>
+                {printJob ? 'Printing...' : 'Print / Save as PDF'}
+              </button>
+            </div>
+          </>
+        )}
+
         {tab === 'share' && (
           <>
             <div className="export-modal__share-body">
@@ -377,6 +449,9 @@ export function ExportModal(props: ExportModalProps) {
                   <button className="btn btn--primary" onClick={handleCopyShareLink}>
                     {shareCopied ? 'Link Copied!' : 'Copy Share Link'}
                   </button>
+                  <button className="btn" onClick={handleCopyEmbedCode}>
+                    {embedCopied ? 'Embed Code Copied!' : 'Copy Embed Code'}
+                  </button>
                 </>
               ) : (
                 <>
@@ -388,6 +463,16 @@ export function ExportModal(props: ExportModalProps) {
                   </button>
                 </>
               )}
+              {listDocument && (
+                <div className="export-modal__list-link">
+                  <p className="export-modal__help-text">
+                    Or copy a link with the whole list inside. It needs no share code or account, and opens offline on devices that have this army's data cached; later edits aren't included.
+                  </p>
+                  <button className="btn" onClick={handleCopyListLink}>
+                    {listLinkCopied ? 'Link Copied!' : 'Copy List Link'}
+                  </button>
+                </div>
+              )}
             </div>
             <div className="modal-panel__actions">
               <button className="btn" onClick={onClose}>Close</button>
@@ -398,29 +483,61 @@ export function ExportModal(props: ExportModalProps) {
         {tab === 'import' && (
           <>
             <p className="export-modal__help-text export-modal__help-text--spaced">
-              Paste an exported list below. Supports our native format and BattleScribe plain-text output. Units are matched by name against the current faction.
+              Paste an exported list below. Supports the Warhammer 40,000 app, New Recruit (WTC and GW formats), BattleScribe text and our own text and JSON exports. Units, wargear, enhancements and leaders are matched against the current faction.
             </p>
+            {(onImportRoster || onImportDocument) && (
+              <div className="export-modal__file-row">
+                <span className="export-modal__help-text">Or import a WarForge .json file or a BattleScribe / New Recruit roster with full wargear:</span>
+                <input
+                  ref={rosterInputRef}
+                  type="file"
+                  accept=".ros,.rosz,.json"
+                  className="sr-only"
+                  onChange={(e) => handleImportFile(e.target.files?.[0])}
+                />
+                <button className="btn" disabled={importing} onClick={() => rosterInputRef.current?.click()}>
+                  Choose file
+                </button>
+              </div>
+            )}
             <textarea
               value={importText}
               onChange={(e) => setImportText(e.target.value)}
               placeholder="Paste exported list text here..."
               className="export-modal__textarea"
             />
+            {detectedFormat && (
+              <p className="export-modal__help-text export-modal__help-text--spaced">Detected format: {detectedFormat.label}</p>
+            )}
             {importResult && (
               <div
                 className={`validation-banner validation-banner--spaced ${importResult.success ? 'validation-banner--warning' : 'validation-banner--error'}`}
               >
-                {importResult.success ? (
-                  <>
-                    <div>Imported {importResult.matched} unit{importResult.matched !== 1 ? 's' : ''} successfully.</div>
-                    {importResult.unmatched.length > 0 && (
-                      <div className="validation-banner__detail">
-                        Could not match: {importResult.unmatched.join(', ')}
-                      </div>
-                    )}
-                  </>
+                {importResult.success && importResult.report ? (
+                  <div>
+                    Imported {importResult.report.matchedUnits} unit{importResult.report.matchedUnits !== 1 ? 's' : ''}
+                    {importResult.report.rosterName ? ` from ${importResult.report.rosterName}` : ''}
+                    {importResult.report.detachmentName ? ` (${importResult.report.detachmentName})` : ''}.
+                  </div>
                 ) : (
-                  <div>Import failed. Check the text format and try again.</div>
+                  <div>Import failed{importResult.error ? `: ${importResult.error}` : '. Check the list and try again.'}</div>
+                )}
+                {importResult.report && importResult.report.notes.length > 0 && (
+                  <ul className="export-modal__report-list">
+                    {importResult.report.notes.map(note => <li key={note}>{note}</li>)}
+                  </ul>
+                )}
+                {importResult.report && importResult.report.unmatched.length > 0 && (
+                  <div className="validation-banner__detail">
+                    {importResult.report.unmatched.length} selection{importResult.report.unmatched.length !== 1 ? 's' : ''} could not be matched:
+                    <ul className="export-modal__report-list">
+                      {importResult.report.unmatched.map((u, i) => (
+                        <li key={i}>
+                          {u.unit ? `${u.unit}: ` : ''}<strong>{u.selection}</strong> — {u.reason}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
                 )}
               </div>
             )}
@@ -429,24 +546,8 @@ export function ExportModal(props: ExportModalProps) {
               <button className="btn" onClick={onClose}>Close</button>
               <button
                 className="btn btn--primary"
-                disabled={!importText.trim() || importing || !onImport}
-                onClick={async () => {
-                  if (!onImport) return;
-                  setImporting(true);
-                  setImportResult(null);
-                  try {
-                    const parsed = parseImportText(importText);
-                    const result = await onImport(parsed);
-                    setImportResult(result);
-                    if (result.success) {
-                      setTimeout(onClose, 1500);
-                    }
-                  } catch {
-                    setImportResult({ success: false, matched: 0, unmatched: [] });
-                  } finally {
-                    setImporting(false);
-                  }
-                }}
+                disabled={!importText.trim() || importing || (!onImport && !isListDocument)}
+                onClick={handleImportText}
               >
                 {importing ? 'Importing...' : 'Import List'}
               </button>
@@ -454,6 +555,7 @@ export function ExportModal(props: ExportModalProps) {
           </>
         )}
       </div>
+      {printJob && <PrintPack options={printJob} onDone={() => setPrintJob(null)} />}
     </div>
   );
 }
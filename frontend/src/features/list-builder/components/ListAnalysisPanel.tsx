@@ -0,0 +1,136 @@
+import { useMemo, useState } from 'react';
+import { useListEditorStore } from '../stores/listEditorStore';
+import {
+  REFERENCE_TARGETS, SAVE_COLUMNS, TOUGHNESS_BANDS, listDurability, listFirepower, totalFirepower, type Phase,
+} from '../lib/listAnalysis';
+
+const PHASE_LABELS: Record<Phase, string> = { shooting: 'Shooting', melee: 'Melee' };
+
+const formatWounds = (value: number) => (value >= 10 ? value.toFixed(0) : value.toFixed(1));
+
+/**
+ * Whole-list firepower against reference targets and the list's own durability, from the
+ * wargear and model counts currently picked in the editor.
+ */
+export function ListAnalysisPanel() {
+  const listUnits = useListEditorStore((s) => s.listUnits);
+  const wargearOptions = useListEditorStore((s) => s.wargearOptions);
+  const wargearSubOptions = useListEditorStore((s) => s.wargearSubOptions);
+  const unitWargearSelections = useListEditorStore((s) => s.unitWargearSelections);
+  const unitWargearRowIds = useListEditorStore((s) => s.unitWargearRowIds);
+  const unitWargearSubSelections = useListEditorStore((s) => s.unitWargearSubSelections);
+  const modelVariants = useListEditorStore((s) => s.modelVariants);
+  const unitCompositions = useListEditorStore((s) => s.unitCompositions);
+
+  const [phase, setPhase] = useState<Phase>('shooting');
+  const [halfRange, setHalfRange] = useState(false);
+
+  const units = useMemo(() => listFirepower({
+    listUnits, wargearOptions, wargearSubOptions, unitWargearSelections, unitWargearRowIds,
+    unitWargearSubSelections, modelVariants, unitCompositions,
+  }, { halfRange }), [
+    listUnits, wargearOptions, wargearSubOptions, unitWargearSelections, unitWargearRowIds,
+    unitWargearSubSelections, modelVariants, unitCompositions, halfRange,
+  ]);
+  const totals = useMemo(() => totalFirepower(units), [units]);
+  const durability = useMemo(() => listDurability({ listUnits }), [listUnits]);
+
+  if (listUnits.length === 0) {
+    return <p className="list-analysis__empty">Add units to see the list's firepower and durability.</p>;
+  }
+
+  const contributors = units.filter(u => REFERENCE_TARGETS.some(t => u[phase][t.key] > 0));
+  const bands = TOUGHNESS_BANDS.filter(b => SAVE_COLUMNS.some(s => durability.wounds[b.label][s] > 0));
+  const invulnerableShare = durability.totalWounds > 0 ? Math.round(durability.invulnerableWounds / durability.totalWounds * 100) : 0;
+
+  return (
+    <div className="list-analysis">
+      <div className="list-analysis__controls">
+        <span className="list-analysis__hint">Expected wounds if every unit attacks</span>
+        <label className="list-analysis__check">
+          <input type="checkbox" checked={halfRange} onChange={(e) => setHalfRange(e.target.checked)} />
+          Half range
+        </label>
+      </div>
+
+      <table className="weapons-table weapons-table--compact list-analysis__table">
+        <thead>
+          <tr>
+            <th>Phase</th>
+            {REFERENCE_TARGETS.map(t => <th key={t.key} title={t.description}>{t.name}</th>)}
+          </tr>
+        </thead>
+        <tbody>
+          {(['shooting', 'melee'] as const).map(p => (
+            <tr key={p}>
+              <td>{PHASE_LABELS[p]}</td>
+              {REFERENCE_TARGETS.map(t => <td key={t.key}>{formatWounds(totals[p][t.key])}</td>)}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div className="list-analysis__section-header">
+        <h4 className="list-analysis__heading">By unit</h4>
+        <div className="list-analysis__phases">
+          {(['shooting', 'melee'] as const).map(p => (
+            <button
+              key={p}
+              className={`list-analysis__phase${phase === p ? ' list-analysis__phase--active' : ''}`}
+              onClick={() => setPhase(p)}
+            >
+              {PHASE_LABELS[p]}
+            </button>
+          ))}
+        </div>
+      </div>
+      {contributors.length === 0 ? (
+        <p className="list-analysis__empty">No {phase === 'shooting' ? 'ranged' : 'melee'} weapons in the list.</p>
+      ) : (
+        <table className="weapons-table weapons-table--compact list-analysis__table">
+          <thead>
+            <tr>
+              <th>Unit</th>
+              {REFERENCE_TARGETS.map(t => <th key={t.key} title={t.description}>{t.name}</th>)}
+            </tr>
+          </thead>
+          <tbody>
+            {contributors.map(u => (
+              <tr key={u.armyListUnitId}>
+                <td>{u.name}</td>
+                {REFERENCE_TARGETS.map(t => <td key={t.key}>{formatWounds(u[phase][t.key])}</td>)}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <div className="list-analysis__section-header">
+        <h4 className="list-analysis__heading">Durability</h4>
+        <span className="list-analysis__hint">
+          {durability.totalWounds} wounds over {durability.totalModels} models · {invulnerableShare}% behind an invulnerable save
+        </span>
+      </div>
+      <table className="weapons-table weapons-table--compact list-analysis__table">
+        <thead>
+          <tr>
+            <th>Toughness</th>
+            {SAVE_COLUMNS.map(s => <th key={s}>{s === '-' ? 'No save' : s}</th>)}
+          </tr>
+        </thead>
+        <tbody>
+          {bands.map(b => (
+            <tr key={b.label}>
+              <td>{b.label}</td>
+              {SAVE_COLUMNS.map(s => (
+                <td key={s} className={durability.wounds[b.label][s] === 0 ? 'list-analysis__zero' : undefined}>
+                  {durability.wounds[b.label][s]}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+import { useEffect, useState } from 'react';
+import { useSocialStore } from '../../social/stores/socialStore';
+import { useListCollaborators } from '../hooks/useListCollaborators';
+import type { ArmyListCollaborator } from '../../../shared/types/database';
+
+interface ListCollaboratorsModalProps {
+  listId: string;
+  userId: string;
+  onClose: () => void;
+}
+
+const ROLE_DESCRIPTIONS: Record<ArmyListCollaborator['role'], string> = {
+  editor: 'Can edit',
+  viewer: 'Can view',
+};
+
+export function ListCollaboratorsModal({ listId, userId, onClose }: ListCollaboratorsModalProps) {
+  const { collaborators, loading, error, fetch, add, updateRole, remove } = useListCollaborators();
+  const friends = useSocialStore((s) => s.friends);
+  const loadFriends = useSocialStore((s) => s.loadFriends);
+  const [friendId, setFriendId] = useState('');
+  const [role, setRole] = useState<ArmyListCollaborator['role']>('editor');
+
+  useEffect(() => {
+    fetch(listId);
+    loadFriends(userId);
+  }, [fetch, loadFriends, listId, userId]);
+
+  const candidates = friends.filter(f => !collaborators.some(c => c.user_id === f.profile.id));
+
+  async function handleAdd() {
+    if (!friendId) return;
+    await add(listId, friendId, role);
+    setFriendId('');
+  }
+
+  return (
+    <div className="modal-backdrop" onClick={onClose}>
+      <div
+        className="modal-panel modal-panel--sm list-collaborators-modal"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="list-collaborators-title"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h3 className="modal-panel__title" id="list-collaborators-title">Collaborators</h3>
+        <p className="list-collaborators-modal__hint">
+          Editors can change the list alongside you in real time. Viewers can follow along but not edit.
+        </p>
+
+        {error && <div className="list-collaborators-modal__error">{error}</div>}
+
+        {loading ? (
+          <div className="skeleton skeleton--bar" />
+        ) : collaborators.length === 0 ? (
+          <div className="list-collaborators-modal__empty">Only you can see this list.</div>
+        ) : (
+          <ul className="list-collaborators-modal__list">
+            {collaborators.map(c => (
+              <li key={c.id} className="list-collaborators-modal__row">
+                <span className="list-collaborators-modal__name">{c.user_profiles?.display_name ?? 'Unknown player'}</span>
+                <select
+                  className="form-select list-collaborators-modal__role"
+                  value={c.role}
+                  onChange={(e) => updateRole(c.id, e.target.value as ArmyListCollaborator['role'])}
+                  aria-label={`Access for ${c.user_profiles?.display_name ?? 'collaborator'}`}
+                >
+                  <option value="editor">{ROLE_DESCRIPTIONS.editor}</option>
+                  <option value="viewer">{ROLE_DESCRIPTIONS.viewer}</option>
+                </select>
+                <button
+                  className="btn btn--sm btn--ghost"
+                  onClick={() => remove(c.id)}
+                  title="Remove collaborator"
+                >
+                  &times;
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="list-collaborators-modal__add">
+          <select
+            className="form-select"
+            value={friendId}
+            onChange={(e) => setFriendId(e.target.value)}
+            disabled={candidates.length === 0}
+            aria-label="Friend to add"
+          >
+            <option value="">{candidates.length === 0 ? 'No friends left to add' : 'Add a friend...'}</option>
+            {candidates.map(f => (
+              <option key={f.profile.id} value={f.profile.id}>{f.profile.display_name}</option>
+            ))}
+          </select>
+          <select
+            className="form-select"
+            value={role}
+            onChange={(e) => setRole(e.target.value as ArmyListCollaborator['role'])}
+            aria-label="Access for new collaborator"
+          >
+            <option value="editor">{ROLE_DESCRIPTIONS.editor}</option>
+            <option value="viewer">{ROLE_DESCRIPTIONS.viewer}</option>
+          </select>
+          <button className="btn btn--primary btn--sm" onClick={handleAdd} disabled={!friendId}>
+            Add
+          </button>
+        </div>
+
+        <div className="modal-panel__actions">
+          <button className="btn" onClick={onClose}>Done</button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,396 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useAuth } from '../../../shared/hooks/useAuth';
+import { useSocialStore } from '../../social/stores/socialStore';
+import { useListEditorStore } from '../stores/listEditorStore';
+import { useListComments } from '../hooks/useListComments';
+import { CommentThreadView } from './CommentThreadView';
+import {
+  buildThreads, parseProposal, proposalBlocker, threadAnchorLabel,
+  type CommentWithAuthor, type ListChangeProposal,
+} from '../lib/listReview';
+
+interface ListCommentsPanelProps {
+  listId: string;
+  onClose: () => void;
+}
+
+/** Anchor value for threads on the list as a whole */
+const WHOLE_LIST = '';
+
+type ProposalKind = '' | ListChangeProposal['type'];
+
+const REVIEW_STATUS_LABELS = { pending: 'Waiting', completed: 'Reviewed', declined: 'Declined' } as const;
+
+/**
+ * Applies an accepted proposal through the editor store, so it lands in undo history like any
+ * edit. Returns false if nothing was committed (the save failed or a cascade preview is still
+ * waiting on the user).
+ */
+async function applyProposal(proposal: ListChangeProposal): Promise<boolean> {
+  const store = useListEditorStore.getState();
+  const lastCommand = store.undoStack.at(-1);
+  switch (proposal.type) {
+    case 'model_count':
+      await store.updateModelCount(proposal.armyListUnitId, proposal.modelCount);
+      break;
+    case 'remove_unit':
+      await store.removeUnit(proposal.armyListUnitId);
+      break;
+    case 'enhancement':
+      await store.assignEnhancement(proposal.armyListUnitId, proposal.enhancementId ?? '');
+      break;
+    case 'add_unit': {
+      const unit = store.availableUnits.find(u => u.id === proposal.unitId);
+      if (unit) await store.addUnit(unit);
+      break;
+    }
+  }
+  return useListEditorStore.getState().undoStack.at(-1) !== lastCommand;
+}
+
+export function ListCommentsPanel({ listId, onClose }: ListCommentsPanelProps) {
+  const { user } = useAuth();
+  const listUnits = useListEditorStore((s) => s.listUnits);
+  const enhancements = useListEditorStore((s) => s.enhancements);
+  const availableUnits = useListEditorStore((s) => s.availableUnits);
+  const accessRole = useListEditorStore((s) => s.accessRole);
+  const selectedArmyListUnitId = useListEditorStore((s) => s.selectedArmyListUnitId);
+  const friends = useSocialStore((s) => s.friends);
+  const loadFriends = useSocialStore((s) => s.loadFriends);
+  const {
+    comments, reviewRequests, loading, error,
+    fetch, addComment, setResolved, setProposalStatus, deleteComment, requestReview, withdrawReview, setReviewStatus,
+  } = useListComments();
+
+  const [anchor, setAnchor] = useState(selectedArmyListUnitId ?? WHOLE_LIST);
+  const [body, setBody] = useState('');
+  const [proposalKind, setProposalKind] = useState<ProposalKind>('');
+  const [proposalValue, setProposalValue] = useState('');
+  const [replyTo, setReplyTo] = useState<string | null>(null);
+  const [replyBody, setReplyBody] = useState('');
+  const [showResolved, setShowResolved] = useState(false);
+  const [reviewerId, setReviewerId] = useState('');
+  const [reviewMessage, setReviewMessage] = useState('');
+  const [applying, setApplying] = useState<string | null>(null);
+
+  const isOwner = accessRole === 'owner';
+  const canEdit = accessRole !== 'viewer';
+
+  useEffect(() => {
+    fetch(listId);
+  }, [fetch, listId]);
+
+  useEffect(() => {
+    if (isOwner && user) loadFriends(user.id);
+  }, [isOwner, user, loadFriends]);
+
+  const threads = useMemo(() => buildThreads(comments), [comments]);
+  const unitNames = useMemo(() => new Map(listUnits.map(lu => [lu.id, lu.units.name])), [listUnits]);
+  const visibleThreads = showResolved ? threads : threads.filter(t => !t.root.resolved_at);
+  const resolvedCount = threads.length - threads.filter(t => !t.root.resolved_at).length;
+
+  const anchorUnit = listUnits.find(lu => lu.id === anchor) ?? null;
+  const myReview = user ? reviewRequests.find(r => r.reviewer_id === user.id && r.status === 'pending') : undefined;
+  const inviteCandidates = friends.filter(f => !reviewRequests.some(r => r.reviewer_id === f.profile.id));
+
+  function buildProposal(): ListChangeProposal | null {
+    if (proposalKind === 'add_unit') {
+      const unit = availableUnits.find(u => u.id === proposalValue);
+      return unit ? { type: 'add_unit', unitId: unit.id, unitName: unit.name } : null;
+    }
+    if (!anchorUnit) return null;
+    if (proposalKind === 'remove_unit') return { type: 'remove_unit', armyListUnitId: anchorUnit.id };
+    if (proposalKind === 'model_count' && proposalValue) {
+      return { type: 'model_count', armyListUnitId: anchorUnit.id, modelCount: Number(proposalValue) };
+    }
+    if (proposalKind === 'enhancement') {
+      const enhancement = enhancements.find(e => e.id === proposalValue);
+      return {
+        type: 'enhancement',
+        armyListUnitId: anchorUnit.id,
+        enhancementId: enhancement?.id ?? null,
+        enhancementName: enhancement?.name ?? null,
+      };
+    }
+    return null;
+  }
+
+  async function handleSubmit() {
+    if (!user || !body.trim()) return;
+    const added = await addComment(listId, user.id, {
+      body: body.trim(),
+      armyListUnitId: anchorUnit?.id ?? null,
+      unitName: anchorUnit?.units.name ?? null,
+      proposal: buildProposal(),
+    });
+    if (!added) return;
+    setBody('');
+    setProposalKind('');
+    setProposalValue('');
+  }
+
+  async function handleReply(rootId: string) {
+    if (!user || !replyBody.trim()) return;
+    const root = comments.find(c => c.id === rootId);
+    const added = await addComment(listId, user.id, {
+      body: replyBody.trim(),
+      parentId: rootId,
+      armyListUnitId: root?.army_list_unit_id ?? null,
+      unitName: root?.unit_name ?? null,
+    });
+    if (!added) return;
+    setReplyTo(null);
+    setReplyBody('');
+  }
+
+  async function handleAccept(comment: CommentWithAuthor) {
+    const proposal = parseProposal(comment.proposal);
+    if (!proposal) return;
+    setApplying(comment.id);
+    if (await applyProposal(proposal)) {
+      await setProposalStatus(comment.id, 'accepted');
+      await setResolved(comment.parent_id ?? comment.id, true);
+    }
+    setApplying(null);
+  }
+
+  async function handleRequestReview() {
+    if (!user || !reviewerId) return;
+    await requestReview(listId, user.id, reviewerId, reviewMessage);
+    setReviewerId('');
+    setReviewMessage('');
+  }
+
+  function renderProposalActions(comment: CommentWithAuthor) {
+    const proposal = parseProposal(comment.proposal);
+    if (!canEdit || comment.proposal_status !== 'open' || !proposal) return null;
+    const blocker = proposalBlocker(proposal, { listUnits, enhancements, availableUnits });
+    return (
+      <span className="comment-thread__proposal-actions">
+        {blocker && <span className="comment-thread__proposal-blocker">{blocker}</span>}
+        <button
+          className="btn btn--sm btn--primary"
+          onClick={() => handleAccept(comment)}
+          disabled={!!blocker || applying !== null}
+        >
+          {applying === comment.id ? 'Applying...' : 'Accept'}
+        </button>
+        <button className="btn btn--sm btn--ghost" onClick={() => setProposalStatus(comment.id, 'dismissed')}>
+          Dismiss
+        </button>
+      </span>
+    );
+  }
+
+  return (
+    <div className="list-history-panel list-comments-panel">
+      <div className="list-history-panel__backdrop" onClick={onClose} />
+      <div className="list-history-panel__drawer">
+        <div className="list-history-panel__header">
+          <h2 className="list-history-panel__title">Comments</h2>
+          <button className="list-history-panel__close" onClick={onClose} aria-label="Close comments panel">
+            ✕
+          </button>
+        </div>
+
+        {error && <div className="list-history-panel__error">{error}</div>}
+
+        {/* Reviewer: finish the review they were asked for */}
+        {myReview && (
+          <div className="list-comments-panel__review-banner">
+            <span>You were asked to review this list{myReview.message ? `: “${myReview.message}”` : '.'}</span>
+            <button className="btn btn--sm btn--primary" onClick={() => setReviewStatus(myReview.id, 'completed')}>
+              Mark review done
+            </button>
+          </div>
+        )}
+
+        {/* Owner: ask friends for a review */}
+        {isOwner && (
+          <div className="list-comments-panel__reviews">
+            <div className="list-comments-panel__section-title">Reviewers</div>
+            {reviewRequests.length > 0 && (
+              <ul className="list-comments-panel__reviewers">
+                {reviewRequests.map(r => (
+                  <li key={r.id} className="list-comments-panel__reviewer">
+                    <span>{r.reviewer?.display_name ?? 'Unknown player'}</span>
+                    <span className={`list-comments-panel__review-status list-comments-panel__review-status--${r.status}`}>
+                      {REVIEW_STATUS_LABELS[r.status]}
+                    </span>
+                    <button className="comment-thread__delete" onClick={() => withdrawReview(r.id)} title="Withdraw request">
+                      &times;
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <div className="list-comments-panel__request">
+              <select
+                className="form-select"
+                value={reviewerId}
+                onChange={(e) => setReviewerId(e.target.value)}
+                disabled={inviteCandidates.length === 0}
+                aria-label="Friend to ask for a review"
+              >
+                <option value="">{inviteCandidates.length === 0 ? 'No friends left to ask' : 'Ask a friend...'}</option>
+                {inviteCandidates.map(f => (
+                  <option key={f.profile.id} value={f.profile.id}>{f.profile.display_name}</option>
+                ))}
+              </select>
+              <input
+                className="form-input"
+                type="text"
+                placeholder="What should they look at? (optional)"
+                value={reviewMessage}
+                maxLength={500}
+                onChange={(e) => setReviewMessage(e.target.value)}
+              />
+              <button className="btn btn--sm btn--primary" onClick={handleRequestReview} disabled={!reviewerId}>
+                Request review
+              </button>
+            </div>
+          </div>
+        )}
+
+        <div className="list-comments-panel__threads">
+          {loading ? (
+            <div className="list-history-panel__loading">Loading comments...</div>
+          ) : visibleThreads.length === 0 ? (
+            <div className="list-history-panel__empty">
+              {threads.length === 0 ? 'No comments yet.' : 'All threads are resolved.'}
+            </div>
+          ) : (
+            visibleThreads.map(thread => {
+              const resolved = !!thread.root.resolved_at;
+              const canResolve = canEdit || thread.root.author_id === user?.id;
+              return (
+                <CommentThreadView
+                  key={thread.root.id}
+                  thread={thread}
+                  anchorLabel={threadAnchorLabel(thread, unitNames)}
+                  renderProposalActions={renderProposalActions}
+                  onDelete={(comment) => deleteComment(comment.id)}
+                  canDelete={(comment) => comment.author_id === user?.id}
+                  footer={
+                    <div className="comment-thread__footer">
+                      {replyTo === thread.root.id ? (
+                        <div className="comment-thread__reply">
+                          <textarea
+                            className="form-input"
+                            rows={2}
+                            value={replyBody}
+                            maxLength={2000}
+                            onChange={(e) => setReplyBody(e.target.value)}
+                            placeholder="Reply..."
+                            autoFocus
+                          />
+                          <button className="btn btn--sm btn--primary" onClick={() => handleReply(thread.root.id)} disabled={!replyBody.trim()}>
+                            Reply
+                          </button>
+                          <button className="btn btn--sm btn--ghost" onClick={() => setReplyTo(null)}>Cancel</button>
+                        </div>
+                      ) : (
+                        <>
+                          {!resolved && (
+                            <button className="btn btn--sm btn--ghost" onClick={() => { setReplyTo(thread.root.id); setReplyBody(''); }}>
+                              Reply
+                            </button>
+                          )}
+                          {canResolve && (
+                            <button className="btn btn--sm btn--ghost" onClick={() => setResolved(thread.root.id, !resolved)}>
+                              {resolved ? 'Reopen' : 'Resolve'}
+                            </button>
+                          )}
+                        </>
+                      )}
+                    </div>
+                  }
+                />
+              );
+            })
+          )}
+          {resolvedCount > 0 && (
+            <button className="btn btn--sm btn--ghost list-comments-panel__toggle" onClick={() => setShowResolved(!showResolved)}>
+              {showResolved ? 'Hide resolved threads' : `Show ${resolvedCount} resolved ${resolvedCount === 1 ? 'thread' : 'threads'}`}
+            </button>
+          )}
+        </div>
+
+        {/* New thread */}
+        <div className="list-comments-panel__composer">
+          <select
+            className="form-select"
+            value={anchor}
+            onChange={(e) => { setAnchor(e.target.value); setProposalKind(''); setProposalValue(''); }}
+            aria-label="Comment on"
+          >
+            <option value={WHOLE_LIST}>Whole list</option>
+            {listUnits.map(lu => (
+              <option key={lu.id} value={lu.id}>{lu.units.name}{lu.model_count > 1 ? ` (${lu.model_count})` : ''}</option>
+            ))}
+          </select>
+          <textarea
+            className="form-input"
+            rows={3}
+            value={body}
+            maxLength={2000}
+            onChange={(e) => setBody(e.target.value)}
+            placeholder={anchorUnit ? `Comment on ${anchorUnit.units.name}...` : 'Comment on the list...'}
+          />
+          <div className="list-comments-panel__proposal">
+            <select
+              className="form-select"
+              value={proposalKind}
+              onChange={(e) => { setProposalKind(e.target.value as ProposalKind); setProposalValue(''); }}
+              aria-label="Suggest a change"
+            >
+              <option value="">No suggested change</option>
+              {anchorUnit ? (
+                <>
+                  {(anchorUnit.units.unit_points_tiers ?? []).length > 1 && <option value="model_count">Suggest a unit size</option>}
+                  {anchorUnit.units.role === 'character' && <option value="enhancement">Suggest an enhancement</option>}
+                  <option value="remove_unit">Suggest removing it</option>
+                </>
+              ) : (
+                <option value="add_unit">Suggest adding a unit</option>
+              )}
+            </select>
+            {proposalKind === 'model_count' && anchorUnit && (
+              <select className="form-select" value={proposalValue} onChange={(e) => setProposalValue(e.target.value)} aria-label="Unit size">
+                <option value="">Size...</option>
+                {anchorUnit.units.unit_points_tiers
+                  .filter(t => t.model_count !== anchorUnit.model_count)
+                  .map(t => (
+                    <option key={t.model_count} value={t.model_count}>{t.model_count} models ({t.points} pts)</option>
+                  ))}
+              </select>
+            )}
+            {proposalKind === 'enhancement' && (
+              <select className="form-select" value={proposalValue} onChange={(e) => setProposalValue(e.target.value)} aria-label="Enhancement">
+                <option value="">No enhancement</option>
+                {enhancements.map(e => (
+                  <option key={e.id} value={e.id}>{e.name} ({e.points} pts)</option>
+                ))}
+              </select>
+            )}
+            {proposalKind === 'add_unit' && (
+              <select className="form-select" value={proposalValue} onChange={(e) => setProposalValue(e.target.value)} aria-label="Unit to add">
+                <option value="">Unit...</option>
+                {availableUnits.map(u => (
+                  <option key={u.id} value={u.id}>{u.name}</option>
+                ))}
+              </select>
+            )}
+          </div>
+          <button
+            className="btn btn--primary"
+            onClick={handleSubmit}
+            disabled={!body.trim() || (proposalKind !== '' && proposalKind !== 'enhancement' && proposalKind !== 'remove_unit' && !proposalValue)}
+          >
+            Comment
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
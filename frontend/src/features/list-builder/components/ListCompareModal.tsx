@@ -1,138 +1,134 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { supabase } from '../../../shared/lib/supabase';
 import type { ArmyList, Faction, Detachment } from '../../../shared/types/database';
-import { getUnitPoints } from '../stores/listEditorStore';
+import { ROLE_ORDER, ROLE_LABELS } from '../stores/listEditorStore';
 import type { ArmyListUnitWithDetails } from '../stores/listEditorStore';
+import {
+  buildCompareEntries, matchCompareRows, rolePoints,
+  type CompareEntry, type CompareField, type CompareListSource,
+} from '../lib/listCompare';
 
 interface ListCompareModalProps {
-  listA: ArmyList & { factions: Faction };
-  listB: ArmyList & { factions: Faction };
+  /** Two to four lists, shown in this order */
+  lists: (ArmyList & { factions: Faction })[];
   onClose: () => void;
 }
 
-interface UnitRow {
-  unitId: string;
-  unitName: string;
-  role: string;
-  totalPtsA: number | null;
-  totalPtsB: number | null;
-  totalModelsA: number | null;
-  totalModelsB: number | null;
-  entryCountA: number;
-  entryCountB: number;
+interface CompareColumn {
+  detachment: Detachment | null;
+  entries: CompareEntry[];
+  totalPts: number;
 }
 
-async function fetchListData(listId: string) {
-  const [unitsRes, listRes] = await Promise.all([
+async function fetchListData(listId: string): Promise<CompareColumn> {
+  const [unitsRes, listRes, enhRes, leaderRes] = await Promise.all([
     supabase
       .from('army_list_units')
       .select('*, units(*, unit_points_tiers(*))')
       .eq('army_list_id', listId)
       .order('sort_order'),
     supabase.from('army_lists').select('*, detachments(*)').eq('id', listId).single(),
+    supabase.from('army_list_enhancements').select('*, enhancements(*)').eq('army_list_id', listId),
+    supabase.from('army_list_leader_attachments').select('*').eq('army_list_id', listId),
   ]);
+  const units = (unitsRes.data ?? []) as ArmyListUnitWithDetails[];
+  const listUnitIds = units.map(u => u.id);
+
+  const [wargearRes, compRes] = listUnitIds.length > 0
+    ? await Promise.all([
+        supabase.from('army_list_unit_wargear').select('*, wargear_options(*)').in('army_list_unit_id', listUnitIds),
+        supabase.from('army_list_unit_composition').select('*, unit_model_variants(*)').in('army_list_unit_id', listUnitIds),
+      ])
+    : [{ data: [] }, { data: [] }];
+  const wargear = (wargearRes.data ?? []) as CompareListSource['wargear'];
+
+  const wargearRowIds = wargear.map(w => w.id);
+  const { data: subData } = wargearRowIds.length > 0
+    ? await supabase
+        .from('army_list_unit_wargear_sub')
+        .select('*, wargear_sub_options(*)')
+        .in('army_list_unit_wargear_id', wargearRowIds)
+    : { data: [] };
+
+  const entries = buildCompareEntries({
+    units,
+    enhancements: (enhRes.data ?? []) as CompareListSource['enhancements'],
+    leaderAttachments: (leaderRes.data ?? []) as CompareListSource['leaderAttachments'],
+    wargear,
+    wargearSubs: (subData ?? []) as CompareListSource['wargearSubs'],
+    compositions: (compRes.data ?? []) as CompareListSource['compositions'],
+  });
   return {
-    units: (unitsRes.data ?? []) as ArmyListUnitWithDetails[],
     detachment: (listRes.data as (ArmyList & { detachments: Detachment }) | null)?.detachments ?? null,
+    entries,
+    totalPts: entries.reduce((s, e) => s + e.points, 0),
   };
 }
 
-function aggregateByUnit(units: ArmyListUnitWithDetails[]): Map<string, UnitRow> {
-  const map = new Map<string, UnitRow>();
-  for (const u of units) {
-    const pts = getUnitPoints(u.units, u.model_count);
-    const existing = map.get(u.unit_id);
-    if (existing) {
-      existing.totalPtsA = (existing.totalPtsA ?? 0) + pts;
-      existing.totalModelsA = (existing.totalModelsA ?? 0) + u.model_count;
-      existing.entryCountA += 1;
-    } else {
-      map.set(u.unit_id, {
-        unitId: u.unit_id,
-        unitName: u.units.name,
-        role: u.units.role ?? '',
-        totalPtsA: pts,
-        totalPtsB: null,
-        totalModelsA: u.model_count,
-        totalModelsB: null,
-        entryCountA: 1,
-        entryCountB: 0,
-      });
-    }
-  }
-  return map;
+function EntryCell({ entry, differs }: { entry: CompareEntry | null; differs: CompareField[] }) {
+  if (!entry) return <div className="list-compare__cell list-compare__cell--absent">—</div>;
+  const mark = (field: CompareField) => (differs.includes(field) ? ' list-compare__detail--diff' : '');
+  const wargear = Object.entries(entry.wargear);
+  const subOptions = Object.entries(entry.subOptions);
+  const composition = Object.entries(entry.composition);
+
+  return (
+    <div className="list-compare__cell">
+      <div className="list-compare__cell-main">
+        <span className={`list-compare__unit-count${mark('model_count')}`}>{entry.modelCount} models</span>
+        <span className="list-compare__unit-pts">{entry.points} pts</span>
+      </div>
+      {entry.enhancement && (
+        <div className={`list-compare__detail${mark('enhancement')}`}>&#9733; {entry.enhancement}</div>
+      )}
+      {wargear.length > 0 && (
+        <div className={`list-compare__detail${mark('wargear')}`}>
+          {wargear.map(([group, option]) => `${group}: ${option}`).join(' · ')}
+        </div>
+      )}
+      {subOptions.length > 0 && (
+        <div className={`list-compare__detail${mark('sub_options')}`}>
+          {subOptions.map(([name, qty]) => `${qty}× ${name}`).join(' · ')}
+        </div>
+      )}
+      {composition.length > 0 && (
+        <div className={`list-compare__detail${mark('composition')}`}>
+          {composition.map(([name, count]) => `${count}× ${name}`).join(' · ')}
+        </div>
+      )}
+      {entry.attachments.length > 0 && (
+        <div className={`list-compare__detail${mark('attachments')}`}>{entry.attachments.join(' · ')}</div>
+      )}
+    </div>
+  );
 }
 
-export function ListCompareModal({ listA, listB, onClose }: ListCompareModalProps) {
-  const [detachmentA, setDetachmentA] = useState<Detachment | null>(null);
-  const [detachmentB, setDetachmentB] = useState<Detachment | null>(null);
-  const [rows, setRows] = useState<UnitRow[]>([]);
-  const [totalPtsA, setTotalPtsA] = useState(0);
-  const [totalPtsB, setTotalPtsB] = useState(0);
+export function ListCompareModal({ lists, onClose }: ListCompareModalProps) {
+  const [columns, setColumns] = useState<CompareColumn[]>([]);
   const [loading, setLoading] = useState(true);
+  const [differencesOnly, setDifferencesOnly] = useState(false);
+  const listIds = lists.map(l => l.id).join(',');
 
   useEffect(() => {
     (async () => {
-      const [dataA, dataB] = await Promise.all([
-        fetchListData(listA.id),
-        fetchListData(listB.id),
-      ]);
-
-      setDetachmentA(dataA.detachment);
-      setDetachmentB(dataB.detachment);
-
-      const ptsA = dataA.units.reduce((s, u) => s + getUnitPoints(u.units, u.model_count), 0);
-      const ptsB = dataB.units.reduce((s, u) => s + getUnitPoints(u.units, u.model_count), 0);
-      setTotalPtsA(ptsA);
-      setTotalPtsB(ptsB);
-
-      // Build comparison map: start with A's units, then merge B
-      const mapA = aggregateByUnit(dataA.units);
-
-      for (const u of dataB.units) {
-        const pts = getUnitPoints(u.units, u.model_count);
-        const existing = mapA.get(u.unit_id);
-        if (existing) {
-          existing.totalPtsB = (existing.totalPtsB ?? 0) + pts;
-          existing.totalModelsB = (existing.totalModelsB ?? 0) + u.model_count;
-          existing.entryCountB += 1;
-        } else {
-          mapA.set(u.unit_id, {
-            unitId: u.unit_id,
-            unitName: u.units.name,
-            role: u.units.role ?? '',
-            totalPtsA: null,
-            totalPtsB: pts,
-            totalModelsA: null,
-            totalModelsB: u.model_count,
-            entryCountA: 0,
-            entryCountB: 1,
-          });
-        }
-      }
-
-      // Sort: shared first, then only-A, then only-B; alpha within each group
-      const sorted = [...mapA.values()].sort((a, b) => {
-        const aShared = a.totalPtsA !== null && a.totalPtsB !== null;
-        const bShared = b.totalPtsA !== null && b.totalPtsB !== null;
-        const aOnlyA = a.totalPtsA !== null && a.totalPtsB === null;
-        const bOnlyA = b.totalPtsA !== null && b.totalPtsB === null;
-        if (aShared && !bShared) return -1;
-        if (!aShared && bShared) return 1;
-        if (aOnlyA && !bOnlyA) return -1;
-        if (!aOnlyA && bOnlyA) return 1;
-        return a.unitName.localeCompare(b.unitName);
-      });
-
-      setRows(sorted);
+      setColumns(await Promise.all(listIds.split(',').map(fetchListData)));
       setLoading(false);
     })();
-  }, [listA.id, listB.id]);
-
-  const shared = rows.filter(r => r.totalPtsA !== null && r.totalPtsB !== null);
-  const onlyA = rows.filter(r => r.totalPtsA !== null && r.totalPtsB === null);
-  const onlyB = rows.filter(r => r.totalPtsA === null && r.totalPtsB !== null);
-  const ptsDelta = totalPtsA - totalPtsB;
+  }, [listIds]);
+
+  const rows = useMemo(() => matchCompareRows(columns.map(c => c.entries)), [columns]);
+  const subtotals = useMemo(() => columns.map(c => rolePoints(c.entries)), [columns]);
+
+  const visibleRows = differencesOnly
+    ? rows.filter(r => r.differs.length > 0 || r.entries.some(e => e === null))
+    : rows;
+  const roles = [
+    ...ROLE_ORDER.filter(role => rows.some(r => r.role === role)),
+    ...new Set(rows.map(r => r.role).filter(role => !(ROLE_ORDER as readonly string[]).includes(role))),
+  ];
+  const shared = rows.filter(r => r.entries.every(e => e !== null)).length;
+  const gridStyle = { gridTemplateColumns: `minmax(140px, 0.8fr) repeat(${lists.length}, minmax(0, 1fr))` };
+  const basePts = columns[0]?.totalPts ?? 0;
 
   return (
     <div className="modal-overlay" onClick={onClose} role="dialog" aria-modal="true" aria-labelledby="compare-modal-title">
@@ -143,30 +139,38 @@ export function ListCompareModal({ listA, listB, onClose }: ListCompareModalProp
         </div>
 
         {/* List headers */}
-        <div className="list-compare__headers">
-          <div className="list-compare__list-col list-compare__list-col--a">
-            <div className="list-compare__list-name">{listA.name}</div>
-            <div className="list-compare__list-sub">{listA.factions?.name}</div>
-            {detachmentA && <div className="list-compare__list-detachment">{detachmentA.name}</div>}
-            <div className="list-compare__list-pts">{totalPtsA} / {listA.points_limit} pts</div>
-          </div>
-          <div className="list-compare__vs">VS</div>
-          <div className="list-compare__list-col list-compare__list-col--b">
-            <div className="list-compare__list-name">{listB.name}</div>
-            <div className="list-compare__list-sub">{listB.factions?.name}</div>
-            {detachmentB && <div className="list-compare__list-detachment">{detachmentB.name}</div>}
-            <div className="list-compare__list-pts">{totalPtsB} / {listB.points_limit} pts</div>
-          </div>
+        <div className="list-compare__headers" style={gridStyle}>
+          <div />
+          {lists.map((list, i) => {
+            const column = columns[i];
+            const delta = column ? column.totalPts - basePts : 0;
+            return (
+              <div key={list.id} className="list-compare__list-col">
+                <div className="list-compare__list-name">{list.name}</div>
+                <div className="list-compare__list-sub">{list.factions?.name}</div>
+                {column?.detachment && <div className="list-compare__list-detachment">{column.detachment.name}</div>}
+                <div className="list-compare__list-pts">
+                  {column?.totalPts ?? 0} / {list.points_limit} pts
+                  {i > 0 && delta !== 0 && (
+                    <span className={`list-compare__delta-value ${delta > 0 ? 'list-compare__delta-value--pos' : 'list-compare__delta-value--neg'}`}>
+                      {' '}({delta > 0 ? `+${delta}` : delta})
+                    </span>
+                  )}
+                </div>
+              </div>
+            );
+          })}
         </div>
 
-        {/* Delta summary bar */}
+        {/* Summary bar */}
         <div className="list-compare__delta-bar">
-          <span className="list-compare__delta-label">Points delta:</span>
-          <span className={`list-compare__delta-value ${ptsDelta > 0 ? 'list-compare__delta-value--pos' : ptsDelta < 0 ? 'list-compare__delta-value--neg' : 'list-compare__delta-value--zero'}`}>
-            {ptsDelta > 0 ? `+${ptsDelta}` : ptsDelta < 0 ? `${ptsDelta}` : 'Equal'}
-            {ptsDelta !== 0 && ' pts (A vs B)'}
+          <label className="list-compare__toggle">
+            <input type="checkbox" checked={differencesOnly} onChange={e => setDifferencesOnly(e.target.checked)} />
+            Differences only
+          </label>
+          <span className="list-compare__delta-pill">
+            {shared} in every list · {rows.length - shared} not shared · {rows.filter(r => r.differs.length > 0).length} with different loadouts
           </span>
-          <span className="list-compare__delta-pill">{shared.length} shared · {onlyA.length} only A · {onlyB.length} only B</span>
         </div>
 
         {loading ? (
@@ -175,57 +179,29 @@ export function ListCompareModal({ listA, listB, onClose }: ListCompareModalProp
           </div>
         ) : (
           <div className="list-compare__body">
-            {shared.length > 0 && (
-              <div className="list-compare__section">
-                <div className="list-compare__section-label">In both lists</div>
-                {shared.map(row => (
-                  <div key={row.unitId} className="list-compare__row list-compare__row--shared">
-                    <div className="list-compare__cell list-compare__cell--a">
-                      <span className="list-compare__unit-count">{row.totalModelsA}×</span>
-                      <span className="list-compare__unit-name">{row.unitName}</span>
-                      <span className="list-compare__unit-pts">{row.totalPtsA} pts</span>
-                    </div>
-                    <div className="list-compare__cell list-compare__cell--b">
-                      <span className="list-compare__unit-count">{row.totalModelsB}×</span>
-                      <span className="list-compare__unit-name">{row.unitName}</span>
-                      <span className="list-compare__unit-pts">{row.totalPtsB} pts</span>
-                    </div>
-                  </div>
-                ))}
-              </div>
-            )}
-
-            {onlyA.length > 0 && (
-              <div className="list-compare__section">
-                <div className="list-compare__section-label list-compare__section-label--a">Only in {listA.name}</div>
-                {onlyA.map(row => (
-                  <div key={row.unitId} className="list-compare__row list-compare__row--only-a">
-                    <div className="list-compare__cell list-compare__cell--a">
-                      <span className="list-compare__unit-count">{row.totalModelsA}×</span>
-                      <span className="list-compare__unit-name">{row.unitName}</span>
-                      <span className="list-compare__unit-pts">{row.totalPtsA} pts</span>
-                    </div>
-                    <div className="list-compare__cell list-compare__cell--absent">—</div>
+            {roles.map(role => {
+              const roleRows = visibleRows.filter(r => r.role === role);
+              return (
+                <div key={role} className="list-compare__section">
+                  <div className="list-compare__row list-compare__row--subtotal" style={gridStyle}>
+                    <div className="list-compare__section-label">{ROLE_LABELS[role] ?? (role || 'Other')}</div>
+                    {subtotals.map((pts, i) => (
+                      <div key={i} className="list-compare__subtotal">{pts[role] ?? 0} pts</div>
+                    ))}
                   </div>
-                ))}
-              </div>
-            )}
-
-            {onlyB.length > 0 && (
-              <div className="list-compare__section">
-                <div className="list-compare__section-label list-compare__section-label--b">Only in {listB.name}</div>
-                {onlyB.map(row => (
-                  <div key={row.unitId} className="list-compare__row list-compare__row--only-b">
-                    <div className="list-compare__cell list-compare__cell--absent">—</div>
-                    <div className="list-compare__cell list-compare__cell--b">
-                      <span className="list-compare__unit-count">{row.totalModelsB}×</span>
-                      <span className="list-compare__unit-name">{row.unitName}</span>
-                      <span className="list-compare__unit-pts">{row.totalPtsB} pts</span>
+                  {roleRows.map((row, rowIndex) => (
+                    <div
+                      key={`${row.unitId}-${rowIndex}`}
+                      className={`list-compare__row${row.entries.some(e => e === null) ? ' list-compare__row--partial' : row.differs.length > 0 ? ' list-compare__row--differs' : ''}`}
+                      style={gridStyle}
+                    >
+                      <div className="list-compare__unit-name">{row.unitName}</div>
+                      {row.entries.map((entry, i) => <EntryCell key={i} entry={entry} differs={row.differs} />)}
                     </div>
-                  </div>
-                ))}
-              </div>
-            )}
+                  ))}
+                </div>
+              );
+            })}
           </div>
         )}
       </div>
@@ -1,7 +1,70 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { supabase } from '../../../shared/lib/supabase';
 import type { ArmyListVersion } from '../../../shared/types/database';
+import { selectTotalPoints, useListEditorStore } from '../stores/listEditorStore';
+import {
+  buildListSnapshot, describeUnitDiff, diffListSnapshots, formatListDiff, isListDiffEmpty, readListSnapshot,
+  type ListDiff, type ListSnapshot,
+} from '../lib/listVersionDiff';
+
+/** Compare key for the list as it is now, alongside version ids */
+const CURRENT = 'current';
+
+const signed = (n: number) => (n > 0 ? `+${n}` : `${n}`);
+
+function ListDiffView({ diff }: { diff: ListDiff }) {
+  if (isListDiffEmpty(diff)) {
+    return <div className="list-diff__empty">No changes between these versions.</div>;
+  }
+  return (
+    <div className="list-diff">
+      {(diff.name || diff.detachment || diff.pointsLimit || diff.points) && (
+        <ul className="list-diff__section">
+          {diff.name && <li>Renamed <strong>{diff.name.before}</strong> &rarr; <strong>{diff.name.after}</strong></li>}
+          {diff.detachment && (
+            <li>Detachment <strong>{diff.detachment.before}</strong> &rarr; <strong>{diff.detachment.after}</strong></li>
+          )}
+          {diff.pointsLimit && <li>Points limit {diff.pointsLimit.before} &rarr; {diff.pointsLimit.after}</li>}
+          {diff.points && (
+            <li>
+              Points {diff.points.before} &rarr; {diff.points.after}{' '}
+              <span className={`list-diff__delta${diff.points.delta > 0 ? ' list-diff__delta--up' : diff.points.delta < 0 ? ' list-diff__delta--down' : ''}`}>
+                ({signed(diff.points.delta)})
+              </span>
+            </li>
+          )}
+        </ul>
+      )}
+      {diff.added.length > 0 && (
+        <ul className="list-diff__section">
+          {diff.added.map((u, i) => (
+            <li key={i} className="list-diff__added">+ {u.unitName} <span className="list-diff__models">({u.modelCount})</span></li>
+          ))}
+        </ul>
+      )}
+      {diff.removed.length > 0 && (
+        <ul className="list-diff__section">
+          {diff.removed.map((u, i) => (
+            <li key={i} className="list-diff__removed">&minus; {u.unitName} <span className="list-diff__models">({u.modelCount})</span></li>
+          ))}
+        </ul>
+      )}
+      {diff.changed.length > 0 && (
+        <ul className="list-diff__section">
+          {diff.changed.map((u, i) => (
+            <li key={i} className="list-diff__changed">
+              ~ {u.unitName}
+              <ul className="list-diff__details">
+                {describeUnitDiff(u).map((line, j) => <li key={j}>{line}</li>)}
+              </ul>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
 
 interface ListHistoryPanelProps {
   listId: string;
@@ -14,6 +77,27 @@ export function ListHistoryPanel({ listId, onClose }: ListHistoryPanelProps) {
   const [loading, setLoading] = useState(true);
   const [restoring, setRestoring] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [compare, setCompare] = useState<string[]>([]);
+  const [copied, setCopied] = useState(false);
+
+  const list = useListEditorStore((s) => s.list);
+  const listUnits = useListEditorStore((s) => s.listUnits);
+  const listEnhancements = useListEditorStore((s) => s.listEnhancements);
+  const leaderAttachments = useListEditorStore((s) => s.leaderAttachments);
+  const transportEmbarks = useListEditorStore((s) => s.transportEmbarks);
+  const unitWargearSelections = useListEditorStore((s) => s.unitWargearSelections);
+  const unitCompositions = useListEditorStore((s) => s.unitCompositions);
+  const availableDetachments = useListEditorStore((s) => s.availableDetachments);
+  const enhancements = useListEditorStore((s) => s.enhancements);
+  const wargearOptions = useListEditorStore((s) => s.wargearOptions);
+  const modelVariants = useListEditorStore((s) => s.modelVariants);
+  const totalPoints = useListEditorStore(selectTotalPoints);
+
+  const currentSnapshot = useMemo(() => (list ? buildListSnapshot({
+    list, listUnits, listEnhancements, leaderAttachments, transportEmbarks, unitWargearSelections, unitCompositions,
+  }, totalPoints) : null), [
+    list, listUnits, listEnhancements, leaderAttachments, transportEmbarks, unitWargearSelections, unitCompositions, totalPoints,
+  ]);
 
   useEffect(() => {
     supabase
@@ -28,6 +112,38 @@ export function ListHistoryPanel({ listId, onClose }: ListHistoryPanelProps) {
       });
   }, [listId]);
 
+  const toggleCompare = (key: string) => {
+    setCompare(prev => (prev.includes(key) ? prev.filter(k => k !== key) : [...prev, key].slice(-2)));
+  };
+
+  // Older selection first; the current list is always the newest
+  const comparison = useMemo(() => {
+    if (compare.length !== 2) return null;
+    const entries = compare.flatMap((key): { label: string; time: number; snapshot: ListSnapshot }[] => {
+      if (key === CURRENT) return currentSnapshot ? [{ label: 'current list', time: Infinity, snapshot: currentSnapshot }] : [];
+      const version = versions.find(v => v.id === key);
+      return version ? [{
+        label: new Date(version.changed_at).toLocaleString(),
+        time: Date.parse(version.changed_at),
+        snapshot: readListSnapshot(version.snapshot),
+      }] : [];
+    }).sort((a, b) => a.time - b.time);
+    if (entries.length !== 2) return null;
+    const [before, after] = entries;
+    const diff = diffListSnapshots(before.snapshot, after.snapshot, {
+      detachments: availableDetachments, enhancements, wargearOptions, modelVariants,
+    });
+    return { before, after, diff };
+  }, [compare, currentSnapshot, versions, availableDetachments, enhancements, wargearOptions, modelVariants]);
+
+  const handleCopyChangelog = async () => {
+    if (!comparison) return;
+    const title = `${comparison.after.snapshot.list.name}: changes since ${comparison.before.label}`;
+    await navigator.clipboard.writeText(formatListDiff(comparison.diff, title));
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
   const handleRestore = async (versionId: string) => {
     setRestoring(versionId);
     setError(null);
@@ -59,6 +175,29 @@ export function ListHistoryPanel({ listId, onClose }: ListHistoryPanelProps) {
 
         {error && <div className="list-history-panel__error">{error}</div>}
 
+        <div className="list-history-panel__compare">
+          {comparison ? (
+            <>
+              <div className="list-history-panel__compare-header">
+                <span className="list-history-panel__compare-title">
+                  {comparison.before.label} &rarr; {comparison.after.label}
+                </span>
+                <button className="list-history-panel__restore-btn" onClick={handleCopyChangelog}>
+                  {copied ? 'Copied' : 'Copy as changelog'}
+                </button>
+                <button className="list-history-panel__restore-btn" onClick={() => setCompare([])}>
+                  Clear
+                </button>
+              </div>
+              <ListDiffView diff={comparison.diff} />
+            </>
+          ) : (
+            <span className="list-history-panel__compare-hint">
+              {compare.length === 0 ? 'Tick two versions to compare them.' : 'Tick one more version to compare.'}
+            </span>
+          )}
+        </div>
+
         {loading ? (
           <div className="list-history-panel__loading">
             {[1, 2, 3].map((i) => (
@@ -71,9 +210,28 @@ export function ListHistoryPanel({ listId, onClose }: ListHistoryPanelProps) {
           </div>
         ) : (
           <ul className="list-history-panel__list">
+            {currentSnapshot && (
+              <li className="list-history-panel__item list-history-panel__item--current">
+                <div className="list-history-panel__item-meta">
+                  <label className="list-history-panel__compare-check">
+                    <input type="checkbox" checked={compare.includes(CURRENT)} onChange={() => toggleCompare(CURRENT)} />
+                    Current list
+                  </label>
+                </div>
+                <div className="list-history-panel__item-snapshot">
+                  {`${currentSnapshot.list.name} · ${currentSnapshot.total_points}pts · ${currentSnapshot.units.length} unit${currentSnapshot.units.length !== 1 ? 's' : ''}`}
+                </div>
+              </li>
+            )}
             {versions.map((v) => (
               <li key={v.id} className="list-history-panel__item">
                 <div className="list-history-panel__item-meta">
+                  <input
+                    type="checkbox"
+                    checked={compare.includes(v.id)}
+                    onChange={() => toggleCompare(v.id)}
+                    aria-label="Compare this version"
+                  />
                   <span className="list-history-panel__item-date">
                     {new Date(v.changed_at).toLocaleString()}
                   </span>
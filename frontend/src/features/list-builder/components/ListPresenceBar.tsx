@@ -0,0 +1,51 @@
+import { useListEditorStore } from '../stores/listEditorStore';
+import { presenceHue, presenceInitials } from '../lib/listCollaboration';
+
+interface ListPresenceBarProps {
+  onManageCollaborators?: () => void;
+}
+
+/** Who else has the list open, plus this user's own access level. */
+export function ListPresenceBar({ onManageCollaborators }: ListPresenceBarProps) {
+  const collaborators = useListEditorStore((s) => s.collaborators);
+  const accessRole = useListEditorStore((s) => s.accessRole);
+  const listUnits = useListEditorStore((s) => s.listUnits);
+
+  if (collaborators.length === 0 && accessRole === 'owner' && !onManageCollaborators) return null;
+
+  return (
+    <div className="list-presence">
+      {accessRole === 'viewer' && (
+        <span className="list-presence__badge list-presence__badge--viewer">View only</span>
+      )}
+      {accessRole === 'editor' && (
+        <span className="list-presence__badge">Shared with you</span>
+      )}
+      <div className="list-presence__avatars">
+        {collaborators.map(c => {
+          const unitName = listUnits.find(lu => lu.id === c.selectedArmyListUnitId)?.units.name;
+          return (
+            <span
+              key={c.userId}
+              className="list-presence__avatar"
+              style={{ background: `hsl(${presenceHue(c.userId)} 55% 42%)` }}
+              title={unitName ? `${c.displayName} — viewing ${unitName}` : c.displayName}
+            >
+              {presenceInitials(c.displayName)}
+            </span>
+          );
+        })}
+      </div>
+      {collaborators.length > 0 && (
+        <span className="list-presence__label">
+          {collaborators.length === 1 ? `${collaborators[0].displayName} is here` : `${collaborators.length} others here`}
+        </span>
+      )}
+      {onManageCollaborators && (
+        <button className="btn btn--sm btn--ghost list-presence__manage" onClick={onManageCollaborators}>
+          Collaborators
+        </button>
+      )}
+    </div>
+  );
+}
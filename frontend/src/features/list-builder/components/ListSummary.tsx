@@ -1,7 +1,10 @@
 import { useState, useRef, useEffect } from 'react';
-import type { ArmyList, Detachment, ValidateArmyListResult } from '../../../shared/types/database';
+import type { ArmyList, Detachment, PointsDataset, ValidateArmyListResult } from '../../../shared/types/database';
 import { PointsBar } from './PointsBar';
+import { ListAnalysisPanel } from './ListAnalysisPanel';
 import { cleanGameText } from '../../../shared/lib/cleanGameText';
+import { latestDataset } from '../lib/pointsDataset';
+import { isOverCap, type AlliedContingent } from '../lib/alliedContingents';
 
 const BATTLE_SIZE_PRESETS = [
   { id: 'combat_patrol', name: 'Combat Patrol', points: 500 },
@@ -16,17 +19,25 @@ interface ListSummaryProps {
   overLimit: boolean;
   unitLimitWarnings: string[];
   enhancementWarnings: string[];
+  leaderWarnings: string[];
   battleSizeWarnings: string[];
   transportWarnings: string[];
+  embarkWarnings: string[];
+  alliedWarnings: string[];
+  alliedContingents: AlliedContingent[];
   pointsMismatch: boolean;
   serverValidation: ValidateArmyListResult | null;
   serverValidationError: boolean;
   availableDetachments: Detachment[];
+  pointsDatasets?: PointsDataset[];
   onBack: () => void;
   onExport: () => void;
   onPlay: () => void;
   onShoppingList?: () => void;
   onHistory?: () => void;
+  onComments?: () => void;
+  onPointsDataset?: () => void;
+  onFillPoints?: () => void;
   onUpdateName?: (name: string) => void;
   onUpdatePointsLimit?: (limit: number) => void;
   onUpdateBattleSize?: (battleSize: string, points: number) => void;
@@ -34,12 +45,13 @@ interface ListSummaryProps {
 }
 
 export function ListSummary({
-  list, totalPoints, overLimit, unitLimitWarnings, enhancementWarnings,
-  battleSizeWarnings, transportWarnings,
-  pointsMismatch, serverValidation, serverValidationError, availableDetachments,
-  onBack, onExport, onPlay, onShoppingList, onHistory,
+  list, totalPoints, overLimit, unitLimitWarnings, enhancementWarnings, leaderWarnings,
+  battleSizeWarnings, transportWarnings, embarkWarnings, alliedWarnings, alliedContingents,
+  pointsMismatch, serverValidation, serverValidationError, availableDetachments, pointsDatasets = [],
+  onBack, onExport, onPlay, onShoppingList, onHistory, onComments, onPointsDataset, onFillPoints,
   onUpdateName, onUpdatePointsLimit, onUpdateBattleSize, onChangeDetachment,
 }: ListSummaryProps) {
+  const [tab, setTab] = useState<'overview' | 'analysis'>('overview');
   const [showDetachmentRules, setShowDetachmentRules] = useState(false);
   const [editingName, setEditingName] = useState(false);
   const [nameValue, setNameValue] = useState(list.name);
@@ -48,6 +60,10 @@ export function ListSummary({
   const nameInputRef = useRef<HTMLInputElement>(null);
   const pointsInputRef = useRef<HTMLInputElement>(null);
 
+  const latestPoints = latestDataset(pointsDatasets, list.edition, new Date().toISOString().slice(0, 10));
+  const pinnedPoints = pointsDatasets.find(d => d.id === list.points_dataset_id) ?? null;
+  const newerPointsAvailable = !!pinnedPoints && !!latestPoints && latestPoints.id !== pinnedPoints.id;
+
   useEffect(() => {
     if (editingName && nameInputRef.current) nameInputRef.current.focus();
   }, [editingName]);
@@ -80,10 +96,12 @@ export function ListSummary({
   }
 
   const currentBattleSize = BATTLE_SIZE_PRESETS.find(bs => bs.id === list.battle_size);
+  const alliedPoints = alliedContingents.reduce((sum, c) => sum + c.points, 0);
+  const alliedOverCap = alliedContingents.some(isOverCap);
 
   const hasValidationIssues = overLimit || unitLimitWarnings.length > 0
-    || enhancementWarnings.length > 0 || battleSizeWarnings.length > 0
-    || transportWarnings.length > 0 || pointsMismatch || serverValidationError
+    || enhancementWarnings.length > 0 || leaderWarnings.length > 0 || battleSizeWarnings.length > 0
+    || transportWarnings.length > 0 || embarkWarnings.length > 0 || alliedWarnings.length > 0 || pointsMismatch || serverValidationError
     || (serverValidation && !serverValidation.is_valid && !overLimit);
 
   return (
@@ -145,11 +163,21 @@ export function ListSummary({
               What do I need?
             </button>
           )}
+          {onFillPoints && totalPoints < list.points_limit && (
+            <button className="btn" onClick={onFillPoints} title="Suggest units and enhancements for the points left">
+              Fill points
+            </button>
+          )}
           {onHistory && (
             <button className="btn" onClick={onHistory} title="View version history">
               History
             </button>
           )}
+          {onComments && (
+            <button className="btn" onClick={onComments} title="Comments and review requests">
+              Comments
+            </button>
+          )}
           <button className="btn btn--primary" onClick={onPlay}>
             Play
           </button>
@@ -221,10 +249,66 @@ export function ListSummary({
         </div>
       )}
 
-      <PointsBar current={totalPoints} limit={list.points_limit} />
+      <PointsBar
+        current={totalPoints}
+        limit={list.points_limit}
+        allied={alliedContingents.length > 0 ? { points: alliedPoints, overCap: alliedOverCap } : undefined}
+      />
+
+      {alliedContingents.length > 0 && (
+        <ul className="allied-share">
+          {alliedContingents.map(c => (
+            <li
+              key={c.rule.id}
+              className={`allied-share__item${isOverCap(c) ? ' allied-share__item--over' : ''}`}
+            >
+              <span className="allied-share__name">{c.rule.rule_name}</span>
+              <span className="allied-share__points">
+                {c.points}{c.pointsCap !== null && ` / ${c.pointsCap}`} pts
+              </span>
+              <span className="allied-share__units">
+                {c.units.length}{c.unitCap !== null && ` / ${c.unitCap}`} {c.units.length === 1 && c.unitCap === null ? 'unit' : 'units'}
+              </span>
+              <span className="allied-share__percent">
+                {totalPoints > 0 ? Math.round((c.points / totalPoints) * 100) : 0}% of list
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {(pinnedPoints || latestPoints) && (
+        <div className={`points-dataset-line${newerPointsAvailable ? ' points-dataset-line--stale' : ''}`}>
+          <span className="points-dataset-line__label">
+            {pinnedPoints ? `Points pinned to ${pinnedPoints.name}` : `Latest points (${latestPoints!.name})`}
+          </span>
+          {onPointsDataset && (
+            <button className="btn btn--sm btn--ghost" onClick={onPointsDataset}>
+              {newerPointsAvailable ? `Review ${latestPoints!.name}` : 'Change'}
+            </button>
+          )}
+        </div>
+      )}
+
+      <div className="list-editor__summary-tabs">
+        <button
+          className={`list-editor__summary-tab${tab === 'overview' ? ' list-editor__summary-tab--active' : ''}`}
+          onClick={() => setTab('overview')}
+        >
+          Overview
+        </button>
+        <button
+          className={`list-editor__summary-tab${tab === 'analysis' ? ' list-editor__summary-tab--active' : ''}`}
+          onClick={() => setTab('analysis')}
+        >
+          List analysis
+        </button>
+      </div>
+
+      {tab === 'analysis' && <ListAnalysisPanel />}
 
       {/* Detachment Rules */}
-      {list.detachments?.rule_text && (
+      {tab === 'overview' && list.detachments?.rule_text && (
         <div className="detachment-rules">
           <button
             className="detachment-rules__toggle"
@@ -242,7 +326,7 @@ export function ListSummary({
       )}
 
       {/* Validation banners */}
-      {hasValidationIssues && (
+      {tab === 'overview' && hasValidationIssues && (
         <div className="list-editor__validations">
           {overLimit && (
             <div className="validation-banner validation-banner--error">
@@ -259,11 +343,26 @@ export function ListSummary({
               {enhancementWarnings.map((w, i) => <div key={i}>{w}</div>)}
             </div>
           )}
+          {leaderWarnings.length > 0 && (
+            <div className="validation-banner validation-banner--warning">
+              {leaderWarnings.map((w, i) => <div key={i}>{w}</div>)}
+            </div>
+          )}
           {battleSizeWarnings.length > 0 && (
             <div className="validation-banner validation-banner--warning">
               {battleSizeWarnings.map((w, i) => <div key={i}>{w}</div>)}
             </div>
           )}
+          {alliedWarnings.length > 0 && (
+            <div className="validation-banner validation-banner--error">
+              {alliedWarnings.map((w, i) => <div key={i}>{w}</div>)}
+            </div>
+          )}
+          {embarkWarnings.length > 0 && (
+            <div className="validation-banner validation-banner--warning">
+              {embarkWarnings.map((w, i) => <div key={i}>{w}</div>)}
+            </div>
+          )}
           {transportWarnings.length > 0 && (
             <div className="validation-banner validation-banner--info">
               {transportWarnings.map((w, i) => <div key={i}>{w}</div>)}
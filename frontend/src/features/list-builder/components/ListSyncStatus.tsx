@@ -0,0 +1,66 @@
+import { useListEditorStore } from '../stores/listEditorStore';
+
+export function ListSyncStatus() {
+  const syncStatus = useListEditorStore((s) => s.syncStatus);
+  const syncError = useListEditorStore((s) => s.syncError);
+  const pendingMutations = useListEditorStore((s) => s.pendingMutations);
+  const flushMutationQueue = useListEditorStore((s) => s.flushMutationQueue);
+  const resolveSyncConflict = useListEditorStore((s) => s.resolveSyncConflict);
+  const discardFailedMutation = useListEditorStore((s) => s.discardFailedMutation);
+
+  if (syncStatus === 'synced') return null;
+
+  return (
+    <div className={`list-sync-status list-sync-status--${syncStatus}`}>
+      {syncStatus === 'pending' && (
+        <div className="list-sync-status__row">
+          <span className="list-sync-status__icon">&#9729;</span>
+          <span className="list-sync-status__message">
+            {pendingMutations} {pendingMutations === 1 ? 'change' : 'changes'} saved on this device — will sync when you're back online
+          </span>
+        </div>
+      )}
+      {syncStatus === 'syncing' && (
+        <div className="list-sync-status__row">
+          <span className="list-sync-status__dot" />
+          <span className="list-sync-status__message">Syncing offline changes...</span>
+        </div>
+      )}
+      {syncStatus === 'conflict' && (
+        <div className="list-sync-status__row">
+          <span className="list-sync-status__icon">&#9888;</span>
+          <span className="list-sync-status__message">
+            This list was changed elsewhere while you were offline.
+          </span>
+          <button
+            className="list-sync-status__action"
+            onClick={() => resolveSyncConflict('keep-mine')}
+          >
+            Keep my changes
+          </button>
+          <button
+            className="list-sync-status__action list-sync-status__action--secondary"
+            onClick={() => resolveSyncConflict('discard-mine')}
+          >
+            Discard my changes
+          </button>
+        </div>
+      )}
+      {syncStatus === 'error' && (
+        <div className="list-sync-status__row">
+          <span className="list-sync-status__icon">&#9888;</span>
+          <span className="list-sync-status__message">{syncError ?? 'Sync failed'}</span>
+          <button className="list-sync-status__action" onClick={flushMutationQueue}>
+            Retry
+          </button>
+          <button
+            className="list-sync-status__action list-sync-status__action--secondary"
+            onClick={discardFailedMutation}
+          >
+            Discard
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
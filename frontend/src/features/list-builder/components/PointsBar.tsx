@@ -1,4 +1,11 @@
-export function PointsBar({ current, limit }: { current: number; limit: number }) {
+interface PointsBarProps {
+  current: number;
+  limit: number;
+  /** Points spent on allied contingents, shown as the tail end of the fill */
+  allied?: { points: number; overCap: boolean };
+}
+
+export function PointsBar({ current, limit, allied }: PointsBarProps) {
   const percentage = Math.min((current / limit) * 100, 100);
   const overLimit = current > limit;
   const nearLimit = current > limit * 0.9;
@@ -7,6 +14,8 @@ export function PointsBar({ current, limit }: { current: number; limit: number }
   if (overLimit) fillClass += ' points-bar__fill--over';
   else if (nearLimit) fillClass += ' points-bar__fill--warning';
 
+  const alliedPercentage = allied ? Math.min((allied.points / limit) * 100, percentage) : 0;
+
   return (
     <div className="points-bar-container">
       <div className="points-bar">
@@ -14,9 +23,20 @@ export function PointsBar({ current, limit }: { current: number; limit: number }
           className={fillClass}
           style={{ width: `${percentage}%` }}
         />
+        {allied && allied.points > 0 && (
+          <div
+            className={`points-bar__allied${allied.overCap ? ' points-bar__allied--over' : ''}`}
+            style={{ left: `${percentage - alliedPercentage}%`, width: `${alliedPercentage}%` }}
+          />
+        )}
       </div>
       <div className="points-bar-labels">
         <span>{current} pts</span>
+        {allied && allied.points > 0 && (
+          <span className={`points-bar-labels__allied${allied.overCap ? ' points-bar-labels__allied--over' : ''}`}>
+            Allies {allied.points} pts
+          </span>
+        )}
         <span>{limit} pts</span>
       </div>
     </div>
@@ -0,0 +1,151 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useListEditorStore } from '../stores/listEditorStore';
+import { usePointsDatasetDiff } from '../hooks/usePointsDatasetDiff';
+import { latestDataset } from '../lib/pointsDataset';
+
+interface PointsDatasetModalProps {
+  onClose: () => void;
+}
+
+// Select value for "follow the latest points"
+const FOLLOW_LATEST = '';
+
+const signed = (n: number) => (n > 0 ? `+${n}` : `${n}`);
+
+/** Pick which points release the list is costed under, with what changes before committing to it. */
+export function PointsDatasetModal({ onClose }: PointsDatasetModalProps) {
+  const list = useListEditorStore((s) => s.list);
+  const listUnits = useListEditorStore((s) => s.listUnits);
+  const listEnhancements = useListEditorStore((s) => s.listEnhancements);
+  const enhancements = useListEditorStore((s) => s.enhancements);
+  const pointsDatasets = useListEditorStore((s) => s.pointsDatasets);
+  const accessRole = useListEditorStore((s) => s.accessRole);
+  const pinPointsDataset = useListEditorStore((s) => s.pinPointsDataset);
+  const { diff, loading, error, fetch } = usePointsDatasetDiff();
+  const [applying, setApplying] = useState(false);
+
+  const pinnedId = list?.points_dataset_id ?? null;
+  const latest = list ? latestDataset(pointsDatasets, list.edition, new Date().toISOString().slice(0, 10)) : null;
+  // Opened on a stale pin, the newest release is the obvious candidate
+  const [target, setTarget] = useState<string>(() =>
+    pinnedId && latest && latest.id !== pinnedId ? latest.id : pinnedId ?? FOLLOW_LATEST,
+  );
+  const targetId = target === FOLLOW_LATEST ? null : target;
+
+  const diffUnits = useMemo(
+    () => listUnits.map(lu => ({ id: lu.id, unitId: lu.unit_id, name: lu.units.name, modelCount: lu.model_count })),
+    [listUnits],
+  );
+  const diffEnhancements = useMemo(
+    () => listEnhancements.map(le => ({
+      enhancementId: le.enhancement_id,
+      name: enhancements.find(e => e.id === le.enhancement_id)?.name ?? 'Enhancement',
+    })),
+    [listEnhancements, enhancements],
+  );
+
+  useEffect(() => {
+    fetch({ fromDatasetId: pinnedId, toDatasetId: targetId, units: diffUnits, enhancements: diffEnhancements });
+  }, [fetch, pinnedId, targetId, diffUnits, diffEnhancements]);
+
+  useEffect(() => {
+    function handleKeyDown(e: KeyboardEvent) {
+      if (e.key === 'Escape') onClose();
+    }
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  if (!list) return null;
+
+  const pinned = pointsDatasets.find(d => d.id === pinnedId);
+  const unchanged = targetId === pinnedId;
+  const overLimit = !!diff && diff.after > list.points_limit;
+
+  async function handleApply() {
+    setApplying(true);
+    await pinPointsDataset(targetId);
+    setApplying(false);
+    onClose();
+  }
+
+  return (
+    <div className="modal-backdrop" onClick={onClose}>
+      <div
+        className="modal-panel modal-panel--sm points-dataset-modal"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="points-dataset-title"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h3 className="modal-panel__title" id="points-dataset-title">Points Dataset</h3>
+        <p className="points-dataset-modal__hint">
+          {pinned
+            ? `This list is pinned to ${pinned.name} and keeps those points until you re-pin it.`
+            : 'This list follows the latest points and changes with every points update.'}
+        </p>
+
+        <select
+          className="form-select"
+          value={target}
+          onChange={(e) => setTarget(e.target.value)}
+          aria-label="Points dataset"
+        >
+          <option value={FOLLOW_LATEST}>
+            Always use the latest points{latest ? ` (currently ${latest.name})` : ''}
+          </option>
+          {pointsDatasets.map(d => (
+            <option key={d.id} value={d.id}>
+              {d.name} — effective {d.effective_date}
+            </option>
+          ))}
+        </select>
+
+        {error && <div className="points-dataset-modal__error">{error}</div>}
+
+        {loading || !diff ? (
+          <div className="skeleton skeleton--bar" />
+        ) : unchanged ? (
+          <div className="points-dataset-modal__empty">This is the list's current setting.</div>
+        ) : (
+          <>
+            {diff.rows.length === 0 ? (
+              <div className="points-dataset-modal__empty">No unit or enhancement in this list changes points.</div>
+            ) : (
+              <ul className="points-dataset-modal__rows">
+                {diff.rows.map(row => (
+                  <li key={row.key} className="points-dataset-modal__row">
+                    <span className="points-dataset-modal__name">{row.name}</span>
+                    <span className="points-dataset-modal__points">
+                      {row.before} &rarr; {row.after}
+                    </span>
+                    <span
+                      className={`points-dataset-modal__delta points-dataset-modal__delta--${row.after > row.before ? 'up' : 'down'}`}
+                    >
+                      {signed(row.after - row.before)}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <div className={`points-dataset-modal__total${overLimit ? ' points-dataset-modal__total--over' : ''}`}>
+              {diff.before} &rarr; {diff.after} / {list.points_limit} pts ({signed(diff.after - diff.before)})
+              {overLimit && <span> — over the limit by {diff.after - list.points_limit}</span>}
+            </div>
+          </>
+        )}
+
+        <div className="modal-panel__actions">
+          <button className="btn" onClick={onClose}>Cancel</button>
+          <button
+            className="btn btn--primary"
+            onClick={handleApply}
+            disabled={unchanged || applying || loading || accessRole === 'viewer'}
+          >
+            {targetId ? 'Pin to this dataset' : 'Follow latest points'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { ROLE_LABELS, ROLE_ORDER, selectPointsFillInput, useListEditorStore } from '../stores/listEditorStore';
+import { describeFillPick, suggestPointsFill, type FillSuggestion } from '../lib/pointsFill';
+
+interface PointsFillModalProps {
+  onClose: () => void;
+}
+
+const ROLE_CHOICES = ROLE_ORDER.filter(role => role !== 'allied');
+
+export function PointsFillModal({ onClose }: PointsFillModalProps) {
+  const store = useListEditorStore();
+  const applyFillSuggestion = useListEditorStore((s) => s.applyFillSuggestion);
+  const [role, setRole] = useState<string>('');
+  const [adding, setAdding] = useState(false);
+  const dialogRef = useRef<HTMLDivElement>(null);
+
+  const input = useMemo(() => selectPointsFillInput(store), [store]);
+  const suggestions = useMemo(() => suggestPointsFill(input, { role: role || null }), [input, role]);
+
+  useEffect(() => {
+    function handleKeyDown(e: KeyboardEvent) {
+      if (e.key === 'Escape') onClose();
+    }
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  useEffect(() => {
+    dialogRef.current?.focus();
+  }, []);
+
+  async function handleAdd(suggestion: FillSuggestion) {
+    setAdding(true);
+    await applyFillSuggestion(suggestion);
+    setAdding(false);
+    onClose();
+  }
+
+  return (
+    <div className="modal-backdrop" onClick={onClose}>
+      <div
+        ref={dialogRef}
+        className="modal-panel modal-panel--md points-fill"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="points-fill-title"
+        tabIndex={-1}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h3 id="points-fill-title" className="modal-panel__title">Fill Remaining Points</h3>
+        <p className="points-fill__summary">
+          {input.remaining > 0 ? `${input.remaining} pts left to spend.` : 'The list is already at its points limit.'}
+          {input.showOwnedOnly && ' Only units you own are suggested.'}
+        </p>
+
+        <label className="points-fill__role">
+          Prefer
+          <select className="form-select" value={role} onChange={(e) => setRole(e.target.value)}>
+            <option value="">Any role</option>
+            {ROLE_CHOICES.map(r => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+          </select>
+        </label>
+
+        {input.remaining > 0 && suggestions.length === 0 && (
+          <p className="points-fill__empty">Nothing fits in {input.remaining} pts.</p>
+        )}
+
+        <ul className="points-fill__list">
+          {suggestions.map((s, i) => (
+            <li key={i} className="points-fill__item">
+              <div className="points-fill__picks">
+                {s.picks.map(describeFillPick).join(' + ')}
+              </div>
+              <span className="points-fill__points">+{s.points} pts</span>
+              <span className={`points-fill__leftover${s.leftover === 0 ? ' points-fill__leftover--exact' : ''}`}>
+                {s.leftover === 0 ? 'exact' : `${s.leftover} left`}
+              </span>
+              <button className="btn btn--primary btn--sm" disabled={adding} onClick={() => handleAdd(s)}>
+                Add
+              </button>
+            </li>
+          ))}
+        </ul>
+
+        <div className="modal-panel__actions">
+          <button className="btn" onClick={onClose}>Close</button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { supabase } from '../../../shared/lib/supabase';
+import type { PointsDataset, PointsUpdateImpact } from '../../../shared/types/database';
+import { summarizeImpact, type ListPointsImpact } from '../lib/pointsDataset';
+
+interface PointsUpdateReportProps {
+  userId: string;
+}
+
+const DISMISSED_KEY = (userId: string) => `warforge_points_report_${userId}`;
+
+const signed = (n: number) => (n > 0 ? `+${n}` : `${n}`);
+
+/**
+ * Which of your lists the latest points update changes, and which it pushes over their limit.
+ * Renders nothing until there is something to report; dismissing hides it until the next update.
+ */
+export function PointsUpdateReport({ userId }: PointsUpdateReportProps) {
+  const [impacts, setImpacts] = useState<ListPointsImpact[]>([]);
+  const [release, setRelease] = useState<PointsDataset | null>(null);
+  const [dismissedId, setDismissedId] = useState(() => localStorage.getItem(DISMISSED_KEY(userId)));
+
+  useEffect(() => {
+    (async () => {
+      const { data, error } = await supabase.rpc('points_update_impact');
+      if (error) {
+        console.error('Failed to load points update impact:', error);
+        return;
+      }
+      const changed = summarizeImpact((data ?? []) as PointsUpdateImpact[]);
+      if (changed.length === 0) return;
+
+      const { data: datasetData } = await supabase
+        .from('points_datasets')
+        .select('*')
+        .eq('id', changed[0].to_dataset_id)
+        .single();
+      setRelease(datasetData as PointsDataset | null);
+      setImpacts(changed);
+    })();
+  }, [userId]);
+
+  if (!release || impacts.length === 0 || dismissedId === release.id) return null;
+
+  function dismiss() {
+    localStorage.setItem(DISMISSED_KEY(userId), release!.id);
+    setDismissedId(release!.id);
+  }
+
+  const newlyOver = impacts.filter(i => i.newlyOverLimit).length;
+
+  return (
+    <div className="dashboard__card dashboard__card--points-update">
+      <div className="dashboard__card-header">
+        <span className="dashboard__card-icon">&#9878;</span>
+        <h3 className="dashboard__card-title">Points Update: {release.name}</h3>
+        <button className="dashboard__card-link points-update__dismiss" onClick={dismiss}>Dismiss</button>
+      </div>
+      <div className="dashboard__card-body">
+        <p className="points-update__summary">
+          {impacts.length} of your lists {impacts.length === 1 ? 'changes' : 'change'} under the points
+          effective {release.effective_date}
+          {newlyOver > 0 && `, and ${newlyOver} ${newlyOver === 1 ? 'goes' : 'go'} over the points limit`}.
+        </p>
+        {impacts.map(i => (
+          <Link key={i.army_list_id} to={`/list/${i.army_list_id}?points`} className="dashboard__list-item">
+            <span className="dashboard__list-name">
+              {i.list_name}
+              {i.overLimit && <span className="points-update__over">Over limit</span>}
+            </span>
+            <span className="dashboard__list-meta">
+              {i.points_before} &rarr; {i.points_after} / {i.points_limit} pts ({signed(i.delta)})
+              {i.pinned_dataset_id ? ' · pinned' : ''}
+            </span>
+          </Link>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,235 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { QRCodeSVG } from 'qrcode.react';
+import type { Stratagem } from '../../../shared/types/database';
+import { supabase } from '../../../shared/lib/supabase';
+import { cleanGameText } from '../../../shared/lib/cleanGameText';
+import { DatasheetView } from '../../../shared/components/DatasheetView';
+import { LoadoutDatasheet } from './unit-detail/LoadoutDatasheet';
+import { ROLE_LABELS, selectTotalPoints, useListEditorStore } from '../stores/listEditorStore';
+import { buildPrintPackUnits, groupPrintPackUnits, type PrintPackOptions, type PrintPackUnit } from '../lib/printPack';
+
+const BATTLE_SIZE_LABELS: Record<string, string> = {
+  combat_patrol: 'Combat Patrol', incursion: 'Incursion',
+  strike_force: 'Strike Force', onslaught: 'Onslaught',
+};
+
+interface PrintPackProps {
+  options: PrintPackOptions;
+  /** Called once the print dialog has closed */
+  onDone: () => void;
+}
+
+function UnitSelections({ pu }: { pu: PrintPackUnit }) {
+  return (
+    <ul className="print-pack__selections">
+      {pu.enhancement && (
+        <li><strong>Enhancement:</strong> {pu.enhancement.name} (+{pu.enhancement.points} pts)</li>
+      )}
+      {pu.composition.length > 0 && <li>{pu.composition.join(', ')}</li>}
+      {pu.wargear.length > 0 && <li>{pu.wargear.join(', ')}</li>}
+      {pu.leading && <li><strong>Leading:</strong> {pu.leading}</li>}
+      {pu.ledBy.length > 0 && <li><strong>Led by:</strong> {pu.ledBy.join(', ')}</li>}
+      {pu.embarkedIn && <li><strong>Embarked in:</strong> {pu.embarkedIn}</li>}
+      {pu.carrying.length > 0 && <li><strong>Carrying:</strong> {pu.carrying.join(', ')}</li>}
+    </ul>
+  );
+}
+
+function UnitSheet({ pu, compact }: { pu: PrintPackUnit; compact: boolean }) {
+  return (
+    <section className={`print-pack__sheet${compact ? '' : ' print-pack__sheet--page'}`}>
+      <header className="print-pack__sheet-header">
+        <h2 className="print-pack__sheet-name">{pu.unit.name}</h2>
+        <span className="print-pack__sheet-meta">
+          {pu.modelCount} model{pu.modelCount !== 1 ? 's' : ''} · {pu.points} pts
+        </span>
+      </header>
+      <UnitSelections pu={pu} />
+      {/* Weapons come from the loadout table, which carries model counts */}
+      <DatasheetView unit={pu.unit} weapons={[]} compact={compact} />
+      <LoadoutDatasheet weapons={pu.unit.weapons.map(w => ({ ...w, count: pu.modelCount }))} />
+      {pu.enhancement?.description && !compact && (
+        <p className="print-pack__rule-text">
+          <strong>{pu.enhancement.name}:</strong> {cleanGameText(pu.enhancement.description)}
+        </p>
+      )}
+    </section>
+  );
+}
+
+/**
+ * Tournament pack rendered straight into <body> for printing: the roster page, then
+ * datasheets and the detachment appendix depending on `options`. Everything else on the
+ * page is hidden by the `print-pack-active` print styles while it is mounted.
+ */
+export function PrintPack({ options, onDone }: PrintPackProps) {
+  const list = useListEditorStore((s) => s.list);
+  const listUnits = useListEditorStore((s) => s.listUnits);
+  const enhancements = useListEditorStore((s) => s.enhancements);
+  const listEnhancements = useListEditorStore((s) => s.listEnhancements);
+  const wargearOptions = useListEditorStore((s) => s.wargearOptions);
+  const wargearSubOptions = useListEditorStore((s) => s.wargearSubOptions);
+  const unitWargearSelections = useListEditorStore((s) => s.unitWargearSelections);
+  const unitWargearRowIds = useListEditorStore((s) => s.unitWargearRowIds);
+  const unitWargearSubSelections = useListEditorStore((s) => s.unitWargearSubSelections);
+  const modelVariants = useListEditorStore((s) => s.modelVariants);
+  const unitCompositions = useListEditorStore((s) => s.unitCompositions);
+  const leaderAttachments = useListEditorStore((s) => s.leaderAttachments);
+  const transportEmbarks = useListEditorStore((s) => s.transportEmbarks);
+  const totalPoints = useListEditorStore(selectTotalPoints);
+
+  const units = useMemo(() => buildPrintPackUnits({
+    listUnits, enhancements, listEnhancements, wargearOptions, wargearSubOptions, unitWargearSelections,
+    unitWargearRowIds, unitWargearSubSelections, modelVariants, unitCompositions, leaderAttachments,
+    transportEmbarks,
+  }), [
+    listUnits, enhancements, listEnhancements, wargearOptions, wargearSubOptions, unitWargearSelections,
+    unitWargearRowIds, unitWargearSubSelections, modelVariants, unitCompositions, leaderAttachments,
+    transportEmbarks,
+  ]);
+
+  // null while the appendix is loading; printing waits for it
+  const detachmentId = list?.detachment_id;
+  const [stratagems, setStratagems] = useState<Stratagem[] | null>(options.includeAppendix && detachmentId ? null : []);
+
+  useEffect(() => {
+    if (!options.includeAppendix || !detachmentId) return;
+    let cancelled = false;
+    supabase
+      .from('stratagems')
+      .select('*')
+      .eq('detachment_id', detachmentId)
+      .order('cp_cost')
+      .order('name')
+      .then(({ data }) => {
+        if (!cancelled) setStratagems((data ?? []) as Stratagem[]);
+      });
+    return () => { cancelled = true; };
+  }, [options.includeAppendix, detachmentId]);
+
+  // Closing the modal mid-print unmounts us before afterprint fires
+  useEffect(() => () => document.body.classList.remove('print-pack-active'), []);
+
+  // Print once the content is ready; StrictMode re-runs effects, so guard with a ref
+  const printed = useRef(false);
+  useEffect(() => {
+    if (stratagems === null || printed.current) return;
+    printed.current = true;
+
+    // Browsers name the PDF after the document title
+    const title = document.title;
+    if (list) document.title = list.name;
+    document.body.classList.add('print-pack-active');
+
+    function finish() {
+      window.removeEventListener('afterprint', finish);
+      document.body.classList.remove('print-pack-active');
+      document.title = title;
+      onDone();
+    }
+    window.addEventListener('afterprint', finish);
+    window.print();
+  }, [stratagems, list, onDone]);
+
+  if (!list) return null;
+
+  const showSheets = options.layout !== 'roster';
+  const compactSheets = options.layout === 'roster-datasheets';
+
+  return createPortal(
+    <div className={`print-pack print-pack--${options.layout}`}>
+      <section className="print-pack__roster">
+        <header className="print-pack__header">
+          <div>
+            <h1 className="print-pack__title">{list.name}</h1>
+            <div className="print-pack__subtitle">
+              {list.detachments?.name ?? 'No detachment'}
+              {list.battle_size && ` · ${BATTLE_SIZE_LABELS[list.battle_size] ?? list.battle_size}`}
+              {` · ${totalPoints} / ${list.points_limit} pts`}
+            </div>
+          </div>
+          {options.shareUrl && (
+            <div className="print-pack__qr">
+              <QRCodeSVG value={options.shareUrl} size={96} level="M" />
+              <span className="print-pack__qr-caption">Scan for the live list</span>
+            </div>
+          )}
+        </header>
+
+        {groupPrintPackUnits(units).map(([role, roleUnits]) => (
+          <table key={role} className="print-pack__table">
+            <thead>
+              <tr>
+                <th className="print-pack__col-unit">{ROLE_LABELS[role] ?? role}</th>
+                <th className="print-pack__col-selections">Selections</th>
+                <th className="print-pack__col-points">Pts</th>
+              </tr>
+            </thead>
+            <tbody>
+              {roleUnits.map(pu => (
+                <tr key={pu.id}>
+                  <td>
+                    {pu.unit.name}
+                    {pu.modelCount > 1 && <span className="print-pack__models"> ({pu.modelCount})</span>}
+                  </td>
+                  <td><UnitSelections pu={pu} /></td>
+                  <td className="print-pack__col-points">{pu.points}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ))}
+
+        <footer className="print-pack__footer">
+          <span>{units.length} unit{units.length !== 1 ? 's' : ''}</span>
+          <strong>Total: {totalPoints} / {list.points_limit} pts</strong>
+        </footer>
+      </section>
+
+      {showSheets && (
+        <div className={`print-pack__sheets${compactSheets ? ' print-pack__sheets--compact' : ''}`}>
+          {units.map(pu => <UnitSheet key={pu.id} pu={pu} compact={compactSheets} />)}
+        </div>
+      )}
+
+      {options.includeAppendix && list.detachments && (
+        <section className="print-pack__appendix">
+          <h2 className="print-pack__appendix-title">{list.detachments.name}</h2>
+          {list.detachments.rule_text && (
+            <p className="print-pack__rule-text">{cleanGameText(list.detachments.rule_text)}</p>
+          )}
+          {enhancements.length > 0 && (
+            <>
+              <h3 className="print-pack__appendix-heading">Enhancements</h3>
+              {enhancements.map(e => (
+                <p key={e.id} className="print-pack__rule-text">
+                  <strong>{e.name} ({e.points} pts):</strong> {cleanGameText(e.description ?? '')}
+                </p>
+              ))}
+            </>
+          )}
+          {stratagems && stratagems.length > 0 && (
+            <>
+              <h3 className="print-pack__appendix-heading">Stratagems</h3>
+              {stratagems.map(s => (
+                <div key={s.id} className="print-pack__stratagem">
+                  <div className="print-pack__stratagem-header">
+                    <strong>{s.name}</strong>
+                    <span>{s.cp_cost} CP · {s.phase}</span>
+                  </div>
+                  <p className="print-pack__rule-text"><strong>When:</strong> {cleanGameText(s.when_text)}</p>
+                  <p className="print-pack__rule-text"><strong>Effect:</strong> {cleanGameText(s.effect_text)}</p>
+                  {s.restrictions && (
+                    <p className="print-pack__rule-text"><strong>Restrictions:</strong> {cleanGameText(s.restrictions)}</p>
+                  )}
+                </div>
+              ))}
+            </>
+          )}
+        </section>
+      )}
+    </div>,
+    document.body,
+  );
+}
@@ -0,0 +1,123 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { supabase } from '../../../shared/lib/supabase';
+import type { ArmyList, ArmyListReviewRequest, UserProfile } from '../../../shared/types/database';
+
+interface ReviewInboxProps {
+  userId: string;
+}
+
+type IncomingRequest = ArmyListReviewRequest & {
+  army_lists: Pick<ArmyList, 'name' | 'points_limit'> | null;
+  requester: Pick<UserProfile, 'display_name'> | null;
+};
+
+interface ListWithOpenThreads {
+  listId: string;
+  listName: string;
+  openThreads: number;
+}
+
+/** Reviews friends have asked for, and lists of yours with comments still waiting on you. */
+export function ReviewInbox({ userId }: ReviewInboxProps) {
+  const [requests, setRequests] = useState<IncomingRequest[]>([]);
+  const [openLists, setOpenLists] = useState<ListWithOpenThreads[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    (async () => {
+      const [requestsRes, threadsRes] = await Promise.all([
+        supabase
+          .from('army_list_review_requests')
+          .select('*, army_lists(name, points_limit), requester:user_profiles!army_list_review_requests_requester_id_fkey(display_name)')
+          .eq('reviewer_id', userId)
+          .eq('status', 'pending')
+          .order('created_at', { ascending: false }),
+        // Unresolved threads other people started on your lists
+        supabase
+          .from('army_list_comments')
+          .select('army_list_id, army_lists!inner(name, user_id)')
+          .eq('army_lists.user_id', userId)
+          .is('parent_id', null)
+          .is('resolved_at', null)
+          .neq('author_id', userId),
+      ]);
+
+      if (requestsRes.error) console.error('Failed to load review requests:', requestsRes.error);
+      else setRequests((requestsRes.data ?? []) as unknown as IncomingRequest[]);
+
+      if (threadsRes.error) {
+        console.error('Failed to load open comment threads:', threadsRes.error);
+      } else {
+        const byList = new Map<string, ListWithOpenThreads>();
+        for (const row of (threadsRes.data ?? []) as unknown as { army_list_id: string; army_lists: { name: string } }[]) {
+          const entry = byList.get(row.army_list_id) ?? { listId: row.army_list_id, listName: row.army_lists.name, openThreads: 0 };
+          entry.openThreads += 1;
+          byList.set(row.army_list_id, entry);
+        }
+        setOpenLists([...byList.values()].sort((a, b) => b.openThreads - a.openThreads));
+      }
+      setLoading(false);
+    })();
+  }, [userId]);
+
+  async function respond(requestId: string, status: 'completed' | 'declined') {
+    const { error } = await supabase.from('army_list_review_requests').update({ status }).eq('id', requestId);
+    if (error) {
+      console.error('Failed to update review request:', error);
+      return;
+    }
+    setRequests(prev => prev.filter(r => r.id !== requestId));
+  }
+
+  if (loading) {
+    return <div className="skeleton skeleton--bar" />;
+  }
+
+  if (requests.length === 0 && openLists.length === 0) {
+    return (
+      <p className="dashboard__empty">
+        Nothing to review. Ask friends for feedback from the Comments panel in the list editor.
+      </p>
+    );
+  }
+
+  return (
+    <div className="review-inbox">
+      {requests.length > 0 && (
+        <>
+          <div className="review-inbox__heading">Asked of you</div>
+          {requests.map(r => (
+            <div key={r.id} className="review-inbox__item">
+              <Link to={`/list/${r.army_list_id}?comments`} className="review-inbox__link">
+                <span className="dashboard__list-name">{r.army_lists?.name ?? 'Army list'}</span>
+                <span className="dashboard__list-meta">
+                  from {r.requester?.display_name ?? 'a friend'}
+                  {r.army_lists ? ` · ${r.army_lists.points_limit} pts` : ''}
+                </span>
+                {r.message && <span className="review-inbox__message">“{r.message}”</span>}
+              </Link>
+              <div className="review-inbox__actions">
+                <button className="btn btn--sm btn--ghost" onClick={() => respond(r.id, 'completed')}>Done</button>
+                <button className="btn btn--sm btn--ghost" onClick={() => respond(r.id, 'declined')}>Decline</button>
+              </div>
+            </div>
+          ))}
+        </>
+      )}
+      {openLists.length > 0 && (
+        <>
+          <div className="review-inbox__heading">Feedback on your lists</div>
+          {openLists.map(l => (
+            <Link key={l.listId} to={`/list/${l.listId}?comments`} className="dashboard__list-item">
+              <span className="dashboard__list-name">{l.listName}</span>
+              <span className="dashboard__list-meta">
+                {l.openThreads} open {l.openThreads === 1 ? 'thread' : 'threads'}
+              </span>
+            </Link>
+          ))}
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 import { useState } from 'react';
 import type { Unit, Ability, Weapon } from '../../../shared/types/database';
 import { DatasheetView } from '../../../shared/components/DatasheetView';
+import { presenceHue, presenceInitials, type ListPresence } from '../lib/listCollaboration';
 
 interface RosterItemProps {
   unitName: string;
@@ -10,8 +11,10 @@ interface RosterItemProps {
   enhancementPoints?: number;
   wargearSummary?: string;
   isSelected: boolean;
+  /** Other editors who currently have this unit selected */
+  editors?: ListPresence[];
   onClick: () => void;
-  onRemove: () => void;
+  onRemove?: () => void;
   onMoveUp?: () => void;
   onMoveDown?: () => void;
   unit?: Unit & { abilities: Ability[] };
@@ -20,7 +23,7 @@ interface RosterItemProps {
 
 export function RosterItem({
   unitName, modelCount, points, enhancementName, enhancementPoints,
-  wargearSummary, isSelected, onClick, onRemove, onMoveUp, onMoveDown, unit, weapons,
+  wargearSummary, isSelected, editors = [], onClick, onRemove, onMoveUp, onMoveDown, unit, weapons,
 }: RosterItemProps) {
   const [expanded, setExpanded] = useState(false);
   const totalPoints = points + (enhancementPoints ?? 0);
@@ -34,7 +37,7 @@ export function RosterItem({
 
   return (
     <div
-      className={`roster-item${isSelected ? ' roster-item--selected' : ''}${expanded ? ' roster-item--expanded' : ''}`}
+      className={`roster-item${isSelected ? ' roster-item--selected' : ''}${editors.length > 0 ? ' roster-item--remote-selected' : ''}${expanded ? ' roster-item--expanded' : ''}`}
       onClick={onClick}
     >
       <div className="roster-item__row1">
@@ -59,6 +62,20 @@ export function RosterItem({
           )}
         </div>
         <span className="roster-item__name">{displayName}</span>
+        {editors.length > 0 && (
+          <span className="roster-item__editors">
+            {editors.map(e => (
+              <span
+                key={e.userId}
+                className="roster-item__editor"
+                style={{ background: `hsl(${presenceHue(e.userId)} 55% 42%)` }}
+                title={`${e.displayName} is viewing this unit`}
+              >
+                {presenceInitials(e.displayName)}
+              </span>
+            ))}
+          </span>
+        )}
         <div className="roster-item__right">
           <span className="roster-item__points">{totalPoints} pts</span>
           {unit && (
@@ -70,13 +87,15 @@ export function RosterItem({
               {expanded ? '\u25B2' : '\u25BC'}
             </button>
           )}
-          <button
-            className="roster-item__remove"
-            onClick={(e) => { e.stopPropagation(); onRemove(); }}
-            title="Remove unit"
-          >
-            &times;
-          </button>
+          {onRemove && (
+            <button
+              className="roster-item__remove"
+              onClick={(e) => { e.stopPropagation(); onRemove(); }}
+              title="Remove unit"
+            >
+              &times;
+            </button>
+          )}
         </div>
       </div>
       {hasSubline && (
@@ -1,5 +1,6 @@
 import type { Unit, UnitPointsTier, Ability, Enhancement, Weapon, WargearOption, WargearSubOption, ModelVariant } from '../../../shared/types/database';
 import { StatLine } from '../../../shared/components/StatLine';
+import { MathhammerPanel } from '../../../shared/components/MathhammerPanel';
 import { cleanGameText } from '../../../shared/lib/cleanGameText';
 import { WargearToggle } from './unit-detail/WargearToggle';
 import { WargearSubPicker } from './unit-detail/WargearSubPicker';
@@ -8,6 +9,8 @@ import { ModelCompositionSection } from './unit-detail/ModelCompositionSection';
 import { VariantWargearSection } from './unit-detail/VariantWargearSection';
 import { LeaderAttachmentSection } from './unit-detail/LeaderAttachmentSection';
 import { LoadoutDatasheet } from './unit-detail/LoadoutDatasheet';
+import { TransportEmbarkSection } from './unit-detail/TransportEmbarkSection';
+import type { EmbarkCandidate, TransportLoad } from '../lib/transportPlan';
 
 interface EligibleLeader {
   armyListUnitId: string;
@@ -23,8 +26,9 @@ interface UnitDetailPanelProps {
   modelCount: number;
   points: number;
   availableTiers: UnitPointsTier[];
-  onModelCountChange: (count: number) => void;
-  onRemove: () => void;
+  /** Omitted for a fixed force, whose model counts and units can't change */
+  onModelCountChange?: (count: number) => void;
+  onRemove?: () => void;
   onClose: () => void;
   enhancement?: {
     assigned: Enhancement | null;
@@ -53,12 +57,22 @@ interface UnitDetailPanelProps {
     onAttach: (leaderArmyListUnitId: string) => void;
     onDetach: (leaderArmyListUnitId: string) => void;
   };
+  transport?: {
+    load: TransportLoad;
+    candidates: EmbarkCandidate[];
+    onEmbark: (passengerArmyListUnitIds: string[]) => void;
+    onDisembark: (passengerArmyListUnitIds: string[]) => void;
+  };
+  /** Name of the transport this unit starts the battle in */
+  embarkedIn?: string | null;
+  /** Shows the unit's choices without letting them change, for view-only access */
+  readOnly?: boolean;
 }
 
 export function UnitDetailPanel({
   unit, weapons, modelCount, points, availableTiers,
   onModelCountChange, onRemove, onClose,
-  enhancement, wargear, composition, leaderAttachment,
+  enhancement, wargear, composition, leaderAttachment, transport, embarkedIn, readOnly = false,
 }: UnitDetailPanelProps) {
   const sortedTiers = [...availableTiers].sort((a, b) => a.model_count - b.model_count);
   const enhancementPoints = enhancement?.assigned?.points ?? 0;
@@ -98,6 +112,9 @@ export function UnitDetailPanel({
             {unit.max_per_list === 1 && (
               <span className="unit-card__unique-tag">Unique</span>
             )}
+            {embarkedIn && (
+              <span className="embark-plan__tag">In {embarkedIn}</span>
+            )}
           </div>
         </div>
         <div className="detail-panel__header-right">
@@ -113,156 +130,159 @@ export function UnitDetailPanel({
         <StatLine unit={unit} />
       </div>
 
-      {/* Leader/Champion Wargear Section */}
-      {leaderVariant && wargear && (
-        <LeaderWargearSection
-          leaderVariant={leaderVariant}
-          wargearOptions={wargear.options}
-          selected={wargear.selected}
-          onSelect={wargear.onSelect}
-        />
-      )}
-
-      {/* Model Composition */}
-      {composition && composition.variants.length > 0 && (
-        <ModelCompositionSection
-          variants={composition.variants}
-          composition={composition.counts}
-          totalModels={modelCount}
-          onUpdateCount={composition.onUpdateCount}
-        />
-      )}
-
-      {/* Model Count (for units without composition but with tiers) */}
-      {sortedTiers.length > 1 && (!composition || composition.variants.length === 0) && (
-        <div className="detail-section detail-section--models">
-          <div className="detail-section__header">
-            <span className="detail-section__icon">&#9881;</span>
-            <span className="detail-section__title">Models</span>
-          </div>
-          <div className="detail-section__content">
-            <select
-              className="form-select"
-              value={modelCount}
-              onChange={(e) => onModelCountChange(Number(e.target.value))}
-            >
-              {sortedTiers.map((tier) => (
-                <option key={tier.id} value={tier.model_count}>
-                  {tier.model_count} models ({tier.points} pts)
-                </option>
-              ))}
-            </select>
-          </div>
-        </div>
-      )}
+      <fieldset className="detail-panel__edits" disabled={readOnly}>
+        {/* Leader/Champion Wargear Section */}
+        {leaderVariant && wargear && (
+          <LeaderWargearSection
+            leaderVariant={leaderVariant}
+            wargearOptions={wargear.options}
+            selected={wargear.selected}
+            onSelect={wargear.onSelect}
+          />
+        )}
 
-      {/* Variant Wargear (non-leader) */}
-      {wargear && composition && (
-        <VariantWargearSection
-          variants={composition.variants}
-          wargearOptions={wargear.options}
-          selected={wargear.selected}
-          onSelect={wargear.onSelect}
-          composition={composition.counts}
-        />
-      )}
+        {/* Model Composition */}
+        {composition && composition.variants.length > 0 && (
+          <ModelCompositionSection
+            variants={composition.variants}
+            composition={composition.counts}
+            totalModels={modelCount}
+            onUpdateCount={composition.onUpdateCount}
+          />
+        )}
 
-      {/* Unit-level Wargear (for units without composition/variants) */}
-      {wargear && (!composition || composition.variants.length === 0) && (() => {
-        const wargearGroups: [string, WargearOption[]][] = [];
-        const groups = new Map<string, WargearOption[]>();
-        for (const opt of wargear.options) {
-          if (opt.is_required) continue; // always-equipped, shown on datasheet only
-          if (!groups.has(opt.group_name)) groups.set(opt.group_name, []);
-          groups.get(opt.group_name)!.push(opt);
-        }
-        for (const [name, opts] of groups) {
-          if (opts.length >= 1) wargearGroups.push([name, opts]);
-        }
-        if (wargearGroups.length === 0) return null;
-        return (
-          <div className="detail-section detail-section--wargear">
+        {/* Model Count (for units without composition but with tiers) */}
+        {onModelCountChange && sortedTiers.length > 1 && (!composition || composition.variants.length === 0) && (
+          <div className="detail-section detail-section--models">
             <div className="detail-section__header">
-              <span className="detail-section__icon">&#128296;</span>
-              <span className="detail-section__title">Wargear</span>
+              <span className="detail-section__icon">&#9881;</span>
+              <span className="detail-section__title">Models</span>
             </div>
             <div className="detail-section__content">
-              {wargearGroups.map(([groupName, opts]) => {
-                const selectedOptId = wargear.selected.get(groupName) ?? opts.find(o => o.is_default)?.id ?? '';
-                const subs = wargear.subOptions.filter(s => s.wargear_option_id === selectedOptId);
-                const wargearRowId = wargear.rowIds.get(selectedOptId);
-                const subSels = wargearRowId ? (wargear.subSelections.get(wargearRowId) ?? new Map<string, number>()) : new Map<string, number>();
-                const selectedOpt = opts.find(o => o.id === selectedOptId);
-                return (
-                  <div key={groupName}>
-                    <WargearToggle
-                      groupName={groupName}
-                      options={opts}
-                      selectedId={selectedOptId}
-                      onSelect={(optionId) => wargear.onSelect(groupName, optionId)}
-                    />
-                    {subs.length > 0 && wargearRowId && selectedOpt && (
-                      <WargearSubPicker
-                        groupName={selectedOpt.name}
-                        poolMax={selectedOpt.pool_max ?? subs.reduce((max, s) => Math.max(max, s.max_count), 0)}
-                        subOptions={subs}
-                        selected={subSels}
-                        onChangeQuantity={(subId, qty) => wargear.onSelectSubOption(wargearRowId, subId, qty)}
-                      />
-                    )}
-                  </div>
-                );
-              })}
+              <select
+                className="form-select"
+                value={modelCount}
+                onChange={(e) => onModelCountChange(Number(e.target.value))}
+              >
+                {sortedTiers.map((tier) => (
+                  <option key={tier.id} value={tier.model_count}>
+                    {tier.model_count} models ({tier.points} pts)
+                  </option>
+                ))}
+              </select>
             </div>
           </div>
-        );
-      })()}
+        )}
 
-      {/* Leader Attachment */}
-      {leaderAttachment && leaderAttachment.eligibleLeaders.length > 0 && (
-        <LeaderAttachmentSection
-          eligibleLeaders={leaderAttachment.eligibleLeaders}
-          onAttach={leaderAttachment.onAttach}
-          onDetach={leaderAttachment.onDetach}
-        />
-      )}
+        {/* Variant Wargear (non-leader) */}
+        {wargear && composition && (
+          <VariantWargearSection
+            variants={composition.variants}
+            wargearOptions={wargear.options}
+            selected={wargear.selected}
+            onSelect={wargear.onSelect}
+            composition={composition.counts}
+          />
+        )}
 
-      {/* Enhancement */}
-      {enhancement && (
-        <div className="detail-section detail-section--enhancement">
-          <div className="detail-section__header">
-            <span className="detail-section__icon">&#10022;</span>
-            <span className="detail-section__title">Enhancement</span>
-          </div>
-          <div className="detail-section__content">
-            <select
-              className="form-select"
-              value={enhancement.assigned?.id ?? ''}
-              onChange={(e) => enhancement.onAssign(e.target.value)}
-              disabled={enhancement.limitReached}
-            >
-              <option value="">{enhancement.limitReached ? 'Max 3 enhancements reached' : 'None'}</option>
-              {enhancement.available.map(e => (
-                <option key={e.id} value={e.id}>{e.name} (+{e.points} pts)</option>
-              ))}
-            </select>
-            {enhancement.assigned && (
-              <div className="detail-panel__enhancement-detail">
-                <div className="detail-panel__enhancement-name">
-                  <span>{enhancement.assigned.name}</span>
-                  <span>+{enhancement.assigned.points} pts</span>
-                </div>
-                <div className="detail-panel__enhancement-desc">
-                  {cleanGameText(enhancement.assigned.description)}
-                </div>
+        {/* Unit-level Wargear (for units without composition/variants) */}
+        {wargear && (!composition || composition.variants.length === 0) && (() => {
+          const wargearGroups: [string, WargearOption[]][] = [];
+          const groups = new Map<string, WargearOption[]>();
+          for (const opt of wargear.options) {
+            if (opt.is_required) continue; // always-equipped, shown on datasheet only
+            if (!groups.has(opt.group_name)) groups.set(opt.group_name, []);
+            groups.get(opt.group_name)!.push(opt);
+          }
+          for (const [name, opts] of groups) {
+            if (opts.length >= 1) wargearGroups.push([name, opts]);
+          }
+          if (wargearGroups.length === 0) return null;
+          return (
+            <div className="detail-section detail-section--wargear">
+              <div className="detail-section__header">
+                <span className="detail-section__icon">&#128296;</span>
+                <span className="detail-section__title">Wargear</span>
               </div>
-            )}
+              <div className="detail-section__content">
+                {wargearGroups.map(([groupName, opts]) => {
+                  const selectedOptId = wargear.selected.get(groupName) ?? opts.find(o => o.is_default)?.id ?? '';
+                  const subs = wargear.subOptions.filter(s => s.wargear_option_id === selectedOptId);
+                  const wargearRowId = wargear.rowIds.get(selectedOptId);
+                  const subSels = wargearRowId ? (wargear.subSelections.get(wargearRowId) ?? new Map<string, number>()) : new Map<string, number>();
+                  const selectedOpt = opts.find(o => o.id === selectedOptId);
+                  return (
+                    <div key={groupName}>
+                      <WargearToggle
+                        groupName={groupName}
+                        options={opts}
+                        selectedId={selectedOptId}
+                        onSelect={(optionId) => wargear.onSelect(groupName, optionId)}
+                      />
+                      {subs.length > 0 && wargearRowId && selectedOpt && (
+                        <WargearSubPicker
+                          groupName={selectedOpt.name}
+                          poolMax={selectedOpt.pool_max ?? subs.reduce((max, s) => Math.max(max, s.max_count), 0)}
+                          subOptions={subs}
+                          selected={subSels}
+                          onChangeQuantity={(subId, qty) => wargear.onSelectSubOption(wargearRowId, subId, qty)}
+                        />
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          );
+        })()}
+
+        {/* Leader Attachment */}
+        {leaderAttachment && leaderAttachment.eligibleLeaders.length > 0 && (
+          <LeaderAttachmentSection
+            eligibleLeaders={leaderAttachment.eligibleLeaders}
+            onAttach={leaderAttachment.onAttach}
+            onDetach={leaderAttachment.onDetach}
+          />
+        )}
+
+        {/* Enhancement */}
+        {enhancement && (
+          <div className="detail-section detail-section--enhancement">
+            <div className="detail-section__header">
+              <span className="detail-section__icon">&#10022;</span>
+              <span className="detail-section__title">Enhancement</span>
+            </div>
+            <div className="detail-section__content">
+              <select
+                className="form-select"
+                value={enhancement.assigned?.id ?? ''}
+                onChange={(e) => enhancement.onAssign(e.target.value)}
+                disabled={enhancement.limitReached}
+              >
+                <option value="">{enhancement.limitReached ? 'Max 3 enhancements reached' : 'None'}</option>
+                {enhancement.available.map(e => (
+                  <option key={e.id} value={e.id}>{e.name} (+{e.points} pts)</option>
+                ))}
+              </select>
+              {enhancement.assigned && (
+                <div className="detail-panel__enhancement-detail">
+                  <div className="detail-panel__enhancement-name">
+                    <span>{enhancement.assigned.name}</span>
+                    <span>+{enhancement.assigned.points} pts</span>
+                  </div>
+                  <div className="detail-panel__enhancement-desc">
+                    {cleanGameText(enhancement.assigned.description)}
+                  </div>
+                </div>
+              )}
+            </div>
           </div>
-        </div>
-      )}
+        )}
+      </fieldset>
 
       {/* Loadout Datasheet */}
       <LoadoutDatasheet weapons={loadoutWeapons} />
+      <MathhammerPanel weapons={weapons} modelCount={modelCount} />
 
       {/* Abilities */}
       {hasAbilities && (
@@ -307,10 +327,30 @@ export function UnitDetailPanel({
                 ))}
               </div>
             )}
+            {unit.transport_bulky_keywords && Object.keys(unit.transport_bulky_keywords).length > 0 && (
+              <div className="transport-info__rule">
+                <span className="transport-info__rule-label">Per model:</span>
+                {Object.entries(unit.transport_bulky_keywords).map(([kw, slots]) => (
+                  <span key={kw} className="transport-info__keyword">{kw} &times;{slots}</span>
+                ))}
+              </div>
+            )}
           </div>
         </div>
       )}
 
+      <fieldset className="detail-panel__edits" disabled={readOnly}>
+        {/* Embark Plan */}
+        {transport && (
+          <TransportEmbarkSection
+            load={transport.load}
+            candidates={transport.candidates}
+            onEmbark={transport.onEmbark}
+            onDisembark={transport.onDisembark}
+          />
+        )}
+      </fieldset>
+
       {/* Keywords */}
       {unit.keywords.length > 0 && (
         <div className="detail-panel__section">
@@ -324,14 +364,16 @@ export function UnitDetailPanel({
       )}
 
       {/* Remove Button */}
-      <div className="detail-panel__section detail-panel__section--footer">
-        <button
-          className="btn btn--danger"
-          onClick={onRemove}
-        >
-          Remove Unit
-        </button>
-      </div>
+      {onRemove && (
+        <div className="detail-panel__section detail-panel__section--footer">
+          <button
+            className="btn btn--danger"
+            onClick={onRemove}
+          >
+            Remove Unit
+          </button>
+        </div>
+      )}
     </div>
   );
 }
@@ -21,6 +21,7 @@ function createMockUnit(overrides?: Partial<UnitWithRelations>): UnitWithRelatio
     transport_capacity: null,
     transport_keywords_allowed: null,
     transport_keywords_excluded: null,
+    transport_bulky_keywords: null,
     created_at: '2025-01-01T00:00:00Z',
     unit_points_tiers: [
       { id: 't1', unit_id: 'unit-1', model_count: 5, points: 90 },
@@ -34,6 +35,7 @@ function createMockUnit(overrides?: Partial<UnitWithRelations>): UnitWithRelatio
 const defaultProps = {
   listName: 'Test List',
   totalPoints: 500,
+  availableUnits: [] as UnitWithRelations[],
   filteredUnits: [] as UnitWithRelations[],
   filteredAlliedUnits: [] as UnitWithRelations[],
   unitsByRole: {} as Record<string, UnitWithRelations[]>,
@@ -96,6 +98,21 @@ describe('UnitPicker', () => {
     expect(onAddUnit).toHaveBeenCalledWith(unit);
   });
 
+  it('disables adding when the list is view-only', () => {
+    const unit = createMockUnit({ name: 'Intercessors' });
+
+    render(
+      <UnitPicker
+        {...defaultProps}
+        filteredUnits={[unit]}
+        unitsByRole={{ battleline: [unit] }}
+        onAddUnit={undefined}
+      />
+    );
+
+    expect(screen.getByRole('button', { name: '+' })).toBeDisabled();
+  });
+
   it('disables unit at max limit', () => {
     const unit = createMockUnit({ id: 'hero-1', name: 'Guilliman', max_per_list: 1 });
     const counts = new Map([['hero-1', 1]]);
@@ -1,8 +1,11 @@
 import { ROLE_ORDER, ROLE_LABELS, type UnitWithRelations } from '../hooks/useListEditor';
+import { UnitQueryInput } from '../../../shared/components/UnitQueryInput';
 
 interface UnitPickerProps {
   listName: string;
   totalPoints: number;
+  /** Every unit the faction can take, for search suggestions */
+  availableUnits: UnitWithRelations[];
   filteredUnits: UnitWithRelations[];
   filteredAlliedUnits: UnitWithRelations[];
   unitsByRole: Record<string, UnitWithRelations[]>;
@@ -13,7 +16,8 @@ interface UnitPickerProps {
   showOwnedOnly: boolean;
   ownedUnitCounts: Map<string, number>;
   onFilterChange: (filter: string) => void;
-  onAddUnit: (unit: UnitWithRelations) => void;
+  /** Omitted when the list is view-only */
+  onAddUnit?: (unit: UnitWithRelations) => void;
   onToggleRole: (role: string) => void;
   onToggleLegends: () => void;
   onToggleOwnedOnly: () => void;
@@ -21,7 +25,7 @@ interface UnitPickerProps {
 }
 
 export function UnitPicker({
-  listName, totalPoints, filteredUnits, filteredAlliedUnits, unitsByRole, unitCountsInList,
+  listName, totalPoints, availableUnits, filteredUnits, filteredAlliedUnits, unitsByRole, unitCountsInList,
   collapsedPickerRoles, unitPickerFilter, showLegends, showOwnedOnly, ownedUnitCounts,
   onFilterChange, onAddUnit, onToggleRole, onToggleLegends, onToggleOwnedOnly, className,
 }: UnitPickerProps) {
@@ -33,12 +37,13 @@ export function UnitPicker({
       : 0;
     const currentCount = unitCountsInList.get(unit.id) ?? 0;
     const atLimit = currentCount >= unit.max_per_list;
+    const canAdd = !!onAddUnit && !atLimit;
     const ownedCount = ownedUnitCounts.get(unit.id);
     return (
       <div
         key={unit.id}
-        className={`unit-picker-item${atLimit ? ' unit-picker-item--disabled' : ''}`}
-        onClick={() => !atLimit && onAddUnit(unit)}
+        className={`unit-picker-item${canAdd ? '' : ' unit-picker-item--disabled'}`}
+        onClick={() => { if (canAdd) onAddUnit(unit); }}
       >
         <div className="unit-picker-item__info">
           <span className="unit-picker-item__points-inline">{minTier}</span>
@@ -52,8 +57,8 @@ export function UnitPicker({
         </div>
         <button
           className="unit-picker-item__add"
-          onClick={(e) => { e.stopPropagation(); if (!atLimit) onAddUnit(unit); }}
-          disabled={atLimit}
+          onClick={(e) => { e.stopPropagation(); if (canAdd) onAddUnit(unit); }}
+          disabled={!canAdd}
         >+</button>
       </div>
     );
@@ -114,12 +119,13 @@ export function UnitPicker({
       </div>
 
       <div className="list-editor__picker-footer">
-        <input
-          className="form-input list-editor__picker-search picker__search"
-          type="text"
+        <UnitQueryInput
+          className="list-editor__picker-search picker__search"
           placeholder="Search units..."
           value={unitPickerFilter}
-          onChange={(e) => onFilterChange(e.target.value)}
+          onChange={onFilterChange}
+          units={availableUnits}
+          dropUp
         />
         <div className="picker__toggles">
           <label className="picker__legends-toggle">
@@ -0,0 +1,65 @@
+import type { EmbarkCandidate, TransportLoad } from '../../lib/transportPlan';
+
+interface TransportEmbarkSectionProps {
+  load: TransportLoad;
+  candidates: EmbarkCandidate[];
+  onEmbark: (passengerArmyListUnitIds: string[]) => void;
+  onDisembark: (passengerArmyListUnitIds: string[]) => void;
+}
+
+export function TransportEmbarkSection({
+  load,
+  candidates,
+  onEmbark,
+  onDisembark,
+}: TransportEmbarkSectionProps) {
+  const overCapacity = load.remaining < 0;
+
+  return (
+    <div className="detail-section detail-section--embark">
+      <div className="detail-section__header">
+        <span className="detail-section__icon">&#9951;</span>
+        <span className="detail-section__title">Embarked Units</span>
+        <span className={`embark-plan__capacity${overCapacity ? ' embark-plan__capacity--over' : ''}`}>
+          {load.used}/{load.capacity} &middot; {overCapacity ? `${-load.remaining} over` : `${load.remaining} free`}
+        </span>
+      </div>
+      <div className="detail-section__content">
+        {candidates.length === 0 && (
+          <div className="embark-plan__empty">No units in the list can embark.</div>
+        )}
+        {candidates.map((c) => {
+          const isHere = c.embarkedIn?.id === load.transport.id;
+          const tooBig = !isHere && c.groupSlots > load.remaining;
+          const reason = c.blocker ?? (tooBig ? `Needs ${c.groupSlots} slots, ${Math.max(load.remaining, 0)} free` : null);
+
+          return (
+            <div
+              key={c.armyListUnitId}
+              className={`leader-card${isHere ? ' leader-card--attached' : ''}${reason && !isHere ? ' leader-card--disabled' : ''}`}
+            >
+              <div className="leader-card__info">
+                <span className="leader-card__name">{c.name}</span>
+                <span className="leader-card__stats">
+                  {c.modelCount} model{c.modelCount === 1 ? '' : 's'} &middot; {c.groupSlots} slot{c.groupSlots === 1 ? '' : 's'}
+                  {c.embarkedIn && !isHere && ` · in ${c.embarkedIn.units.name}`}
+                </span>
+                {reason && !isHere && <span className="embark-plan__reason">{reason}</span>}
+              </div>
+              <div className="leader-card__right">
+                <button
+                  className={`leader-card__toggle${isHere ? ' leader-card__toggle--active' : ''}`}
+                  onClick={() => isHere ? onDisembark(c.group) : onEmbark(c.group)}
+                  disabled={!isHere && reason != null}
+                  title={isHere ? 'Disembark' : reason ?? (c.embarkedIn ? `Move from ${c.embarkedIn.units.name}` : 'Embark')}
+                >
+                  {isHere ? '✓' : '+'}
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+import { useEffect, useRef } from 'react';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '../../../shared/lib/supabase';
+import { useAuth } from '../../../shared/hooks/useAuth';
+import { useListEditorStore } from '../stores/listEditorStore';
+import { parseRemoteListEdit, type ListPresence } from '../lib/listCollaboration';
+
+/**
+ * Joins the list's Realtime channel while the editor is open: broadcasts this client's edits,
+ * replays everyone else's through the editor store, and shares which unit each editor has
+ * selected via presence. The channel is private, so only people the list is shared with can
+ * join and only its editors can broadcast (see the realtime.messages policies). Signed-out
+ * visitors don't join.
+ */
+export function useListCollaboration(listId: string | undefined) {
+  const { user } = useAuth();
+  const userId = user?.id ?? null;
+  const selectedArmyListUnitId = useListEditorStore((s) => s.selectedArmyListUnitId);
+  const channelRef = useRef<RealtimeChannel | null>(null);
+  const presenceRef = useRef<ListPresence | null>(null);
+
+  useEffect(() => {
+    if (!listId || !userId) return;
+    const { receiveRemoteEdit, receiveRemoteResync, setCollaborators, setEditBroadcaster } = useListEditorStore.getState();
+    presenceRef.current = {
+      userId,
+      displayName: 'Teammate',
+      selectedArmyListUnitId: useListEditorStore.getState().selectedArmyListUnitId,
+    };
+    let subscribed = false;
+
+    const channel = supabase
+      .channel(`list:${listId}`, { config: { private: true, presence: { key: userId }, broadcast: { self: false } } })
+      .on('broadcast', { event: 'edit' }, ({ payload }) => {
+        const edit = parseRemoteListEdit(payload);
+        if (edit) receiveRemoteEdit(edit);
+      })
+      .on('broadcast', { event: 'resync' }, () => {
+        receiveRemoteResync();
+      })
+      .on('presence', { event: 'sync' }, () => {
+        const state = channel.presenceState<ListPresence>();
+        setCollaborators(
+          Object.entries(state)
+            .filter(([key, metas]) => key !== userId && metas.length > 0)
+            .map(([, metas]) => ({
+              userId: metas[0].userId,
+              displayName: metas[0].displayName,
+              selectedArmyListUnitId: metas[0].selectedArmyListUnitId,
+            })),
+        );
+      })
+      .subscribe((status) => {
+        if (status === 'SUBSCRIBED') {
+          subscribed = true;
+          setEditBroadcaster({
+            edit: (edit) => { channel.send({ type: 'broadcast', event: 'edit', payload: edit }); },
+            resync: () => { channel.send({ type: 'broadcast', event: 'resync', payload: {} }); },
+          });
+          if (presenceRef.current) channel.track(presenceRef.current);
+        } else if (status === 'CLOSED' || status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+          subscribed = false;
+          setEditBroadcaster(null);
+        }
+      });
+    channelRef.current = channel;
+
+    supabase
+      .from('user_profiles')
+      .select('display_name')
+      .eq('id', userId)
+      .single()
+      .then(({ data }) => {
+        if (!data?.display_name || !presenceRef.current) return;
+        presenceRef.current = { ...presenceRef.current, displayName: data.display_name as string };
+        if (subscribed) channel.track(presenceRef.current);
+      });
+
+    return () => {
+      setEditBroadcaster(null);
+      setCollaborators([]);
+      channelRef.current = null;
+      supabase.removeChannel(channel);
+    };
+  }, [listId, userId]);
+
+  // Keep everyone's view of our selection current
+  useEffect(() => {
+    if (!presenceRef.current || presenceRef.current.selectedArmyListUnitId === selectedArmyListUnitId) return;
+    presenceRef.current = { ...presenceRef.current, selectedArmyListUnitId };
+    channelRef.current?.track(presenceRef.current);
+  }, [selectedArmyListUnitId]);
+}
@@ -0,0 +1,84 @@
+import { useState, useCallback } from 'react';
+import { supabase } from '../../../shared/lib/supabase';
+import type { ArmyListCollaborator, UserProfile } from '../../../shared/types/database';
+
+export type CollaboratorWithProfile = ArmyListCollaborator & { user_profiles: UserProfile };
+
+interface UseListCollaboratorsResult {
+  collaborators: CollaboratorWithProfile[];
+  loading: boolean;
+  error: string | null;
+  fetch: (listId: string) => Promise<void>;
+  add: (listId: string, userId: string, role: ArmyListCollaborator['role']) => Promise<void>;
+  updateRole: (collaboratorId: string, role: ArmyListCollaborator['role']) => Promise<void>;
+  remove: (collaboratorId: string) => Promise<void>;
+}
+
+/** Who the list owner has shared a list with, and the owner's controls for changing that. */
+export function useListCollaborators(): UseListCollaboratorsResult {
+  const [collaborators, setCollaborators] = useState<CollaboratorWithProfile[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetch = useCallback(async (listId: string) => {
+    setLoading(true);
+    setError(null);
+    const { data, error: fetchError } = await supabase
+      .from('army_list_collaborators')
+      .select('*, user_profiles(*)')
+      .eq('army_list_id', listId)
+      .order('created_at');
+    if (fetchError) {
+      console.error('Failed to load list collaborators:', fetchError);
+      setError(fetchError.message);
+    } else {
+      setCollaborators((data ?? []) as CollaboratorWithProfile[]);
+    }
+    setLoading(false);
+  }, []);
+
+  const add = useCallback(async (listId: string, userId: string, role: ArmyListCollaborator['role']) => {
+    setError(null);
+    const { data, error: insertError } = await supabase
+      .from('army_list_collaborators')
+      .insert({ army_list_id: listId, user_id: userId, role })
+      .select('*, user_profiles(*)')
+      .single();
+    if (insertError) {
+      console.error('Failed to add list collaborator:', insertError);
+      setError(insertError.message);
+      return;
+    }
+    setCollaborators(prev => [...prev, data as CollaboratorWithProfile]);
+  }, []);
+
+  const updateRole = useCallback(async (collaboratorId: string, role: ArmyListCollaborator['role']) => {
+    setError(null);
+    const { error: updateError } = await supabase
+      .from('army_list_collaborators')
+      .update({ role })
+      .eq('id', collaboratorId);
+    if (updateError) {
+      console.error('Failed to change collaborator role:', updateError);
+      setError(updateError.message);
+      return;
+    }
+    setCollaborators(prev => prev.map(c => (c.id === collaboratorId ? { ...c, role } : c)));
+  }, []);
+
+  const remove = useCallback(async (collaboratorId: string) => {
+    setError(null);
+    const { error: deleteError } = await supabase
+      .from('army_list_collaborators')
+      .delete()
+      .eq('id', collaboratorId);
+    if (deleteError) {
+      console.error('Failed to remove list collaborator:', deleteError);
+      setError(deleteError.message);
+      return;
+    }
+    setCollaborators(prev => prev.filter(c => c.id !== collaboratorId));
+  }, []);
+
+  return { collaborators, loading, error, fetch, add, updateRole, remove };
+}
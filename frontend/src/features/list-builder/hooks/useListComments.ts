@@ -0,0 +1,175 @@
+import { useState, useCallback } from 'react';
+import { supabase } from '../../../shared/lib/supabase';
+import type { ArmyListComment, ArmyListReviewRequest, UserProfile } from '../../../shared/types/database';
+import type { CommentWithAuthor, ListChangeProposal } from '../lib/listReview';
+
+export type ReviewRequestWithReviewer = ArmyListReviewRequest & { reviewer: Pick<UserProfile, 'display_name'> | null };
+
+export interface NewComment {
+  body: string;
+  armyListUnitId?: string | null;
+  unitName?: string | null;
+  parentId?: string | null;
+  proposal?: ListChangeProposal | null;
+}
+
+interface UseListCommentsResult {
+  comments: CommentWithAuthor[];
+  reviewRequests: ReviewRequestWithReviewer[];
+  loading: boolean;
+  error: string | null;
+  fetch: (listId: string) => Promise<void>;
+  addComment: (listId: string, authorId: string, comment: NewComment) => Promise<boolean>;
+  setResolved: (commentId: string, resolved: boolean) => Promise<void>;
+  setProposalStatus: (commentId: string, status: NonNullable<ArmyListComment['proposal_status']>) => Promise<void>;
+  deleteComment: (commentId: string) => Promise<void>;
+  requestReview: (listId: string, requesterId: string, reviewerId: string, message: string) => Promise<void>;
+  withdrawReview: (requestId: string) => Promise<void>;
+  setReviewStatus: (requestId: string, status: ArmyListReviewRequest['status']) => Promise<void>;
+}
+
+const COMMENT_SELECT = '*, user_profiles(display_name)';
+
+/** Comment threads on one list, plus the owner's outstanding review requests for it. */
+export function useListComments(): UseListCommentsResult {
+  const [comments, setComments] = useState<CommentWithAuthor[]>([]);
+  const [reviewRequests, setReviewRequests] = useState<ReviewRequestWithReviewer[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetch = useCallback(async (listId: string) => {
+    setLoading(true);
+    setError(null);
+    const [commentsRes, requestsRes] = await Promise.all([
+      supabase
+        .from('army_list_comments')
+        .select(COMMENT_SELECT)
+        .eq('army_list_id', listId)
+        .order('created_at'),
+      // Reviewers only see their own request, owners see all of them
+      supabase
+        .from('army_list_review_requests')
+        .select('*, reviewer:user_profiles!army_list_review_requests_reviewer_id_fkey(display_name)')
+        .eq('army_list_id', listId)
+        .order('created_at'),
+    ]);
+    if (commentsRes.error) {
+      console.error('Failed to load list comments:', commentsRes.error);
+      setError(commentsRes.error.message);
+    } else {
+      setComments((commentsRes.data ?? []) as CommentWithAuthor[]);
+    }
+    if (requestsRes.error) {
+      console.error('Failed to load review requests:', requestsRes.error);
+    } else {
+      setReviewRequests((requestsRes.data ?? []) as unknown as ReviewRequestWithReviewer[]);
+    }
+    setLoading(false);
+  }, []);
+
+  const addComment = useCallback(async (listId: string, authorId: string, comment: NewComment) => {
+    setError(null);
+    const { data, error: insertError } = await supabase
+      .from('army_list_comments')
+      .insert({
+        army_list_id: listId,
+        author_id: authorId,
+        body: comment.body,
+        army_list_unit_id: comment.armyListUnitId ?? null,
+        unit_name: comment.unitName ?? null,
+        parent_id: comment.parentId ?? null,
+        proposal: comment.proposal ?? null,
+        proposal_status: comment.proposal ? 'open' : null,
+      })
+      .select(COMMENT_SELECT)
+      .single();
+    if (insertError) {
+      console.error('Failed to add comment:', insertError);
+      setError(insertError.message);
+      return false;
+    }
+    setComments(prev => [...prev, data as CommentWithAuthor]);
+    return true;
+  }, []);
+
+  const updateComment = useCallback(async (commentId: string, values: Partial<ArmyListComment>) => {
+    setError(null);
+    const { error: updateError } = await supabase
+      .from('army_list_comments')
+      .update(values)
+      .eq('id', commentId);
+    if (updateError) {
+      console.error('Failed to update comment:', updateError);
+      setError(updateError.message);
+      return;
+    }
+    setComments(prev => prev.map(c => (c.id === commentId ? { ...c, ...values } : c)));
+  }, []);
+
+  const setResolved = useCallback(
+    (commentId: string, resolved: boolean) => updateComment(commentId, { resolved_at: resolved ? new Date().toISOString() : null }),
+    [updateComment],
+  );
+
+  const setProposalStatus = useCallback(
+    (commentId: string, status: NonNullable<ArmyListComment['proposal_status']>) => updateComment(commentId, { proposal_status: status }),
+    [updateComment],
+  );
+
+  const deleteComment = useCallback(async (commentId: string) => {
+    setError(null);
+    const { error: deleteError } = await supabase.from('army_list_comments').delete().eq('id', commentId);
+    if (deleteError) {
+      console.error('Failed to delete comment:', deleteError);
+      setError(deleteError.message);
+      return;
+    }
+    // Deleting a thread's first comment takes its replies with it
+    setComments(prev => prev.filter(c => c.id !== commentId && c.parent_id !== commentId));
+  }, []);
+
+  const requestReview = useCallback(async (listId: string, requesterId: string, reviewerId: string, message: string) => {
+    setError(null);
+    const { data, error: insertError } = await supabase
+      .from('army_list_review_requests')
+      .insert({ army_list_id: listId, requester_id: requesterId, reviewer_id: reviewerId, message: message.trim() || null })
+      .select('*, reviewer:user_profiles!army_list_review_requests_reviewer_id_fkey(display_name)')
+      .single();
+    if (insertError) {
+      console.error('Failed to request review:', insertError);
+      setError(insertError.message);
+      return;
+    }
+    setReviewRequests(prev => [...prev, data as unknown as ReviewRequestWithReviewer]);
+  }, []);
+
+  const withdrawReview = useCallback(async (requestId: string) => {
+    setError(null);
+    const { error: deleteError } = await supabase.from('army_list_review_requests').delete().eq('id', requestId);
+    if (deleteError) {
+      console.error('Failed to withdraw review request:', deleteError);
+      setError(deleteError.message);
+      return;
+    }
+    setReviewRequests(prev => prev.filter(r => r.id !== requestId));
+  }, []);
+
+  const setReviewStatus = useCallback(async (requestId: string, status: ArmyListReviewRequest['status']) => {
+    setError(null);
+    const { error: updateError } = await supabase
+      .from('army_list_review_requests')
+      .update({ status })
+      .eq('id', requestId);
+    if (updateError) {
+      console.error('Failed to update review request:', updateError);
+      setError(updateError.message);
+      return;
+    }
+    setReviewRequests(prev => prev.map(r => (r.id === requestId ? { ...r, status } : r)));
+  }, []);
+
+  return {
+    comments, reviewRequests, loading, error,
+    fetch, addComment, setResolved, setProposalStatus, deleteComment, requestReview, withdrawReview, setReviewStatus,
+  };
+}
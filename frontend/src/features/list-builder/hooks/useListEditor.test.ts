@@ -20,6 +20,7 @@ describe('getUnitPoints', () => {
     transport_capacity: null,
     transport_keywords_allowed: null,
     transport_keywords_excluded: null,
+    transport_bulky_keywords: null,
     edition: '10e',
     created_at: '2025-01-01T00:00:00Z',
     unit_points_tiers: [
@@ -10,6 +10,7 @@ import {
   useListEditorStore,
   getUnitPoints,
   selectTotalPoints,
+  selectListDocument,
   selectOverLimit,
   selectUnitCountsInList,
   selectUnitEnhancementMap,
@@ -17,8 +18,12 @@ import {
   selectEnhancementLimitReached,
   selectUnitLimitWarnings,
   selectEnhancementWarnings,
+  selectLeaderWarnings,
   selectBattleSizeWarnings,
   selectTransportWarnings,
+  selectEmbarkWarnings,
+  selectAlliedWarnings,
+  selectAlliedContingents,
   selectPointsMismatch,
   selectFilteredUnits,
   selectUnitsByRole,
@@ -77,8 +82,12 @@ export function useListEditor(id: string | undefined) {
   const enhancementLimitReached = useMemo(() => selectEnhancementLimitReached(store), [store]);
   const unitLimitWarnings = useMemo(() => selectUnitLimitWarnings(store), [store]);
   const enhancementWarnings = useMemo(() => selectEnhancementWarnings(store), [store]);
+  const leaderWarnings = useMemo(() => selectLeaderWarnings(store), [store]);
   const battleSizeWarnings = useMemo(() => selectBattleSizeWarnings(store), [store]);
   const transportWarnings = useMemo(() => selectTransportWarnings(store), [store]);
+  const embarkWarnings = useMemo(() => selectEmbarkWarnings(store), [store]);
+  const alliedWarnings = useMemo(() => selectAlliedWarnings(store), [store]);
+  const alliedContingents = useMemo(() => selectAlliedContingents(store), [store]);
   const pointsMismatch = useMemo(() => selectPointsMismatch(store), [store]);
   const filteredUnits = useMemo(() => selectFilteredUnits(store), [store]);
   const unitsByRole = useMemo(() => selectUnitsByRole(store), [store]);
@@ -88,6 +97,7 @@ export function useListEditor(id: string | undefined) {
   const rosterSectionPoints = useMemo(() => selectRosterSectionPoints(store), [store]);
   const rosterAlliedPoints = useMemo(() => selectRosterAlliedPoints(store), [store]);
   const selectedLu = useMemo(() => selectSelectedLu(store), [store]);
+  const listDocument = useMemo(() => selectListDocument(store), [store]);
 
   return {
     // State
@@ -116,14 +126,19 @@ export function useListEditor(id: string | undefined) {
     showOwnedOnly: store.showOwnedOnly,
     ownedUnitCounts: store.ownedUnitCounts,
     selectedLu,
+    listDocument,
 
     // Computed
     totalPoints,
     overLimit,
     unitLimitWarnings,
     enhancementWarnings,
+    leaderWarnings,
     battleSizeWarnings,
     transportWarnings,
+    embarkWarnings,
+    alliedWarnings,
+    alliedContingents,
     pointsMismatch,
     unitCountsInList,
     assignedEnhancementIds,
@@ -138,6 +153,8 @@ export function useListEditor(id: string | undefined) {
     rosterAlliedPoints,
     alliedUnitIds: store.alliedUnitIds,
     availableDetachments: store.availableDetachments,
+    combatPatrol: store.combatPatrol,
+    pointsDatasets: store.pointsDatasets,
 
     // Actions
     addUnit: store.addUnit,
@@ -146,16 +163,34 @@ export function useListEditor(id: string | undefined) {
     updatePointsLimit: store.updatePointsLimit,
     updateBattleSize: store.updateBattleSize,
     changeDetachment: store.changeDetachment,
+    pinPointsDataset: store.pinPointsDataset,
     updateModelCount: store.updateModelCount,
     assignEnhancement: store.assignEnhancement,
     selectWargear: store.selectWargear,
     selectWargearSubOption: store.selectWargearSubOption,
     handleImport: store.handleImport,
+    handleRosterImport: store.handleRosterImport,
+    handleDocumentImport: store.handleDocumentImport,
     reorderUnits: store.reorderUnits,
     togglePickerRole: store.togglePickerRole,
     toggleLegends: store.toggleLegends,
     toggleOwnedOnly: store.toggleOwnedOnly,
 
+    // Undo / redo
+    undo: store.undo,
+    redo: store.redo,
+    undoLabel: store.undoStack.at(-1)?.label ?? null,
+    redoLabel: store.redoStack.at(-1)?.label ?? null,
+
+    // Offline sync
+    syncStatus: store.syncStatus,
+    pendingMutations: store.pendingMutations,
+    flushMutationQueue: store.flushMutationQueue,
+
+    // Live collaboration
+    accessRole: store.accessRole,
+    collaborators: store.collaborators,
+
     // Helpers (bound to current state)
     getWargearSummary: (armyListUnitId: string, unitId: string) =>
       _getWargearSummary(useListEditorStore.getState(), armyListUnitId, unitId),
@@ -178,6 +213,9 @@ export function useListEditor(id: string | undefined) {
     leaderAttachments: store.leaderAttachments,
     attachLeader: store.attachLeader,
     detachLeader: store.detachLeader,
+    transportEmbarks: store.transportEmbarks,
+    embarkUnits: store.embarkUnits,
+    disembarkUnits: store.disembarkUnits,
     getEligibleLeaders: (unitId: string) =>
       _getEligibleLeaders(useListEditorStore.getState(), unitId),
     getAttachmentForTarget: (targetArmyListUnitId: string) =>
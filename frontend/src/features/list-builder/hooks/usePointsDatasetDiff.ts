@@ -0,0 +1,76 @@
+import { useState, useCallback } from 'react';
+import { supabase } from '../../../shared/lib/supabase';
+import type { PointsDatasetEnhancement, PointsDatasetTier } from '../../../shared/types/database';
+import {
+  datasetPoints, diffListPoints, overlayPoints,
+  type DatasetPoints, type DiffEnhancement, type DiffUnit, type PointsDiff,
+} from '../lib/pointsDataset';
+
+export interface PointsDiffRequest {
+  /** null means current points, i.e. following the latest release */
+  fromDatasetId: string | null;
+  toDatasetId: string | null;
+  units: DiffUnit[];
+  enhancements: DiffEnhancement[];
+}
+
+interface UsePointsDatasetDiffResult {
+  diff: PointsDiff | null;
+  loading: boolean;
+  error: string | null;
+  fetch: (request: PointsDiffRequest) => Promise<void>;
+}
+
+/** What a list's points would become if it moved from one points dataset to another. */
+export function usePointsDatasetDiff(): UsePointsDatasetDiffResult {
+  const [diff, setDiff] = useState<PointsDiff | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetch = useCallback(async ({ fromDatasetId, toDatasetId, units, enhancements }: PointsDiffRequest) => {
+    setLoading(true);
+    setError(null);
+    const unitIds = [...new Set(units.map(u => u.unitId))];
+    const enhancementIds = enhancements.map(e => e.enhancementId);
+    const datasetIds = [fromDatasetId, toDatasetId].filter((id): id is string => !!id);
+
+    const [tiersRes, enhancementsRes, datasetTiersRes, datasetEnhancementsRes] = await Promise.all([
+      supabase.from('unit_points_tiers').select('unit_id, model_count, points').in('unit_id', unitIds),
+      supabase.from('enhancements').select('id, points').in('id', enhancementIds),
+      supabase
+        .from('points_dataset_tiers')
+        .select('dataset_id, unit_id, model_count, points')
+        .in('dataset_id', datasetIds)
+        .in('unit_id', unitIds),
+      supabase
+        .from('points_dataset_enhancements')
+        .select('dataset_id, enhancement_id, points')
+        .in('dataset_id', datasetIds)
+        .in('enhancement_id', enhancementIds),
+    ]);
+
+    const failed = [tiersRes, enhancementsRes, datasetTiersRes, datasetEnhancementsRes].find(r => r.error);
+    if (failed?.error) {
+      console.error('Failed to load points for comparison:', failed.error);
+      setError(failed.error.message);
+      setLoading(false);
+      return;
+    }
+
+    const current = datasetPoints(
+      tiersRes.data ?? [],
+      (enhancementsRes.data ?? []).map(e => ({ enhancement_id: e.id as string, points: e.points as number })),
+    );
+    const pointsFor = (datasetId: string | null): DatasetPoints => datasetId
+      ? overlayPoints(current, datasetPoints(
+          ((datasetTiersRes.data ?? []) as PointsDatasetTier[]).filter(t => t.dataset_id === datasetId),
+          ((datasetEnhancementsRes.data ?? []) as PointsDatasetEnhancement[]).filter(e => e.dataset_id === datasetId),
+        ))
+      : current;
+
+    setDiff(diffListPoints(units, enhancements, pointsFor(fromDatasetId), pointsFor(toDatasetId)));
+    setLoading(false);
+  }, []);
+
+  return { diff, loading, error, fetch };
+}
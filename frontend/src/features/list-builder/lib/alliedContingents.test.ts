@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import type { AlliedContingentRule } from '../../../shared/types/database';
+import type { ArmyListUnitWithDetails } from '../stores/listEditorStore';
+import { buildAlliedContingents, isOverCap, type AlliedContingentInput } from './alliedContingents';
+
+function rule(id: string, alliedFactionId: string, overrides?: Partial<AlliedContingentRule>): AlliedContingentRule {
+  return {
+    id, faction_id: 'f-sm', allied_faction_id: alliedFactionId, rule_name: id,
+    points_caps: {}, unit_caps: {}, excluded_roles: [], allow_enhancements: false,
+    ...overrides,
+  };
+}
+
+function listUnit(id: string, factionId: string, points: number): ArmyListUnitWithDetails {
+  return {
+    id, unit_id: `u-${id}`, model_count: 1,
+    units: { id: `u-${id}`, name: id, faction_id: factionId, unit_points_tiers: [{ model_count: 1, points }] },
+  } as unknown as ArmyListUnitWithDetails;
+}
+
+const agents = rule('Assigned Agents', 'f-aoi', { unit_caps: { incursion: 2, strike_force: 4 } });
+const freeblades = rule('Freeblades', 'f-ik', { points_caps: { strike_force: 500 } });
+
+function mockInput(overrides?: Partial<AlliedContingentInput>): AlliedContingentInput {
+  return {
+    list: { battle_size: 'strike_force' },
+    listUnits: [
+      listUnit('captain', 'f-sm', 80),
+      listUnit('inquisitor', 'f-aoi', 55),
+      listUnit('acolytes', 'f-aoi', 40),
+      listUnit('armiger', 'f-ik', 140),
+    ],
+    listEnhancements: [{ enhancement_id: 'enh-1', army_list_unit_id: 'inquisitor' }],
+    enhancements: [{ id: 'enh-1', points: 20 }],
+    alliedRules: [agents, freeblades],
+    ...overrides,
+  };
+}
+
+describe('buildAlliedContingents', () => {
+  it('groups units by allied faction and totals their points with enhancements', () => {
+    const contingents = buildAlliedContingents(mockInput());
+    expect(contingents.map(c => [c.rule.rule_name, c.units.map(lu => lu.id), c.points, c.pointsCap, c.unitCap])).toEqual([
+      ['Assigned Agents', ['inquisitor', 'acolytes'], 115, null, 4],
+      ['Freeblades', ['armiger'], 140, 500, null],
+    ]);
+  });
+
+  it('looks caps up by battle size and skips rules the list does not use', () => {
+    const contingents = buildAlliedContingents(mockInput({
+      list: { battle_size: 'incursion' },
+      listUnits: mockInput().listUnits.filter(lu => lu.units.faction_id !== 'f-ik'),
+    }));
+    expect(contingents).toHaveLength(1);
+    expect(contingents[0].unitCap).toBe(2);
+    expect(isOverCap(contingents[0])).toBe(false);
+
+    const [over] = buildAlliedContingents(mockInput({
+      list: { battle_size: 'incursion' },
+      listUnits: [...mockInput().listUnits, listUnit('crusaders', 'f-aoi', 30)],
+    }));
+    expect(isOverCap(over)).toBe(true);
+  });
+
+  it('finds no contingents without rules', () => {
+    expect(buildAlliedContingents(mockInput({ alliedRules: undefined }))).toEqual([]);
+  });
+});
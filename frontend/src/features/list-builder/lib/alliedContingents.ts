@@ -0,0 +1,61 @@
+/**
+ * Allied contingents: the units a list brings from another faction under an allied rule
+ * (Assigned Agents, Freeblades, Daemonic Pact, ...), and how they measure up to its caps.
+ *
+ * A unit belongs to a contingent when its datasheet comes from the rule's allied faction.
+ * Caps are looked up by the list's battle size; a battle size the rule doesn't list has no cap.
+ * The rules themselves live in allied_contingent_rules and are checked in listRules.
+ */
+
+import type { AlliedContingentRule } from '../../../shared/types/database';
+import type { ArmyListUnitWithDetails } from '../stores/listEditorStore';
+import { getUnitPoints } from '../stores/listEditorStore';
+
+export interface AlliedContingent {
+  rule: AlliedContingentRule;
+  /** Roster entries from the allied faction, in roster order */
+  units: ArmyListUnitWithDetails[];
+  /** Units plus any enhancements they carry */
+  points: number;
+  pointsCap: number | null;
+  unitCap: number | null;
+}
+
+export interface AlliedContingentInput {
+  list: { battle_size?: string } | null;
+  listUnits: ArmyListUnitWithDetails[];
+  listEnhancements: { enhancement_id: string; army_list_unit_id: string }[];
+  enhancements: { id: string; points: number }[];
+  alliedRules?: AlliedContingentRule[];
+}
+
+function capFor(caps: Record<string, number>, battleSize: string | undefined): number | null {
+  return battleSize !== undefined && battleSize in caps ? caps[battleSize] : null;
+}
+
+/** One contingent per allied rule the list uses, in the rules' order. */
+export function buildAlliedContingents(input: AlliedContingentInput): AlliedContingent[] {
+  const battleSize = input.list?.battle_size;
+  const contingents: AlliedContingent[] = [];
+  for (const rule of input.alliedRules ?? []) {
+    const units = input.listUnits.filter(lu => lu.units.faction_id === rule.allied_faction_id);
+    if (units.length === 0) continue;
+    const ids = new Set(units.map(lu => lu.id));
+    const enhancementPoints = input.listEnhancements
+      .filter(le => ids.has(le.army_list_unit_id))
+      .reduce((sum, le) => sum + (input.enhancements.find(e => e.id === le.enhancement_id)?.points ?? 0), 0);
+    contingents.push({
+      rule,
+      units,
+      points: units.reduce((sum, lu) => sum + getUnitPoints(lu.units, lu.model_count), 0) + enhancementPoints,
+      pointsCap: capFor(rule.points_caps, battleSize),
+      unitCap: capFor(rule.unit_caps, battleSize),
+    });
+  }
+  return contingents;
+}
+
+export function isOverCap(contingent: AlliedContingent): boolean {
+  return (contingent.pointsCap !== null && contingent.points > contingent.pointsCap)
+    || (contingent.unitCap !== null && contingent.units.length > contingent.unitCap);
+}
@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import { applyListOps, type ListOpsState } from './applyListOps';
+import type { UnitWithRelations } from '../stores/listEditorStore';
+
+function mockState(overrides?: Partial<ListOpsState>): ListOpsState {
+  const captain = { id: 'u-cap', name: 'Captain' } as UnitWithRelations;
+  const intercessors = { id: 'u-int', name: 'Intercessors' } as UnitWithRelations;
+  return {
+    list: {
+      id: 'list-1',
+      detachment_id: 'det-1',
+      name: 'Strike Force',
+      detachments: { id: 'det-1', name: 'Gladius Task Force' },
+    } as ListOpsState['list'],
+    listUnits: [
+      { id: 'alu-cap', army_list_id: 'list-1', unit_id: 'u-cap', model_count: 1, sort_order: 0, units: captain },
+      { id: 'alu-int', army_list_id: 'list-1', unit_id: 'u-int', model_count: 5, sort_order: 1, units: intercessors },
+    ],
+    listEnhancements: [{ id: 'le-1', enhancement_id: 'enh-1', army_list_unit_id: 'alu-cap' }],
+    unitWargearSelections: new Map([['alu-cap', new Map([['Weapon', 'opt-1']])]]),
+    unitWargearRowIds: new Map([['alu-cap', new Map([['opt-1', 'row-1']])]]),
+    unitWargearSubSelections: new Map([['row-1', new Map([['sub-1', 2]])]]),
+    unitCompositions: new Map(),
+    leaderAttachments: [
+      { id: 'la-1', army_list_id: 'list-1', leader_army_list_unit_id: 'alu-cap', target_army_list_unit_id: 'alu-int' },
+    ],
+    transportEmbarks: [],
+    availableUnits: [captain, intercessors],
+    availableDetachments: [
+      { id: 'det-1', name: 'Gladius Task Force' },
+      { id: 'det-2', name: 'Ironstorm Spearhead' },
+    ] as ListOpsState['availableDetachments'],
+    wargearOptions: [
+      { id: 'opt-1', group_name: 'Weapon' },
+      { id: 'opt-2', group_name: 'Weapon' },
+    ] as ListOpsState['wargearOptions'],
+    ...overrides,
+  };
+}
+
+describe('applyListOps', () => {
+  it('does not mutate the input state', () => {
+    const state = mockState();
+    applyListOps(state, [{ type: 'delete', table: 'army_list_units', match: { id: 'alu-cap' } }]);
+    expect(state.listUnits).toHaveLength(2);
+    expect(state.unitWargearRowIds.get('alu-cap')?.get('opt-1')).toBe('row-1');
+  });
+
+  it('inserts a unit with its datasheet in sort order', () => {
+    const next = applyListOps(mockState(), [{
+      type: 'insert',
+      table: 'army_list_units',
+      values: { id: 'alu-new', army_list_id: 'list-1', unit_id: 'u-int', model_count: 10, sort_order: 2 },
+    }]);
+    expect(next.listUnits.map(lu => lu.id)).toEqual(['alu-cap', 'alu-int', 'alu-new']);
+    expect(next.listUnits[2].units.name).toBe('Intercessors');
+  });
+
+  it('cascades a unit delete to its enhancements, wargear and attachments', () => {
+    const next = applyListOps(mockState(), [{ type: 'delete', table: 'army_list_units', match: { id: 'alu-cap' } }]);
+    expect(next.listUnits.map(lu => lu.id)).toEqual(['alu-int']);
+    expect(next.listEnhancements).toHaveLength(0);
+    expect(next.unitWargearSelections.has('alu-cap')).toBe(false);
+    expect(next.unitWargearSubSelections.has('row-1')).toBe(false);
+    expect(next.leaderAttachments).toHaveLength(0);
+  });
+
+  it('cascades a unit delete to the embark plan on either side', () => {
+    const state = mockState({
+      transportEmbarks: [
+        { id: 'te-1', army_list_id: 'list-1', transport_army_list_unit_id: 'alu-int', passenger_army_list_unit_id: 'alu-cap' },
+      ],
+    });
+    const removeTransport = applyListOps(state, [{ type: 'delete', table: 'army_list_units', match: { id: 'alu-int' } }]);
+    const removePassenger = applyListOps(state, [{ type: 'delete', table: 'army_list_units', match: { id: 'alu-cap' } }]);
+    expect(removeTransport.transportEmbarks).toHaveLength(0);
+    expect(removePassenger.transportEmbarks).toHaveLength(0);
+  });
+
+  it('inserts and deletes embark rows', () => {
+    const row = { id: 'te-1', army_list_id: 'list-1', transport_army_list_unit_id: 'alu-int', passenger_army_list_unit_id: 'alu-cap' };
+    const embarked = applyListOps(mockState(), [{ type: 'insert', table: 'army_list_transport_embarks', values: row }]);
+    expect(embarked.transportEmbarks).toEqual([row]);
+
+    const disembarked = applyListOps({ ...mockState(), ...embarked }, [
+      { type: 'delete', table: 'army_list_transport_embarks', match: { passenger_army_list_unit_id: 'alu-cap' } },
+    ]);
+    expect(disembarked.transportEmbarks).toEqual([]);
+  });
+
+  it('swaps in the detachment record when the list detachment changes', () => {
+    const next = applyListOps(mockState(), [
+      { type: 'update', table: 'army_lists', match: { id: 'list-1' }, values: { detachment_id: 'det-2' } },
+      { type: 'delete', table: 'army_list_enhancements', match: { army_list_id: 'list-1' } },
+    ]);
+    expect(next.list?.detachments.name).toBe('Ironstorm Spearhead');
+    expect(next.listEnhancements).toHaveLength(0);
+  });
+
+  it('replaces a wargear selection and drops the old row sub-options', () => {
+    const next = applyListOps(mockState(), [
+      { type: 'delete', table: 'army_list_unit_wargear', match: { army_list_unit_id: 'alu-cap', wargear_option_id: 'opt-1' } },
+      { type: 'insert', table: 'army_list_unit_wargear', values: { id: 'row-2', army_list_unit_id: 'alu-cap', wargear_option_id: 'opt-2' } },
+    ]);
+    expect(next.unitWargearSelections.get('alu-cap')?.get('Weapon')).toBe('opt-2');
+    expect(next.unitWargearRowIds.get('alu-cap')?.get('opt-2')).toBe('row-2');
+    expect(next.unitWargearSubSelections.has('row-1')).toBe(false);
+  });
+
+  it('upserts and deletes model variant counts', () => {
+    const next = applyListOps(mockState(), [
+      { type: 'upsert', table: 'army_list_unit_composition', onConflict: 'army_list_unit_id,model_variant_id', values: { army_list_unit_id: 'alu-int', model_variant_id: 'var-1', count: 4 } },
+      { type: 'upsert', table: 'army_list_unit_composition', onConflict: 'army_list_unit_id,model_variant_id', values: { army_list_unit_id: 'alu-int', model_variant_id: 'var-2', count: 1 } },
+      { type: 'delete', table: 'army_list_unit_composition', match: { army_list_unit_id: 'alu-int', model_variant_id: 'var-2' } },
+    ]);
+    expect([...next.unitCompositions.get('alu-int')!]).toEqual([['var-1', 4]]);
+  });
+});
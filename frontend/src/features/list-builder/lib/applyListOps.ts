@@ -0,0 +1,202 @@
+/**
+ * Applies list-editor DB operations to the in-memory editor state.
+ *
+ * This mirrors what the database does for each `ListOp` (including the ON DELETE CASCADE
+ * chains from army_list_units and army_list_unit_wargear) so an edit can be shown
+ * immediately, before — or without — a server round trip. Used for optimistic updates
+ * while offline and when replaying queued mutations on top of freshly fetched data.
+ */
+
+import type { ArmyList, Detachment, LeaderAttachment, TransportEmbark, WargearOption } from '../../../shared/types/database';
+import type { ArmyListUnitWithDetails, UnitWithRelations } from '../stores/listEditorStore';
+import type { ListOp } from './listCommands';
+
+export interface ListOpsState {
+  list: (ArmyList & { detachments: Detachment }) | null;
+  listUnits: ArmyListUnitWithDetails[];
+  listEnhancements: { id: string; enhancement_id: string; army_list_unit_id: string }[];
+  unitWargearSelections: Map<string, Map<string, string>>;
+  unitWargearRowIds: Map<string, Map<string, string>>;
+  unitWargearSubSelections: Map<string, Map<string, number>>;
+  unitCompositions: Map<string, Map<string, number>>;
+  leaderAttachments: LeaderAttachment[];
+  transportEmbarks: TransportEmbark[];
+  availableUnits: UnitWithRelations[];
+  availableDetachments: Detachment[];
+  wargearOptions: WargearOption[];
+}
+
+type MutableSlice = Pick<ListOpsState,
+  | 'list' | 'listUnits' | 'listEnhancements' | 'unitWargearSelections' | 'unitWargearRowIds'
+  | 'unitWargearSubSelections' | 'unitCompositions' | 'leaderAttachments' | 'transportEmbarks'
+>;
+
+function cloneNested<V>(map: Map<string, Map<string, V>>): Map<string, Map<string, V>> {
+  return new Map([...map].map(([k, inner]) => [k, new Map(inner)]));
+}
+
+function nested<V>(map: Map<string, Map<string, V>>, key: string): Map<string, V> {
+  if (!map.has(key)) map.set(key, new Map());
+  return map.get(key)!;
+}
+
+/** Every key in `match` must equal the row's value. `army_list_id` always matches — state holds one list. */
+function matches(row: Record<string, unknown>, match: Record<string, string>): boolean {
+  return Object.entries(match).every(([column, value]) => column === 'army_list_id' || row[column] === value);
+}
+
+function removeWargearRow(draft: MutableSlice, armyListUnitId: string, optionId: string) {
+  const rowId = draft.unitWargearRowIds.get(armyListUnitId)?.get(optionId);
+  draft.unitWargearRowIds.get(armyListUnitId)?.delete(optionId);
+  if (rowId) draft.unitWargearSubSelections.delete(rowId);
+  const selections = draft.unitWargearSelections.get(armyListUnitId);
+  for (const [group, selected] of selections ?? []) {
+    if (selected === optionId) selections!.delete(group);
+  }
+}
+
+function removeUnitCascade(draft: MutableSlice, armyListUnitId: string) {
+  for (const optionId of [...(draft.unitWargearRowIds.get(armyListUnitId)?.keys() ?? [])]) {
+    removeWargearRow(draft, armyListUnitId, optionId);
+  }
+  draft.unitWargearSelections.delete(armyListUnitId);
+  draft.unitWargearRowIds.delete(armyListUnitId);
+  draft.unitCompositions.delete(armyListUnitId);
+  draft.listEnhancements = draft.listEnhancements.filter(le => le.army_list_unit_id !== armyListUnitId);
+  draft.leaderAttachments = draft.leaderAttachments.filter(
+    la => la.leader_army_list_unit_id !== armyListUnitId && la.target_army_list_unit_id !== armyListUnitId,
+  );
+  draft.transportEmbarks = draft.transportEmbarks.filter(
+    te => te.transport_army_list_unit_id !== armyListUnitId && te.passenger_army_list_unit_id !== armyListUnitId,
+  );
+}
+
+function applyOp(draft: MutableSlice, op: ListOp, state: ListOpsState) {
+  switch (op.table) {
+    case 'army_lists': {
+      if (op.type !== 'update' || !draft.list || op.match.id !== draft.list.id) return;
+      const next = { ...draft.list, ...op.values } as MutableSlice['list'] & object;
+      const detachment = state.availableDetachments.find(d => d.id === next.detachment_id);
+      if (detachment) next.detachments = detachment;
+      draft.list = next;
+      return;
+    }
+
+    case 'army_list_units': {
+      if (op.type === 'insert' || op.type === 'upsert') {
+        const unit = state.availableUnits.find(u => u.id === op.values.unit_id);
+        if (!unit) return;
+        draft.listUnits = [
+          ...draft.listUnits.filter(lu => lu.id !== op.values.id),
+          { ...(op.values as Omit<ArmyListUnitWithDetails, 'units'>), units: unit },
+        ].sort((a, b) => a.sort_order - b.sort_order);
+      } else if (op.type === 'update') {
+        draft.listUnits = draft.listUnits.map(lu =>
+          matches(lu, op.match) ? { ...lu, ...op.values } : lu,
+        );
+      } else {
+        const removed = draft.listUnits.filter(lu => matches(lu, op.match));
+        draft.listUnits = draft.listUnits.filter(lu => !removed.includes(lu));
+        for (const lu of removed) removeUnitCascade(draft, lu.id);
+      }
+      return;
+    }
+
+    case 'army_list_enhancements': {
+      if (op.type === 'insert' || op.type === 'upsert') {
+        const { id, enhancement_id, army_list_unit_id } = op.values as Record<string, string>;
+        draft.listEnhancements = [
+          ...draft.listEnhancements.filter(le => le.id !== id),
+          { id, enhancement_id, army_list_unit_id },
+        ];
+      } else if (op.type === 'delete') {
+        draft.listEnhancements = draft.listEnhancements.filter(le => !matches(le, op.match));
+      }
+      return;
+    }
+
+    case 'army_list_unit_wargear': {
+      if (op.type === 'insert' || op.type === 'upsert') {
+        const { id, army_list_unit_id, wargear_option_id } = op.values as Record<string, string>;
+        const option = state.wargearOptions.find(w => w.id === wargear_option_id);
+        if (!option) return;
+        nested(draft.unitWargearSelections, army_list_unit_id).set(option.group_name, wargear_option_id);
+        nested(draft.unitWargearRowIds, army_list_unit_id).set(wargear_option_id, id);
+      } else if (op.type === 'delete') {
+        for (const [armyListUnitId, rows] of draft.unitWargearRowIds) {
+          for (const [optionId, rowId] of [...rows]) {
+            const row = { id: rowId, army_list_unit_id: armyListUnitId, wargear_option_id: optionId };
+            if (matches(row, op.match)) removeWargearRow(draft, armyListUnitId, optionId);
+          }
+        }
+      }
+      return;
+    }
+
+    case 'army_list_unit_wargear_sub': {
+      if (op.type === 'update') return;
+      const rowId = (op.type === 'delete' ? op.match : op.values).army_list_unit_wargear_id as string;
+      const subOptionId = (op.type === 'delete' ? op.match : op.values).wargear_sub_option_id as string;
+      if (op.type === 'delete') {
+        draft.unitWargearSubSelections.get(rowId)?.delete(subOptionId);
+      } else {
+        nested(draft.unitWargearSubSelections, rowId).set(subOptionId, op.values.quantity as number);
+      }
+      return;
+    }
+
+    case 'army_list_unit_composition': {
+      if (op.type === 'update') return;
+      const source = op.type === 'delete' ? op.match : op.values;
+      const armyListUnitId = source.army_list_unit_id as string;
+      const variantId = source.model_variant_id as string;
+      if (op.type === 'delete') {
+        draft.unitCompositions.get(armyListUnitId)?.delete(variantId);
+      } else {
+        nested(draft.unitCompositions, armyListUnitId).set(variantId, op.values.count as number);
+      }
+      return;
+    }
+
+    case 'army_list_leader_attachments': {
+      if (op.type === 'insert' || op.type === 'upsert') {
+        const row = op.values as unknown as LeaderAttachment;
+        draft.leaderAttachments = [...draft.leaderAttachments.filter(la => la.id !== row.id), row];
+      } else if (op.type === 'delete') {
+        draft.leaderAttachments = draft.leaderAttachments.filter(
+          la => !matches(la as unknown as Record<string, unknown>, op.match),
+        );
+      }
+      return;
+    }
+
+    case 'army_list_transport_embarks': {
+      if (op.type === 'insert' || op.type === 'upsert') {
+        const row = op.values as unknown as TransportEmbark;
+        draft.transportEmbarks = [...draft.transportEmbarks.filter(te => te.id !== row.id), row];
+      } else if (op.type === 'delete') {
+        draft.transportEmbarks = draft.transportEmbarks.filter(
+          te => !matches(te as unknown as Record<string, unknown>, op.match),
+        );
+      }
+      return;
+    }
+  }
+}
+
+/** Returns the state slice that changed after applying `ops` in order. Never mutates `state`. */
+export function applyListOps(state: ListOpsState, ops: ListOp[]): MutableSlice {
+  const draft: MutableSlice = {
+    list: state.list,
+    listUnits: [...state.listUnits],
+    listEnhancements: [...state.listEnhancements],
+    unitWargearSelections: cloneNested(state.unitWargearSelections),
+    unitWargearRowIds: cloneNested(state.unitWargearRowIds),
+    unitWargearSubSelections: cloneNested(state.unitWargearSubSelections),
+    unitCompositions: cloneNested(state.unitCompositions),
+    leaderAttachments: [...state.leaderAttachments],
+    transportEmbarks: [...state.transportEmbarks],
+  };
+  for (const op of ops) applyOp(draft, op, state);
+  return draft;
+}
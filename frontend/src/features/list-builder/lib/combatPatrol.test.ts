@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import type { WargearOption } from '../../../shared/types/database';
+import {
+  combatPatrolDeviations, combatPatrolUnitInserts, isWargearPermitted, type CombatPatrolCatalogue,
+} from './combatPatrol';
+
+const catalogue = {
+  patrol: { id: 'cp-1', name: 'Strike Patrol' },
+  units: [
+    { id: 'cpu-int', combat_patrol_id: 'cp-1', unit_id: 'u-int', model_count: 5, sort_order: 1, datasheet_notes: null },
+    { id: 'cpu-cap', combat_patrol_id: 'cp-1', unit_id: 'u-cap', model_count: 1, sort_order: 0, datasheet_notes: null },
+  ],
+  wargearOptions: [{ combat_patrol_unit_id: 'cpu-int', wargear_option_id: 'wo-launcher' }],
+} as unknown as CombatPatrolCatalogue;
+
+function option(id: string, isDefault = false): WargearOption {
+  return { id, unit_id: 'u-int', is_default: isDefault } as WargearOption;
+}
+
+describe('combatPatrolUnitInserts', () => {
+  it('fields the force in sort order', () => {
+    expect(combatPatrolUnitInserts(catalogue.units, 'list-1')).toEqual([
+      { army_list_id: 'list-1', unit_id: 'u-cap', model_count: 1, sort_order: 0 },
+      { army_list_id: 'list-1', unit_id: 'u-int', model_count: 5, sort_order: 1 },
+    ]);
+  });
+});
+
+describe('isWargearPermitted', () => {
+  it('allows defaults and whitelisted swaps only', () => {
+    expect(isWargearPermitted(catalogue, 'u-int', option('wo-rifle', true))).toBe(true);
+    expect(isWargearPermitted(catalogue, 'u-int', option('wo-launcher'))).toBe(true);
+    expect(isWargearPermitted(catalogue, 'u-int', option('wo-plasma'))).toBe(false);
+    expect(isWargearPermitted(catalogue, 'u-cap', option('wo-launcher'))).toBe(false);
+  });
+});
+
+describe('combatPatrolDeviations', () => {
+  it('finds nothing for the unchanged force', () => {
+    expect(combatPatrolDeviations(catalogue, [
+      { id: 'alu-cap', unit_id: 'u-cap', model_count: 1 },
+      { id: 'alu-int', unit_id: 'u-int', model_count: 5 },
+    ])).toEqual([]);
+  });
+
+  it('reports changed, missing and extra datasheets', () => {
+    expect(combatPatrolDeviations(catalogue, [
+      { id: 'alu-int-1', unit_id: 'u-int', model_count: 5 },
+      { id: 'alu-int-2', unit_id: 'u-int', model_count: 5 },
+      { id: 'alu-tank', unit_id: 'u-tank', model_count: 1 },
+    ])).toEqual([
+      { unitId: 'u-int', expected: 5, actual: 10, armyListUnitIds: ['alu-int-1', 'alu-int-2'] },
+      { unitId: 'u-cap', expected: 1, actual: 0, armyListUnitIds: [] },
+      { unitId: 'u-tank', expected: 0, actual: 1, armyListUnitIds: ['alu-tank'] },
+    ]);
+  });
+});
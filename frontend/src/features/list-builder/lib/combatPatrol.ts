@@ -0,0 +1,79 @@
+/**
+ * Combat Patrol lists: a faction's fixed boxed force instead of a free list.
+ *
+ * A list created from a patrol starts as exactly its force. Units and model counts are
+ * fixed, and only the wargear options the patrol permits can be chosen; default options are
+ * always allowed. The patrol's rule, enhancements and stratagems come through its
+ * detachment like any other list's. Combat Patrol has no points, and a patrol picks one of
+ * its enhancements.
+ */
+
+import type {
+  CombatPatrol, CombatPatrolUnit, CombatPatrolWargearOption, WargearOption,
+} from '../../../shared/types/database';
+
+export const COMBAT_PATROL_ENHANCEMENTS = 1;
+
+export interface CombatPatrolCatalogue {
+  patrol: CombatPatrol;
+  /** The fixed force, in sort order */
+  units: CombatPatrolUnit[];
+  /** Wargear options each patrol unit may take */
+  wargearOptions: CombatPatrolWargearOption[];
+}
+
+/** army_list_units rows that field the patrol's force. */
+export function combatPatrolUnitInserts(units: CombatPatrolUnit[], listId: string) {
+  return [...units]
+    .sort((a, b) => a.sort_order - b.sort_order)
+    .map((u, idx) => ({
+      army_list_id: listId,
+      unit_id: u.unit_id,
+      model_count: u.model_count,
+      sort_order: idx,
+    }));
+}
+
+/** Whether a unit in the patrol may take a wargear option. */
+export function isWargearPermitted(catalogue: CombatPatrolCatalogue, unitId: string, option: WargearOption): boolean {
+  if (option.is_default) return true;
+  const patrolUnit = catalogue.units.find(u => u.unit_id === unitId);
+  if (!patrolUnit) return false;
+  return catalogue.wargearOptions.some(
+    w => w.combat_patrol_unit_id === patrolUnit.id && w.wargear_option_id === option.id,
+  );
+}
+
+export interface CombatPatrolDeviation {
+  unitId: string;
+  /** Models the patrol fields, 0 for a unit that isn't part of it */
+  expected: number;
+  /** Models in the list, 0 for a unit that has been removed */
+  actual: number;
+  /** Roster entries of this datasheet */
+  armyListUnitIds: string[];
+}
+
+/** Datasheets whose model count in the list differs from the patrol's force. */
+export function combatPatrolDeviations(
+  catalogue: CombatPatrolCatalogue,
+  listUnits: { id: string; unit_id: string; model_count: number }[],
+): CombatPatrolDeviation[] {
+  const actual = new Map<string, { models: number; ids: string[] }>();
+  for (const lu of listUnits) {
+    const entry = actual.get(lu.unit_id) ?? { models: 0, ids: [] };
+    actual.set(lu.unit_id, { models: entry.models + lu.model_count, ids: [...entry.ids, lu.id] });
+  }
+
+  const deviations: CombatPatrolDeviation[] = [];
+  for (const u of catalogue.units) {
+    const inList = actual.get(u.unit_id);
+    if (inList?.models === u.model_count) continue;
+    deviations.push({ unitId: u.unit_id, expected: u.model_count, actual: inList?.models ?? 0, armyListUnitIds: inList?.ids ?? [] });
+  }
+  for (const [unitId, inList] of actual) {
+    if (catalogue.units.some(u => u.unit_id === unitId)) continue;
+    deviations.push({ unitId, expected: 0, actual: inList.models, armyListUnitIds: inList.ids });
+  }
+  return deviations;
+}
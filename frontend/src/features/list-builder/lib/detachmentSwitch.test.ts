@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import type { Detachment } from '../../../shared/types/database';
+import type { ArmyListUnitWithDetails, EnhancementWithRestriction } from '../stores/listEditorStore';
+import { buildAllUnitKeywords } from './enhancementEligibility';
+import {
+  duplicateChoices, enhancementPointsDelta, planDetachmentSwitch, ruleKeywords, suggestReplacements,
+  type DetachmentSwitchInput,
+} from './detachmentSwitch';
+
+function listUnit(id: string, name: string, keywords: string[]): ArmyListUnitWithDetails {
+  return { id, unit_id: `u-${id}`, model_count: 1, units: { id: `u-${id}`, name, keywords } } as unknown as ArmyListUnitWithDetails;
+}
+
+function enhancement(id: string, name: string, points: number, detachmentId: string, description = ''): EnhancementWithRestriction {
+  return { id, name, points, detachment_id: detachmentId, description, enhancement_restrictions: null } as EnhancementWithRestriction;
+}
+
+function detachment(id: string, name: string, ruleText: string | null = null): Detachment {
+  return { id, name, rule_text: ruleText } as Detachment;
+}
+
+const captain = listUnit('alu-cap', 'Captain', ['Infantry', 'Character', 'Captain']);
+const terminator = listUnit('alu-tc', 'Terminator Captain', ['Infantry', 'Character', 'Terminator']);
+const squad = listUnit('alu-int', 'Intercessor Squad', ['Infantry', 'Battleline']);
+const dread = listUnit('alu-dre', 'Redemptor Dreadnought', ['Vehicle', 'Walker']);
+
+const gladius = detachment('d-gla', 'Gladius Task Force', 'Each time a ^^**Adeptus Astartes**^^ unit...');
+const vanguard = detachment('d-van', 'Vanguard Spearhead', '^^**Infantry**^^ units from your army gain Stealth.');
+
+const oldEnhancements = [
+  enhancement('e-art', 'Artificer Armour', 10, 'd-gla'),
+  enhancement('e-fire', 'Fire Discipline', 25, 'd-gla'),
+];
+const newEnhancements = [
+  enhancement('e-ghost', 'Ghostweave Cloak', 15, 'd-van', 'ADEPTUS ASTARTES INFANTRY model only.'),
+  enhancement('e-ven', 'Vengeful Wrath', 25, 'd-van', 'TERMINATOR model only.'),
+  enhancement('e-shadow', 'Shadow War Veteran', 30, 'd-van'),
+];
+
+function mockInput(overrides?: Partial<DetachmentSwitchInput>): DetachmentSwitchInput {
+  const listUnits = [captain, terminator, squad, dread];
+  return {
+    listUnits,
+    listEnhancements: [
+      { enhancement_id: 'e-art', army_list_unit_id: 'alu-cap' },
+      { enhancement_id: 'e-fire', army_list_unit_id: 'alu-tc' },
+    ],
+    currentEnhancements: oldEnhancements,
+    currentDetachment: gladius,
+    detachment: vanguard,
+    enhancements: newEnhancements,
+    stratagems: new Map([
+      ['d-gla', ['Armour of Contempt', 'Honour the Chapter', 'Only in Death Does Duty End']],
+      ['d-van', ['Armour of Contempt', 'Guerrilla Tactics']],
+    ]),
+    allUnitKeywords: buildAllUnitKeywords(listUnits.map(lu => lu.units)),
+    ...overrides,
+  };
+}
+
+describe('ruleKeywords', () => {
+  it('reads keywords marked up in rule text', () => {
+    expect(ruleKeywords('^^**Infantry**^^ and ^^**Adeptus Astartes**^^ units, not **Battle-shocked** ones'))
+      .toEqual(['infantry', 'adeptus astartes']);
+    expect(ruleKeywords(null)).toEqual([]);
+  });
+});
+
+describe('planDetachmentSwitch', () => {
+  it('offers each bearer only the new enhancements it can take', () => {
+    const plan = planDetachmentSwitch(mockInput());
+    expect(plan.bearers.map(b => [b.unitName, b.current.name, b.candidates.map(c => c.name)])).toEqual([
+      ['Captain', 'Artificer Armour', ['Ghostweave Cloak', 'Shadow War Veteran']],
+      ['Terminator Captain', 'Fire Discipline', ['Ghostweave Cloak', 'Vengeful Wrath', 'Shadow War Veteran']],
+    ]);
+  });
+
+  it('lists the stratagems that come and go', () => {
+    const plan = planDetachmentSwitch(mockInput());
+    expect(plan.stratagemsLost).toEqual(['Honour the Chapter', 'Only in Death Does Duty End']);
+    expect(plan.stratagemsGained).toEqual(['Guerrilla Tactics']);
+  });
+
+  it('reports units the new rule names by keyword, ignoring faction keywords', () => {
+    const plan = planDetachmentSwitch(mockInput());
+    // "Adeptus Astartes" is army-wide, so Gladius singles out nobody
+    expect(plan.ruleUnitsLost).toEqual([]);
+    expect(plan.ruleUnitsGained.map(u => u.unitName)).toEqual(['Captain', 'Terminator Captain', 'Intercessor Squad']);
+
+    const back = planDetachmentSwitch(mockInput({ currentDetachment: vanguard, detachment: gladius, listEnhancements: [] }));
+    expect(back.ruleUnitsLost.map(u => u.unitName)).toEqual(['Captain', 'Terminator Captain', 'Intercessor Squad']);
+    expect(back.ruleUnitsGained).toEqual([]);
+  });
+});
+
+describe('suggestReplacements', () => {
+  it('picks the closest-priced unused enhancement, most constrained bearer first', () => {
+    const plan = planDetachmentSwitch(mockInput());
+    const choices = suggestReplacements(plan.bearers);
+    expect(choices).toEqual({ 'alu-cap': 'e-ghost', 'alu-tc': 'e-ven' });
+    expect(duplicateChoices(choices).size).toBe(0);
+    expect(enhancementPointsDelta(plan, choices)).toBe(5);
+  });
+
+  it('leaves a bearer without an enhancement when nothing fits', () => {
+    const plan = planDetachmentSwitch(mockInput({ enhancements: [newEnhancements[1]] }));
+    expect(suggestReplacements(plan.bearers)).toEqual({ 'alu-cap': '', 'alu-tc': 'e-ven' });
+    expect(enhancementPointsDelta(plan, { 'alu-cap': '', 'alu-tc': '' })).toBe(-35);
+  });
+});
+
+describe('duplicateChoices', () => {
+  it('flags an enhancement chosen twice', () => {
+    expect([...duplicateChoices({ a: 'e-1', b: 'e-1', c: '', d: '' })]).toEqual(['e-1']);
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * What switching a list's detachment does to it, worked out before anything is written.
+ *
+ * Enhancements belong to a detachment, so every enhancement in the list goes with the old one.
+ * Each bearer is offered the new detachment's enhancements it is eligible for (the same
+ * keyword check the enhancement picker uses), with one suggested up front. Stratagems come
+ * and go with the detachment, and units the detachment rule names by keyword lose or gain
+ * its benefit.
+ *
+ * Everything here is pure; the editor store loads the catalogue and applies the switch.
+ */
+
+import type { Detachment, Enhancement } from '../../../shared/types/database';
+import type { ArmyListUnitWithDetails, EnhancementWithRestriction } from '../stores/listEditorStore';
+import { isEnhancementEligible } from './enhancementEligibility';
+
+export interface EnhancementBearer {
+  armyListUnitId: string;
+  unitName: string;
+  /** The enhancement the unit has now, from the old detachment */
+  current: Pick<Enhancement, 'id' | 'name' | 'points'>;
+  /** New-detachment enhancements the unit can take */
+  candidates: EnhancementWithRestriction[];
+}
+
+export interface RuleUnit {
+  armyListUnitId: string;
+  unitName: string;
+  /** Keywords of this unit the detachment rule names */
+  keywords: string[];
+}
+
+export interface DetachmentSwitchPlan {
+  detachment: Detachment;
+  /** The new detachment's enhancement catalogue */
+  enhancements: EnhancementWithRestriction[];
+  bearers: EnhancementBearer[];
+  stratagemsLost: string[];
+  stratagemsGained: string[];
+  /** Units the old rule names and the new one doesn't */
+  ruleUnitsLost: RuleUnit[];
+  /** Units the new rule names and the old one doesn't */
+  ruleUnitsGained: RuleUnit[];
+}
+
+/** army_list_units.id → new enhancement id, or '' to leave the unit without one */
+export type EnhancementChoices = Record<string, string>;
+
+export interface DetachmentSwitchInput {
+  listUnits: ArmyListUnitWithDetails[];
+  listEnhancements: { enhancement_id: string; army_list_unit_id: string }[];
+  /** The old detachment's enhancement catalogue */
+  currentEnhancements: Enhancement[];
+  currentDetachment: Detachment | null;
+  detachment: Detachment;
+  enhancements: EnhancementWithRestriction[];
+  /** Stratagem names by detachment id */
+  stratagems: Map<string, string[]>;
+  allUnitKeywords: Set<string>;
+}
+
+/** Keywords a rule text marks as such (^^**Keyword**^^), lowercased. */
+export function ruleKeywords(ruleText: string | null): string[] {
+  const found = new Set<string>();
+  for (const match of (ruleText ?? '').matchAll(/\^\^\**([^^*]+?)\**\^\^/g)) {
+    found.add(match[1].trim().toLowerCase());
+  }
+  return [...found];
+}
+
+function unitsNamedBy(ruleText: string | null, listUnits: ArmyListUnitWithDetails[], allUnitKeywords: Set<string>) {
+  // Faction keywords cover the whole army, so only unit-level keywords single anything out
+  const keywords = ruleKeywords(ruleText).filter(k => allUnitKeywords.has(k));
+  const named = new Map<string, RuleUnit>();
+  for (const lu of listUnits) {
+    const unitKeys = new Set((lu.units.keywords ?? []).map(k => k.toLowerCase()));
+    const matched = keywords.filter(k => unitKeys.has(k));
+    if (matched.length > 0) named.set(lu.id, { armyListUnitId: lu.id, unitName: lu.units.name, keywords: matched });
+  }
+  return named;
+}
+
+export function planDetachmentSwitch(input: DetachmentSwitchInput): DetachmentSwitchPlan {
+  const { listUnits, detachment, enhancements, allUnitKeywords } = input;
+
+  const bearers: EnhancementBearer[] = [];
+  for (const le of input.listEnhancements) {
+    const lu = listUnits.find(l => l.id === le.army_list_unit_id);
+    if (!lu) continue;
+    const current = input.currentEnhancements.find(e => e.id === le.enhancement_id)
+      ?? { id: le.enhancement_id, name: 'Enhancement', points: 0 };
+    bearers.push({
+      armyListUnitId: lu.id,
+      unitName: lu.units.name,
+      current,
+      candidates: enhancements.filter(e => isEnhancementEligible(e, lu.units, allUnitKeywords)),
+    });
+  }
+
+  const oldStratagems = input.currentDetachment ? input.stratagems.get(input.currentDetachment.id) ?? [] : [];
+  const newStratagems = input.stratagems.get(detachment.id) ?? [];
+
+  const oldNamed = unitsNamedBy(input.currentDetachment?.rule_text ?? null, listUnits, allUnitKeywords);
+  const newNamed = unitsNamedBy(detachment.rule_text, listUnits, allUnitKeywords);
+
+  return {
+    detachment,
+    enhancements,
+    bearers,
+    stratagemsLost: oldStratagems.filter(s => !newStratagems.includes(s)),
+    stratagemsGained: newStratagems.filter(s => !oldStratagems.includes(s)),
+    ruleUnitsLost: [...oldNamed.values()].filter(u => !newNamed.has(u.armyListUnitId)),
+    ruleUnitsGained: [...newNamed.values()].filter(u => !oldNamed.has(u.armyListUnitId)),
+  };
+}
+
+/**
+ * One replacement per bearer: the eligible enhancement closest in points to what it had,
+ * never the same enhancement twice. Bearers with nothing left to take get ''.
+ */
+export function suggestReplacements(bearers: EnhancementBearer[]): EnhancementChoices {
+  const taken = new Set<string>();
+  const choices: EnhancementChoices = {};
+  // Bearers with the fewest options pick first so they aren't left empty-handed
+  const byChoice = [...bearers].sort((a, b) => a.candidates.length - b.candidates.length);
+  for (const bearer of byChoice) {
+    const pick = bearer.candidates
+      .filter(e => !taken.has(e.id))
+      .sort((a, b) =>
+        Math.abs(a.points - bearer.current.points) - Math.abs(b.points - bearer.current.points)
+        || a.name.localeCompare(b.name))[0];
+    choices[bearer.armyListUnitId] = pick?.id ?? '';
+    if (pick) taken.add(pick.id);
+  }
+  return choices;
+}
+
+/** Enhancement ids chosen for more than one bearer. */
+export function duplicateChoices(choices: EnhancementChoices): Set<string> {
+  const seen = new Set<string>();
+  const duplicates = new Set<string>();
+  for (const id of Object.values(choices)) {
+    if (!id) continue;
+    if (seen.has(id)) duplicates.add(id);
+    seen.add(id);
+  }
+  return duplicates;
+}
+
+/** Points the enhancement changes add or save. */
+export function enhancementPointsDelta(plan: DetachmentSwitchPlan, choices: EnhancementChoices): number {
+  return plan.bearers.reduce((sum, b) => {
+    const chosen = plan.enhancements.find(e => e.id === choices[b.armyListUnitId]);
+    return sum + (chosen?.points ?? 0) - b.current.points;
+  }, 0);
+}
@@ -0,0 +1,64 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import type { EnhancementRestriction } from '../../../shared/types/database';
+import { buildAllUnitKeywords, isEligibleByRestriction, isEnhancementEligible } from './enhancementEligibility';
+
+const shieldCaptain = { id: 'u-sc', name: 'Shield-Captain', keywords: ['Infantry', 'Character', 'Shield-Captain'], abilities: [] };
+const bladeChampion = { id: 'u-bc', name: 'Blade Champion', keywords: ['Infantry', 'Character'], abilities: [] };
+const datasmith = { id: 'u-ds', name: 'Cybernetica Datasmith', keywords: ['Infantry', 'Character', 'Cybernetica Datasmith'], abilities: [] };
+const trygon = { id: 'u-try', name: 'Trygon', keywords: ['Monster'], abilities: [{ name: 'Deep Strike' }] };
+const prime = { id: 'u-pri', name: 'Tyranid Prime', keywords: ['Infantry', 'Character'], abilities: [] };
+
+const allUnitKeywords = buildAllUnitKeywords([shieldCaptain, bladeChampion, datasmith, trygon, prime]);
+
+function restriction(overrides: Partial<EnhancementRestriction>): Omit<EnhancementRestriction, 'enhancement_id'> {
+  return { required_keywords: [], excluded_keywords: [], required_abilities: [], ...overrides };
+}
+
+describe('isEligibleByRestriction', () => {
+  it('needs every keyword of at least one group, matching the unit name too', () => {
+    const rule = restriction({ required_keywords: [['Shield-Captain'], ['Blade Champion']] });
+    expect(isEligibleByRestriction(rule, shieldCaptain)).toBe(true);
+    // "Blade Champion" is only the datasheet name, not a keyword
+    expect(isEligibleByRestriction(rule, bladeChampion)).toBe(true);
+    expect(isEligibleByRestriction(rule, datasmith)).toBe(false);
+  });
+
+  it('excludes units with every keyword of an excluded group', () => {
+    const rule = restriction({ excluded_keywords: [['Cybernetica Datasmith']] });
+    expect(isEligibleByRestriction(rule, datasmith)).toBe(false);
+    expect(isEligibleByRestriction(rule, shieldCaptain)).toBe(true);
+  });
+
+  it('checks required abilities when the unit has its abilities loaded', () => {
+    const rule = restriction({ required_abilities: ['Deep Strike'] });
+    expect(isEligibleByRestriction(rule, trygon)).toBe(true);
+    expect(isEligibleByRestriction(rule, prime)).toBe(false);
+    expect(isEligibleByRestriction(rule, { name: 'Tyranid Prime', keywords: [] })).toBe(true);
+  });
+});
+
+describe('isEnhancementEligible', () => {
+  afterEach(() => vi.restoreAllMocks());
+
+  it('falls back to the description without a structured restriction', () => {
+    const enhancement = { description: 'SHIELD-CAPTAIN model only. Add 1 to the Attacks.' };
+    expect(isEnhancementEligible(enhancement, shieldCaptain, allUnitKeywords)).toBe(true);
+    expect(isEnhancementEligible(enhancement, datasmith, allUnitKeywords)).toBe(false);
+  });
+
+  it('prefers the structured restriction and logs a disagreement once', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    // The description doesn't state the restriction, so the description parser lets anyone take it
+    const enhancement = {
+      id: 'enh-mark',
+      name: "Castellan's Mark",
+      description: 'After both players have deployed their armies, you can select up to two units.',
+      enhancement_restrictions: restriction({ required_keywords: [['Shield-Captain']] }),
+    };
+
+    expect(isEnhancementEligible(enhancement, datasmith, allUnitKeywords)).toBe(false);
+    expect(isEnhancementEligible(enhancement, datasmith, allUnitKeywords)).toBe(false);
+    expect(isEnhancementEligible(enhancement, shieldCaptain, allUnitKeywords)).toBe(true);
+    expect(warn).toHaveBeenCalledTimes(1);
+  });
+});
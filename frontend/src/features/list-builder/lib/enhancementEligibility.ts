@@ -1,18 +1,36 @@
 /**
- * Parses the "X model only" restriction embedded in enhancement description text and
- * determines whether a given unit is eligible to take the enhancement.
+ * Determines whether a given unit is eligible to take an enhancement.
  *
- * GW encodes restrictions like "KROOT model only" or "T'AU EMPIRE model (excluding KROOT) only"
- * directly in description prose. We parse these at runtime.
+ * The BSData parser writes each enhancement's bearer restriction to enhancement_restrictions
+ * (see 20261018000007_enhancement_restrictions.sql), read from the modifiers that hide the
+ * enhancement from ineligible units. Those rules are authoritative when present.
  *
- * Strategy for faction-level keywords (e.g. "T'AU EMPIRE"):
+ * Enhancements without one fall back to parsing the "X model only" restriction embedded in the
+ * description, e.g. "KROOT model only" or "T'AU EMPIRE model (excluding KROOT) only".
+ *
+ * Strategy for faction-level keywords (e.g. "T'AU EMPIRE") in descriptions:
  *   These never appear in unit.keywords in our DB (they're implicit army-wide keywords).
  *   If a required keyword token isn't found in ANY unit's keywords across the available pool,
  *   we treat it as a faction keyword and allow the enhancement for all units.
  */
 
-type UnitLike = { keywords?: string[] | null };
-type EnhancementLike = { description: string };
+import type { EnhancementRestriction } from '../../../shared/types/database';
+
+type UnitLike = {
+  id?: string;
+  name?: string;
+  keywords?: string[] | null;
+  abilities?: { name: string }[] | null;
+};
+type EnhancementLike = {
+  id?: string;
+  name?: string;
+  description: string;
+  enhancement_restrictions?: Omit<EnhancementRestriction, 'enhancement_id'> | null;
+};
+
+// Enhancement/unit pairs whose disagreement has already been logged
+const reportedDisagreements = new Set<string>();
 
 function stripMarkdown(text: string): string {
   return text.replace(/\*\*|\^\^|\[|\]/g, '');
@@ -53,6 +71,10 @@ export function parseEnhancementRestriction(description: string): {
 /**
  * Returns true if the unit is eligible to take the enhancement.
  *
+ * Uses the enhancement's structured restriction when it has one. The description is still
+ * checked alongside it, and any disagreement is logged once per enhancement and unit so the
+ * parser (or the description) can be fixed.
+ *
  * @param allUnitKeywords  Lowercase set of all keywords that appear on ANY unit in the
  *                         available pool. Used to distinguish unit-level keywords (like
  *                         "kroot", "walker") from faction-level ones (like "t'au empire").
@@ -61,6 +83,54 @@ export function isEnhancementEligible(
   enhancement: EnhancementLike,
   unit: UnitLike,
   allUnitKeywords: Set<string>,
+): boolean {
+  const byDescription = isEligibleByDescription(enhancement, unit, allUnitKeywords);
+  const restriction = enhancement.enhancement_restrictions;
+  if (!restriction) return byDescription;
+
+  const eligible = isEligibleByRestriction(restriction, unit);
+  if (eligible !== byDescription) {
+    const key = `${enhancement.id ?? enhancement.name}:${unit.id ?? unit.name}`;
+    if (!reportedDisagreements.has(key)) {
+      reportedDisagreements.add(key);
+      console.warn('Enhancement restriction disagrees with its description:', {
+        enhancement: enhancement.name,
+        unit: unit.name,
+        eligible,
+        byDescription,
+      });
+    }
+  }
+  return eligible;
+}
+
+/** Checks a structured restriction. Keywords match the unit's keywords or its name. */
+export function isEligibleByRestriction(
+  restriction: Omit<EnhancementRestriction, 'enhancement_id'>,
+  unit: UnitLike,
+): boolean {
+  const unitKeys = new Set((unit.keywords ?? []).map(k => k.toLowerCase()));
+  if (unit.name) unitKeys.add(unit.name.toLowerCase());
+  const hasAll = (group: string[]) => group.every(k => unitKeys.has(k.toLowerCase()));
+
+  if (restriction.excluded_keywords.some(hasAll)) return false;
+  if (restriction.required_keywords.length > 0 && !restriction.required_keywords.some(hasAll)) return false;
+
+  // Units loaded without their abilities can't be checked, so they aren't held to it
+  if (unit.abilities && restriction.required_abilities.length > 0) {
+    const abilities = unit.abilities.map(a => a.name.toLowerCase());
+    if (!restriction.required_abilities.every(req => abilities.some(a => a.startsWith(req.toLowerCase())))) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+function isEligibleByDescription(
+  enhancement: EnhancementLike,
+  unit: UnitLike,
+  allUnitKeywords: Set<string>,
 ): boolean {
   const { required, excluded } = parseEnhancementRestriction(enhancement.description);
   if (required.length === 0 && excluded.length === 0) return true;
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import battleScribeSample from './fixtures/battlescribe.txt?raw';
+import { battleScribeTextFormat } from './battleScribeText';
+
+describe('battleScribeTextFormat', () => {
+  it('recognises BattleScribe text output', () => {
+    expect(battleScribeTextFormat.detect(battleScribeSample)).toBe(1);
+    expect(battleScribeTextFormat.detect('Captain [90pts]: Warlord')).toBeGreaterThan(0);
+    expect(battleScribeTextFormat.detect('Captain (90 Points)')).toBe(0);
+  });
+
+  it('reads the configuration section', () => {
+    expect(battleScribeTextFormat.parse(battleScribeSample)).toMatchObject({
+      format: 'battlescribe-text',
+      detachmentName: 'Gladius Task Force',
+      battleSize: 'incursion',
+      pointsLimit: 1000,
+    });
+  });
+
+  it('reads units, counting models from the dotted model lines', () => {
+    const units = battleScribeTextFormat.parse(battleScribeSample).units;
+    expect(units.map(u => [u.name, u.modelCount])).toEqual([
+      ['Marneus Calgar', 3],
+      ['Captain', 1],
+      ['Intercessor Squad', 5],
+    ]);
+    expect(units[2].models).toEqual([
+      {
+        name: 'Intercessor', count: 4,
+        wargear: [{ name: 'Bolt pistol', count: 4 }, { name: 'Bolt rifle', count: 4 }, { name: 'Close combat weapon', count: 4 }],
+      },
+      {
+        name: 'Intercessor Sergeant', count: 1,
+        wargear: [{ name: 'Bolt pistol', count: 1 }, { name: 'Bolt rifle', count: 1 }, { name: 'Close combat weapon', count: 1 }],
+      },
+    ]);
+  });
+
+  it('keeps header selections as wargear for the catalogue to sort out, minus Warlord', () => {
+    const [calgar, captain] = battleScribeTextFormat.parse(battleScribeSample).units;
+    expect(calgar.wargear).toEqual([]);
+    expect(captain.wargear.map(w => w.name)).toEqual(['Artificer Armour', 'Master-crafted power weapon']);
+    expect(captain.enhancementName).toBeNull();
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * BattleScribe's plain-text roster output:
+ *
+ *   ++ Army Roster (Imperium - Space Marines) [1,995pts] ++
+ *
+ *   + Configuration +
+ *
+ *   Battle Size: 2. Strike Force (2000 Point limit)
+ *   Detachment: Gladius Task Force
+ *
+ *   + Character +
+ *
+ *   Captain [90pts]: Artificer Armour, Master-crafted power weapon, Warlord
+ *
+ *   + Battleline +
+ *
+ *   Intercessor Squad [80pts]:
+ *   . 4x Intercessor: 4x Bolt pistol, 4x Bolt rifle, 4x Close combat weapon
+ *   . Intercessor Sergeant: Bolt pistol, Bolt rifle, Close combat weapon
+ *
+ * Enhancements aren't marked — they sit among the unit's selections and are told apart
+ * from wargear when the list is matched against the catalogue.
+ */
+
+import type { ListImportFormat, ParsedList, ParsedUnit } from './types';
+import {
+  addUnitSelection, emptyUnit, finishUnit, parseBattleSize, parseWargearItem, parseWargearList, splitSelections,
+} from './textUtils';
+
+const UNIT_HEADER = /^([A-Z][A-Za-z0-9'’ ,-]+?)\s*\[[\d,]+\s*pts?\]\s*(?::\s*(.*))?$/;
+const SELECTION_LINE = /^\s*[.•]\s*(.+)$/;
+
+function parse(text: string): ParsedList {
+  const list: ParsedList = {
+    format: 'battlescribe-text', name: null, detachmentName: null, battleSize: null, pointsLimit: null, units: [],
+  };
+  let unit: ParsedUnit | null = null;
+  const finish = () => { if (unit) list.units.push(finishUnit(unit)); unit = null; };
+
+  for (const rawLine of text.split('\n')) {
+    const line = rawLine.trimEnd();
+
+    // "++ Total ++", "+ Character +" and similar section markers end the current unit
+    if (/^\++\s/.test(line)) {
+      finish();
+      continue;
+    }
+
+    const config = line.match(/^(Detachment(?: Choice)?|Battle Size)\s*:\s*(.+)$/i);
+    if (config) {
+      finish();
+      if (/^battle size$/i.test(config[1])) {
+        const size = parseBattleSize(config[2]);
+        list.battleSize = size?.battleSize ?? null;
+        list.pointsLimit = size?.pointsLimit ?? null;
+      } else {
+        list.detachmentName = config[2].trim();
+      }
+      continue;
+    }
+
+    const header = line.match(UNIT_HEADER);
+    if (header) {
+      finish();
+      unit = emptyUnit(header[1].trim());
+      for (const sel of splitSelections(header[2] ?? '')) addUnitSelection(unit, sel);
+      continue;
+    }
+
+    const selection = unit && line.match(SELECTION_LINE);
+    if (!unit || !selection) {
+      if (!line.trim()) finish();
+      continue;
+    }
+
+    // ". 4x Intercessor: weapons" and ". Victrix Honour Guard x2" are models; a bare
+    // ". Storm shield" is another selection on the unit
+    const [head, rest] = splitHead(selection[1]);
+    const counted = /^\d+\s*x\s/i.test(head) || /\sx\d+$/i.test(head);
+    if (rest !== null || counted) {
+      const model = parseWargearItem(head) ?? { name: head, count: 1 };
+      unit.models.push({ ...model, wargear: parseWargearList(rest ?? '', model.count) });
+    } else {
+      addUnitSelection(unit, head);
+    }
+  }
+  finish();
+
+  return list;
+}
+
+/** "4x Intercessor: Bolt rifle, ..." → ["4x Intercessor", "Bolt rifle, ..."] */
+function splitHead(text: string): [string, string | null] {
+  const idx = text.indexOf(':');
+  return idx < 0 ? [text.trim(), null] : [text.slice(0, idx).trim(), text.slice(idx + 1).trim()];
+}
+
+export const battleScribeTextFormat: ListImportFormat = {
+  id: 'battlescribe-text',
+  label: 'BattleScribe text',
+  detect: (text) => {
+    if (/created with battlescribe/i.test(text) || /^\+\+ .+ \[[\d,]+pts\] \+\+$/m.test(text)) return 1;
+    return /^[A-Z][A-Za-z0-9' -]+?\s*\[\d+\s*pts?\]/m.test(text) ? 0.6 : 0;
+  },
+  parse,
+};
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import gwAppSample from './fixtures/gw-app.txt?raw';
+import newRecruitGwSample from './fixtures/newrecruit-gw.txt?raw';
+import { gwAppFormat, newRecruitGwFormat } from './gwStyle';
+
+describe('gwAppFormat', () => {
+  it('recognises the app export by its footer', () => {
+    expect(gwAppFormat.detect(gwAppSample)).toBe(1);
+    expect(gwAppFormat.detect(newRecruitGwSample)).toBe(0);
+  });
+
+  it('reads the list header', () => {
+    const list = gwAppFormat.parse(gwAppSample);
+    expect(list).toMatchObject({
+      format: 'gw-app',
+      name: 'Gladius Spearhead',
+      detachmentName: 'Gladius Task Force',
+      battleSize: 'strike_force',
+      pointsLimit: 2000,
+    });
+  });
+
+  it('reads every unit across sections, with sizes from the model breakdown', () => {
+    const list = gwAppFormat.parse(gwAppSample);
+    expect(list.units.map(u => [u.name, u.modelCount])).toEqual([
+      ['Captain', 1],
+      ['Lieutenant', 1],
+      ['Intercessor Squad', 5],
+      ['Intercessor Squad', 10],
+      ['Impulsor', 1],
+      ['Redemptor Dreadnought', 1],
+    ]);
+  });
+
+  it('separates enhancements, unit wargear and per-model wargear', () => {
+    const [captain, , squad] = gwAppFormat.parse(gwAppSample).units;
+
+    expect(captain.enhancementName).toBe('Artificer Armour');
+    expect(captain.wargear).toEqual([
+      { name: 'Bolt pistol', count: 1 },
+      { name: 'Master-crafted power weapon', count: 1 },
+    ]);
+    expect(squad.wargear).toEqual([]);
+    expect(squad.models).toEqual([
+      {
+        name: 'Intercessor Sergeant', count: 1,
+        wargear: [{ name: 'Bolt pistol', count: 1 }, { name: 'Close combat weapon', count: 1 }, { name: 'Power fist', count: 1 }],
+      },
+      {
+        name: 'Intercessor', count: 4,
+        wargear: [
+          { name: 'Bolt pistol', count: 4 }, { name: 'Bolt rifle', count: 4 },
+          { name: 'Close combat weapon', count: 4 }, { name: 'Astartes grenade launcher', count: 1 },
+        ],
+      },
+    ]);
+  });
+});
+
+describe('newRecruitGwFormat', () => {
+  it('recognises New Recruit exports, and GW-style text without a footer less strongly', () => {
+    expect(newRecruitGwFormat.detect(newRecruitGwSample)).toBe(1);
+    const withoutFooter = gwAppSample.replace(/^Exported with.*$/m, '');
+    expect(newRecruitGwFormat.detect(withoutFooter)).toBeGreaterThan(0);
+    expect(newRecruitGwFormat.detect(withoutFooter)).toBeLessThan(1);
+  });
+
+  it('reads the header, units and leader attachments', () => {
+    const list = newRecruitGwFormat.parse(newRecruitGwSample);
+
+    expect(list).toMatchObject({
+      format: 'newrecruit-gw',
+      name: 'Ravenwing Strike',
+      detachmentName: 'Unforgiven Task Force',
+      battleSize: 'incursion',
+      pointsLimit: 1000,
+    });
+    expect(list.units.map(u => [u.name, u.modelCount])).toEqual([
+      ['Ravenwing Command Squad Chaplain', 1],
+      ['Sammael', 1],
+      ['Outrider Squad', 3],
+      ['Outrider Squad', 6],
+    ]);
+    expect(list.units[0]).toMatchObject({ enhancementName: 'Shroud of Heroes', attachedTo: 'Outrider Squad' });
+    expect(list.units[1].wargear.map(w => w.name)).toEqual(['Corvex', 'Twin storm bolter']);
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * The Warhammer 40,000 app export, and New Recruit's "GW" text format that copies it:
+ *
+ *   Gladius 2k (1995 Points)
+ *
+ *   Space Marines
+ *   Gladius Task Force
+ *   Strike Force (2000 Points)
+ *
+ *   CHARACTERS
+ *
+ *   Captain (90 Points)
+ *     • Warlord
+ *     • 1x Master-crafted power weapon
+ *     • Enhancement: Artificer Armour (+10 Points)
+ *
+ *   BATTLELINE
+ *
+ *   Intercessor Squad (80 Points)
+ *     • 1x Intercessor Sergeant
+ *       ◦ 1x Bolt rifle
+ *     • 4x Intercessor
+ *       ◦ 4x Bolt rifle
+ *
+ * A top-level bullet followed by ◦ lines is a model with its wargear; one without is a
+ * selection on the unit itself (how single-model characters list their weapons).
+ */
+
+import type { ListImportFormat, ParsedList, ParsedModel, ParsedUnit } from './types';
+import {
+  addUnitSelection, emptyUnit, finishUnit, parseBattleSize, parseWargearItem, stripPoints,
+} from './textUtils';
+
+const SECTION = /^[A-Z][A-Z &'-]+$/;
+const UNIT_HEADER = /^(\S.*?)\s*\((\d[\d,]*)\s*(?:points|pts)\)\s*$/i;
+const BULLET = /^\s*•\s*(.+)$/;
+const SUB_BULLET = /^\s*◦\s*(.+)$/;
+
+export function parseGwStyle(text: string, format: string): ParsedList {
+  const list: ParsedList = {
+    format, name: null, detachmentName: null, battleSize: null, pointsLimit: null, units: [],
+  };
+  const lines = text.split('\n').map(l => l.trimEnd());
+  const headerLines: string[] = [];
+  let inUnits = false;
+  let unit: ParsedUnit | null = null;
+  // The last top-level bullet, until we know whether ◦ lines follow it
+  let pending: string | null = null;
+  let model: ParsedModel | null = null;
+
+  const flushPending = () => {
+    if (unit && pending !== null) addUnitSelection(unit, pending);
+    pending = null;
+  };
+  const finish = () => {
+    flushPending();
+    if (unit) list.units.push(finishUnit(unit));
+    unit = null;
+    model = null;
+  };
+
+  for (const line of lines) {
+    if (!line.trim()) continue;
+
+    if (SECTION.test(line.trim())) {
+      finish();
+      inUnits = true;
+      continue;
+    }
+
+    if (!inUnits) {
+      headerLines.push(line.trim());
+      continue;
+    }
+
+    const sub = line.match(SUB_BULLET);
+    if (sub && unit) {
+      if (pending !== null) {
+        const parsed = parseWargearItem(pending) ?? { name: pending, count: 1 };
+        model = { ...parsed, wargear: [] };
+        unit.models.push(model);
+        pending = null;
+      }
+      const wargear = parseWargearItem(sub[1], model?.count ?? 1);
+      if (wargear) (model ? model.wargear : unit.wargear).push(wargear);
+      continue;
+    }
+
+    const bullet = line.match(BULLET);
+    if (bullet && unit) {
+      flushPending();
+      model = null;
+      pending = bullet[1];
+      continue;
+    }
+
+    const header = line.match(UNIT_HEADER);
+    if (header && !/^exported with/i.test(line)) {
+      finish();
+      unit = emptyUnit(stripPoints(header[1]));
+      continue;
+    }
+    finish();
+  }
+  finish();
+
+  // Header: "<list name> (N Points)", then faction, detachment and battle size in some order
+  const [first, ...rest] = headerLines;
+  if (first) list.name = stripPoints(first);
+  const descriptive: string[] = [];
+  for (const line of rest) {
+    const size = parseBattleSize(line);
+    if (size && /\(\d/.test(line)) {
+      list.battleSize = size.battleSize;
+      list.pointsLimit = size.pointsLimit;
+    } else {
+      descriptive.push(stripPoints(line));
+    }
+  }
+  // The faction comes first; the detachment is the last descriptive line after it
+  if (descriptive.length >= 2) list.detachmentName = descriptive.at(-1)!;
+
+  return list;
+}
+
+const GW_STRUCTURE = /^\S.*\(\d+ (?:points|pts)\)\s*$/im;
+
+export const gwAppFormat: ListImportFormat = {
+  id: 'gw-app',
+  label: 'Warhammer 40,000 app',
+  detect: (text) => (/exported with app version/i.test(text) ? 1 : 0),
+  parse: (text) => parseGwStyle(text, 'gw-app'),
+};
+
+export const newRecruitGwFormat: ListImportFormat = {
+  id: 'newrecruit-gw',
+  label: 'New Recruit (GW format)',
+  detect: (text) => {
+    if (!GW_STRUCTURE.test(text) || !/^\s*•/m.test(text)) return 0;
+    return /newrecruit/i.test(text) ? 1 : 0.7;
+  },
+  parse: (text) => parseGwStyle(text, 'newrecruit-gw'),
+};
@@ -0,0 +1,99 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import battleScribeSample from './fixtures/battlescribe.txt?raw';
+import gwAppSample from './fixtures/gw-app.txt?raw';
+import nativeSample from './fixtures/native.txt?raw';
+import newRecruitGwSample from './fixtures/newrecruit-gw.txt?raw';
+import wtcSample from './fixtures/newrecruit-wtc.txt?raw';
+import {
+  detectImportFormat, getImportFormats, parseImportText, parsedListToRoster, registerImportFormat,
+  unregisterImportFormat,
+  type ParsedList,
+} from './index';
+
+describe('detectImportFormat', () => {
+  it('picks the right parser for each sample', () => {
+    expect(detectImportFormat(gwAppSample)?.id).toBe('gw-app');
+    expect(detectImportFormat(newRecruitGwSample)?.id).toBe('newrecruit-gw');
+    expect(detectImportFormat(wtcSample)?.id).toBe('newrecruit-wtc');
+    expect(detectImportFormat(battleScribeSample)?.id).toBe('battlescribe-text');
+    expect(detectImportFormat(nativeSample)?.id).toBe('native');
+  });
+
+  it('returns null for text no format recognises', () => {
+    expect(detectImportFormat('just some notes about my army')).toBeNull();
+    expect(parseImportText('just some notes about my army')).toBeNull();
+  });
+});
+
+describe('registerImportFormat', () => {
+  afterEach(() => unregisterImportFormat('test-csv'));
+
+  it('lets new formats plug in without touching the others', () => {
+    const before = getImportFormats().length;
+    registerImportFormat({
+      id: 'test-csv',
+      label: 'CSV',
+      detect: (text) => (text.startsWith('unit,models') ? 1 : 0),
+      parse: (text) => ({
+        format: 'test-csv', name: null, detachmentName: null, battleSize: null, pointsLimit: null,
+        units: text.split('\n').slice(1).map(row => {
+          const [name, models] = row.split(',');
+          return { name, modelCount: Number(models), enhancementName: null, wargear: [], models: [], attachedTo: null };
+        }),
+      }),
+    });
+    registerImportFormat({ id: 'test-csv', label: 'Duplicate', detect: () => 1, parse: () => { throw new Error('unused'); } });
+
+    expect(getImportFormats()).toHaveLength(before + 1);
+    expect(parseImportText('unit,models\nIntercessor Squad,5')?.units[0]).toMatchObject({ name: 'Intercessor Squad', modelCount: 5 });
+  });
+
+  it('drops a format again on unregister', () => {
+    const before = getImportFormats().length;
+    registerImportFormat({ id: 'test-csv', label: 'CSV', detect: () => 0, parse: () => { throw new Error('unused'); } });
+    unregisterImportFormat('test-csv');
+
+    expect(getImportFormats()).toHaveLength(before);
+  });
+});
+
+describe('parsedListToRoster', () => {
+  it('builds a selection tree the roster matcher understands', () => {
+    const roster = parsedListToRoster(parseImportText(gwAppSample)!);
+
+    expect(roster).toMatchObject({ detachmentName: 'Gladius Task Force', battleSize: 'strike_force', pointsLimit: 2000 });
+    expect(roster.units[0]).toEqual({
+      name: 'Captain', type: 'unit', number: 1, group: null,
+      selections: [
+        { name: 'Bolt pistol', type: 'upgrade', number: 1, group: null, selections: [] },
+        { name: 'Master-crafted power weapon', type: 'upgrade', number: 1, group: null, selections: [] },
+        { name: 'Artificer Armour', type: 'upgrade', number: 1, group: 'Enhancements', selections: [] },
+      ],
+    });
+    expect(roster.units[2].selections.map(s => [s.name, s.type, s.number])).toEqual([
+      ['Intercessor Sergeant', 'model', 1],
+      ['Intercessor', 'model', 4],
+    ]);
+    // The app doesn't record leaders, so the matcher infers them
+    expect(roster.attachments).toBeNull();
+  });
+
+  it('resolves named attachments to the nearest unit not already led', () => {
+    const unit = (name: string, attachedTo: string | null = null) => ({
+      name, modelCount: 1, enhancementName: null, wargear: [], models: [], attachedTo,
+    });
+    const parsed: ParsedList = {
+      format: 'test', name: null, detachmentName: null, battleSize: null, pointsLimit: null,
+      units: [
+        unit('Intercessor Squad'), unit('Captain', 'Intercessor Squad'), unit('Intercessor Squad'),
+        unit('Lieutenant', 'Intercessor Squad'), unit('Apothecary', 'Hellblaster Squad'),
+      ],
+    };
+
+    expect(parsedListToRoster(parsed).attachments).toEqual([
+      { leader: 1, target: 0, targetName: 'Intercessor Squad' },
+      { leader: 3, target: 2, targetName: 'Intercessor Squad' },
+      { leader: 4, target: null, targetName: 'Hellblaster Squad' },
+    ]);
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Registry of pasted-list import formats.
+ *
+ * `parseImportText` asks every registered format how confident it is that the text is one of
+ * its exports and parses with the most confident one. New formats plug in with
+ * `registerImportFormat`; earlier registrations win ties, so the specific formats are
+ * registered before the loose structural ones.
+ */
+
+import type { ParsedRoster, RosterAttachment, RosterSelection } from '../rosterFile';
+import { battleScribeTextFormat } from './battleScribeText';
+import { gwAppFormat, newRecruitGwFormat } from './gwStyle';
+import { nativeTextFormat } from './nativeText';
+import { newRecruitWtcFormat } from './newRecruitWtc';
+import type { ListImportFormat, ParsedList, ParsedUnit, ParsedWargear } from './types';
+
+export type { ListImportFormat, ParsedList, ParsedModel, ParsedUnit, ParsedWargear } from './types';
+
+const formats: ListImportFormat[] = [];
+
+export function registerImportFormat(format: ListImportFormat): void {
+  if (formats.some(f => f.id === format.id)) return;
+  formats.push(format);
+}
+
+export function unregisterImportFormat(id: string): void {
+  const index = formats.findIndex(f => f.id === id);
+  if (index >= 0) formats.splice(index, 1);
+}
+
+export function getImportFormats(): readonly ListImportFormat[] {
+  return formats;
+}
+
+/** The format most confident it can read `text`, or null when none recognises it. */
+export function detectImportFormat(text: string): ListImportFormat | null {
+  let best: ListImportFormat | null = null;
+  let bestScore = 0;
+  for (const format of formats) {
+    const score = format.detect(text);
+    if (score > bestScore) {
+      best = format;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+/** Parses with the detected format; null when the text matches no known format. */
+export function parseImportText(text: string): ParsedList | null {
+  const format = detectImportFormat(text);
+  if (!format) return null;
+  const parsed = format.parse(text);
+  return parsed.units.length > 0 ? parsed : null;
+}
+
+registerImportFormat(gwAppFormat);
+registerImportFormat(newRecruitWtcFormat);
+registerImportFormat(battleScribeTextFormat);
+registerImportFormat(nativeTextFormat);
+registerImportFormat(newRecruitGwFormat);
+
+// ============================================================
+// Conversion to the roster matcher's input
+// ============================================================
+
+function upgrade(w: ParsedWargear): RosterSelection {
+  return { name: w.name, type: 'upgrade', number: w.count, group: null, selections: [] };
+}
+
+function unitSelection(unit: ParsedUnit): RosterSelection {
+  const selections: RosterSelection[] = [
+    ...unit.models.map(m => ({
+      name: m.name, type: 'model', number: m.count, group: null, selections: m.wargear.map(upgrade),
+    })),
+    ...unit.wargear.map(upgrade),
+  ];
+  if (unit.enhancementName) {
+    selections.push({ name: unit.enhancementName, type: 'upgrade', number: 1, group: 'Enhancements', selections: [] });
+  }
+  // Without a model breakdown the unit selection itself carries the size
+  return { name: unit.name, type: 'unit', number: unit.modelCount, group: null, selections };
+}
+
+/**
+ * A parsed text list in the shape `planRosterImport` takes. Leader attachments named by the
+ * text are resolved to the nearest not-yet-led unit with that name.
+ */
+export function parsedListToRoster(parsed: ParsedList): ParsedRoster {
+  const attachments: RosterAttachment[] = [];
+  const led = new Set<number>();
+
+  parsed.units.forEach((unit, leader) => {
+    if (!unit.attachedTo) return;
+    const name = unit.attachedTo.toLowerCase();
+    const nearest = parsed.units
+      .map((u, index) => ({ u, index }))
+      .filter(({ u, index }) => index !== leader && !led.has(index) && u.name.toLowerCase() === name)
+      .sort((a, b) => Math.abs(a.index - leader) - Math.abs(b.index - leader))[0];
+    if (nearest) led.add(nearest.index);
+    attachments.push({ leader, target: nearest?.index ?? null, targetName: unit.attachedTo });
+  });
+
+  return {
+    name: parsed.name ?? '',
+    catalogueName: null,
+    detachmentName: parsed.detachmentName,
+    battleSize: parsed.battleSize,
+    pointsLimit: parsed.pointsLimit,
+    units: parsed.units.map(unitSelection),
+    // Only formats that record attachments get explicit ones; the rest fall back to inference
+    attachments: parsed.units.some(u => u.attachedTo) ? attachments : null,
+  };
+}
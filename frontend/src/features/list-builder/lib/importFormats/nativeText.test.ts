@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import nativeSample from './fixtures/native.txt?raw';
+import { nativeTextFormat } from './nativeText';
+
+describe('nativeTextFormat', () => {
+  it('recognises our export by its header line', () => {
+    expect(nativeTextFormat.detect(nativeSample)).toBe(1);
+    expect(nativeTextFormat.detect('  Captain - 90 pts')).toBeGreaterThan(0);
+    expect(nativeTextFormat.detect('Captain (90 Points)')).toBe(0);
+  });
+
+  it('reads the header, units, enhancements and wargear', () => {
+    const list = nativeTextFormat.parse(nativeSample);
+
+    expect(list).toMatchObject({
+      format: 'native',
+      name: 'Gladius Spearhead',
+      detachmentName: 'Gladius Task Force',
+      battleSize: 'strike_force',
+      pointsLimit: 2000,
+    });
+    expect(list.units).toEqual([
+      {
+        name: 'Captain', modelCount: 1, enhancementName: 'Artificer Armour',
+        wargear: [{ name: 'Relic blade', count: 1 }], models: [], attachedTo: null,
+      },
+      {
+        name: 'Intercessor Squad', modelCount: 10, enhancementName: null,
+        wargear: [{ name: 'Astartes grenade launcher', count: 1 }], models: [], attachedTo: null,
+      },
+    ]);
+  });
+});
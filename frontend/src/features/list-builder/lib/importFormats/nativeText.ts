@@ -0,0 +1,73 @@
+/**
+ * Our own "Standard" text export (see `generateStandardExport` in ExportModal):
+ *
+ *   ++ Gladius 2k [1995/2000 pts] ++
+ *   Detachment: Gladius Task Force
+ *   Battle Size: Strike Force
+ *
+ *   = Characters =
+ *     Captain - 90 pts
+ *       Enhancement: Artificer Armour (+10 pts)
+ *       Wargear: Relic blade (+5 pts)
+ *     Intercessor Squad (5 models) - 80 pts
+ */
+
+import type { ListImportFormat, ParsedList, ParsedUnit } from './types';
+import { emptyUnit, parseBattleSize, parseWargearItem, stripPoints } from './textUtils';
+
+const HEADER = /^\+\+\s*(.+?)\s*\[\d+\/(\d+)\s*pts\]\s*\+\+\s*$/;
+const UNIT_LINE = /^\s{2}(\S.*?)(?:\s+\((\d+)\s+models?\))?\s+-\s+\d+\s+pts\s*$/;
+const DETAIL_LINE = /^\s{4}(Enhancement|Wargear):\s+(.+?)\s*$/;
+
+function parse(text: string): ParsedList {
+  const list: ParsedList = {
+    format: 'native', name: null, detachmentName: null, battleSize: null, pointsLimit: null, units: [],
+  };
+  let unit: ParsedUnit | null = null;
+
+  for (const line of text.split('\n')) {
+    const header = line.match(HEADER);
+    if (header) {
+      list.name = header[1];
+      list.pointsLimit = parseInt(header[2], 10);
+      continue;
+    }
+    if (line.startsWith('Detachment:')) {
+      list.detachmentName = line.slice('Detachment:'.length).trim() || null;
+      continue;
+    }
+    if (line.startsWith('Battle Size:')) {
+      list.battleSize = parseBattleSize(line)?.battleSize ?? null;
+      continue;
+    }
+
+    const unitMatch = line.match(UNIT_LINE);
+    if (unitMatch) {
+      unit = emptyUnit(unitMatch[1].trim(), unitMatch[2] ? parseInt(unitMatch[2], 10) : 1);
+      list.units.push(unit);
+      continue;
+    }
+
+    const detail = unit && line.match(DETAIL_LINE);
+    if (unit && detail) {
+      if (detail[1] === 'Enhancement') {
+        unit.enhancementName = stripPoints(detail[2]);
+      } else {
+        const wargear = parseWargearItem(detail[2]);
+        if (wargear) unit.wargear.push(wargear);
+      }
+    }
+  }
+
+  return list;
+}
+
+export const nativeTextFormat: ListImportFormat = {
+  id: 'native',
+  label: 'WarForge text export',
+  detect: (text) => {
+    if (/^\+\+ .+ \[\d+\/\d+ pts\] \+\+\s*$/m.test(text)) return 1;
+    return /^\s{2}\S.* - \d+ pts\s*$/m.test(text) ? 0.5 : 0;
+  },
+  parse,
+};
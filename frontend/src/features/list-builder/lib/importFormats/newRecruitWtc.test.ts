@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import wtcSample from './fixtures/newrecruit-wtc.txt?raw';
+import gwAppSample from './fixtures/gw-app.txt?raw';
+import { newRecruitWtcFormat } from './newRecruitWtc';
+
+describe('newRecruitWtcFormat', () => {
+  it('recognises the WTC header block', () => {
+    expect(newRecruitWtcFormat.detect(wtcSample)).toBe(1);
+    expect(newRecruitWtcFormat.detect(gwAppSample)).toBe(0);
+  });
+
+  it('reads the detachment and units with their sizes', () => {
+    const list = newRecruitWtcFormat.parse(wtcSample);
+
+    expect(list.format).toBe('newrecruit-wtc');
+    expect(list.detachmentName).toBe('Gladius Task Force');
+    expect(list.units.map(u => [u.name, u.modelCount])).toEqual([
+      ['Captain', 1],
+      ['Lieutenant', 1],
+      ['Apothecary', 1],
+      ['Intercessor Squad', 10],
+      ['Hellblaster Squad', 5],
+    ]);
+  });
+
+  it('takes enhancements from the unit line or the header', () => {
+    const [captain, lieutenant, apothecary] = newRecruitWtcFormat.parse(wtcSample).units;
+    expect(captain.enhancementName).toBe('Artificer Armour');
+    expect(lieutenant.enhancementName).toBe('Bolter Discipline');
+    expect(apothecary.enhancementName).toBeNull();
+  });
+
+  it('reads character wargear and per-model loadouts', () => {
+    const units = newRecruitWtcFormat.parse(wtcSample).units;
+    expect(units[0].wargear).toEqual([
+      { name: 'Bolt pistol', count: 1 },
+      { name: 'Master-crafted power weapon', count: 1 },
+    ]);
+    expect(units[3].models[1]).toEqual({
+      name: 'Intercessor', count: 9,
+      wargear: [
+        { name: 'Bolt pistol', count: 9 }, { name: 'Bolt rifle', count: 9 },
+        { name: 'Close combat weapon', count: 9 }, { name: 'Astartes grenade launcher', count: 1 },
+      ],
+    });
+  });
+
+  it('resolves CharN tags on bodyguard units to leader attachments', () => {
+    const units = newRecruitWtcFormat.parse(wtcSample).units;
+    expect(units.filter(u => u.attachedTo).map(u => [u.name, u.attachedTo])).toEqual([
+      ['Captain', 'Intercessor Squad'],
+      ['Lieutenant', 'Hellblaster Squad'],
+      ['Apothecary', 'Intercessor Squad'],
+    ]);
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * New Recruit's "WTC" compact format, the one most tournaments ask for:
+ *
+ *   +++++++++++++++++++++++++++++++++++++++++++++++
+ *   + FACTION KEYWORD: Imperium - Adeptus Astartes - Space Marines
+ *   + DETACHMENT: Gladius Task Force
+ *   + TOTAL ARMY POINTS: 1995pts
+ *   +
+ *   + WARLORD: Char1: Captain
+ *   + ENHANCEMENT: Artificer Armour (on Char1: Captain)
+ *   +++++++++++++++++++++++++++++++++++++++++++++++
+ *
+ *   Char1: 1x Captain (90 pts): Warlord, Master-crafted power weapon, Enhancement: Artificer Armour (+10 pts)
+ *
+ *   5x Intercessor Squad (80 pts): Char1
+ *   • 1x Intercessor Sergeant: Bolt pistol, Bolt rifle, Close combat weapon
+ *   • 4x Intercessor: 4 with Bolt pistol, Bolt rifle, Close combat weapon
+ *
+ * Characters are tagged "CharN"; a bodyguard unit lists the tags of the leaders joining it.
+ */
+
+import type { ListImportFormat, ParsedList, ParsedUnit } from './types';
+import {
+  addUnitSelection, emptyUnit, finishUnit, parseBattleSize, parseWargearList, splitSelections, stripPoints,
+} from './textUtils';
+
+const HEADER_FIELD = /^\+\s*([A-Z ]+):\s*(.*)$/;
+const UNIT_LINE = /^(?:(Char\d+):\s*)?(\d+)x\s+(.+?)\s*\(\d[\d,]*\s*pts\)\s*(?::\s*(.*))?$/i;
+const MODEL_LINE = /^\s*•\s*(\d+)x\s+([^:]+?)\s*(?::\s*(.*))?$/;
+const CHAR_TAG = /^Char\d+$/i;
+
+function parse(text: string): ParsedList {
+  const list: ParsedList = {
+    format: 'newrecruit-wtc', name: null, detachmentName: null, battleSize: null, pointsLimit: null, units: [],
+  };
+  const tagged = new Map<string, ParsedUnit>();
+  // Bodyguard unit → tags of the leaders joining it
+  const joins: [ParsedUnit, string[]][] = [];
+  const headerEnhancements: [string, string][] = [];
+  let unit: ParsedUnit | null = null;
+
+  for (const rawLine of text.split('\n')) {
+    const line = rawLine.trimEnd();
+
+    const field = line.match(HEADER_FIELD);
+    if (field) {
+      const [, key, value] = field;
+      if (key === 'DETACHMENT') list.detachmentName = value.trim() || null;
+      if (key === 'BATTLE SIZE') {
+        const size = parseBattleSize(value);
+        list.battleSize = size?.battleSize ?? null;
+        list.pointsLimit = size?.pointsLimit ?? null;
+      }
+      const onChar = key === 'ENHANCEMENT' && value.match(/^(.+?)\s*\(on (Char\d+)/i);
+      if (onChar) headerEnhancements.push([onChar[2], stripPoints(onChar[1])]);
+      continue;
+    }
+
+    const unitLine = line.match(UNIT_LINE);
+    if (unitLine) {
+      const [, tag, count, name, selections] = unitLine;
+      unit = emptyUnit(name.trim(), parseInt(count, 10));
+      list.units.push(unit);
+      if (tag) tagged.set(tag.toLowerCase(), unit);
+
+      const leaders: string[] = [];
+      for (const sel of splitSelections(selections ?? '')) {
+        if (CHAR_TAG.test(sel)) leaders.push(sel.toLowerCase());
+        else addUnitSelection(unit, sel);
+      }
+      if (leaders.length > 0) joins.push([unit, leaders]);
+      continue;
+    }
+
+    const modelLine = unit && line.match(MODEL_LINE);
+    if (unit && modelLine) {
+      const count = parseInt(modelLine[1], 10);
+      unit.models.push({ name: modelLine[2].trim(), count, wargear: parseWargearList(modelLine[3] ?? '', count) });
+    }
+  }
+
+  for (const [tag, enhancement] of headerEnhancements) {
+    const character = tagged.get(tag.toLowerCase());
+    if (character && !character.enhancementName) character.enhancementName = enhancement;
+  }
+  for (const [bodyguard, tags] of joins) {
+    for (const tag of tags) {
+      const leader = tagged.get(tag);
+      if (leader) leader.attachedTo = bodyguard.name;
+    }
+  }
+
+  list.units = list.units.map(finishUnit);
+  return list;
+}
+
+export const newRecruitWtcFormat: ListImportFormat = {
+  id: 'newrecruit-wtc',
+  label: 'New Recruit (WTC format)',
+  detect: (text) => (/^\+ FACTION KEYWORD:/m.test(text) || /^Char\d+: \d+x /m.test(text) ? 1 : 0),
+  parse,
+};
@@ -0,0 +1,101 @@
+/**
+ * Line-level helpers shared by the import formats.
+ */
+
+import type { ParsedUnit, ParsedWargear } from './types';
+
+const BATTLE_SIZES: { id: string; pattern: RegExp; points: number }[] = [
+  { id: 'combat_patrol', pattern: /combat patrol/i, points: 500 },
+  { id: 'incursion', pattern: /incursion/i, points: 1000 },
+  { id: 'strike_force', pattern: /strike force/i, points: 2000 },
+  { id: 'onslaught', pattern: /onslaught/i, points: 3000 },
+];
+
+/** Battle size named in `text` ("2. Strike Force (2000 Point limit)", "Incursion (1000 Points)") */
+export function parseBattleSize(text: string): { battleSize: string; pointsLimit: number } | null {
+  const size = BATTLE_SIZES.find(s => s.pattern.test(text));
+  if (!size) return null;
+  const points = text.match(/(\d[\d,]*)\s*(?:points?|pts)/i);
+  return { battleSize: size.id, pointsLimit: points ? parseInt(points[1].replace(/,/g, ''), 10) : size.points };
+}
+
+/** Strips cost annotations: "Artificer Armour (+10 pts)", "Captain [90pts]", "(80 Points)" */
+export function stripPoints(text: string): string {
+  return text
+    .replace(/\s*[([]\+?\d[\d,]*\s*(?:points?|pts?)[)\]]/gi, '')
+    .trim();
+}
+
+/**
+ * One wargear entry. Handles the count styles the exports use: "4x Bolt rifle",
+ * "4 with Bolt rifle" and "Victrix Honour Guard x2". Without a count, `defaultCount` applies.
+ */
+export function parseWargearItem(text: string, defaultCount = 1): ParsedWargear | null {
+  const item = stripPoints(text).replace(/^[-•◦.]\s*/, '').trim();
+  if (!item) return null;
+  const prefixed = item.match(/^(\d+)\s*(?:x|with)\s+(.+)$/i);
+  if (prefixed) return { name: prefixed[2].trim(), count: parseInt(prefixed[1], 10) };
+  const suffixed = item.match(/^(.+?)\s+x(\d+)$/i);
+  if (suffixed) return { name: suffixed[1].trim(), count: parseInt(suffixed[2], 10) };
+  return { name: item, count: defaultCount };
+}
+
+/** Comma-separated wargear, e.g. "4x Bolt pistol, 4x Bolt rifle" */
+export function parseWargearList(text: string, defaultCount = 1): ParsedWargear[] {
+  return splitSelections(text)
+    .map(item => parseWargearItem(item, defaultCount))
+    .filter((w): w is ParsedWargear => w !== null);
+}
+
+const ENHANCEMENT = /^enhancements?\s*:\s*(.+)$/i;
+const ATTACHMENT = /^(?:attached to|leading)\s*:?\s*(.+)$/i;
+const WARLORD = /^warlord$/i;
+
+/**
+ * Sorts one selection of a unit into the right `ParsedUnit` field: an explicit enhancement,
+ * a leader attachment, or wargear. "Warlord" carries no list data and is dropped.
+ */
+export function addUnitSelection(unit: ParsedUnit, text: string, defaultCount = 1): void {
+  const entry = stripPoints(text).replace(/^[-•◦.]\s*/, '').trim();
+  if (!entry || WARLORD.test(entry)) return;
+
+  const enhancement = entry.match(ENHANCEMENT);
+  const attachment = entry.match(ATTACHMENT);
+  if (enhancement) {
+    unit.enhancementName = enhancement[1].trim();
+  } else if (attachment) {
+    unit.attachedTo = attachment[1].trim();
+  } else {
+    const wargear = parseWargearItem(entry, defaultCount);
+    if (wargear) unit.wargear.push(wargear);
+  }
+}
+
+export function emptyUnit(name: string, modelCount = 1): ParsedUnit {
+  return { name, modelCount, enhancementName: null, wargear: [], models: [], attachedTo: null };
+}
+
+/** Model count from the per-model breakdown, falling back to what the header said. */
+export function finishUnit(unit: ParsedUnit): ParsedUnit {
+  if (unit.models.length > 0) unit.modelCount = unit.models.reduce((sum, m) => sum + m.count, 0);
+  return unit;
+}
+
+/** Splits a comma-separated selection list, ignoring commas inside parentheses. */
+export function splitSelections(text: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const ch of text) {
+    if (ch === '(' || ch === '[') depth++;
+    if (ch === ')' || ch === ']') depth = Math.max(0, depth - 1);
+    if (ch === ',' && depth === 0) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  parts.push(current);
+  return parts.map(p => p.trim()).filter(Boolean);
+}
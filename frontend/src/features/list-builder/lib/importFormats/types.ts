@@ -0,0 +1,54 @@
+/**
+ * Shared shapes for pasted-list import formats.
+ *
+ * Each format turns its text into a `ParsedList`; `parsedListToRoster` (index.ts) then hands
+ * it to the same catalogue matcher as BattleScribe roster files, so every format gets
+ * wargear, enhancement, detachment and leader matching plus the unmatched-selection report.
+ */
+
+export interface ParsedWargear {
+  name: string;
+  count: number;
+}
+
+export interface ParsedModel {
+  name: string;
+  count: number;
+  wargear: ParsedWargear[];
+}
+
+export interface ParsedUnit {
+  name: string;
+  modelCount: number;
+  /** Set when the format marks the enhancement explicitly; other upgrades go in `wargear` */
+  enhancementName: string | null;
+  /** Unit-level selections (single-model units list their weapons here) */
+  wargear: ParsedWargear[];
+  /** Per-model breakdown, when the format lists one */
+  models: ParsedModel[];
+  /** Unit this one joins as a leader, when the format records it */
+  attachedTo: string | null;
+}
+
+export interface ParsedList {
+  /** ID of the format that parsed the text */
+  format: string;
+  name: string | null;
+  detachmentName: string | null;
+  /** One of the battle size IDs, e.g. 'strike_force' */
+  battleSize: string | null;
+  pointsLimit: number | null;
+  units: ParsedUnit[];
+}
+
+export interface ListImportFormat {
+  id: string;
+  /** Shown to the user once the format is detected, e.g. "Warhammer 40,000 app" */
+  label: string;
+  /**
+   * How sure the format is that `text` is one of its exports: 0 for no, 1 for a signature
+   * match (e.g. the app's footer), something in between for a structural match.
+   */
+  detect: (text: string) => number;
+  parse: (text: string) => ParsedList;
+}
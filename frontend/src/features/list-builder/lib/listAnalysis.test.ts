@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'vitest';
+import type { ModelVariant, WargearOption, WargearSubOption, Weapon } from '../../../shared/types/database';
+import type { ArmyListUnitWithDetails, UnitWithRelations } from '../stores/listEditorStore';
+import {
+  fieldedWeapons, listDurability, listFirepower, totalFirepower, weaponBaseName, type ListAnalysisSource,
+} from './listAnalysis';
+
+function weapon(name: string, type: Weapon['type'], attacks: string, strength: number, ap: number, damage: string, keywords: string[] = []): Weapon {
+  return { id: `w-${name}`, name, type, range: type === 'ranged' ? '24"' : 'Melee', attacks, skill: '3+', strength, ap, damage, keywords } as Weapon;
+}
+
+function unit(id: string, name: string, stats: Partial<UnitWithRelations>): UnitWithRelations {
+  return { id, name, keywords: ['Infantry'], toughness: 4, save: '3+', wounds: 2, abilities: [], weapons: [], ...stats } as unknown as UnitWithRelations;
+}
+
+const intercessors = unit('u-int', 'Intercessor Squad', {
+  weapons: [
+    weapon('Bolt rifle', 'ranged', '2', 4, -1, '1'),
+    weapon('Bolt pistol', 'ranged', '1', 4, 0, '1', ['Pistol']),
+    weapon('Close combat weapon', 'melee', '3', 4, 0, '1'),
+    weapon('Power fist', 'melee', '3', 8, -2, '2'),
+  ],
+});
+
+const tacticals = unit('u-tac', 'Tactical Squad', {
+  weapons: [
+    weapon('Boltgun', 'ranged', '2', 4, 0, '1'),
+    weapon('➤ Plasma gun - standard', 'ranged', '1', 7, -2, '1', ['Rapid Fire 1']),
+    weapon('➤ Plasma gun - supercharge', 'ranged', '1', 8, -3, '2', ['Rapid Fire 1', 'Hazardous']),
+    weapon('Missile launcher', 'ranged', '1', 9, -2, 'D6'),
+  ],
+});
+
+const knight = unit('u-kni', 'Knight Paladin', {
+  keywords: ['Vehicle', 'Titanic'], toughness: 12, wounds: 22,
+  abilities: [{ name: 'Invulnerable Save', type: 'invulnerable', description: '5+ invulnerable save' }],
+} as Partial<UnitWithRelations>);
+
+function entry(id: string, unitRow: UnitWithRelations, modelCount: number): ArmyListUnitWithDetails {
+  return { id, army_list_id: 'list-1', unit_id: unitRow.id, model_count: modelCount, sort_order: 0, units: unitRow } as ArmyListUnitWithDetails;
+}
+
+function mockSource(overrides?: Partial<ListAnalysisSource>): ListAnalysisSource {
+  return {
+    listUnits: [entry('alu-int', intercessors, 5), entry('alu-tac', tacticals, 10)],
+    wargearOptions: [
+      { id: 'opt-rifle', unit_id: 'u-int', group_name: 'Intercessor Sergeant: Weapon', name: 'Bolt rifle', is_default: true, pool_max: null },
+      { id: 'opt-fist', unit_id: 'u-int', group_name: 'Intercessor Sergeant: Weapon', name: 'Power fist', is_default: false, pool_max: null },
+      { id: 'opt-bolt', unit_id: 'u-tac', group_name: 'Special weapon', name: 'Boltgun', is_default: true, pool_max: 1 },
+      { id: 'opt-plasma', unit_id: 'u-tac', group_name: 'Special weapon', name: 'Plasma gun', is_default: false, pool_max: 1 },
+      { id: 'opt-none', unit_id: 'u-tac', group_name: 'Heavy weapon', name: 'None', is_default: true, pool_max: 1 },
+      { id: 'opt-heavy', unit_id: 'u-tac', group_name: 'Heavy weapon', name: 'Heavy weapons', is_default: false, pool_max: 1 },
+    ] as WargearOption[],
+    wargearSubOptions: [{ id: 'sub-ml', wargear_option_id: 'opt-heavy', name: 'Missile launcher' } as WargearSubOption],
+    unitWargearSelections: new Map(),
+    unitWargearRowIds: new Map(),
+    unitWargearSubSelections: new Map(),
+    modelVariants: [
+      { id: 'mv-sgt', unit_id: 'u-int', name: 'Intercessor Sergeant', is_leader: true, min_count: 1, default_count: 1 },
+      { id: 'mv-int', unit_id: 'u-int', name: 'Intercessor', is_leader: false, min_count: 4, default_count: 4 },
+    ] as ModelVariant[],
+    unitCompositions: new Map(),
+    ...overrides,
+  };
+}
+
+const bearers = (source: ListAnalysisSource, aluIndex: number) =>
+  Object.fromEntries(fieldedWeapons(source, source.listUnits[aluIndex]).map(f => [f.weapon.name, f.bearers]));
+
+describe('weaponBaseName', () => {
+  it('maps every firing mode to the weapon', () => {
+    expect(weaponBaseName('➤ Plasma gun - supercharge')).toBe('plasma gun');
+    expect(weaponBaseName('Bolt rifle')).toBe('bolt rifle');
+  });
+});
+
+describe('fieldedWeapons', () => {
+  it('gives the rest of the squad the kit the sergeant can swap away', () => {
+    expect(bearers(mockSource(), 0)).toEqual({ 'Bolt rifle': 5, 'Bolt pistol': 5, 'Close combat weapon': 5 });
+
+    const source = mockSource({ unitWargearSelections: new Map([['alu-int', new Map([['Intercessor Sergeant: Weapon', 'opt-fist']])]]) });
+    expect(bearers(source, 0)).toEqual({ 'Bolt rifle': 4, 'Bolt pistol': 5, 'Close combat weapon': 5, 'Power fist': 1 });
+  });
+
+  it('counts standard kit from the unit composition', () => {
+    const source = mockSource({
+      listUnits: [entry('alu-int', intercessors, 10)],
+      unitCompositions: new Map([['alu-int', new Map([['mv-sgt', 1], ['mv-int', 9]])]]),
+    });
+    expect(bearers(source, 0)['Bolt rifle']).toBe(10);
+  });
+
+  it('gives a pooled pick to one model and sub-option quantities as chosen', () => {
+    const source = mockSource({
+      unitWargearSelections: new Map([['alu-tac', new Map([['Special weapon', 'opt-plasma'], ['Heavy weapon', 'opt-heavy']])]]),
+      unitWargearRowIds: new Map([['alu-tac', new Map([['opt-heavy', 'row-1']])]]),
+      unitWargearSubSelections: new Map([['row-1', new Map([['sub-ml', 2]])]]),
+    });
+    expect(bearers(source, 1)).toEqual({
+      'Boltgun': 9, '➤ Plasma gun - standard': 1, '➤ Plasma gun - supercharge': 1, 'Missile launcher': 2,
+    });
+  });
+});
+
+describe('listFirepower', () => {
+  const withFist = mockSource({
+    listUnits: [entry('alu-int', intercessors, 5)],
+    unitWargearSelections: new Map([['alu-int', new Map([['Intercessor Sergeant: Weapon', 'opt-fist']])]]),
+  });
+
+  it('leaves pistols holstered when the unit has other guns', () => {
+    // Four bolt rifles into MEQ: 2 attacks, 3+ to hit, 4+ to wound, 4+ save after AP-1
+    const [firepower] = listFirepower(withFist);
+    expect(firepower.shooting.meq).toBeCloseTo(4 * 2 * (2 / 3) * (1 / 2) * (1 / 2));
+  });
+
+  it('fights with each model\'s best melee weapon once', () => {
+    const fist = 3 * (2 / 3) * (5 / 6) * (2 / 3) * 2;
+    const closeCombat = 3 * (2 / 3) * (1 / 2) * (1 / 3);
+    const [firepower] = listFirepower(withFist);
+    expect(firepower.melee.meq).toBeCloseTo(fist + 4 * closeCombat);
+  });
+
+  it('adds up the whole list per phase and target', () => {
+    const units = listFirepower(mockSource());
+    const total = totalFirepower(units);
+    expect(total.shooting.teq).toBeCloseTo(units[0].shooting.teq + units[1].shooting.teq);
+    expect(total.melee.knight).toBeLessThan(total.melee.meq);
+  });
+});
+
+describe('listDurability', () => {
+  it('sorts wounds by toughness and save and counts invulnerable saves', () => {
+    const durability = listDurability({ listUnits: [entry('alu-int', intercessors, 5), entry('alu-kni', knight, 1)] });
+    expect(durability).toMatchObject({ totalWounds: 32, totalModels: 6, invulnerableWounds: 22 });
+    expect(durability.wounds['T4']['3+']).toBe(10);
+    expect(durability.wounds['T10–12']['3+']).toBe(22);
+  });
+});
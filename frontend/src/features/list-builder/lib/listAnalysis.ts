@@ -0,0 +1,275 @@
+import type { ArmyListUnitWithDetails } from '../stores/listEditorStore';
+import type { Weapon, WargearOption } from '../../../shared/types/database';
+import type { PrintPackSource } from './printPack';
+import { expectedDamage, invulnerableSave, parseRoll, type DefenderProfile } from '../../../shared/lib/mathhammer';
+import { findModifier, parseWeaponKeywords } from '../../../shared/lib/weaponKeywords';
+
+/**
+ * Army-wide firepower and durability, built from the exact loadout of every unit: the
+ * wargear chosen in each group (or the group default) and the model counts in each unit's
+ * composition. Takes plain data rather than the store so two versions of a list can be run
+ * side by side.
+ */
+export type ListAnalysisSource = Pick<PrintPackSource,
+  | 'listUnits' | 'wargearOptions' | 'wargearSubOptions' | 'unitWargearSelections' | 'unitWargearRowIds'
+  | 'unitWargearSubSelections' | 'modelVariants' | 'unitCompositions'>;
+
+// ============================================================
+// Reference targets
+// ============================================================
+
+export interface ReferenceTarget {
+  key: string;
+  name: string;
+  description: string;
+  defender: DefenderProfile;
+}
+
+export const REFERENCE_TARGETS: ReferenceTarget[] = [
+  {
+    key: 'meq',
+    name: 'MEQ',
+    description: 'T4 W2 Sv3+ infantry',
+    defender: { name: 'MEQ', toughness: 4, save: 3, invulnerable: null, feelNoPain: null, keywords: ['INFANTRY'], wounds: 2, models: 5 },
+  },
+  {
+    key: 'teq',
+    name: 'TEQ',
+    description: 'T5 W3 Sv2+ 4++ infantry',
+    defender: { name: 'TEQ', toughness: 5, save: 2, invulnerable: 4, feelNoPain: null, keywords: ['INFANTRY', 'TERMINATOR'], wounds: 3, models: 5 },
+  },
+  {
+    key: 'vehicle',
+    name: 'T9 vehicle',
+    description: 'T9 W10 Sv3+',
+    defender: { name: 'T9 vehicle', toughness: 9, save: 3, invulnerable: null, feelNoPain: null, keywords: ['VEHICLE'], wounds: 10, models: 1 },
+  },
+  {
+    key: 'knight',
+    name: 'T12 knight',
+    description: 'T12 W22 Sv3+ 5++',
+    defender: { name: 'T12 knight', toughness: 12, save: 3, invulnerable: 5, feelNoPain: null, keywords: ['VEHICLE', 'TITANIC', 'TOWERING'], wounds: 22, models: 1 },
+  },
+];
+
+// ============================================================
+// Loadout
+// ============================================================
+
+export interface FieldedWeapon {
+  weapon: Weapon;
+  /** Models in the unit carrying it */
+  bearers: number;
+}
+
+/** "➤ Plasma gun - supercharge" → "plasma gun", so every firing mode maps to one weapon. */
+export function weaponBaseName(name: string): string {
+  return name.replace(/^[➤\s]+/, '').replace(/\s+-\s+[^-]+$/, '').trim().toLowerCase();
+}
+
+/** The weapon names an option hands out: "Plasma pistol and power sword" → both. */
+function optionWeaponNames(option: Pick<WargearOption, 'name'>): string[] {
+  return option.name.toLowerCase().split(/\s*(?:,|&|\band\b|\bwith\b)\s*/).map(part => part.trim()).filter(Boolean);
+}
+
+function variantCount(source: ListAnalysisSource, lu: ArmyListUnitWithDetails, variantId: string): number {
+  const variant = source.modelVariants.find(v => v.id === variantId);
+  if (!variant) return 0;
+  if (variant.is_leader) return variant.min_count;
+  const counts = source.unitCompositions.get(lu.id);
+  return counts && counts.size > 0 ? counts.get(variant.id) ?? 0 : variant.default_count;
+}
+
+/** The model variant a wargear group belongs to, directly or through a "Sergeant: Weapon 1" style name. */
+function groupVariantId(source: ListAnalysisSource, lu: ArmyListUnitWithDetails, group: string, options: WargearOption[]): string | null {
+  const linked = options.find(o => o.model_variant_id)?.model_variant_id;
+  if (linked) return linked;
+  return source.modelVariants
+    .filter(v => v.unit_id === lu.unit_id)
+    .find(v => group.startsWith(`${v.name}:`) || group === `${v.name} wargear`)?.id ?? null;
+}
+
+/**
+ * Every weapon profile the unit takes to the table, with how many models carry it.
+ *
+ * Each wargear group covers the models of its variant, or the whole unit. The chosen option
+ * (or the default) goes to all of them, except a pick from a limited pool ("up to 2 special
+ * weapons"), which is one model's while the rest keep the default. A variant group's default
+ * is standard kit, so models outside that variant carry it too ("the Sergeant's bolt rifle
+ * can be replaced"), and profiles no option mentions at all are carried by every model.
+ */
+export function fieldedWeapons(source: ListAnalysisSource, lu: ArmyListUnitWithDetails): FieldedWeapon[] {
+  const options = source.wargearOptions.filter(o => o.unit_id === lu.unit_id);
+  const selected = source.unitWargearSelections.get(lu.id);
+  const rowIds = source.unitWargearRowIds.get(lu.id);
+
+  const groups = new Map<string, WargearOption[]>();
+  for (const option of options) {
+    if (!groups.has(option.group_name)) groups.set(option.group_name, []);
+    groups.get(option.group_name)!.push(option);
+  }
+
+  const carried = new Map<string, number>();
+  const offered = new Set<string>();
+  // Models in the variant groups that have the weapon as default; null once a whole-unit group does
+  const standardKit = new Map<string, number | null>();
+  const give = (names: string[], count: number) => {
+    for (const name of names) carried.set(name, (carried.get(name) ?? 0) + count);
+  };
+
+  for (const [group, groupOptions] of groups) {
+    const variantId = groupVariantId(source, lu, group, groupOptions);
+    const groupModels = variantId ? variantCount(source, lu, variantId) : lu.model_count;
+
+    const subNames = groupOptions.flatMap(o => source.wargearSubOptions.filter(so => so.wargear_option_id === o.id))
+      .map(so => so.name.toLowerCase());
+    for (const name of [...groupOptions.flatMap(optionWeaponNames), ...subNames]) offered.add(name);
+
+    const fallback = groupOptions.find(o => o.is_default);
+    for (const name of fallback ? optionWeaponNames(fallback) : []) {
+      const previous = standardKit.get(name);
+      standardKit.set(name, variantId && previous !== null ? (previous ?? 0) + groupModels : null);
+    }
+    const chosen = groupOptions.find(o => o.id === selected?.get(group)) ?? (groupOptions.length > 1 ? fallback : undefined);
+    if (chosen) {
+      const pooled = !variantId && chosen !== fallback && chosen.pool_max != null;
+      const bearers = pooled ? Math.min(1, groupModels) : groupModels;
+      give(optionWeaponNames(chosen), bearers);
+      if (fallback && fallback !== chosen) give(optionWeaponNames(fallback), groupModels - bearers);
+
+      const rowId = rowIds?.get(chosen.id);
+      for (const [subId, quantity] of rowId ? source.unitWargearSubSelections.get(rowId) ?? [] : []) {
+        const sub = source.wargearSubOptions.find(so => so.id === subId);
+        if (sub && quantity > 0) give([sub.name.toLowerCase()], quantity);
+      }
+    }
+    for (const option of groupOptions.filter(o => o.is_required && o !== chosen)) give(optionWeaponNames(option), groupModels);
+  }
+
+  return (lu.units.weapons ?? []).flatMap((weapon) => {
+    const name = weaponBaseName(weapon.name);
+    const covered = standardKit.get(name);
+    const standard = !offered.has(name) ? lu.model_count : covered != null ? Math.max(0, lu.model_count - covered) : 0;
+    const bearers = Math.min(lu.model_count, (carried.get(name) ?? 0) + standard);
+    return bearers > 0 ? [{ weapon, bearers }] : [];
+  });
+}
+
+// ============================================================
+// Firepower
+// ============================================================
+
+export type Phase = 'shooting' | 'melee';
+
+export interface UnitFirepower {
+  armyListUnitId: string;
+  name: string;
+  /** Expected wounds per reference target key */
+  shooting: Record<string, number>;
+  melee: Record<string, number>;
+}
+
+/** Best firing mode per weapon, as damage per model carrying it. */
+function perBearer(weapons: FieldedWeapon[], target: ReferenceTarget, halfRange: boolean) {
+  const byName = new Map<string, { bearers: number; damage: number; extraAttacks: boolean; pistol: boolean }>();
+  for (const { weapon, bearers } of weapons) {
+    const modifiers = parseWeaponKeywords(weapon.keywords);
+    const damage = expectedDamage({ ...weapon, count: 1 }, target.defender, { halfRange });
+    const name = weaponBaseName(weapon.name);
+    const current = byName.get(name);
+    if (!current || damage > current.damage) {
+      byName.set(name, {
+        bearers,
+        damage,
+        extraAttacks: findModifier(modifiers, 'extra_attacks') != null,
+        pistol: findModifier(modifiers, 'pistol') != null,
+      });
+    }
+  }
+  return [...byName.values()];
+}
+
+/**
+ * Shooting: every ranged weapon fires, but Pistols only when the unit has nothing else to
+ * shoot (or is a Vehicle or Monster). Melee: each model fights with its best weapon, plus
+ * any Extra Attacks weapons, filled from the strongest weapon down.
+ */
+function phaseDamage(lu: ArmyListUnitWithDetails, weapons: FieldedWeapon[], phase: Phase, target: ReferenceTarget, halfRange: boolean): number {
+  const entries = perBearer(weapons.filter(w => w.weapon.type === (phase === 'shooting' ? 'ranged' : 'melee')), target, halfRange);
+
+  if (phase === 'shooting') {
+    const bigModel = lu.units.keywords.some(k => ['vehicle', 'monster'].includes(k.toLowerCase()));
+    const onlyPistols = entries.every(e => e.pistol);
+    return entries
+      .filter(e => !e.pistol || onlyPistols || bigModel)
+      .reduce((sum, e) => sum + e.bearers * e.damage, 0);
+  }
+
+  let total = entries.filter(e => e.extraAttacks).reduce((sum, e) => sum + e.bearers * e.damage, 0);
+  let remaining = lu.model_count;
+  for (const entry of entries.filter(e => !e.extraAttacks).sort((a, b) => b.damage - a.damage)) {
+    const fighting = Math.min(entry.bearers, remaining);
+    total += fighting * entry.damage;
+    remaining -= fighting;
+  }
+  return total;
+}
+
+export function listFirepower(source: ListAnalysisSource, options: { halfRange?: boolean } = {}): UnitFirepower[] {
+  const halfRange = options.halfRange ?? false;
+  return source.listUnits.map((lu) => {
+    const weapons = fieldedWeapons(source, lu);
+    const byTarget = (phase: Phase) => Object.fromEntries(REFERENCE_TARGETS.map(t => [t.key, phaseDamage(lu, weapons, phase, t, halfRange)]));
+    return { armyListUnitId: lu.id, name: lu.units.name, shooting: byTarget('shooting'), melee: byTarget('melee') };
+  });
+}
+
+/** Whole-list expected wounds per phase and reference target. */
+export function totalFirepower(units: UnitFirepower[]): Record<Phase, Record<string, number>> {
+  const sum = (phase: Phase) => Object.fromEntries(REFERENCE_TARGETS.map(t =>
+    [t.key, units.reduce((total, u) => total + u[phase][t.key], 0)]));
+  return { shooting: sum('shooting'), melee: sum('melee') };
+}
+
+// ============================================================
+// Durability
+// ============================================================
+
+export const TOUGHNESS_BANDS = [
+  { label: 'T1–3', min: 1, max: 3 },
+  { label: 'T4', min: 4, max: 4 },
+  { label: 'T5–6', min: 5, max: 6 },
+  { label: 'T7–9', min: 7, max: 9 },
+  { label: 'T10–12', min: 10, max: 12 },
+  { label: 'T13+', min: 13, max: Infinity },
+];
+
+export const SAVE_COLUMNS = ['2+', '3+', '4+', '5+', '6+', '-'];
+
+export interface ListDurability {
+  totalWounds: number;
+  totalModels: number;
+  /** Wounds behind an invulnerable save */
+  invulnerableWounds: number;
+  /** Wounds per toughness band label, then per save column */
+  wounds: Record<string, Record<string, number>>;
+}
+
+export function listDurability(source: Pick<ListAnalysisSource, 'listUnits'>): ListDurability {
+  const wounds = Object.fromEntries(TOUGHNESS_BANDS.map(b => [b.label, Object.fromEntries(SAVE_COLUMNS.map(s => [s, 0]))]));
+  let totalWounds = 0;
+  let totalModels = 0;
+  let invulnerableWounds = 0;
+
+  for (const lu of source.listUnits) {
+    const unitWounds = lu.model_count * lu.units.wounds;
+    const band = TOUGHNESS_BANDS.find(b => lu.units.toughness >= b.min && lu.units.toughness <= b.max) ?? TOUGHNESS_BANDS[0];
+    const save = parseRoll(lu.units.save);
+    wounds[band.label][save != null && save <= 6 ? `${Math.max(save, 2)}+` : '-'] += unitWounds;
+    totalWounds += unitWounds;
+    totalModels += lu.model_count;
+    if (invulnerableSave(lu.units) != null) invulnerableWounds += unitWounds;
+  }
+
+  return { totalWounds, totalModels, invulnerableWounds, wounds };
+}
@@ -0,0 +1,165 @@
+import { describe, it, expect } from 'vitest';
+import { clampModelCount, planAutoFixes, previewCascade, type AutoFixState } from './listAutoFix';
+import { removeUnitCommand, updateModelCountCommand, type ListCommandContext } from './listCommands';
+import type { ArmyListUnitWithDetails, UnitWithRelations } from '../stores/listEditorStore';
+
+function mockUnit(id: string, name: string, role: string, tiers: [number, number][]): UnitWithRelations {
+  return {
+    id, name, role, max_per_list: 3, keywords: ['Infantry'], transport_capacity: null,
+    unit_points_tiers: tiers.map(([model_count, points]) => ({ id: `${id}-${model_count}`, unit_id: id, model_count, points, edition: '10e' })),
+  } as unknown as UnitWithRelations;
+}
+
+const captain = mockUnit('u-cap', 'Captain', 'character', [[1, 80]]);
+const intercessors = mockUnit('u-int', 'Intercessors', 'battleline', [[5, 80], [10, 160]]);
+const rhino = {
+  ...mockUnit('u-rhi', 'Rhino', 'dedicated_transport', [[1, 75]]),
+  keywords: ['Vehicle'], transport_capacity: 12, transport_keywords_allowed: ['Infantry'],
+} as UnitWithRelations;
+
+function entry(id: string, unit: UnitWithRelations, modelCount: number): ArmyListUnitWithDetails {
+  return { id, army_list_id: 'list-1', unit_id: unit.id, model_count: modelCount, sort_order: 0, units: unit } as ArmyListUnitWithDetails;
+}
+
+function mockState(overrides?: Partial<AutoFixState>): AutoFixState {
+  return {
+    listId: 'list-1',
+    list: { id: 'list-1', detachment_id: 'det-1', points_limit: 2000, detachments: { id: 'det-1' } } as AutoFixState['list'],
+    listUnits: [entry('alu-cap', captain, 1), entry('alu-int', intercessors, 5)],
+    listEnhancements: [],
+    enhancements: [{ id: 'enh-1', detachment_id: 'det-1', name: 'Artificer Armour', points: 10, description: '', edition: '10e' }],
+    unitWargearSelections: new Map(),
+    unitWargearRowIds: new Map(),
+    unitWargearSubSelections: new Map(),
+    unitCompositions: new Map(),
+    leaderTargets: [{ id: 'lt-1', leader_unit_id: 'u-cap', target_unit_id: 'u-int' }],
+    leaderAttachments: [],
+    transportEmbarks: [],
+    availableUnits: [captain, intercessors],
+    availableDetachments: [],
+    wargearOptions: [],
+    ...overrides,
+  };
+}
+
+describe('clampModelCount', () => {
+  it('snaps down to the highest tier reached, or up to the smallest', () => {
+    const tiers = [{ model_count: 5 }, { model_count: 10 }];
+    expect(clampModelCount(tiers, 7)).toBe(5);
+    expect(clampModelCount(tiers, 12)).toBe(10);
+    expect(clampModelCount(tiers, 3)).toBe(5);
+    expect(clampModelCount(tiers, 10)).toBe(10);
+    expect(clampModelCount([], 4)).toBe(4);
+  });
+});
+
+describe('planAutoFixes', () => {
+  it('returns nothing for a clean list', () => {
+    expect(planAutoFixes(mockState())).toEqual([]);
+  });
+
+  it('clamps unit sizes that are not a points tier', () => {
+    const [fix] = planAutoFixes(mockState({ listUnits: [entry('alu-int', intercessors, 7)] }));
+    expect(fix.label).toBe('Intercessors: 7 → 5 models');
+    expect(fix.forward).toEqual([
+      { type: 'update', table: 'army_list_units', match: { id: 'alu-int' }, values: { model_count: 5 } },
+    ]);
+    expect(fix.inverse[0]).toMatchObject({ values: { model_count: 7 } });
+  });
+
+  it('leaves units sized by their model variants alone', () => {
+    const state = mockState({
+      listUnits: [entry('alu-int', intercessors, 7)],
+      unitCompositions: new Map([['alu-int', new Map([['var-1', 7]])]]),
+    });
+    expect(planAutoFixes(state)).toEqual([]);
+  });
+
+  it('drops enhancements that are not in the current detachment', () => {
+    const [fix] = planAutoFixes(mockState({
+      listEnhancements: [{ id: 'le-1', enhancement_id: 'enh-old', army_list_unit_id: 'alu-cap' }],
+    }));
+    expect(fix.label).toBe("Removed Captain's enhancement from the previous detachment");
+    expect(fix.forward).toEqual([{ type: 'delete', table: 'army_list_enhancements', match: { id: 'le-1' } }]);
+  });
+
+  it('detaches leaders whose target is gone or cannot be led', () => {
+    const fixes = planAutoFixes(mockState({
+      listUnits: [entry('alu-cap', captain, 1), entry('alu-cap2', captain, 1)],
+      leaderAttachments: [
+        { id: 'la-1', army_list_id: 'list-1', leader_army_list_unit_id: 'alu-cap', target_army_list_unit_id: 'alu-gone' },
+        { id: 'la-2', army_list_id: 'list-1', leader_army_list_unit_id: 'alu-cap2', target_army_list_unit_id: 'alu-cap' },
+      ],
+    }));
+    expect(fixes.map(f => f.label)).toEqual([
+      'Detached Captain (its unit was removed)',
+      'Detached Captain (cannot lead Captain)',
+    ]);
+  });
+
+  it('disembarks passengers that no longer fit, last in first out', () => {
+    const fixes = planAutoFixes(mockState({
+      listUnits: [entry('alu-cap', captain, 1), entry('alu-int', intercessors, 10), entry('alu-int2', intercessors, 5), entry('alu-rhi', rhino, 1)],
+      availableUnits: [captain, intercessors, rhino],
+      transportEmbarks: [
+        { id: 'te-1', army_list_id: 'list-1', transport_army_list_unit_id: 'alu-rhi', passenger_army_list_unit_id: 'alu-int' },
+        { id: 'te-2', army_list_id: 'list-1', transport_army_list_unit_id: 'alu-rhi', passenger_army_list_unit_id: 'alu-cap' },
+        { id: 'te-3', army_list_id: 'list-1', transport_army_list_unit_id: 'alu-rhi', passenger_army_list_unit_id: 'alu-int2' },
+      ],
+    }));
+    expect(fixes.map(f => f.label)).toEqual(['Disembarked Intercessors (no longer fits in Rhino)']);
+  });
+});
+
+describe('previewCascade', () => {
+  it('is empty for a change with no knock-on effects', () => {
+    const state = mockState();
+    const command = updateModelCountCommand(state as ListCommandContext, 'alu-int', 10)!;
+    expect(previewCascade(state, command, { autoFix: true })).toEqual([]);
+  });
+
+  it('reports leaders and enhancements lost when their unit is removed', () => {
+    const state = mockState({
+      leaderAttachments: [
+        { id: 'la-1', army_list_id: 'list-1', leader_army_list_unit_id: 'alu-cap', target_army_list_unit_id: 'alu-int' },
+      ],
+    });
+    const command = removeUnitCommand(state as ListCommandContext, 'alu-int')!;
+    expect(previewCascade(state, command, { autoFix: false })).toEqual(['Captain will be detached from Intercessors']);
+  });
+
+  it('reports passengers disembarked when their transport is removed', () => {
+    const state = mockState({
+      listUnits: [entry('alu-int', intercessors, 5), entry('alu-rhi', rhino, 1)],
+      availableUnits: [captain, intercessors, rhino],
+      transportEmbarks: [
+        { id: 'te-1', army_list_id: 'list-1', transport_army_list_unit_id: 'alu-rhi', passenger_army_list_unit_id: 'alu-int' },
+      ],
+    });
+    const command = removeUnitCommand(state as ListCommandContext, 'alu-rhi')!;
+    expect(previewCascade(state, command, { autoFix: false })).toEqual(['Intercessors will disembark from Rhino']);
+  });
+
+  it('lists the fixes auto-fix would apply, or the problems it would leave', () => {
+    const state = mockState({
+      listEnhancements: [{ id: 'le-1', enhancement_id: 'enh-1', army_list_unit_id: 'alu-cap' }],
+    });
+    const command = { label: 'Change detachment', forward: [], inverse: [] };
+
+    expect(previewCascade(state, command, { autoFix: true, enhancements: [] })).toEqual([
+      "Auto-fix: Removed Captain's enhancement from the previous detachment",
+    ]);
+    expect(previewCascade(state, command, { autoFix: false, enhancements: [] })).toEqual([
+      'Captain has an enhancement from another detachment',
+    ]);
+  });
+
+  it('reports a new points overrun but not a bigger existing one', () => {
+    const state = mockState({ list: { ...mockState().list!, points_limit: 200 } });
+    const command = updateModelCountCommand(state as ListCommandContext, 'alu-int', 10)!;
+    expect(previewCascade(state, command, { autoFix: false })).toEqual(['Over limit by 40 points!']);
+
+    const alreadyOver = mockState({ list: { ...mockState().list!, points_limit: 100 } });
+    expect(previewCascade(alreadyOver, command, { autoFix: false })).toEqual([]);
+  });
+});
@@ -0,0 +1,175 @@
+/**
+ * Automatic repairs and cascade previews for list edits.
+ *
+ * `planAutoFixes` turns the fixable problems in a list into ordinary `ListCommand`s, so
+ * applying them goes through the same history (and offline queue) as a manual edit and a
+ * single undo reverts them. `previewCascade` dry-runs a command against the current state
+ * with `applyListOps` and reports what else it would change — used to warn before committing.
+ */
+
+import type { Enhancement } from '../../../shared/types/database';
+import { applyListOps, type ListOpsState } from './applyListOps';
+import {
+  assignEnhancementCommand, detachLeaderCommand, disembarkCommand, updateModelCountCommand,
+  type ListCommand, type ListCommandContext,
+} from './listCommands';
+import { validateList, type ListRulesInput, type ListViolation } from './listRules';
+import { buildAllUnitKeywords } from './enhancementEligibility';
+import { buildTransportLoads, embarkGroup } from './transportPlan';
+
+export type AutoFixState = ListOpsState & ListRulesInput & { listId: string | null };
+
+function toContext(state: AutoFixState): ListCommandContext | null {
+  if (!state.listId || !state.list) return null;
+  return { ...state, listId: state.listId, list: state.list };
+}
+
+/**
+ * The nearest legal unit size: the largest points tier not above `modelCount`, or the
+ * smallest tier when the unit is below all of them. Returns `modelCount` unchanged when
+ * the unit has no tiers.
+ */
+export function clampModelCount(tiers: { model_count: number }[], modelCount: number): number {
+  const sizes = [...new Set(tiers.map(t => t.model_count))].sort((a, b) => a - b);
+  if (sizes.length === 0 || sizes.includes(modelCount)) return modelCount;
+  return sizes.filter(size => size <= modelCount).at(-1) ?? sizes[0];
+}
+
+/** One command per fixable problem, labelled with what it fixes. */
+export function planAutoFixes(state: AutoFixState): ListCommand[] {
+  const ctx = toContext(state);
+  if (!ctx) return [];
+  const fixes: ListCommand[] = [];
+
+  // Unit sizes that aren't a points tier. Units with a model-variant composition are
+  // sized by their variants, so leave those alone.
+  for (const lu of state.listUnits) {
+    if (state.unitCompositions.get(lu.id)?.size) continue;
+    const clamped = clampModelCount(lu.units.unit_points_tiers, lu.model_count);
+    if (clamped === lu.model_count) continue;
+    const command = updateModelCountCommand(ctx, lu.id, clamped)!;
+    fixes.push({ ...command, label: `${lu.units.name}: ${lu.model_count} → ${clamped} models` });
+  }
+
+  const violations = validateList(state).violations;
+
+  // Enhancements left over from a previous detachment
+  for (const v of violations) {
+    if (v.code !== 'ENHANCEMENT_NOT_IN_DETACHMENT') continue;
+    const [armyListUnitId] = v.armyListUnitIds;
+    const name = state.listUnits.find(lu => lu.id === armyListUnitId)?.units.name ?? 'unit';
+    const command = assignEnhancementCommand(ctx, armyListUnitId, '', '');
+    fixes.push({ ...command, label: `Removed ${name}'s enhancement from the previous detachment` });
+  }
+
+  // Leaders whose target is gone or can no longer be led by them
+  const detached = new Set<string>();
+  const unitName = (id: string) => state.listUnits.find(lu => lu.id === id)?.units.name;
+  for (const la of state.leaderAttachments) {
+    const leaderName = unitName(la.leader_army_list_unit_id);
+    if (!leaderName || detached.has(la.leader_army_list_unit_id)) continue;
+    const targetName = unitName(la.target_army_list_unit_id);
+    const invalid = violations.some(v =>
+      v.code === 'LEADER_INVALID_TARGET'
+      && v.armyListUnitIds[0] === la.leader_army_list_unit_id
+      && v.armyListUnitIds[1] === la.target_army_list_unit_id,
+    );
+    if (targetName && !invalid) continue;
+
+    detached.add(la.leader_army_list_unit_id);
+    const command = detachLeaderCommand(ctx, la.leader_army_list_unit_id);
+    fixes.push({
+      ...command,
+      label: targetName
+        ? `Detached ${leaderName} (cannot lead ${targetName})`
+        : `Detached ${leaderName} (its unit was removed)`,
+    });
+  }
+
+  // Passengers that can't ride in their transport any more, then the last groups to embark
+  // in an overloaded one until it fits
+  const allUnitKeywords = buildAllUnitKeywords(state.availableUnits);
+  for (const load of buildTransportLoads(state, allUnitKeywords)) {
+    const transportName = load.transport.units.name;
+    for (const p of load.passengers.filter(p => p.blocker)) {
+      const command = disembarkCommand(ctx, [p.armyListUnitId]);
+      fixes.push({ ...command, label: `Disembarked ${p.name} (cannot ride in ${transportName})` });
+    }
+
+    const aboard = load.passengers.filter(p => !p.blocker);
+    let used = aboard.reduce((sum, p) => sum + p.slots, 0);
+    while (used > load.capacity && aboard.length > 0) {
+      const group = new Set(embarkGroup(state, aboard.at(-1)!.armyListUnitId));
+      const leaving = aboard.filter(p => group.has(p.armyListUnitId));
+      if (leaving.length === 0) leaving.push(aboard.at(-1)!);
+      for (const p of leaving) aboard.splice(aboard.indexOf(p), 1);
+      used -= leaving.reduce((sum, p) => sum + p.slots, 0);
+
+      const command = disembarkCommand(ctx, leaving.map(p => p.armyListUnitId));
+      fixes.push({
+        ...command,
+        label: `Disembarked ${leaving.map(p => p.name).join(' + ')} (no longer fits in ${transportName})`,
+      });
+    }
+  }
+
+  return fixes;
+}
+
+export interface CascadeOptions {
+  /** Include the fixes auto-fix would apply afterwards */
+  autoFix: boolean;
+  /** Enhancement catalog after the change — differs when the detachment changes */
+  enhancements?: Enhancement[];
+}
+
+/**
+ * Describes what `command` would change beyond its own target: leaders detached,
+ * enhancements lost and passengers disembarked through cascades, auto-fixes that would
+ * follow, and any new validation problems. Empty when the change has no knock-on effects.
+ */
+export function previewCascade(state: AutoFixState, command: ListCommand, options: CascadeOptions): string[] {
+  const effects: string[] = [];
+  const nameOf = (id: string) => state.listUnits.find(lu => lu.id === id)?.units.name ?? 'unit';
+
+  let after: AutoFixState = {
+    ...state,
+    ...applyListOps(state, command.forward),
+    enhancements: options.enhancements ?? state.enhancements,
+  };
+  const remaining = new Set(after.listUnits.map(lu => lu.id));
+
+  for (const la of state.leaderAttachments) {
+    const stillAttached = after.leaderAttachments.some(a => a.id === la.id);
+    if (stillAttached || !remaining.has(la.leader_army_list_unit_id)) continue;
+    effects.push(`${nameOf(la.leader_army_list_unit_id)} will be detached from ${nameOf(la.target_army_list_unit_id)}`);
+  }
+  for (const le of state.listEnhancements) {
+    const kept = after.listEnhancements.some(e => e.id === le.id);
+    if (kept || !remaining.has(le.army_list_unit_id)) continue;
+    const name = state.enhancements.find(e => e.id === le.enhancement_id)?.name ?? 'Its enhancement';
+    effects.push(`${name} will be removed from ${nameOf(le.army_list_unit_id)}`);
+  }
+  for (const te of state.transportEmbarks) {
+    const stillEmbarked = after.transportEmbarks.some(e => e.id === te.id);
+    if (stillEmbarked || !remaining.has(te.passenger_army_list_unit_id)) continue;
+    effects.push(`${nameOf(te.passenger_army_list_unit_id)} will disembark from ${nameOf(te.transport_army_list_unit_id)}`);
+  }
+
+  if (options.autoFix) {
+    const fixes = planAutoFixes(after);
+    const alreadyFixable = new Set(planAutoFixes(state).map(f => f.label));
+    effects.push(...fixes.filter(f => !alreadyFixable.has(f.label)).map(f => `Auto-fix: ${f.label}`));
+    after = { ...after, ...applyListOps(after, fixes.flatMap(f => f.forward)) };
+  }
+
+  // Match on what a violation is about rather than its wording — "Over limit by 20 points"
+  // becoming "Over limit by 40 points" isn't a new problem
+  const key = (v: ListViolation) => `${v.code}:${v.enhancementId ?? v.unitId ?? v.armyListUnitIds[0] ?? ''}`;
+  const existing = new Set(validateList(state).violations.map(key));
+  for (const v of validateList(after).violations) {
+    if (!existing.has(key(v))) effects.push(v.message);
+  }
+
+  return effects;
+}
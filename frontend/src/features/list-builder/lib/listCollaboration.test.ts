@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import type { ListOp } from './listCommands';
+import {
+  compareStamps, conflictKeys, parseRemoteListEdit, resolveRemoteEdit, presenceInitials,
+  type LocalListEdit, type RemoteListEdit,
+} from './listCollaboration';
+
+const modelCount = (unitId: string, count: number): ListOp => ({
+  type: 'update', table: 'army_list_units', match: { id: unitId }, values: { model_count: count },
+});
+
+function local(clock: number, ops: ListOp[]): LocalListEdit {
+  return { stamp: { clock, clientId: 'me' }, keys: conflictKeys(ops, new Map()) };
+}
+
+function remote(clock: number, clientId: string, seenOfMine: number, ops: ListOp[]): RemoteListEdit {
+  return { stamp: { clock, clientId }, seen: { me: seenOfMine }, label: 'Edit', ops };
+}
+
+describe('compareStamps', () => {
+  it('orders by clock, then client id', () => {
+    expect(compareStamps({ clock: 2, clientId: 'a' }, { clock: 1, clientId: 'z' })).toBeGreaterThan(0);
+    expect(compareStamps({ clock: 1, clientId: 'a' }, { clock: 1, clientId: 'b' })).toBeLessThan(0);
+  });
+});
+
+describe('conflictKeys', () => {
+  it('keys unit-row updates per column and child rows per table', () => {
+    const keys = conflictKeys([
+      modelCount('alu-1', 10),
+      { type: 'insert', table: 'army_list_unit_wargear', values: { id: 'w-1', army_list_unit_id: 'alu-1' } },
+      { type: 'insert', table: 'army_list_unit_wargear_sub', values: { army_list_unit_wargear_id: 'w-1' } },
+      { type: 'update', table: 'army_lists', match: { id: 'l1' }, values: { name: 'New' } },
+    ], new Map());
+    expect(keys).toEqual([
+      'alu-1/army_list_units.model_count',
+      'alu-1/army_list_unit_wargear',
+      'alu-1/army_list_unit_wargear_sub',
+      'list/name',
+    ]);
+  });
+
+  it('keys leader attachments to both units', () => {
+    const keys = conflictKeys([{
+      type: 'insert', table: 'army_list_leader_attachments',
+      values: { leader_army_list_unit_id: 'alu-cap', target_army_list_unit_id: 'alu-int' },
+    }], new Map());
+    expect(keys).toEqual(['alu-cap/army_list_leader_attachments', 'alu-int/army_list_leader_attachments']);
+  });
+});
+
+describe('resolveRemoteEdit', () => {
+  const mine = local(3, [modelCount('alu-1', 10)]);
+
+  it('applies edits that touch something else', () => {
+    const edit = remote(4, 'them', 0, [modelCount('alu-2', 10)]);
+    expect(resolveRemoteEdit([mine], 'me', edit, conflictKeys(edit.ops, new Map())).type).toBe('apply');
+  });
+
+  it('applies edits made after seeing ours', () => {
+    const edit = remote(4, 'them', 3, [modelCount('alu-1', 8)]);
+    expect(resolveRemoteEdit([mine], 'me', edit, conflictKeys(edit.ops, new Map())).type).toBe('apply');
+  });
+
+  it('ignores a concurrent edit with a lower stamp', () => {
+    const edit = remote(2, 'them', 0, [modelCount('alu-1', 8)]);
+    expect(resolveRemoteEdit([mine], 'me', edit, conflictKeys(edit.ops, new Map())).type).toBe('ignore');
+  });
+
+  it('gives up ours to a concurrent edit with a higher stamp', () => {
+    const edit = remote(3, 'zed', 0, [modelCount('alu-1', 8)]);
+    const resolution = resolveRemoteEdit([mine], 'me', edit, conflictKeys(edit.ops, new Map()));
+    expect(resolution).toEqual({ type: 'override', lost: [mine] });
+  });
+
+  it('treats removing a unit as touching everything on it', () => {
+    const removal = remote(5, 'them', 0, [{ type: 'delete', table: 'army_list_units', match: { id: 'alu-1' } }]);
+    const resolution = resolveRemoteEdit([mine], 'me', removal, conflictKeys(removal.ops, new Map()));
+    expect(resolution.type).toBe('override');
+  });
+});
+
+describe('parseRemoteListEdit', () => {
+  it('accepts a well-formed edit', () => {
+    const edit = remote(3, 'them', 1, [modelCount('alu-1', 8), { type: 'delete', table: 'army_list_enhancements', match: { id: 'le-1' } }]);
+    expect(parseRemoteListEdit(JSON.parse(JSON.stringify(edit)))).toEqual(edit);
+  });
+
+  it('rejects payloads that are not edits or touch other tables', () => {
+    expect(parseRemoteListEdit(null)).toBeNull();
+    expect(parseRemoteListEdit({ stamp: { clock: 1, clientId: 'them' }, seen: {}, label: 'Edit' })).toBeNull();
+    expect(parseRemoteListEdit(remote(0, 'them', 0, []))).toBeNull();
+    expect(parseRemoteListEdit(remote(2, 'them', 0, [
+      { type: 'update', table: 'user_profiles', match: { id: 'u-1' }, values: { display_name: 'x' } } as unknown as ListOp,
+    ]))).toBeNull();
+    expect(parseRemoteListEdit(remote(2, 'them', 0, [
+      { type: 'delete', table: 'army_list_units', match: { id: 1 } } as unknown as ListOp,
+    ]))).toBeNull();
+  });
+});
+
+describe('presenceInitials', () => {
+  it('takes first and last initials, or the first two letters of one word', () => {
+    expect(presenceInitials('Ada Byron Lovelace')).toBe('AL');
+    expect(presenceInitials('gregor')).toBe('GR');
+    expect(presenceInitials('  ')).toBe('?');
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * Live co-editing of a list.
+ *
+ * Every editor with the list open joins the list's private Realtime channel and broadcasts
+ * each edit it saves as the command's DB operations, stamped with a Lamport clock and the
+ * stamps it has already seen from each other editor. Receivers replay the operations on their
+ * own state only — the sender has already written them — so nobody re-fetches for ordinary
+ * edits.
+ *
+ * Two edits are concurrent when neither editor had seen the other's when making theirs. If
+ * concurrent edits touch the same part of the same unit (or the same list setting), the
+ * database keeps whichever write landed last, so both sides fall back to it: the editor with
+ * the higher stamp ignores the other's broadcast, and the other drops its edit, re-fetches
+ * and asks everyone else to re-fetch. Stamps order by clock, then by client id, so exactly
+ * one side re-fetches without the editors talking to each other.
+ */
+
+import type { ListOp, ListTable } from './listCommands';
+
+export type ListAccessRole = 'owner' | 'editor' | 'viewer';
+
+export interface EditStamp {
+  clock: number;
+  clientId: string;
+}
+
+/** What goes over the wire for each saved edit. */
+export interface RemoteListEdit {
+  stamp: EditStamp;
+  /** Highest clock the sender had applied from each client when it made the edit */
+  seen: Record<string, number>;
+  label: string;
+  ops: ListOp[];
+}
+
+/** An edit this client made, kept until it can no longer be concurrent with anything. */
+export interface LocalListEdit {
+  stamp: EditStamp;
+  keys: string[];
+}
+
+/** Another editor with the list open. */
+export interface ListPresence {
+  userId: string;
+  displayName: string;
+  selectedArmyListUnitId: string | null;
+}
+
+export type RemoteEditResolution =
+  | { type: 'apply' }
+  | { type: 'ignore' }
+  | { type: 'override'; lost: LocalListEdit[] };
+
+/** Later clock wins; equal clocks fall back to the client id so the order is total. */
+export function compareStamps(a: EditStamp, b: EditStamp): number {
+  if (a.clock !== b.clock) return a.clock - b.clock;
+  return a.clientId < b.clientId ? -1 : a.clientId > b.clientId ? 1 : 0;
+}
+
+const UNIT_COLUMNS = [
+  'army_list_unit_id', 'leader_army_list_unit_id', 'target_army_list_unit_id',
+  'transport_army_list_unit_id', 'passenger_army_list_unit_id',
+];
+
+/**
+ * What an edit touches, as "<unit id>/<table>" keys ("list/<column>" for list settings).
+ * Unit-row updates are keyed per column so a reorder doesn't collide with a model count
+ * change; adding or removing a unit yields "<unit id>/*", which overlaps every key for it.
+ */
+export function conflictKeys(ops: ListOp[], unitWargearRowIds: Map<string, Map<string, string>>): string[] {
+  const wargearRowUnit = new Map<string, string>();
+  for (const [unitId, rows] of unitWargearRowIds) {
+    for (const rowId of rows.values()) wargearRowUnit.set(rowId, unitId);
+  }
+  for (const op of ops) {
+    if (op.type === 'insert' && op.table === 'army_list_unit_wargear') {
+      wargearRowUnit.set(op.values.id as string, op.values.army_list_unit_id as string);
+    }
+  }
+
+  const keys = new Set<string>();
+  for (const op of ops) {
+    const fields: Record<string, unknown> = { ...('values' in op ? op.values : {}), ...('match' in op ? op.match : {}) };
+    if (op.table === 'army_lists') {
+      for (const column of Object.keys(op.type === 'update' ? op.values : {})) keys.add(`list/${column}`);
+    } else if (op.table === 'army_list_units') {
+      const unitId = fields.id as string;
+      if (op.type === 'update') {
+        for (const column of Object.keys(op.values)) keys.add(`${unitId}/army_list_units.${column}`);
+      } else {
+        keys.add(`${unitId}/*`);
+      }
+    } else {
+      const unitIds = UNIT_COLUMNS.map(c => fields[c] as string | undefined);
+      if (op.table === 'army_list_unit_wargear_sub') {
+        unitIds.push(wargearRowUnit.get(fields.army_list_unit_wargear_id as string));
+      }
+      for (const unitId of unitIds) if (unitId) keys.add(`${unitId}/${op.table}`);
+    }
+  }
+  return [...keys];
+}
+
+function keysOverlap(a: string[], b: string[]): boolean {
+  return a.some(x => b.some(y => (
+    x === y
+    || (x.endsWith('/*') && y.startsWith(x.slice(0, -1)))
+    || (y.endsWith('/*') && x.startsWith(y.slice(0, -1)))
+  )));
+}
+
+/**
+ * Decides what to do with a remote edit given this client's recent edits.
+ *
+ * - apply: nothing of ours conflicts; replay it.
+ * - ignore: one of our concurrent edits beats it; its sender will roll it back.
+ * - override: it beats our concurrent edits, which are `lost`; re-fetch to see what stuck.
+ */
+export function resolveRemoteEdit(
+  localEdits: LocalListEdit[],
+  clientId: string,
+  remote: RemoteListEdit,
+  remoteKeys: string[],
+): RemoteEditResolution {
+  const seenOfOurs = remote.seen[clientId] ?? 0;
+  const conflicting = localEdits.filter(e => e.stamp.clock > seenOfOurs && keysOverlap(e.keys, remoteKeys));
+  if (conflicting.length === 0) return { type: 'apply' };
+  if (conflicting.some(e => compareStamps(e.stamp, remote.stamp) > 0)) return { type: 'ignore' };
+
+  return { type: 'override', lost: conflicting };
+}
+
+const LIST_TABLES = new Set<string>([
+  'army_lists', 'army_list_units', 'army_list_enhancements', 'army_list_unit_wargear', 'army_list_unit_wargear_sub',
+  'army_list_unit_composition', 'army_list_leader_attachments', 'army_list_transport_embarks',
+] satisfies ListTable[]);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function isListOp(value: unknown): value is ListOp {
+  if (!isRecord(value) || typeof value.table !== 'string' || !LIST_TABLES.has(value.table)) return false;
+  const match = isRecord(value.match) && Object.values(value.match).every(v => typeof v === 'string');
+  switch (value.type) {
+    case 'insert': return isRecord(value.values);
+    case 'upsert': return isRecord(value.values) && typeof value.onConflict === 'string';
+    case 'update': return match && isRecord(value.values);
+    case 'delete': return match;
+    default: return false;
+  }
+}
+
+/** A broadcast payload as an edit, or null when it doesn't have the shape of one. */
+export function parseRemoteListEdit(payload: unknown): RemoteListEdit | null {
+  if (!isRecord(payload) || !isRecord(payload.stamp) || !isRecord(payload.seen)) return null;
+  const { stamp, seen, label, ops } = payload;
+  if (!Number.isInteger(stamp.clock) || (stamp.clock as number) < 1 || typeof stamp.clientId !== 'string') return null;
+  if (!Object.values(seen).every(clock => Number.isInteger(clock))) return null;
+  if (typeof label !== 'string' || !Array.isArray(ops) || !ops.every(isListOp)) return null;
+  return { stamp: { clock: stamp.clock as number, clientId: stamp.clientId }, seen: seen as Record<string, number>, label, ops };
+}
+
+/** A stable hue per editor, so their avatar and their roster highlight share a colour. */
+export function presenceHue(userId: string): number {
+  let hash = 0;
+  for (let i = 0; i < userId.length; i++) hash = (hash * 31 + userId.charCodeAt(i)) % 360;
+  return hash;
+}
+
+export function presenceInitials(displayName: string): string {
+  const words = displayName.trim().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return '?';
+  return (words.length === 1 ? words[0].slice(0, 2) : words[0][0] + words[words.length - 1][0]).toUpperCase();
+}
@@ -0,0 +1,282 @@
+import { describe, it, expect } from 'vitest';
+import {
+  addUnitCommand,
+  removeUnitCommand,
+  updateModelCountCommand,
+  changeDetachmentCommand,
+  pinPointsDatasetCommand,
+  assignEnhancementCommand,
+  selectWargearCommand,
+  selectWargearSubOptionCommand,
+  updateCompositionCommand,
+  attachLeaderCommand,
+  detachLeaderCommand,
+  embarkCommand,
+  disembarkCommand,
+  combineCommands,
+  type ListCommandContext,
+} from './listCommands';
+
+function mockContext(overrides?: Partial<ListCommandContext>): ListCommandContext {
+  return {
+    listId: 'list-1',
+    list: { id: 'list-1', detachment_id: 'det-1' } as ListCommandContext['list'],
+    listUnits: [
+      { id: 'alu-cap', army_list_id: 'list-1', unit_id: 'u-cap', model_count: 1, sort_order: 0, units: { name: 'Captain' } },
+      { id: 'alu-int', army_list_id: 'list-1', unit_id: 'u-int', model_count: 5, sort_order: 1, units: { name: 'Intercessors' } },
+    ],
+    listEnhancements: [],
+    unitWargearSelections: new Map(),
+    unitWargearRowIds: new Map(),
+    unitWargearSubSelections: new Map(),
+    unitCompositions: new Map(),
+    leaderAttachments: [],
+    transportEmbarks: [],
+    ...overrides,
+  };
+}
+
+describe('addUnitCommand', () => {
+  it('inserts with a pre-generated id so redo recreates the same row', () => {
+    const cmd = addUnitCommand(mockContext(), { id: 'u-erad', name: 'Eradicators' }, 3, 'alu-new');
+
+    expect(cmd.label).toBe('Add Eradicators');
+    expect(cmd.forward).toEqual([{
+      type: 'insert',
+      table: 'army_list_units',
+      values: { id: 'alu-new', army_list_id: 'list-1', unit_id: 'u-erad', model_count: 3, sort_order: 2 },
+    }]);
+    expect(cmd.inverse).toEqual([{ type: 'delete', table: 'army_list_units', match: { id: 'alu-new' } }]);
+  });
+});
+
+describe('removeUnitCommand', () => {
+  it('returns null for an unknown unit', () => {
+    expect(removeUnitCommand(mockContext(), 'missing')).toBeNull();
+  });
+
+  it('restores every cascaded row on undo', () => {
+    const ctx = mockContext({
+      listEnhancements: [{ id: 'le-1', enhancement_id: 'enh-1', army_list_unit_id: 'alu-cap' }],
+      unitWargearSelections: new Map([['alu-cap', new Map([['Weapon', 'opt-1']])]]),
+      unitWargearRowIds: new Map([['alu-cap', new Map([['opt-1', 'row-1']])]]),
+      unitWargearSubSelections: new Map([['row-1', new Map([['sub-1', 2]])]]),
+      unitCompositions: new Map([['alu-cap', new Map([['var-1', 1]])]]),
+      leaderAttachments: [
+        { id: 'la-1', army_list_id: 'list-1', leader_army_list_unit_id: 'alu-cap', target_army_list_unit_id: 'alu-int' },
+      ],
+    });
+
+    const cmd = removeUnitCommand(ctx, 'alu-cap')!;
+    expect(cmd.forward).toEqual([{ type: 'delete', table: 'army_list_units', match: { id: 'alu-cap' } }]);
+
+    const tables = cmd.inverse.map(op => op.table);
+    expect(tables).toEqual([
+      'army_list_units',
+      'army_list_unit_wargear',
+      'army_list_unit_wargear_sub',
+      'army_list_unit_composition',
+      'army_list_enhancements',
+      'army_list_leader_attachments',
+    ]);
+    // The parent row must come back with its original id before any children
+    expect(cmd.inverse[0]).toMatchObject({ type: 'insert', values: { id: 'alu-cap', model_count: 1, sort_order: 0 } });
+    expect(cmd.inverse[1]).toMatchObject({ values: { id: 'row-1', wargear_option_id: 'opt-1' } });
+    expect(cmd.inverse[5]).toMatchObject({ values: { id: 'la-1', target_army_list_unit_id: 'alu-int' } });
+  });
+});
+
+describe('updateModelCountCommand', () => {
+  it('inverts to the previous model count', () => {
+    const cmd = updateModelCountCommand(mockContext(), 'alu-int', 10)!;
+    expect(cmd.forward[0]).toMatchObject({ type: 'update', values: { model_count: 10 } });
+    expect(cmd.inverse[0]).toMatchObject({ type: 'update', values: { model_count: 5 } });
+  });
+});
+
+describe('changeDetachmentCommand', () => {
+  it('clears the old detachment\'s enhancements and restores them on undo', () => {
+    const ctx = mockContext({
+      listEnhancements: [{ id: 'le-1', enhancement_id: 'enh-1', army_list_unit_id: 'alu-cap' }],
+    });
+    const cmd = changeDetachmentCommand(ctx, 'det-2', 'Ironstorm');
+
+    expect(cmd.label).toBe('Change detachment to Ironstorm');
+    expect(cmd.forward).toEqual([
+      { type: 'update', table: 'army_lists', match: { id: 'list-1' }, values: { detachment_id: 'det-2' } },
+      { type: 'delete', table: 'army_list_enhancements', match: { army_list_id: 'list-1' } },
+    ]);
+    expect(cmd.inverse).toEqual([
+      { type: 'update', table: 'army_lists', match: { id: 'list-1' }, values: { detachment_id: 'det-1' } },
+      {
+        type: 'insert',
+        table: 'army_list_enhancements',
+        values: { id: 'le-1', army_list_id: 'list-1', enhancement_id: 'enh-1', army_list_unit_id: 'alu-cap' },
+      },
+    ]);
+  });
+});
+
+describe('pinPointsDatasetCommand', () => {
+  it('pins a dataset and restores the previous pin on undo', () => {
+    const ctx = mockContext({
+      list: { id: 'list-1', detachment_id: 'det-1', points_dataset_id: 'ds-1' } as ListCommandContext['list'],
+    });
+    const cmd = pinPointsDatasetCommand(ctx, 'ds-2', 'MFM v3.2');
+
+    expect(cmd.label).toBe('Pin points to MFM v3.2');
+    expect(cmd.forward).toEqual([
+      { type: 'update', table: 'army_lists', match: { id: 'list-1' }, values: { points_dataset_id: 'ds-2' } },
+    ]);
+    expect(cmd.inverse).toEqual([
+      { type: 'update', table: 'army_lists', match: { id: 'list-1' }, values: { points_dataset_id: 'ds-1' } },
+    ]);
+    expect(pinPointsDatasetCommand(ctx, null, '').label).toBe('Follow the latest points');
+  });
+});
+
+describe('assignEnhancementCommand', () => {
+  it('swaps an existing enhancement and swaps it back on undo', () => {
+    const ctx = mockContext({
+      listEnhancements: [{ id: 'le-1', enhancement_id: 'enh-1', army_list_unit_id: 'alu-cap' }],
+    });
+    const cmd = assignEnhancementCommand(ctx, 'alu-cap', 'enh-2', 'le-new');
+
+    expect(cmd.forward.map(op => op.type)).toEqual(['delete', 'insert']);
+    expect(cmd.inverse).toEqual([
+      { type: 'delete', table: 'army_list_enhancements', match: { id: 'le-new' } },
+      {
+        type: 'insert',
+        table: 'army_list_enhancements',
+        values: { id: 'le-1', army_list_id: 'list-1', enhancement_id: 'enh-1', army_list_unit_id: 'alu-cap' },
+      },
+    ]);
+  });
+
+  it('clears without inserting when the enhancement id is empty', () => {
+    const ctx = mockContext({
+      listEnhancements: [{ id: 'le-1', enhancement_id: 'enh-1', army_list_unit_id: 'alu-cap' }],
+    });
+    const cmd = assignEnhancementCommand(ctx, 'alu-cap', '', 'le-new');
+
+    expect(cmd.label).toBe('Remove enhancement from Captain');
+    expect(cmd.forward).toHaveLength(1);
+    expect(cmd.inverse).toHaveLength(1);
+  });
+});
+
+describe('selectWargearCommand', () => {
+  it('restores the previous option and its sub-option rows on undo', () => {
+    const ctx = mockContext({
+      unitWargearSelections: new Map([['alu-int', new Map([['Pistol', 'opt-a']])]]),
+      unitWargearRowIds: new Map([['alu-int', new Map([['opt-a', 'row-a']])]]),
+      unitWargearSubSelections: new Map([['row-a', new Map([['sub-1', 1]])]]),
+    });
+    const cmd = selectWargearCommand(ctx, 'alu-int', 'Pistol', 'opt-b', 'row-b');
+
+    expect(cmd.forward).toEqual([
+      { type: 'delete', table: 'army_list_unit_wargear', match: { army_list_unit_id: 'alu-int', wargear_option_id: 'opt-a' } },
+      { type: 'insert', table: 'army_list_unit_wargear', values: { id: 'row-b', army_list_unit_id: 'alu-int', wargear_option_id: 'opt-b' } },
+    ]);
+    expect(cmd.inverse.map(op => op.table)).toEqual([
+      'army_list_unit_wargear',
+      'army_list_unit_wargear',
+      'army_list_unit_wargear_sub',
+    ]);
+  });
+});
+
+describe('selectWargearSubOptionCommand', () => {
+  it('deletes on undo when the sub-option was previously unset', () => {
+    const cmd = selectWargearSubOptionCommand(mockContext(), 'row-a', 'sub-1', 2);
+    expect(cmd.forward[0].type).toBe('upsert');
+    expect(cmd.inverse[0].type).toBe('delete');
+  });
+});
+
+describe('updateCompositionCommand', () => {
+  it('restores the previous variant count and unit size', () => {
+    const ctx = mockContext({ unitCompositions: new Map([['alu-int', new Map([['var-1', 4]])]]) });
+    const cmd = updateCompositionCommand(ctx, 'alu-int', 'var-1', 9, 10);
+
+    expect(cmd.forward).toHaveLength(2);
+    expect(cmd.inverse[0]).toMatchObject({ type: 'upsert', values: { count: 4 } });
+    expect(cmd.inverse[1]).toMatchObject({ type: 'update', values: { model_count: 5 } });
+  });
+
+  it('leaves model_count alone when no total is supplied', () => {
+    const cmd = updateCompositionCommand(mockContext(), 'alu-int', 'var-1', 0, 0);
+    expect(cmd.forward).toHaveLength(1);
+    expect(cmd.forward[0].type).toBe('delete');
+  });
+});
+
+describe('leader commands', () => {
+  const ctx = mockContext({
+    leaderAttachments: [
+      { id: 'la-1', army_list_id: 'list-1', leader_army_list_unit_id: 'alu-cap', target_army_list_unit_id: 'alu-old' },
+    ],
+  });
+
+  it('attach re-creates the previous attachment on undo', () => {
+    const cmd = attachLeaderCommand(ctx, 'alu-cap', 'alu-int', 'la-new');
+    expect(cmd.label).toBe('Attach Captain to Intercessors');
+    expect(cmd.inverse).toEqual([
+      { type: 'delete', table: 'army_list_leader_attachments', match: { id: 'la-new' } },
+      expect.objectContaining({ type: 'insert', values: expect.objectContaining({ id: 'la-1', target_army_list_unit_id: 'alu-old' }) }),
+    ]);
+  });
+
+  it('detach re-creates the attachment on undo', () => {
+    const cmd = detachLeaderCommand(ctx, 'alu-cap');
+    expect(cmd.inverse).toHaveLength(1);
+    expect(cmd.inverse[0]).toMatchObject({ type: 'insert', values: { id: 'la-1' } });
+  });
+});
+
+describe('embark commands', () => {
+  const ctx = mockContext({
+    listUnits: [
+      ...mockContext().listUnits,
+      { id: 'alu-rhi', army_list_id: 'list-1', unit_id: 'u-rhi', model_count: 1, sort_order: 2, units: { name: 'Rhino' } },
+      { id: 'alu-imp', army_list_id: 'list-1', unit_id: 'u-imp', model_count: 1, sort_order: 3, units: { name: 'Impulsor' } },
+    ],
+    transportEmbarks: [
+      { id: 'te-1', army_list_id: 'list-1', transport_army_list_unit_id: 'alu-imp', passenger_army_list_unit_id: 'alu-int' },
+    ],
+  });
+
+  it('embark moves passengers out of their old transport and back on undo', () => {
+    let n = 0;
+    const cmd = embarkCommand(ctx, 'alu-rhi', ['alu-int', 'alu-cap'], () => `te-new-${++n}`);
+    expect(cmd.label).toBe('Embark Intercessors + Captain in Rhino');
+    expect(cmd.forward.map(op => op.type)).toEqual(['delete', 'delete', 'insert', 'insert']);
+    expect(cmd.inverse).toEqual([
+      { type: 'delete', table: 'army_list_transport_embarks', match: { id: 'te-new-1' } },
+      { type: 'delete', table: 'army_list_transport_embarks', match: { id: 'te-new-2' } },
+      expect.objectContaining({ type: 'insert', values: expect.objectContaining({ id: 'te-1', transport_army_list_unit_id: 'alu-imp' }) }),
+    ]);
+  });
+
+  it('disembark re-creates the embark rows on undo', () => {
+    const cmd = disembarkCommand(ctx, ['alu-int']);
+    expect(cmd.label).toBe('Disembark Intercessors');
+    expect(cmd.inverse).toEqual([expect.objectContaining({ type: 'insert', values: expect.objectContaining({ id: 'te-1' }) })]);
+  });
+
+  it('remove restores embarks the unit was part of', () => {
+    const cmd = removeUnitCommand(ctx, 'alu-imp')!;
+    expect(cmd.inverse.filter(op => op.table === 'army_list_transport_embarks')).toHaveLength(1);
+  });
+});
+
+describe('combineCommands', () => {
+  it('runs forwards in order and inverses in reverse', () => {
+    const a = updateModelCountCommand(mockContext(), 'alu-int', 10)!;
+    const b = detachLeaderCommand(mockContext(), 'alu-cap');
+    const combined = combineCommands('Auto-fix', [a, b]);
+
+    expect(combined.forward).toEqual([...a.forward, ...b.forward]);
+    expect(combined.inverse).toEqual([...b.inverse, ...a.inverse]);
+  });
+});
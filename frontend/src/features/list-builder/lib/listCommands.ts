@@ -0,0 +1,478 @@
+/**
+ * Command objects for list-editor mutations.
+ *
+ * Every undoable edit is described as a pair of DB operation sequences: `forward` performs
+ * the edit, `inverse` puts the rows back exactly as they were. Operations are plain data
+ * (table + values/match), so the same command can be replayed for redo without re-reading
+ * state. Rows that get recreated on undo keep their original IDs, which keeps later
+ * commands on the stack pointing at valid rows.
+ *
+ * Builders here are pure — they read the editor state passed in and never touch Supabase.
+ */
+
+import type { ArmyList, ArmyListUnit, LeaderAttachment, TransportEmbark } from '../../../shared/types/database';
+
+export type ListTable =
+  | 'army_lists'
+  | 'army_list_units'
+  | 'army_list_enhancements'
+  | 'army_list_unit_wargear'
+  | 'army_list_unit_wargear_sub'
+  | 'army_list_unit_composition'
+  | 'army_list_leader_attachments'
+  | 'army_list_transport_embarks';
+
+export type ListOp =
+  | { type: 'insert'; table: ListTable; values: Record<string, unknown> }
+  | { type: 'update'; table: ListTable; match: Record<string, string>; values: Record<string, unknown> }
+  | { type: 'delete'; table: ListTable; match: Record<string, string> }
+  | { type: 'upsert'; table: ListTable; values: Record<string, unknown>; onConflict: string };
+
+export interface ListCommand {
+  /** Short human-readable description, e.g. "Add Intercessors" */
+  label: string;
+  forward: ListOp[];
+  inverse: ListOp[];
+}
+
+/** The slice of editor state the builders need to capture "before" values. */
+export interface ListCommandContext {
+  listId: string;
+  list: ArmyList;
+  listUnits: (ArmyListUnit & { units?: { name: string } })[];
+  listEnhancements: { id: string; enhancement_id: string; army_list_unit_id: string }[];
+  unitWargearSelections: Map<string, Map<string, string>>;
+  unitWargearRowIds: Map<string, Map<string, string>>;
+  unitWargearSubSelections: Map<string, Map<string, number>>;
+  unitCompositions: Map<string, Map<string, number>>;
+  leaderAttachments: LeaderAttachment[];
+  transportEmbarks: TransportEmbark[];
+}
+
+const WARGEAR_SUB_CONFLICT = 'army_list_unit_wargear_id,wargear_sub_option_id';
+const COMPOSITION_CONFLICT = 'army_list_unit_id,model_variant_id';
+
+function unitName(ctx: ListCommandContext, armyListUnitId: string): string {
+  return ctx.listUnits.find(lu => lu.id === armyListUnitId)?.units?.name ?? 'unit';
+}
+
+function enhancementInsert(le: ListCommandContext['listEnhancements'][number], listId: string): ListOp {
+  return {
+    type: 'insert',
+    table: 'army_list_enhancements',
+    values: { id: le.id, army_list_id: listId, enhancement_id: le.enhancement_id, army_list_unit_id: le.army_list_unit_id },
+  };
+}
+
+function attachmentInsert(la: LeaderAttachment): ListOp {
+  return {
+    type: 'insert',
+    table: 'army_list_leader_attachments',
+    values: {
+      id: la.id,
+      army_list_id: la.army_list_id,
+      leader_army_list_unit_id: la.leader_army_list_unit_id,
+      target_army_list_unit_id: la.target_army_list_unit_id,
+    },
+  };
+}
+
+function embarkInsert(te: TransportEmbark): ListOp {
+  return {
+    type: 'insert',
+    table: 'army_list_transport_embarks',
+    values: {
+      id: te.id,
+      army_list_id: te.army_list_id,
+      transport_army_list_unit_id: te.transport_army_list_unit_id,
+      passenger_army_list_unit_id: te.passenger_army_list_unit_id,
+    },
+  };
+}
+
+/** Re-insert a wargear selection row plus the sub-option rows that cascade with it. */
+function wargearRowInserts(
+  ctx: ListCommandContext,
+  armyListUnitId: string,
+  optionId: string,
+  rowId: string,
+): ListOp[] {
+  const ops: ListOp[] = [{
+    type: 'insert',
+    table: 'army_list_unit_wargear',
+    values: { id: rowId, army_list_unit_id: armyListUnitId, wargear_option_id: optionId },
+  }];
+  for (const [subOptionId, quantity] of ctx.unitWargearSubSelections.get(rowId) ?? []) {
+    ops.push({
+      type: 'insert',
+      table: 'army_list_unit_wargear_sub',
+      values: { army_list_unit_wargear_id: rowId, wargear_sub_option_id: subOptionId, quantity },
+    });
+  }
+  return ops;
+}
+
+// ============================================================
+// Command builders
+// ============================================================
+
+export function addUnitCommand(
+  ctx: ListCommandContext,
+  unit: { id: string; name: string },
+  modelCount: number,
+  newArmyListUnitId: string,
+): ListCommand {
+  return {
+    label: `Add ${unit.name}`,
+    forward: [{
+      type: 'insert',
+      table: 'army_list_units',
+      values: {
+        id: newArmyListUnitId,
+        army_list_id: ctx.listId,
+        unit_id: unit.id,
+        model_count: modelCount,
+        sort_order: ctx.listUnits.length,
+      },
+    }],
+    inverse: [{ type: 'delete', table: 'army_list_units', match: { id: newArmyListUnitId } }],
+  };
+}
+
+/**
+ * Removing a unit cascades to its wargear, composition, enhancement, leader and embark
+ * rows, so the inverse rebuilds all of them from the captured state.
+ */
+export function removeUnitCommand(ctx: ListCommandContext, armyListUnitId: string): ListCommand | null {
+  const lu = ctx.listUnits.find(u => u.id === armyListUnitId);
+  if (!lu) return null;
+
+  const inverse: ListOp[] = [{
+    type: 'insert',
+    table: 'army_list_units',
+    values: {
+      id: lu.id,
+      army_list_id: lu.army_list_id,
+      unit_id: lu.unit_id,
+      model_count: lu.model_count,
+      sort_order: lu.sort_order,
+    },
+  }];
+
+  for (const [optionId, rowId] of ctx.unitWargearRowIds.get(lu.id) ?? []) {
+    inverse.push(...wargearRowInserts(ctx, lu.id, optionId, rowId));
+  }
+  for (const [variantId, count] of ctx.unitCompositions.get(lu.id) ?? []) {
+    if (count <= 0) continue;
+    inverse.push({
+      type: 'insert',
+      table: 'army_list_unit_composition',
+      values: { army_list_unit_id: lu.id, model_variant_id: variantId, count },
+    });
+  }
+  for (const le of ctx.listEnhancements.filter(e => e.army_list_unit_id === lu.id)) {
+    inverse.push(enhancementInsert(le, ctx.listId));
+  }
+  for (const la of ctx.leaderAttachments) {
+    if (la.leader_army_list_unit_id === lu.id || la.target_army_list_unit_id === lu.id) {
+      inverse.push(attachmentInsert(la));
+    }
+  }
+  for (const te of ctx.transportEmbarks) {
+    if (te.transport_army_list_unit_id === lu.id || te.passenger_army_list_unit_id === lu.id) {
+      inverse.push(embarkInsert(te));
+    }
+  }
+
+  return {
+    label: `Remove ${unitName(ctx, lu.id)}`,
+    forward: [{ type: 'delete', table: 'army_list_units', match: { id: lu.id } }],
+    inverse,
+  };
+}
+
+export function updateModelCountCommand(
+  ctx: ListCommandContext,
+  armyListUnitId: string,
+  modelCount: number,
+): ListCommand | null {
+  const lu = ctx.listUnits.find(u => u.id === armyListUnitId);
+  if (!lu) return null;
+  return {
+    label: `Set ${unitName(ctx, lu.id)} to ${modelCount} models`,
+    forward: [{ type: 'update', table: 'army_list_units', match: { id: lu.id }, values: { model_count: modelCount } }],
+    inverse: [{ type: 'update', table: 'army_list_units', match: { id: lu.id }, values: { model_count: lu.model_count } }],
+  };
+}
+
+export function changeDetachmentCommand(
+  ctx: ListCommandContext,
+  detachmentId: string,
+  detachmentName: string,
+): ListCommand {
+  const previousId = ctx.list.detachment_id;
+  return {
+    label: `Change detachment to ${detachmentName}`,
+    forward: [
+      { type: 'update', table: 'army_lists', match: { id: ctx.listId }, values: { detachment_id: detachmentId } },
+      // Enhancements belong to the old detachment
+      { type: 'delete', table: 'army_list_enhancements', match: { army_list_id: ctx.listId } },
+    ],
+    inverse: [
+      { type: 'update', table: 'army_lists', match: { id: ctx.listId }, values: { detachment_id: previousId } },
+      ...ctx.listEnhancements.map(le => enhancementInsert(le, ctx.listId)),
+    ],
+  };
+}
+
+/** `datasetId` null goes back to following the latest points. */
+export function pinPointsDatasetCommand(
+  ctx: ListCommandContext,
+  datasetId: string | null,
+  datasetName: string,
+): ListCommand {
+  const previousId = ctx.list.points_dataset_id;
+  return {
+    label: datasetId ? `Pin points to ${datasetName}` : 'Follow the latest points',
+    forward: [
+      { type: 'update', table: 'army_lists', match: { id: ctx.listId }, values: { points_dataset_id: datasetId } },
+    ],
+    inverse: [
+      { type: 'update', table: 'army_lists', match: { id: ctx.listId }, values: { points_dataset_id: previousId } },
+    ],
+  };
+}
+
+/** `enhancementId` may be empty to clear the unit's enhancement. */
+export function assignEnhancementCommand(
+  ctx: ListCommandContext,
+  armyListUnitId: string,
+  enhancementId: string,
+  newRowId: string,
+): ListCommand {
+  const existing = ctx.listEnhancements.find(le => le.army_list_unit_id === armyListUnitId);
+  const forward: ListOp[] = [];
+  const inverse: ListOp[] = [];
+
+  if (existing) {
+    forward.push({ type: 'delete', table: 'army_list_enhancements', match: { id: existing.id } });
+  }
+  if (enhancementId) {
+    forward.push({
+      type: 'insert',
+      table: 'army_list_enhancements',
+      values: { id: newRowId, army_list_id: ctx.listId, enhancement_id: enhancementId, army_list_unit_id: armyListUnitId },
+    });
+    inverse.push({ type: 'delete', table: 'army_list_enhancements', match: { id: newRowId } });
+  }
+  if (existing) inverse.push(enhancementInsert(existing, ctx.listId));
+
+  const name = unitName(ctx, armyListUnitId);
+  return {
+    label: enhancementId ? `Assign enhancement to ${name}` : `Remove enhancement from ${name}`,
+    forward,
+    inverse,
+  };
+}
+
+/** `optionId` may be empty to clear the group. */
+export function selectWargearCommand(
+  ctx: ListCommandContext,
+  armyListUnitId: string,
+  groupName: string,
+  optionId: string,
+  newRowId: string,
+): ListCommand {
+  const currentOptionId = ctx.unitWargearSelections.get(armyListUnitId)?.get(groupName);
+  const currentRowId = currentOptionId
+    ? ctx.unitWargearRowIds.get(armyListUnitId)?.get(currentOptionId)
+    : undefined;
+  const forward: ListOp[] = [];
+  const inverse: ListOp[] = [];
+
+  if (currentOptionId) {
+    forward.push({
+      type: 'delete',
+      table: 'army_list_unit_wargear',
+      match: { army_list_unit_id: armyListUnitId, wargear_option_id: currentOptionId },
+    });
+  }
+  if (optionId) {
+    forward.push({
+      type: 'insert',
+      table: 'army_list_unit_wargear',
+      values: { id: newRowId, army_list_unit_id: armyListUnitId, wargear_option_id: optionId },
+    });
+    inverse.push({ type: 'delete', table: 'army_list_unit_wargear', match: { id: newRowId } });
+  }
+  if (currentOptionId && currentRowId) {
+    inverse.push(...wargearRowInserts(ctx, armyListUnitId, currentOptionId, currentRowId));
+  }
+
+  return {
+    label: `Change ${groupName} on ${unitName(ctx, armyListUnitId)}`,
+    forward,
+    inverse,
+  };
+}
+
+function wargearSubOp(armyListUnitWargearId: string, subOptionId: string, quantity: number): ListOp {
+  return quantity <= 0
+    ? {
+        type: 'delete',
+        table: 'army_list_unit_wargear_sub',
+        match: { army_list_unit_wargear_id: armyListUnitWargearId, wargear_sub_option_id: subOptionId },
+      }
+    : {
+        type: 'upsert',
+        table: 'army_list_unit_wargear_sub',
+        values: { army_list_unit_wargear_id: armyListUnitWargearId, wargear_sub_option_id: subOptionId, quantity },
+        onConflict: WARGEAR_SUB_CONFLICT,
+      };
+}
+
+export function selectWargearSubOptionCommand(
+  ctx: ListCommandContext,
+  armyListUnitWargearId: string,
+  subOptionId: string,
+  quantity: number,
+): ListCommand {
+  const previous = ctx.unitWargearSubSelections.get(armyListUnitWargearId)?.get(subOptionId) ?? 0;
+  return {
+    label: 'Change wargear option',
+    forward: [wargearSubOp(armyListUnitWargearId, subOptionId, quantity)],
+    inverse: [wargearSubOp(armyListUnitWargearId, subOptionId, previous)],
+  };
+}
+
+function compositionOp(armyListUnitId: string, variantId: string, count: number): ListOp {
+  return count > 0
+    ? {
+        type: 'upsert',
+        table: 'army_list_unit_composition',
+        values: { army_list_unit_id: armyListUnitId, model_variant_id: variantId, count },
+        onConflict: COMPOSITION_CONFLICT,
+      }
+    : {
+        type: 'delete',
+        table: 'army_list_unit_composition',
+        match: { army_list_unit_id: armyListUnitId, model_variant_id: variantId },
+      };
+}
+
+/** `totalModels` is the recalculated unit size, or 0 to leave `model_count` untouched. */
+export function updateCompositionCommand(
+  ctx: ListCommandContext,
+  armyListUnitId: string,
+  variantId: string,
+  count: number,
+  totalModels: number,
+): ListCommand {
+  const previousCount = ctx.unitCompositions.get(armyListUnitId)?.get(variantId) ?? 0;
+  const previousModels = ctx.listUnits.find(lu => lu.id === armyListUnitId)?.model_count;
+  const forward: ListOp[] = [compositionOp(armyListUnitId, variantId, count)];
+  const inverse: ListOp[] = [compositionOp(armyListUnitId, variantId, previousCount)];
+
+  if (totalModels > 0 && previousModels !== undefined) {
+    forward.push({ type: 'update', table: 'army_list_units', match: { id: armyListUnitId }, values: { model_count: totalModels } });
+    inverse.push({ type: 'update', table: 'army_list_units', match: { id: armyListUnitId }, values: { model_count: previousModels } });
+  }
+
+  return {
+    label: `Change ${unitName(ctx, armyListUnitId)} composition`,
+    forward,
+    inverse,
+  };
+}
+
+export function attachLeaderCommand(
+  ctx: ListCommandContext,
+  leaderArmyListUnitId: string,
+  targetArmyListUnitId: string,
+  newRowId: string,
+): ListCommand {
+  const previous = ctx.leaderAttachments.filter(la => la.leader_army_list_unit_id === leaderArmyListUnitId);
+  return {
+    label: `Attach ${unitName(ctx, leaderArmyListUnitId)} to ${unitName(ctx, targetArmyListUnitId)}`,
+    forward: [
+      { type: 'delete', table: 'army_list_leader_attachments', match: { leader_army_list_unit_id: leaderArmyListUnitId } },
+      {
+        type: 'insert',
+        table: 'army_list_leader_attachments',
+        values: {
+          id: newRowId,
+          army_list_id: ctx.listId,
+          leader_army_list_unit_id: leaderArmyListUnitId,
+          target_army_list_unit_id: targetArmyListUnitId,
+        },
+      },
+    ],
+    inverse: [
+      { type: 'delete', table: 'army_list_leader_attachments', match: { id: newRowId } },
+      ...previous.map(attachmentInsert),
+    ],
+  };
+}
+
+export function detachLeaderCommand(ctx: ListCommandContext, leaderArmyListUnitId: string): ListCommand {
+  const previous = ctx.leaderAttachments.filter(la => la.leader_army_list_unit_id === leaderArmyListUnitId);
+  return {
+    label: `Detach ${unitName(ctx, leaderArmyListUnitId)}`,
+    forward: [
+      { type: 'delete', table: 'army_list_leader_attachments', match: { leader_army_list_unit_id: leaderArmyListUnitId } },
+    ],
+    inverse: previous.map(attachmentInsert),
+  };
+}
+
+/**
+ * Puts `passengerIds` (a unit and its attached leaders, see `embarkGroup`) into a transport,
+ * moving them out of any transport they were in. `newId` supplies one row ID per passenger.
+ */
+export function embarkCommand(
+  ctx: ListCommandContext,
+  transportArmyListUnitId: string,
+  passengerIds: string[],
+  newId: () => string,
+): ListCommand {
+  const previous = ctx.transportEmbarks.filter(te => passengerIds.includes(te.passenger_army_list_unit_id));
+  const rows = passengerIds.map(passengerId => ({
+    id: newId(),
+    army_list_id: ctx.listId,
+    transport_army_list_unit_id: transportArmyListUnitId,
+    passenger_army_list_unit_id: passengerId,
+  }));
+  return {
+    label: `Embark ${passengerIds.map(id => unitName(ctx, id)).join(' + ')} in ${unitName(ctx, transportArmyListUnitId)}`,
+    forward: [
+      ...passengerIds.map((passengerId): ListOp => (
+        { type: 'delete', table: 'army_list_transport_embarks', match: { passenger_army_list_unit_id: passengerId } }
+      )),
+      ...rows.map(embarkInsert),
+    ],
+    inverse: [
+      ...rows.map((row): ListOp => ({ type: 'delete', table: 'army_list_transport_embarks', match: { id: row.id } })),
+      ...previous.map(embarkInsert),
+    ],
+  };
+}
+
+export function disembarkCommand(ctx: ListCommandContext, passengerIds: string[]): ListCommand {
+  const previous = ctx.transportEmbarks.filter(te => passengerIds.includes(te.passenger_army_list_unit_id));
+  return {
+    label: `Disembark ${passengerIds.map(id => unitName(ctx, id)).join(' + ')}`,
+    forward: passengerIds.map(passengerId => (
+      { type: 'delete', table: 'army_list_transport_embarks', match: { passenger_army_list_unit_id: passengerId } }
+    )),
+    inverse: previous.map(embarkInsert),
+  };
+}
+
+/** Runs several commands as one history entry; undo reverts them last-first. */
+export function combineCommands(label: string, commands: ListCommand[]): ListCommand {
+  return {
+    label,
+    forward: commands.flatMap(c => c.forward),
+    inverse: [...commands].reverse().flatMap(c => c.inverse),
+  };
+}
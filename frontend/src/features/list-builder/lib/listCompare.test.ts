@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import type { WargearOption } from '../../../shared/types/database';
+import type { ArmyListUnitWithDetails } from '../stores/listEditorStore';
+import {
+  buildCompareEntries, matchCompareRows, rolePoints, type CompareEntry, type CompareListSource,
+} from './listCompare';
+
+function listUnit(id: string, unitId: string, name: string, role: string, modelCount: number): ArmyListUnitWithDetails {
+  return {
+    id, unit_id: unitId, model_count: modelCount, sort_order: 0,
+    units: {
+      id: unitId, name, role,
+      unit_points_tiers: [{ model_count: 5, points: 80 }, { model_count: 10, points: 160 }],
+    },
+  } as unknown as ArmyListUnitWithDetails;
+}
+
+function source(overrides?: Partial<CompareListSource>): CompareListSource {
+  return { units: [], enhancements: [], leaderAttachments: [], wargear: [], wargearSubs: [], compositions: [], ...overrides };
+}
+
+function entry(overrides?: Partial<CompareEntry>): CompareEntry {
+  return {
+    unitId: 'u-int', unitName: 'Intercessors', role: 'battleline', modelCount: 5, points: 80,
+    enhancement: null, wargear: {}, subOptions: {}, composition: {}, attachments: [],
+    ...overrides,
+  };
+}
+
+const option = (id: string, group: string, name: string, isDefault = false) =>
+  ({ id, group_name: group, name, is_default: isDefault }) as WargearOption;
+
+describe('buildCompareEntries', () => {
+  it('resolves loadout, enhancement and leader attachments by name', () => {
+    const entries = buildCompareEntries(source({
+      units: [
+        listUnit('alu-cap', 'u-cap', 'Captain', 'character', 1),
+        listUnit('alu-int', 'u-int', 'Intercessors', 'battleline', 10),
+      ],
+      enhancements: [{
+        id: 'ale-1', army_list_id: 'l1', enhancement_id: 'e-1', army_list_unit_id: 'alu-cap',
+        enhancements: { id: 'e-1', name: 'Artificer Armour', points: 10 },
+      }] as CompareListSource['enhancements'],
+      leaderAttachments: [
+        { id: 'la-1', army_list_id: 'l1', leader_army_list_unit_id: 'alu-cap', target_army_list_unit_id: 'alu-int' },
+      ] as CompareListSource['leaderAttachments'],
+      wargear: [
+        { id: 'w-1', army_list_unit_id: 'alu-int', wargear_option_id: 'o-fist', model_variant_id: null, quantity: 1, wargear_options: option('o-fist', 'Sergeant', 'Power fist') },
+        { id: 'w-2', army_list_unit_id: 'alu-int', wargear_option_id: 'o-rifle', model_variant_id: null, quantity: 1, wargear_options: option('o-rifle', 'Squad', 'Bolt rifle', true) },
+      ],
+      wargearSubs: [{
+        id: 's-1', army_list_unit_wargear_id: 'w-1', wargear_sub_option_id: 'so-1', quantity: 2,
+        wargear_sub_options: { id: 'so-1', wargear_option_id: 'o-fist', name: 'Grenade', max_count: 2, points: 0 },
+      }],
+    }));
+
+    expect(entries[0]).toMatchObject({ points: 10, enhancement: 'Artificer Armour', attachments: ['Leading Intercessors'] });
+    expect(entries[1]).toMatchObject({
+      points: 160,
+      wargear: { Sergeant: 'Power fist' },
+      subOptions: { Grenade: 2 },
+      attachments: ['Led by Captain'],
+    });
+  });
+
+  it('totals points per role', () => {
+    expect(rolePoints([entry(), entry({ points: 160 }), entry({ role: 'character', points: 75 })]))
+      .toEqual({ battleline: 240, character: 75 });
+  });
+});
+
+describe('matchCompareRows', () => {
+  it('matches copies by similarity rather than position', () => {
+    const rows = matchCompareRows([
+      [entry({ modelCount: 5 }), entry({ modelCount: 10, points: 160 })],
+      [entry({ modelCount: 10, points: 160 }), entry({ modelCount: 5 })],
+    ]);
+    expect(rows.map(r => r.entries.map(e => e?.modelCount))).toEqual([[5, 5], [10, 10]]);
+    expect(rows.every(r => r.differs.length === 0)).toBe(true);
+  });
+
+  it('flags differing fields and leaves gaps for unshared units', () => {
+    const rows = matchCompareRows([
+      [entry(), entry({ unitId: 'u-cap', unitName: 'Captain', role: 'character' })],
+      [entry({ wargear: { Sergeant: 'Power fist' }, enhancement: 'Artificer Armour' })],
+      [entry({ modelCount: 10 })],
+    ]);
+    const [captain, intercessors] = rows;
+    expect(captain.entries.map(e => e !== null)).toEqual([true, false, false]);
+    expect(intercessors.differs).toEqual(['model_count', 'wargear', 'enhancement']);
+  });
+
+  it('starts a new row for extra copies', () => {
+    const rows = matchCompareRows([[entry()], [entry(), entry({ modelCount: 10 })]]);
+    expect(rows).toHaveLength(2);
+    expect(rows[1].entries[0]).toBeNull();
+    expect(rows[1].entries[1]?.modelCount).toBe(10);
+  });
+});
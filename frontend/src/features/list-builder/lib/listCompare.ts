@@ -0,0 +1,192 @@
+/**
+ * Side-by-side comparison of up to four army lists.
+ *
+ * Each list is flattened into CompareEntry rows carrying everything a reviewer cares about
+ * (model count, loadout, enhancement, leader attachments) by name, so entries from different
+ * lists can be matched and diffed without the catalogue. Copies of a datasheet are matched
+ * across lists by similarity rather than position, so a 10-model squad lines up with the
+ * other list's 10-model squad even when the 5-man copy comes first.
+ */
+
+import type {
+  ArmyListEnhancement, ArmyListUnitComposition, ArmyListUnitWargear, ArmyListUnitWargearSub, Enhancement,
+  LeaderAttachment, ModelVariant, WargearOption, WargearSubOption,
+} from '../../../shared/types/database';
+import type { ArmyListUnitWithDetails } from '../stores/listEditorStore';
+import { getUnitPoints } from '../stores/listEditorStore';
+
+export const MAX_COMPARE_LISTS = 4;
+
+// ============================================================
+// Entries
+// ============================================================
+
+export interface CompareListSource {
+  units: ArmyListUnitWithDetails[];
+  enhancements: (ArmyListEnhancement & { enhancements: Enhancement | null })[];
+  leaderAttachments: LeaderAttachment[];
+  wargear: (ArmyListUnitWargear & { wargear_options: WargearOption | null })[];
+  wargearSubs: (ArmyListUnitWargearSub & { wargear_sub_options: WargearSubOption | null })[];
+  compositions: (ArmyListUnitComposition & { unit_model_variants: ModelVariant | null })[];
+}
+
+export interface CompareEntry {
+  unitId: string;
+  unitName: string;
+  role: string;
+  modelCount: number;
+  /** Unit plus enhancement points */
+  points: number;
+  enhancement: string | null;
+  /** Non-default option per wargear group */
+  wargear: Record<string, string>;
+  /** Sub-option quantities, e.g. { 'Marker Drone': 2 } */
+  subOptions: Record<string, number>;
+  composition: Record<string, number>;
+  /** "Leading X" / "Led by Y", sorted */
+  attachments: string[];
+}
+
+export type CompareField = 'model_count' | 'wargear' | 'sub_options' | 'composition' | 'enhancement' | 'attachments';
+
+export function buildCompareEntries(source: CompareListSource): CompareEntry[] {
+  const nameById = new Map(source.units.map(lu => [lu.id, lu.units.name]));
+  const wargearById = new Map(source.wargear.map(w => [w.id, w]));
+
+  return source.units.map((lu) => {
+    const enhancement = source.enhancements.find(e => e.army_list_unit_id === lu.id)?.enhancements ?? null;
+
+    const wargear: Record<string, string> = {};
+    for (const w of source.wargear) {
+      if (w.army_list_unit_id !== lu.id || !w.wargear_options || w.wargear_options.is_default) continue;
+      wargear[w.wargear_options.group_name] = w.wargear_options.name;
+    }
+
+    const subOptions: Record<string, number> = {};
+    for (const sub of source.wargearSubs) {
+      if (wargearById.get(sub.army_list_unit_wargear_id)?.army_list_unit_id !== lu.id || !sub.wargear_sub_options) continue;
+      subOptions[sub.wargear_sub_options.name] = sub.quantity;
+    }
+
+    const composition: Record<string, number> = {};
+    for (const comp of source.compositions) {
+      if (comp.army_list_unit_id !== lu.id || !comp.unit_model_variants) continue;
+      composition[comp.unit_model_variants.name] = comp.count;
+    }
+
+    const attachments = [
+      ...source.leaderAttachments
+        .filter(la => la.leader_army_list_unit_id === lu.id)
+        .map(la => `Leading ${nameById.get(la.target_army_list_unit_id) ?? 'unknown unit'}`),
+      ...source.leaderAttachments
+        .filter(la => la.target_army_list_unit_id === lu.id)
+        .map(la => `Led by ${nameById.get(la.leader_army_list_unit_id) ?? 'unknown leader'}`),
+    ].sort();
+
+    return {
+      unitId: lu.unit_id,
+      unitName: lu.units.name,
+      role: lu.units.role ?? '',
+      modelCount: lu.model_count,
+      points: getUnitPoints(lu.units, lu.model_count) + (enhancement?.points ?? 0),
+      enhancement: enhancement?.name ?? null,
+      wargear,
+      subOptions,
+      composition,
+      attachments,
+    };
+  });
+}
+
+/** Points per battlefield role, enhancements included. */
+export function rolePoints(entries: CompareEntry[]): Record<string, number> {
+  const points: Record<string, number> = {};
+  for (const e of entries) points[e.role] = (points[e.role] ?? 0) + e.points;
+  return points;
+}
+
+// ============================================================
+// Matching
+// ============================================================
+
+export interface CompareRow {
+  unitId: string;
+  unitName: string;
+  role: string;
+  /** One cell per list, null where that list has no matching copy */
+  entries: (CompareEntry | null)[];
+  /** Fields that differ between the lists that have this unit */
+  differs: CompareField[];
+}
+
+const sameRecord = (a: Record<string, string | number>, b: Record<string, string | number>) =>
+  Object.keys(a).length === Object.keys(b).length && Object.entries(a).every(([k, v]) => b[k] === v);
+
+const FIELD_EQUALS: Record<CompareField, (a: CompareEntry, b: CompareEntry) => boolean> = {
+  model_count: (a, b) => a.modelCount === b.modelCount,
+  wargear: (a, b) => sameRecord(a.wargear, b.wargear),
+  sub_options: (a, b) => sameRecord(a.subOptions, b.subOptions),
+  composition: (a, b) => sameRecord(a.composition, b.composition),
+  enhancement: (a, b) => a.enhancement === b.enhancement,
+  attachments: (a, b) => a.attachments.join('|') === b.attachments.join('|'),
+};
+
+const COMPARE_FIELDS = Object.keys(FIELD_EQUALS) as CompareField[];
+
+/** Model count weighs most; every other matching field breaks ties. */
+function similarity(a: CompareEntry, b: CompareEntry): number {
+  return COMPARE_FIELDS.reduce((score, field) => (
+    FIELD_EQUALS[field](a, b) ? score + (field === 'model_count' ? 3 : 1) : score
+  ), 0);
+}
+
+/**
+ * Lines the lists up unit by unit. Lists are added in order; each copy of a datasheet joins
+ * the open row it is most similar to, greedily taking the best-scoring pairs first, and any
+ * copy left over starts a new row. Rows come back sorted by unit name.
+ */
+export function matchCompareRows(lists: CompareEntry[][]): CompareRow[] {
+  const rows: CompareRow[] = [];
+
+  lists.forEach((entries, listIndex) => {
+    const byDatasheet = new Map<string, CompareEntry[]>();
+    for (const e of entries) {
+      if (!byDatasheet.has(e.unitId)) byDatasheet.set(e.unitId, []);
+      byDatasheet.get(e.unitId)!.push(e);
+    }
+
+    for (const [unitId, copies] of byDatasheet) {
+      const open = rows.filter(r => r.unitId === unitId);
+      const pairs = copies
+        .flatMap((entry, i) => open.map(row => ({
+          i,
+          row,
+          score: similarity(entry, row.entries.find((e): e is CompareEntry => e !== null)!),
+        })))
+        .sort((a, b) => b.score - a.score);
+
+      const placed = new Set<number>();
+      const filled = new Set<CompareRow>();
+      for (const { i, row } of pairs) {
+        if (placed.has(i) || filled.has(row)) continue;
+        row.entries[listIndex] = copies[i];
+        placed.add(i);
+        filled.add(row);
+      }
+      copies.forEach((entry, i) => {
+        if (placed.has(i)) return;
+        const row: CompareRow = {
+          unitId, unitName: entry.unitName, role: entry.role, entries: lists.map(() => null), differs: [],
+        };
+        row.entries[listIndex] = entry;
+        rows.push(row);
+      });
+    }
+  });
+
+  for (const row of rows) {
+    const present = row.entries.filter((e): e is CompareEntry => e !== null);
+    row.differs = COMPARE_FIELDS.filter(field => present.some(e => !FIELD_EQUALS[field](present[0], e)));
+  }
+  return rows.sort((a, b) => a.unitName.localeCompare(b.unitName));
+}
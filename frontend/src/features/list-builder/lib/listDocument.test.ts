@@ -0,0 +1,224 @@
+import { describe, it, expect } from 'vitest';
+import type { Detachment, Enhancement, ModelVariant, WargearOption, WargearSubOption } from '../../../shared/types/database';
+import type { ArmyListUnitWithDetails, UnitWithRelations } from '../stores/listEditorStore';
+import { applyListOps, type ListOpsState } from './applyListOps';
+import {
+  LIST_DOCUMENT_VERSION, buildListDocument, findDocumentDetachment, migrateListDocument, parseListDocument,
+  planListDocumentImport, serializeListDocument, type ListDocument, type ListDocumentCatalogue, type ListDocumentSource,
+} from './listDocument';
+
+const captain = { id: 'u-cap', name: 'Captain', weapons: [], keywords: ['Infantry'] } as unknown as UnitWithRelations;
+const squad = { id: 'u-int', name: 'Intercessor Squad', weapons: [], keywords: ['Infantry'] } as unknown as UnitWithRelations;
+const rhino = {
+  id: 'u-rhi', name: 'Rhino', weapons: [], keywords: ['Vehicle'],
+  transport_capacity: 12, transport_keywords_allowed: ['Infantry'], transport_keywords_excluded: null, transport_bulky_keywords: null,
+} as unknown as UnitWithRelations;
+const gladius = { id: 'det-1', name: 'Gladius Task Force' } as Detachment;
+const ironstorm = { id: 'det-2', name: 'Ironstorm Spearhead' } as Detachment;
+
+const catalogue: ListDocumentCatalogue = {
+  availableUnits: [captain, squad, rhino],
+  availableDetachments: [gladius, ironstorm],
+  enhancements: [{ id: 'enh-1', detachment_id: 'det-1', name: 'Artificer Armour' } as Enhancement],
+  wargearOptions: [
+    { id: 'opt-fist', unit_id: 'u-int', group_name: 'Sergeant weapon', name: 'Power fist', is_default: false },
+    { id: 'opt-gl', unit_id: 'u-int', group_name: 'Special weapon', name: 'Grenade launchers', is_default: false },
+  ] as WargearOption[],
+  wargearSubOptions: [
+    { id: 'sub-agl', wargear_option_id: 'opt-gl', name: 'Astartes grenade launcher', max_count: 2, points: 0 },
+  ] as WargearSubOption[],
+  modelVariants: [
+    { id: 'mv-sgt', unit_id: 'u-int', name: 'Intercessor Sergeant' },
+    { id: 'mv-int', unit_id: 'u-int', name: 'Intercessor' },
+  ] as ModelVariant[],
+  leaderTargets: [{ id: 'lt-1', leader_unit_id: 'u-cap', target_unit_id: 'u-int' }],
+  pointsDatasets: [{ id: 'pd-2025', name: 'Munitorum Field Manual 2025' }],
+};
+
+function mockSource(): ListDocumentSource & ListOpsState {
+  return {
+    ...catalogue,
+    listId: 'list-1',
+    list: {
+      id: 'list-1', user_id: 'user-1', name: 'Gladius 2k', faction_id: 'f-sm', detachment_id: 'det-1',
+      points_limit: 2000, battle_size: 'strike_force', share_code: null, edition: '10e',
+      points_dataset_id: 'pd-2025', combat_patrol_id: null, created_at: '', updated_at: '', detachments: gladius,
+    },
+    listUnits: [
+      { id: 'alu-int', army_list_id: 'list-1', unit_id: 'u-int', model_count: 10, sort_order: 1, units: squad },
+      { id: 'alu-cap', army_list_id: 'list-1', unit_id: 'u-cap', model_count: 1, sort_order: 0, units: captain },
+      { id: 'alu-rhi', army_list_id: 'list-1', unit_id: 'u-rhi', model_count: 1, sort_order: 2, units: rhino },
+    ] as ArmyListUnitWithDetails[],
+    listEnhancements: [{ id: 'le-1', enhancement_id: 'enh-1', army_list_unit_id: 'alu-cap' }],
+    unitWargearSelections: new Map([['alu-int', new Map([['Sergeant weapon', 'opt-fist'], ['Special weapon', 'opt-gl']])]]),
+    unitWargearRowIds: new Map([['alu-int', new Map([['opt-fist', 'row-1'], ['opt-gl', 'row-2']])]]),
+    unitWargearSubSelections: new Map([['row-2', new Map([['sub-agl', 2]])]]),
+    unitCompositions: new Map([['alu-int', new Map([['mv-sgt', 1], ['mv-int', 9]])]]),
+    leaderAttachments: [
+      { id: 'la-1', army_list_id: 'list-1', leader_army_list_unit_id: 'alu-cap', target_army_list_unit_id: 'alu-int' },
+    ],
+    transportEmbarks: [
+      { id: 'te-1', army_list_id: 'list-1', transport_army_list_unit_id: 'alu-rhi', passenger_army_list_unit_id: 'alu-int' },
+      { id: 'te-2', army_list_id: 'list-1', transport_army_list_unit_id: 'alu-rhi', passenger_army_list_unit_id: 'alu-cap' },
+    ],
+  };
+}
+
+function plan(document: ListDocument, cat = catalogue) {
+  let n = 0;
+  return planListDocumentImport(document, cat, 'list-1', findDocumentDetachment(document, cat), () => `new-${++n}`);
+}
+
+/** Replaces document keys with positions, so documents from different rows compare equal. */
+function withoutKeys(document: ListDocument) {
+  const index = new Map(document.units.map((u, i) => [u.key, String(i)]));
+  return {
+    ...document,
+    units: document.units.map(u => ({
+      ...u,
+      key: index.get(u.key),
+      attachedTo: u.attachedTo && index.get(u.attachedTo),
+      embarkedIn: u.embarkedIn && index.get(u.embarkedIn),
+    })),
+  };
+}
+
+describe('buildListDocument', () => {
+  it('captures every part of the list in list order', () => {
+    const document = buildListDocument(mockSource());
+
+    expect(document.version).toBe(LIST_DOCUMENT_VERSION);
+    expect(document.list).toEqual({
+      name: 'Gladius 2k', factionId: 'f-sm', edition: '10e', battleSize: 'strike_force', pointsLimit: 2000,
+      detachment: { id: 'det-1', name: 'Gladius Task Force' }, pointsDatasetId: 'pd-2025', combatPatrolId: null,
+    });
+    expect(document.units).toEqual([
+      {
+        key: 'alu-cap', unit: { id: 'u-cap', name: 'Captain' }, modelCount: 1,
+        enhancement: { id: 'enh-1', name: 'Artificer Armour' }, wargear: [], composition: [], attachedTo: 'alu-int',
+        embarkedIn: 'alu-rhi',
+      },
+      {
+        key: 'alu-int', unit: { id: 'u-int', name: 'Intercessor Squad' }, modelCount: 10, enhancement: null,
+        wargear: [
+          { id: 'opt-fist', name: 'Power fist', group: 'Sergeant weapon', subOptions: [] },
+          {
+            id: 'opt-gl', name: 'Grenade launchers', group: 'Special weapon',
+            subOptions: [{ id: 'sub-agl', name: 'Astartes grenade launcher', quantity: 2 }],
+          },
+        ],
+        composition: [{ id: 'mv-sgt', name: 'Intercessor Sergeant', count: 1 }, { id: 'mv-int', name: 'Intercessor', count: 9 }],
+        attachedTo: null,
+        embarkedIn: 'alu-rhi',
+      },
+      {
+        key: 'alu-rhi', unit: { id: 'u-rhi', name: 'Rhino' }, modelCount: 1, enhancement: null,
+        wargear: [], composition: [], attachedTo: null, embarkedIn: null,
+      },
+    ]);
+  });
+});
+
+describe('parseListDocument', () => {
+  it('reads back what it serializes', () => {
+    const document = buildListDocument(mockSource());
+    expect(parseListDocument(serializeListDocument(document))).toEqual({ document, error: null });
+  });
+
+  it('rejects text that is not a list document', () => {
+    expect(parseListDocument('++ Gladius ++').error).toBe('The file is not valid JSON.');
+    expect(parseListDocument('{"name": "Gladius"}').error).toBe('This is not a WarForge list file.');
+  });
+
+  it('names the first field that does not fit the schema', () => {
+    const document = JSON.parse(serializeListDocument(buildListDocument(mockSource())));
+    document.units[1].wargear[1].subOptions[0].quantity = 0;
+    expect(parseListDocument(JSON.stringify(document)).error)
+      .toBe('Invalid list file: units[1].wargear[1].subOptions[0].quantity must be a whole number of at least 1.');
+
+    delete document.list;
+    expect(parseListDocument(JSON.stringify(document)).error).toBe('Invalid list file: list must be an object.');
+  });
+
+  it('refuses files from a newer format version', () => {
+    const document = { ...buildListDocument(mockSource()), version: LIST_DOCUMENT_VERSION + 1 };
+    expect(parseListDocument(JSON.stringify(document)).error).toMatch(/reads up to/);
+  });
+});
+
+describe('migrateListDocument', () => {
+  it('applies each step from the file version up to the target', () => {
+    const migrations = {
+      1: (doc: Record<string, unknown>) => ({ ...doc, units: (doc.units as string[]).map(name => ({ name })) }),
+      2: (doc: Record<string, unknown>) => ({ ...doc, notes: '' }),
+    };
+    expect(migrateListDocument({ version: 1, units: ['Captain'] }, migrations, 3))
+      .toEqual({ version: 3, units: [{ name: 'Captain' }], notes: '' });
+    expect(migrateListDocument({ version: 2, units: [] }, migrations, 3)).toEqual({ version: 3, units: [], notes: '' });
+  });
+
+  it('fails when a step is missing', () => {
+    expect(() => migrateListDocument({ version: 1 }, {}, 2)).toThrow('No upgrade from format version 1.');
+  });
+});
+
+describe('planListDocumentImport', () => {
+  it('rebuilds an identical list', () => {
+    const source = mockSource();
+    const document = buildListDocument(source);
+    const { ops, report } = plan(document);
+
+    const rebuilt = applyListOps(source, ops);
+    expect(withoutKeys(buildListDocument({ ...source, ...rebuilt, list: { ...source.list, ...rebuilt.list! } })))
+      .toEqual(withoutKeys(document));
+    expect(report).toEqual({ rosterName: 'Gladius 2k', detachmentName: 'Gladius Task Force', matchedUnits: 3, unmatched: [], notes: [] });
+  });
+
+  it('falls back to names for rows whose IDs changed', () => {
+    const document = buildListDocument(mockSource());
+    const renamed = { ...catalogue, availableUnits: [{ ...captain, id: 'u-cap-2' }, squad] };
+    const units = plan(document, renamed).ops.filter(op => op.type === 'insert' && op.table === 'army_list_units');
+    expect(units.map(op => (op as { values: Record<string, unknown> }).values.unit_id)).toEqual(['u-cap-2', 'u-int']);
+  });
+
+  it('reports references the catalogue no longer has', () => {
+    const document = buildListDocument(mockSource());
+    document.list.detachment = { id: 'det-x', name: 'Firestorm Assault Force' };
+    document.list.pointsDatasetId = 'pd-x';
+    document.units[1].wargear[0] = { id: 'opt-x', name: 'Thunder hammer', group: 'Sergeant weapon', subOptions: [] };
+    document.units[1].composition[0] = { id: 'mv-x', name: 'Intercessor Gunner', count: 1 };
+    document.units.push({ ...document.units[0], key: 'alu-titus', unit: { id: 'u-x', name: 'Lieutenant Titus' } });
+
+    expect(plan(document).report.unmatched).toEqual([
+      { unit: null, selection: 'Firestorm Assault Force', reason: 'Detachment not found — kept the current one' },
+      { unit: null, selection: 'Pinned points', reason: 'Points release not found — using the current points' },
+      { unit: 'Intercessor Squad', selection: 'Thunder hammer', reason: 'No matching wargear option' },
+      { unit: 'Intercessor Squad', selection: 'Intercessor Gunner', reason: 'No matching model in this unit' },
+      { unit: null, selection: 'Lieutenant Titus', reason: 'Unit not found in this faction' },
+    ]);
+  });
+
+  it('checks leader attachments against the catalogue', () => {
+    const document = buildListDocument(mockSource());
+    document.units[1].attachedTo = 'alu-cap';
+    document.units[0].attachedTo = 'alu-gone';
+
+    expect(plan(document).report.unmatched).toEqual([
+      { unit: 'Captain', selection: 'Attached to unknown unit', reason: 'That unit is not in the list' },
+      { unit: 'Intercessor Squad', selection: 'Attached to Captain', reason: 'Intercessor Squad cannot lead Captain' },
+    ]);
+  });
+
+  it('checks the embark plan against transport rules', () => {
+    const document = buildListDocument(mockSource());
+    document.units[0].embarkedIn = 'alu-int';
+    document.units[2].embarkedIn = 'alu-rhi';
+    document.units[1].embarkedIn = 'alu-gone';
+
+    expect(plan(document).report.unmatched).toEqual([
+      { unit: 'Captain', selection: 'Embarked in Intercessor Squad', reason: 'Intercessor Squad is not a transport' },
+      { unit: 'Intercessor Squad', selection: 'Embarked in unknown unit', reason: 'That unit is not in the list' },
+      { unit: 'Rhino', selection: 'Embarked in Rhino', reason: 'A transport cannot embark in itself' },
+    ]);
+  });
+});
@@ -0,0 +1,466 @@
+/**
+ * WarForge's lossless list interchange format: a versioned JSON document holding everything
+ * the editor stores for a list — units and their order, model counts, enhancements, wargear
+ * choices with sub-option quantities, model composition, leader attachments and the transport
+ * embark plan.
+ *
+ * Catalogue rows are referenced by ID (stable across installs, as they're seeded from
+ * BattleScribe names) with the name alongside, so a renamed or reseeded row still matches
+ * and the file stays readable.
+ *
+ * Files are validated against `LIST_DOCUMENT_SCHEMA` after being brought up to the current
+ * version by `LIST_DOCUMENT_MIGRATIONS`. Changing the document shape means bumping
+ * `LIST_DOCUMENT_VERSION` and adding the migration from the previous version.
+ */
+
+import type {
+  ArmyList, ArmyListUnit, Detachment, Enhancement, ModelVariant, PointsDataset, WargearOption, WargearSubOption,
+} from '../../../shared/types/database';
+import type { ArmyListUnitWithDetails, UnitWithRelations } from '../stores/listEditorStore';
+import { buildAllUnitKeywords } from './enhancementEligibility';
+import type { ListCommandContext, ListOp } from './listCommands';
+import type { RosterCatalogue, RosterImportPlan, UnmatchedSelection } from './rosterImport';
+import { embarkBlocker, isTransport } from './transportPlan';
+
+export const LIST_DOCUMENT_FORMAT = 'warforge-list';
+export const LIST_DOCUMENT_VERSION = 1;
+
+export interface ListDocumentRef {
+  id: string;
+  name: string;
+}
+
+export interface ListDocumentWargear extends ListDocumentRef {
+  group: string;
+  subOptions: (ListDocumentRef & { quantity: number })[];
+}
+
+export interface ListDocumentUnit {
+  /** Identifies the unit within the document, for `attachedTo` and `embarkedIn` */
+  key: string;
+  unit: ListDocumentRef;
+  modelCount: number;
+  enhancement: ListDocumentRef | null;
+  wargear: ListDocumentWargear[];
+  composition: (ListDocumentRef & { count: number })[];
+  /** Key of the unit this leader is attached to */
+  attachedTo: string | null;
+  /** Key of the transport this unit starts the battle in */
+  embarkedIn: string | null;
+}
+
+export interface ListDocument {
+  format: typeof LIST_DOCUMENT_FORMAT;
+  version: number;
+  list: {
+    name: string;
+    factionId: string;
+    edition: string;
+    battleSize: string;
+    pointsLimit: number;
+    detachment: ListDocumentRef | null;
+    /** The points release the list is pinned to, or null to follow the current points */
+    pointsDatasetId: string | null;
+    /** The Combat Patrol the list fields, or null for a regular list */
+    combatPatrolId: string | null;
+  };
+  /** In list order */
+  units: ListDocumentUnit[];
+}
+
+export type ListDocumentParseResult =
+  | { document: ListDocument; error: null }
+  | { document: null; error: string };
+
+// ============================================================
+// Export
+// ============================================================
+
+/** The editor state a document is built from. */
+export interface ListDocumentSource extends ListCommandContext {
+  list: ArmyList & { detachments?: Detachment | null };
+  listUnits: (ArmyListUnit & { units: { name: string } })[];
+  enhancements: Enhancement[];
+  wargearOptions: WargearOption[];
+  wargearSubOptions: WargearSubOption[];
+  modelVariants: ModelVariant[];
+}
+
+export function buildListDocument(source: ListDocumentSource): ListDocument {
+  const { list } = source;
+  const named = <T extends { id: string; name: string }>(rows: T[], id: string): ListDocumentRef =>
+    ({ id, name: rows.find(r => r.id === id)?.name ?? '' });
+
+  const units = [...source.listUnits]
+    .sort((a, b) => a.sort_order - b.sort_order)
+    .map((lu): ListDocumentUnit => {
+      const assigned = source.listEnhancements.find(le => le.army_list_unit_id === lu.id);
+      const rowIds = source.unitWargearRowIds.get(lu.id);
+
+      const wargear = [...(source.unitWargearSelections.get(lu.id) ?? [])].map(([group, optionId]) => {
+        const rowId = rowIds?.get(optionId);
+        const subs = rowId ? source.unitWargearSubSelections.get(rowId) : undefined;
+        return {
+          ...named(source.wargearOptions, optionId),
+          group,
+          subOptions: [...(subs ?? [])].map(([subId, quantity]) => ({ ...named(source.wargearSubOptions, subId), quantity })),
+        };
+      });
+
+      return {
+        key: lu.id,
+        unit: { id: lu.unit_id, name: lu.units.name },
+        modelCount: lu.model_count,
+        enhancement: assigned ? named(source.enhancements, assigned.enhancement_id) : null,
+        wargear,
+        composition: [...(source.unitCompositions.get(lu.id) ?? [])]
+          .map(([variantId, count]) => ({ ...named(source.modelVariants, variantId), count })),
+        attachedTo: source.leaderAttachments.find(a => a.leader_army_list_unit_id === lu.id)?.target_army_list_unit_id ?? null,
+        embarkedIn: source.transportEmbarks.find(e => e.passenger_army_list_unit_id === lu.id)?.transport_army_list_unit_id ?? null,
+      };
+    });
+
+  return {
+    format: LIST_DOCUMENT_FORMAT,
+    version: LIST_DOCUMENT_VERSION,
+    list: {
+      name: list.name,
+      factionId: list.faction_id,
+      edition: list.edition,
+      battleSize: list.battle_size,
+      pointsLimit: list.points_limit,
+      detachment: list.detachment_id ? { id: list.detachment_id, name: list.detachments?.name ?? '' } : null,
+      pointsDatasetId: list.points_dataset_id,
+      combatPatrolId: list.combat_patrol_id,
+    },
+    units,
+  };
+}
+
+export function serializeListDocument(document: ListDocument): string {
+  return JSON.stringify(document, null, 2);
+}
+
+// ============================================================
+// Schema
+// ============================================================
+
+/** Returns an error message naming the offending path, or null when the value fits. */
+type SchemaCheck = (value: unknown, path: string) => string | null;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const string: SchemaCheck = (v, path) => (typeof v === 'string' ? null : `${path} must be text`);
+
+const integer = (min: number): SchemaCheck => (v, path) =>
+  (Number.isInteger(v) && (v as number) >= min ? null : `${path} must be a whole number of at least ${min}`);
+
+const nullable = (check: SchemaCheck): SchemaCheck => (v, path) => (v === null ? null : check(v, path));
+
+const arrayOf = (check: SchemaCheck): SchemaCheck => (v, path) => {
+  if (!Array.isArray(v)) return `${path} must be a list`;
+  for (let i = 0; i < v.length; i++) {
+    const error = check(v[i], `${path}[${i}]`);
+    if (error) return error;
+  }
+  return null;
+};
+
+const object = (shape: Record<string, SchemaCheck>): SchemaCheck => (v, path) => {
+  if (!isRecord(v)) return `${path || 'The document'} must be an object`;
+  for (const [key, check] of Object.entries(shape)) {
+    const error = check(v[key], path ? `${path}.${key}` : key);
+    if (error) return error;
+  }
+  return null;
+};
+
+const REF = { id: string, name: string };
+
+/** The current version's shape. */
+export const LIST_DOCUMENT_SCHEMA: SchemaCheck = object({
+  format: string,
+  version: integer(1),
+  list: object({
+    name: string,
+    factionId: string,
+    edition: string,
+    battleSize: string,
+    pointsLimit: integer(0),
+    detachment: nullable(object(REF)),
+    pointsDatasetId: nullable(string),
+    combatPatrolId: nullable(string),
+  }),
+  units: arrayOf(object({
+    key: string,
+    unit: object(REF),
+    modelCount: integer(1),
+    enhancement: nullable(object(REF)),
+    wargear: arrayOf(object({ ...REF, group: string, subOptions: arrayOf(object({ ...REF, quantity: integer(1) })) })),
+    composition: arrayOf(object({ ...REF, count: integer(0) })),
+    attachedTo: nullable(string),
+    embarkedIn: nullable(string),
+  })),
+});
+
+// ============================================================
+// Migrations
+// ============================================================
+
+export type ListDocumentMigration = (document: Record<string, unknown>) => Record<string, unknown>;
+
+/** Upgrades a document from version N to N + 1, keyed by N. */
+export const LIST_DOCUMENT_MIGRATIONS: Record<number, ListDocumentMigration> = {};
+
+/**
+ * Brings a raw document of any earlier version up to `targetVersion`, one step at a time.
+ * Throws when the document is newer than we understand or a step is missing.
+ */
+export function migrateListDocument(
+  raw: Record<string, unknown>,
+  migrations: Record<number, ListDocumentMigration> = LIST_DOCUMENT_MIGRATIONS,
+  targetVersion: number = LIST_DOCUMENT_VERSION,
+): Record<string, unknown> {
+  let document = raw;
+  let version = document.version;
+  if (!Number.isInteger(version) || (version as number) < 1) throw new Error('The file has no valid version number.');
+  if ((version as number) > targetVersion) {
+    throw new Error(`The file is format version ${version}; this version of WarForge reads up to ${targetVersion}. Update the app and try again.`);
+  }
+
+  while ((version as number) < targetVersion) {
+    const migrate = migrations[version as number];
+    if (!migrate) throw new Error(`No upgrade from format version ${version}.`);
+    document = { ...migrate(document), version: (version as number) + 1 };
+    version = document.version;
+  }
+  return document;
+}
+
+/** Parses, migrates and validates a list document from JSON text. */
+export function parseListDocument(text: string): ListDocumentParseResult {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return { document: null, error: 'The file is not valid JSON.' };
+  }
+  if (!isRecord(raw) || raw.format !== LIST_DOCUMENT_FORMAT) {
+    return { document: null, error: 'This is not a WarForge list file.' };
+  }
+
+  let migrated: Record<string, unknown>;
+  try {
+    migrated = migrateListDocument(raw);
+  } catch (err) {
+    return { document: null, error: err instanceof Error ? err.message : String(err) };
+  }
+
+  const error = LIST_DOCUMENT_SCHEMA(migrated, '');
+  if (error) return { document: null, error: `Invalid list file: ${error}.` };
+  return { document: migrated as unknown as ListDocument, error: null };
+}
+
+/** Cheap check for pasted text, before committing to a full parse. */
+export function looksLikeListDocument(text: string): boolean {
+  const trimmed = text.trim();
+  return trimmed.startsWith('{') && trimmed.includes(`"${LIST_DOCUMENT_FORMAT}"`);
+}
+
+// ============================================================
+// Import
+// ============================================================
+
+export type ListDocumentCatalogue = Omit<RosterCatalogue, 'factionNames'> & {
+  /** The points releases of the list's edition */
+  pointsDatasets: Pick<PointsDataset, 'id' | 'name'>[];
+};
+
+function sameName(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+/** The row with the referenced ID, else the first with the same name. */
+function findRef<T extends { id: string; name: string }>(rows: T[], ref: ListDocumentRef): T | undefined {
+  return rows.find(r => r.id === ref.id) ?? rows.find(r => sameName(r.name, ref.name));
+}
+
+export function findDocumentDetachment(document: ListDocument, catalogue: Pick<ListDocumentCatalogue, 'availableDetachments'>): Detachment | undefined {
+  const ref = document.list.detachment;
+  return ref ? findRef(catalogue.availableDetachments, ref) : undefined;
+}
+
+/**
+ * The DB operations that replace the list's contents with the document, plus a report of
+ * anything the catalogue no longer has. Like `planRosterImport`, the caller loads the
+ * enhancements of `detachment` into `catalogue` first. `newId` is injectable for tests.
+ */
+export function planListDocumentImport(
+  document: ListDocument,
+  catalogue: ListDocumentCatalogue,
+  listId: string,
+  detachment: Detachment | undefined,
+  newId: () => string = () => crypto.randomUUID(),
+): RosterImportPlan {
+  const unmatched: UnmatchedSelection[] = [];
+  const ops: ListOp[] = [
+    { type: 'delete', table: 'army_list_enhancements', match: { army_list_id: listId } },
+    { type: 'delete', table: 'army_list_units', match: { army_list_id: listId } },
+  ];
+
+  const { list } = document;
+  if (list.detachment && !detachment) {
+    unmatched.push({ unit: null, selection: list.detachment.name, reason: 'Detachment not found — kept the current one' });
+  }
+  const dataset = list.pointsDatasetId ? catalogue.pointsDatasets.find(d => d.id === list.pointsDatasetId) : undefined;
+  if (list.pointsDatasetId && !dataset) {
+    unmatched.push({ unit: null, selection: 'Pinned points', reason: 'Points release not found — using the current points' });
+  }
+  ops.push({
+    type: 'update',
+    table: 'army_lists',
+    match: { id: listId },
+    values: {
+      name: list.name,
+      battle_size: list.battleSize,
+      points_limit: list.pointsLimit,
+      points_dataset_id: dataset?.id ?? null,
+      ...(detachment ? { detachment_id: detachment.id } : {}),
+    },
+  });
+
+  // document key → the imported row and its catalogue unit
+  const imported = new Map<string, { id: string; unit: UnitWithRelations }>();
+
+  document.units.forEach((du) => {
+    const unit = findRef(catalogue.availableUnits, du.unit);
+    if (!unit) {
+      unmatched.push({ unit: null, selection: du.unit.name, reason: 'Unit not found in this faction' });
+      return;
+    }
+    const id = newId();
+    const report = (selection: string, reason: string) => unmatched.push({ unit: du.unit.name, selection, reason });
+    imported.set(du.key, { id, unit });
+
+    ops.push({
+      type: 'insert',
+      table: 'army_list_units',
+      values: { id, army_list_id: listId, unit_id: unit.id, model_count: du.modelCount, sort_order: imported.size - 1 },
+    });
+
+    if (du.enhancement) {
+      const enhancement = findRef(catalogue.enhancements, du.enhancement);
+      if (enhancement) {
+        ops.push({
+          type: 'insert',
+          table: 'army_list_enhancements',
+          values: { id: newId(), army_list_id: listId, enhancement_id: enhancement.id, army_list_unit_id: id },
+        });
+      } else {
+        report(du.enhancement.name, 'Enhancement not available in this detachment');
+      }
+    }
+
+    const options = catalogue.wargearOptions.filter(w => w.unit_id === unit.id);
+    for (const wargear of du.wargear) {
+      const option = findRef(options.filter(o => o.id === wargear.id || o.group_name === wargear.group), wargear);
+      if (!option) {
+        report(wargear.name, 'No matching wargear option');
+        continue;
+      }
+      const rowId = newId();
+      ops.push({
+        type: 'insert',
+        table: 'army_list_unit_wargear',
+        values: { id: rowId, army_list_unit_id: id, wargear_option_id: option.id },
+      });
+      const subOptions = catalogue.wargearSubOptions.filter(so => so.wargear_option_id === option.id);
+      for (const sub of wargear.subOptions) {
+        const subOption = findRef(subOptions, sub);
+        if (!subOption) {
+          report(sub.name, 'No matching wargear option');
+          continue;
+        }
+        ops.push({
+          type: 'insert',
+          table: 'army_list_unit_wargear_sub',
+          values: { army_list_unit_wargear_id: rowId, wargear_sub_option_id: subOption.id, quantity: sub.quantity },
+        });
+      }
+    }
+
+    const variants = catalogue.modelVariants.filter(v => v.unit_id === unit.id);
+    for (const model of du.composition) {
+      const variant = findRef(variants, model);
+      if (!variant) {
+        report(model.name, 'No matching model in this unit');
+        continue;
+      }
+      ops.push({
+        type: 'insert',
+        table: 'army_list_unit_composition',
+        values: { army_list_unit_id: id, model_variant_id: variant.id, count: model.count },
+      });
+    }
+  });
+
+  for (const du of document.units) {
+    const leader = imported.get(du.key);
+    if (!leader || !du.attachedTo) continue;
+    const target = imported.get(du.attachedTo);
+    const targetName = document.units.find(u => u.key === du.attachedTo)?.unit.name ?? 'unknown unit';
+    if (!target) {
+      unmatched.push({ unit: du.unit.name, selection: `Attached to ${targetName}`, reason: 'That unit is not in the list' });
+    } else if (!catalogue.leaderTargets.some(lt => lt.leader_unit_id === leader.unit.id && lt.target_unit_id === target.unit.id)) {
+      unmatched.push({ unit: du.unit.name, selection: `Attached to ${targetName}`, reason: `${leader.unit.name} cannot lead ${target.unit.name}` });
+    } else {
+      ops.push({
+        type: 'insert',
+        table: 'army_list_leader_attachments',
+        values: { id: newId(), army_list_id: listId, leader_army_list_unit_id: leader.id, target_army_list_unit_id: target.id },
+      });
+    }
+  }
+
+  const allUnitKeywords = buildAllUnitKeywords(catalogue.availableUnits);
+  const asListUnit = (row: { id: string; unit: UnitWithRelations }, du: ListDocumentUnit) =>
+    ({ id: row.id, unit_id: row.unit.id, model_count: du.modelCount, units: row.unit }) as ArmyListUnitWithDetails;
+  for (const du of document.units) {
+    const passenger = imported.get(du.key);
+    if (!passenger || !du.embarkedIn) continue;
+    const transport = imported.get(du.embarkedIn);
+    const transportDoc = document.units.find(u => u.key === du.embarkedIn);
+    const selection = `Embarked in ${transportDoc?.unit.name ?? 'unknown unit'}`;
+    const blocker = !transport || !transportDoc
+      ? 'That unit is not in the list'
+      : !isTransport(transport.unit)
+        ? `${transport.unit.name} is not a transport`
+        : embarkBlocker(asListUnit(transport, transportDoc), asListUnit(passenger, du), allUnitKeywords);
+    if (blocker) {
+      unmatched.push({ unit: du.unit.name, selection, reason: blocker });
+      continue;
+    }
+    ops.push({
+      type: 'insert',
+      table: 'army_list_transport_embarks',
+      values: {
+        id: newId(),
+        army_list_id: listId,
+        transport_army_list_unit_id: transport!.id,
+        passenger_army_list_unit_id: passenger.id,
+      },
+    });
+  }
+
+  return {
+    ops,
+    report: {
+      rosterName: list.name,
+      detachmentName: detachment?.name ?? null,
+      matchedUnits: imported.size,
+      unmatched,
+      notes: [],
+    },
+  };
+}
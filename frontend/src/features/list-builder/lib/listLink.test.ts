@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { LIST_DOCUMENT_FORMAT, LIST_DOCUMENT_VERSION, type ListDocument } from './listDocument';
+import { decodeListLink, encodeListLink, listLinkUrl } from './listLink';
+
+const document: ListDocument = {
+  format: LIST_DOCUMENT_FORMAT,
+  version: LIST_DOCUMENT_VERSION,
+  list: {
+    name: 'Spearhead',
+    factionId: 'f-sm',
+    edition: '10e',
+    battleSize: 'strike_force',
+    pointsLimit: 2000,
+    detachment: { id: 'det-1', name: 'Gladius Task Force' },
+    pointsDatasetId: 'pd-2025',
+    combatPatrolId: null,
+  },
+  units: [
+    {
+      key: 'alu-cap', unit: { id: 'u-cap', name: 'Captain' }, modelCount: 1,
+      enhancement: { id: 'enh-1', name: 'Artificer Armour' },
+      wargear: [], composition: [], attachedTo: 'alu-int', embarkedIn: 'alu-rhi',
+    },
+    {
+      key: 'alu-int', unit: { id: 'u-int', name: 'Intercessor Squad' }, modelCount: 5, enhancement: null,
+      wargear: [{
+        id: 'opt-gl', name: 'Grenade launchers', group: 'Special weapon',
+        subOptions: [{ id: 'sub-agl', name: 'Astartes grenade launcher', quantity: 2 }],
+      }],
+      composition: [{ id: 'mv-sgt', name: 'Intercessor Sergeant', count: 1 }, { id: 'mv-int', name: 'Intercessor', count: 4 }],
+      attachedTo: null, embarkedIn: 'alu-rhi',
+    },
+    {
+      key: 'alu-rhi', unit: { id: 'u-rhi', name: 'Rhino' }, modelCount: 1, enhancement: null,
+      wargear: [], composition: [], attachedTo: null, embarkedIn: null,
+    },
+  ],
+};
+
+describe('list links', () => {
+  it('round-trips a list by ID, with unit references rekeyed by position', async () => {
+    const fragment = await encodeListLink(document);
+    expect(fragment).toMatch(/^1\.[A-Za-z0-9_-]+$/);
+
+    const { document: decoded, error } = await decodeListLink(`#${fragment}`);
+    expect(error).toBeNull();
+    expect(decoded!.list).toEqual({ ...document.list, detachment: { id: 'det-1', name: '' } });
+    expect(decoded!.units.map(u => [u.key, u.unit.id, u.modelCount, u.enhancement?.id ?? null, u.attachedTo, u.embarkedIn])).toEqual([
+      ['unit-0', 'u-cap', 1, 'enh-1', 'unit-1', 'unit-2'],
+      ['unit-1', 'u-int', 5, null, null, 'unit-2'],
+      ['unit-2', 'u-rhi', 1, null, null, null],
+    ]);
+    expect(decoded!.units[1].wargear).toEqual([
+      { id: 'opt-gl', name: '', group: '', subOptions: [{ id: 'sub-agl', name: '', quantity: 2 }] },
+    ]);
+    expect(decoded!.units[1].composition.map(c => [c.id, c.count])).toEqual([['mv-sgt', 1], ['mv-int', 4]]);
+  });
+
+  it('rejects fragments that are not list links, from newer versions or damaged', async () => {
+    expect((await decodeListLink('')).error).toBe('This link does not contain a list.');
+    expect((await decodeListLink('3.abc')).error).toMatch(/newer version/);
+    const fragment = await encodeListLink(document);
+    expect((await decodeListLink(fragment.slice(0, 20))).error).toMatch(/damaged or incomplete/);
+  });
+
+  it('builds the shared URL with the list in the fragment', () => {
+    expect(listLinkUrl('https://warforge.app', '1.abc')).toBe('https://warforge.app/shared#1.abc');
+  });
+});
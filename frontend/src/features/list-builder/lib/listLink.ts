@@ -0,0 +1,151 @@
+/**
+ * Lists carried entirely in a link: a `ListDocument` packed into the URL fragment, so a list
+ * can be shared without an account or a share code and opened with nothing but reference data.
+ *
+ * The fragment is `<version>.<payload>`. The payload is a compact JSON tuple form of the
+ * document, deflated and base64url-encoded. Names are left out to keep links short; the
+ * catalogue is matched by ID, as when importing a document. Changing the tuple layout means
+ * bumping `LIST_LINK_VERSION` and keeping a decoder for links already shared.
+ */
+
+import {
+  LIST_DOCUMENT_FORMAT, LIST_DOCUMENT_SCHEMA, LIST_DOCUMENT_VERSION,
+  type ListDocument, type ListDocumentParseResult, type ListDocumentUnit,
+} from './listDocument';
+
+export const LIST_LINK_VERSION = 1;
+
+type CompactWargear = [optionId: string, subOptions: [subOptionId: string, quantity: number][]];
+
+type CompactUnit = [
+  unitId: string,
+  modelCount: number,
+  enhancementId: string | null,
+  wargear: CompactWargear[],
+  composition: [variantId: string, count: number][],
+  /** Index of the unit this leader is attached to, or -1 */
+  attachedTo: number,
+  /** Index of the transport this unit starts in, or -1 */
+  embarkedIn: number,
+];
+
+type CompactList = [
+  name: string,
+  factionId: string,
+  edition: string,
+  battleSize: string,
+  pointsLimit: number,
+  detachmentId: string | null,
+  units: CompactUnit[],
+  pointsDatasetId: string | null,
+  combatPatrolId: string | null,
+];
+
+function compact(document: ListDocument): CompactList {
+  const { list, units } = document;
+  const indexOf = (key: string | null) => (key ? units.findIndex(u => u.key === key) : -1);
+  return [
+    list.name,
+    list.factionId,
+    list.edition,
+    list.battleSize,
+    list.pointsLimit,
+    list.detachment?.id ?? null,
+    units.map((u): CompactUnit => [
+      u.unit.id,
+      u.modelCount,
+      u.enhancement?.id ?? null,
+      u.wargear.map((w): CompactWargear => [w.id, w.subOptions.map(s => [s.id, s.quantity])]),
+      u.composition.map(c => [c.id, c.count]),
+      indexOf(u.attachedTo),
+      indexOf(u.embarkedIn),
+    ]),
+    list.pointsDatasetId,
+    list.combatPatrolId,
+  ];
+}
+
+function expand([
+  name, factionId, edition, battleSize, pointsLimit, detachmentId, units, pointsDatasetId, combatPatrolId,
+]: CompactList): ListDocument {
+  const key = (index: number) => (index >= 0 && index < units.length ? `unit-${index}` : null);
+  const ref = (id: string) => ({ id, name: '' });
+  return {
+    format: LIST_DOCUMENT_FORMAT,
+    version: LIST_DOCUMENT_VERSION,
+    list: {
+      name, factionId, edition, battleSize, pointsLimit,
+      detachment: detachmentId ? ref(detachmentId) : null,
+      pointsDatasetId,
+      combatPatrolId,
+    },
+    units: units.map(([unitId, modelCount, enhancementId, wargear, composition, attachedTo, embarkedIn], index): ListDocumentUnit => ({
+      key: `unit-${index}`,
+      unit: ref(unitId),
+      modelCount,
+      enhancement: enhancementId ? ref(enhancementId) : null,
+      wargear: wargear.map(([optionId, subOptions]) => ({
+        ...ref(optionId),
+        group: '',
+        subOptions: subOptions.map(([subId, quantity]) => ({ ...ref(subId), quantity })),
+      })),
+      composition: composition.map(([variantId, count]) => ({ ...ref(variantId), count })),
+      attachedTo: key(attachedTo),
+      embarkedIn: key(embarkedIn),
+    })),
+  };
+}
+
+async function pipe(bytes: Uint8Array<ArrayBuffer>, transform: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const writer = transform.writable.getWriter();
+  // A failure surfaces on the readable side
+  writer.write(bytes).then(() => writer.close()).catch(() => {});
+  return new Uint8Array(await new Response(transform.readable).arrayBuffer());
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, c => c.charCodeAt(0));
+}
+
+/** The fragment for a list link, without the leading '#'. */
+export async function encodeListLink(document: ListDocument): Promise<string> {
+  const json = JSON.stringify(compact(document));
+  const deflated = await pipe(new TextEncoder().encode(json), new CompressionStream('deflate-raw'));
+  return `${LIST_LINK_VERSION}.${toBase64Url(deflated)}`;
+}
+
+/** Decodes a list link fragment (with or without the '#') and validates the document. */
+export async function decodeListLink(fragment: string): Promise<ListDocumentParseResult> {
+  const [versionText, payload] = fragment.replace(/^#/, '').split('.', 2);
+  const version = Number(versionText);
+  if (!payload || !Number.isInteger(version) || version < 1) {
+    return { document: null, error: 'This link does not contain a list.' };
+  }
+  if (version > LIST_LINK_VERSION) {
+    return { document: null, error: 'This list link was made by a newer version of WarForge. Update the app and try again.' };
+  }
+
+  let document: ListDocument;
+  try {
+    const json = new TextDecoder().decode(await pipe(fromBase64Url(payload), new DecompressionStream('deflate-raw')));
+    document = expand(JSON.parse(json) as CompactList);
+  } catch {
+    return { document: null, error: 'This list link is damaged or incomplete.' };
+  }
+
+  const error = LIST_DOCUMENT_SCHEMA(document, '');
+  if (error) return { document: null, error: `This list link is damaged or incomplete: ${error}.` };
+  return { document, error: null };
+}
+
+/** A shareable URL that carries the whole list. */
+export function listLinkUrl(origin: string, fragment: string): string {
+  return `${origin}/shared#${fragment}`;
+}
@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import type { Enhancement } from '../../../shared/types/database';
+import type { ArmyListUnitWithDetails, UnitWithRelations } from '../stores/listEditorStore';
+import {
+  buildThreads, describeProposal, parseProposal, proposalBlocker, threadAnchorLabel, threadsByUnit,
+  type CommentWithAuthor, type ProposalContext,
+} from './listReview';
+
+function comment(overrides: Partial<CommentWithAuthor>): CommentWithAuthor {
+  return {
+    id: 'c1', army_list_id: 'l1', army_list_unit_id: null, unit_name: null, parent_id: null,
+    author_id: 'u1', body: 'Looks good', proposal: null, proposal_status: null, resolved_at: null,
+    created_at: '2026-10-01T10:00:00Z', user_profiles: { display_name: 'Ada' },
+    ...overrides,
+  };
+}
+
+const intercessors = {
+  id: 'alu-1', unit_id: 'u-int', model_count: 5,
+  units: { id: 'u-int', name: 'Intercessors', unit_points_tiers: [{ model_count: 5, points: 80 }, { model_count: 10, points: 160 }] },
+} as unknown as ArmyListUnitWithDetails;
+
+function context(overrides?: Partial<ProposalContext>): ProposalContext {
+  return {
+    listUnits: [intercessors],
+    enhancements: [{ id: 'e-1', name: 'Artificer Armour', points: 10 }] as Enhancement[],
+    availableUnits: [{ id: 'u-int', name: 'Intercessors', max_per_list: 3 }] as UnitWithRelations[],
+    ...overrides,
+  };
+}
+
+describe('parseProposal', () => {
+  it('reads well-formed proposals and drops malformed ones', () => {
+    expect(parseProposal({ type: 'model_count', armyListUnitId: 'alu-1', modelCount: 10 }))
+      .toEqual({ type: 'model_count', armyListUnitId: 'alu-1', modelCount: 10 });
+    expect(parseProposal({ type: 'enhancement', armyListUnitId: 'alu-1' }))
+      .toEqual({ type: 'enhancement', armyListUnitId: 'alu-1', enhancementId: null, enhancementName: null });
+    expect(parseProposal({ type: 'model_count', armyListUnitId: 'alu-1', modelCount: '10' })).toBeNull();
+    expect(parseProposal({ type: 'swap_detachment' })).toBeNull();
+    expect(parseProposal(null)).toBeNull();
+  });
+
+  it('describes proposals in plain words', () => {
+    expect(describeProposal({ type: 'model_count', armyListUnitId: 'alu-1', modelCount: 10 })).toBe('Change to 10 models');
+    expect(describeProposal({ type: 'enhancement', armyListUnitId: 'alu-1', enhancementId: null, enhancementName: null }))
+      .toBe('Remove its enhancement');
+    expect(describeProposal({ type: 'add_unit', unitId: 'u-int', unitName: 'Intercessors' })).toBe('Add Intercessors');
+  });
+});
+
+describe('proposalBlocker', () => {
+  it('allows a proposal that still fits the list', () => {
+    expect(proposalBlocker({ type: 'model_count', armyListUnitId: 'alu-1', modelCount: 10 }, context())).toBeNull();
+    expect(proposalBlocker({ type: 'add_unit', unitId: 'u-int', unitName: 'Intercessors' }, context())).toBeNull();
+  });
+
+  it('explains why a stale proposal cannot be accepted', () => {
+    expect(proposalBlocker({ type: 'remove_unit', armyListUnitId: 'alu-gone' }, context()))
+      .toBe('That unit is no longer in the list');
+    expect(proposalBlocker({ type: 'model_count', armyListUnitId: 'alu-1', modelCount: 7 }, context()))
+      .toBe("Intercessors can't be taken at 7 models");
+    expect(proposalBlocker(
+      { type: 'enhancement', armyListUnitId: 'alu-1', enhancementId: 'e-old', enhancementName: 'Old Relic' },
+      context(),
+    )).toBe("Old Relic isn't in the list's detachment");
+    expect(proposalBlocker(
+      { type: 'add_unit', unitId: 'u-int', unitName: 'Intercessors' },
+      context({ availableUnits: [{ id: 'u-int', name: 'Intercessors', max_per_list: 1 }] as UnitWithRelations[] }),
+    )).toBe('The list already has the most Intercessors it can take');
+  });
+});
+
+describe('buildThreads', () => {
+  it('nests replies under their first comment and puts resolved threads last', () => {
+    const threads = buildThreads([
+      comment({ id: 'r1', parent_id: 'c2', created_at: '2026-10-01T12:00:00Z' }),
+      comment({ id: 'c1', resolved_at: '2026-10-02T00:00:00Z' }),
+      comment({ id: 'c2', army_list_unit_id: 'alu-1', created_at: '2026-10-01T11:00:00Z' }),
+      comment({ id: 'orphan', parent_id: 'gone' }),
+    ]);
+    expect(threads.map(t => t.root.id)).toEqual(['c2', 'c1']);
+    expect(threads[0].replies.map(r => r.id)).toEqual(['r1']);
+
+    const byUnit = threadsByUnit(threads);
+    expect(byUnit.get('alu-1')?.map(t => t.root.id)).toEqual(['c2']);
+    expect(byUnit.get(null)?.map(t => t.root.id)).toEqual(['c1']);
+  });
+
+  it('labels threads by unit, falling back to the name it had when removed', () => {
+    const names = new Map([['alu-1', 'Intercessors']]);
+    const [onUnit, onRemoved, onList] = [
+      { root: comment({ army_list_unit_id: 'alu-1' }), replies: [] },
+      { root: comment({ unit_name: 'Hellblasters' }), replies: [] },
+      { root: comment({}), replies: [] },
+    ];
+    expect(threadAnchorLabel(onUnit, names)).toBe('Intercessors');
+    expect(threadAnchorLabel(onRemoved, names)).toBe('Hellblasters (removed)');
+    expect(threadAnchorLabel(onList, names)).toBe('Whole list');
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * Comment threads and proposed changes on a list.
+ *
+ * A thread is a first comment plus its replies, anchored either to the list as a whole or
+ * to one unit in it. Any comment can carry a proposal — a single edit the list's editors
+ * accept in one click. Proposals carry the names they refer to, so they still read sensibly
+ * on the shared page and after the list has moved on.
+ *
+ * Everything here is pure; the editor panel applies accepted proposals through the store.
+ */
+
+import type { ArmyListComment, Enhancement, UserProfile } from '../../../shared/types/database';
+import type { ArmyListUnitWithDetails, UnitWithRelations } from '../stores/listEditorStore';
+
+export type ListChangeProposal =
+  | { type: 'model_count'; armyListUnitId: string; modelCount: number }
+  | { type: 'remove_unit'; armyListUnitId: string }
+  | { type: 'enhancement'; armyListUnitId: string; enhancementId: string | null; enhancementName: string | null }
+  | { type: 'add_unit'; unitId: string; unitName: string };
+
+export type CommentWithAuthor = ArmyListComment & { user_profiles: Pick<UserProfile, 'display_name'> | null };
+
+export interface CommentThread {
+  root: CommentWithAuthor;
+  replies: CommentWithAuthor[];
+}
+
+/** The list state a proposal is checked against before it can be accepted. */
+export interface ProposalContext {
+  listUnits: ArmyListUnitWithDetails[];
+  enhancements: Enhancement[];
+  availableUnits: UnitWithRelations[];
+}
+
+/** Reads a proposal back from its jsonb column, dropping anything malformed. */
+export function parseProposal(value: unknown): ListChangeProposal | null {
+  if (!value || typeof value !== 'object') return null;
+  const p = value as Record<string, unknown>;
+  const str = (key: string) => typeof p[key] === 'string' && p[key] !== '';
+
+  switch (p.type) {
+    case 'model_count':
+      return str('armyListUnitId') && typeof p.modelCount === 'number' && p.modelCount > 0
+        ? { type: 'model_count', armyListUnitId: p.armyListUnitId as string, modelCount: p.modelCount }
+        : null;
+    case 'remove_unit':
+      return str('armyListUnitId') ? { type: 'remove_unit', armyListUnitId: p.armyListUnitId as string } : null;
+    case 'enhancement':
+      return str('armyListUnitId')
+        ? {
+            type: 'enhancement',
+            armyListUnitId: p.armyListUnitId as string,
+            enhancementId: str('enhancementId') ? p.enhancementId as string : null,
+            enhancementName: str('enhancementName') ? p.enhancementName as string : null,
+          }
+        : null;
+    case 'add_unit':
+      return str('unitId') && str('unitName')
+        ? { type: 'add_unit', unitId: p.unitId as string, unitName: p.unitName as string }
+        : null;
+    default:
+      return null;
+  }
+}
+
+export function describeProposal(proposal: ListChangeProposal): string {
+  switch (proposal.type) {
+    case 'model_count':
+      return `Change to ${proposal.modelCount} ${proposal.modelCount === 1 ? 'model' : 'models'}`;
+    case 'remove_unit':
+      return 'Remove this unit';
+    case 'enhancement':
+      return proposal.enhancementName ? `Give it ${proposal.enhancementName}` : 'Remove its enhancement';
+    case 'add_unit':
+      return `Add ${proposal.unitName}`;
+  }
+}
+
+/** Why a proposal can no longer be accepted as-is, or null if it can. */
+export function proposalBlocker(proposal: ListChangeProposal, ctx: ProposalContext): string | null {
+  if (proposal.type === 'add_unit') {
+    const unit = ctx.availableUnits.find(u => u.id === proposal.unitId);
+    if (!unit) return `${proposal.unitName} isn't available to this list`;
+    const count = ctx.listUnits.filter(lu => lu.unit_id === unit.id).length;
+    return count >= unit.max_per_list ? `The list already has the most ${unit.name} it can take` : null;
+  }
+
+  const lu = ctx.listUnits.find(l => l.id === proposal.armyListUnitId);
+  if (!lu) return 'That unit is no longer in the list';
+
+  if (proposal.type === 'model_count') {
+    const tiers = lu.units.unit_points_tiers ?? [];
+    if (tiers.length > 0 && !tiers.some(t => t.model_count === proposal.modelCount)) {
+      return `${lu.units.name} can't be taken at ${proposal.modelCount} models`;
+    }
+    return lu.model_count === proposal.modelCount ? 'The unit already has that many models' : null;
+  }
+  if (proposal.type === 'enhancement' && proposal.enhancementId) {
+    if (!ctx.enhancements.some(e => e.id === proposal.enhancementId)) {
+      return `${proposal.enhancementName ?? 'That enhancement'} isn't in the list's detachment`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Groups comments into threads: open threads first, then resolved ones, each oldest first.
+ * Replies whose first comment is gone are dropped.
+ */
+export function buildThreads(comments: CommentWithAuthor[]): CommentThread[] {
+  const byTime = [...comments].sort((a, b) => a.created_at.localeCompare(b.created_at));
+  const threads = new Map<string, CommentThread>();
+  for (const comment of byTime) {
+    if (!comment.parent_id) threads.set(comment.id, { root: comment, replies: [] });
+  }
+  for (const comment of byTime) {
+    if (comment.parent_id) threads.get(comment.parent_id)?.replies.push(comment);
+  }
+  return [...threads.values()].sort((a, b) => Number(!!a.root.resolved_at) - Number(!!b.root.resolved_at));
+}
+
+/** Threads keyed by the unit they're on; list-wide threads (and orphans) under null. */
+export function threadsByUnit(threads: CommentThread[]): Map<string | null, CommentThread[]> {
+  const grouped = new Map<string | null, CommentThread[]>();
+  for (const thread of threads) {
+    const key = thread.root.army_list_unit_id;
+    grouped.set(key, [...(grouped.get(key) ?? []), thread]);
+  }
+  return grouped;
+}
+
+/** "Whole list", the unit's name, or the unit's last known name once it has been removed. */
+export function threadAnchorLabel(thread: CommentThread, unitNames: Map<string, string>): string {
+  const { army_list_unit_id: unitId, unit_name: unitName } = thread.root;
+  if (unitId) return unitNames.get(unitId) ?? unitName ?? 'Unit';
+  return unitName ? `${unitName} (removed)` : 'Whole list';
+}
+
+/** Proposals in a thread still waiting on the list's editors. */
+export function openProposals(thread: CommentThread): CommentWithAuthor[] {
+  return [thread.root, ...thread.replies].filter(c => c.proposal_status === 'open' && parseProposal(c.proposal));
+}
@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import { validateList, toServerValidation, type ListRulesInput } from './listRules';
+import type { ArmyListUnitWithDetails, UnitWithRelations } from '../stores/listEditorStore';
+import type { AlliedContingentRule, CombatPatrol, Enhancement } from '../../../shared/types/database';
+import fixtureJson from '../../../../../supabase/tests/fixtures/validate_army_list.cases.json';
+
+// The same cases are compiled into supabase/tests/database/validate_army_list.test.sql
+// (scripts/generate-validation-tests.js), so both sides are held to one expected result.
+
+type UnitFixture = { name: string; role: string; max_per_list: number; tiers: number[][]; faction?: string };
+
+interface CaseFixture {
+  name: string;
+  points_limit: number;
+  battle_size?: string;
+  combat_patrol?: boolean;
+  list_units: { key: string; unit: string; model_count: number }[];
+  list_enhancements: { enhancement: string; unit: string }[];
+  expected: {
+    total_points: number;
+    unit_points: number;
+    enhancement_points: number;
+    points_limit: number;
+    is_valid: boolean;
+    unit_limit_violations: { unit_name: string; count: number; max_allowed: number }[];
+    enhancement_violations: string[];
+    allied_violations?: string[];
+  };
+}
+
+const fixture = fixtureJson as {
+  units: Record<string, UnitFixture>;
+  enhancements: Record<string, { name: string; points: number }>;
+  allied_rules: (Omit<AlliedContingentRule, 'id' | 'faction_id' | 'allied_faction_id'> & { allied_faction: string })[];
+  cases: CaseFixture[];
+};
+
+const factionId = (key: string | undefined) => `faction-${key ?? 'list'}`;
+
+const units = new Map(Object.entries(fixture.units).map(([key, u]) => [key, {
+  id: `unit-${key}`,
+  faction_id: factionId(u.faction),
+  name: u.name,
+  role: u.role,
+  max_per_list: u.max_per_list,
+  keywords: [],
+  transport_capacity: null,
+  unit_points_tiers: u.tiers.map(([model_count, points]) => ({ unit_id: `unit-${key}`, model_count, points })),
+} as unknown as UnitWithRelations]));
+
+const enhancements: Enhancement[] = Object.entries(fixture.enhancements).map(([key, e]) => ({
+  id: `enh-${key}`, detachment_id: 'det-1', name: e.name, points: e.points, description: '', edition: '10e',
+}));
+
+const alliedRules: AlliedContingentRule[] = fixture.allied_rules.map(({ allied_faction, ...rule }, i) => ({
+  ...rule, id: `rule-${i}`, faction_id: factionId(undefined), allied_faction_id: factionId(allied_faction),
+}));
+
+function buildInput(testCase: CaseFixture): ListRulesInput {
+  const listUnits = testCase.list_units.map((lu, i) => {
+    const unit = units.get(lu.unit)!;
+    return {
+      id: lu.key, army_list_id: 'list-1', unit_id: unit.id, model_count: lu.model_count, sort_order: i, units: unit,
+    } as ArmyListUnitWithDetails;
+  });
+  return {
+    list: { points_limit: testCase.points_limit, battle_size: testCase.battle_size },
+    listUnits,
+    listEnhancements: testCase.list_enhancements.map((le, i) => ({
+      id: `le-${i}`, enhancement_id: `enh-${le.enhancement}`, army_list_unit_id: le.unit,
+    })),
+    enhancements,
+    leaderTargets: [],
+    leaderAttachments: [],
+    transportEmbarks: [],
+    availableUnits: [...units.values()],
+    alliedRules,
+    combatPatrol: testCase.combat_patrol
+      ? { patrol: { id: 'patrol-1', name: 'Validation Test Patrol' } as CombatPatrol, units: [], wargearOptions: [] }
+      : null,
+  };
+}
+
+describe('listRules agrees with validate_army_list', () => {
+  it.each(fixture.cases.map(c => [c.name, c] as const))('%s', (_name, testCase) => {
+    const input = buildInput(testCase);
+    const server = toServerValidation(input, validateList(input));
+
+    expect({
+      total_points: server.total_points,
+      unit_points: server.unit_points,
+      enhancement_points: server.enhancement_points,
+      points_limit: server.points_limit,
+      is_valid: server.is_valid,
+      unit_limit_violations: server.unit_limit_violations
+        .map(({ unit_name, count, max_allowed }) => ({ unit_name, count, max_allowed }))
+        .sort((a, b) => a.unit_name.localeCompare(b.unit_name)),
+      enhancement_violations: [...server.enhancement_violations].sort(),
+      allied_violations: [...server.allied_violations].sort(),
+    }).toEqual({
+      ...testCase.expected,
+      unit_limit_violations: [...testCase.expected.unit_limit_violations]
+        .sort((a, b) => a.unit_name.localeCompare(b.unit_name)),
+      enhancement_violations: [...testCase.expected.enhancement_violations].sort(),
+      allied_violations: [...(testCase.expected.allied_violations ?? [])].sort(),
+    });
+  });
+});
@@ -0,0 +1,233 @@
+import { describe, it, expect } from 'vitest';
+import type { AlliedContingentRule } from '../../../shared/types/database';
+import { validateList, type ListRulesInput } from './listRules';
+import type { CombatPatrolCatalogue } from './combatPatrol';
+import type { ArmyListUnitWithDetails, UnitWithRelations } from '../stores/listEditorStore';
+
+function mockUnit(overrides: Partial<UnitWithRelations> & { id: string; name: string }): UnitWithRelations {
+  return {
+    role: 'infantry',
+    max_per_list: 3,
+    keywords: ['Infantry'],
+    transport_capacity: null,
+    transport_keywords_allowed: null,
+    transport_keywords_excluded: null,
+    transport_bulky_keywords: null,
+    unit_points_tiers: [{ id: `t-${overrides.id}`, unit_id: overrides.id, model_count: 1, points: 50, edition: '10e' }],
+    ...overrides,
+  } as UnitWithRelations;
+}
+
+function entry(id: string, unit: UnitWithRelations, modelCount = 1): ArmyListUnitWithDetails {
+  return { id, army_list_id: 'list-1', unit_id: unit.id, model_count: modelCount, sort_order: 0, units: unit } as ArmyListUnitWithDetails;
+}
+
+const captain = mockUnit({ id: 'u-cap', name: 'Captain', role: 'character', keywords: ['Infantry', 'Character'] });
+const chaplain = mockUnit({ id: 'u-chap', name: 'Chaplain', role: 'character', keywords: ['Infantry', 'Character', 'Priest'] });
+const hero = mockUnit({ id: 'u-hero', name: 'Marneus Calgar', role: 'epic_hero', max_per_list: 3 });
+const intercessors = mockUnit({ id: 'u-int', name: 'Intercessors', role: 'battleline' });
+
+function mockInput(overrides?: Partial<ListRulesInput>): ListRulesInput {
+  return {
+    list: { points_limit: 2000 },
+    listUnits: [],
+    listEnhancements: [],
+    enhancements: [
+      { id: 'enh-1', detachment_id: 'det-1', name: 'Iron Resolve', points: 15, description: '', edition: '10e' },
+      { id: 'enh-priest', detachment_id: 'det-1', name: 'Litany', points: 10, description: 'PRIEST model only.', edition: '10e' },
+    ],
+    leaderTargets: [],
+    leaderAttachments: [],
+    transportEmbarks: [],
+    availableUnits: [captain, chaplain, hero, intercessors],
+    ...overrides,
+  };
+}
+
+const codes = (input: ListRulesInput) => validateList(input).violations.map(v => v.code);
+
+describe('validateList', () => {
+  it('returns no violations for a legal list', () => {
+    const input = mockInput({
+      listUnits: [entry('alu-cap', captain), entry('alu-int', intercessors, 5)],
+      listEnhancements: [{ id: 'le-1', enhancement_id: 'enh-1', army_list_unit_id: 'alu-cap' }],
+      leaderTargets: [{ id: 'lt-1', leader_unit_id: 'u-cap', target_unit_id: 'u-int' }],
+      leaderAttachments: [{ id: 'la-1', army_list_id: 'list-1', leader_army_list_unit_id: 'alu-cap', target_army_list_unit_id: 'alu-int' }],
+    });
+    expect(validateList(input)).toMatchObject({ totalPoints: 115, violations: [] });
+  });
+
+  it('flags going over the points limit', () => {
+    const [violation] = validateList(mockInput({ list: { points_limit: 40 }, listUnits: [entry('alu-cap', captain)] })).violations;
+    expect(violation).toMatchObject({ code: 'POINTS_OVER_LIMIT', severity: 'error', count: 50, limit: 40 });
+  });
+
+  it('suggests removing the extra copies of an over-limit datasheet', () => {
+    const limited = mockUnit({ id: 'u-lim', name: 'Land Raider', max_per_list: 1 });
+    const [violation] = validateList(mockInput({ listUnits: [entry('alu-1', limited), entry('alu-2', limited)] })).violations;
+
+    expect(violation.code).toBe('UNIT_OVER_MAX_PER_LIST');
+    expect(violation.armyListUnitIds).toEqual(['alu-1', 'alu-2']);
+    expect(violation.fixes).toEqual([{ type: 'remove_unit', armyListUnitId: 'alu-2', label: 'Remove extra Land Raider' }]);
+  });
+
+  it('treats epic heroes as unique even when max_per_list allows more', () => {
+    expect(codes(mockInput({ listUnits: [entry('alu-1', hero), entry('alu-2', hero)] }))).toEqual(['EPIC_HERO_DUPLICATE']);
+  });
+
+  it('flags enhancements on epic heroes and non-characters', () => {
+    const input = mockInput({
+      listUnits: [entry('alu-hero', hero), entry('alu-int', intercessors, 5)],
+      listEnhancements: [
+        { id: 'le-1', enhancement_id: 'enh-1', army_list_unit_id: 'alu-hero' },
+        { id: 'le-2', enhancement_id: 'enh-priest', army_list_unit_id: 'alu-int' },
+      ],
+    });
+    expect(codes(input)).toEqual(['ENHANCEMENT_ON_EPIC_HERO', 'ENHANCEMENT_NOT_CHARACTER']);
+  });
+
+  it('checks keyword restrictions and detachment membership', () => {
+    const input = mockInput({
+      listUnits: [entry('alu-cap', captain), entry('alu-chap', chaplain), entry('alu-cap2', captain)],
+      listEnhancements: [
+        { id: 'le-1', enhancement_id: 'enh-priest', army_list_unit_id: 'alu-cap' },
+        { id: 'le-2', enhancement_id: 'enh-priest-ok', army_list_unit_id: 'alu-chap' },
+        { id: 'le-3', enhancement_id: 'enh-old', army_list_unit_id: 'alu-cap2' },
+      ],
+    });
+    const violations = validateList(input).violations;
+
+    expect(violations.map(v => v.code)).toEqual(['ENHANCEMENT_INELIGIBLE', 'ENHANCEMENT_NOT_IN_DETACHMENT', 'ENHANCEMENT_NOT_IN_DETACHMENT']);
+    expect(violations[0].fixes).toEqual([{ type: 'remove_enhancement', armyListUnitId: 'alu-cap', label: 'Remove Litany' }]);
+  });
+
+  it('flags duplicate enhancements and keeps the first holder', () => {
+    const input = mockInput({
+      listUnits: [entry('alu-cap', captain), entry('alu-chap', chaplain)],
+      listEnhancements: [
+        { id: 'le-1', enhancement_id: 'enh-1', army_list_unit_id: 'alu-cap' },
+        { id: 'le-2', enhancement_id: 'enh-1', army_list_unit_id: 'alu-chap' },
+      ],
+    });
+    const [violation] = validateList(input).violations;
+    expect(violation).toMatchObject({ code: 'ENHANCEMENT_DUPLICATE', enhancementId: 'enh-1', count: 2 });
+    expect(violation.fixes.map(f => f.type === 'remove_enhancement' && f.armyListUnitId)).toEqual(['alu-chap']);
+  });
+
+  it('flags a leader attached to a unit it cannot lead, or to several units', () => {
+    const input = mockInput({
+      listUnits: [entry('alu-cap', captain), entry('alu-int', intercessors, 5), entry('alu-int2', intercessors, 5)],
+      leaderTargets: [{ id: 'lt-1', leader_unit_id: 'u-chap', target_unit_id: 'u-int' }],
+      leaderAttachments: [
+        { id: 'la-1', army_list_id: 'list-1', leader_army_list_unit_id: 'alu-cap', target_army_list_unit_id: 'alu-int' },
+        { id: 'la-2', army_list_id: 'list-1', leader_army_list_unit_id: 'alu-cap', target_army_list_unit_id: 'alu-int2' },
+      ],
+    });
+    const violations = validateList(input).violations;
+
+    expect(violations.map(v => v.code)).toEqual(['LEADER_INVALID_TARGET', 'LEADER_INVALID_TARGET', 'LEADER_MULTIPLE_TARGETS']);
+    expect(violations[2].fixes).toEqual([{ type: 'detach_leader', leaderArmyListUnitId: 'alu-cap', label: 'Detach Captain' }]);
+  });
+
+  it('reports transport overflow as information only', () => {
+    const rhino = mockUnit({
+      id: 'u-rhino', name: 'Rhino', role: 'dedicated_transport', transport_capacity: 12, transport_keywords_allowed: ['Infantry'],
+    });
+    const [violation] = validateList(mockInput({
+      listUnits: [entry('alu-rhino', rhino), entry('alu-int', intercessors, 10), entry('alu-int2', intercessors, 5)],
+    })).violations;
+    expect(violation).toMatchObject({ code: 'TRANSPORT_OVER_CAPACITY', severity: 'info', count: 15, limit: 12 });
+  });
+
+  it('checks the embark plan against keywords, capacity and leader pairings', () => {
+    const impulsor = mockUnit({
+      id: 'u-imp', name: 'Impulsor', role: 'dedicated_transport', keywords: ['Vehicle'], transport_capacity: 6,
+      transport_keywords_allowed: ['Infantry'], transport_keywords_excluded: ['Terminator'], transport_bulky_keywords: { Gravis: 2 },
+    });
+    const terminators = mockUnit({ id: 'u-term', name: 'Terminators', keywords: ['Infantry', 'Terminator'] });
+    const aggressors = mockUnit({ id: 'u-agg', name: 'Aggressors', keywords: ['Infantry', 'Gravis'] });
+    const embark = (id: string, passenger: string) =>
+      ({ id, army_list_id: 'list-1', transport_army_list_unit_id: 'alu-imp', passenger_army_list_unit_id: passenger });
+
+    const violations = validateList(mockInput({
+      availableUnits: [captain, intercessors, impulsor, terminators, aggressors],
+      listUnits: [
+        entry('alu-imp', impulsor), entry('alu-term', terminators, 5), entry('alu-agg', aggressors, 3),
+        entry('alu-cap', captain), entry('alu-int', intercessors, 5),
+      ],
+      leaderAttachments: [{ id: 'la-1', army_list_id: 'list-1', leader_army_list_unit_id: 'alu-cap', target_army_list_unit_id: 'alu-int' }],
+      transportEmbarks: [embark('te-1', 'alu-term'), embark('te-2', 'alu-agg'), embark('te-3', 'alu-cap')],
+    })).violations.filter(v => v.code.startsWith('TRANSPORT_EMBARK'));
+
+    expect(violations.map(v => [v.code, v.message])).toEqual([
+      ['TRANSPORT_EMBARK_INELIGIBLE', 'Terminators cannot embark in Impulsor: TERMINATOR models cannot embark'],
+      // 5 Terminators + 3 Gravis models at 2 slots each + the Captain
+      ['TRANSPORT_EMBARK_OVER_CAPACITY', 'Impulsor is carrying 12 of 6 model slots'],
+      ['TRANSPORT_EMBARK_SPLIT', 'Captain leads Intercessors but they are not embarked together'],
+    ]);
+    expect(violations[0].fixes).toEqual([{ type: 'disembark', passengerArmyListUnitIds: ['alu-term'], label: 'Disembark Terminators' }]);
+  });
+
+  it('holds allied contingents to their caps, roles and enhancement ban', () => {
+    const pact: AlliedContingentRule = {
+      id: 'acr-1', faction_id: 'f-csm', allied_faction_id: 'f-cd', rule_name: 'Daemonic Pact',
+      points_caps: { combat_patrol: 0, strike_force: 100 }, unit_caps: {},
+      excluded_roles: ['battleline'], allow_enhancements: false,
+    };
+    const herald = mockUnit({ id: 'u-her', name: 'Herald', role: 'character', faction_id: 'f-cd', keywords: ['Character'] });
+    const bloodletters = mockUnit({ id: 'u-bl', name: 'Bloodletters', role: 'battleline', faction_id: 'f-cd' });
+    const input = mockInput({
+      list: { points_limit: 2000, battle_size: 'strike_force' },
+      alliedRules: [pact],
+      listUnits: [entry('alu-cap', captain), entry('alu-her', herald), entry('alu-bl', bloodletters)],
+      listEnhancements: [{ id: 'le-1', enhancement_id: 'enh-1', army_list_unit_id: 'alu-her' }],
+    });
+
+    const violations = validateList(input).violations.filter(v => v.code.startsWith('ALLIED'));
+    expect(violations.map(v => [v.code, v.message])).toEqual([
+      ['ALLIED_POINTS_OVER_CAP', 'Daemonic Pact allies cost 115 pts (max 100 pts)'],
+      ['ALLIED_ROLE_EXCLUDED', "Bloodletters can't be taken as an ally under Daemonic Pact (Battleline)"],
+      ['ALLIED_ENHANCEMENT', 'Herald is an ally under Daemonic Pact and cannot take Iron Resolve'],
+    ]);
+    expect(violations[0].fixes).toEqual([{ type: 'remove_unit', armyListUnitId: 'alu-bl', label: 'Remove Bloodletters' }]);
+
+    const patrol = validateList({ ...input, list: { points_limit: 500, battle_size: 'combat_patrol' } }).violations;
+    expect(patrol.filter(v => v.code.startsWith('ALLIED')).map(v => v.message)).toEqual([
+      "Daemonic Pact allies can't be taken at this battle size",
+    ]);
+  });
+
+  it('holds a Combat Patrol to its fixed force instead of a points limit', () => {
+    const catalogue = {
+      patrol: { id: 'cp-1', name: 'Strike Patrol' },
+      units: [
+        { id: 'cpu-cap', combat_patrol_id: 'cp-1', unit_id: 'u-cap', model_count: 1, sort_order: 0, datasheet_notes: null },
+        { id: 'cpu-int', combat_patrol_id: 'cp-1', unit_id: 'u-int', model_count: 10, sort_order: 1, datasheet_notes: null },
+      ],
+      wargearOptions: [],
+    } as unknown as CombatPatrolCatalogue;
+    const input = mockInput({
+      list: { points_limit: 100, battle_size: 'combat_patrol' },
+      combatPatrol: catalogue,
+      listUnits: [entry('alu-int', intercessors, 5), entry('alu-chap', chaplain)],
+    });
+
+    const violations = validateList(input).violations;
+    expect(violations.map(v => [v.code, v.message])).toEqual([
+      ['COMBAT_PATROL_FORCE_CHANGED', 'Captain is missing from Strike Patrol'],
+      ['COMBAT_PATROL_FORCE_CHANGED', 'Intercessors should have 10 models in Strike Patrol (5 in your list)'],
+      ['COMBAT_PATROL_FORCE_CHANGED', "Chaplain isn't part of Strike Patrol"],
+    ]);
+    expect(violations[2].fixes).toEqual([{ type: 'remove_unit', armyListUnitId: 'alu-chap', label: 'Remove Chaplain' }]);
+
+    const twoEnhancements = validateList({
+      ...input,
+      listUnits: [entry('alu-cap', captain), entry('alu-int', intercessors, 10), entry('alu-chap', chaplain)],
+      listEnhancements: [
+        { id: 'le-1', enhancement_id: 'enh-1', army_list_unit_id: 'alu-cap' },
+        { id: 'le-2', enhancement_id: 'enh-priest', army_list_unit_id: 'alu-chap' },
+      ],
+    });
+    expect(twoEnhancements.violations.map(v => v.code)).toContain('ENHANCEMENT_LIMIT_EXCEEDED');
+  });
+});
@@ -0,0 +1,542 @@
+/**
+ * Client-side list validation.
+ *
+ * Mirrors the `validate_army_list` RPC (points, max_per_list, enhancement limits) so the
+ * editor can flag problems instantly, and adds the checks the server doesn't make yet:
+ * epic-hero uniqueness, enhancement eligibility, leader attachments, transport capacity,
+ * embark plans, allied contingents and Combat Patrol forces.
+ * The RPC stays the authority — `toServerValidation` projects our result onto its shape so
+ * the shared cases in supabase/tests/fixtures can prove the two agree.
+ */
+
+import type {
+  AlliedContingentRule, Enhancement, LeaderAttachment, LeaderTarget, TransportEmbark, ValidateArmyListResult,
+} from '../../../shared/types/database';
+import type { ArmyListUnitWithDetails, UnitWithRelations } from '../stores/listEditorStore';
+import { getUnitPoints, ROLE_LABELS } from '../stores/listEditorStore';
+import { buildAlliedContingents } from './alliedContingents';
+import { COMBAT_PATROL_ENHANCEMENTS, combatPatrolDeviations, type CombatPatrolCatalogue } from './combatPatrol';
+import { buildAllUnitKeywords, isEnhancementEligible } from './enhancementEligibility';
+import { buildTransportLoads, embarkBlocker, embarkGroup, isTransport } from './transportPlan';
+
+export const MAX_ENHANCEMENTS = 3;
+
+// ============================================================
+// Types
+// ============================================================
+
+/** Stable identifiers — safe to persist, match on, and localise. Never rename. */
+export type ListViolationCode =
+  | 'POINTS_OVER_LIMIT'
+  | 'UNIT_OVER_MAX_PER_LIST'
+  | 'EPIC_HERO_DUPLICATE'
+  | 'ENHANCEMENT_LIMIT_EXCEEDED'
+  | 'ENHANCEMENT_DUPLICATE'
+  | 'ENHANCEMENT_ON_EPIC_HERO'
+  | 'ENHANCEMENT_NOT_CHARACTER'
+  | 'ENHANCEMENT_NOT_IN_DETACHMENT'
+  | 'ENHANCEMENT_INELIGIBLE'
+  | 'LEADER_INVALID_TARGET'
+  | 'LEADER_MULTIPLE_TARGETS'
+  | 'TRANSPORT_OVER_CAPACITY'
+  | 'TRANSPORT_EMBARK_INELIGIBLE'
+  | 'TRANSPORT_EMBARK_OVER_CAPACITY'
+  | 'TRANSPORT_EMBARK_SPLIT'
+  | 'ALLIED_POINTS_OVER_CAP'
+  | 'ALLIED_UNITS_OVER_CAP'
+  | 'ALLIED_ROLE_EXCLUDED'
+  | 'ALLIED_ENHANCEMENT'
+  | 'COMBAT_PATROL_FORCE_CHANGED';
+
+export type ListViolationSeverity = 'error' | 'warning' | 'info';
+
+export type SuggestedFix =
+  | { type: 'remove_unit'; armyListUnitId: string; label: string }
+  | { type: 'remove_enhancement'; armyListUnitId: string; label: string }
+  | { type: 'detach_leader'; leaderArmyListUnitId: string; label: string }
+  | { type: 'disembark'; passengerArmyListUnitIds: string[]; label: string }
+  | { type: 'set_points_limit'; pointsLimit: number; label: string };
+
+export interface ListViolation {
+  code: ListViolationCode;
+  severity: ListViolationSeverity;
+  message: string;
+  /** Roster entries involved, in roster order */
+  armyListUnitIds: string[];
+  /** Datasheet id (units.id) for per-datasheet checks */
+  unitId?: string;
+  enhancementId?: string;
+  /** What was counted and the limit it broke, where applicable */
+  count?: number;
+  limit?: number;
+  fixes: SuggestedFix[];
+}
+
+export interface ListRulesInput {
+  list: { points_limit: number; battle_size?: string } | null;
+  listUnits: ArmyListUnitWithDetails[];
+  listEnhancements: { id: string; enhancement_id: string; army_list_unit_id: string }[];
+  /** Enhancements of the list's current detachment */
+  enhancements: Enhancement[];
+  leaderTargets: LeaderTarget[];
+  leaderAttachments: LeaderAttachment[];
+  transportEmbarks: TransportEmbark[];
+  /** Faction unit pool — used to tell unit keywords from faction keywords in restrictions */
+  availableUnits: UnitWithRelations[];
+  /** Allied contingent rules for the list's faction; none means no allied limits */
+  alliedRules?: AlliedContingentRule[];
+  /** Set for lists created from a Combat Patrol, which are held to its fixed force */
+  combatPatrol?: CombatPatrolCatalogue | null;
+}
+
+export interface ListRulesResult {
+  totalPoints: number;
+  unitPoints: number;
+  enhancementPoints: number;
+  violations: ListViolation[];
+}
+
+// ============================================================
+// Individual rules
+// ============================================================
+
+function checkPoints(input: ListRulesInput, totalPoints: number): ListViolation[] {
+  // Combat Patrol forces aren't costed in points
+  if (!input.list || input.combatPatrol || totalPoints <= input.list.points_limit) return [];
+  const over = totalPoints - input.list.points_limit;
+  return [{
+    code: 'POINTS_OVER_LIMIT',
+    severity: 'error',
+    message: `Over limit by ${over} points!`,
+    armyListUnitIds: [],
+    count: totalPoints,
+    limit: input.list.points_limit,
+    fixes: [],
+  }];
+}
+
+function groupByDatasheet(listUnits: ArmyListUnitWithDetails[]): Map<string, ArmyListUnitWithDetails[]> {
+  const groups = new Map<string, ArmyListUnitWithDetails[]>();
+  for (const lu of listUnits) {
+    groups.set(lu.unit_id, [...(groups.get(lu.unit_id) ?? []), lu]);
+  }
+  return groups;
+}
+
+function checkUnitLimits(input: ListRulesInput): ListViolation[] {
+  const violations: ListViolation[] = [];
+  for (const [unitId, entries] of groupByDatasheet(input.listUnits)) {
+    const unit = entries[0].units;
+    const count = entries.length;
+
+    if (count > unit.max_per_list) {
+      violations.push({
+        code: 'UNIT_OVER_MAX_PER_LIST',
+        severity: 'error',
+        message: `${unit.name} exceeds its limit (${count}/${unit.max_per_list} allowed)`,
+        armyListUnitIds: entries.map(lu => lu.id),
+        unitId,
+        count,
+        limit: unit.max_per_list,
+        fixes: entries.slice(unit.max_per_list).map(lu => ({
+          type: 'remove_unit', armyListUnitId: lu.id, label: `Remove extra ${unit.name}`,
+        })),
+      });
+    } else if (unit.role === 'epic_hero' && count > 1) {
+      // Epic heroes are unique regardless of the datasheet's max_per_list
+      violations.push({
+        code: 'EPIC_HERO_DUPLICATE',
+        severity: 'error',
+        message: `${unit.name} is an Epic Hero and can only be included once`,
+        armyListUnitIds: entries.map(lu => lu.id),
+        unitId,
+        count,
+        limit: 1,
+        fixes: entries.slice(1).map(lu => ({
+          type: 'remove_unit', armyListUnitId: lu.id, label: `Remove extra ${unit.name}`,
+        })),
+      });
+    }
+  }
+  return violations;
+}
+
+function checkEnhancements(input: ListRulesInput, allUnitKeywords: Set<string>): ListViolation[] {
+  const violations: ListViolation[] = [];
+  const enhancementName = (id: string) => input.enhancements.find(e => e.id === id)?.name ?? 'Unknown';
+  const removeFix = (armyListUnitId: string, name: string): SuggestedFix => ({
+    type: 'remove_enhancement', armyListUnitId, label: `Remove ${name}`,
+  });
+
+  const count = input.listEnhancements.length;
+  const maxEnhancements = input.combatPatrol ? COMBAT_PATROL_ENHANCEMENTS : MAX_ENHANCEMENTS;
+  if (count > maxEnhancements) {
+    violations.push({
+      code: 'ENHANCEMENT_LIMIT_EXCEEDED',
+      severity: 'error',
+      message: `Too many enhancements: ${count}/${maxEnhancements} allowed`,
+      armyListUnitIds: input.listEnhancements.map(le => le.army_list_unit_id),
+      count,
+      limit: maxEnhancements,
+      fixes: input.listEnhancements.slice(maxEnhancements).map(le =>
+        removeFix(le.army_list_unit_id, enhancementName(le.enhancement_id))),
+    });
+  }
+
+  const byEnhancement = new Map<string, string[]>();
+  for (const le of input.listEnhancements) {
+    byEnhancement.set(le.enhancement_id, [...(byEnhancement.get(le.enhancement_id) ?? []), le.army_list_unit_id]);
+  }
+  for (const [enhancementId, holders] of byEnhancement) {
+    if (holders.length <= 1) continue;
+    const name = enhancementName(enhancementId);
+    violations.push({
+      code: 'ENHANCEMENT_DUPLICATE',
+      severity: 'error',
+      message: `${name} is assigned ${holders.length} times (max 1 allowed)`,
+      armyListUnitIds: holders,
+      enhancementId,
+      count: holders.length,
+      limit: 1,
+      fixes: holders.slice(1).map(id => removeFix(id, name)),
+    });
+  }
+
+  for (const le of input.listEnhancements) {
+    const lu = input.listUnits.find(u => u.id === le.army_list_unit_id);
+    if (!lu) continue;
+    const enhancement = input.enhancements.find(e => e.id === le.enhancement_id);
+    const name = enhancement?.name ?? 'Unknown';
+    const base = {
+      severity: 'error' as const,
+      armyListUnitIds: [lu.id],
+      unitId: lu.unit_id,
+      enhancementId: le.enhancement_id,
+      fixes: [removeFix(lu.id, name)],
+    };
+
+    if (lu.units.role === 'epic_hero') {
+      violations.push({ ...base, code: 'ENHANCEMENT_ON_EPIC_HERO', message: `${lu.units.name} is an Epic Hero and cannot take enhancements` });
+    } else if (lu.units.role !== 'character') {
+      violations.push({ ...base, code: 'ENHANCEMENT_NOT_CHARACTER', message: `${lu.units.name} is not a Character and cannot take ${name}` });
+    } else if (!enhancement) {
+      violations.push({ ...base, code: 'ENHANCEMENT_NOT_IN_DETACHMENT', message: `${lu.units.name} has an enhancement from another detachment` });
+    } else if (!isEnhancementEligible(enhancement, lu.units, allUnitKeywords)) {
+      violations.push({ ...base, code: 'ENHANCEMENT_INELIGIBLE', message: `${lu.units.name} does not meet the requirements for ${name}` });
+    }
+  }
+
+  return violations;
+}
+
+function checkLeaders(input: ListRulesInput): ListViolation[] {
+  const violations: ListViolation[] = [];
+  const byId = new Map(input.listUnits.map(lu => [lu.id, lu]));
+
+  const targetsByLeader = new Map<string, string[]>();
+  for (const la of input.leaderAttachments) {
+    targetsByLeader.set(la.leader_army_list_unit_id, [
+      ...(targetsByLeader.get(la.leader_army_list_unit_id) ?? []), la.target_army_list_unit_id,
+    ]);
+
+    const leader = byId.get(la.leader_army_list_unit_id);
+    const target = byId.get(la.target_army_list_unit_id);
+    if (!leader || !target) continue;
+    const allowed = input.leaderTargets.some(
+      lt => lt.leader_unit_id === leader.unit_id && lt.target_unit_id === target.unit_id,
+    );
+    if (!allowed) {
+      violations.push({
+        code: 'LEADER_INVALID_TARGET',
+        severity: 'error',
+        message: `${leader.units.name} cannot lead ${target.units.name}`,
+        armyListUnitIds: [leader.id, target.id],
+        unitId: leader.unit_id,
+        fixes: [{ type: 'detach_leader', leaderArmyListUnitId: leader.id, label: `Detach ${leader.units.name}` }],
+      });
+    }
+  }
+
+  for (const [leaderId, targets] of targetsByLeader) {
+    const leader = byId.get(leaderId);
+    if (!leader || targets.length <= 1) continue;
+    violations.push({
+      code: 'LEADER_MULTIPLE_TARGETS',
+      severity: 'error',
+      message: `${leader.units.name} is attached to ${targets.length} units (max 1 allowed)`,
+      armyListUnitIds: [leaderId, ...targets],
+      unitId: leader.unit_id,
+      count: targets.length,
+      limit: 1,
+      fixes: [{ type: 'detach_leader', leaderArmyListUnitId: leaderId, label: `Detach ${leader.units.name}` }],
+    });
+  }
+
+  return violations;
+}
+
+function checkTransports(input: ListRulesInput, allUnitKeywords: Set<string>): ListViolation[] {
+  const violations: ListViolation[] = [];
+  for (const transport of input.listUnits.filter(lu => isTransport(lu.units))) {
+    const cap = transport.units.transport_capacity!;
+    const eligible = input.listUnits.filter(lu =>
+      lu.units.role !== 'dedicated_transport' && embarkBlocker(transport, lu, allUnitKeywords) === null,
+    );
+    const totalModels = eligible.reduce((sum, lu) => sum + lu.model_count, 0);
+    if (totalModels > cap) {
+      // Informational — not every eligible unit has to start embarked
+      violations.push({
+        code: 'TRANSPORT_OVER_CAPACITY',
+        severity: 'info',
+        message: `${transport.units.name} can carry ${cap} models — ${totalModels} eligible models in your list`,
+        armyListUnitIds: [transport.id, ...eligible.map(lu => lu.id)],
+        unitId: transport.unit_id,
+        count: totalModels,
+        limit: cap,
+        fixes: [],
+      });
+    }
+  }
+  return violations;
+}
+
+function checkEmbarks(input: ListRulesInput, allUnitKeywords: Set<string>): ListViolation[] {
+  const violations: ListViolation[] = [];
+  const byId = new Map(input.listUnits.map(lu => [lu.id, lu]));
+
+  for (const load of buildTransportLoads(input, allUnitKeywords)) {
+    const { transport } = load;
+    for (const p of load.passengers.filter(p => p.blocker)) {
+      violations.push({
+        code: 'TRANSPORT_EMBARK_INELIGIBLE',
+        severity: 'error',
+        message: `${p.name} cannot embark in ${transport.units.name}: ${p.blocker}`,
+        armyListUnitIds: [transport.id, p.armyListUnitId],
+        unitId: transport.unit_id,
+        fixes: [{ type: 'disembark', passengerArmyListUnitIds: [p.armyListUnitId], label: `Disembark ${p.name}` }],
+      });
+    }
+    if (load.used > load.capacity) {
+      const last = load.passengers.at(-1)!;
+      violations.push({
+        code: 'TRANSPORT_EMBARK_OVER_CAPACITY',
+        severity: 'error',
+        message: `${transport.units.name} is carrying ${load.used} of ${load.capacity} model slots`,
+        armyListUnitIds: [transport.id, ...load.passengers.map(p => p.armyListUnitId)],
+        unitId: transport.unit_id,
+        count: load.used,
+        limit: load.capacity,
+        fixes: [{ type: 'disembark', passengerArmyListUnitIds: [last.armyListUnitId], label: `Disembark ${last.name}` }],
+      });
+    }
+  }
+
+  // A leader and its bodyguard are one unit on the table, so they share a transport
+  const transportOf = (id: string) =>
+    input.transportEmbarks.find(te => te.passenger_army_list_unit_id === id)?.transport_army_list_unit_id ?? null;
+  for (const la of input.leaderAttachments) {
+    const leader = byId.get(la.leader_army_list_unit_id);
+    const target = byId.get(la.target_army_list_unit_id);
+    if (!leader || !target || transportOf(leader.id) === transportOf(target.id)) continue;
+    violations.push({
+      code: 'TRANSPORT_EMBARK_SPLIT',
+      severity: 'warning',
+      message: `${leader.units.name} leads ${target.units.name} but they are not embarked together`,
+      armyListUnitIds: [leader.id, target.id],
+      unitId: leader.unit_id,
+      fixes: [{
+        type: 'disembark',
+        passengerArmyListUnitIds: embarkGroup(input, target.id),
+        label: `Disembark ${leader.units.name} and ${target.units.name}`,
+      }],
+    });
+  }
+
+  return violations;
+}
+
+function checkAllies(input: ListRulesInput): ListViolation[] {
+  const violations: ListViolation[] = [];
+  for (const contingent of buildAlliedContingents(input)) {
+    const { rule, units, points, pointsCap, unitCap } = contingent;
+    const removeFix = (lu: ArmyListUnitWithDetails): SuggestedFix => ({
+      type: 'remove_unit', armyListUnitId: lu.id, label: `Remove ${lu.units.name}`,
+    });
+
+    // A zero cap means the rule grants no allies at this battle size
+    if (pointsCap === 0 || unitCap === 0) {
+      violations.push({
+        code: 'ALLIED_UNITS_OVER_CAP',
+        severity: 'error',
+        message: `${rule.rule_name} allies can't be taken at this battle size`,
+        armyListUnitIds: units.map(lu => lu.id),
+        count: units.length,
+        limit: 0,
+        fixes: units.map(removeFix),
+      });
+      continue;
+    }
+
+    if (pointsCap !== null && points > pointsCap) {
+      violations.push({
+        code: 'ALLIED_POINTS_OVER_CAP',
+        severity: 'error',
+        message: `${rule.rule_name} allies cost ${points} pts (max ${pointsCap} pts)`,
+        armyListUnitIds: units.map(lu => lu.id),
+        count: points,
+        limit: pointsCap,
+        fixes: [removeFix(units.at(-1)!)],
+      });
+    }
+
+    if (unitCap !== null && units.length > unitCap) {
+      violations.push({
+        code: 'ALLIED_UNITS_OVER_CAP',
+        severity: 'error',
+        message: `${rule.rule_name} allows ${unitCap} allied units (${units.length} in your list)`,
+        armyListUnitIds: units.map(lu => lu.id),
+        count: units.length,
+        limit: unitCap,
+        fixes: units.slice(unitCap).map(removeFix),
+      });
+    }
+
+    for (const lu of units.filter(u => rule.excluded_roles.includes(u.units.role))) {
+      violations.push({
+        code: 'ALLIED_ROLE_EXCLUDED',
+        severity: 'error',
+        message: `${lu.units.name} can't be taken as an ally under ${rule.rule_name} (${ROLE_LABELS[lu.units.role] ?? lu.units.role})`,
+        armyListUnitIds: [lu.id],
+        unitId: lu.unit_id,
+        fixes: [removeFix(lu)],
+      });
+    }
+
+    if (rule.allow_enhancements) continue;
+    for (const lu of units) {
+      const le = input.listEnhancements.find(e => e.army_list_unit_id === lu.id);
+      if (!le) continue;
+      const name = input.enhancements.find(e => e.id === le.enhancement_id)?.name ?? 'Unknown';
+      violations.push({
+        code: 'ALLIED_ENHANCEMENT',
+        severity: 'error',
+        message: `${lu.units.name} is an ally under ${rule.rule_name} and cannot take ${name}`,
+        armyListUnitIds: [lu.id],
+        unitId: lu.unit_id,
+        enhancementId: le.enhancement_id,
+        fixes: [{ type: 'remove_enhancement', armyListUnitId: lu.id, label: `Remove ${name}` }],
+      });
+    }
+  }
+  return violations;
+}
+
+function checkCombatPatrol(input: ListRulesInput): ListViolation[] {
+  if (!input.combatPatrol) return [];
+  const patrolName = input.combatPatrol.patrol.name;
+  const unitName = (unitId: string) =>
+    input.listUnits.find(lu => lu.unit_id === unitId)?.units.name
+    ?? input.availableUnits.find(u => u.id === unitId)?.name
+    ?? 'Unknown unit';
+
+  return combatPatrolDeviations(input.combatPatrol, input.listUnits).map(d => {
+    const name = unitName(d.unitId);
+    let message = `${name} should have ${d.expected} models in ${patrolName} (${d.actual} in your list)`;
+    if (d.expected === 0) message = `${name} isn't part of ${patrolName}`;
+    else if (d.actual === 0) message = `${name} is missing from ${patrolName}`;
+    return {
+      code: 'COMBAT_PATROL_FORCE_CHANGED' as const,
+      severity: 'error' as const,
+      message,
+      armyListUnitIds: d.armyListUnitIds,
+      unitId: d.unitId,
+      count: d.actual,
+      limit: d.expected,
+      fixes: d.expected === 0
+        ? d.armyListUnitIds.map(id => ({ type: 'remove_unit' as const, armyListUnitId: id, label: `Remove ${name}` }))
+        : [],
+    };
+  });
+}
+
+// ============================================================
+// Entry points
+// ============================================================
+
+export function validateList(input: ListRulesInput): ListRulesResult {
+  const unitPoints = input.listUnits.reduce((sum, lu) => sum + getUnitPoints(lu.units, lu.model_count), 0);
+  const enhancementPoints = input.listEnhancements.reduce(
+    (sum, le) => sum + (input.enhancements.find(e => e.id === le.enhancement_id)?.points ?? 0), 0,
+  );
+  const totalPoints = unitPoints + enhancementPoints;
+  const allUnitKeywords = buildAllUnitKeywords(input.availableUnits);
+
+  return {
+    totalPoints,
+    unitPoints,
+    enhancementPoints,
+    violations: [
+      ...checkPoints(input, totalPoints),
+      ...checkUnitLimits(input),
+      ...checkEnhancements(input, allUnitKeywords),
+      ...checkLeaders(input),
+      ...checkTransports(input, allUnitKeywords),
+      ...checkEmbarks(input, allUnitKeywords),
+      ...checkAllies(input),
+      ...checkCombatPatrol(input),
+    ],
+  };
+}
+
+const ALLIED_CODES = new Set<ListViolationCode>([
+  'ALLIED_POINTS_OVER_CAP', 'ALLIED_UNITS_OVER_CAP', 'ALLIED_ROLE_EXCLUDED', 'ALLIED_ENHANCEMENT',
+]);
+
+/**
+ * Projects a client result onto the `validate_army_list` RPC response, including its
+ * message wording. Only the rules the server implements are represented.
+ */
+export function toServerValidation(input: ListRulesInput, result: ListRulesResult): ValidateArmyListResult {
+  const pointsLimit = input.list?.points_limit ?? 0;
+  const enhancementName = (id: string | undefined) => input.enhancements.find(e => e.id === id)?.name ?? 'Unknown';
+
+  const unitLimitViolations = result.violations
+    .filter(v => v.code === 'UNIT_OVER_MAX_PER_LIST')
+    .map(v => ({
+      unit_id: v.unitId!,
+      unit_name: input.listUnits.find(lu => lu.unit_id === v.unitId)!.units.name,
+      count: v.count!,
+      max_allowed: v.limit!,
+    }));
+
+  const enhancementViolations: string[] = [];
+  for (const v of result.violations) {
+    if (v.code === 'ENHANCEMENT_LIMIT_EXCEEDED') {
+      enhancementViolations.push(`Army has ${v.count} enhancements (max ${v.limit} allowed)`);
+    } else if (v.code === 'ENHANCEMENT_DUPLICATE') {
+      enhancementViolations.push(`Enhancement "${enhancementName(v.enhancementId)}" is used ${v.count} times (max 1 allowed)`);
+    } else if (v.code === 'ENHANCEMENT_ON_EPIC_HERO') {
+      const lu = input.listUnits.find(u => u.id === v.armyListUnitIds[0])!;
+      enhancementViolations.push(`Enhancement "${enhancementName(v.enhancementId)}" assigned to Epic Hero "${lu.units.name}"`);
+    }
+  }
+
+  // The server words allied violations as the editor does
+  const alliedViolations = result.violations
+    .filter(v => ALLIED_CODES.has(v.code))
+    .map(v => v.message);
+
+  return {
+    total_points: result.totalPoints,
+    unit_points: result.unitPoints,
+    enhancement_points: result.enhancementPoints,
+    points_limit: pointsLimit,
+    is_valid: result.totalPoints <= pointsLimit,
+    unit_limit_violations: unitLimitViolations,
+    has_unit_limit_violations: unitLimitViolations.length > 0,
+    enhancement_violations: enhancementViolations,
+    has_enhancement_violations: enhancementViolations.length > 0,
+    allied_violations: alliedViolations,
+    has_allied_violations: alliedViolations.length > 0,
+  };
+}
@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import {
+  diffListSnapshots, formatListDiff, isListDiffEmpty, readListSnapshot,
+  type ListDiffLookup, type ListSnapshot, type SnapshotUnit,
+} from './listVersionDiff';
+
+const lookup: ListDiffLookup = {
+  detachments: [{ id: 'd-gladius', name: 'Gladius Task Force' }, { id: 'd-ironstorm', name: 'Ironstorm Spearhead' }],
+  enhancements: [{ id: 'e-fury', name: 'Artificer Armour' }],
+  wargearOptions: [{ id: 'w-fist', name: 'Power fist' }],
+  modelVariants: [{ id: 'v-heavy', name: 'Heavy Intercessor Gunner' }],
+};
+
+function unit(overrides?: Partial<SnapshotUnit>): SnapshotUnit {
+  return {
+    unit_id: 'u-int', unit_name: 'Intercessors', model_count: 5, sort_order: 0,
+    enhancement_id: null, wargear: [], composition: [],
+    ...overrides,
+  };
+}
+
+function snapshot(units: SnapshotUnit[], overrides?: Partial<ListSnapshot>): ListSnapshot {
+  return {
+    list: {
+      name: 'Tournament list', faction_id: 'f-sm', detachment_id: 'd-gladius', points_limit: 2000,
+      battle_size: 'strike_force', edition: '10th',
+    },
+    units,
+    leader_attachments: [],
+    transport_embarks: [],
+    total_points: 1000,
+    ...overrides,
+  };
+}
+
+describe('diffListSnapshots', () => {
+  it('pairs copies of a datasheet in list order and reports the leftovers', () => {
+    const before = snapshot([unit(), unit({ sort_order: 1, model_count: 10 })]);
+    const after = snapshot([
+      unit({ model_count: 10 }),
+      unit({ unit_id: 'u-cap', unit_name: 'Captain', model_count: 1, sort_order: 2 }),
+    ]);
+    const diff = diffListSnapshots(before, after, lookup);
+    expect(diff.added).toEqual([{ unitName: 'Captain', modelCount: 1 }]);
+    expect(diff.removed).toEqual([{ unitName: 'Intercessors', modelCount: 10 }]);
+    expect(diff.changed).toHaveLength(1);
+    expect(diff.changed[0].modelCount).toEqual({ before: 5, after: 10 });
+  });
+
+  it('resolves detachment, enhancement, wargear and model names', () => {
+    const before = snapshot([unit({ composition: [{ variant_id: 'v-heavy', count: 1 }] })]);
+    const after = snapshot([unit({
+      enhancement_id: 'e-fury',
+      wargear: [{ group_name: 'Sergeant weapon', option_id: 'w-fist' }],
+      composition: [{ variant_id: 'v-heavy', count: 2 }],
+    })], { list: { ...before.list, detachment_id: 'd-ironstorm' }, total_points: 1025 });
+
+    const diff = diffListSnapshots(before, after, lookup);
+    expect(diff.detachment).toEqual({ before: 'Gladius Task Force', after: 'Ironstorm Spearhead' });
+    expect(diff.points).toEqual({ before: 1000, after: 1025, delta: 25 });
+    expect(diff.changed[0]).toEqual({
+      unitName: 'Intercessors',
+      modelCount: null,
+      enhancement: { before: null, after: 'Artificer Armour' },
+      wargear: [{ group: 'Sergeant weapon', before: null, after: 'Power fist' }],
+      composition: [{ variant: 'Heavy Intercessor Gunner', before: 1, after: 2 }],
+    });
+  });
+
+  it('is empty for identical snapshots', () => {
+    expect(isListDiffEmpty(diffListSnapshots(snapshot([unit()]), snapshot([unit()]), lookup))).toBe(true);
+  });
+});
+
+describe('readListSnapshot', () => {
+  it('fills in fields that older snapshots did not record', () => {
+    const snap = readListSnapshot({
+      list: { name: 'Old list', detachment_id: 'd-gladius', points_limit: 1000 },
+      units: [{ unit_id: 'u-int', unit_name: 'Intercessors', model_count: 5, sort_order: 0 }],
+    });
+    expect(snap.total_points).toBeNull();
+    expect(snap.units[0]).toEqual(unit());
+    expect(snap.leader_attachments).toEqual([]);
+  });
+
+  it('leaves points out of the diff when a side has none', () => {
+    const diff = diffListSnapshots(readListSnapshot({ units: [] }), snapshot([]), lookup);
+    expect(diff.points).toBeNull();
+  });
+});
+
+describe('formatListDiff', () => {
+  it('writes a plain-text changelog', () => {
+    const before = snapshot([unit()]);
+    const after = snapshot([
+      unit({ model_count: 10 }),
+      unit({ unit_id: 'u-cap', unit_name: 'Captain', model_count: 1, sort_order: 1 }),
+    ], { total_points: 1160 });
+    expect(formatListDiff(diffListSnapshots(before, after, lookup), 'Tournament list: changes')).toBe([
+      'Tournament list: changes',
+      'Points: 1000 → 1160 (+160)',
+      '+ Captain (1 model)',
+      '~ Intercessors: 5 → 10 models',
+    ].join('\n'));
+  });
+
+  it('says so when nothing changed', () => {
+    expect(formatListDiff(diffListSnapshots(snapshot([]), snapshot([]), lookup))).toBe('No changes');
+  });
+});
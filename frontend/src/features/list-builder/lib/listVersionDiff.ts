@@ -0,0 +1,282 @@
+/**
+ * List version snapshots (`army_list_versions.snapshot`) and the diff between two of them.
+ *
+ * Snapshots carry ids only, so the diff resolves detachment, enhancement, wargear and model
+ * variant names through a lookup built from the editor's catalogue. Units have no stable id
+ * across versions: copies of the same datasheet are paired in list order, and whatever is
+ * left over on either side counts as added or removed.
+ */
+
+import type {
+  ArmyList, Detachment, Enhancement, LeaderAttachment, ModelVariant, TransportEmbark, WargearOption,
+} from '../../../shared/types/database';
+import type { ArmyListUnitWithDetails } from '../stores/listEditorStore';
+
+// ============================================================
+// Snapshots
+// ============================================================
+
+export interface SnapshotUnit {
+  unit_id: string;
+  unit_name: string;
+  model_count: number;
+  sort_order: number;
+  enhancement_id: string | null;
+  wargear: { group_name: string; option_id: string }[];
+  composition: { variant_id: string; count: number }[];
+}
+
+export interface ListSnapshot {
+  list: {
+    name: string;
+    faction_id: string;
+    detachment_id: string;
+    points_limit: number;
+    battle_size: string | null;
+    edition: string;
+  };
+  units: SnapshotUnit[];
+  leader_attachments: Pick<LeaderAttachment, 'leader_army_list_unit_id' | 'target_army_list_unit_id'>[];
+  transport_embarks: Pick<TransportEmbark, 'transport_army_list_unit_id' | 'passenger_army_list_unit_id'>[];
+  total_points: number | null;
+}
+
+export interface ListSnapshotSource {
+  list: Pick<ArmyList, 'name' | 'faction_id' | 'detachment_id' | 'points_limit' | 'battle_size' | 'edition'>;
+  listUnits: ArmyListUnitWithDetails[];
+  listEnhancements: { enhancement_id: string; army_list_unit_id: string }[];
+  leaderAttachments: LeaderAttachment[];
+  transportEmbarks: TransportEmbark[];
+  unitWargearSelections: Map<string, Map<string, string>>;
+  unitCompositions: Map<string, Map<string, number>>;
+}
+
+export function buildListSnapshot(source: ListSnapshotSource, totalPoints: number): ListSnapshot {
+  const { list, listUnits, listEnhancements, leaderAttachments, transportEmbarks, unitWargearSelections, unitCompositions } = source;
+  return {
+    list: {
+      name: list.name,
+      faction_id: list.faction_id,
+      detachment_id: list.detachment_id,
+      points_limit: list.points_limit,
+      battle_size: list.battle_size,
+      edition: list.edition,
+    },
+    units: listUnits.map(lu => {
+      const enhEntry = listEnhancements.find(le => le.army_list_unit_id === lu.id);
+      const wargear = [...(unitWargearSelections.get(lu.id)?.entries() ?? [])].map(
+        ([group_name, option_id]) => ({ group_name, option_id })
+      );
+      const composition = [...(unitCompositions.get(lu.id)?.entries() ?? [])].map(
+        ([variant_id, count]) => ({ variant_id, count })
+      );
+      return {
+        unit_id: lu.unit_id,
+        unit_name: lu.units.name,
+        model_count: lu.model_count,
+        sort_order: lu.sort_order,
+        enhancement_id: enhEntry?.enhancement_id ?? null,
+        wargear,
+        composition,
+      };
+    }),
+    leader_attachments: leaderAttachments.map(la => ({
+      leader_army_list_unit_id: la.leader_army_list_unit_id,
+      target_army_list_unit_id: la.target_army_list_unit_id,
+    })),
+    transport_embarks: transportEmbarks.map(te => ({
+      transport_army_list_unit_id: te.transport_army_list_unit_id,
+      passenger_army_list_unit_id: te.passenger_army_list_unit_id,
+    })),
+    total_points: totalPoints,
+  };
+}
+
+/** Reads a stored snapshot, filling in fields that older versions didn't record. */
+export function readListSnapshot(raw: unknown): ListSnapshot {
+  const snap = (raw ?? {}) as Partial<ListSnapshot>;
+  const list = (snap.list ?? {}) as Partial<ListSnapshot['list']>;
+  return {
+    list: {
+      name: list.name ?? 'Unnamed',
+      faction_id: list.faction_id ?? '',
+      detachment_id: list.detachment_id ?? '',
+      points_limit: list.points_limit ?? 0,
+      battle_size: list.battle_size ?? null,
+      edition: list.edition ?? '',
+    },
+    units: (snap.units ?? []).map(u => ({
+      ...u,
+      enhancement_id: u.enhancement_id ?? null,
+      wargear: u.wargear ?? [],
+      composition: u.composition ?? [],
+    })),
+    leader_attachments: snap.leader_attachments ?? [],
+    transport_embarks: snap.transport_embarks ?? [],
+    total_points: snap.total_points ?? null,
+  };
+}
+
+// ============================================================
+// Diff
+// ============================================================
+
+export interface ListDiffLookup {
+  detachments: Pick<Detachment, 'id' | 'name'>[];
+  enhancements: Pick<Enhancement, 'id' | 'name'>[];
+  wargearOptions: Pick<WargearOption, 'id' | 'name'>[];
+  modelVariants: Pick<ModelVariant, 'id' | 'name'>[];
+}
+
+export interface Change<T> {
+  before: T;
+  after: T;
+}
+
+export interface UnitListing {
+  unitName: string;
+  modelCount: number;
+}
+
+export interface UnitDiff {
+  unitName: string;
+  modelCount: Change<number> | null;
+  /** Enhancement names, null for none */
+  enhancement: Change<string | null> | null;
+  /** Chosen option per wargear group, null for the default */
+  wargear: (Change<string | null> & { group: string })[];
+  composition: (Change<number> & { variant: string })[];
+}
+
+export interface ListDiff {
+  name: Change<string> | null;
+  detachment: Change<string> | null;
+  pointsLimit: Change<number> | null;
+  /** Null when either side predates points being recorded */
+  points: Change<number> & { delta: number } | null;
+  added: UnitListing[];
+  removed: UnitListing[];
+  changed: UnitDiff[];
+}
+
+const nameOf = (rows: { id: string; name: string }[], id: string, fallback: string) =>
+  rows.find(r => r.id === id)?.name ?? fallback;
+
+function diffUnit(before: SnapshotUnit, after: SnapshotUnit, lookup: ListDiffLookup): UnitDiff | null {
+  const enhancementName = (id: string | null) => (id ? nameOf(lookup.enhancements, id, 'Unknown enhancement') : null);
+
+  const beforeWargear = new Map(before.wargear.map(w => [w.group_name, w.option_id]));
+  const afterWargear = new Map(after.wargear.map(w => [w.group_name, w.option_id]));
+  const wargear = [...new Set([...beforeWargear.keys(), ...afterWargear.keys()])]
+    .filter(group => beforeWargear.get(group) !== afterWargear.get(group))
+    .map((group) => {
+      const optionName = (id: string | undefined) => (id ? nameOf(lookup.wargearOptions, id, 'Unknown option') : null);
+      return { group, before: optionName(beforeWargear.get(group)), after: optionName(afterWargear.get(group)) };
+    });
+
+  const beforeCounts = new Map(before.composition.map(c => [c.variant_id, c.count]));
+  const afterCounts = new Map(after.composition.map(c => [c.variant_id, c.count]));
+  const composition = [...new Set([...beforeCounts.keys(), ...afterCounts.keys()])]
+    .filter(id => (beforeCounts.get(id) ?? 0) !== (afterCounts.get(id) ?? 0))
+    .map(id => ({
+      variant: nameOf(lookup.modelVariants, id, 'Unknown model'),
+      before: beforeCounts.get(id) ?? 0,
+      after: afterCounts.get(id) ?? 0,
+    }));
+
+  const diff: UnitDiff = {
+    unitName: after.unit_name,
+    modelCount: before.model_count !== after.model_count ? { before: before.model_count, after: after.model_count } : null,
+    enhancement: before.enhancement_id !== after.enhancement_id
+      ? { before: enhancementName(before.enhancement_id), after: enhancementName(after.enhancement_id) }
+      : null,
+    wargear,
+    composition,
+  };
+  return diff.modelCount || diff.enhancement || wargear.length > 0 || composition.length > 0 ? diff : null;
+}
+
+export function diffListSnapshots(before: ListSnapshot, after: ListSnapshot, lookup: ListDiffLookup): ListDiff {
+  const byDatasheet = (units: SnapshotUnit[]) => {
+    const groups = new Map<string, SnapshotUnit[]>();
+    for (const unit of [...units].sort((a, b) => a.sort_order - b.sort_order)) {
+      if (!groups.has(unit.unit_id)) groups.set(unit.unit_id, []);
+      groups.get(unit.unit_id)!.push(unit);
+    }
+    return groups;
+  };
+  const beforeUnits = byDatasheet(before.units);
+  const afterUnits = byDatasheet(after.units);
+  const listing = (u: SnapshotUnit): UnitListing => ({ unitName: u.unit_name, modelCount: u.model_count });
+
+  const added: UnitListing[] = [];
+  const removed: UnitListing[] = [];
+  const changed: UnitDiff[] = [];
+  for (const unitId of new Set([...beforeUnits.keys(), ...afterUnits.keys()])) {
+    const was = beforeUnits.get(unitId) ?? [];
+    const now = afterUnits.get(unitId) ?? [];
+    for (let i = 0; i < Math.max(was.length, now.length); i++) {
+      if (!was[i]) added.push(listing(now[i]));
+      else if (!now[i]) removed.push(listing(was[i]));
+      else {
+        const unitDiff = diffUnit(was[i], now[i], lookup);
+        if (unitDiff) changed.push(unitDiff);
+      }
+    }
+  }
+
+  const detachmentName = (id: string) => nameOf(lookup.detachments, id, 'Unknown detachment');
+  return {
+    name: before.list.name !== after.list.name ? { before: before.list.name, after: after.list.name } : null,
+    detachment: before.list.detachment_id !== after.list.detachment_id
+      ? { before: detachmentName(before.list.detachment_id), after: detachmentName(after.list.detachment_id) }
+      : null,
+    pointsLimit: before.list.points_limit !== after.list.points_limit
+      ? { before: before.list.points_limit, after: after.list.points_limit }
+      : null,
+    points: before.total_points !== null && after.total_points !== null
+      ? { before: before.total_points, after: after.total_points, delta: after.total_points - before.total_points }
+      : null,
+    added,
+    removed,
+    changed,
+  };
+}
+
+export function isListDiffEmpty(diff: ListDiff): boolean {
+  return !diff.name && !diff.detachment && !diff.pointsLimit && (diff.points?.delta ?? 0) === 0
+    && diff.added.length === 0 && diff.removed.length === 0 && diff.changed.length === 0;
+}
+
+// ============================================================
+// Changelog text
+// ============================================================
+
+const signed = (n: number) => (n > 0 ? `+${n}` : `${n}`);
+const models = (n: number) => `${n} model${n !== 1 ? 's' : ''}`;
+
+/** One line per change describing a unit, e.g. "5 → 10 models" or "Sergeant weapon: Chainsword → Power fist". */
+export function describeUnitDiff(unit: UnitDiff): string[] {
+  return [
+    ...(unit.modelCount ? [`${unit.modelCount.before} → ${models(unit.modelCount.after)}`] : []),
+    ...(unit.enhancement ? [`Enhancement: ${unit.enhancement.before ?? 'none'} → ${unit.enhancement.after ?? 'none'}`] : []),
+    ...unit.wargear.map(w => `${w.group}: ${w.before ?? 'default'} → ${w.after ?? 'default'}`),
+    ...unit.composition.map(c => `${c.variant}: ${c.before} → ${c.after}`),
+  ];
+}
+
+/** Plain-text changelog, ready to paste into a team chat. */
+export function formatListDiff(diff: ListDiff, title?: string): string {
+  const lines: string[] = title ? [title] : [];
+  if (diff.name) lines.push(`Renamed: ${diff.name.before} → ${diff.name.after}`);
+  if (diff.detachment) lines.push(`Detachment: ${diff.detachment.before} → ${diff.detachment.after}`);
+  if (diff.pointsLimit) lines.push(`Points limit: ${diff.pointsLimit.before} → ${diff.pointsLimit.after}`);
+  if (diff.points && diff.points.delta !== 0) {
+    lines.push(`Points: ${diff.points.before} → ${diff.points.after} (${signed(diff.points.delta)})`);
+  }
+  for (const u of diff.added) lines.push(`+ ${u.unitName} (${models(u.modelCount)})`);
+  for (const u of diff.removed) lines.push(`- ${u.unitName} (${models(u.modelCount)})`);
+  for (const u of diff.changed) lines.push(`~ ${u.unitName}: ${describeUnitDiff(u).join('; ')}`);
+  if (isListDiffEmpty(diff)) lines.push('No changes');
+  return lines.join('\n');
+}
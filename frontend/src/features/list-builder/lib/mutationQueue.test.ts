@@ -0,0 +1,66 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import type { ListOp } from './listCommands';
+
+const setCount: ListOp = { type: 'update', table: 'army_list_units', match: { id: 'alu-1' }, values: { model_count: 10 } };
+const resetCount: ListOp = { type: 'update', table: 'army_list_units', match: { id: 'alu-1' }, values: { model_count: 5 } };
+const removeUnit: ListOp = { type: 'delete', table: 'army_list_units', match: { id: 'alu-2' } };
+
+// The queue keeps its database and in-memory entries at module level; start each test fresh
+async function loadQueue() {
+  vi.resetModules();
+  return import('./mutationQueue');
+}
+
+function describeQueue(name: string, setup: () => void) {
+  describe(name, () => {
+    beforeEach(setup);
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('returns a list\'s mutations oldest first, with their inverse ops', async () => {
+      const queue = await loadQueue();
+      await queue.enqueueMutation('list-1', 'Set Intercessors to 10 models', [setCount], [resetCount]);
+      await queue.enqueueMutation('list-2', 'Remove Hellblasters', [removeUnit], []);
+      await queue.enqueueMutation('list-1', 'Remove Eradicators', [removeUnit], []);
+
+      const queued = await queue.getQueuedMutations('list-1');
+      expect(queued.map(m => m.label)).toEqual(['Set Intercessors to 10 models', 'Remove Eradicators']);
+      expect(queued[0]).toMatchObject({ listId: 'list-1', ops: [setCount], inverse: [resetCount] });
+      expect(queued[0].id).toBeLessThan(queued[1].id);
+    });
+
+    it('removes one mutation or all of a list\'s', async () => {
+      const queue = await loadQueue();
+      await queue.enqueueMutation('list-1', 'Set Intercessors to 10 models', [setCount], [resetCount]);
+      await queue.enqueueMutation('list-1', 'Remove Eradicators', [removeUnit], []);
+      await queue.enqueueMutation('list-2', 'Remove Hellblasters', [removeUnit], []);
+
+      const [first] = await queue.getQueuedMutations('list-1');
+      await queue.removeQueuedMutation(first.id);
+      expect((await queue.getQueuedMutations('list-1')).map(m => m.label)).toEqual(['Remove Eradicators']);
+
+      await queue.clearQueuedMutations('list-1');
+      expect(await queue.getQueuedMutations('list-1')).toEqual([]);
+      expect(await queue.getQueuedMutations('list-2')).toHaveLength(1);
+    });
+  });
+}
+
+describeQueue('IndexedDB', () => {
+  vi.stubGlobal('indexedDB', new IDBFactory());
+});
+
+describeQueue('in-memory fallback', () => {
+  vi.stubGlobal('indexedDB', undefined);
+});
+
+describe('isNetworkError', () => {
+  it('tells a dropped connection from a server rejection', async () => {
+    const { isNetworkError } = await import('./mutationQueue');
+    expect(isNetworkError(new TypeError('Failed to fetch'))).toBe(true);
+    expect(isNetworkError(new Error('TypeError: NetworkError when attempting to fetch resource.'))).toBe(true);
+    expect(isNetworkError(new Error('new row violates row-level security policy'))).toBe(false);
+  });
+});
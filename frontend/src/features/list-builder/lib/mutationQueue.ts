@@ -0,0 +1,99 @@
+/**
+ * Persistent queue of list-editor mutations made while offline.
+ *
+ * Entries are stored in IndexedDB so edits survive a reload or the PWA being closed
+ * on a train. They are replayed in insertion order once the connection returns.
+ * Falls back to an in-memory store where IndexedDB is unavailable (tests, private
+ * browsing in some browsers) — edits still queue, they just don't survive a reload.
+ */
+
+import type { ListOp } from './listCommands';
+
+export interface QueuedMutation {
+  /** Auto-incremented by IndexedDB; defines replay order */
+  id: number;
+  listId: string;
+  label: string;
+  ops: ListOp[];
+  /** Puts back whatever part of ops landed if the server rejects the rest on replay */
+  inverse: ListOp[];
+  queuedAt: string;
+}
+
+const DB_NAME = 'warforge-offline';
+const DB_VERSION = 1;
+const STORE = 'list_mutations';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+const memoryQueue: QueuedMutation[] = [];
+let memoryNextId = 1;
+
+function hasIndexedDb(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: 'id', autoIncrement: true });
+        store.createIndex('listId', 'listId');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  return requestToPromise(fn(db.transaction(STORE, mode).objectStore(STORE)));
+}
+
+export async function enqueueMutation(listId: string, label: string, ops: ListOp[], inverse: ListOp[]): Promise<void> {
+  const entry = { listId, label, ops, inverse, queuedAt: new Date().toISOString() };
+  if (!hasIndexedDb()) {
+    memoryQueue.push({ ...entry, id: memoryNextId++ });
+    return;
+  }
+  await withStore('readwrite', store => store.add(entry));
+}
+
+/** Queued mutations for a list, oldest first. */
+export async function getQueuedMutations(listId: string): Promise<QueuedMutation[]> {
+  if (!hasIndexedDb()) return memoryQueue.filter(m => m.listId === listId);
+  const rows = await withStore('readonly', store => store.index('listId').getAll(listId));
+  return (rows as QueuedMutation[]).sort((a, b) => a.id - b.id);
+}
+
+export async function removeQueuedMutation(id: number): Promise<void> {
+  if (!hasIndexedDb()) {
+    const idx = memoryQueue.findIndex(m => m.id === id);
+    if (idx >= 0) memoryQueue.splice(idx, 1);
+    return;
+  }
+  await withStore('readwrite', store => store.delete(id));
+}
+
+export async function clearQueuedMutations(listId: string): Promise<void> {
+  const queued = await getQueuedMutations(listId);
+  for (const m of queued) await removeQueuedMutation(m.id);
+}
+
+/** True when an error looks like a dropped connection rather than a server rejection. */
+export function isNetworkError(err: unknown): boolean {
+  const message = err instanceof Error ? err.message : String(err);
+  return /failed to fetch|networkerror|network request failed|load failed/i.test(message);
+}
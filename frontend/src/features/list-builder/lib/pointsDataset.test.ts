@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import type { PointsDataset, PointsUpdateImpact } from '../../../shared/types/database';
+import {
+  datasetPoints, diffListPoints, latestDataset, overlayPoints, summarizeImpact, withDatasetEnhancementPoints,
+  withDatasetTiers,
+} from './pointsDataset';
+
+const current = datasetPoints(
+  [
+    { unit_id: 'u-int', model_count: 5, points: 80 },
+    { unit_id: 'u-int', model_count: 10, points: 160 },
+    { unit_id: 'u-cap', model_count: 1, points: 80 },
+    { unit_id: 'u-new', model_count: 1, points: 120 },
+  ],
+  [{ enhancement_id: 'e-armour', points: 10 }],
+);
+
+const pinned = datasetPoints(
+  [
+    { unit_id: 'u-int', model_count: 5, points: 90 },
+    { unit_id: 'u-int', model_count: 10, points: 180 },
+    { unit_id: 'u-cap', model_count: 1, points: 80 },
+  ],
+  [{ enhancement_id: 'e-armour', points: 20 }],
+);
+
+function dataset(id: string, effective_date: string, edition = '10e'): PointsDataset {
+  return { id, name: `MFM ${effective_date}`, edition, effective_date, source: null, created_at: effective_date };
+}
+
+function impact(overrides: Partial<PointsUpdateImpact>): PointsUpdateImpact {
+  return {
+    army_list_id: 'l1', list_name: 'Gladius', points_limit: 2000, pinned_dataset_id: null,
+    from_dataset_id: 'ds-1', to_dataset_id: 'ds-2', points_before: 1990, points_after: 1990,
+    ...overrides,
+  };
+}
+
+describe('overlayPoints', () => {
+  it('costs what the dataset covers at its points and anything newer at current points', () => {
+    const points = overlayPoints(current, pinned);
+    expect(points.tiers.get('u-int')).toEqual([{ model_count: 5, points: 90 }, { model_count: 10, points: 180 }]);
+    expect(points.tiers.get('u-new')).toEqual([{ model_count: 1, points: 120 }]);
+    expect(points.enhancements.get('e-armour')).toBe(20);
+    expect(overlayPoints(current, null)).toBe(current);
+  });
+
+  it('swaps pinned points into units and enhancements', () => {
+    const units = [
+      { id: 'u-int', edition: '10e', unit_points_tiers: [{ id: 't1', unit_id: 'u-int', model_count: 5, points: 80, edition: '10e' }] },
+      { id: 'u-new', edition: '10e', unit_points_tiers: [{ id: 't2', unit_id: 'u-new', model_count: 1, points: 120, edition: '10e' }] },
+    ];
+    const [intercessors, newUnit] = withDatasetTiers(units, pinned);
+    expect(intercessors.unit_points_tiers.map(t => t.points)).toEqual([90, 180]);
+    expect(newUnit).toBe(units[1]);
+
+    expect(withDatasetEnhancementPoints([{ id: 'e-armour', points: 10 }, { id: 'e-other', points: 15 }], pinned))
+      .toEqual([{ id: 'e-armour', points: 20 }, { id: 'e-other', points: 15 }]);
+  });
+});
+
+describe('latestDataset', () => {
+  it('picks the newest dataset of the edition that is already in effect', () => {
+    const datasets = [dataset('a', '2026-06-01'), dataset('b', '2026-09-15'), dataset('c', '2026-12-01'), dataset('x', '2026-10-01', '11e')];
+    expect(latestDataset(datasets, '10e', '2026-10-18')?.id).toBe('b');
+    expect(latestDataset(datasets, '10e', '2026-12-01')?.id).toBe('c');
+    expect(latestDataset(datasets, '10e', '2026-01-01')).toBeNull();
+  });
+});
+
+describe('diffListPoints', () => {
+  it('lists only what changes and totals both sides', () => {
+    const diff = diffListPoints(
+      [
+        { id: 'alu-1', unitId: 'u-int', name: 'Intercessors', modelCount: 7 },
+        { id: 'alu-2', unitId: 'u-cap', name: 'Captain', modelCount: 1 },
+      ],
+      [{ enhancementId: 'e-armour', name: 'Artificer Armour' }],
+      overlayPoints(current, pinned),
+      current,
+    );
+    expect(diff.rows).toEqual([
+      { key: 'alu-1', name: 'Intercessors', before: 90, after: 80 },
+      { key: 'e-armour', name: 'Artificer Armour', before: 20, after: 10 },
+    ]);
+    expect(diff.before).toBe(190);
+    expect(diff.after).toBe(170);
+  });
+});
+
+describe('summarizeImpact', () => {
+  it('keeps changed lists, flags the ones pushed over their limit and puts them first', () => {
+    const report = summarizeImpact([
+      impact({ army_list_id: 'same' }),
+      impact({ army_list_id: 'cheaper', points_before: 1990, points_after: 1900 }),
+      impact({ army_list_id: 'pushed-over', points_before: 1990, points_after: 2010 }),
+      impact({ army_list_id: 'already-over', points_before: 2050, points_after: 2060 }),
+    ]);
+    expect(report.map(r => r.army_list_id)).toEqual(['pushed-over', 'cheaper', 'already-over']);
+    expect(report[0]).toMatchObject({ delta: 20, overLimit: true, newlyOverLimit: true });
+    expect(report[1]).toMatchObject({ delta: -90, overLimit: false, newlyOverLimit: false });
+    expect(report[2]).toMatchObject({ delta: 10, overLimit: true, newlyOverLimit: false });
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * Points datasets — one per points release (Munitorum Field Manual update).
+ *
+ * A list either follows the latest dataset or pins one, and keeps that dataset's points until
+ * it is re-pinned. Datasets only cover the units and enhancements that existed when they were
+ * published; anything newer is costed at current points, the same fallback the server uses.
+ *
+ * Everything here is pure; the editor store loads the rows and swaps pinned points in.
+ */
+
+import type {
+  PointsDataset, PointsDatasetEnhancement, PointsDatasetTier, PointsUpdateImpact, UnitPointsTier,
+} from '../../../shared/types/database';
+
+type TierPoints = Pick<PointsDatasetTier, 'model_count' | 'points'>;
+
+/** Points for units and enhancements, keyed by unit id and enhancement id. */
+export interface DatasetPoints {
+  tiers: Map<string, TierPoints[]>;
+  enhancements: Map<string, number>;
+}
+
+export interface PointsDiffRow {
+  /** army_list_units.id, or army_list_enhancements.enhancement_id for enhancements */
+  key: string;
+  name: string;
+  before: number;
+  after: number;
+}
+
+export interface PointsDiff {
+  /** Only the entries whose points change */
+  rows: PointsDiffRow[];
+  before: number;
+  after: number;
+}
+
+export interface DiffUnit {
+  id: string;
+  unitId: string;
+  name: string;
+  modelCount: number;
+}
+
+export interface DiffEnhancement {
+  enhancementId: string;
+  name: string;
+}
+
+export function datasetPoints(
+  tiers: Pick<PointsDatasetTier, 'unit_id' | 'model_count' | 'points'>[],
+  enhancements: Pick<PointsDatasetEnhancement, 'enhancement_id' | 'points'>[],
+): DatasetPoints {
+  const byUnit = new Map<string, TierPoints[]>();
+  for (const t of tiers) {
+    byUnit.set(t.unit_id, [...(byUnit.get(t.unit_id) ?? []), { model_count: t.model_count, points: t.points }]);
+  }
+  return {
+    tiers: byUnit,
+    enhancements: new Map(enhancements.map(e => [e.enhancement_id, e.points])),
+  };
+}
+
+/** `base` with everything `overlay` covers replaced — a pinned dataset over current points. */
+export function overlayPoints(base: DatasetPoints, overlay: DatasetPoints | null): DatasetPoints {
+  if (!overlay) return base;
+  return {
+    tiers: new Map([...base.tiers, ...overlay.tiers]),
+    enhancements: new Map([...base.enhancements, ...overlay.enhancements]),
+  };
+}
+
+/** The highest tier the model count reaches, as getUnitPoints does. */
+export function tierPoints(tiers: TierPoints[], modelCount: number): number {
+  let pts = 0;
+  for (const tier of [...tiers].sort((a, b) => a.model_count - b.model_count)) {
+    if (modelCount >= tier.model_count) pts = tier.points;
+  }
+  return pts;
+}
+
+/** Units with their points tiers swapped for the dataset's, where it has them. */
+export function withDatasetTiers<T extends { id: string; edition: string; unit_points_tiers: UnitPointsTier[] }>(
+  units: T[],
+  points: DatasetPoints,
+): T[] {
+  return units.map(unit => {
+    const tiers = points.tiers.get(unit.id);
+    if (!tiers) return unit;
+    return {
+      ...unit,
+      unit_points_tiers: tiers.map(t => ({
+        id: `${unit.id}:${t.model_count}`, unit_id: unit.id, edition: unit.edition, ...t,
+      })),
+    };
+  });
+}
+
+/** Enhancements with their points swapped for the dataset's, where it has them. */
+export function withDatasetEnhancementPoints<T extends { id: string; points: number }>(
+  enhancements: T[],
+  points: DatasetPoints,
+): T[] {
+  return enhancements.map(e => (points.enhancements.has(e.id) ? { ...e, points: points.enhancements.get(e.id)! } : e));
+}
+
+/** The newest dataset for an edition that has taken effect by `today` (YYYY-MM-DD). */
+export function latestDataset(datasets: PointsDataset[], edition: string, today: string): PointsDataset | null {
+  return datasets
+    .filter(d => d.edition === edition && d.effective_date <= today)
+    .reduce<PointsDataset | null>((latest, d) => (!latest || d.effective_date > latest.effective_date ? d : latest), null);
+}
+
+/** Per-unit and per-enhancement points changes between two sets of points. */
+export function diffListPoints(
+  units: DiffUnit[],
+  enhancements: DiffEnhancement[],
+  before: DatasetPoints,
+  after: DatasetPoints,
+): PointsDiff {
+  const rows: PointsDiffRow[] = [];
+  let beforeTotal = 0;
+  let afterTotal = 0;
+  const add = (key: string, name: string, from: number, to: number) => {
+    beforeTotal += from;
+    afterTotal += to;
+    if (from !== to) rows.push({ key, name, before: from, after: to });
+  };
+
+  for (const u of units) {
+    add(
+      u.id, u.name,
+      tierPoints(before.tiers.get(u.unitId) ?? [], u.modelCount),
+      tierPoints(after.tiers.get(u.unitId) ?? [], u.modelCount),
+    );
+  }
+  for (const e of enhancements) {
+    add(e.enhancementId, e.name, before.enhancements.get(e.enhancementId) ?? 0, after.enhancements.get(e.enhancementId) ?? 0);
+  }
+  return { rows, before: beforeTotal, after: afterTotal };
+}
+
+export interface ListPointsImpact extends PointsUpdateImpact {
+  delta: number;
+  overLimit: boolean;
+  /** Within the limit before the update and over it after */
+  newlyOverLimit: boolean;
+}
+
+/**
+ * The lists a points update touches: those whose total changes, biggest swing first,
+ * with the ones the update pushes over their points limit at the top.
+ */
+export function summarizeImpact(rows: PointsUpdateImpact[]): ListPointsImpact[] {
+  return rows
+    .filter(r => r.points_before !== r.points_after)
+    .map(r => ({
+      ...r,
+      delta: r.points_after - r.points_before,
+      overLimit: r.points_after > r.points_limit,
+      newlyOverLimit: r.points_after > r.points_limit && r.points_before <= r.points_limit,
+    }))
+    .sort((a, b) => Number(b.newlyOverLimit) - Number(a.newlyOverLimit) || Math.abs(b.delta) - Math.abs(a.delta));
+}
@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import type { Enhancement } from '../../../shared/types/database';
+import type { ArmyListUnitWithDetails, UnitWithRelations } from '../stores/listEditorStore';
+import { describeFillPick, suggestPointsFill, type PointsFillInput } from './pointsFill';
+
+function unit(
+  id: string, name: string, role: string, tiers: [number, number][], extra?: Partial<UnitWithRelations>,
+): UnitWithRelations {
+  return {
+    id, name, role, max_per_list: 3, is_legends: false, keywords: [], faction_keywords: [],
+    unit_points_tiers: tiers.map(([model_count, points], i) => ({ id: `${id}-t${i}`, unit_id: id, model_count, points })),
+    ...extra,
+  } as unknown as UnitWithRelations;
+}
+
+const captain = unit('u-cap', 'Captain', 'character', [[1, 80]], { max_per_list: 1 });
+const squad = unit('u-int', 'Intercessor Squad', 'battleline', [[5, 80], [10, 160]]);
+const scouts = unit('u-sco', 'Scout Squad', 'infantry', [[5, 70]]);
+const rhino = unit('u-rhi', 'Rhino', 'vehicle', [[1, 75]]);
+
+function mockInput(overrides?: Partial<PointsFillInput>): PointsFillInput {
+  return {
+    remaining: 160,
+    availableUnits: [captain, squad, scouts, rhino],
+    alliedUnitIds: new Set(),
+    listUnits: [],
+    enhancements: [],
+    listEnhancements: [],
+    showLegends: true,
+    showOwnedOnly: false,
+    ownedUnitCounts: new Map(),
+    ...overrides,
+  };
+}
+
+const names = (input: PointsFillInput, options?: Parameters<typeof suggestPointsFill>[1]) =>
+  suggestPointsFill(input, options).map(s => s.picks.map(describeFillPick).join(' + '));
+
+describe('suggestPointsFill', () => {
+  it('ranks exact fits first, preferring fewer picks', () => {
+    const suggestions = suggestPointsFill(mockInput());
+    expect(suggestions[0]).toMatchObject({ points: 160, leftover: 0 });
+    expect(suggestions[0].picks.map(describeFillPick)).toEqual(['Intercessor Squad (10)']);
+    expect(suggestions.every(s => s.points <= 160)).toBe(true);
+  });
+
+  it('returns nothing when the list is at or over its limit', () => {
+    expect(suggestPointsFill(mockInput({ remaining: 0 }))).toEqual([]);
+    expect(suggestPointsFill(mockInput({ remaining: -20 }))).toEqual([]);
+  });
+
+  it('respects max_per_list, counting copies already in the list', () => {
+    const listUnits = [{ id: 'alu-cap', unit_id: 'u-cap', model_count: 1, units: captain }] as ArmyListUnitWithDetails[];
+    const result = names(mockInput({ remaining: 80, listUnits }), { limit: 20 });
+    expect(result.some(n => n.includes('Captain'))).toBe(false);
+
+    // Two Captains would be an exact 160, but only one is allowed
+    expect(names(mockInput(), { limit: 20 })).not.toContain('Captain + Captain');
+  });
+
+  it('hides Legends units unless they are shown in the picker', () => {
+    const legend = unit('u-leg', 'Land Speeder Storm', 'vehicle', [[1, 160]], { is_legends: true });
+    expect(names(mockInput({ availableUnits: [legend, scouts], showLegends: false }))).not.toContain('Land Speeder Storm');
+    expect(names(mockInput({ availableUnits: [legend, scouts], showLegends: true }))[0]).toBe('Land Speeder Storm');
+  });
+
+  it('limits owned-only suggestions to spare models from the collection', () => {
+    const listUnits = [{ id: 'alu-sco', unit_id: 'u-sco', model_count: 5, units: scouts }] as ArmyListUnitWithDetails[];
+    const result = names(mockInput({
+      listUnits,
+      showOwnedOnly: true,
+      ownedUnitCounts: new Map([['u-sco', 2], ['u-rhi', 1]]),
+    }), { limit: 20 });
+
+    expect(result).toContain('Rhino + Scout Squad (5)');
+    expect(result).not.toContain('Scout Squad (5) + Scout Squad (5)');
+    expect(result.some(n => n.includes('Intercessor'))).toBe(false);
+  });
+
+  it('leaves allied units out', () => {
+    const result = names(mockInput({ alliedUnitIds: new Set(['u-int']) }), { limit: 20 });
+    expect(result.some(n => n.includes('Intercessor'))).toBe(false);
+  });
+
+  it('suggests eligible enhancements for unenhanced characters within the enhancement limit', () => {
+    const listUnits = [
+      { id: 'alu-cap', unit_id: 'u-cap', model_count: 1, units: captain },
+      { id: 'alu-int', unit_id: 'u-int', model_count: 5, units: squad },
+    ] as ArmyListUnitWithDetails[];
+    const enhancements = [
+      { id: 'enh-1', name: 'Artificer Armour', points: 10, description: 'ADEPTUS ASTARTES model only.' },
+      { id: 'enh-2', name: 'Fire Discipline', points: 25, description: 'ADEPTUS ASTARTES model only.' },
+    ] as Enhancement[];
+
+    const input = mockInput({ remaining: 35, listUnits, enhancements });
+    expect(names(input, { limit: 20 })).toEqual(['Fire Discipline on Captain', 'Artificer Armour on Captain']);
+    // One enhancement per character, and never on a non-character
+    expect(suggestPointsFill(input, { limit: 20 }).every(s => s.picks.length === 1)).toBe(true);
+
+    const full = names(mockInput({
+      remaining: 35, listUnits, enhancements,
+      listEnhancements: [
+        { enhancement_id: 'x', army_list_unit_id: 'a' },
+        { enhancement_id: 'y', army_list_unit_id: 'b' },
+        { enhancement_id: 'z', army_list_unit_id: 'c' },
+      ],
+    }));
+    expect(full).toEqual([]);
+  });
+
+  it('nudges the ranking towards a preferred role', () => {
+    const onlyRhino = { ...rhino, max_per_list: 1 };
+    const input = mockInput({ remaining: 150, availableUnits: [scouts, onlyRhino] });
+    expect(names(input)[0]).toBe('Rhino + Scout Squad (5)');
+    expect(names(input, { role: 'infantry' })[0]).toBe('Scout Squad (5) + Scout Squad (5)');
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * "Fill remaining points": finds small combinations of units (at any of their points tiers)
+ * and enhancements for characters already in the list that fit the points left over.
+ *
+ * The search is a depth-first walk over candidates sorted by cost, so each multiset of picks
+ * is visited once. It respects the same constraints as the unit picker — max_per_list,
+ * the Legends and owned-only filters — plus the enhancement limit. Results are ranked by
+ * how close they get to the limit, nudged towards an optional preferred role.
+ */
+
+import type { Enhancement } from '../../../shared/types/database';
+import type { ArmyListUnitWithDetails, UnitWithRelations } from '../stores/listEditorStore';
+import { buildAllUnitKeywords, isEnhancementEligible } from './enhancementEligibility';
+import { MAX_ENHANCEMENTS } from './listRules';
+
+export type FillPick =
+  | { type: 'unit'; unit: UnitWithRelations; modelCount: number; points: number }
+  | { type: 'enhancement'; enhancement: Enhancement; armyListUnitId: string; unitName: string; points: number };
+
+export interface FillSuggestion {
+  picks: FillPick[];
+  points: number;
+  /** Points still unspent after adding the picks */
+  leftover: number;
+}
+
+export interface PointsFillInput {
+  remaining: number;
+  availableUnits: UnitWithRelations[];
+  /** Allied units have their own limits, so they're left to the user */
+  alliedUnitIds: Set<string>;
+  listUnits: ArmyListUnitWithDetails[];
+  enhancements: Enhancement[];
+  listEnhancements: { enhancement_id: string; army_list_unit_id: string }[];
+  showLegends: boolean;
+  showOwnedOnly: boolean;
+  /** Owned copies per unit, from the collection */
+  ownedUnitCounts: Map<string, number>;
+}
+
+export interface PointsFillOptions {
+  /** Battlefield role to favour, e.g. 'battleline' */
+  role?: string | null;
+  /** Most picks in one suggestion */
+  maxPicks?: number;
+  /** Most suggestions returned */
+  limit?: number;
+}
+
+/** Ranking cost of each unit pick outside the preferred role, in points of leftover. */
+const ROLE_MISMATCH_PENALTY = 10;
+/** Search budget, so a huge catalogue and a big gap can't stall the editor */
+const MAX_NODES = 20000;
+
+interface Candidate {
+  pick: FillPick;
+  /** Group the copies limit applies to: unit ID or enhancement ID */
+  key: string;
+  /** Character receiving an enhancement */
+  target: string | null;
+}
+
+function unitCandidates(input: PointsFillInput, copiesLeft: Map<string, number>): Candidate[] {
+  const candidates: Candidate[] = [];
+  const inList = new Map<string, number>();
+  for (const lu of input.listUnits) inList.set(lu.unit_id, (inList.get(lu.unit_id) ?? 0) + 1);
+
+  for (const unit of input.availableUnits) {
+    if (input.alliedUnitIds.has(unit.id)) continue;
+    if (!input.showLegends && unit.is_legends) continue;
+
+    let copies = unit.max_per_list - (inList.get(unit.id) ?? 0);
+    if (input.showOwnedOnly) copies = Math.min(copies, (input.ownedUnitCounts.get(unit.id) ?? 0) - (inList.get(unit.id) ?? 0));
+    if (copies <= 0) continue;
+    copiesLeft.set(unit.id, copies);
+
+    const seenSizes = new Set<number>();
+    for (const tier of unit.unit_points_tiers) {
+      if (tier.points > input.remaining || tier.points <= 0 || seenSizes.has(tier.model_count)) continue;
+      seenSizes.add(tier.model_count);
+      candidates.push({
+        pick: { type: 'unit', unit, modelCount: tier.model_count, points: tier.points },
+        key: unit.id,
+        target: null,
+      });
+    }
+  }
+  return candidates;
+}
+
+function enhancementCandidates(input: PointsFillInput, copiesLeft: Map<string, number>): Candidate[] {
+  const assigned = new Set(input.listEnhancements.map(le => le.enhancement_id));
+  const enhanced = new Set(input.listEnhancements.map(le => le.army_list_unit_id));
+  const characters = input.listUnits.filter(lu => lu.units.role === 'character' && !enhanced.has(lu.id));
+  const allUnitKeywords = buildAllUnitKeywords(input.availableUnits);
+
+  const candidates: Candidate[] = [];
+  for (const enhancement of input.enhancements) {
+    if (assigned.has(enhancement.id) || enhancement.points > input.remaining) continue;
+    copiesLeft.set(enhancement.id, 1);
+    for (const lu of characters) {
+      if (!isEnhancementEligible(enhancement, lu.units, allUnitKeywords)) continue;
+      candidates.push({
+        pick: { type: 'enhancement', enhancement, armyListUnitId: lu.id, unitName: lu.units.name, points: enhancement.points },
+        key: enhancement.id,
+        target: lu.id,
+      });
+    }
+  }
+  return candidates;
+}
+
+function rankScore(suggestion: FillSuggestion, role: string | null | undefined): number {
+  if (!role) return suggestion.leftover;
+  const mismatches = suggestion.picks.filter(p => p.type === 'unit' && p.unit.role !== role).length;
+  return suggestion.leftover + mismatches * ROLE_MISMATCH_PENALTY;
+}
+
+export function suggestPointsFill(input: PointsFillInput, options: PointsFillOptions = {}): FillSuggestion[] {
+  const { role = null, maxPicks = 3, limit = 8 } = options;
+  if (input.remaining <= 0) return [];
+
+  const copiesLeft = new Map<string, number>();
+  const enhancementSlots = MAX_ENHANCEMENTS - input.listEnhancements.length;
+  const candidates = [
+    ...unitCandidates(input, copiesLeft),
+    ...(enhancementSlots > 0 ? enhancementCandidates(input, copiesLeft) : []),
+  ].sort((a, b) => b.pick.points - a.pick.points);
+
+  const found: FillSuggestion[] = [];
+  const picks: Candidate[] = [];
+  const usedTargets = new Set<string>();
+  let enhancementsUsed = 0;
+  let nodes = 0;
+
+  function visit(start: number, spent: number) {
+    if (picks.length > 0) {
+      found.push({ picks: picks.map(c => c.pick), points: spent, leftover: input.remaining - spent });
+    }
+    if (picks.length >= maxPicks) return;
+
+    for (let i = start; i < candidates.length; i++) {
+      if (++nodes > MAX_NODES) return;
+      const c = candidates[i];
+      if (spent + c.pick.points > input.remaining) continue;
+      if ((copiesLeft.get(c.key) ?? 0) <= 0) continue;
+      if (c.target && (usedTargets.has(c.target) || enhancementsUsed >= enhancementSlots)) continue;
+
+      copiesLeft.set(c.key, copiesLeft.get(c.key)! - 1);
+      if (c.target) { usedTargets.add(c.target); enhancementsUsed++; }
+      picks.push(c);
+      // Same index again: another copy of this unit at this size is allowed
+      visit(i, spent + c.pick.points);
+      picks.pop();
+      if (c.target) { usedTargets.delete(c.target); enhancementsUsed--; }
+      copiesLeft.set(c.key, copiesLeft.get(c.key)! + 1);
+    }
+  }
+  visit(0, 0);
+
+  return found
+    .map(s => ({ s, score: rankScore(s, role) }))
+    .sort((a, b) => a.score - b.score || a.s.picks.length - b.s.picks.length)
+    .slice(0, limit)
+    .map(({ s }) => s);
+}
+
+/** e.g. "Intercessor Squad (10)" or "Artificer Armour on Captain" */
+export function describeFillPick(pick: FillPick): string {
+  if (pick.type === 'enhancement') return `${pick.enhancement.name} on ${pick.unitName}`;
+  return pick.modelCount > 1 ? `${pick.unit.name} (${pick.modelCount})` : pick.unit.name;
+}
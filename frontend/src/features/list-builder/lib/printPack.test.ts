@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import type { Enhancement, ModelVariant, WargearOption, WargearSubOption } from '../../../shared/types/database';
+import type { ArmyListUnitWithDetails, UnitWithRelations } from '../stores/listEditorStore';
+import { buildPrintPackUnits, groupPrintPackUnits, type PrintPackSource } from './printPack';
+
+function unit(id: string, name: string, role: string, points: number): UnitWithRelations {
+  return {
+    id, name, role, weapons: [], abilities: [],
+    unit_points_tiers: [{ id: `${id}-t`, unit_id: id, model_count: 1, points }],
+  } as unknown as UnitWithRelations;
+}
+
+const captain = unit('u-cap', 'Captain', 'character', 80);
+const squad = unit('u-int', 'Intercessor Squad', 'battleline', 80);
+const redemptor = unit('u-red', 'Redemptor Dreadnought', 'vehicle', 210);
+
+function mockSource(overrides?: Partial<PrintPackSource>): PrintPackSource {
+  return {
+    listUnits: [
+      { id: 'alu-red', unit_id: 'u-red', model_count: 1, sort_order: 0, units: redemptor },
+      { id: 'alu-int', unit_id: 'u-int', model_count: 10, sort_order: 1, units: squad },
+      { id: 'alu-cap', unit_id: 'u-cap', model_count: 1, sort_order: 2, units: captain },
+    ] as ArmyListUnitWithDetails[],
+    enhancements: [{ id: 'enh-1', name: 'Artificer Armour', points: 10 } as Enhancement],
+    listEnhancements: [{ id: 'le-1', enhancement_id: 'enh-1', army_list_unit_id: 'alu-cap' }],
+    wargearOptions: [
+      { id: 'opt-sword', unit_id: 'u-int', group_name: 'Sergeant weapon', name: 'Chainsword', is_default: true },
+      { id: 'opt-fist', unit_id: 'u-int', group_name: 'Sergeant weapon', name: 'Power fist', is_default: false },
+      { id: 'opt-gl', unit_id: 'u-int', group_name: 'Special weapon', name: 'Grenade launchers', is_default: false },
+      { id: 'opt-fist-red', unit_id: 'u-red', group_name: 'Arm', name: 'Redemptor fist', is_default: true },
+    ] as WargearOption[],
+    wargearSubOptions: [{ id: 'sub-agl', wargear_option_id: 'opt-gl', name: 'Astartes grenade launcher' } as WargearSubOption],
+    unitWargearSelections: new Map([['alu-int', new Map([['Special weapon', 'opt-gl']])]]),
+    unitWargearRowIds: new Map([['alu-int', new Map([['opt-gl', 'row-1']])]]),
+    unitWargearSubSelections: new Map([['row-1', new Map([['sub-agl', 2]])]]),
+    modelVariants: [
+      { id: 'mv-sgt', unit_id: 'u-int', name: 'Intercessor Sergeant', is_leader: true, min_count: 1 },
+      { id: 'mv-int', unit_id: 'u-int', name: 'Intercessor', is_leader: false, min_count: 4 },
+    ] as ModelVariant[],
+    unitCompositions: new Map([['alu-int', new Map([['mv-int', 9]])]]),
+    leaderAttachments: [
+      { id: 'la-1', army_list_id: 'list-1', leader_army_list_unit_id: 'alu-cap', target_army_list_unit_id: 'alu-int' },
+    ],
+    transportEmbarks: [],
+    ...overrides,
+  };
+}
+
+describe('buildPrintPackUnits', () => {
+  it('adds the enhancement to the unit points and names the leader pairing both ways', () => {
+    const [, squadRow, captainRow] = buildPrintPackUnits(mockSource());
+
+    expect(captainRow).toMatchObject({ points: 90, enhancement: { name: 'Artificer Armour' }, leading: 'Intercessor Squad', ledBy: [] });
+    expect(squadRow).toMatchObject({ points: 80, enhancement: null, leading: null, ledBy: ['Captain'] });
+  });
+
+  it('lists chosen wargear with sub-option quantities, falling back to group defaults', () => {
+    const [redemptorRow, squadRow] = buildPrintPackUnits(mockSource());
+
+    expect(squadRow.wargear).toEqual(['Chainsword', 'Grenade launchers (2× Astartes grenade launcher)']);
+    // A single-option group is just the datasheet loadout, not a choice
+    expect(redemptorRow.wargear).toEqual([]);
+  });
+
+  it('names the transport each unit starts in and what each transport carries', () => {
+    const rhino = unit('u-rhi', 'Rhino', 'dedicated_transport', 75);
+    const source = mockSource();
+    const units = buildPrintPackUnits({
+      ...source,
+      listUnits: [...source.listUnits, { id: 'alu-rhi', unit_id: 'u-rhi', model_count: 1, sort_order: 3, units: rhino } as ArmyListUnitWithDetails],
+      transportEmbarks: [
+        { id: 'te-1', army_list_id: 'list-1', transport_army_list_unit_id: 'alu-rhi', passenger_army_list_unit_id: 'alu-int' },
+        { id: 'te-2', army_list_id: 'list-1', transport_army_list_unit_id: 'alu-rhi', passenger_army_list_unit_id: 'alu-cap' },
+      ],
+    });
+
+    expect(units.map(u => [u.unit.name, u.embarkedIn, u.carrying])).toEqual([
+      ['Redemptor Dreadnought', null, []],
+      ['Intercessor Squad', 'Rhino', []],
+      ['Captain', 'Rhino', []],
+      ['Rhino', null, ['Intercessor Squad', 'Captain']],
+    ]);
+  });
+
+  it('counts the leader model from its variant minimum', () => {
+    const [, squadRow] = buildPrintPackUnits(mockSource());
+    expect(squadRow.composition).toEqual(['1× Intercessor Sergeant', '9× Intercessor']);
+  });
+});
+
+describe('groupPrintPackUnits', () => {
+  it('orders sections by battlefield role, keeping list order within each', () => {
+    const groups = groupPrintPackUnits(buildPrintPackUnits(mockSource()));
+    expect(groups.map(([role, units]) => [role, units.map(u => u.unit.name)])).toEqual([
+      ['character', ['Captain']],
+      ['battleline', ['Intercessor Squad']],
+      ['vehicle', ['Redemptor Dreadnought']],
+    ]);
+  });
+});
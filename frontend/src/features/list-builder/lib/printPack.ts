@@ -0,0 +1,141 @@
+/**
+ * The data behind the printable tournament pack (see `PrintPack`).
+ *
+ * Flattens the editor's maps into one record per unit with everything a judge or opponent
+ * needs on paper: points including the enhancement, chosen wargear with sub-option
+ * quantities, model composition, who leads whom and who rides in what. Rendering lives in the component.
+ */
+
+import type {
+  Enhancement, LeaderAttachment, ModelVariant, TransportEmbark, WargearOption, WargearSubOption,
+} from '../../../shared/types/database';
+import type { ArmyListUnitWithDetails, UnitWithRelations } from '../stores/listEditorStore';
+import { ROLE_ORDER, getUnitPoints } from '../stores/listEditorStore';
+
+export type PrintLayout = 'roster' | 'roster-datasheets' | 'unit-pages';
+
+export const PRINT_LAYOUTS: { id: PrintLayout; label: string; description: string }[] = [
+  { id: 'roster', label: 'Roster only', description: 'One page listing every unit and its selections.' },
+  { id: 'roster-datasheets', label: 'Roster + datasheets', description: 'The roster, followed by compact datasheets.' },
+  { id: 'unit-pages', label: 'One page per unit', description: 'The roster, then a full datasheet on its own page for each unit.' },
+];
+
+export interface PrintPackOptions {
+  layout: PrintLayout;
+  /** Share URL to encode as a QR code; null to leave it off */
+  shareUrl: string | null;
+  /** Append the detachment rule and its stratagems */
+  includeAppendix: boolean;
+}
+
+export interface PrintPackUnit {
+  id: string;
+  unit: UnitWithRelations;
+  modelCount: number;
+  /** Including the enhancement */
+  points: number;
+  enhancement: Enhancement | null;
+  /** Chosen wargear, e.g. "Grenade launchers (2× Astartes grenade launcher)" */
+  wargear: string[];
+  /** e.g. ["1× Intercessor Sergeant", "9× Intercessor"] */
+  composition: string[];
+  /** Name of the unit this leader is attached to */
+  leading: string | null;
+  /** Names of the leaders attached to this unit */
+  ledBy: string[];
+  /** Name of the transport this unit starts the battle in */
+  embarkedIn: string | null;
+  /** Names of the units starting the battle inside this transport */
+  carrying: string[];
+}
+
+export interface PrintPackSource {
+  listUnits: ArmyListUnitWithDetails[];
+  enhancements: Enhancement[];
+  listEnhancements: { id: string; enhancement_id: string; army_list_unit_id: string }[];
+  wargearOptions: WargearOption[];
+  wargearSubOptions: WargearSubOption[];
+  unitWargearSelections: Map<string, Map<string, string>>;
+  unitWargearRowIds: Map<string, Map<string, string>>;
+  unitWargearSubSelections: Map<string, Map<string, number>>;
+  modelVariants: ModelVariant[];
+  unitCompositions: Map<string, Map<string, number>>;
+  leaderAttachments: LeaderAttachment[];
+  transportEmbarks: TransportEmbark[];
+}
+
+/**
+ * The wargear a unit is fielding: the selected option in each group that offers a choice,
+ * or the group's default when nothing was selected.
+ */
+function chosenWargear(source: PrintPackSource, lu: ArmyListUnitWithDetails): string[] {
+  const selected = source.unitWargearSelections.get(lu.id);
+  const rowIds = source.unitWargearRowIds.get(lu.id);
+  const groups = new Map<string, WargearOption[]>();
+  for (const opt of source.wargearOptions.filter(w => w.unit_id === lu.unit_id)) {
+    if (!groups.has(opt.group_name)) groups.set(opt.group_name, []);
+    groups.get(opt.group_name)!.push(opt);
+  }
+
+  const names: string[] = [];
+  for (const [group, options] of groups) {
+    const optionId = selected?.get(group);
+    const option = options.find(o => o.id === optionId) ?? (options.length > 1 ? options.find(o => o.is_default) : undefined);
+    if (!option) continue;
+
+    const rowId = rowIds?.get(option.id);
+    const subs = [...(rowId ? source.unitWargearSubSelections.get(rowId) ?? [] : [])]
+      .filter(([, quantity]) => quantity > 0)
+      .map(([subId, quantity]) => `${quantity}× ${source.wargearSubOptions.find(so => so.id === subId)?.name ?? 'option'}`);
+    names.push(subs.length > 0 ? `${option.name} (${subs.join(', ')})` : option.name);
+  }
+  return names;
+}
+
+function compositionLines(source: PrintPackSource, lu: ArmyListUnitWithDetails): string[] {
+  const counts = source.unitCompositions.get(lu.id);
+  return source.modelVariants
+    .filter(v => v.unit_id === lu.unit_id)
+    .map(v => [v, v.is_leader ? v.min_count : (counts?.get(v.id) ?? 0)] as const)
+    .filter(([, count]) => count > 0)
+    .map(([v, count]) => `${count}× ${v.name}`);
+}
+
+/** One record per unit, in list order. */
+export function buildPrintPackUnits(source: PrintPackSource): PrintPackUnit[] {
+  const nameOf = (armyListUnitId: string) =>
+    source.listUnits.find(lu => lu.id === armyListUnitId)?.units.name ?? 'Unknown unit';
+
+  return source.listUnits.map((lu) => {
+    const assigned = source.listEnhancements.find(le => le.army_list_unit_id === lu.id);
+    const enhancement = assigned ? source.enhancements.find(e => e.id === assigned.enhancement_id) ?? null : null;
+    const leading = source.leaderAttachments.find(a => a.leader_army_list_unit_id === lu.id);
+    const embark = source.transportEmbarks.find(e => e.passenger_army_list_unit_id === lu.id);
+
+    return {
+      id: lu.id,
+      unit: lu.units,
+      modelCount: lu.model_count,
+      points: getUnitPoints(lu.units, lu.model_count) + (enhancement?.points ?? 0),
+      enhancement,
+      wargear: chosenWargear(source, lu),
+      composition: compositionLines(source, lu),
+      leading: leading ? nameOf(leading.target_army_list_unit_id) : null,
+      ledBy: source.leaderAttachments
+        .filter(a => a.target_army_list_unit_id === lu.id)
+        .map(a => nameOf(a.leader_army_list_unit_id)),
+      embarkedIn: embark ? nameOf(embark.transport_army_list_unit_id) : null,
+      carrying: source.transportEmbarks
+        .filter(e => e.transport_army_list_unit_id === lu.id)
+        .map(e => nameOf(e.passenger_army_list_unit_id)),
+    };
+  });
+}
+
+/** Units grouped by battlefield role, in the roster's section order. */
+export function groupPrintPackUnits(units: PrintPackUnit[]): [string, PrintPackUnit[]][] {
+  const order: readonly string[] = ROLE_ORDER;
+  const roles = [...new Set(units.map(u => u.unit.role))]
+    .sort((a, b) => (order.indexOf(a) + 1 || order.length + 1) - (order.indexOf(b) + 1 || order.length + 1));
+  return roles.map(role => [role, units.filter(u => u.unit.role === role)]);
+}
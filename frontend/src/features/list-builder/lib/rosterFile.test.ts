@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import { parseRosterXml, readRosterFile } from './rosterFile';
+
+const ROSTER_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<roster id="r1" name="Gladius 2k" battleScribeVersion="2.03" xmlns="http://www.battlescribe.net/schema/rosterSchema">
+  <costs><cost name="pts" typeId="pts" value="1995"/></costs>
+  <costLimits><costLimit name="pts" typeId="pts" value="2000"/></costLimits>
+  <forces>
+    <force id="f1" name="Army Roster" catalogueName="Imperium - Space Marines">
+      <selections>
+        <selection id="s1" name="Battle Size" number="1" type="upgrade">
+          <selections><selection id="s2" name="2. Strike Force (2000 Point limit)" number="1" type="upgrade"/></selections>
+        </selection>
+        <selection id="s3" name="Detachment" number="1" type="upgrade">
+          <selections><selection id="s4" name="Gladius Task Force" number="1" type="upgrade"/></selections>
+        </selection>
+        <selection id="s5" name="Captain" number="1" type="model">
+          <rules><rule name="Leader"/></rules>
+          <selections>
+            <selection id="s6" name="Warlord" number="1" type="upgrade"/>
+            <selection id="s7" name="Artificer Armour" number="1" type="upgrade" group="Enhancements"/>
+          </selections>
+        </selection>
+        <selection id="s8" name="Intercessor Squad" number="1" type="unit">
+          <selections>
+            <selection id="s9" name="Intercessor Sergeant" number="1" type="model">
+              <selections><selection id="s10" name="Power fist" number="1" type="upgrade"/></selections>
+            </selection>
+            <selection id="s11" name="Intercessor" number="4" type="model"/>
+          </selections>
+        </selection>
+      </selections>
+    </force>
+  </forces>
+</roster>`;
+
+/** Builds a single-entry zip archive, like a .rosz, in memory. */
+async function zipRoster(xml: string, compress: boolean): Promise<ArrayBuffer> {
+  const encoder = new TextEncoder();
+  const name = encoder.encode('Gladius 2k.ros');
+  const raw = encoder.encode(xml);
+  let data = raw;
+  if (compress) {
+    const stream = new CompressionStream('deflate-raw');
+    const writer = stream.writable.getWriter();
+    writer.write(raw);
+    writer.close();
+    data = new Uint8Array(await new Response(stream.readable).arrayBuffer());
+  }
+
+  const local = new DataView(new ArrayBuffer(30));
+  local.setUint32(0, 0x04034b50, true);
+  local.setUint16(8, compress ? 8 : 0, true);
+  local.setUint32(18, data.length, true);
+  local.setUint32(22, raw.length, true);
+  local.setUint16(26, name.length, true);
+
+  const central = new DataView(new ArrayBuffer(46));
+  central.setUint32(0, 0x02014b50, true);
+  central.setUint16(10, compress ? 8 : 0, true);
+  central.setUint32(20, data.length, true);
+  central.setUint32(24, raw.length, true);
+  central.setUint16(28, name.length, true);
+  central.setUint32(42, 0, true);
+
+  const centralOffset = 30 + name.length + data.length;
+  const eocd = new DataView(new ArrayBuffer(22));
+  eocd.setUint32(0, 0x06054b50, true);
+  eocd.setUint16(8, 1, true);
+  eocd.setUint16(10, 1, true);
+  eocd.setUint32(12, 46 + name.length, true);
+  eocd.setUint32(16, centralOffset, true);
+
+  const parts = [new Uint8Array(local.buffer), name, data, new Uint8Array(central.buffer), name, new Uint8Array(eocd.buffer)];
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  parts.reduce((offset, p) => (out.set(p, offset), offset + p.length), 0);
+  return out.buffer;
+}
+
+describe('parseRosterXml', () => {
+  it('reads the roster name, limit, detachment and unit selections', () => {
+    const roster = parseRosterXml(ROSTER_XML);
+
+    expect(roster.name).toBe('Gladius 2k');
+    expect(roster.catalogueName).toBe('Imperium - Space Marines');
+    expect(roster.pointsLimit).toBe(2000);
+    expect(roster.detachmentName).toBe('Gladius Task Force');
+    expect(roster.units.map(u => u.name)).toEqual(['Captain', 'Intercessor Squad']);
+  });
+
+  it('keeps the nested selection tree with counts and groups', () => {
+    const [captain, squad] = parseRosterXml(ROSTER_XML).units;
+
+    expect(captain.selections).toEqual([
+      { name: 'Warlord', type: 'upgrade', number: 1, group: null, selections: [] },
+      { name: 'Artificer Armour', type: 'upgrade', number: 1, group: 'Enhancements', selections: [] },
+    ]);
+    expect(squad.selections.map(s => [s.name, s.type, s.number])).toEqual([
+      ['Intercessor Sergeant', 'model', 1],
+      ['Intercessor', 'model', 4],
+    ]);
+    expect(squad.selections[0].selections[0].name).toBe('Power fist');
+  });
+
+  it('rejects files that are not rosters', () => {
+    expect(() => parseRosterXml('<catalogue name="Space Marines"/>')).toThrow('not a BattleScribe roster');
+    expect(() => parseRosterXml('not xml at all')).toThrow('not a BattleScribe roster');
+  });
+});
+
+describe('readRosterFile', () => {
+  it('reads a plain .ros file', async () => {
+    const roster = await readRosterFile(new TextEncoder().encode(ROSTER_XML).buffer as ArrayBuffer);
+    expect(roster.units).toHaveLength(2);
+  });
+
+  it('unzips deflated and stored .rosz archives', async () => {
+    for (const compress of [true, false]) {
+      const roster = await readRosterFile(await zipRoster(ROSTER_XML, compress));
+      expect(roster.name).toBe('Gladius 2k');
+      expect(roster.units).toHaveLength(2);
+    }
+  });
+});
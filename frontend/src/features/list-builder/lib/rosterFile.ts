@@ -0,0 +1,184 @@
+/**
+ * Reads BattleScribe / New Recruit roster files.
+ *
+ * `.ros` is the roster XML; `.rosz` is the same XML in a zip archive. The zip is unpacked
+ * with the browser's `DecompressionStream`, so no archive library is needed. The parsed
+ * roster keeps the raw selection tree — matching it against our catalogue happens in
+ * `rosterImport.ts`.
+ */
+
+import { parseBattleSize } from './importFormats/textUtils';
+
+export interface RosterSelection {
+  name: string;
+  /** BattleScribe entry type: 'unit', 'model' or 'upgrade' */
+  type: string;
+  number: number;
+  /** Entry group the selection was made from, when the roster records it (e.g. "Enhancements") */
+  group: string | null;
+  selections: RosterSelection[];
+}
+
+/** A leader joining a unit, by index into `ParsedRoster.units` */
+export interface RosterAttachment {
+  leader: number;
+  /** null when the named unit isn't in the roster */
+  target: number | null;
+  targetName: string;
+}
+
+export interface ParsedRoster {
+  name: string;
+  /** Catalogue of the first force, e.g. "Imperium - Space Marines" */
+  catalogueName: string | null;
+  detachmentName: string | null;
+  /** One of the battle size IDs, e.g. 'strike_force' */
+  battleSize: string | null;
+  pointsLimit: number | null;
+  /** Unit and model selections, in roster order */
+  units: RosterSelection[];
+  /** Leader attachments the source records; null when it doesn't and they must be inferred */
+  attachments: RosterAttachment[] | null;
+}
+
+// ============================================================
+// Zip
+// ============================================================
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+
+function isZip(bytes: Uint8Array): boolean {
+  return bytes.length >= 4 && bytes[0] === 0x50 && bytes[1] === 0x4b && bytes[2] === 0x03 && bytes[3] === 0x04;
+}
+
+async function inflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new DecompressionStream('deflate-raw');
+  const writer = stream.writable.getWriter();
+  // Errors surface through the readable side; don't leave the writer's promises unhandled
+  writer.write(data as Uint8Array<ArrayBuffer>).then(() => writer.close()).catch(() => {});
+  return new Uint8Array(await new Response(stream.readable).arrayBuffer());
+}
+
+/** Contents of the first `.ros` entry in a zip archive. */
+async function unzipRoster(bytes: Uint8Array): Promise<Uint8Array> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  // End of central directory: scan back over the (up to 64 KB) archive comment
+  let eocd = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === EOCD_SIGNATURE) { eocd = i; break; }
+  }
+  if (eocd < 0) throw new Error('The .rosz file is not a valid zip archive.');
+
+  const entryCount = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  const decoder = new TextDecoder();
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_SIGNATURE) break;
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (!name.toLowerCase().endsWith('.ros')) continue;
+    if (view.getUint32(localOffset, true) !== LOCAL_SIGNATURE) break;
+
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const data = bytes.subarray(dataStart, dataStart + compressedSize);
+    if (method === 0) return data;
+    if (method === 8) return inflateRaw(data);
+    throw new Error(`Unsupported zip compression method (${method}).`);
+  }
+
+  throw new Error('The .rosz archive does not contain a .ros roster.');
+}
+
+// ============================================================
+// XML
+// ============================================================
+
+/** Direct children of `el` with the given local name (namespace-agnostic). */
+function children(el: Element, name: string): Element[] {
+  return Array.from(el.children).filter(c => c.localName === name);
+}
+
+function child(el: Element, name: string): Element | undefined {
+  return children(el, name)[0];
+}
+
+/** Elements inside a wrapper, e.g. the `<selection>`s in `<selections>`. */
+function listed(el: Element, wrapper: string, name: string): Element[] {
+  const container = child(el, wrapper);
+  return container ? children(container, name) : [];
+}
+
+function readSelection(el: Element): RosterSelection {
+  return {
+    name: el.getAttribute('name')?.trim() ?? '',
+    type: el.getAttribute('type') ?? 'upgrade',
+    number: parseInt(el.getAttribute('number') ?? '1', 10) || 1,
+    group: el.getAttribute('group'),
+    selections: listed(el, 'selections', 'selection').map(readSelection),
+  };
+}
+
+/** Forces can nest (e.g. an allied force inside the main one); flatten them in document order. */
+function allForces(el: Element): Element[] {
+  return listed(el, 'forces', 'force').flatMap(force => [force, ...allForces(force)]);
+}
+
+const DETACHMENT_SELECTION = /^detachment( choice)?$/i;
+const BATTLE_SIZE_SELECTION = /^battle size$/i;
+
+export function parseRosterXml(xml: string): ParsedRoster {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  const root = doc.documentElement;
+  if (!root || root.localName !== 'roster' || doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('This file is not a BattleScribe roster.');
+  }
+
+  const forces = allForces(root);
+  const limit = listed(root, 'costLimits', 'costLimit')
+    .find(c => c.getAttribute('name')?.trim() === 'pts');
+  const pointsLimit = limit ? parseFloat(limit.getAttribute('value') ?? '') : NaN;
+
+  let detachmentName: string | null = null;
+  let battleSize: string | null = null;
+  const units: RosterSelection[] = [];
+
+  for (const force of forces) {
+    for (const sel of listed(force, 'selections', 'selection').map(readSelection)) {
+      if (sel.type === 'unit' || sel.type === 'model') {
+        units.push(sel);
+      } else if (DETACHMENT_SELECTION.test(sel.name) && !detachmentName) {
+        detachmentName = sel.selections[0]?.name ?? null;
+      } else if (BATTLE_SIZE_SELECTION.test(sel.name) && !battleSize) {
+        battleSize = parseBattleSize(sel.selections[0]?.name ?? '')?.battleSize ?? null;
+      }
+    }
+  }
+
+  return {
+    name: root.getAttribute('name') ?? '',
+    catalogueName: forces[0]?.getAttribute('catalogueName') ?? null,
+    detachmentName,
+    battleSize,
+    pointsLimit: pointsLimit > 0 ? pointsLimit : null,
+    units,
+    attachments: null,
+  };
+}
+
+/** Parses a `.ros` or `.rosz` file's bytes; zipped rosters are detected by content, not extension. */
+export async function readRosterFile(data: ArrayBuffer): Promise<ParsedRoster> {
+  const bytes = new Uint8Array(data);
+  const xmlBytes = isZip(bytes) ? await unzipRoster(bytes) : bytes;
+  return parseRosterXml(new TextDecoder().decode(xmlBytes));
+}
@@ -0,0 +1,192 @@
+import { describe, it, expect } from 'vitest';
+import { uuidFromSeed } from '../../../shared/lib/uuidFromSeed';
+import type { Detachment, WargearOption } from '../../../shared/types/database';
+import type { UnitWithRelations } from '../stores/listEditorStore';
+import type { ParsedRoster, RosterSelection } from './rosterFile';
+import { findRosterDetachment, planRosterImport, type RosterCatalogue } from './rosterImport';
+
+const F = 'Space Marines';
+const seed = (...parts: string[]) => uuidFromSeed(parts.join(':'));
+
+function mockUnit(name: string, weapons: string[] = []): UnitWithRelations {
+  return {
+    id: seed('unit', F, name), faction_id: seed('faction', F), name, role: 'infantry',
+    max_per_list: 3, keywords: [], unit_points_tiers: [], abilities: [],
+    weapons: weapons.map(w => ({ name: w })),
+  } as unknown as UnitWithRelations;
+}
+
+function option(unit: string, group: string, name: string, isDefault = false): WargearOption {
+  return {
+    id: seed('wargear', F, unit, group, name), unit_id: seed('unit', F, unit), group_name: group, name,
+    is_default: isDefault, is_required: false, points: 0, model_variant_id: null, pool_group: null, pool_max: null, edition: '10e',
+  };
+}
+
+const gladius = { id: seed('detachment', F, 'Gladius Task Force'), faction_id: seed('faction', F), name: 'Gladius Task Force' } as Detachment;
+
+function mockCatalogue(): RosterCatalogue {
+  return {
+    factionNames: [F],
+    availableUnits: [mockUnit('Captain'), mockUnit('Intercessor Squad', ['Bolt rifle', 'Bolt pistol'])],
+    availableDetachments: [gladius],
+    enhancements: [{
+      id: seed('enhancement', F, 'Gladius Task Force', 'Artificer Armour'), detachment_id: gladius.id,
+      name: 'Artificer Armour', points: 10, description: '', edition: '10e',
+    }],
+    wargearOptions: [
+      option('Intercessor Squad', 'Sergeant weapon', 'Chainsword', true),
+      option('Intercessor Squad', 'Sergeant weapon', 'Power fist'),
+      option('Intercessor Squad', 'Special weapon', 'Grenade launchers'),
+    ],
+    wargearSubOptions: [{
+      id: seed('wargear_sub', F, 'Intercessor Squad', 'Special weapon', 'Grenade launchers', 'Astartes grenade launcher'),
+      wargear_option_id: seed('wargear', F, 'Intercessor Squad', 'Special weapon', 'Grenade launchers'),
+      name: 'Astartes grenade launcher', max_count: 2, points: 0,
+    }],
+    modelVariants: [
+      { id: seed('model_variant', F, 'Intercessor Squad', 'Intercessor Sergeant'), unit_id: seed('unit', F, 'Intercessor Squad'), name: 'Intercessor Sergeant', min_count: 1, max_count: 1, default_count: 1, is_leader: true, sort_order: 0, group_name: null },
+      { id: seed('model_variant', F, 'Intercessor Squad', 'Intercessor'), unit_id: seed('unit', F, 'Intercessor Squad'), name: 'Intercessor', min_count: 4, max_count: 9, default_count: 4, is_leader: false, sort_order: 1, group_name: null },
+    ],
+    leaderTargets: [{ id: 'lt-1', leader_unit_id: seed('unit', F, 'Captain'), target_unit_id: seed('unit', F, 'Intercessor Squad') }],
+  };
+}
+
+function sel(name: string, type: string, number = 1, selections: RosterSelection[] = []): RosterSelection {
+  return { name, type, number, group: null, selections };
+}
+
+function mockRoster(units: RosterSelection[], detachmentName: string | null = 'Gladius Task Force'): ParsedRoster {
+  return {
+    name: 'Gladius 2k', catalogueName: 'Imperium - Space Marines', detachmentName,
+    battleSize: 'strike_force', pointsLimit: 2000, units, attachments: null,
+  };
+}
+
+const captain = sel('Captain', 'model', 1, [sel('Warlord', 'upgrade'), sel('Artificer Armour', 'upgrade')]);
+const squad = sel('Intercessor Squad', 'unit', 1, [
+  sel('Intercessor Sergeant', 'model', 1, [sel('Power fist', 'upgrade'), sel('Bolt pistol', 'upgrade')]),
+  sel('Intercessor', 'model', 4, [sel('Bolt rifle', 'upgrade', 4), sel('Astartes grenade launcher', 'upgrade', 1)]),
+]);
+
+function plan(roster: ParsedRoster, catalogue = mockCatalogue()) {
+  let n = 0;
+  return planRosterImport(roster, catalogue, 'list-1', findRosterDetachment(roster, catalogue), () => `new-${++n}`);
+}
+
+const inserts = (ops: ReturnType<typeof plan>['ops'], table: string) =>
+  ops.filter(op => op.type === 'insert' && op.table === table).map(op => (op as { values: Record<string, unknown> }).values);
+
+describe('findRosterDetachment', () => {
+  it('matches the seeded detachment ID', () => {
+    expect(findRosterDetachment(mockRoster([]), mockCatalogue())).toBe(gladius);
+    expect(findRosterDetachment(mockRoster([], 'Firestorm Assault Force'), mockCatalogue())).toBeUndefined();
+  });
+});
+
+describe('planRosterImport', () => {
+  it('replaces the list contents and switches detachment and battle size', () => {
+    const { ops } = plan(mockRoster([captain]));
+    expect(ops.slice(0, 3)).toEqual([
+      { type: 'delete', table: 'army_list_enhancements', match: { army_list_id: 'list-1' } },
+      { type: 'delete', table: 'army_list_units', match: { army_list_id: 'list-1' } },
+      {
+        type: 'update', table: 'army_lists', match: { id: 'list-1' },
+        values: { detachment_id: gladius.id, battle_size: 'strike_force', points_limit: 2000 },
+      },
+    ]);
+  });
+
+  it('maps units, model counts, enhancements, wargear, sub-options and model variants', () => {
+    const { ops, report } = plan(mockRoster([captain, squad]));
+
+    expect(inserts(ops, 'army_list_units')).toEqual([
+      { id: 'new-1', army_list_id: 'list-1', unit_id: seed('unit', F, 'Captain'), model_count: 1, sort_order: 0 },
+      { id: 'new-2', army_list_id: 'list-1', unit_id: seed('unit', F, 'Intercessor Squad'), model_count: 5, sort_order: 1 },
+    ]);
+    expect(inserts(ops, 'army_list_enhancements')).toEqual([
+      { id: 'new-3', army_list_id: 'list-1', enhancement_id: seed('enhancement', F, 'Gladius Task Force', 'Artificer Armour'), army_list_unit_id: 'new-1' },
+    ]);
+    expect(inserts(ops, 'army_list_unit_wargear').map(w => w.wargear_option_id)).toEqual([
+      seed('wargear', F, 'Intercessor Squad', 'Sergeant weapon', 'Power fist'),
+      seed('wargear', F, 'Intercessor Squad', 'Special weapon', 'Grenade launchers'),
+    ]);
+    expect(inserts(ops, 'army_list_unit_wargear_sub')).toEqual([{
+      army_list_unit_wargear_id: inserts(ops, 'army_list_unit_wargear')[1].id,
+      wargear_sub_option_id: seed('wargear_sub', F, 'Intercessor Squad', 'Special weapon', 'Grenade launchers', 'Astartes grenade launcher'),
+      quantity: 1,
+    }]);
+    expect(inserts(ops, 'army_list_unit_composition')).toEqual([
+      { army_list_unit_id: 'new-2', model_variant_id: seed('model_variant', F, 'Intercessor Squad', 'Intercessor Sergeant'), count: 1 },
+      { army_list_unit_id: 'new-2', model_variant_id: seed('model_variant', F, 'Intercessor Squad', 'Intercessor'), count: 4 },
+    ]);
+    expect(report).toMatchObject({ rosterName: 'Gladius 2k', detachmentName: 'Gladius Task Force', matchedUnits: 2, unmatched: [] });
+  });
+
+  it('infers leader attachments from roster order and notes them', () => {
+    const { ops, report } = plan(mockRoster([squad, captain]));
+    expect(inserts(ops, 'army_list_leader_attachments')).toEqual([{
+      id: expect.any(String), army_list_id: 'list-1', leader_army_list_unit_id: 'new-2', target_army_list_unit_id: 'new-1',
+    }]);
+    expect(report.notes).toEqual(['Attached Captain to Intercessor Squad (inferred from roster order)']);
+  });
+
+  it('uses the attachments the source records instead of inferring them', () => {
+    const roster = mockRoster([captain, squad, squad]);
+    roster.attachments = [{ leader: 0, target: 2, targetName: 'Intercessor Squad' }];
+    const { ops, report } = plan(roster);
+    expect(inserts(ops, 'army_list_leader_attachments')).toEqual([expect.objectContaining({
+      leader_army_list_unit_id: 'new-1', target_army_list_unit_id: 'new-3',
+    })]);
+    expect(report.notes).toEqual([]);
+
+    roster.attachments = [
+      { leader: 1, target: 0, targetName: 'Captain' },
+      { leader: 0, target: null, targetName: 'Hellblaster Squad' },
+    ];
+    expect(plan(roster).report.unmatched).toEqual([
+      { unit: 'Intercessor Squad', selection: 'Attached to Captain', reason: 'Intercessor Squad cannot lead Captain' },
+      { unit: 'Captain', selection: 'Attached to Hellblaster Squad', reason: 'That unit is not in the list' },
+    ]);
+  });
+
+  it('reports every selection it could not match', () => {
+    const roster = mockRoster([
+      sel('Captain', 'model', 1, [sel('Relic Shield', 'upgrade')]),
+      sel('Intercessor Squad', 'unit', 1, [
+        sel('Intercessor Sergeant', 'model', 1, [sel('Power fist', 'upgrade'), sel('Thunder hammer', 'upgrade')]),
+        sel('Intercessor Gunner', 'model', 4),
+      ]),
+      sel('Lieutenant Titus', 'model'),
+    ], 'Firestorm Assault Force');
+
+    expect(plan(roster).report.unmatched).toEqual([
+      { unit: null, selection: 'Firestorm Assault Force', reason: 'Detachment not found — kept the current one' },
+      { unit: 'Captain', selection: 'Relic Shield', reason: 'No matching wargear option or enhancement' },
+      { unit: 'Intercessor Squad', selection: 'Thunder hammer', reason: 'No matching wargear option or enhancement' },
+      { unit: 'Intercessor Squad', selection: 'Intercessor Gunner', reason: 'No matching model in this unit' },
+      { unit: null, selection: 'Lieutenant Titus', reason: 'Unit not found in this faction' },
+    ]);
+  });
+
+  it('reports a second non-default choice for the same wargear group', () => {
+    const roster = mockRoster([sel('Intercessor Squad', 'unit', 1, [
+      sel('Intercessor Sergeant', 'model', 1, [sel('Power fist', 'upgrade'), sel('Chainsword', 'upgrade')]),
+      sel('Intercessor', 'model', 4, [sel('Grenade launchers', 'upgrade', 1)]),
+    ])]);
+    const catalogue = mockCatalogue();
+    catalogue.wargearOptions.push(option('Intercessor Squad', 'Sergeant weapon', 'Thunder hammer'));
+    roster.units[0].selections[0].selections.push(sel('Thunder hammer', 'upgrade'));
+
+    expect(plan(roster, catalogue).report.unmatched).toEqual([
+      { unit: 'Intercessor Squad', selection: 'Thunder hammer', reason: 'Sergeant weapon is already set to Power fist' },
+    ]);
+  });
+
+  it('falls back to a name match for rows not seeded from BattleScribe', () => {
+    const catalogue = mockCatalogue();
+    catalogue.availableUnits[0] = { ...catalogue.availableUnits[0], id: 'custom-captain' };
+    const { ops } = plan(mockRoster([sel('captain', 'model')]), catalogue);
+    expect(inserts(ops, 'army_list_units')[0].unit_id).toBe('custom-captain');
+  });
+});
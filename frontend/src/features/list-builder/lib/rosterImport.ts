@@ -0,0 +1,347 @@
+/**
+ * Matches a parsed BattleScribe roster against our catalogue and plans the rows to write.
+ * Pasted text lists go through here too, converted by `parsedListToRoster`.
+ *
+ * Catalogue rows are seeded by scripts/parse-bsdata.js with `uuidFromSeed` over their
+ * BattleScribe names (`unit:<faction>:<unit>`, `wargear:<faction>:<unit>:<group>:<option>`…),
+ * so a roster selection is matched by recomputing that ID rather than by fuzzy name search.
+ * A case-insensitive name match is the fallback for rows that were renamed after seeding.
+ *
+ * Every selection that maps to nothing — and isn't a weapon in the unit's default loadout —
+ * ends up in the report, so the user can see exactly what didn't come across.
+ */
+
+import type {
+  Detachment, Enhancement, LeaderTarget, ModelVariant, WargearOption, WargearSubOption,
+} from '../../../shared/types/database';
+import { uuidFromSeed } from '../../../shared/lib/uuidFromSeed';
+import type { UnitWithRelations } from '../stores/listEditorStore';
+import type { ListOp } from './listCommands';
+import type { ParsedRoster, RosterSelection } from './rosterFile';
+
+export interface RosterCatalogue {
+  /** Faction names the catalogue rows were seeded under (own, parent and allied factions) */
+  factionNames: string[];
+  availableUnits: UnitWithRelations[];
+  availableDetachments: Detachment[];
+  /** Enhancements of the detachment the list will use */
+  enhancements: Enhancement[];
+  wargearOptions: WargearOption[];
+  wargearSubOptions: WargearSubOption[];
+  modelVariants: ModelVariant[];
+  leaderTargets: LeaderTarget[];
+}
+
+export interface UnmatchedSelection {
+  /** Roster unit the selection belongs to; null for list-level selections */
+  unit: string | null;
+  selection: string;
+  reason: string;
+}
+
+export interface RosterImportReport {
+  rosterName: string;
+  detachmentName: string | null;
+  matchedUnits: number;
+  unmatched: UnmatchedSelection[];
+  /** Things the import decided on the user's behalf, e.g. inferred leader attachments */
+  notes: string[];
+}
+
+export interface RosterImportPlan {
+  ops: ListOp[];
+  report: RosterImportReport;
+}
+
+/** Bookkeeping selections that carry no list data */
+const IGNORED_SELECTIONS = new Set(['warlord', 'battle size', 'show/hide options']);
+
+interface PlannedUnit {
+  id: string;
+  unit: UnitWithRelations;
+  modelCount: number;
+  enhancementId: string | null;
+  /** group_name → option */
+  wargear: Map<string, WargearOption>;
+  /** sub-option id → quantity */
+  subOptions: Map<string, { subOption: WargearSubOption; quantity: number }>;
+  /** model_variant_id → count */
+  composition: Map<string, number>;
+}
+
+function sameName(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+/** First row whose ID equals one of the seeded IDs, else the first whose name matches. */
+function findSeeded<T extends { id: string; name: string }>(rows: T[], seeds: string[], name: string): T | undefined {
+  const ids = new Set(seeds.map(uuidFromSeed));
+  return rows.find(r => ids.has(r.id)) ?? rows.find(r => sameName(r.name, name));
+}
+
+/** The detachment named in the roster, if our catalogue has it. */
+export function findRosterDetachment(roster: ParsedRoster, catalogue: Pick<RosterCatalogue, 'factionNames' | 'availableDetachments'>): Detachment | undefined {
+  const name = roster.detachmentName;
+  if (!name) return undefined;
+  return findSeeded(catalogue.availableDetachments, catalogue.factionNames.map(f => `detachment:${f}:${name}`), name);
+}
+
+// ============================================================
+// Unit matching
+// ============================================================
+
+function planUnit(
+  sel: RosterSelection,
+  unit: UnitWithRelations,
+  catalogue: RosterCatalogue,
+  detachment: Detachment | undefined,
+  id: string,
+  unmatched: UnmatchedSelection[],
+): PlannedUnit {
+  const planned: PlannedUnit = {
+    id, unit, modelCount: 0, enhancementId: null,
+    wargear: new Map(), subOptions: new Map(), composition: new Map(),
+  };
+  const factions = catalogue.factionNames;
+  const options = catalogue.wargearOptions.filter(w => w.unit_id === unit.id);
+  const groups = [...new Set(options.map(w => w.group_name))];
+  const variants = catalogue.modelVariants.filter(v => v.unit_id === unit.id);
+  const report = (selection: string, reason: string) => unmatched.push({ unit: sel.name, selection, reason });
+
+  function chooseOption(option: WargearOption, selectionName: string): boolean {
+    const current = planned.wargear.get(option.group_name);
+    if (current && current.id !== option.id && !current.is_default) {
+      // Per-model loadouts in the roster can differ; the list stores one choice per group
+      if (!option.is_default) report(selectionName, `${option.group_name} is already set to ${current.name}`);
+      return false;
+    }
+    planned.wargear.set(option.group_name, option);
+    return true;
+  }
+
+  function visit(s: RosterSelection) {
+    if (IGNORED_SELECTIONS.has(s.name.toLowerCase())) return;
+
+    if (s.type === 'model') {
+      planned.modelCount += s.number;
+      if (variants.length > 0) {
+        const variant = findSeeded(variants, factions.map(f => `model_variant:${f}:${unit.name}:${s.name}`), s.name);
+        if (variant) {
+          planned.composition.set(variant.id, (planned.composition.get(variant.id) ?? 0) + s.number);
+        } else {
+          report(s.name, 'No matching model in this unit');
+        }
+      }
+      s.selections.forEach(visit);
+      return;
+    }
+
+    const enhancement = findSeeded(
+      catalogue.enhancements,
+      detachment ? factions.map(f => `enhancement:${f}:${detachment.name}:${s.name}`) : [],
+      s.name,
+    );
+    if (enhancement) {
+      if (planned.enhancementId) report(s.name, 'A unit can only take one enhancement');
+      else planned.enhancementId = enhancement.id;
+      return;
+    }
+
+    const option = findSeeded(options, factions.flatMap(f => groups.map(g => `wargear:${f}:${unit.name}:${g}:${s.name}`)), s.name);
+    if (option) {
+      chooseOption(option, s.name);
+      s.selections.forEach(visit);
+      return;
+    }
+
+    for (const parent of options) {
+      const subOption = findSeeded(
+        catalogue.wargearSubOptions.filter(so => so.wargear_option_id === parent.id),
+        factions.map(f => `wargear_sub:${f}:${unit.name}:${parent.group_name}:${parent.name}:${s.name}`),
+        s.name,
+      );
+      if (!subOption) continue;
+      if (chooseOption(parent, s.name)) {
+        const quantity = (planned.subOptions.get(subOption.id)?.quantity ?? 0) + s.number;
+        planned.subOptions.set(subOption.id, { subOption, quantity: Math.min(quantity, subOption.max_count) });
+      }
+      return;
+    }
+
+    // Weapons in the default loadout and grouping entries ("Wargear", "Enhancements") have
+    // nothing to store themselves
+    const isWeapon = unit.weapons.some(w => sameName(w.name.replace(/^➤\s*/, ''), s.name));
+    if (isWeapon || s.selections.length > 0) {
+      s.selections.forEach(visit);
+      return;
+    }
+
+    report(s.name, 'No matching wargear option or enhancement');
+  }
+
+  sel.selections.forEach(visit);
+  // Single-model units are a bare "model" selection, and text lists without a per-model
+  // breakdown put the unit size on the unit selection
+  if (planned.modelCount === 0) planned.modelCount = sel.number;
+  return planned;
+}
+
+function canLead(leaderTargets: LeaderTarget[], leader: PlannedUnit, target: PlannedUnit): boolean {
+  return leaderTargets.some(lt => lt.leader_unit_id === leader.unit.id && lt.target_unit_id === target.unit.id);
+}
+
+/**
+ * Roster files don't record which unit a leader joins, so pair each leader with the nearest
+ * eligible unit after it (then before it) that isn't already led — New Recruit and most
+ * players list a leader next to its bodyguard.
+ */
+function inferLeaderAttachments(units: PlannedUnit[], leaderTargets: LeaderTarget[]): [PlannedUnit, PlannedUnit][] {
+  const pairs: [PlannedUnit, PlannedUnit][] = [];
+  const led = new Set<string>();
+
+  units.forEach((leader, index) => {
+    const candidates = [...units.slice(index + 1), ...units.slice(0, index).reverse()];
+    const target = candidates.find(u => !led.has(u.id) && canLead(leaderTargets, leader, u));
+    if (!target) return;
+    led.add(target.id);
+    pairs.push([leader, target]);
+  });
+
+  return pairs;
+}
+
+// ============================================================
+// Plan
+// ============================================================
+
+/**
+ * The DB operations that replace the list's contents with the roster, plus the report.
+ * `detachment` is the result of `findRosterDetachment` — the caller loads its enhancements
+ * into `catalogue` first. `newId` is injectable for tests.
+ */
+export function planRosterImport(
+  roster: ParsedRoster,
+  catalogue: RosterCatalogue,
+  listId: string,
+  detachment: Detachment | undefined,
+  newId: () => string = () => crypto.randomUUID(),
+): RosterImportPlan {
+  const unmatched: UnmatchedSelection[] = [];
+  const notes: string[] = [];
+
+  if (roster.detachmentName && !detachment) {
+    unmatched.push({ unit: null, selection: roster.detachmentName, reason: 'Detachment not found — kept the current one' });
+  }
+
+  const planned: PlannedUnit[] = [];
+  // roster.units index → planned unit, for the attachments the roster records
+  const plannedByIndex = new Map<number, PlannedUnit>();
+  roster.units.forEach((sel, index) => {
+    const unit = findSeeded(
+      catalogue.availableUnits,
+      catalogue.factionNames.map(f => `unit:${f}:${sel.name}`),
+      sel.name,
+    );
+    if (!unit) {
+      unmatched.push({ unit: null, selection: sel.name, reason: 'Unit not found in this faction' });
+      return;
+    }
+    const pu = planUnit(sel, unit, catalogue, detachment, newId(), unmatched);
+    planned.push(pu);
+    plannedByIndex.set(index, pu);
+  });
+
+  let attachments: [PlannedUnit, PlannedUnit][];
+  if (roster.attachments) {
+    attachments = [];
+    for (const a of roster.attachments) {
+      const leader = plannedByIndex.get(a.leader);
+      const target = a.target === null ? undefined : plannedByIndex.get(a.target);
+      if (!leader) continue;
+      if (!target) {
+        unmatched.push({ unit: leader.unit.name, selection: `Attached to ${a.targetName}`, reason: 'That unit is not in the list' });
+      } else if (!canLead(catalogue.leaderTargets, leader, target)) {
+        unmatched.push({ unit: leader.unit.name, selection: `Attached to ${a.targetName}`, reason: `${leader.unit.name} cannot lead ${target.unit.name}` });
+      } else {
+        attachments.push([leader, target]);
+      }
+    }
+  } else {
+    attachments = inferLeaderAttachments(planned, catalogue.leaderTargets);
+  }
+
+  const ops: ListOp[] = [
+    { type: 'delete', table: 'army_list_enhancements', match: { army_list_id: listId } },
+    { type: 'delete', table: 'army_list_units', match: { army_list_id: listId } },
+  ];
+  const listValues: Record<string, unknown> = {};
+  if (detachment) listValues.detachment_id = detachment.id;
+  if (roster.battleSize) listValues.battle_size = roster.battleSize;
+  if (roster.pointsLimit) listValues.points_limit = roster.pointsLimit;
+  if (Object.keys(listValues).length > 0) {
+    ops.push({ type: 'update', table: 'army_lists', match: { id: listId }, values: listValues });
+  }
+
+  planned.forEach((pu, sortOrder) => {
+    ops.push({
+      type: 'insert',
+      table: 'army_list_units',
+      values: { id: pu.id, army_list_id: listId, unit_id: pu.unit.id, model_count: pu.modelCount, sort_order: sortOrder },
+    });
+    if (pu.enhancementId) {
+      ops.push({
+        type: 'insert',
+        table: 'army_list_enhancements',
+        values: { id: newId(), army_list_id: listId, enhancement_id: pu.enhancementId, army_list_unit_id: pu.id },
+      });
+    }
+
+    const subOptions = [...pu.subOptions.values()];
+    for (const option of pu.wargear.values()) {
+      const subs = subOptions.filter(s => s.subOption.wargear_option_id === option.id);
+      // Defaults apply without a row unless they carry sub-option choices
+      if (option.is_default && subs.length === 0) continue;
+      const rowId = newId();
+      ops.push({
+        type: 'insert',
+        table: 'army_list_unit_wargear',
+        values: { id: rowId, army_list_unit_id: pu.id, wargear_option_id: option.id },
+      });
+      for (const { subOption, quantity } of subs) {
+        ops.push({
+          type: 'insert',
+          table: 'army_list_unit_wargear_sub',
+          values: { army_list_unit_wargear_id: rowId, wargear_sub_option_id: subOption.id, quantity },
+        });
+      }
+    }
+
+    for (const [variantId, count] of pu.composition) {
+      ops.push({
+        type: 'insert',
+        table: 'army_list_unit_composition',
+        values: { army_list_unit_id: pu.id, model_variant_id: variantId, count },
+      });
+    }
+  });
+
+  for (const [leader, target] of attachments) {
+    ops.push({
+      type: 'insert',
+      table: 'army_list_leader_attachments',
+      values: { id: newId(), army_list_id: listId, leader_army_list_unit_id: leader.id, target_army_list_unit_id: target.id },
+    });
+    if (!roster.attachments) notes.push(`Attached ${leader.unit.name} to ${target.unit.name} (inferred from roster order)`);
+  }
+
+  return {
+    ops,
+    report: {
+      rosterName: roster.name,
+      detachmentName: detachment?.name ?? null,
+      matchedUnits: planned.length,
+      unmatched,
+      notes,
+    },
+  };
+}
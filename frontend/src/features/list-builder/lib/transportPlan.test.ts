@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import type { ArmyListUnitWithDetails, UnitWithRelations } from '../stores/listEditorStore';
+import { buildAllUnitKeywords } from './enhancementEligibility';
+import {
+  buildTransportLoads, describeEmbarkPlan, embarkBlocker, embarkCandidates, embarkGroup, slotsPerModel,
+  type TransportPlanInput,
+} from './transportPlan';
+
+function mockUnit(id: string, name: string, keywords: string[], transport?: Partial<UnitWithRelations>): UnitWithRelations {
+  return {
+    id, name, role: 'infantry', keywords,
+    transport_capacity: null, transport_keywords_allowed: null, transport_keywords_excluded: null, transport_bulky_keywords: null,
+    ...transport,
+  } as UnitWithRelations;
+}
+
+function entry(id: string, unit: UnitWithRelations, modelCount = 1): ArmyListUnitWithDetails {
+  return { id, army_list_id: 'list-1', unit_id: unit.id, model_count: modelCount, sort_order: 0, units: unit } as ArmyListUnitWithDetails;
+}
+
+const impulsor = mockUnit('u-imp', 'Impulsor', ['Vehicle', 'Transport'], {
+  role: 'dedicated_transport',
+  transport_capacity: 6,
+  transport_keywords_allowed: ['Infantry', 'Adeptus Astartes'],
+  transport_keywords_excluded: ['Jump Pack', 'Terminator'],
+  transport_bulky_keywords: { Gravis: 2 },
+});
+const captain = mockUnit('u-cap', 'Captain', ['Infantry', 'Character']);
+const intercessors = mockUnit('u-int', 'Intercessors', ['Infantry', 'Battleline']);
+const aggressors = mockUnit('u-agg', 'Aggressors', ['Infantry', 'Gravis']);
+const assault = mockUnit('u-asm', 'Assault Intercessors with Jump Packs', ['Infantry', 'Jump Pack']);
+const dreadnought = mockUnit('u-dread', 'Redemptor Dreadnought', ['Vehicle', 'Walker']);
+
+const allUnitKeywords = buildAllUnitKeywords([impulsor, captain, intercessors, aggressors, assault, dreadnought]);
+
+function mockInput(overrides?: Partial<TransportPlanInput>): TransportPlanInput {
+  return {
+    listUnits: [entry('alu-imp', impulsor), entry('alu-cap', captain), entry('alu-int', intercessors, 5), entry('alu-agg', aggressors, 3)],
+    transportEmbarks: [],
+    leaderAttachments: [],
+    ...overrides,
+  };
+}
+
+const embark = (id: string, passenger: string, transport = 'alu-imp') =>
+  ({ id, army_list_id: 'list-1', transport_army_list_unit_id: transport, passenger_army_list_unit_id: passenger });
+
+describe('slotsPerModel', () => {
+  it('charges the bulkiest matching keyword, ignoring case', () => {
+    expect(slotsPerModel(impulsor, intercessors)).toBe(1);
+    expect(slotsPerModel(impulsor, aggressors)).toBe(2);
+    expect(slotsPerModel(impulsor, mockUnit('u-x', 'Heavy Intercessors', ['GRAVIS']))).toBe(2);
+  });
+});
+
+describe('embarkBlocker', () => {
+  const transport = entry('alu-imp', impulsor);
+
+  it('allows units with every allowed keyword, treating faction keywords as always present', () => {
+    // ADEPTUS ASTARTES is on no unit's keyword list, so it's a faction keyword
+    expect(embarkBlocker(transport, entry('alu-int', intercessors), allUnitKeywords)).toBeNull();
+  });
+
+  it('explains why a unit cannot embark', () => {
+    expect(embarkBlocker(transport, entry('alu-dread', dreadnought), allUnitKeywords)).toBe('Needs the INFANTRY keyword');
+    expect(embarkBlocker(transport, entry('alu-asm', assault), allUnitKeywords)).toBe('JUMP PACK models cannot embark');
+    expect(embarkBlocker(transport, transport, allUnitKeywords)).toBe('A transport cannot embark in itself');
+    expect(embarkBlocker(transport, entry('alu-imp2', impulsor), allUnitKeywords)).toBe('Transports cannot embark');
+  });
+});
+
+describe('embarkGroup', () => {
+  it('keeps a bodyguard and its leaders together, in list order', () => {
+    const input = mockInput({
+      leaderAttachments: [{ id: 'la-1', army_list_id: 'list-1', leader_army_list_unit_id: 'alu-cap', target_army_list_unit_id: 'alu-int' }],
+    });
+    expect(embarkGroup(input, 'alu-int')).toEqual(['alu-cap', 'alu-int']);
+    expect(embarkGroup(input, 'alu-cap')).toEqual(['alu-cap', 'alu-int']);
+    expect(embarkGroup(input, 'alu-agg')).toEqual(['alu-agg']);
+  });
+});
+
+describe('buildTransportLoads', () => {
+  it('counts bulky models and shows the space left', () => {
+    const [load] = buildTransportLoads(mockInput({
+      transportEmbarks: [embark('te-1', 'alu-agg')],
+    }), allUnitKeywords);
+    expect(load).toMatchObject({ capacity: 6, used: 6, remaining: 0 });
+    expect(load.passengers).toEqual([
+      { armyListUnitId: 'alu-agg', name: 'Aggressors', modelCount: 3, slots: 6, blocker: null },
+    ]);
+  });
+});
+
+describe('embarkCandidates', () => {
+  it('offers one entry per group with its total footprint and current transport', () => {
+    const input = mockInput({
+      leaderAttachments: [{ id: 'la-1', army_list_id: 'list-1', leader_army_list_unit_id: 'alu-cap', target_army_list_unit_id: 'alu-int' }],
+      transportEmbarks: [embark('te-1', 'alu-agg')],
+    });
+    const candidates = embarkCandidates(input, 'alu-imp', allUnitKeywords);
+    expect(candidates.map(c => [c.name, c.group, c.groupSlots, c.embarkedIn?.id ?? null])).toEqual([
+      ['Captain + Intercessors', ['alu-cap', 'alu-int'], 6, null],
+      ['Aggressors', ['alu-agg'], 6, 'alu-imp'],
+    ]);
+  });
+
+  it('is empty for a unit that is not a transport', () => {
+    expect(embarkCandidates(mockInput(), 'alu-int', allUnitKeywords)).toEqual([]);
+  });
+});
+
+describe('describeEmbarkPlan', () => {
+  it('lists each loaded transport with its passengers', () => {
+    const input = mockInput({ transportEmbarks: [embark('te-1', 'alu-int'), embark('te-2', 'alu-cap')] });
+    expect(describeEmbarkPlan(input)).toEqual([{ transport: 'Impulsor', passengers: ['Intercessors', 'Captain'] }]);
+  });
+});
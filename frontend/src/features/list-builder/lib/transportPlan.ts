@@ -0,0 +1,178 @@
+/**
+ * Transport embark plans: which list units start the battle inside which transport.
+ *
+ * A transport's capacity and keyword rules come from its datasheet columns. A passenger
+ * needs every `transport_keywords_allowed` keyword and none of the excluded ones; like
+ * enhancement restrictions, an allowed keyword that no unit in the faction pool carries is
+ * a faction keyword and always passes. Each model takes one slot unless the transport's
+ * `transport_bulky_keywords` gives its keyword a bigger footprint (GRAVIS models take the
+ * space of 2 in an Impulsor).
+ *
+ * Leaders travel with their bodyguard, so embarking either one embarks the whole group.
+ */
+
+import type { LeaderAttachment, TransportEmbark, Unit } from '../../../shared/types/database';
+import type { ArmyListUnitWithDetails } from '../stores/listEditorStore';
+
+export interface TransportPlanInput {
+  listUnits: ArmyListUnitWithDetails[];
+  transportEmbarks: TransportEmbark[];
+  leaderAttachments: LeaderAttachment[];
+}
+
+export interface TransportPassenger {
+  armyListUnitId: string;
+  name: string;
+  modelCount: number;
+  /** Transport capacity the unit uses */
+  slots: number;
+  /** Why the unit isn't allowed in this transport, or null */
+  blocker: string | null;
+}
+
+export interface TransportLoad {
+  transport: ArmyListUnitWithDetails;
+  capacity: number;
+  used: number;
+  /** Negative when over capacity */
+  remaining: number;
+  /** In embark order */
+  passengers: TransportPassenger[];
+}
+
+export interface EmbarkCandidate extends TransportPassenger {
+  /** The unit plus any leaders attached to it — they embark and disembark together */
+  group: string[];
+  /** Slots for the whole group */
+  groupSlots: number;
+  /** Transport the group is in now, if any */
+  embarkedIn: ArmyListUnitWithDetails | null;
+}
+
+type TransportUnit = Pick<Unit, 'transport_capacity' | 'transport_keywords_allowed' | 'transport_keywords_excluded' | 'transport_bulky_keywords'>;
+
+export function isTransport(unit: Pick<Unit, 'transport_capacity'>): boolean {
+  return unit.transport_capacity != null;
+}
+
+function keywordSet(unit: Pick<Unit, 'keywords'>): Set<string> {
+  return new Set((unit.keywords ?? []).map(k => k.toLowerCase()));
+}
+
+/** Slots one model of `passenger` takes up: its bulkiest matching keyword, else 1. */
+export function slotsPerModel(transport: TransportUnit, passenger: Pick<Unit, 'keywords'>): number {
+  const keywords = keywordSet(passenger);
+  let slots = 1;
+  for (const [keyword, cost] of Object.entries(transport.transport_bulky_keywords ?? {})) {
+    if (keywords.has(keyword.toLowerCase())) slots = Math.max(slots, cost);
+  }
+  return slots;
+}
+
+export function passengerSlots(transport: TransportUnit, passenger: ArmyListUnitWithDetails): number {
+  return passenger.model_count * slotsPerModel(transport, passenger.units);
+}
+
+/**
+ * Why `passenger` can't embark in `transport`, or null when it can. `allUnitKeywords` is the
+ * lowercase keyword pool from `buildAllUnitKeywords`.
+ */
+export function embarkBlocker(
+  transport: ArmyListUnitWithDetails,
+  passenger: ArmyListUnitWithDetails,
+  allUnitKeywords: Set<string>,
+): string | null {
+  if (passenger.id === transport.id) return 'A transport cannot embark in itself';
+  if (isTransport(passenger.units)) return 'Transports cannot embark';
+
+  const keywords = keywordSet(passenger.units);
+  const missing = (transport.units.transport_keywords_allowed ?? [])
+    .filter(k => allUnitKeywords.has(k.toLowerCase()) && !keywords.has(k.toLowerCase()));
+  if (missing.length > 0) return `Needs the ${missing.map(k => k.toUpperCase()).join(' and ')} keyword${missing.length > 1 ? 's' : ''}`;
+
+  const excluded = (transport.units.transport_keywords_excluded ?? []).find(k => keywords.has(k.toLowerCase()));
+  if (excluded) return `${excluded.toUpperCase()} models cannot embark`;
+  return null;
+}
+
+/**
+ * The units that must share a transport with `armyListUnitId`: a bodyguard unit and every
+ * leader attached to it, in list order.
+ */
+export function embarkGroup(input: Pick<TransportPlanInput, 'listUnits' | 'leaderAttachments'>, armyListUnitId: string): string[] {
+  const bodyguard = input.leaderAttachments.find(la => la.leader_army_list_unit_id === armyListUnitId)
+    ?.target_army_list_unit_id ?? armyListUnitId;
+  const members = new Set([
+    bodyguard,
+    ...input.leaderAttachments.filter(la => la.target_army_list_unit_id === bodyguard).map(la => la.leader_army_list_unit_id),
+  ]);
+  return input.listUnits.filter(lu => members.has(lu.id)).map(lu => lu.id);
+}
+
+/** Every transport in the list with what it's carrying, in list order. */
+export function buildTransportLoads(input: TransportPlanInput, allUnitKeywords: Set<string>): TransportLoad[] {
+  const byId = new Map(input.listUnits.map(lu => [lu.id, lu]));
+  return input.listUnits.filter(lu => isTransport(lu.units)).map((transport) => {
+    const passengers = input.transportEmbarks
+      .filter(e => e.transport_army_list_unit_id === transport.id)
+      .map(e => byId.get(e.passenger_army_list_unit_id))
+      .filter(lu => lu != null)
+      .map((lu): TransportPassenger => ({
+        armyListUnitId: lu.id,
+        name: lu.units.name,
+        modelCount: lu.model_count,
+        slots: passengerSlots(transport.units, lu),
+        blocker: embarkBlocker(transport, lu, allUnitKeywords),
+      }));
+    const capacity = transport.units.transport_capacity!;
+    const used = passengers.reduce((sum, p) => sum + p.slots, 0);
+    return { transport, capacity, used, remaining: capacity - used, passengers };
+  });
+}
+
+/** Units that could go into `transportId`, one entry per embark group, in list order. */
+export function embarkCandidates(
+  input: TransportPlanInput,
+  transportId: string,
+  allUnitKeywords: Set<string>,
+): EmbarkCandidate[] {
+  const transport = input.listUnits.find(lu => lu.id === transportId);
+  if (!transport || !isTransport(transport.units)) return [];
+  const byId = new Map(input.listUnits.map(lu => [lu.id, lu]));
+  const seen = new Set<string>();
+  const candidates: EmbarkCandidate[] = [];
+
+  for (const lu of input.listUnits) {
+    if (seen.has(lu.id) || isTransport(lu.units)) continue;
+    const group = embarkGroup(input, lu.id);
+    group.forEach(id => seen.add(id));
+    const members = group.map(id => byId.get(id)!);
+    const embarkedId = input.transportEmbarks.find(e => e.passenger_army_list_unit_id === lu.id)?.transport_army_list_unit_id;
+
+    candidates.push({
+      armyListUnitId: lu.id,
+      name: members.map(m => m.units.name).join(' + '),
+      modelCount: members.reduce((sum, m) => sum + m.model_count, 0),
+      slots: passengerSlots(transport.units, lu),
+      blocker: members.map(m => embarkBlocker(transport, m, allUnitKeywords)).find(b => b != null) ?? null,
+      group,
+      groupSlots: members.reduce((sum, m) => sum + passengerSlots(transport.units, m), 0),
+      embarkedIn: embarkedId ? byId.get(embarkedId) ?? null : null,
+    });
+  }
+  return candidates;
+}
+
+/** "Rhino: Intercessor Squad, Captain" style summary of every transport carrying something. */
+export function describeEmbarkPlan(input: Pick<TransportPlanInput, 'listUnits' | 'transportEmbarks'>): { transport: string; passengers: string[] }[] {
+  const byId = new Map(input.listUnits.map(lu => [lu.id, lu]));
+  return input.listUnits
+    .filter(lu => input.transportEmbarks.some(e => e.transport_army_list_unit_id === lu.id))
+    .map(transport => ({
+      transport: transport.units.name,
+      passengers: input.transportEmbarks
+        .filter(e => e.transport_army_list_unit_id === transport.id)
+        .map(e => byId.get(e.passenger_army_list_unit_id)?.units.name)
+        .filter(name => name != null),
+    }));
+}
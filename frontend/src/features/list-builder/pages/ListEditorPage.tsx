@@ -1,17 +1,31 @@
 import { useEffect, useCallback, useState, useMemo } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import { useParams, useNavigate, useSearchParams, useLocation } from 'react-router-dom';
 import { useAuth } from '../../../shared/hooks/useAuth';
+import { useOfflineStatus } from '../../../shared/hooks/useOfflineStatus';
 import { useListEditor, getUnitPoints } from '../hooks/useListEditor';
+import { useListCollaboration } from '../hooks/useListCollaboration';
 import { useListVerification } from '../../collection/hooks/useListVerification';
 import { UnitPicker } from '../components/UnitPicker';
+import { CombatPatrolPanel } from '../components/CombatPatrolPanel';
 import { ListSummary } from '../components/ListSummary';
 import { ArmyRoster } from '../components/ArmyRoster';
 import { UnitDetailPanel } from '../components/UnitDetailPanel';
 import { ExportModal } from '../components/ExportModal';
 import { ShoppingListModal } from '../components/ShoppingListModal';
 import { ListHistoryPanel } from '../components/ListHistoryPanel';
+import { ListSyncStatus } from '../components/ListSyncStatus';
+import { ListPresenceBar } from '../components/ListPresenceBar';
+import { ListCollaboratorsModal } from '../components/ListCollaboratorsModal';
+import { ListCommentsPanel } from '../components/ListCommentsPanel';
+import { AutoFixToast } from '../components/AutoFixToast';
+import { CascadePreviewDialog } from '../components/CascadePreviewDialog';
+import { DetachmentSwitchDialog } from '../components/DetachmentSwitchDialog';
+import { PointsFillModal } from '../components/PointsFillModal';
+import { PointsDatasetModal } from '../components/PointsDatasetModal';
 import { ListVerification } from '../../collection/components/ListVerification';
 import { buildAllUnitKeywords, isEnhancementEligible } from '../lib/enhancementEligibility';
+import { buildTransportLoads, embarkCandidates } from '../lib/transportPlan';
+import { isWargearPermitted } from '../lib/combatPatrol';
 import type { UnitWithRelations } from '../stores/listEditorStore';
 
 type MobileTab = 'roster' | 'picker' | 'detail';
@@ -25,12 +39,56 @@ export function ListEditorPage() {
   const [mobileTab, setMobileTab] = useState<MobileTab>('roster');
   const [showShoppingList, setShowShoppingList] = useState(false);
   const [showHistory, setShowHistory] = useState(false);
+  const [showPointsFill, setShowPointsFill] = useState(false);
+  const [showCollaborators, setShowCollaborators] = useState(false);
+  // Review inbox links open the list with its comments showing
+  const [searchParams] = useSearchParams();
+  const [showComments, setShowComments] = useState(() => searchParams.has('comments'));
+  // Points update reports link here to review a re-pin
+  const [showPointsDataset, setShowPointsDataset] = useState(() => searchParams.has('points'));
+  const { isOnline } = useOfflineStatus();
+  const { flushMutationQueue, handleDocumentImport } = editor;
+  // Viewers see the list as its editors do, without the controls that would change it
+  const readOnly = editor.accessRole === 'viewer';
+  useListCollaboration(id);
+
+  // Replay edits queued while offline as soon as the connection returns
+  useEffect(() => {
+    if (isOnline) flushMutationQueue();
+  }, [isOnline, flushMutationQueue]);
+
+  // A list imported from a list link arrives with the document to fill it from
+  const { pathname, state: locationState } = useLocation();
+  const importDocument = (locationState as { importDocument?: string } | null)?.importDocument;
+  const loadedListId = editor.list?.id;
+  // The list exists by now, so a failed import stays on screen with the document to retry
+  const [failedImport, setFailedImport] = useState<{ document: string; error: string } | null>(null);
+  useEffect(() => {
+    if (!importDocument || loadedListId !== id) return;
+    navigate(pathname, { replace: true, state: null });
+    handleDocumentImport(importDocument).then(result => {
+      if (result.success) return;
+      console.error('Failed to import list link:', result.error);
+      setFailedImport({ document: importDocument, error: result.error ?? 'Unknown error' });
+    });
+  }, [importDocument, loadedListId, id, pathname, navigate, handleDocumentImport]);
+
+  async function retryImport(document: string) {
+    setFailedImport(null);
+    const result = await handleDocumentImport(document);
+    if (!result.success) setFailedImport({ document, error: result.error ?? 'Unknown error' });
+  }
 
   const allUnitKeywords = useMemo(
     () => buildAllUnitKeywords(editor.availableUnits),
     [editor.availableUnits],
   );
 
+  const transportLoads = useMemo(
+    () => buildTransportLoads(editor, allUnitKeywords),
+    [editor, allUnitKeywords],
+  );
+
   // On mobile, selecting a unit switches to detail tab
   const handleSelectUnit = useCallback((unitId: string | null) => {
     editor.setSelectedArmyListUnitId(unitId);
@@ -55,6 +113,14 @@ export function ListEditorPage() {
     const tag = (e.target as HTMLElement)?.tagName;
     if (tag === 'INPUT' || tag === 'TEXTAREA' || tag === 'SELECT') return;
 
+    // Ctrl+Z: undo, Ctrl+Shift+Z / Ctrl+Y: redo
+    if (!readOnly && (e.ctrlKey || e.metaKey) && (e.key === 'z' || e.key === 'Z' || e.key === 'y')) {
+      e.preventDefault();
+      if (e.key === 'y' || e.shiftKey) editor.redo();
+      else editor.undo();
+      return;
+    }
+
     // Escape: close detail panel or export modal
     if (e.key === 'Escape') {
       if (editor.showExport) {
@@ -86,7 +152,7 @@ export function ListEditorPage() {
     }
 
     // Delete/Backspace: remove selected unit
-    if ((e.key === 'Delete' || e.key === 'Backspace') && editor.selectedArmyListUnitId) {
+    if (!readOnly && (e.key === 'Delete' || e.key === 'Backspace') && editor.selectedArmyListUnitId) {
       editor.removeUnit(editor.selectedArmyListUnitId);
       return;
     }
@@ -107,7 +173,7 @@ export function ListEditorPage() {
       editor.setSelectedArmyListUnitId(editor.listUnits[nextIdx].id);
       return;
     }
-  }, [editor, id, navigate]);
+  }, [editor, id, navigate, readOnly]);
 
   useEffect(() => {
     window.addEventListener('keydown', handleKeyDown);
@@ -145,30 +211,39 @@ export function ListEditorPage() {
           className={`list-editor__mobile-tab${mobileTab === 'picker' ? ' list-editor__mobile-tab--active' : ''}`}
           onClick={() => setMobileTab('picker')}
         >
-          + Add Units
+          {editor.combatPatrol ? 'Patrol' : readOnly ? 'Units' : '+ Add Units'}
         </button>
       </div>
 
-      {/* LEFT PANEL: Unit Picker */}
-      <UnitPicker
-        listName={editor.list.name}
-        totalPoints={editor.totalPoints}
-        filteredUnits={editor.filteredUnits}
-        filteredAlliedUnits={editor.filteredAlliedUnits}
-        unitsByRole={editor.unitsByRole}
-        unitCountsInList={editor.unitCountsInList}
-        collapsedPickerRoles={editor.collapsedPickerRoles}
-        unitPickerFilter={editor.unitPickerFilter}
-        showLegends={editor.showLegends}
-        showOwnedOnly={editor.showOwnedOnly}
-        ownedUnitCounts={editor.ownedUnitCounts}
-        onFilterChange={editor.setUnitPickerFilter}
-        onAddUnit={handleAddUnit}
-        onToggleRole={editor.togglePickerRole}
-        onToggleLegends={editor.toggleLegends}
-        onToggleOwnedOnly={editor.toggleOwnedOnly}
-        className={mobileTab === 'picker' ? 'list-editor__picker--mobile-visible' : undefined}
-      />
+      {/* LEFT PANEL: Unit Picker, or the fixed force of a Combat Patrol */}
+      {editor.combatPatrol ? (
+        <CombatPatrolPanel
+          catalogue={editor.combatPatrol}
+          availableUnits={editor.availableUnits}
+          className={mobileTab === 'picker' ? 'list-editor__picker--mobile-visible' : undefined}
+        />
+      ) : (
+        <UnitPicker
+          listName={editor.list.name}
+          totalPoints={editor.totalPoints}
+          availableUnits={editor.availableUnits}
+          filteredUnits={editor.filteredUnits}
+          filteredAlliedUnits={editor.filteredAlliedUnits}
+          unitsByRole={editor.unitsByRole}
+          unitCountsInList={editor.unitCountsInList}
+          collapsedPickerRoles={editor.collapsedPickerRoles}
+          unitPickerFilter={editor.unitPickerFilter}
+          showLegends={editor.showLegends}
+          showOwnedOnly={editor.showOwnedOnly}
+          ownedUnitCounts={editor.ownedUnitCounts}
+          onFilterChange={editor.setUnitPickerFilter}
+          onAddUnit={readOnly ? undefined : handleAddUnit}
+          onToggleRole={editor.togglePickerRole}
+          onToggleLegends={editor.toggleLegends}
+          onToggleOwnedOnly={editor.toggleOwnedOnly}
+          className={mobileTab === 'picker' ? 'list-editor__picker--mobile-visible' : undefined}
+        />
+      )}
 
       {/* CENTER PANEL: Army Roster */}
       <div className={`list-editor__roster${mobileTab === 'roster' ? ' list-editor__roster--mobile-visible' : ''}`}>
@@ -178,8 +253,12 @@ export function ListEditorPage() {
           overLimit={editor.overLimit}
           unitLimitWarnings={editor.unitLimitWarnings}
           enhancementWarnings={editor.enhancementWarnings}
+          leaderWarnings={editor.leaderWarnings}
           battleSizeWarnings={editor.battleSizeWarnings}
           transportWarnings={editor.transportWarnings}
+          embarkWarnings={editor.embarkWarnings}
+          alliedWarnings={editor.alliedWarnings}
+          alliedContingents={editor.alliedContingents}
           pointsMismatch={editor.pointsMismatch}
           serverValidation={editor.serverValidation}
           serverValidationError={editor.serverValidationError}
@@ -188,21 +267,60 @@ export function ListEditorPage() {
           onPlay={() => navigate(`/play/${id}`)}
           onShoppingList={user ? () => setShowShoppingList(true) : undefined}
           onHistory={user ? () => setShowHistory(true) : undefined}
+          onComments={user ? () => setShowComments(true) : undefined}
+          onFillPoints={editor.combatPatrol || readOnly ? undefined : () => setShowPointsFill(true)}
           availableDetachments={editor.availableDetachments}
-          onUpdateName={editor.updateListName}
-          onUpdatePointsLimit={editor.updatePointsLimit}
-          onUpdateBattleSize={editor.updateBattleSize}
-          onChangeDetachment={editor.changeDetachment}
+          pointsDatasets={editor.pointsDatasets}
+          onPointsDataset={() => setShowPointsDataset(true)}
+          onUpdateName={readOnly ? undefined : editor.updateListName}
+          onUpdatePointsLimit={editor.combatPatrol || readOnly ? undefined : editor.updatePointsLimit}
+          onUpdateBattleSize={editor.combatPatrol || readOnly ? undefined : editor.updateBattleSize}
+          onChangeDetachment={editor.combatPatrol || readOnly ? undefined : editor.changeDetachment}
         />
 
         <div className="list-editor__save-status">
-          {editor.saving ? (
+          <button
+            className="list-editor__history-btn"
+            onClick={editor.undo}
+            disabled={readOnly || !editor.undoLabel}
+            title={editor.undoLabel ? `Undo: ${editor.undoLabel}` : 'Nothing to undo'}
+            aria-label="Undo"
+          >
+            &#8630;
+          </button>
+          {editor.pendingMutations > 0 ? (
+            <span className="list-editor__save-status--saving">
+              {editor.pendingMutations} unsynced {editor.pendingMutations === 1 ? 'change' : 'changes'}
+            </span>
+          ) : editor.saving ? (
             <span className="list-editor__save-status--saving">Saving...</span>
           ) : (
             <span className="list-editor__save-status--saved">All changes saved</span>
           )}
+          <button
+            className="list-editor__history-btn"
+            onClick={editor.redo}
+            disabled={readOnly || !editor.redoLabel}
+            title={editor.redoLabel ? `Redo: ${editor.redoLabel}` : 'Nothing to redo'}
+            aria-label="Redo"
+          >
+            &#8631;
+          </button>
         </div>
 
+        <ListPresenceBar
+          onManageCollaborators={user && editor.accessRole === 'owner' ? () => setShowCollaborators(true) : undefined}
+        />
+
+        <ListSyncStatus />
+
+        {failedImport && (
+          <div className="validation-banner validation-banner--error validation-banner--spaced">
+            Couldn't import the list link: {failedImport.error}{' '}
+            <button className="btn btn--sm" onClick={() => retryImport(failedImport.document)}>Try again</button>
+          </div>
+        )}
+
         <ListVerification {...verification} />
 
         <div className="list-editor__roster-list">
@@ -213,11 +331,12 @@ export function ListEditorPage() {
             rosterSectionPoints={editor.rosterSectionPoints}
             rosterAlliedPoints={editor.rosterAlliedPoints}
             selectedArmyListUnitId={editor.selectedArmyListUnitId}
+            collaborators={editor.collaborators}
             getEnhancementForUnit={editor.getEnhancementForUnit}
             getWargearSummary={editor.getWargearSummary}
             onSelectUnit={handleSelectUnit}
-            onRemoveUnit={editor.removeUnit}
-            onReorder={editor.reorderUnits}
+            onRemoveUnit={editor.combatPatrol || readOnly ? undefined : editor.removeUnit}
+            onReorder={readOnly ? undefined : editor.reorderUnits}
           />
         </div>
 
@@ -225,7 +344,13 @@ export function ListEditorPage() {
         <div className="list-editor__shortcuts-hint">
           <span>/</span> search &nbsp;
           <span>&#8593;&#8595;</span> navigate &nbsp;
-          <span>Del</span> remove &nbsp;
+          {!readOnly && (
+            <>
+              <span>Del</span> remove &nbsp;
+              <span>Ctrl+Z</span> undo &nbsp;
+              <span>Ctrl+Shift+Z</span> redo &nbsp;
+            </>
+          )}
           <span>E</span> export &nbsp;
           <span>P</span> play &nbsp;
           <span>Esc</span> close
@@ -237,7 +362,11 @@ export function ListEditorPage() {
         {selectedLu ? (() => {
           const isCharacter = selectedLu.units.role === 'character';
           const unitEnh = editor.unitEnhancementMap.get(selectedLu.id);
-          const unitOpts = editor.wargearOptions.filter(w => w.unit_id === selectedLu.unit_id);
+          const { combatPatrol } = editor;
+          const unitOpts = editor.wargearOptions.filter(w =>
+            w.unit_id === selectedLu.unit_id &&
+            (!combatPatrol || isWargearPermitted(combatPatrol, selectedLu.unit_id, w))
+          );
 
           return (
             <>
@@ -253,8 +382,8 @@ export function ListEditorPage() {
               modelCount={selectedLu.model_count}
               points={getUnitPoints(selectedLu.units, selectedLu.model_count)}
               availableTiers={selectedLu.units.unit_points_tiers}
-              onModelCountChange={(count) => editor.updateModelCount(selectedLu.id, count)}
-              onRemove={() => editor.removeUnit(selectedLu.id)}
+              onModelCountChange={combatPatrol ? undefined : (count) => editor.updateModelCount(selectedLu.id, count)}
+              onRemove={combatPatrol || readOnly ? undefined : () => editor.removeUnit(selectedLu.id)}
               onClose={() => editor.setSelectedArmyListUnitId(null)}
               enhancement={isCharacter ? {
                 assigned: unitEnh ? editor.enhancements.find(e => e.id === unitEnh.enhancementId) ?? null : null,
@@ -310,6 +439,21 @@ export function ListEditorPage() {
                   onDetach: (leaderALUId: string) => editor.detachLeader(leaderALUId),
                 };
               })()}
+              transport={(() => {
+                const load = transportLoads.find(l => l.transport.id === selectedLu.id);
+                if (!load) return undefined;
+                return {
+                  load,
+                  candidates: embarkCandidates(editor, selectedLu.id, allUnitKeywords),
+                  onEmbark: (passengerIds: string[]) => editor.embarkUnits(selectedLu.id, passengerIds),
+                  onDisembark: (passengerIds: string[]) => editor.disembarkUnits(passengerIds),
+                };
+              })()}
+              embarkedIn={(() => {
+                const embark = editor.transportEmbarks.find(te => te.passenger_army_list_unit_id === selectedLu.id);
+                return embark ? editor.listUnits.find(lu => lu.id === embark.transport_army_list_unit_id)?.units.name : null;
+              })()}
+              readOnly={readOnly}
             />
             </>
           );
@@ -341,6 +485,33 @@ export function ListEditorPage() {
         />
       )}
 
+      {/* Comment threads and review requests */}
+      {showComments && editor.list && (
+        <ListCommentsPanel
+          listId={editor.list.id}
+          onClose={() => setShowComments(false)}
+        />
+      )}
+
+      {/* Share the list with teammates */}
+      {showCollaborators && user && editor.list && (
+        <ListCollaboratorsModal
+          listId={editor.list.id}
+          userId={user.id}
+          onClose={() => setShowCollaborators(false)}
+        />
+      )}
+
+      {/* Points dataset pin and re-pin diff */}
+      {showPointsDataset && editor.list && (
+        <PointsDatasetModal onClose={() => setShowPointsDataset(false)} />
+      )}
+
+      {/* Fill remaining points */}
+      {showPointsFill && (
+        <PointsFillModal onClose={() => setShowPointsFill(false)} />
+      )}
+
       {/* Export modal */}
       {editor.showExport && (
         <ExportModal
@@ -351,10 +522,19 @@ export function ListEditorPage() {
           totalPoints={editor.totalPoints}
           wargearOptions={editor.wargearOptions}
           unitWargearSelections={editor.unitWargearSelections}
+          transportEmbarks={editor.transportEmbarks}
+          listDocument={editor.listDocument}
           onClose={() => editor.setShowExport(false)}
-          onImport={editor.handleImport}
+          onImport={readOnly ? undefined : editor.handleImport}
+          onImportRoster={readOnly ? undefined : editor.handleRosterImport}
+          onImportDocument={readOnly ? undefined : editor.handleDocumentImport}
         />
       )}
+
+      {/* Auto-fix / cascading warnings */}
+      <CascadePreviewDialog />
+      <DetachmentSwitchDialog />
+      <AutoFixToast />
     </div>
   );
 }
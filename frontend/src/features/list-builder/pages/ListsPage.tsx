@@ -2,10 +2,11 @@ import { useEffect, useState, useMemo, useCallback } from 'react';
 import { Link } from 'react-router-dom';
 import { supabase } from '../../../shared/lib/supabase';
 import { useAuth } from '../../../shared/hooks/useAuth';
-import type { ArmyList, Faction } from '../../../shared/types/database';
+import type { ArmyList, ArmyListCollaborator, Faction } from '../../../shared/types/database';
 import { CreateListModal } from '../components/CreateListModal';
 import { ConfirmDialog } from '../../../shared/components/ConfirmDialog';
 import { ListCompareModal } from '../components/ListCompareModal';
+import { MAX_COMPARE_LISTS } from '../lib/listCompare';
 
 function relativeTime(dateStr: string): string {
   const now = Date.now();
@@ -26,9 +27,12 @@ function relativeTime(dateStr: string): string {
 
 type SortOption = 'updated' | 'name' | 'created';
 
+type SharedList = ArmyList & { factions: Faction; role: ArmyListCollaborator['role'] };
+
 export function ListsPage() {
   const { user } = useAuth();
   const [lists, setLists] = useState<(ArmyList & { factions: Faction })[]>([]);
+  const [sharedLists, setSharedLists] = useState<SharedList[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [showCreate, setShowCreate] = useState(false);
@@ -38,23 +42,40 @@ export function ListsPage() {
   const [confirmDelete, setConfirmDelete] = useState<{ id: string; name: string } | null>(null);
   const [compareMode, setCompareMode] = useState(false);
   const [compareSelection, setCompareSelection] = useState<string[]>([]);
-  const [compareModal, setCompareModal] = useState<{ a: ArmyList & { factions: Faction }; b: ArmyList & { factions: Faction } } | null>(null);
+  const [compareModal, setCompareModal] = useState<(ArmyList & { factions: Faction })[] | null>(null);
 
   const fetchLists = useCallback(async () => {
     if (!user) return;
     setLoading(true);
     setError(null);
-    const { data, error: fetchError } = await supabase
-      .from('army_lists')
-      .select('*, factions(*)')
-      .eq('user_id', user.id)
-      .order('updated_at', { ascending: false });
+    const [{ data, error: fetchError }, { data: sharedData, error: sharedError }] = await Promise.all([
+      supabase
+        .from('army_lists')
+        .select('*, factions(*)')
+        .eq('user_id', user.id)
+        .order('updated_at', { ascending: false }),
+      supabase
+        .from('army_list_collaborators')
+        .select('role, army_lists(*, factions(*))')
+        .eq('user_id', user.id),
+    ]);
     if (fetchError) {
       console.error('Failed to load army lists:', fetchError);
       setError(fetchError.message);
     } else if (data) {
       setLists(data as (ArmyList & { factions: Faction })[]);
     }
+    if (sharedError) {
+      console.error('Failed to load shared army lists:', sharedError);
+    } else if (sharedData) {
+      const rows = sharedData as unknown as { role: ArmyListCollaborator['role']; army_lists: (ArmyList & { factions: Faction }) | null }[];
+      setSharedLists(
+        rows
+          .filter(r => r.army_lists)
+          .map(r => ({ ...r.army_lists!, role: r.role }))
+          .sort((a, b) => new Date(b.updated_at).getTime() - new Date(a.updated_at).getTime()),
+      );
+    }
     setLoading(false);
   }, [user]);
 
@@ -79,16 +100,14 @@ export function ListsPage() {
       setCompareSelection(prev => prev.filter(id => id !== list.id));
       return;
     }
-    const next = [...compareSelection, list.id];
-    if (next.length === 2) {
-      const listAObj = lists.find(l => l.id === next[0])!;
-      const listBObj = lists.find(l => l.id === next[1])!;
-      setCompareModal({ a: listAObj, b: listBObj });
-      setCompareMode(false);
-      setCompareSelection([]);
-    } else {
-      setCompareSelection(next);
-    }
+    if (compareSelection.length >= MAX_COMPARE_LISTS) return;
+    setCompareSelection(prev => [...prev, list.id]);
+  }
+
+  function handleCompareOpen() {
+    setCompareModal(compareSelection.map(id => lists.find(l => l.id === id)!));
+    setCompareMode(false);
+    setCompareSelection([]);
   }
 
   async function handleDelete(id: string) {
@@ -224,12 +243,19 @@ export function ListsPage() {
         <div className="lists-page__compare-banner">
           <span>
             {compareSelection.length === 0
-              ? 'Select the first list to compare'
-              : 'Select the second list to compare'}
+              ? `Select up to ${MAX_COMPARE_LISTS} lists to compare`
+              : compareSelection.length === 1
+                ? 'Select at least one more list'
+                : `${compareSelection.length} of ${MAX_COMPARE_LISTS} lists selected`}
           </span>
-          <button className="btn btn--sm btn--ghost" onClick={handleCompareCancel}>
-            Cancel
-          </button>
+          <div className="lists-page__header-actions">
+            <button className="btn btn--sm btn--primary" onClick={handleCompareOpen} disabled={compareSelection.length < 2}>
+              Compare
+            </button>
+            <button className="btn btn--sm btn--ghost" onClick={handleCompareCancel}>
+              Cancel
+            </button>
+          </div>
         </div>
       )}
 
@@ -310,6 +336,30 @@ export function ListsPage() {
         </div>
       )}
 
+      {sharedLists.length > 0 && !compareMode && (
+        <div className="lists-page__shared">
+          <div className="lists-page__faction-header">Shared with me</div>
+          <div className="lists-page__grid">
+            {sharedLists.map(list => (
+              <div key={list.id} className="list-card">
+                <Link to={`/list/${list.id}`} className="list-card__link">
+                  <div className="list-card__info">
+                    <h3 className="list-card__name">{list.name}</h3>
+                    <span className="list-card__meta">
+                      {list.factions?.name} &middot; {list.points_limit} pts
+                    </span>
+                  </div>
+                  <span className="list-card__time">{relativeTime(list.updated_at)}</span>
+                </Link>
+                <span className={`list-card__role list-card__role--${list.role}`}>
+                  {list.role === 'editor' ? 'Editor' : 'View only'}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {showCreate && (
         <CreateListModal
           onClose={() => setShowCreate(false)}
@@ -333,8 +383,7 @@ export function ListsPage() {
 
       {compareModal && (
         <ListCompareModal
-          listA={compareModal.a}
-          listB={compareModal.b}
+          lists={compareModal}
           onClose={() => setCompareModal(null)}
         />
       )}
@@ -1,4 +1,4 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import {
   useListEditorStore,
   selectTotalPoints,
@@ -14,6 +14,7 @@ import {
 } from './listEditorStore';
 import type { Enhancement } from '../../../shared/types/database';
 import { supabase } from '../../../shared/lib/supabase';
+import { clearQueuedMutations, getQueuedMutations } from '../lib/mutationQueue';
 
 // ============================================================
 // Shared mock factories
@@ -37,6 +38,7 @@ function mockUnit(overrides?: Partial<UnitWithRelations>): UnitWithRelations {
     transport_capacity: null,
     transport_keywords_allowed: null,
     transport_keywords_excluded: null,
+    transport_bulky_keywords: null,
     edition: '10e',
     created_at: '2025-01-01T00:00:00Z',
     unit_points_tiers: [
@@ -160,6 +162,12 @@ function setupFullList() {
     selectedArmyListUnitId: null,
     collapsedPickerRoles: new Set(),
     showLegends: false,
+    undoStack: [],
+    redoStack: [],
+    syncStatus: 'synced',
+    syncError: null,
+    pendingMutations: 0,
+    baseUpdatedAt: null,
     _refetch: vi.fn().mockResolvedValue(undefined),
     _fetchServerValidation: vi.fn(),
   } as never);
@@ -486,4 +494,325 @@ describe('List Builder Integration', () => {
       expect(after).toEqual(before);
     });
   });
+
+  describe('undo / redo', () => {
+    it('records each mutation and moves it between the stacks', async () => {
+      setupFullList();
+
+      await useListEditorStore.getState().updateModelCount('alu-int2', 10);
+      expect(useListEditorStore.getState().undoStack.map(c => c.label)).toEqual(['Set Intercessors to 10 models']);
+
+      await useListEditorStore.getState().undo();
+      expect(useListEditorStore.getState().undoStack).toHaveLength(0);
+      expect(useListEditorStore.getState().redoStack).toHaveLength(1);
+
+      await useListEditorStore.getState().redo();
+      expect(useListEditorStore.getState().undoStack).toHaveLength(1);
+      expect(useListEditorStore.getState().redoStack).toHaveLength(0);
+    });
+
+    it('replays the inverse DB write on undo', async () => {
+      setupFullList();
+      const chain = mockChain();
+      vi.mocked(supabase.from).mockImplementation(() => chain as never);
+
+      await useListEditorStore.getState().updateModelCount('alu-int2', 10);
+      await useListEditorStore.getState().undo();
+
+      expect(chain.update).toHaveBeenNthCalledWith(1, { model_count: 10 });
+      expect(chain.update).toHaveBeenNthCalledWith(2, { model_count: 5 });
+    });
+
+    it('a new edit clears the redo stack', async () => {
+      setupFullList();
+
+      await useListEditorStore.getState().updateModelCount('alu-int2', 10);
+      await useListEditorStore.getState().undo();
+      await useListEditorStore.getState().removeUnit('alu-erad');
+
+      expect(useListEditorStore.getState().redoStack).toHaveLength(0);
+      expect(useListEditorStore.getState().undoStack.map(c => c.label)).toEqual(['Remove Eradicators']);
+    });
+
+    it('does not record a command when the write fails', async () => {
+      setupFullList();
+      vi.mocked(supabase.from).mockImplementation(
+        () => mockChain({ data: null, error: { message: 'denied' } }) as never,
+      );
+
+      await useListEditorStore.getState().updateModelCount('alu-int2', 10);
+
+      expect(useListEditorStore.getState().undoStack).toHaveLength(0);
+      expect(useListEditorStore.getState().error).toBe('denied');
+    });
+
+    it('keeps history usable after an undo throws', async () => {
+      setupFullList();
+      await useListEditorStore.getState().updateModelCount('alu-int2', 10);
+      await useListEditorStore.getState().removeUnit('alu-erad');
+      useListEditorStore.setState({ _refetch: vi.fn().mockRejectedValueOnce(new Error('offline')) } as never);
+
+      await expect(useListEditorStore.getState().undo()).rejects.toThrow('offline');
+      await useListEditorStore.getState().undo();
+
+      expect(useListEditorStore.getState().undoStack).toHaveLength(0);
+      expect(useListEditorStore.getState().redoStack).toHaveLength(2);
+    });
+  });
+
+  describe('offline queue', () => {
+    afterEach(async () => {
+      vi.restoreAllMocks();
+      await clearQueuedMutations('list-1');
+    });
+
+    function goOffline() {
+      vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+    }
+
+    /** A switch to Firestorm that moves the Captain's enhancement onto the new one. */
+    function stageDetachmentSwitch() {
+      useListEditorStore.setState({
+        listEnhancements: [{ id: 'le-1', enhancement_id: 'enh-1', army_list_unit_id: 'alu-cap' }],
+        detachmentSwitch: {
+          detachment: { id: 'det-2', faction_id: 'faction-1', name: 'Firestorm Assault Force' },
+          enhancements: [{ id: 'enh-9', detachment_id: 'det-2', name: 'Adamantine Mantle', points: 20, description: '' }],
+          bearers: [{
+            armyListUnitId: 'alu-cap', unitName: 'Captain in Terminator Armour',
+            current: { id: 'enh-1', name: 'Iron Resolve', points: 25 }, candidates: [],
+          }],
+          stratagemsLost: [], stratagemsGained: [], ruleUnitsLost: [], ruleUnitsGained: [],
+        },
+      } as never);
+    }
+
+    /** Records each write; the first insert is rejected. */
+    function recordWrites() {
+      const writes: string[] = [];
+      let rejectInsert = true;
+      vi.mocked(supabase.from).mockImplementation(((table: string) => {
+        const chain = mockChain();
+        chain.update = vi.fn((values: unknown) => { writes.push(`update ${table} ${JSON.stringify(values)}`); return chain; });
+        chain.delete = vi.fn(() => { writes.push(`delete ${table}`); return chain; });
+        chain.insert = vi.fn((values: { id: string }) => {
+          writes.push(`insert ${table} ${values.id}`);
+          if (!rejectInsert) return chain;
+          rejectInsert = false;
+          return mockChain({ data: null, error: { message: 'denied' } });
+        });
+        return chain;
+      }) as never);
+      return writes;
+    }
+
+    it('applies the edit locally and queues it instead of calling the server', async () => {
+      setupFullList();
+      goOffline();
+
+      await useListEditorStore.getState().updateModelCount('alu-int2', 10);
+
+      const state = useListEditorStore.getState();
+      expect(supabase.from).not.toHaveBeenCalled();
+      expect(state.listUnits.find(lu => lu.id === 'alu-int2')?.model_count).toBe(10);
+      expect(state.pendingMutations).toBe(1);
+      expect(state.syncStatus).toBe('pending');
+      expect(state.undoStack).toHaveLength(1);
+      expect((await getQueuedMutations('list-1')).map(m => m.label)).toEqual(['Set Intercessors to 10 models']);
+    });
+
+    it('queues a write that fails with a network error', async () => {
+      setupFullList();
+      vi.mocked(supabase.from).mockImplementation(
+        () => mockChain({ data: null, error: { message: 'TypeError: Failed to fetch' } }) as never,
+      );
+
+      await useListEditorStore.getState().removeUnit('alu-erad');
+
+      const state = useListEditorStore.getState();
+      expect(state.listUnits.some(lu => lu.id === 'alu-erad')).toBe(false);
+      expect(state.pendingMutations).toBe(1);
+      expect(state.error).toBeNull();
+    });
+
+    it('rolls back the optimistic edit when the server rejects it', async () => {
+      setupFullList();
+      vi.mocked(supabase.from).mockImplementation(
+        () => mockChain({ data: null, error: { message: 'denied' } }) as never,
+      );
+
+      await useListEditorStore.getState().removeUnit('alu-erad');
+
+      expect(useListEditorStore.getState().listUnits.some(lu => lu.id === 'alu-erad')).toBe(true);
+      expect(useListEditorStore.getState().pendingMutations).toBe(0);
+    });
+
+    it('rolls back a rejected composition change', async () => {
+      setupFullList();
+      useListEditorStore.setState({
+        modelVariants: [{ id: 'mv-int', unit_id: 'u-inter', name: 'Intercessor', min_count: 4, max_count: 9, is_leader: false }],
+        unitCompositions: new Map([['alu-int2', new Map([['mv-int', 5]])]]),
+      } as never);
+      vi.mocked(supabase.from).mockImplementation(
+        () => mockChain({ data: null, error: { message: 'denied' } }) as never,
+      );
+
+      await useListEditorStore.getState().updateComposition('alu-int2', 'mv-int', 9);
+
+      const state = useListEditorStore.getState();
+      expect(state.unitCompositions.get('alu-int2')?.get('mv-int')).toBe(5);
+      expect(state.listUnits.find(lu => lu.id === 'alu-int2')?.model_count).toBe(5);
+    });
+
+    it('puts back the writes that landed when a later one is rejected', async () => {
+      setupFullList();
+      stageDetachmentSwitch();
+      const writes = recordWrites();
+
+      await useListEditorStore.getState().confirmDetachmentSwitch({ 'alu-cap': 'enh-9' });
+
+      // The switch and the old enhancement's removal landed before the new enhancement was rejected
+      expect(writes.slice(0, 2)).toEqual(['update army_lists {"detachment_id":"det-2"}', 'delete army_list_enhancements']);
+      expect(writes.slice(3)).toEqual(expect.arrayContaining([
+        'update army_lists {"detachment_id":"det-1"}',
+        'insert army_list_enhancements le-1',
+      ]));
+      const state = useListEditorStore.getState();
+      expect(state.list?.detachment_id).toBe('det-1');
+      expect(state.listEnhancements).toEqual([{ id: 'le-1', enhancement_id: 'enh-1', army_list_unit_id: 'alu-cap' }]);
+      expect(state.error).toBe('denied');
+    });
+
+    it('replays queued edits in order once back online', async () => {
+      setupFullList();
+      goOffline();
+      await useListEditorStore.getState().updateModelCount('alu-int2', 10);
+      await useListEditorStore.getState().removeUnit('alu-erad');
+      vi.restoreAllMocks();
+
+      const chain = mockChain();
+      vi.mocked(supabase.from).mockImplementation(() => chain as never);
+      await useListEditorStore.getState().flushMutationQueue();
+
+      expect(chain.update).toHaveBeenCalledWith({ model_count: 10 });
+      expect(chain.delete).toHaveBeenCalled();
+      expect(useListEditorStore.getState().syncStatus).toBe('synced');
+      expect(useListEditorStore.getState().pendingMutations).toBe(0);
+      expect(await getQueuedMutations('list-1')).toHaveLength(0);
+    });
+
+    it('puts back the writes that landed when a queued edit is rejected on replay', async () => {
+      setupFullList();
+      stageDetachmentSwitch();
+      goOffline();
+      await useListEditorStore.getState().confirmDetachmentSwitch({ 'alu-cap': 'enh-9' });
+      vi.restoreAllMocks();
+      const writes = recordWrites();
+
+      await useListEditorStore.getState().flushMutationQueue();
+
+      expect(writes.slice(0, 2)).toEqual(['update army_lists {"detachment_id":"det-2"}', 'delete army_list_enhancements']);
+      expect(writes.slice(3)).toEqual(expect.arrayContaining([
+        'update army_lists {"detachment_id":"det-1"}',
+        'insert army_list_enhancements le-1',
+      ]));
+      expect(useListEditorStore.getState().syncStatus).toBe('error');
+      expect(await getQueuedMutations('list-1')).toHaveLength(1);
+    });
+
+    it('keeps the queue when replaying it throws', async () => {
+      setupFullList();
+      goOffline();
+      await useListEditorStore.getState().updateModelCount('alu-int2', 10);
+      vi.restoreAllMocks();
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      vi.mocked(supabase.from).mockImplementation(() => { throw new Error('boom'); });
+
+      await expect(useListEditorStore.getState().flushMutationQueue()).resolves.toBeUndefined();
+
+      expect(useListEditorStore.getState().syncStatus).toBe('pending');
+      expect(await getQueuedMutations('list-1')).toHaveLength(1);
+    });
+
+    it('flags a conflict when the list changed on the server while offline', async () => {
+      setupFullList();
+      useListEditorStore.setState({ baseUpdatedAt: '2026-10-01T10:00:00Z' });
+      goOffline();
+      await useListEditorStore.getState().updateModelCount('alu-int2', 10);
+      vi.restoreAllMocks();
+
+      const chain = mockChain({ data: { updated_at: '2026-10-01T12:00:00Z' }, error: null });
+      vi.mocked(supabase.from).mockImplementation(() => chain as never);
+      await useListEditorStore.getState().flushMutationQueue();
+
+      expect(useListEditorStore.getState().syncStatus).toBe('conflict');
+      expect(chain.update).not.toHaveBeenCalled();
+      expect(await getQueuedMutations('list-1')).toHaveLength(1);
+    });
+
+    it('discarding after a conflict drops the queue and history', async () => {
+      setupFullList();
+      goOffline();
+      await useListEditorStore.getState().updateModelCount('alu-int2', 10);
+      vi.restoreAllMocks();
+      useListEditorStore.setState({ syncStatus: 'conflict' });
+
+      await useListEditorStore.getState().resolveSyncConflict('discard-mine');
+
+      const state = useListEditorStore.getState();
+      expect(state.syncStatus).toBe('synced');
+      expect(state.pendingMutations).toBe(0);
+      expect(state.undoStack).toHaveLength(0);
+      expect(await getQueuedMutations('list-1')).toHaveLength(0);
+    });
+  });
+
+  describe('live collaboration', () => {
+    afterEach(() => {
+      useListEditorStore.getState().setEditBroadcaster(null);
+    });
+
+    it.each([
+      ['lands', null],
+      ['is rejected part-way', { message: 'denied' }],
+    ])('tells collaborators to re-fetch when an import %s', async (_outcome, error) => {
+      setupFullList();
+      useListEditorStore.setState({ _fetchAll: vi.fn().mockResolvedValue(undefined) } as never);
+      const broadcaster = { edit: vi.fn(), resync: vi.fn() };
+      useListEditorStore.getState().setEditBroadcaster(broadcaster);
+      vi.mocked(supabase.from).mockImplementation(() => mockChain({ data: null, error }) as never);
+
+      await useListEditorStore.getState()._replaceList(
+        () => undefined,
+        () => ({
+          ops: [{ type: 'delete', table: 'army_list_units', match: { army_list_id: 'list-1' } }],
+          report: { matchedUnits: 1 } as never,
+        }),
+      );
+
+      expect(broadcaster.resync).toHaveBeenCalled();
+    });
+
+    it('re-fetches instead of writing when a concurrent remote edit wins', async () => {
+      setupFullList();
+      const fetchAll = vi.fn().mockResolvedValue(undefined);
+      useListEditorStore.setState({ _fetchAll: fetchAll } as never);
+      const broadcaster = { edit: vi.fn(), resync: vi.fn() };
+      useListEditorStore.getState().setEditBroadcaster(broadcaster);
+      vi.mocked(supabase.from).mockImplementation(() => mockChain() as never);
+      await useListEditorStore.getState().updateModelCount('alu-int2', 10);
+      vi.mocked(supabase.from).mockClear();
+
+      await useListEditorStore.getState().receiveRemoteEdit({
+        stamp: { clock: 1000, clientId: 'zzz' },
+        seen: {},
+        label: 'Set Intercessors to 8 models',
+        ops: [{ type: 'update', table: 'army_list_units', match: { id: 'alu-int2' }, values: { model_count: 8 } }],
+      });
+
+      expect(supabase.from).not.toHaveBeenCalled();
+      expect(fetchAll).toHaveBeenCalledWith('list-1');
+      expect(broadcaster.resync).toHaveBeenCalled();
+      expect(useListEditorStore.getState().undoStack).toHaveLength(0);
+    });
+  });
 });
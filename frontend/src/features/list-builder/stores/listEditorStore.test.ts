@@ -7,6 +7,7 @@ import {
   selectUnitEnhancementMap,
   selectAssignedEnhancementIds,
   selectEnhancementLimitReached,
+  selectListViolations,
   selectUnitLimitWarnings,
   selectEnhancementWarnings,
   selectBattleSizeWarnings,
@@ -55,6 +56,7 @@ function mockUnit(overrides?: Partial<UnitWithRelations>): UnitWithRelations {
     transport_capacity: null,
     transport_keywords_allowed: null,
     transport_keywords_excluded: null,
+    transport_bulky_keywords: null,
     edition: '10e',
     created_at: '2025-01-01T00:00:00Z',
     unit_points_tiers: [
@@ -104,6 +106,7 @@ function mockState(overrides?: Record<string, unknown>) {
     unitCompositions: new Map(),
     leaderTargets: [],
     leaderAttachments: [],
+    transportEmbarks: [],
     alliedUnitIds: new Set<string>(),
     serverValidation: null,
     serverValidationError: false,
@@ -231,6 +234,26 @@ describe('selectEnhancementLimitReached', () => {
   });
 });
 
+describe('selectListViolations', () => {
+  const unit = mockUnit({ id: 'u1', name: 'Intercessors', max_per_list: 1 });
+
+  it('reuses the result until the list changes', () => {
+    const state = mockState({
+      listUnits: [
+        mockListUnit({ id: 'alu-1', unit_id: 'u1', units: unit }),
+        mockListUnit({ id: 'alu-2', unit_id: 'u1', units: unit }),
+      ],
+    });
+
+    const violations = selectListViolations(state as never);
+    expect(selectListViolations({ ...state, unitPickerFilter: 'inter' } as never)).toBe(violations);
+
+    const changed = selectListViolations({ ...state, listUnits: state.listUnits.slice(1) } as never);
+    expect(changed).not.toBe(violations);
+    expect(changed).toEqual([]);
+  });
+});
+
 describe('selectUnitLimitWarnings', () => {
   it('warns when a unit exceeds its max_per_list', () => {
     const unit = mockUnit({ id: 'u1', name: 'Intercessors', max_per_list: 3 });
@@ -352,6 +375,21 @@ describe('selectFilteredUnits', () => {
     const filtered = selectFilteredUnits(state as never);
     expect(filtered).toHaveLength(2);
   });
+
+  it('applies query filters, letting legends: override the toggle', () => {
+    const units = [
+      mockUnit({ id: 'u1', name: 'Captain', role: 'character', toughness: 4 }),
+      mockUnit({ id: 'u2', name: 'Terminator Captain', role: 'character', toughness: 5 }),
+      mockUnit({ id: 'u3', name: 'Legends Captain', role: 'character', toughness: 5, is_legends: true }),
+    ];
+    const state = mockState({
+      availableUnits: units,
+      showLegends: false,
+      unitPickerFilter: 'role:character t>=5 legends:yes',
+    });
+
+    expect(selectFilteredUnits(state as never).map(u => u.id)).toEqual(['u3']);
+  });
 });
 
 describe('selectUnitsByRole', () => {
@@ -3,9 +3,50 @@ import { supabase } from '../../../shared/lib/supabase';
 import type {
   ArmyList, Unit, UnitPointsTier, ArmyListUnit, Enhancement,
   Detachment, Ability, Weapon, ValidateArmyListResult, WargearOption,
-  WargearSubOption, ModelVariant, ArmyListUnitComposition, LeaderTarget, LeaderAttachment,
+  WargearSubOption, ModelVariant, ArmyListUnitComposition, LeaderTarget, LeaderAttachment, TransportEmbark,
+  PointsDataset, EnhancementRestriction, AlliedContingentRule, CombatPatrol, CombatPatrolUnit,
+  CombatPatrolWargearOption,
 } from '../../../shared/types/database';
-import type { ParsedUnit } from '../components/ExportModal';
+import {
+  addUnitCommand, removeUnitCommand, updateModelCountCommand, changeDetachmentCommand,
+  assignEnhancementCommand, selectWargearCommand, selectWargearSubOptionCommand,
+  updateCompositionCommand, attachLeaderCommand, detachLeaderCommand, combineCommands,
+  embarkCommand, disembarkCommand, pinPointsDatasetCommand,
+  type ListCommand, type ListCommandContext, type ListOp,
+} from '../lib/listCommands';
+import { applyListOps } from '../lib/applyListOps';
+import { validateList, type ListRulesInput, type ListViolation, type ListViolationCode } from '../lib/listRules';
+import { planAutoFixes, previewCascade } from '../lib/listAutoFix';
+import type { FillSuggestion, PointsFillInput } from '../lib/pointsFill';
+import { readRosterFile, type ParsedRoster } from '../lib/rosterFile';
+import { parsedListToRoster, type ParsedList } from '../lib/importFormats';
+import {
+  findRosterDetachment, planRosterImport,
+  type RosterCatalogue, type RosterImportPlan, type RosterImportReport,
+} from '../lib/rosterImport';
+import {
+  buildListDocument, findDocumentDetachment, parseListDocument, planListDocumentImport, type ListDocument,
+} from '../lib/listDocument';
+import { buildListSnapshot } from '../lib/listVersionDiff';
+import { buildAllUnitKeywords } from '../lib/enhancementEligibility';
+import { buildAlliedContingents, type AlliedContingent } from '../lib/alliedContingents';
+import { COMBAT_PATROL_ENHANCEMENTS, isWargearPermitted, type CombatPatrolCatalogue } from '../lib/combatPatrol';
+import {
+  planDetachmentSwitch, type DetachmentSwitchPlan, type EnhancementChoices,
+} from '../lib/detachmentSwitch';
+import {
+  datasetPoints, withDatasetEnhancementPoints, withDatasetTiers, type DatasetPoints,
+} from '../lib/pointsDataset';
+import {
+  conflictKeys, resolveRemoteEdit,
+  type ListAccessRole, type ListPresence, type LocalListEdit, type RemoteListEdit,
+} from '../lib/listCollaboration';
+import { useSettingsStore } from '../../../shared/stores/settingsStore';
+import { useAuthStore } from '../../../shared/stores/authStore';
+import { hasQueryTerm, matchesUnitQuery, parseUnitQuery } from '../../../shared/lib/unitQuery';
+import {
+  enqueueMutation, getQueuedMutations, removeQueuedMutation, clearQueuedMutations, isNetworkError,
+} from '../lib/mutationQueue';
 
 // ============================================================
 // Types
@@ -21,6 +62,11 @@ export type ArmyListUnitWithDetails = ArmyListUnit & {
   units: UnitWithRelations;
 };
 
+/** An enhancement with the bearer restriction the BSData parser read for it, if any */
+export type EnhancementWithRestriction = Enhancement & {
+  enhancement_restrictions: EnhancementRestriction | null;
+};
+
 export const ROLE_ORDER = [
   'epic_hero', 'character', 'battleline', 'infantry', 'mounted',
   'beast', 'vehicle', 'monster', 'fortification', 'dedicated_transport', 'allied',
@@ -60,13 +106,48 @@ export function getUnitPoints(
 // Store shape
 // ============================================================
 
+/**
+ * synced   — server has every edit
+ * pending  — edits are queued locally (offline or waiting to replay)
+ * syncing  — queued edits are being replayed
+ * conflict — the list changed on the server while edits were queued
+ * error    — the server rejected a queued edit
+ */
+export type ListSyncStatus = 'synced' | 'pending' | 'syncing' | 'conflict' | 'error';
+
+/** An edit held back so its knock-on effects can be reviewed first (displayCascadingWarnings). */
+export interface PendingChange {
+  label: string;
+  effects: string[];
+  apply: () => Promise<void>;
+}
+
+/** Sends this client's edits to everyone else with the list open (see useListCollaboration). */
+export interface EditBroadcaster {
+  edit: (edit: RemoteListEdit) => void;
+  /** Tells the others to re-fetch after this client repaired the database */
+  resync: () => void;
+}
+
+/** Repairs made by auto-fix after the last edit, and the history entries that undo them. */
+export interface AutoFixNotice {
+  fixes: string[];
+  commands: ListCommand[];
+}
+
+export interface RosterImportResult {
+  success: boolean;
+  error: string | null;
+  report: RosterImportReport | null;
+}
+
 interface ListEditorState {
   // Core data
   listId: string | null;
   list: (ArmyList & { detachments: Detachment }) | null;
   listUnits: ArmyListUnitWithDetails[];
   availableUnits: UnitWithRelations[];
-  enhancements: Enhancement[];
+  enhancements: EnhancementWithRestriction[];
   listEnhancements: { id: string; enhancement_id: string; army_list_unit_id: string }[];
   wargearOptions: WargearOption[];
   wargearSubOptions: WargearSubOption[];
@@ -79,13 +160,42 @@ interface ListEditorState {
   unitCompositions: Map<string, Map<string, number>>;
   leaderTargets: LeaderTarget[];
   leaderAttachments: LeaderAttachment[];
+  transportEmbarks: TransportEmbark[];
   alliedUnitIds: Set<string>;
+  // Allied contingent rules for the list's faction, one per allied faction
+  alliedRules: AlliedContingentRule[];
   availableDetachments: Detachment[];
+  // Points releases for the list's edition, newest first
+  pointsDatasets: PointsDataset[];
+  // The fixed force a Combat Patrol list was created from
+  combatPatrol: CombatPatrolCatalogue | null;
 
   // Validation
   serverValidation: ValidateArmyListResult | null;
   serverValidationError: boolean;
 
+  // Undo / redo history (most recent command last)
+  undoStack: ListCommand[];
+  redoStack: ListCommand[];
+
+  // Offline sync
+  syncStatus: ListSyncStatus;
+  syncError: string | null;
+  pendingMutations: number;
+  // army_lists.updated_at as of our last server round trip — used to detect conflicts
+  baseUpdatedAt: string | null;
+
+  // Auto-fix / cascading warnings
+  pendingChange: PendingChange | null;
+  lastAutoFix: AutoFixNotice | null;
+  // A detachment change waiting on the user to review it and pick replacement enhancements
+  detachmentSwitch: DetachmentSwitchPlan | null;
+
+  // Collaboration
+  accessRole: ListAccessRole;
+  // Other editors with the list open, and the unit each has selected
+  collaborators: ListPresence[];
+
   // UI state
   loading: boolean;
   saving: boolean;
@@ -112,7 +222,10 @@ interface ListEditorState {
   updateListName: (name: string) => Promise<void>;
   updatePointsLimit: (limit: number) => Promise<void>;
   updateBattleSize: (battleSize: string, points: number) => Promise<void>;
+  pinPointsDataset: (datasetId: string | null) => Promise<void>;
   changeDetachment: (detachmentId: string) => Promise<void>;
+  confirmDetachmentSwitch: (choices: EnhancementChoices) => Promise<void>;
+  cancelDetachmentSwitch: () => void;
 
   // Enhancements
   assignEnhancement: (armyListUnitId: string, enhancementId: string) => Promise<void>;
@@ -128,8 +241,38 @@ interface ListEditorState {
   attachLeader: (leaderArmyListUnitId: string, targetArmyListUnitId: string) => Promise<void>;
   detachLeader: (leaderArmyListUnitId: string) => Promise<void>;
 
+  // Transport embark plan
+  embarkUnits: (transportArmyListUnitId: string, passengerArmyListUnitIds: string[]) => Promise<void>;
+  disembarkUnits: (passengerArmyListUnitIds: string[]) => Promise<void>;
+
+  // Points fill
+  applyFillSuggestion: (suggestion: FillSuggestion) => Promise<void>;
+
   // Import
-  handleImport: (parsed: ParsedUnit[]) => Promise<{ success: boolean; matched: number; unmatched: string[] }>;
+  handleImport: (parsed: ParsedList) => Promise<RosterImportResult>;
+  handleRosterImport: (data: ArrayBuffer) => Promise<RosterImportResult>;
+  handleDocumentImport: (text: string) => Promise<RosterImportResult>;
+
+  // History
+  undo: () => Promise<void>;
+  redo: () => Promise<void>;
+
+  // Offline sync
+  flushMutationQueue: () => Promise<void>;
+  resolveSyncConflict: (resolution: 'keep-mine' | 'discard-mine') => Promise<void>;
+  discardFailedMutation: () => Promise<void>;
+
+  // Auto-fix / cascading warnings
+  confirmPendingChange: () => Promise<void>;
+  cancelPendingChange: () => void;
+  undoAutoFix: () => Promise<void>;
+  dismissAutoFix: () => void;
+
+  // Collaboration
+  receiveRemoteEdit: (edit: RemoteListEdit) => Promise<void>;
+  receiveRemoteResync: () => Promise<void>;
+  setCollaborators: (collaborators: ListPresence[]) => void;
+  setEditBroadcaster: (broadcaster: EditBroadcaster | null) => void;
 
   // UI actions
   setShowExport: (show: boolean) => void;
@@ -145,19 +288,167 @@ interface ListEditorState {
   _fetchServerValidation: () => Promise<void>;
   _refetch: () => Promise<void>;
   _saveSnapshot: (changeNote?: string) => Promise<void>;
+  _execute: (command: ListCommand) => Promise<boolean>;
+  _commit: (label: string, ops: ListOp[], inverse?: ListOp[]) => Promise<boolean>;
+  _refreshBaseVersion: () => Promise<void>;
+  _withCascadePreview: (command: ListCommand, apply: () => Promise<void>) => Promise<void>;
+  _autoFix: (notes?: string[], cause?: ListCommand) => Promise<void>;
+  _importRoster: (roster: ParsedRoster) => Promise<RosterImportResult>;
+  _replaceList: (
+    findDetachment: (catalogue: RosterCatalogue) => Detachment | undefined,
+    plan: (catalogue: RosterCatalogue, listId: string, detachment: Detachment | undefined) => RosterImportPlan,
+  ) => Promise<RosterImportResult>;
 }
 
 // ============================================================
 // Internal helpers
 // ============================================================
 
+/** Maximum number of commands kept on the undo stack */
+const HISTORY_LIMIT = 50;
+
+const COMBAT_PATROL_IMPORT_ERROR = 'A Combat Patrol keeps its fixed force.';
+
+// Guards against overlapping undo/redo when shortcuts are pressed rapidly
+let historyInFlight = false;
+// Guards against replaying the offline queue twice (online event + init racing)
+let flushInFlight = false;
+
+// Live collaboration: this tab's id, its Lamport clock, the latest clock seen from each
+// client and its own recent edits (see lib/listCollaboration.ts)
+const collabClientId = crypto.randomUUID();
+let collabClock = 0;
+let collabSeen: Record<string, number> = {};
+let collabEdits: LocalListEdit[] = [];
+let editBroadcaster: EditBroadcaster | null = null;
+
+/** Stamps a saved edit and sends it to the other editors. */
+function broadcastEdit(label: string, ops: ListOp[], state: ListEditorState) {
+  if (!editBroadcaster) return;
+  collabClock += 1;
+  collabSeen[collabClientId] = collabClock;
+  const stamp = { clock: collabClock, clientId: collabClientId };
+  collabEdits = [
+    ...collabEdits,
+    { stamp, keys: conflictKeys(ops, state.unitWargearRowIds) },
+  ].slice(-HISTORY_LIMIT);
+  editBroadcaster.edit({ stamp, seen: { ...collabSeen }, label, ops });
+}
+
+function isOffline(): boolean {
+  return typeof navigator !== 'undefined' && navigator.onLine === false;
+}
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+function commandContext(state: ListEditorState): ListCommandContext | null {
+  if (!state.listId || !state.list) return null;
+  return state as ListCommandContext;
+}
+
+/** Apply a command's DB operations in order, stopping at the first failure. */
+async function runListOps(ops: ListOp[]): Promise<void> {
+  for (const op of ops) {
+    const table = supabase.from(op.table);
+    let result;
+    switch (op.type) {
+      case 'insert':
+        result = await table.insert(op.values);
+        break;
+      case 'upsert':
+        result = await table.upsert(op.values, { onConflict: op.onConflict });
+        break;
+      case 'update': {
+        let query = table.update(op.values);
+        for (const [column, value] of Object.entries(op.match)) query = query.eq(column, value);
+        result = await query;
+        break;
+      }
+      case 'delete': {
+        let query = table.delete();
+        for (const [column, value] of Object.entries(op.match)) query = query.eq(column, value);
+        result = await query;
+        break;
+      }
+    }
+    if (result?.error) throw new Error(result.error.message);
+  }
+}
+
+/**
+ * Apply ops in order; if the server rejects one after earlier ones landed, put those back with
+ * the inverse ops before rethrowing. After a network error nothing is put back — the inverse
+ * couldn't reach the server either, and the ops are replayed later.
+ */
+async function runListOpsOrRevert(ops: ListOp[], inverse: ListOp[]): Promise<void> {
+  let written = 0;
+  try {
+    for (const op of ops) {
+      await runListOps([op]);
+      written += 1;
+    }
+  } catch (err) {
+    if (written > 0 && !isNetworkError(err)) {
+      // Inverse ops for writes that never happened fail harmlessly, so run each on its own
+      for (const op of inverse) await runListOps([op]).catch(() => undefined);
+    }
+    throw err;
+  }
+}
+
+/** A points dataset's tiers and enhancement points, for the units and enhancements given. */
+async function loadDatasetPoints(datasetId: string, unitIds: string[], enhancementIds: string[]): Promise<DatasetPoints> {
+  const [tiersRes, enhancementsRes] = await Promise.all([
+    supabase
+      .from('points_dataset_tiers')
+      .select('unit_id, model_count, points')
+      .eq('dataset_id', datasetId)
+      .in('unit_id', unitIds),
+    supabase
+      .from('points_dataset_enhancements')
+      .select('enhancement_id, points')
+      .eq('dataset_id', datasetId)
+      .in('enhancement_id', enhancementIds),
+  ]);
+  if (tiersRes.error) console.error('Failed to load pinned unit points:', tiersRes.error);
+  if (enhancementsRes.error) console.error('Failed to load pinned enhancement points:', enhancementsRes.error);
+  return datasetPoints(tiersRes.data ?? [], enhancementsRes.data ?? []);
+}
+
+/** A Combat Patrol with its fixed force and permitted wargear, or null if it can't be loaded. */
+async function loadCombatPatrol(combatPatrolId: string): Promise<CombatPatrolCatalogue | null> {
+  const [patrolRes, unitsRes] = await Promise.all([
+    supabase.from('combat_patrols').select('*').eq('id', combatPatrolId).single(),
+    supabase.from('combat_patrol_units').select('*').eq('combat_patrol_id', combatPatrolId).order('sort_order'),
+  ]);
+  if (patrolRes.error || !patrolRes.data) {
+    console.error('Failed to load combat patrol:', patrolRes.error);
+    return null;
+  }
+  const units = (unitsRes.data ?? []) as CombatPatrolUnit[];
+  const { data: wargearData, error: wargearError } = units.length > 0
+    ? await supabase
+        .from('combat_patrol_wargear_options')
+        .select('*')
+        .in('combat_patrol_unit_id', units.map(u => u.id))
+    : { data: [], error: null };
+  if (wargearError) console.error('Failed to load combat patrol wargear:', wargearError);
+  return {
+    patrol: patrolRes.data as CombatPatrol,
+    units,
+    wargearOptions: (wargearData ?? []) as CombatPatrolWargearOption[],
+  };
+}
+
 function getInitialState() {
   return {
     listId: null as string | null,
     list: null as (ArmyList & { detachments: Detachment }) | null,
     listUnits: [] as ArmyListUnitWithDetails[],
     availableUnits: [] as UnitWithRelations[],
-    enhancements: [] as Enhancement[],
+    enhancements: [] as EnhancementWithRestriction[],
     listEnhancements: [] as { id: string; enhancement_id: string; army_list_unit_id: string }[],
     wargearOptions: [] as WargearOption[],
     wargearSubOptions: [] as WargearSubOption[],
@@ -168,10 +459,25 @@ function getInitialState() {
     unitCompositions: new Map<string, Map<string, number>>(),
     leaderTargets: [] as LeaderTarget[],
     leaderAttachments: [] as LeaderAttachment[],
+    transportEmbarks: [] as TransportEmbark[],
     alliedUnitIds: new Set<string>(),
+    alliedRules: [] as AlliedContingentRule[],
     availableDetachments: [] as Detachment[],
+    pointsDatasets: [] as PointsDataset[],
+    combatPatrol: null as CombatPatrolCatalogue | null,
     serverValidation: null as ValidateArmyListResult | null,
     serverValidationError: false,
+    undoStack: [] as ListCommand[],
+    redoStack: [] as ListCommand[],
+    syncStatus: 'synced' as ListSyncStatus,
+    syncError: null as string | null,
+    pendingMutations: 0,
+    baseUpdatedAt: null as string | null,
+    pendingChange: null as PendingChange | null,
+    lastAutoFix: null as AutoFixNotice | null,
+    detachmentSwitch: null as DetachmentSwitchPlan | null,
+    accessRole: 'owner' as ListAccessRole,
+    collaborators: [] as ListPresence[],
     loading: true,
     saving: false,
     error: null as string | null,
@@ -202,12 +508,26 @@ export const useListEditorStore = create<ListEditorState>()((set, get) => ({
 
     try {
       await get()._fetchAll(listId);
+
+      // Re-apply edits still waiting from an earlier offline session
+      const queued = await getQueuedMutations(listId);
+      if (queued.length > 0) {
+        set((state) => ({
+          ...applyListOps(state, queued.flatMap(m => m.ops)),
+          pendingMutations: queued.length,
+          syncStatus: 'pending',
+        }));
+        await get().flushMutationQueue();
+      }
     } catch (err) {
       set({ loading: false, error: String(err) });
     }
   },
 
   reset: () => {
+    collabClock = 0;
+    collabSeen = {};
+    collabEdits = [];
     set(getInitialState());
   },
 
@@ -230,6 +550,19 @@ export const useListEditorStore = create<ListEditorState>()((set, get) => ({
 
     const list = listData as ArmyList & { detachments: Detachment };
 
+    // Owners and editors can change the list; anyone else who can read it only views it
+    const userId = useAuthStore.getState().user?.id;
+    let accessRole: ListAccessRole = list.user_id === userId ? 'owner' : 'viewer';
+    if (userId && accessRole !== 'owner') {
+      const { data: membership } = await supabase
+        .from('army_list_collaborators')
+        .select('role')
+        .eq('army_list_id', listId)
+        .eq('user_id', userId)
+        .maybeSingle();
+      if (membership?.role === 'editor') accessRole = 'editor';
+    }
+
     // 2. Fetch list units
     const { data: unitData } = await supabase
       .from('army_list_units')
@@ -242,7 +575,7 @@ export const useListEditorStore = create<ListEditorState>()((set, get) => ({
     // 3. Fetch available units (main faction + parent faction + allied)
     const { data: factionMeta } = await supabase
       .from('factions')
-      .select('alignment, parent_faction_id')
+      .select('parent_faction_id')
       .eq('id', list.faction_id)
       .single();
 
@@ -252,13 +585,18 @@ export const useListEditorStore = create<ListEditorState>()((set, get) => ({
       unitFactionIds.push(factionMeta.parent_faction_id);
     }
 
-    // Fetch available detachments for this faction (own + parent's generic ones)
+    // Fetch available detachments for this faction (own + parent's generic ones). A Combat
+    // Patrol list is tied to its patrol's detachment instead.
+    const combatPatrol = list.combat_patrol_id ? await loadCombatPatrol(list.combat_patrol_id) : null;
     const { data: detachmentData } = await supabase
       .from('detachments')
       .select('*')
       .in('faction_id', unitFactionIds)
+      .eq('is_combat_patrol', false)
       .order('name');
-    const availableDetachments = (detachmentData ?? []) as Detachment[];
+    const availableDetachments = list.combat_patrol_id
+      ? [list.detachments]
+      : (detachmentData ?? []) as Detachment[];
 
     const { data: mainUnits } = await supabase
       .from('units')
@@ -266,19 +604,30 @@ export const useListEditorStore = create<ListEditorState>()((set, get) => ({
       .in('faction_id', unitFactionIds)
       .order('name');
 
-    const alliedFactionNames = ['Unaligned Forces'];
-    if (factionMeta?.alignment === 'imperium') {
-      alliedFactionNames.push('Agents of the Imperium', 'Imperial Knights');
-    } else if (factionMeta?.alignment === 'chaos') {
-      alliedFactionNames.push('Chaos Knights');
+    // Allies come from the faction's own contingent rules, then its parent's
+    const { data: alliedRuleData, error: alliedRuleError } = await supabase
+      .from('allied_contingent_rules')
+      .select('*')
+      .in('faction_id', unitFactionIds);
+    if (alliedRuleError) console.error('Failed to load allied contingent rules:', alliedRuleError);
+    const alliedRules: AlliedContingentRule[] = [];
+    for (const factionId of unitFactionIds) {
+      for (const rule of (alliedRuleData ?? []) as AlliedContingentRule[]) {
+        if (rule.faction_id !== factionId || unitFactionIds.includes(rule.allied_faction_id)) continue;
+        if (!alliedRules.some(r => r.allied_faction_id === rule.allied_faction_id)) alliedRules.push(rule);
+      }
     }
 
+    // Unaligned Forces (fortifications) are open to every list without a rule
     const { data: alliedFactionRows } = await supabase
       .from('factions')
       .select('id')
-      .in('name', alliedFactionNames);
+      .eq('name', 'Unaligned Forces');
 
-    const alliedFactionIds = (alliedFactionRows || []).map(f => f.id as string);
+    const alliedFactionIds = [
+      ...alliedRules.map(r => r.allied_faction_id),
+      ...(alliedFactionRows || []).map(f => f.id as string),
+    ];
 
     let alliedUnits: UnitWithRelations[] = [];
     if (alliedFactionIds.length > 0) {
@@ -296,7 +645,7 @@ export const useListEditorStore = create<ListEditorState>()((set, get) => ({
     // 4. Fetch enhancements
     const { data: enhData } = await supabase
       .from('enhancements')
-      .select('*')
+      .select('*, enhancement_restrictions(*)')
       .eq('detachment_id', list.detachment_id)
       .order('points');
 
@@ -305,6 +654,27 @@ export const useListEditorStore = create<ListEditorState>()((set, get) => ({
       .select('*')
       .eq('army_list_id', listId);
 
+    // Points releases; a pinned list keeps its dataset's points instead of the current ones
+    const { data: datasetData } = await supabase
+      .from('points_datasets')
+      .select('*')
+      .eq('edition', list.edition)
+      .order('effective_date', { ascending: false });
+
+    let pricedUnits = availableUnits;
+    let pricedListUnits = listUnits;
+    let pricedEnhancements = (enhData ?? []) as unknown as EnhancementWithRestriction[];
+    if (list.points_dataset_id) {
+      const points = await loadDatasetPoints(
+        list.points_dataset_id,
+        [...new Set([...availableUnits.map(u => u.id), ...listUnits.map(lu => lu.unit_id)])],
+        pricedEnhancements.map(e => e.id),
+      );
+      pricedUnits = withDatasetTiers(availableUnits, points);
+      pricedListUnits = listUnits.map(lu => ({ ...lu, units: withDatasetTiers([lu.units], points)[0] }));
+      pricedEnhancements = withDatasetEnhancementPoints(pricedEnhancements, points);
+    }
+
     // 5. Fetch wargear options + sub-options
     const unitIds = availableUnits.map(u => u.id);
     const { data: wargearData } = await supabase
@@ -336,12 +706,17 @@ export const useListEditorStore = create<ListEditorState>()((set, get) => ({
       .select('*')
       .or(`leader_unit_id.in.(${unitIds.join(',')}),target_unit_id.in.(${unitIds.join(',')})`);
 
-    // 8. Fetch leader attachments
+    // 8. Fetch leader attachments and the transport embark plan
     const { data: attachmentData } = await supabase
       .from('army_list_leader_attachments')
       .select('*')
       .eq('army_list_id', listId);
 
+    const { data: embarkData } = await supabase
+      .from('army_list_transport_embarks')
+      .select('*')
+      .eq('army_list_id', listId);
+
     // 9. Fetch wargear selections & compositions for list units
     let unitWargearSelections = new Map<string, Map<string, string>>();
     let unitCompositions = new Map<string, Map<string, number>>();
@@ -409,11 +784,14 @@ export const useListEditorStore = create<ListEditorState>()((set, get) => ({
     // Set all state at once
     set({
       list,
-      listUnits,
-      availableUnits,
+      listUnits: pricedListUnits,
+      availableUnits: pricedUnits,
       alliedUnitIds,
+      alliedRules,
       availableDetachments,
-      enhancements: enhData ?? [],
+      combatPatrol,
+      pointsDatasets: (datasetData ?? []) as PointsDataset[],
+      enhancements: pricedEnhancements,
       listEnhancements: listEnhData ?? [],
       wargearOptions: (wargearData ?? []) as WargearOption[],
       wargearSubOptions: (wargearSubData ?? []) as WargearSubOption[],
@@ -422,8 +800,11 @@ export const useListEditorStore = create<ListEditorState>()((set, get) => ({
       unitCompositions,
       leaderTargets: (leaderTargetData ?? []) as LeaderTarget[],
       leaderAttachments: (attachmentData ?? []) as LeaderAttachment[],
+      transportEmbarks: (embarkData ?? []) as TransportEmbark[],
       serverValidation: valError ? null : (valData as unknown as ValidateArmyListResult),
       serverValidationError: !!valError,
+      baseUpdatedAt: list.updated_at,
+      accessRole,
       loading: false,
     });
 
@@ -433,7 +814,7 @@ export const useListEditorStore = create<ListEditorState>()((set, get) => ({
 
   _fetchServerValidation: async () => {
     const { listId } = get();
-    if (!listId) return;
+    if (!listId || isOffline()) return;
     const { data, error } = await supabase.rpc('validate_army_list', { list_id: listId });
     if (error) {
       set({ serverValidationError: true });
@@ -447,7 +828,9 @@ export const useListEditorStore = create<ListEditorState>()((set, get) => ({
   },
 
   _refetch: async () => {
-    const { listId } = get();
+    const { listId, pendingMutations } = get();
+    // Keep the optimistic state until queued edits have reached the server
+    if (pendingMutations > 0 || isOffline()) return;
     set({ saving: true });
     if (listId) await get()._fetchAll(listId);
     set({ saving: false });
@@ -456,42 +839,15 @@ export const useListEditorStore = create<ListEditorState>()((set, get) => ({
   },
 
   _saveSnapshot: async (changeNote?: string) => {
-    const { listId, list, listUnits, listEnhancements, leaderAttachments, unitWargearSelections, unitCompositions } = get();
-    if (!listId || !list) return;
+    const {
+      listId, list, listUnits, listEnhancements, leaderAttachments, transportEmbarks, unitWargearSelections,
+      unitCompositions, pendingMutations,
+    } = get();
+    if (!listId || !list || pendingMutations > 0 || isOffline()) return;
 
-    const snapshot = {
-      list: {
-        name: list.name,
-        faction_id: list.faction_id,
-        detachment_id: list.detachment_id,
-        points_limit: list.points_limit,
-        battle_size: list.battle_size,
-        edition: list.edition,
-      },
-      units: listUnits.map(lu => {
-        const enhEntry = listEnhancements.find(le => le.army_list_unit_id === lu.id);
-        const wargear = [...(unitWargearSelections.get(lu.id)?.entries() ?? [])].map(
-          ([group_name, option_id]) => ({ group_name, option_id })
-        );
-        const composition = [...(unitCompositions.get(lu.id)?.entries() ?? [])].map(
-          ([variant_id, count]) => ({ variant_id, count })
-        );
-        return {
-          unit_id: lu.unit_id,
-          unit_name: lu.units.name,
-          model_count: lu.model_count,
-          sort_order: lu.sort_order,
-          enhancement_id: enhEntry?.enhancement_id ?? null,
-          wargear,
-          composition,
-        };
-      }),
-      leader_attachments: leaderAttachments.map(la => ({
-        leader_army_list_unit_id: la.leader_army_list_unit_id,
-        target_army_list_unit_id: la.target_army_list_unit_id,
-      })),
-      total_points: selectTotalPoints(get()),
-    };
+    const snapshot = buildListSnapshot({
+      list, listUnits, listEnhancements, leaderAttachments, transportEmbarks, unitWargearSelections, unitCompositions,
+    }, selectTotalPoints(get()));
 
     await supabase.from('army_list_versions').insert({
       list_id: listId,
@@ -505,62 +861,63 @@ export const useListEditorStore = create<ListEditorState>()((set, get) => ({
   // ============================================================
 
   addUnit: async (unit: UnitWithRelations) => {
-    const { listId, listUnits } = get();
-    if (!listId) return;
+    const ctx = commandContext(get());
+    // A Combat Patrol's force is fixed
+    if (!ctx || get().combatPatrol) return;
 
     // Check limit
-    const currentCount = listUnits.filter(lu => lu.unit_id === unit.id).length;
+    const currentCount = ctx.listUnits.filter(lu => lu.unit_id === unit.id).length;
     if (currentCount >= unit.max_per_list) return;
 
     const minModels = unit.unit_points_tiers.length > 0
       ? Math.min(...unit.unit_points_tiers.map(t => t.model_count))
       : 1;
 
-    const { error } = await supabase.from('army_list_units').insert({
-      army_list_id: listId,
-      unit_id: unit.id,
-      model_count: minModels,
-      sort_order: listUnits.length,
-    });
-
-    if (error) {
-      console.error('Failed to add unit:', error);
-      set({ error: error.message });
-      return;
-    }
+    const command = addUnitCommand(ctx, unit, minModels, crypto.randomUUID());
+    if (!(await get()._execute(command))) return;
 
     await get()._refetch();
   },
 
   removeUnit: async (armyListUnitId: string) => {
-    const { selectedArmyListUnitId } = get();
-    if (selectedArmyListUnitId === armyListUnitId) {
-      set({ selectedArmyListUnitId: null });
-    }
-
-    const { error } = await supabase.from('army_list_units').delete().eq('id', armyListUnitId);
-    if (error) {
-      console.error('Failed to remove unit:', error);
-      set({ error: error.message });
-      return;
-    }
+    const ctx = commandContext(get());
+    const command = ctx && removeUnitCommand(ctx, armyListUnitId);
+    if (!ctx || !command || get().combatPatrol) return;
 
-    await get()._refetch();
+    await get()._withCascadePreview(command, async () => {
+      if (get().selectedArmyListUnitId === armyListUnitId) {
+        set({ selectedArmyListUnitId: null });
+      }
+      if (!(await get()._execute(command))) return;
+
+      // The DB cascade detaches any leader led into this unit and empties a removed
+      // transport — report both as fixes
+      const unitName = (id: string) => ctx.listUnits.find(lu => lu.id === id)?.units?.name;
+      const detached = ctx.leaderAttachments
+        .filter(la => la.target_army_list_unit_id === armyListUnitId)
+        .map(la => unitName(la.leader_army_list_unit_id))
+        .filter(name => name != null)
+        .map(name => `Detached ${name} (its unit was removed)`);
+      const disembarked = ctx.transportEmbarks
+        .filter(te => te.transport_army_list_unit_id === armyListUnitId)
+        .map(te => unitName(te.passenger_army_list_unit_id))
+        .filter(name => name != null)
+        .map(name => `Disembarked ${name} (its transport was removed)`);
+      await get()._autoFix([...detached, ...disembarked], command);
+      await get()._refetch();
+    });
   },
 
   updateModelCount: async (armyListUnitId: string, modelCount: number) => {
-    const { error } = await supabase
-      .from('army_list_units')
-      .update({ model_count: modelCount })
-      .eq('id', armyListUnitId);
-
-    if (error) {
-      console.error('Failed to update model count:', error);
-      set({ error: error.message });
-      return;
-    }
-
-    await get()._refetch();
+    const ctx = commandContext(get());
+    const command = ctx && updateModelCountCommand(ctx, armyListUnitId, modelCount);
+    if (!command || get().combatPatrol) return;
+
+    await get()._withCascadePreview(command, async () => {
+      if (!(await get()._execute(command))) return;
+      await get()._autoFix();
+      await get()._refetch();
+    });
   },
 
   reorderUnits: async (fromIndex: number, toIndex: number) => {
@@ -575,11 +932,10 @@ export const useListEditorStore = create<ListEditorState>()((set, get) => ({
     set({ listUnits: reordered });
 
     // Persist
-    for (let i = 0; i < reordered.length; i++) {
-      await supabase.from('army_list_units')
-        .update({ sort_order: i })
-        .eq('id', reordered[i].id);
-    }
+    const ops: ListOp[] = reordered.map((lu, i) => ({
+      type: 'update', table: 'army_list_units', match: { id: lu.id }, values: { sort_order: i },
+    }));
+    if (!(await get()._commit('Reorder units', ops))) return;
     get()._saveSnapshot();
   },
 
@@ -591,79 +947,127 @@ export const useListEditorStore = create<ListEditorState>()((set, get) => ({
     const { listId, list } = get();
     if (!listId || !list) return;
     set({ saving: true, list: { ...list, name } });
-    await supabase.from('army_lists').update({ name }).eq('id', listId);
+    await get()._commit('Rename list', [{ type: 'update', table: 'army_lists', match: { id: listId }, values: { name } }]);
     set({ saving: false });
     get()._saveSnapshot();
   },
 
   updatePointsLimit: async (limit: number) => {
-    const { listId, list } = get();
-    if (!listId || !list) return;
+    const { listId, list, combatPatrol } = get();
+    if (!listId || !list || combatPatrol) return;
     set({ saving: true, list: { ...list, points_limit: limit } });
-    await supabase.from('army_lists').update({ points_limit: limit }).eq('id', listId);
+    await get()._commit('Change points limit', [
+      { type: 'update', table: 'army_lists', match: { id: listId }, values: { points_limit: limit } },
+    ]);
     set({ saving: false });
     get()._fetchServerValidation();
   },
 
   updateBattleSize: async (battleSize: string, points: number) => {
-    const { listId, list } = get();
-    if (!listId || !list) return;
-    await supabase.from('army_lists').update({ battle_size: battleSize, points_limit: points }).eq('id', listId);
-    set({ list: { ...list, battle_size: battleSize, points_limit: points } });
+    const { listId, list, combatPatrol } = get();
+    if (!listId || !list || combatPatrol) return;
+    await get()._commit('Change battle size', [
+      { type: 'update', table: 'army_lists', match: { id: listId }, values: { battle_size: battleSize, points_limit: points } },
+    ]);
     get()._fetchServerValidation();
     get()._saveSnapshot();
   },
 
+  pinPointsDataset: async (datasetId: string | null) => {
+    const ctx = commandContext(get());
+    if (!ctx) return;
+    const dataset = get().pointsDatasets.find(d => d.id === datasetId);
+    if (!(await get()._execute(pinPointsDatasetCommand(ctx, datasetId, dataset?.name ?? '')))) return;
+    // Every unit and enhancement is re-priced, which only a full fetch loads
+    await get()._refetch();
+  },
+
   changeDetachment: async (detachmentId: string) => {
-    const { listId, list, availableDetachments } = get();
-    if (!listId || !list) return;
+    const { list, availableDetachments, combatPatrol } = get();
+    if (!list || list.detachment_id === detachmentId || combatPatrol) return;
 
     const newDetachment = availableDetachments.find(d => d.id === detachmentId);
     if (!newDetachment) return;
 
-    // Update DB
-    await supabase.from('army_lists').update({ detachment_id: detachmentId }).eq('id', listId);
+    // Needed up front so the preview can offer replacements for the old enhancements
+    const [{ data: enhData }, { data: stratagemData }] = await Promise.all([
+      supabase
+        .from('enhancements')
+        .select('*, enhancement_restrictions(*)')
+        .eq('detachment_id', detachmentId)
+        .order('points'),
+      supabase
+        .from('stratagems')
+        .select('detachment_id, name')
+        .in('detachment_id', [list.detachment_id, detachmentId]),
+    ]);
+    let enhancements = (enhData ?? []) as unknown as EnhancementWithRestriction[];
+    if (list.points_dataset_id) {
+      const points = await loadDatasetPoints(list.points_dataset_id, [], enhancements.map(e => e.id));
+      enhancements = withDatasetEnhancementPoints(enhancements, points);
+    }
 
-    // Clear existing enhancements (they belong to the old detachment)
-    await supabase.from('army_list_enhancements').delete().eq('army_list_id', listId);
+    const stratagems = new Map<string, string[]>();
+    for (const row of (stratagemData ?? []) as { detachment_id: string; name: string }[]) {
+      stratagems.set(row.detachment_id, [...(stratagems.get(row.detachment_id) ?? []), row.name]);
+    }
 
-    // Fetch new enhancements for the new detachment
-    const { data: enhData } = await supabase
-      .from('enhancements')
-      .select('*')
-      .eq('detachment_id', detachmentId)
-      .order('points');
+    const state = get();
+    set({
+      detachmentSwitch: planDetachmentSwitch({
+        listUnits: state.listUnits,
+        listEnhancements: state.listEnhancements,
+        currentEnhancements: state.enhancements,
+        currentDetachment: state.list?.detachments ?? null,
+        detachment: newDetachment,
+        enhancements,
+        stratagems,
+        allUnitKeywords: buildAllUnitKeywords(state.availableUnits),
+      }),
+    });
+  },
+
+  confirmDetachmentSwitch: async (choices: EnhancementChoices) => {
+    const plan = get().detachmentSwitch;
+    const ctx = commandContext(get());
+    set({ detachmentSwitch: null });
+    if (!plan || !ctx) return;
+
+    // The switch and every enhancement swap land as one step, so one undo restores the old list.
+    // The switch clears the old enhancements, so the swaps only add the replacements.
+    const cleared = { ...ctx, listEnhancements: [] };
+    const command = combineCommands(`Change detachment to ${plan.detachment.name}`, [
+      changeDetachmentCommand(ctx, plan.detachment.id, plan.detachment.name),
+      // A bearer removed while the dialog was open has nothing left to migrate
+      ...plan.bearers.filter(b => ctx.listUnits.some(lu => lu.id === b.armyListUnitId)).map(b =>
+        assignEnhancementCommand(cleared, b.armyListUnitId, choices[b.armyListUnitId] ?? '', crypto.randomUUID())),
+    ]);
+    if (!(await get()._execute(command))) return;
 
     set({
-      list: { ...list, detachment_id: detachmentId, detachments: newDetachment },
-      enhancements: enhData ?? [],
-      listEnhancements: [],
+      list: { ...get().list!, detachment_id: plan.detachment.id, detachments: plan.detachment },
+      enhancements: plan.enhancements,
     });
 
+    // Catches anything the migration left behind, e.g. a stale enhancement on a removed unit
+    await get()._autoFix();
     get()._fetchServerValidation();
     get()._saveSnapshot();
   },
 
+  cancelDetachmentSwitch: () => set({ detachmentSwitch: null }),
+
   // ============================================================
   // Enhancements
   // ============================================================
 
   assignEnhancement: async (armyListUnitId: string, enhancementId: string) => {
-    const { listId, listEnhancements } = get();
-    if (!listId) return;
+    const ctx = commandContext(get());
+    if (!ctx) return;
+
+    const command = assignEnhancementCommand(ctx, armyListUnitId, enhancementId, crypto.randomUUID());
+    if (!(await get()._execute(command))) return;
 
-    // Find existing enhancement for this unit
-    const existing = listEnhancements.find(le => le.army_list_unit_id === armyListUnitId);
-    if (existing) {
-      await supabase.from('army_list_enhancements').delete().eq('id', existing.id);
-    }
-    if (enhancementId) {
-      await supabase.from('army_list_enhancements').insert({
-        army_list_id: listId,
-        enhancement_id: enhancementId,
-        army_list_unit_id: armyListUnitId,
-      });
-    }
     await get()._refetch();
   },
 
@@ -672,27 +1076,18 @@ export const useListEditorStore = create<ListEditorState>()((set, get) => ({
   // ============================================================
 
   selectWargear: async (armyListUnitId: string, groupName: string, optionId: string) => {
-    const { unitWargearSelections } = get();
-    const existing = unitWargearSelections.get(armyListUnitId);
-
-    if (existing) {
-      const currentOptionId = existing.get(groupName);
-      if (currentOptionId) {
-        await supabase.from('army_list_unit_wargear').delete()
-          .eq('army_list_unit_id', armyListUnitId)
-          .eq('wargear_option_id', currentOptionId);
-      }
-    }
+    const ctx = commandContext(get());
+    if (!ctx) return;
 
-    let newRowId: string | undefined;
-    if (optionId) {
-      const { data: inserted } = await supabase
-        .from('army_list_unit_wargear')
-        .insert({ army_list_unit_id: armyListUnitId, wargear_option_id: optionId })
-        .select('id')
-        .single();
-      newRowId = inserted?.id as string | undefined;
-    }
+    // Combat Patrol units only take the swaps their patrol permits
+    const { combatPatrol, wargearOptions } = get();
+    const option = wargearOptions.find(w => w.id === optionId);
+    const lu = ctx.listUnits.find(l => l.id === armyListUnitId);
+    if (combatPatrol && option && lu && !isWargearPermitted(combatPatrol, lu.unit_id, option)) return;
+
+    const newRowId = crypto.randomUUID();
+    const command = selectWargearCommand(ctx, armyListUnitId, groupName, optionId, newRowId);
+    if (!(await get()._execute(command))) return;
 
     set((state) => {
       const nextSel = new Map(state.unitWargearSelections);
@@ -701,7 +1096,7 @@ export const useListEditorStore = create<ListEditorState>()((set, get) => ({
 
       const nextRowIds = new Map(state.unitWargearRowIds);
       if (!nextRowIds.has(armyListUnitId)) nextRowIds.set(armyListUnitId, new Map());
-      if (newRowId) {
+      if (optionId) {
         nextRowIds.get(armyListUnitId)!.set(optionId, newRowId);
       }
 
@@ -711,29 +1106,21 @@ export const useListEditorStore = create<ListEditorState>()((set, get) => ({
   },
 
   selectWargearSubOption: async (armyListUnitWargearId: string, subOptionId: string, quantity: number) => {
-    if (quantity <= 0) {
-      await supabase
-        .from('army_list_unit_wargear_sub')
-        .delete()
-        .eq('army_list_unit_wargear_id', armyListUnitWargearId)
-        .eq('wargear_sub_option_id', subOptionId);
-    } else {
-      await supabase
-        .from('army_list_unit_wargear_sub')
-        .upsert(
-          { army_list_unit_wargear_id: armyListUnitWargearId, wargear_sub_option_id: subOptionId, quantity },
-          { onConflict: 'army_list_unit_wargear_id,wargear_sub_option_id' },
-        );
-    }
+    const ctx = commandContext(get());
+    if (!ctx) return;
+
+    const command = selectWargearSubOptionCommand(ctx, armyListUnitWargearId, subOptionId, quantity);
+    if (!(await get()._execute(command))) return;
 
     set((state) => {
       const next = new Map(state.unitWargearSubSelections);
-      if (!next.has(armyListUnitWargearId)) next.set(armyListUnitWargearId, new Map());
+      const subs = new Map(next.get(armyListUnitWargearId) ?? []);
       if (quantity <= 0) {
-        next.get(armyListUnitWargearId)!.delete(subOptionId);
+        subs.delete(subOptionId);
       } else {
-        next.get(armyListUnitWargearId)!.set(subOptionId, quantity);
+        subs.set(subOptionId, quantity);
       }
+      next.set(armyListUnitWargearId, subs);
       return { unitWargearSubSelections: next };
     });
   },
@@ -743,35 +1130,12 @@ export const useListEditorStore = create<ListEditorState>()((set, get) => ({
   // ============================================================
 
   updateComposition: async (armyListUnitId: string, variantId: string, count: number) => {
+    const ctx = commandContext(get());
+    if (!ctx || get().combatPatrol) return;
     const { modelVariants, unitCompositions } = get();
 
-    // Optimistic update
-    set((state) => {
-      const next = new Map(state.unitCompositions);
-      if (!next.has(armyListUnitId)) next.set(armyListUnitId, new Map());
-      next.get(armyListUnitId)!.set(variantId, count);
-      return { unitCompositions: next };
-    });
-
-    // Upsert to DB
-    if (count > 0) {
-      await supabase
-        .from('army_list_unit_composition')
-        .upsert({
-          army_list_unit_id: armyListUnitId,
-          model_variant_id: variantId,
-          count,
-        }, { onConflict: 'army_list_unit_id,model_variant_id' });
-    } else {
-      await supabase
-        .from('army_list_unit_composition')
-        .delete()
-        .eq('army_list_unit_id', armyListUnitId)
-        .eq('model_variant_id', variantId);
-    }
-
     // Recalculate total model count
-    const comp = unitCompositions.get(armyListUnitId) ?? new Map();
+    const comp = new Map(unitCompositions.get(armyListUnitId) ?? []);
     comp.set(variantId, count);
     const variants = modelVariants.filter(
       v => comp.has(v.id) || v.unit_id === modelVariants.find(mv => mv.id === variantId)?.unit_id
@@ -780,14 +1144,9 @@ export const useListEditorStore = create<ListEditorState>()((set, get) => ({
     for (const v of variants) {
       totalModels += v.is_leader ? v.min_count : (comp.get(v.id) ?? 0);
     }
-    if (totalModels > 0) {
-      await supabase.from('army_list_units').update({ model_count: totalModels }).eq('id', armyListUnitId);
-      set((state) => ({
-        listUnits: state.listUnits.map(lu =>
-          lu.id === armyListUnitId ? { ...lu, model_count: totalModels } : lu
-        ),
-      }));
-    }
+
+    // _commit shows the new composition and model count, and rolls both back if rejected
+    await get()._execute(updateCompositionCommand(ctx, armyListUnitId, variantId, count, totalModels));
   },
 
   // ============================================================
@@ -795,26 +1154,73 @@ export const useListEditorStore = create<ListEditorState>()((set, get) => ({
   // ============================================================
 
   attachLeader: async (leaderArmyListUnitId: string, targetArmyListUnitId: string) => {
-    const { listId } = get();
-    if (!listId) return;
+    const ctx = commandContext(get());
+    if (!ctx) return;
 
-    await supabase.from('army_list_leader_attachments')
-      .delete()
-      .eq('leader_army_list_unit_id', leaderArmyListUnitId);
-
-    await supabase.from('army_list_leader_attachments').insert({
-      army_list_id: listId,
-      leader_army_list_unit_id: leaderArmyListUnitId,
-      target_army_list_unit_id: targetArmyListUnitId,
-    });
+    const command = attachLeaderCommand(ctx, leaderArmyListUnitId, targetArmyListUnitId, crypto.randomUUID());
+    if (!(await get()._execute(command))) return;
 
     await get()._refetch();
   },
 
   detachLeader: async (leaderArmyListUnitId: string) => {
-    await supabase.from('army_list_leader_attachments')
-      .delete()
-      .eq('leader_army_list_unit_id', leaderArmyListUnitId);
+    const ctx = commandContext(get());
+    if (!ctx) return;
+
+    if (!(await get()._execute(detachLeaderCommand(ctx, leaderArmyListUnitId)))) return;
+
+    await get()._refetch();
+  },
+
+  // ============================================================
+  // Transport embark plan
+  // ============================================================
+
+  embarkUnits: async (transportArmyListUnitId: string, passengerArmyListUnitIds: string[]) => {
+    const ctx = commandContext(get());
+    if (!ctx || passengerArmyListUnitIds.length === 0) return;
+
+    const command = embarkCommand(ctx, transportArmyListUnitId, passengerArmyListUnitIds, () => crypto.randomUUID());
+    if (!(await get()._execute(command))) return;
+
+    await get()._refetch();
+  },
+
+  disembarkUnits: async (passengerArmyListUnitIds: string[]) => {
+    const ctx = commandContext(get());
+    if (!ctx || passengerArmyListUnitIds.length === 0) return;
+
+    if (!(await get()._execute(disembarkCommand(ctx, passengerArmyListUnitIds)))) return;
+
+    await get()._refetch();
+  },
+
+  // ============================================================
+  // Points fill
+  // ============================================================
+
+  applyFillSuggestion: async (suggestion: FillSuggestion) => {
+    const ctx = commandContext(get());
+    if (!ctx || get().combatPatrol) return;
+
+    // Each added unit takes the next sort_order, so later picks see the earlier ones
+    let listUnits: ListCommandContext['listUnits'] = ctx.listUnits;
+    const commands: ListCommand[] = [];
+    for (const pick of suggestion.picks) {
+      if (pick.type === 'unit') {
+        const id = crypto.randomUUID();
+        commands.push(addUnitCommand({ ...ctx, listUnits }, pick.unit, pick.modelCount, id));
+        listUnits = [...listUnits, {
+          id, army_list_id: ctx.listId, unit_id: pick.unit.id, model_count: pick.modelCount, sort_order: listUnits.length,
+        }];
+      } else {
+        commands.push(assignEnhancementCommand(ctx, pick.armyListUnitId, pick.enhancement.id, crypto.randomUUID()));
+      }
+    }
+    if (commands.length === 0) return;
+
+    const label = commands.length === 1 ? commands[0].label : 'Fill remaining points';
+    if (!(await get()._execute(combineCommands(label, commands)))) return;
 
     await get()._refetch();
   },
@@ -823,55 +1229,395 @@ export const useListEditorStore = create<ListEditorState>()((set, get) => ({
   // Import
   // ============================================================
 
-  handleImport: async (parsed: ParsedUnit[]) => {
-    const { listId, availableUnits, enhancements } = get();
-    if (!listId) return { success: false, matched: 0, unmatched: [] };
+  handleImport: async (parsed: ParsedList) => {
+    return get()._importRoster(parsedListToRoster(parsed));
+  },
+
+  handleRosterImport: async (data: ArrayBuffer) => {
+    try {
+      return await get()._importRoster(await readRosterFile(data));
+    } catch (err) {
+      return { success: false, error: errorMessage(err), report: null };
+    }
+  },
+
+  handleDocumentImport: async (text: string) => {
+    const { document, error } = parseListDocument(text);
+    if (!document) return { success: false, error, report: null };
+    // A Combat Patrol only takes back its own force, e.g. when copied from a list link
+    const { list, combatPatrol, pointsDatasets } = get();
+    if (combatPatrol && document.list.combatPatrolId !== list?.combat_patrol_id) {
+      return { success: false, error: COMBAT_PATROL_IMPORT_ERROR, report: null };
+    }
+    return get()._replaceList(
+      (catalogue) => findDocumentDetachment(document, catalogue),
+      (catalogue, listId, detachment) => {
+        const plan = planListDocumentImport(document, { ...catalogue, pointsDatasets }, listId, detachment);
+        if (document.list.combatPatrolId && !combatPatrol) plan.report.notes.push('Imported a Combat Patrol as a regular list');
+        return plan;
+      },
+    );
+  },
+
+  // ============================================================
+  // History
+  // ============================================================
+
+  undo: async () => {
+    const command = get().undoStack.at(-1);
+    if (!command || historyInFlight) return;
+    historyInFlight = true;
+    set((state) => ({ undoStack: state.undoStack.slice(0, -1) }));
+
+    try {
+      if (await get()._commit(`Undo: ${command.label}`, command.inverse, command.forward)) {
+        set((state) => ({ redoStack: [...state.redoStack, command] }));
+      } else {
+        // The DB may be half-reverted; drop history rather than replay on top of it
+        set({ undoStack: [], redoStack: [] });
+      }
+
+      await get()._refetch();
+    } finally {
+      historyInFlight = false;
+    }
+  },
 
-    const matched: { unit: UnitWithRelations; modelCount: number; enhancementName: string | null }[] = [];
-    const unmatched: string[] = [];
+  redo: async () => {
+    const command = get().redoStack.at(-1);
+    if (!command || historyInFlight) return;
+    historyInFlight = true;
+    set((state) => ({ redoStack: state.redoStack.slice(0, -1) }));
 
-    for (const p of parsed) {
-      const unit = availableUnits.find(u => u.name.toLowerCase() === p.name.toLowerCase());
-      if (unit) {
-        matched.push({ unit, modelCount: p.modelCount, enhancementName: p.enhancementName });
+    try {
+      if (await get()._commit(command.label, command.forward, command.inverse)) {
+        set((state) => ({ undoStack: [...state.undoStack, command].slice(-HISTORY_LIMIT) }));
       } else {
-        unmatched.push(p.name);
+        set({ undoStack: [], redoStack: [] });
       }
+
+      await get()._refetch();
+    } finally {
+      historyInFlight = false;
+    }
+  },
+
+  _execute: async (command: ListCommand) => {
+    if (!(await get()._commit(command.label, command.forward, command.inverse))) return false;
+
+    // A fresh edit invalidates anything that was undone before it
+    set((state) => ({
+      undoStack: [...state.undoStack, command].slice(-HISTORY_LIMIT),
+      redoStack: [],
+    }));
+    return true;
+  },
+
+  _commit: async (label: string, ops: ListOp[], inverse: ListOp[] = []) => {
+    const { listId, accessRole } = get();
+    if (!listId) return false;
+    if (accessRole === 'viewer') {
+      // Some actions show their change before committing; put the list back
+      set({ error: 'You have view-only access to this list.' });
+      await get()._fetchAll(listId);
+      return false;
     }
 
-    if (matched.length === 0) {
-      return { success: false, matched: 0, unmatched };
+    // Show the change immediately; keep a copy to roll back to if the server rejects it
+    const previous = applyListOps(get(), []);
+    set((state) => applyListOps(state, ops));
+
+    const queue = async () => {
+      await enqueueMutation(listId, label, ops, inverse);
+      set((state) => ({
+        pendingMutations: state.pendingMutations + 1,
+        syncStatus: state.syncStatus === 'synced' ? 'pending' : state.syncStatus,
+      }));
+      return true;
+    };
+
+    // Later edits must replay after the ones already waiting
+    if (isOffline() || get().pendingMutations > 0) return queue();
+
+    try {
+      await runListOpsOrRevert(ops, inverse);
+    } catch (err) {
+      if (isNetworkError(err)) return queue();
+      console.error(`Failed to ${label.toLowerCase()}:`, err);
+      set({ ...previous, error: errorMessage(err) });
+      return false;
     }
 
-    // Clear existing
-    await supabase.from('army_list_enhancements').delete().eq('army_list_id', listId);
-    await supabase.from('army_list_units').delete().eq('army_list_id', listId);
-
-    // Insert matched
-    for (let i = 0; i < matched.length; i++) {
-      const m = matched[i];
-      const { data: inserted } = await supabase.from('army_list_units').insert({
-        army_list_id: listId,
-        unit_id: m.unit.id,
-        model_count: m.modelCount,
-        sort_order: i,
-      }).select().single();
-
-      if (inserted && m.enhancementName) {
-        const enh = enhancements.find(e => e.name.toLowerCase() === m.enhancementName!.toLowerCase());
-        if (enh) {
-          await supabase.from('army_list_enhancements').insert({
-            army_list_id: listId,
-            enhancement_id: enh.id,
-            army_list_unit_id: inserted.id,
-          });
+    broadcastEdit(label, ops, get());
+    get()._refreshBaseVersion();
+    return true;
+  },
+
+  _refreshBaseVersion: async () => {
+    const { listId } = get();
+    if (!listId) return;
+    const { data } = await supabase.from('army_lists').select('updated_at').eq('id', listId).single();
+    if (data?.updated_at) set({ baseUpdatedAt: data.updated_at as string });
+  },
+
+  // ============================================================
+  // Offline sync
+  // ============================================================
+
+  flushMutationQueue: async () => {
+    const { listId, baseUpdatedAt, syncStatus } = get();
+    if (!listId || isOffline() || flushInFlight || syncStatus === 'conflict') return;
+    flushInFlight = true;
+
+    let drained = false;
+    try {
+      const queued = await getQueuedMutations(listId);
+      if (queued.length === 0) {
+        set({ pendingMutations: 0, syncStatus: 'synced' });
+        return;
+      }
+      set({ syncStatus: 'syncing', syncError: null });
+
+      // Someone else saved this list while our edits were waiting
+      const { data: server } = await supabase.from('army_lists').select('updated_at').eq('id', listId).single();
+      if (server?.updated_at && baseUpdatedAt && server.updated_at !== baseUpdatedAt) {
+        set({ syncStatus: 'conflict' });
+        return;
+      }
+
+      for (const mutation of queued) {
+        try {
+          await runListOpsOrRevert(mutation.ops, mutation.inverse);
+        } catch (err) {
+          if (isNetworkError(err)) {
+            set({ syncStatus: 'pending' });
+          } else {
+            console.error(`[Sync] ${mutation.label} failed:`, err);
+            set({ syncStatus: 'error', syncError: `${mutation.label}: ${errorMessage(err)}` });
+          }
+          return;
         }
+        await removeQueuedMutation(mutation.id);
+        set((state) => ({ pendingMutations: Math.max(0, state.pendingMutations - 1) }));
       }
+
+      set({ syncStatus: 'synced', pendingMutations: 0 });
+      drained = true;
+    } catch (err) {
+      // IndexedDB or the version check failed; the edits stay queued for the next flush
+      console.error('[Sync] Replaying queued edits failed:', err);
+      set({ syncStatus: 'pending' });
+    } finally {
+      flushInFlight = false;
     }
 
-    set({ selectedArmyListUnitId: null });
-    await get()._refetch();
-    return { success: true, matched: matched.length, unmatched };
+    if (drained) {
+      // Queued edits weren't broadcast as they were made
+      editBroadcaster?.resync();
+      await get()._refetch();
+    }
+  },
+
+  resolveSyncConflict: async (resolution: 'keep-mine' | 'discard-mine') => {
+    const { listId } = get();
+    if (!listId) return;
+
+    if (resolution === 'discard-mine') {
+      await clearQueuedMutations(listId);
+      set({ pendingMutations: 0, syncStatus: 'synced', syncError: null, undoStack: [], redoStack: [] });
+      await get()._refetch();
+      return;
+    }
+
+    // Accept the server's version as our new base and replay on top of it
+    await get()._refreshBaseVersion();
+    set({ syncStatus: 'pending' });
+    await get().flushMutationQueue();
+  },
+
+  discardFailedMutation: async () => {
+    const { listId } = get();
+    if (!listId) return;
+    const [failed] = await getQueuedMutations(listId);
+    if (failed) {
+      await removeQueuedMutation(failed.id);
+      set((state) => ({ pendingMutations: Math.max(0, state.pendingMutations - 1) }));
+    }
+    // Later commands may depend on the dropped one, so they can't be reverted reliably
+    set({ syncStatus: 'pending', syncError: null, undoStack: [], redoStack: [] });
+    await get().flushMutationQueue();
+  },
+
+  // ============================================================
+  // Auto-fix / cascading warnings
+  // ============================================================
+
+  confirmPendingChange: async () => {
+    const pending = get().pendingChange;
+    if (!pending) return;
+    set({ pendingChange: null });
+    await pending.apply();
+  },
+
+  cancelPendingChange: () => set({ pendingChange: null }),
+
+  undoAutoFix: async () => {
+    const notice = get().lastAutoFix;
+    if (!notice) return;
+    set({ lastAutoFix: null });
+    // Only unwind while the fixes are still the latest history — never undo a later edit
+    for (const command of [...notice.commands].reverse()) {
+      if (get().undoStack.at(-1) !== command) break;
+      await get().undo();
+    }
+  },
+
+  dismissAutoFix: () => set({ lastAutoFix: null }),
+
+  _withCascadePreview: async (command: ListCommand, apply: () => Promise<void>) => {
+    const { displayCascadingWarnings, autoFixErrors } = useSettingsStore.getState();
+    if (displayCascadingWarnings) {
+      const effects = previewCascade(get(), command, { autoFix: autoFixErrors });
+      if (effects.length > 0) {
+        set({ pendingChange: { label: command.label, effects, apply } });
+        return;
+      }
+    }
+    await apply();
+  },
+
+  _autoFix: async (notes: string[] = [], cause?: ListCommand) => {
+    if (!useSettingsStore.getState().autoFixErrors) return;
+
+    const fixes = planAutoFixes(get());
+    const commands = cause ? [cause] : [];
+    const applied = [...notes];
+    if (fixes.length > 0) {
+      const fixCommand = combineCommands(
+        `Auto-fix ${fixes.length} ${fixes.length === 1 ? 'problem' : 'problems'}`,
+        fixes,
+      );
+      if (await get()._execute(fixCommand)) {
+        commands.push(fixCommand);
+        applied.push(...fixes.map(f => f.label));
+      }
+    }
+
+    if (applied.length > 0) set({ lastAutoFix: { fixes: applied, commands } });
+  },
+
+  _importRoster: async (roster: ParsedRoster) => {
+    if (get().combatPatrol) return { success: false, error: COMBAT_PATROL_IMPORT_ERROR, report: null };
+    return get()._replaceList(
+      (catalogue) => findRosterDetachment(roster, catalogue),
+      (catalogue, listId, detachment) => planRosterImport(roster, catalogue, listId, detachment),
+    );
+  },
+
+  _replaceList: async (findDetachment, plan) => {
+    const state = get();
+    const { listId, list } = state;
+    if (!listId || !list) return { success: false, error: 'No list loaded.', report: null };
+    if (isOffline()) return { success: false, error: 'Importing a list needs a connection.', report: null };
+
+    try {
+      // Catalogue IDs are seeded by faction name, so resolve the names of every faction in play
+      const factionIds = [...new Set([
+        list.faction_id,
+        ...state.availableUnits.map(u => u.faction_id),
+        ...state.availableDetachments.map(d => d.faction_id),
+      ])];
+      const { data: factionRows } = await supabase
+        .from('factions')
+        .select('id, name')
+        .in('id', factionIds);
+
+      const catalogue: RosterCatalogue = {
+        factionNames: (factionRows ?? []).map(f => f.name as string),
+        availableUnits: state.availableUnits,
+        availableDetachments: state.availableDetachments,
+        enhancements: state.enhancements,
+        wargearOptions: state.wargearOptions,
+        wargearSubOptions: state.wargearSubOptions,
+        modelVariants: state.modelVariants,
+        leaderTargets: state.leaderTargets,
+      };
+
+      const detachment = findDetachment(catalogue);
+      if (detachment && detachment.id !== list.detachment_id) {
+        const { data: enhData } = await supabase
+          .from('enhancements')
+          .select('*')
+          .eq('detachment_id', detachment.id);
+        catalogue.enhancements = (enhData ?? []) as Enhancement[];
+      }
+
+      const { ops, report } = plan(catalogue, listId, detachment);
+      if (report.matchedUnits === 0) {
+        return { success: false, error: 'None of the units match this faction.', report };
+      }
+
+      await runListOps(ops);
+
+      // The import replaces every row, so earlier commands can no longer be reverted
+      set({ selectedArmyListUnitId: null, undoStack: [], redoStack: [] });
+      editBroadcaster?.resync();
+      await get()._refetch();
+      return { success: true, error: null, report };
+    } catch (err) {
+      // A failed write can leave the list half-replaced; show what the server has, here and
+      // for everyone else editing it
+      editBroadcaster?.resync();
+      await get()._refetch();
+      return { success: false, error: errorMessage(err), report: null };
+    }
+  },
+
+  // ============================================================
+  // Collaboration
+  // ============================================================
+
+  receiveRemoteEdit: async (edit: RemoteListEdit) => {
+    if (!get().list) return;
+    collabClock = Math.max(collabClock, edit.stamp.clock);
+    collabSeen[edit.stamp.clientId] = Math.max(collabSeen[edit.stamp.clientId] ?? 0, edit.stamp.clock);
+
+    const keys = conflictKeys(edit.ops, get().unitWargearRowIds);
+    const resolution = resolveRemoteEdit(collabEdits, collabClientId, edit, keys);
+    if (resolution.type === 'ignore') return;
+
+    if (resolution.type === 'override') {
+      // The database kept one of the two writes; show whichever it was, and have everyone else
+      // do the same. Our dropped edits may be on the undo stack.
+      collabEdits = collabEdits.filter(e => !resolution.lost.includes(e));
+      set({ undoStack: [], redoStack: [] });
+      await get().receiveRemoteResync();
+      editBroadcaster?.resync();
+      return;
+    }
+
+    set((state) => applyListOps(state, edit.ops));
+
+    // A new detachment brings its own enhancements, and a new points pin re-prices everything;
+    // only a full fetch loads either
+    if (keys.includes('list/detachment_id') || keys.includes('list/points_dataset_id')) {
+      await get().receiveRemoteResync();
+      return;
+    }
+    get()._refreshBaseVersion();
+    get()._fetchServerValidation();
+  },
+
+  receiveRemoteResync: async () => {
+    const { listId, pendingMutations } = get();
+    if (!listId || pendingMutations > 0 || isOffline()) return;
+    await get()._fetchAll(listId);
+  },
+
+  setCollaborators: (collaborators: ListPresence[]) => set({ collaborators }),
+
+  setEditBroadcaster: (broadcaster: EditBroadcaster | null) => {
+    editBroadcaster = broadcaster;
   },
 
   // ============================================================
@@ -918,6 +1664,11 @@ export const useListEditorStore = create<ListEditorState>()((set, get) => ({
 // Derived selectors (computed outside store for memoization)
 // ============================================================
 
+export function selectListDocument(state: ListEditorState): ListDocument | null {
+  if (!state.listId || !state.list) return null;
+  return buildListDocument({ ...state, listId: state.listId, list: state.list });
+}
+
 /** Compute total points for all units + enhancements */
 export function selectTotalPoints(state: ListEditorState): number {
   const enhancementPointsTotal = state.listEnhancements.reduce((sum, le) => {
@@ -958,58 +1709,94 @@ export function selectAssignedEnhancementIds(state: ListEditorState): Set<string
   return new Set(state.listEnhancements.map(le => le.enhancement_id));
 }
 
-/** Whether the 3-enhancement limit is reached */
+/** Everything the points-fill search needs, including the picker's Legends/owned filters */
+export function selectPointsFillInput(state: ListEditorState): PointsFillInput {
+  return {
+    remaining: (state.list?.points_limit ?? 0) - selectTotalPoints(state),
+    availableUnits: state.availableUnits,
+    alliedUnitIds: state.alliedUnitIds,
+    listUnits: state.listUnits,
+    enhancements: state.enhancements,
+    listEnhancements: state.listEnhancements,
+    showLegends: state.showLegends,
+    showOwnedOnly: state.showOwnedOnly,
+    ownedUnitCounts: state.ownedUnitCounts,
+  };
+}
+
+/** Whether the enhancement limit is reached (one for a Combat Patrol, otherwise three) */
 export function selectEnhancementLimitReached(state: ListEditorState): boolean {
-  return state.listEnhancements.length >= 3;
+  return state.listEnhancements.length >= (state.combatPatrol ? COMBAT_PATROL_ENHANCEMENTS : 3);
+}
+
+// The warning selectors all read from one validation per list state
+let violationsCache: { input: ListRulesInput; violations: ListViolation[] } | null = null;
+
+/** All rule violations from the client-side rules engine; reused until the list itself changes */
+export function selectListViolations(state: ListEditorState): ListViolation[] {
+  const input: ListRulesInput = {
+    list: state.list,
+    listUnits: state.listUnits,
+    listEnhancements: state.listEnhancements,
+    enhancements: state.enhancements,
+    leaderTargets: state.leaderTargets,
+    leaderAttachments: state.leaderAttachments,
+    transportEmbarks: state.transportEmbarks,
+    availableUnits: state.availableUnits,
+    alliedRules: state.alliedRules,
+    combatPatrol: state.combatPatrol,
+  };
+  const cached = violationsCache;
+  if (cached && (Object.keys(input) as (keyof ListRulesInput)[]).every(key => cached.input[key] === input[key])) {
+    return cached.violations;
+  }
+  const { violations } = validateList(input);
+  violationsCache = { input, violations };
+  return violations;
+}
+
+function violationMessages(state: ListEditorState, codes: ListViolationCode[]): string[] {
+  return selectListViolations(state).filter(v => codes.includes(v.code)).map(v => v.message);
 }
 
 /** Unit limit warnings */
 export function selectUnitLimitWarnings(state: ListEditorState): string[] {
-  const unitCounts = new Map<string, { name: string; count: number; maxPerList: number }>();
-  for (const lu of state.listUnits) {
-    const existing = unitCounts.get(lu.unit_id);
-    if (existing) {
-      existing.count += 1;
-    } else {
-      unitCounts.set(lu.unit_id, { name: lu.units.name, count: 1, maxPerList: lu.units.max_per_list });
-    }
-  }
-  const warnings: string[] = [];
-  for (const [, info] of unitCounts) {
-    if (info.count > info.maxPerList) {
-      warnings.push(`${info.name} exceeds its limit (${info.count}/${info.maxPerList} allowed)`);
-    }
-  }
-  return warnings;
+  return violationMessages(state, ['UNIT_OVER_MAX_PER_LIST', 'EPIC_HERO_DUPLICATE']);
 }
 
 /** Enhancement warnings */
 export function selectEnhancementWarnings(state: ListEditorState): string[] {
-  const warnings: string[] = [];
-  if (state.listEnhancements.length > 3) {
-    warnings.push(`Too many enhancements: ${state.listEnhancements.length}/3 allowed`);
-  }
-  const enhIds = state.listEnhancements.map(le => le.enhancement_id);
-  const dupes = enhIds.filter((eid, i) => enhIds.indexOf(eid) !== i);
-  if (dupes.length > 0) {
-    const dupeNames = [...new Set(dupes)].map(eid =>
-      state.enhancements.find(e => e.id === eid)?.name ?? 'Unknown'
-    );
-    warnings.push(`Duplicate enhancements: ${dupeNames.join(', ')}`);
-  }
-  for (const le of state.listEnhancements) {
-    const lu = state.listUnits.find(u => u.id === le.army_list_unit_id);
-    if (lu && lu.units.role === 'epic_hero') {
-      warnings.push(`${lu.units.name} is an Epic Hero and cannot take enhancements`);
-    }
-  }
-  return warnings;
+  return violationMessages(state, [
+    'ENHANCEMENT_LIMIT_EXCEEDED',
+    'ENHANCEMENT_DUPLICATE',
+    'ENHANCEMENT_ON_EPIC_HERO',
+    'ENHANCEMENT_NOT_CHARACTER',
+    'ENHANCEMENT_NOT_IN_DETACHMENT',
+    'ENHANCEMENT_INELIGIBLE',
+  ]);
+}
+
+/** Leader attachment warnings */
+export function selectLeaderWarnings(state: ListEditorState): string[] {
+  return violationMessages(state, ['LEADER_INVALID_TARGET', 'LEADER_MULTIPLE_TARGETS']);
+}
+
+/** Allied contingents in the list, with their points and caps */
+export function selectAlliedContingents(state: ListEditorState): AlliedContingent[] {
+  return buildAlliedContingents(state);
+}
+
+/** Allied contingent warnings: caps, excluded roles and enhancements on allies */
+export function selectAlliedWarnings(state: ListEditorState): string[] {
+  return violationMessages(state, [
+    'ALLIED_POINTS_OVER_CAP', 'ALLIED_UNITS_OVER_CAP', 'ALLIED_ROLE_EXCLUDED', 'ALLIED_ENHANCEMENT',
+  ]);
 }
 
-/** Battle size warnings */
+/** Battle size warnings, including a Combat Patrol that no longer matches its fixed force */
 export function selectBattleSizeWarnings(state: ListEditorState): string[] {
   if (!state.list?.battle_size) return [];
-  const warnings: string[] = [];
+  const warnings = violationMessages(state, ['COMBAT_PATROL_FORCE_CHANGED']);
   const BATTLE_SIZES: Record<string, { name: string; max: number }> = {
     combat_patrol: { name: 'Combat Patrol', max: 500 },
     incursion: { name: 'Incursion', max: 1000 },
@@ -1025,26 +1812,12 @@ export function selectBattleSizeWarnings(state: ListEditorState): string[] {
 
 /** Transport warnings */
 export function selectTransportWarnings(state: ListEditorState): string[] {
-  const warnings: string[] = [];
-  const transports = state.listUnits.filter(lu => lu.units.transport_capacity != null);
-  for (const transport of transports) {
-    const cap = transport.units.transport_capacity!;
-    const allowed = transport.units.transport_keywords_allowed ?? [];
-    const excluded = transport.units.transport_keywords_excluded ?? [];
-    const eligible = state.listUnits.filter(lu => {
-      if (lu.id === transport.id) return false;
-      if (lu.units.role === 'dedicated_transport') return false;
-      const kw = lu.units.keywords ?? [];
-      return allowed.every(a => kw.includes(a)) && !excluded.some(e => kw.includes(e));
-    });
-    const totalModels = eligible.reduce((sum, lu) => sum + lu.model_count, 0);
-    if (totalModels > cap) {
-      warnings.push(
-        `${transport.units.name} can carry ${cap} models — ${totalModels} eligible models in your list`
-      );
-    }
-  }
-  return warnings;
+  return violationMessages(state, ['TRANSPORT_OVER_CAPACITY']);
+}
+
+/** Embark plan problems: ineligible or overloaded passengers, leaders split from their unit */
+export function selectEmbarkWarnings(state: ListEditorState): string[] {
+  return violationMessages(state, ['TRANSPORT_EMBARK_INELIGIBLE', 'TRANSPORT_EMBARK_OVER_CAPACITY', 'TRANSPORT_EMBARK_SPLIT']);
 }
 
 /** Points mismatch between local and server calculation */
@@ -1052,12 +1825,15 @@ export function selectPointsMismatch(state: ListEditorState): boolean {
   return state.serverValidation !== null && state.serverValidation.total_points !== selectTotalPoints(state);
 }
 
-/** Filtered units (respecting legends toggle, owned filter, and search) */
+/** Filtered units (respecting legends toggle, owned filter, and the search query) */
 export function selectFilteredUnits(state: ListEditorState): UnitWithRelations[] {
+  const query = parseUnitQuery(state.unitPickerFilter);
+  // A legends: filter in the query wins over the toggle
+  const hideLegends = !state.showLegends && !hasQueryTerm(query, 'legends');
   return state.availableUnits.filter(u => {
-    if (!state.showLegends && u.is_legends) return false;
+    if (hideLegends && u.is_legends) return false;
     if (state.showOwnedOnly && !state.ownedUnitCounts.has(u.id)) return false;
-    return u.name.toLowerCase().includes(state.unitPickerFilter.toLowerCase());
+    return matchesUnitQuery(u, query, { ownedUnitCounts: state.ownedUnitCounts });
   });
 }
 
@@ -6,10 +6,12 @@ import { shouldShowChecklist } from '../utils/checklist';
 interface GameSetupProps {
   armyListId: string;
   userId: string;
+  /** Offer Combat Patrol missions instead of the regular ones */
+  combatPatrol?: boolean;
   onGameCreated: (sessionId: string) => void;
 }
 
-export function GameSetup({ armyListId, userId, onGameCreated }: GameSetupProps) {
+export function GameSetup({ armyListId, userId, combatPatrol = false, onGameCreated }: GameSetupProps) {
   const createSession = useGameSessionStore((s) => s.createSession);
   const loadMissions = useGameSessionStore((s) => s.loadMissions);
   const missions = useGameSessionStore((s) => s.missions);
@@ -22,8 +24,8 @@ export function GameSetup({ armyListId, userId, onGameCreated }: GameSetupProps)
   const [showChecklist, setShowChecklist] = useState(false);
 
   useEffect(() => {
-    loadMissions();
-  }, [loadMissions]);
+    loadMissions(combatPatrol);
+  }, [loadMissions, combatPatrol]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -3,7 +3,7 @@ import { useParams, useNavigate } from 'react-router-dom';
 import '../play-mode.css';
 import { supabase } from '../../../shared/lib/supabase';
 import { useAuth } from '../../../shared/hooks/useAuth';
-import type { ArmyList, Enhancement, Detachment } from '../../../shared/types/database';
+import type { ArmyList, Enhancement, Detachment, TransportEmbark } from '../../../shared/types/database';
 import { DatasheetView } from '../../../shared/components/DatasheetView';
 import { CasualtyTracker } from '../components/CasualtyTracker';
 import { PhaseTracker } from '../components/PhaseTracker';
@@ -19,6 +19,7 @@ import { SyncStatusIndicator } from '../components/SyncStatusIndicator';
 import { useGameSessionStore } from '../stores/gameSessionStore';
 import { useGameRealtime } from '../hooks/useGameRealtime';
 import { getUnitPoints, ROLE_ORDER, ROLE_LABELS, type ArmyListUnitWithDetails } from '../../list-builder/hooks/useListEditor';
+import { describeEmbarkPlan } from '../../list-builder/lib/transportPlan';
 
 type PlayTab = 'army' | 'score' | 'stratagems' | 'tools' | 'log';
 
@@ -35,6 +36,7 @@ export function PlayModePage() {
   const [listUnits, setListUnits] = useState<ArmyListUnitWithDetails[]>([]);
   const [enhancements, setEnhancements] = useState<Enhancement[]>([]);
   const [listEnhancements, setListEnhancements] = useState<{ id: string; enhancement_id: string; army_list_unit_id: string }[]>([]);
+  const [transportEmbarks, setTransportEmbarks] = useState<TransportEmbark[]>([]);
   const [loading, setLoading] = useState(true);
   const [loadError, setLoadError] = useState<string | null>(null);
   const [activeTab, setActiveTab] = useState<PlayTab>('army');
@@ -102,8 +104,17 @@ export function PlayModePage() {
       }
       if (listEnhData) setListEnhancements(listEnhData);
 
+      const { data: embarkData, error: embarkError } = await supabase
+        .from('army_list_transport_embarks')
+        .select('*')
+        .eq('army_list_id', id);
+      if (embarkError) {
+        console.error('Failed to load embark plan:', embarkError);
+      }
+      if (embarkData) setTransportEmbarks(embarkData as TransportEmbark[]);
+
       // Load stratagems and secondary objectives
-      gameStore.loadStratagems(listData.faction_id, listData.detachment_id);
+      gameStore.loadStratagems(listData.faction_id, listData.detachment_id, !!listData.combat_patrol_id);
       gameStore.loadSecondaryObjectives();
 
       setLoading(false);
@@ -140,6 +151,7 @@ export function PlayModePage() {
   const hasActiveSession = gameStore.session && ['active', 'paused'].includes(gameStore.session.status);
 
   if (!hasActiveSession) {
+    const embarkPlan = describeEmbarkPlan({ listUnits, transportEmbarks });
     return (
       <div className="play-mode">
         <div className="play-mode__header">
@@ -157,11 +169,25 @@ export function PlayModePage() {
         <GameSetup
           armyListId={id}
           userId={user?.id ?? ''}
+          combatPatrol={!!list.combat_patrol_id}
           onGameCreated={() => {
             // Session is now in the store, component will re-render
           }}
         />
 
+        {/* Units starting the battle embarked, for deployment */}
+        {embarkPlan.length > 0 && (
+          <div className="play-mode__embark-plan">
+            <h3 className="play-mode__embark-title">Deploy Embarked</h3>
+            {embarkPlan.map(({ transport, passengers }, i) => (
+              <div key={i} className="play-mode__embark-row">
+                <span className="play-mode__embark-transport">{transport}</span>
+                <span className="play-mode__embark-passengers">{passengers.join(', ')}</span>
+              </div>
+            ))}
+          </div>
+        )}
+
         {/* Show battle history below setup */}
         <div className="play-mode__history-section">
           <BattleReport listId={id} listName={list.name} />
@@ -288,6 +314,8 @@ export function PlayModePage() {
                   const isExpanded = expandedUnits.has(lu.id);
                   const displayName = lu.model_count > 1 ? `${lu.model_count} ${lu.units.name}` : lu.units.name;
                   const isMultiWound = lu.units.wounds > 1 && lu.model_count <= 3;
+                  const embark = transportEmbarks.find(te => te.passenger_army_list_unit_id === lu.id);
+                  const embarkedIn = embark ? listUnits.find(t => t.id === embark.transport_army_list_unit_id)?.units.name : null;
 
                   return (
                     <div key={lu.id} className={`play-mode__unit-card${isExpanded ? ' play-mode__unit-card--expanded' : ''}`}>
@@ -295,6 +323,7 @@ export function PlayModePage() {
                         <div>
                           <span className="play-mode__unit-name">{displayName}</span>
                           {enh && <span className="play-mode__unit-enh"> &middot; {enh.name}</span>}
+                          {embarkedIn && <span className="play-mode__unit-embarked"> &middot; in {embarkedIn}</span>}
                         </div>
                         <div className="play-mode__unit-right">
                           <span className="play-mode__unit-pts">{totalPts} pts</span>
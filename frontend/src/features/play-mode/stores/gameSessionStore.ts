@@ -43,7 +43,8 @@ interface GameSessionState {
 
   // Session lifecycle
   createSession: (armyListId: string, userId: string, opponentName?: string, opponentFaction?: string, missionId?: string) => Promise<string | null>;
-  loadMissions: () => Promise<void>;
+  /** Combat Patrol games use their own missions; other games leave them out */
+  loadMissions: (combatPatrol?: boolean) => Promise<void>;
   loadSession: (sessionId: string) => Promise<void>;
   resumeActiveSession: (userId: string) => Promise<GameSession | null>;
 
@@ -84,7 +85,8 @@ interface GameSessionState {
   resetGame: () => void;
 
   // Reference data loading
-  loadStratagems: (factionId?: string, detachmentId?: string) => Promise<void>;
+  /** A Combat Patrol only gets core stratagems and its patrol's own, not the faction's */
+  loadStratagems: (factionId?: string, detachmentId?: string, combatPatrol?: boolean) => Promise<void>;
   loadSecondaryObjectives: () => Promise<void>;
 
   // Sync helpers
@@ -162,11 +164,12 @@ export const useGameSessionStore = create<GameSessionState>()(
         set({ syncStatus: 'synced', syncError: null });
       },
 
-      loadMissions: async () => {
-        const { data } = await supabase
-          .from('missions')
-          .select('*')
-          .order('name', { ascending: true });
+      loadMissions: async (combatPatrol = false) => {
+        const query = supabase.from('missions').select('*');
+        const { data } = await (combatPatrol
+          ? query.eq('type', 'combat_patrol')
+          : query.neq('type', 'combat_patrol')
+        ).order('name', { ascending: true });
         if (data) set({ missions: data as Mission[] });
       },
 
@@ -613,14 +616,14 @@ export const useGameSessionStore = create<GameSessionState>()(
         });
       },
 
-      loadStratagems: async (factionId, detachmentId) => {
+      loadStratagems: async (factionId, detachmentId, combatPatrol = false) => {
         let query = supabase.from('stratagems').select('*');
 
         // Always load core stratagems
         if (factionId || detachmentId) {
           // Build OR filter: core stratagems + faction/detachment specific
           const conditions = ['type.eq.core'];
-          if (factionId) conditions.push(`faction_id.eq.${factionId}`);
+          if (factionId && !combatPatrol) conditions.push(`faction_id.eq.${factionId}`);
           if (detachmentId) conditions.push(`detachment_id.eq.${detachmentId}`);
           query = query.or(conditions.join(','));
         } else {
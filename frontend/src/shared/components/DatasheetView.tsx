@@ -1,6 +1,7 @@
 import type { Unit, Ability, Weapon } from '../types/database';
 import { StatLine } from './StatLine';
 import { cleanGameText } from '../lib/cleanGameText';
+import { describeWeaponModifier, parseWeaponKeyword } from '../lib/weaponKeywords';
 
 interface DatasheetViewProps {
   unit: Unit & { abilities: Ability[] };
@@ -45,7 +46,7 @@ export function DatasheetView({ unit, weapons, compact }: DatasheetViewProps) {
                   {w.keywords.length > 0 && (
                     <div className="datasheet__weapon-keywords">
                       {w.keywords.map((kw, i) => (
-                        <span key={i} className="datasheet__weapon-kw-chip">{kw}</span>
+                        <span key={i} className="datasheet__weapon-kw-chip" title={describeWeaponModifier(parseWeaponKeyword(kw)) ?? undefined}>{kw}</span>
                       ))}
                     </div>
                   )}
@@ -0,0 +1,287 @@
+import { useEffect, useMemo, useState } from 'react';
+import { supabase } from '../lib/supabase';
+import type { Ability, Faction, Unit, UnitPointsTier, Weapon } from '../types/database';
+import {
+  calculateAttack, chanceOfAtLeast, defenderFromUnit, effectiveSave, type AttackProfile, type Distribution,
+} from '../lib/mathhammer';
+
+type TargetUnit = Pick<Unit, 'id' | 'name' | 'toughness' | 'save' | 'wounds' | 'keywords' | 'is_legends'> & {
+  abilities: Pick<Ability, 'name' | 'type' | 'description'>[];
+  unit_points_tiers: Pick<UnitPointsTier, 'model_count'>[];
+};
+
+type Phase = 'ranged' | 'melee';
+
+/** Keeps the allocation table small enough to recompute on every keystroke */
+const MAX_MODELS = 100;
+
+interface MathhammerPanelProps {
+  weapons: Weapon[];
+  /** Attacking models; every model is assumed to carry every selected weapon */
+  modelCount: number;
+}
+
+/** Collapsed by default so the target lookups only run when someone opens it. */
+export function MathhammerPanel({ weapons, modelCount }: MathhammerPanelProps) {
+  const [open, setOpen] = useState(false);
+  if (weapons.length === 0) return null;
+
+  return (
+    <div className="mathhammer">
+      <button className="mathhammer__toggle" onClick={() => setOpen(!open)}>
+        <span className="mathhammer__arrow">{open ? '▼' : '▶'}</span>
+        <span>Damage Calculator</span>
+      </button>
+      {open && <MathhammerCalculator weapons={weapons} modelCount={modelCount} />}
+    </div>
+  );
+}
+
+function MathhammerCalculator({ weapons, modelCount }: MathhammerPanelProps) {
+  const [phase, setPhase] = useState<Phase>(weapons.some(w => w.type === 'ranged') ? 'ranged' : 'melee');
+  const [attackers, setAttackers] = useState(Math.max(1, modelCount));
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+  const [halfRange, setHalfRange] = useState(false);
+
+  const [factions, setFactions] = useState<Faction[]>([]);
+  const [targetFaction, setTargetFaction] = useState('');
+  const [targets, setTargets] = useState<TargetUnit[]>([]);
+  const [targetId, setTargetId] = useState('');
+  const [targetModels, setTargetModels] = useState(1);
+
+  useEffect(() => {
+    supabase
+      .from('factions')
+      .select('*')
+      .order('name')
+      .then(({ data }) => {
+        if (data && data.length > 0) {
+          setFactions(data);
+          setTargetFaction(data[0].id);
+        }
+      });
+  }, []);
+
+  useEffect(() => {
+    if (!targetFaction) return;
+    /* eslint-disable-next-line react-hooks/set-state-in-effect -- clearing the old faction's units before async fetch */
+    setTargets([]);
+
+    supabase
+      .from('units')
+      .select('id, name, toughness, save, wounds, keywords, is_legends, abilities(name, type, description), unit_points_tiers(model_count)')
+      .eq('faction_id', targetFaction)
+      .order('name')
+      .then(({ data }) => {
+        const units = (data ?? []) as TargetUnit[];
+        setTargets(units);
+        const first = units.find(u => !u.is_legends) ?? units[0];
+        if (first) {
+          setTargetId(first.id);
+          setTargetModels(smallestUnitSize(first));
+        }
+      });
+  }, [targetFaction]);
+
+  const phaseWeapons = useMemo(() => weapons.filter(w => w.type === phase), [weapons, phase]);
+  const included = useMemo(() => phaseWeapons.filter(w => !excluded.has(w.id)), [phaseWeapons, excluded]);
+  const target = targets.find(t => t.id === targetId) ?? null;
+
+  const result = useMemo(() => {
+    if (!target) return null;
+    const profiles: AttackProfile[] = included.map(w => ({
+      name: w.name, attacks: w.attacks, skill: w.skill, strength: w.strength, ap: w.ap, damage: w.damage, keywords: w.keywords, count: attackers,
+    }));
+    const defender = defenderFromUnit(target, targetModels);
+    return { defender, ...calculateAttack(profiles, defender, { halfRange: phase === 'ranged' && halfRange }) };
+  }, [included, attackers, target, targetModels, phase, halfRange]);
+
+  function toggleWeapon(id: string) {
+    const next = new Set(excluded);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setExcluded(next);
+  }
+
+  return (
+    <div className="mathhammer__body">
+      <div className="mathhammer__controls">
+        <div className="mathhammer__phases">
+          {(['ranged', 'melee'] as const).map(p => (
+            <button
+              key={p}
+              className={`mathhammer__phase${phase === p ? ' mathhammer__phase--active' : ''}`}
+              onClick={() => setPhase(p)}
+              disabled={!weapons.some(w => w.type === p)}
+            >
+              {p === 'ranged' ? 'Shooting' : 'Fight'}
+            </button>
+          ))}
+        </div>
+        <label className="mathhammer__field">
+          Attacking models
+          <input
+            className="form-input mathhammer__number"
+            type="number"
+            min={1}
+            max={MAX_MODELS}
+            value={attackers}
+            onChange={(e) => setAttackers(clampCount(e.target.value))}
+          />
+        </label>
+        {phase === 'ranged' && (
+          <label className="mathhammer__check" title="Applies Melta and Rapid Fire">
+            <input type="checkbox" checked={halfRange} onChange={() => setHalfRange(!halfRange)} />
+            <span>Within half range</span>
+          </label>
+        )}
+      </div>
+
+      <div className="mathhammer__controls">
+        <label className="mathhammer__field">
+          Target faction
+          <select className="form-select" value={targetFaction} onChange={(e) => setTargetFaction(e.target.value)}>
+            {factions.map(f => <option key={f.id} value={f.id}>{f.name}</option>)}
+          </select>
+        </label>
+        <label className="mathhammer__field">
+          Target unit
+          <select
+            className="form-select"
+            value={targetId}
+            onChange={(e) => {
+              const unit = targets.find(t => t.id === e.target.value);
+              if (!unit) return;
+              setTargetId(unit.id);
+              setTargetModels(smallestUnitSize(unit));
+            }}
+          >
+            {targets.map(t => <option key={t.id} value={t.id}>{t.name}{t.is_legends ? ' (Legends)' : ''}</option>)}
+          </select>
+        </label>
+        <label className="mathhammer__field">
+          Models
+          <input
+            className="form-input mathhammer__number"
+            type="number"
+            min={1}
+            max={MAX_MODELS}
+            value={targetModels}
+            onChange={(e) => setTargetModels(clampCount(e.target.value))}
+          />
+        </label>
+      </div>
+
+      {result && (
+        <>
+          <div className="mathhammer__target">
+            T{result.defender.toughness} &middot; W{result.defender.wounds}
+            {result.defender.save != null && <> &middot; Sv{result.defender.save}+</>}
+            {result.defender.invulnerable != null && <> &middot; {result.defender.invulnerable}++</>}
+            {result.defender.feelNoPain != null && <> &middot; FNP {result.defender.feelNoPain}+</>}
+          </div>
+
+          <table className="weapons-table weapons-table--compact mathhammer__table">
+            <thead>
+              <tr>
+                <th>Weapon</th>
+                <th>Attacks</th>
+                <th>Hits</th>
+                <th>Wounds</th>
+                <th>Unsaved</th>
+                <th>Damage</th>
+              </tr>
+            </thead>
+            <tbody>
+              {phaseWeapons.map(w => {
+                const index = included.indexOf(w);
+                const row = index >= 0 ? result.weapons[index] : null;
+                const save = effectiveSave(result.defender.save, w.ap, result.defender.invulnerable);
+                return (
+                  <tr key={w.id} className={row ? undefined : 'mathhammer__row--off'}>
+                    <td>
+                      <label className="mathhammer__weapon">
+                        <input type="checkbox" checked={!excluded.has(w.id)} onChange={() => toggleWeapon(w.id)} />
+                        <span>{w.name}</span>
+                      </label>
+                      {row?.error && <div className="mathhammer__error">{row.error}</div>}
+                      {row && !row.error && (
+                        <div className="mathhammer__chances">
+                          Hit {percent(row.hitChance)} &middot; wound {percent(row.woundChance)} &middot; {save != null ? `save ${save}+` : 'no save'}
+                        </div>
+                      )}
+                    </td>
+                    <td>{row ? row.attacks.toFixed(1) : '-'}</td>
+                    <td>{row ? row.hits.toFixed(1) : '-'}</td>
+                    <td>{row ? row.wounds.toFixed(1) : '-'}</td>
+                    <td>{row ? row.unsaved.toFixed(1) : '-'}</td>
+                    <td>{row ? row.damage.toFixed(1) : '-'}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+
+          <div className="mathhammer__totals">
+            <div className="mathhammer__total">
+              <span className="mathhammer__total-value">{result.woundsDealt.mean.toFixed(1)}</span>
+              <span className="mathhammer__total-label">wounds dealt of {result.defender.wounds * result.defender.models}</span>
+            </div>
+            <div className="mathhammer__total">
+              <span className="mathhammer__total-value">{result.modelsKilled.mean.toFixed(1)}</span>
+              <span className="mathhammer__total-label">models killed of {result.defender.models}</span>
+            </div>
+          </div>
+
+          <div className="mathhammer__distributions">
+            <DistributionBars label="Models killed" distribution={result.modelsKilled.distribution} />
+            <DistributionBars label="Wounds dealt" distribution={result.woundsDealt.distribution} />
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+const MAX_BARS = 12;
+
+/** "At least N" chances, grouped into steps when there are too many values to show one each. */
+function DistributionBars({ label, distribution }: { label: string; distribution: Distribution }) {
+  const max = distribution.length - 1;
+  const step = Math.max(1, Math.ceil(max / MAX_BARS));
+  const bars: { value: number; chance: number }[] = [];
+  for (let value = step; value <= max; value += step) {
+    const chance = chanceOfAtLeast(distribution, value);
+    if (chance < 0.005) break;
+    bars.push({ value, chance });
+  }
+
+  return (
+    <div className="mathhammer__distribution">
+      <div className="mathhammer__distribution-label">{label}</div>
+      {bars.length === 0 && <div className="mathhammer__distribution-empty">Almost certainly none</div>}
+      {bars.map(bar => (
+        <div key={bar.value} className="mathhammer__bar">
+          <span className="mathhammer__bar-value">{bar.value}+</span>
+          <span className="mathhammer__bar-track">
+            <span className="mathhammer__bar-fill" style={{ width: `${bar.chance * 100}%` }} />
+          </span>
+          <span className="mathhammer__bar-chance">{percent(bar.chance)}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function clampCount(value: string): number {
+  return Math.min(MAX_MODELS, Math.max(1, parseInt(value, 10) || 1));
+}
+
+function smallestUnitSize(unit: TargetUnit): number {
+  const sizes = unit.unit_points_tiers.map(t => t.model_count);
+  return sizes.length > 0 ? Math.min(...sizes) : 1;
+}
+
+function percent(p: number): string {
+  return `${Math.round(p * 100)}%`;
+}
@@ -0,0 +1,140 @@
+import { useMemo, useState } from 'react';
+import { buildQueryVocabulary, parseUnitQuery, suggestQueryCompletions, type QueryableUnit } from '../lib/unitQuery';
+import { useUnitFilterPresets } from '../hooks/useUnitFilterPresets';
+
+const SYNTAX_HELP = 'Filters: role:character kw:"jump pack" has:"Lone Operative" t>=5 w>3 sv<=3 inv:4 m>=10 '
+  + 'oc:2 pts<150 owned:yes legends:no. Prefix with - to exclude; anything else matches the unit name.';
+
+interface UnitQueryInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  /** Units the keyword and ability suggestions come from */
+  units: QueryableUnit[];
+  placeholder?: string;
+  className?: string;
+  /** Open menus above the input, for search boxes at the bottom of a panel */
+  dropUp?: boolean;
+}
+
+/** Search box for the unit query syntax, with autocomplete and the user's saved searches. */
+export function UnitQueryInput({ value, onChange, units, placeholder, className, dropUp }: UnitQueryInputProps) {
+  const { presets, canSave, savePreset, deletePreset } = useUnitFilterPresets();
+  const [focused, setFocused] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [showPresets, setShowPresets] = useState(false);
+  const [presetName, setPresetName] = useState('');
+
+  const vocabulary = useMemo(() => buildQueryVocabulary(units), [units]);
+  const suggestions = useMemo(() => suggestQueryCompletions(value, vocabulary), [value, vocabulary]);
+  const errors = useMemo(() => parseUnitQuery(value).errors, [value]);
+  const showSuggestions = focused && suggestions.length > 0;
+
+  function update(next: string) {
+    onChange(next);
+    setActiveIndex(0);
+  }
+
+  function handleKeyDown(e: React.KeyboardEvent<HTMLInputElement>) {
+    if (!showSuggestions) return;
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setActiveIndex((activeIndex + step + suggestions.length) % suggestions.length);
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      update(suggestions[Math.min(activeIndex, suggestions.length - 1)].text);
+    } else if (e.key === 'Escape') {
+      setFocused(false);
+    }
+  }
+
+  async function handleSavePreset() {
+    const name = presetName.trim();
+    if (!name || !value.trim()) return;
+    await savePreset(name, value.trim());
+    setPresetName('');
+  }
+
+  return (
+    <div className={`unit-query${dropUp ? ' unit-query--up' : ''}`}>
+      <div className="unit-query__row">
+        <input
+          className={`form-input unit-query__input${className ? ` ${className}` : ''}`}
+          type="text"
+          placeholder={placeholder}
+          title={SYNTAX_HELP}
+          value={value}
+          onChange={(e) => update(e.target.value)}
+          onFocus={() => setFocused(true)}
+          onBlur={() => setFocused(false)}
+          onKeyDown={handleKeyDown}
+          spellCheck={false}
+          autoComplete="off"
+        />
+        {canSave && (
+          <button
+            className={`unit-query__presets-toggle${showPresets ? ' unit-query__presets-toggle--active' : ''}`}
+            onClick={() => setShowPresets(!showPresets)}
+            title="Saved searches"
+          >
+            &#9733;
+          </button>
+        )}
+      </div>
+
+      {showSuggestions && (
+        <ul className="unit-query__menu" role="listbox">
+          {suggestions.map((s, i) => (
+            <li
+              key={s.text}
+              role="option"
+              aria-selected={i === activeIndex}
+              className={`unit-query__option${i === activeIndex ? ' unit-query__option--active' : ''}`}
+              // Keep focus in the input so typing carries on after picking
+              onMouseDown={(e) => { e.preventDefault(); update(s.text); }}
+            >
+              {s.label}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {showPresets && (
+        <div className="unit-query__menu unit-query__presets">
+          {presets.length === 0 ? (
+            <div className="unit-query__presets-empty">No saved searches yet</div>
+          ) : presets.map(p => (
+            <div key={p.id} className="unit-query__preset">
+              <button
+                className="unit-query__preset-apply"
+                onClick={() => { update(p.query); setShowPresets(false); }}
+                title={p.query}
+              >
+                {p.name}
+              </button>
+              <button className="unit-query__preset-delete" onClick={() => deletePreset(p.id)} title="Delete saved search">
+                &times;
+              </button>
+            </div>
+          ))}
+          <div className="unit-query__preset-save">
+            <input
+              className="form-input"
+              type="text"
+              placeholder="Name this search"
+              value={presetName}
+              onChange={(e) => setPresetName(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter') handleSavePreset(); }}
+              maxLength={60}
+            />
+            <button className="btn btn--sm" onClick={handleSavePreset} disabled={!presetName.trim() || !value.trim()}>
+              Save
+            </button>
+          </div>
+        </div>
+      )}
+
+      {errors.length > 0 && <div className="unit-query__errors">{errors.join(' · ')}</div>}
+    </div>
+  );
+}
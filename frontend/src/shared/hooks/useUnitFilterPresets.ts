@@ -0,0 +1,49 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from './useAuth';
+import type { UnitFilterPreset } from '../types/database';
+
+/** The signed-in user's saved unit searches. Empty, and saving is a no-op, when signed out. */
+export function useUnitFilterPresets() {
+  const { user } = useAuth();
+  const userId = user?.id ?? null;
+  const [presets, setPresets] = useState<UnitFilterPreset[]>([]);
+
+  useEffect(() => {
+    if (!userId) return;
+    let cancelled = false;
+    supabase
+      .from('unit_filter_presets')
+      .select('*')
+      .eq('user_id', userId)
+      .order('name')
+      .then(({ data }) => {
+        if (!cancelled && data) setPresets(data as UnitFilterPreset[]);
+      });
+    return () => { cancelled = true; };
+  }, [userId]);
+
+  /** Saves under `name`, replacing a preset of the same name. */
+  async function savePreset(name: string, query: string) {
+    if (!userId) return;
+    const { data, error } = await supabase
+      .from('unit_filter_presets')
+      .upsert({ user_id: userId, name, query }, { onConflict: 'user_id,name' })
+      .select()
+      .single();
+    if (error || !data) {
+      console.error('Failed to save filter preset:', error);
+      return;
+    }
+    const saved = data as UnitFilterPreset;
+    setPresets(prev => [...prev.filter(p => p.name !== saved.name), saved].sort((a, b) => a.name.localeCompare(b.name)));
+  }
+
+  async function deletePreset(id: string) {
+    setPresets(prev => prev.filter(p => p.id !== id));
+    const { error } = await supabase.from('unit_filter_presets').delete().eq('id', id);
+    if (error) console.error('Failed to delete filter preset:', error);
+  }
+
+  return { presets: userId ? presets : [], canSave: userId !== null, savePreset, deletePreset };
+}
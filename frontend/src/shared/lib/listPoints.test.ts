@@ -0,0 +1,48 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { supabase } from './supabase';
+import { loadListPoints } from './listPoints';
+
+function mockPoints(error: { message: string } | null = null) {
+  vi.mocked(supabase.rpc).mockImplementation(((fn: string) => {
+    if (fn === 'list_points_in_dataset') {
+      return { single: () => Promise.resolve({ data: { unit_points: 180, enhancement_points: 20 }, error: null }) };
+    }
+    return Promise.resolve({ data: [{ army_list_unit_id: 'alu-1', points: 180 }], error });
+  }) as never);
+  vi.mocked(supabase.from).mockImplementation((() => ({
+    select: () => ({ eq: () => Promise.resolve({ data: [{ enhancement_id: 'enh-1', points: 20 }], error: null }) }),
+  })) as never);
+}
+
+describe('loadListPoints', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('costs the list under its pinned release', async () => {
+    mockPoints();
+
+    const points = await loadListPoints('list-1', 'pd-2025');
+
+    expect(supabase.rpc).toHaveBeenCalledWith('list_points_in_dataset', { p_list_id: 'list-1', p_dataset_id: 'pd-2025' });
+    expect(supabase.rpc).toHaveBeenCalledWith('list_unit_points_in_dataset', { p_list_id: 'list-1', p_dataset_id: 'pd-2025' });
+    expect(points.total).toBe(200);
+    expect(points.units.get('alu-1')).toBe(180);
+    expect(points.enhancements.get('enh-1')).toBe(20);
+  });
+
+  it('keeps current enhancement points for an unpinned list', async () => {
+    mockPoints();
+
+    const points = await loadListPoints('list-1', null);
+
+    expect(supabase.from).not.toHaveBeenCalled();
+    expect(points.enhancements.size).toBe(0);
+  });
+
+  it('throws when the points cannot be loaded', async () => {
+    mockPoints({ message: 'permission denied' });
+
+    await expect(loadListPoints('list-1', null)).rejects.toThrow('permission denied');
+  });
+});
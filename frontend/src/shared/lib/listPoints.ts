@@ -0,0 +1,36 @@
+import { supabase } from './supabase';
+
+/**
+ * What a saved list costs under its pinned points release, or under current points when it
+ * isn't pinned. The database costs it the same way validate_army_list does, so the shared and
+ * embedded views show the editor's totals.
+ */
+export interface ListPoints {
+  total: number;
+  /** Keyed by army_list_units.id */
+  units: Map<string, number>;
+  /** The pinned release's enhancement points, keyed by enhancement id; empty when unpinned */
+  enhancements: Map<string, number>;
+}
+
+export async function loadListPoints(listId: string, datasetId: string | null): Promise<ListPoints> {
+  const args = { p_list_id: listId, p_dataset_id: datasetId };
+  const [totalRes, unitRes, enhancementRes] = await Promise.all([
+    supabase.rpc('list_points_in_dataset', args).single(),
+    supabase.rpc('list_unit_points_in_dataset', args),
+    datasetId
+      ? supabase.from('points_dataset_enhancements').select('enhancement_id, points').eq('dataset_id', datasetId)
+      : Promise.resolve({ data: [], error: null }),
+  ]);
+  const error = totalRes.error ?? unitRes.error ?? enhancementRes.error;
+  if (error) throw new Error(error.message);
+
+  const total = totalRes.data as { unit_points: number; enhancement_points: number };
+  const units = (unitRes.data ?? []) as { army_list_unit_id: string; points: number }[];
+  const enhancements = (enhancementRes.data ?? []) as { enhancement_id: string; points: number }[];
+  return {
+    total: total.unit_points + total.enhancement_points,
+    units: new Map(units.map(row => [row.army_list_unit_id, row.points])),
+    enhancements: new Map(enhancements.map(row => [row.enhancement_id, row.points])),
+  };
+}
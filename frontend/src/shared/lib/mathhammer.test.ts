@@ -0,0 +1,168 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateAttack, chanceOfAtLeast, defenderFromUnit, effectiveSave, expectedDamage, mean, parseDice, thin, woundRollNeeded,
+  type AttackProfile, type DefenderProfile,
+} from './mathhammer';
+
+const total = (dist: number[]) => dist.reduce((sum, p) => sum + p, 0);
+
+function profile(overrides?: Partial<AttackProfile>): AttackProfile {
+  return { name: 'Bolt rifle', attacks: '2', skill: '3+', strength: 4, ap: -1, damage: '1', keywords: [], count: 1, ...overrides };
+}
+
+function defender(overrides?: Partial<DefenderProfile>): DefenderProfile {
+  return { name: 'Intercessors', toughness: 4, save: 3, invulnerable: null, feelNoPain: null, keywords: ['Infantry'], wounds: 2, models: 5, ...overrides };
+}
+
+describe('parseDice', () => {
+  it('reads fixed values and dice expressions', () => {
+    expect(parseDice('3')).toEqual([0, 0, 0, 1]);
+    expect(mean(parseDice('D6')!)).toBeCloseTo(3.5);
+    expect(mean(parseDice('D6+1')!)).toBeCloseTo(4.5);
+    expect(mean(parseDice('2D3')!)).toBeCloseTo(4);
+    expect(parseDice('2d3')![2]).toBeCloseTo(1 / 9);
+  });
+
+  it('returns null for anything it does not understand', () => {
+    expect(parseDice('N/A')).toBeNull();
+    expect(parseDice('D8')).toBeNull();
+  });
+});
+
+describe('thin', () => {
+  it('keeps each trial with the given chance', () => {
+    const hits = thin([0, 0, 1], 0.5);
+    expect(hits).toEqual([0.25, 0.5, 0.25]);
+    expect(thin([0, 1], 1)).toEqual([0, 1]);
+    expect(thin([0, 1], 0)).toEqual([1]);
+  });
+});
+
+describe('woundRollNeeded', () => {
+  it('compares strength with toughness', () => {
+    expect([8, 5, 4, 3, 2].map(s => woundRollNeeded(s, 4))).toEqual([2, 3, 4, 5, 6]);
+  });
+});
+
+describe('effectiveSave', () => {
+  it('worsens armour by AP and falls back to the invulnerable save', () => {
+    expect(effectiveSave(3, -1, null)).toBe(4);
+    expect(effectiveSave(2, -3, 4)).toBe(4);
+    expect(effectiveSave(5, -2, null)).toBeNull();
+    expect(effectiveSave(null, 0, null)).toBeNull();
+  });
+});
+
+describe('defenderFromUnit', () => {
+  it('reads the invulnerable save and Feel No Pain from abilities', () => {
+    const unit = {
+      name: 'Deathwing Knights', toughness: 5, save: '2+', wounds: 3, keywords: ['Infantry', 'Terminator'],
+      abilities: [
+        { name: 'Invulnerable Save', type: 'invulnerable', description: '4+ invulnerable save' },
+        { name: 'Feel No Pain 6+', type: 'core', description: null },
+      ],
+    };
+    expect(defenderFromUnit(unit as Parameters<typeof defenderFromUnit>[0], 5)).toEqual({
+      name: 'Deathwing Knights', toughness: 5, save: 2, invulnerable: 4, feelNoPain: 6,
+      keywords: ['Infantry', 'Terminator'], wounds: 3, models: 5,
+    });
+  });
+});
+
+describe('calculateAttack', () => {
+  it('chains hit, wound and save chances', () => {
+    // 10 attacks, hit on 3+, wound on 4+, 4+ save after AP-1
+    const { weapons, woundsDealt } = calculateAttack([profile({ count: 5 })], defender({ models: 10 }));
+    expect(weapons[0]).toMatchObject({ attacks: 10, error: null });
+    expect(weapons[0].hits).toBeCloseTo(10 * 4 / 6);
+    expect(weapons[0].unsaved).toBeCloseTo(10 * 4 / 6 * 0.5 * 0.5);
+    expect(woundsDealt.mean).toBeCloseTo(10 * 4 / 6 * 0.5 * 0.5);
+    expect(total(woundsDealt.distribution)).toBeCloseTo(1);
+  });
+
+  it('hits automatically when the weapon has no skill', () => {
+    const [result] = calculateAttack([profile({ skill: 'N/A' })], defender()).weapons;
+    expect(result.hitChance).toBe(1);
+  });
+
+  it('loses excess damage instead of spilling it onto the next model', () => {
+    // Every attack lands for 3 damage against 2-wound models with no save
+    const target = defender({ toughness: 1, save: null, models: 3 });
+    const { modelsKilled, woundsDealt } = calculateAttack([profile({ skill: 'N/A', attacks: '2', strength: 10, damage: '3' })], target);
+    // Wound roll of 2+ per attack
+    expect(modelsKilled.distribution[2]).toBeCloseTo((5 / 6) ** 2);
+    expect(woundsDealt.distribution[4]).toBeCloseTo((5 / 6) ** 2);
+    expect(woundsDealt.distribution[6]).toBe(0);
+  });
+
+  it('caps kills at the size of the unit and carries damage between weapons', () => {
+    const sure = profile({ skill: 'N/A', attacks: '1', strength: 10, damage: '1' });
+    const { modelsKilled } = calculateAttack([sure, sure, sure], defender({ toughness: 1, save: null, wounds: 2, models: 1 }));
+    expect(modelsKilled.distribution).toHaveLength(2);
+    expect(chanceOfAtLeast(modelsKilled.distribution, 1)).toBeCloseTo(1 - (1 / 6) ** 3 - 3 * (5 / 6) * (1 / 6) ** 2);
+  });
+
+  it('applies Feel No Pain to each point of damage', () => {
+    const target = defender({ toughness: 1, save: null, feelNoPain: 5, wounds: 10, models: 1 });
+    const { woundsDealt } = calculateAttack([profile({ skill: 'N/A', attacks: '1', strength: 10, damage: '3' })], target);
+    expect(woundsDealt.mean).toBeCloseTo(5 / 6 * 3 * (4 / 6));
+  });
+
+  it('gives expected damage per activation without the unit cap', () => {
+    // Wound on 2+, no save, D3 damage into 2-wound models loses the third point
+    const target = defender({ toughness: 1, save: null, models: 1 });
+    expect(expectedDamage(profile({ skill: 'N/A', attacks: '1', strength: 10, damage: 'D3' }), target)).toBeCloseTo(5 / 6 * 5 / 3);
+    expect(expectedDamage(profile({ skill: 'N/A', attacks: '10', strength: 10, damage: '2' }), target)).toBeCloseTo(10 * 5 / 6 * 2);
+    expect(expectedDamage(profile({ damage: 'special' }), target)).toBe(0);
+  });
+
+  it('skips profiles it cannot read', () => {
+    const { weapons, woundsDealt } = calculateAttack([profile({ damage: 'special' })], defender());
+    expect(weapons[0].error).toBe('Can\'t read damage "special"');
+    expect(woundsDealt.mean).toBe(0);
+  });
+});
+
+describe('calculateAttack with weapon keywords', () => {
+  // One attack at S4 into T4 (wound on 4+) with no save unless a test adds one
+  const target = defender({ save: null, wounds: 10, models: 1 });
+  const unsaved = (overrides: Partial<AttackProfile>, against = target) =>
+    calculateAttack([profile({ attacks: '1', skill: '4+', ap: 0, ...overrides })], against).weapons[0].unsaved;
+
+  it('wounds automatically on a critical hit with Lethal Hits', () => {
+    expect(unsaved({})).toBeCloseTo(1 / 2 * 1 / 2);
+    expect(unsaved({ keywords: ['Lethal Hits'] })).toBeCloseTo(1 / 3 * 1 / 2 + 1 / 6);
+  });
+
+  it('adds extra hits on a critical hit with Sustained Hits', () => {
+    expect(unsaved({ keywords: ['Sustained Hits 1'] })).toBeCloseTo((1 / 2 + 1 / 6) * 1 / 2);
+  });
+
+  it('re-rolls failed wound rolls with Twin-linked', () => {
+    expect(unsaved({ skill: 'N/A', keywords: ['Twin-linked'] })).toBeCloseTo(3 / 4);
+  });
+
+  it('hits automatically with Torrent whatever the skill', () => {
+    expect(unsaved({ skill: '3+', keywords: ['Torrent'] })).toBeCloseTo(1 / 2);
+  });
+
+  it('skips the save on critical wounds with Devastating Wounds, earlier with a matching Anti', () => {
+    const armoured = defender({ save: 2, wounds: 10, models: 1 });
+    expect(unsaved({ skill: 'N/A', keywords: ['Devastating Wounds'] }, armoured)).toBeCloseTo(1 / 6 + (1 / 3) * (1 / 6));
+    expect(unsaved({ skill: 'N/A', keywords: ['Devastating Wounds', 'Anti-Infantry 2+'] }, armoured)).toBeCloseTo(5 / 6);
+    const vehicle = { ...armoured, keywords: ['Vehicle'] };
+    expect(unsaved({ skill: 'N/A', keywords: ['Devastating Wounds', 'Anti-Infantry 2+'] }, vehicle)).toBeCloseTo(1 / 6 + (1 / 3) * (1 / 6));
+  });
+
+  it('adds Blast attacks for every five target models', () => {
+    const [result] = calculateAttack([profile({ attacks: 'D3', keywords: ['Blast'] })], defender({ models: 10 })).weapons;
+    expect(result.attacks).toBeCloseTo(4);
+  });
+
+  it('applies Melta and Rapid Fire only within half range', () => {
+    const meltagun = profile({ attacks: '1', skill: 'N/A', strength: 9, damage: 'D6', keywords: ['Rapid Fire 1', 'Melta 2'] });
+    const tank = defender({ toughness: 9, save: null, keywords: ['Vehicle'], wounds: 12, models: 1 });
+    expect(calculateAttack([meltagun], tank).weapons[0].damage).toBeCloseTo(1 / 2 * 3.5);
+    expect(calculateAttack([meltagun], tank, { halfRange: true }).weapons[0].damage).toBeCloseTo(2 * 1 / 2 * 5.5);
+  });
+});
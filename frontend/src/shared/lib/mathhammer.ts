@@ -0,0 +1,411 @@
+/**
+ * Expected-damage maths ("mathhammer") for profiles from the `weapons` table.
+ *
+ * Everything is computed exactly rather than simulated. A `Distribution` is an array of
+ * probabilities indexed by value, so `[0.5, 0.5]` is a coin flip between 0 and 1. Dice
+ * expressions become distributions, each roll of the attack sequence thins them binomially,
+ * and damage is allocated one failed save at a time — a model has to die before the next
+ * one takes damage, and excess damage is lost — so models killed and wounds dealt come out
+ * as full distributions, not just averages.
+ *
+ * Weapon keywords that change the roll chain are applied through parseWeaponKeywords:
+ * Torrent, Lethal Hits, Sustained Hits, Anti-X, Devastating Wounds, Twin-linked and Blast
+ * always, Melta and Rapid Fire only when the caller says the target is within half range.
+ * Keywords that depend on movement or charging (Heavy, Lance) are left out.
+ */
+
+import type { Ability, Unit } from '../types/database';
+import { findModifier, parseWeaponKeywords } from './weaponKeywords';
+
+export type Distribution = number[];
+
+// ============================================================
+// Dice
+// ============================================================
+
+const DICE_EXPRESSION = /^(\d*)\s*D\s*(3|6)\s*(?:\+\s*(\d+))?$/i;
+
+function uniform(sides: number): Distribution {
+  return [0, ...Array<number>(sides).fill(1 / sides)];
+}
+
+function fixed(value: number): Distribution {
+  const dist = Array<number>(value + 1).fill(0);
+  dist[value] = 1;
+  return dist;
+}
+
+/** Distribution of the sum of two independent values. */
+export function convolve(a: Distribution, b: Distribution): Distribution {
+  const out = Array<number>(a.length + b.length - 1).fill(0);
+  a.forEach((pa, i) => {
+    if (pa === 0) return;
+    b.forEach((pb, j) => { out[i + j] += pa * pb; });
+  });
+  return out;
+}
+
+function repeat(dist: Distribution, times: number): Distribution {
+  let total = fixed(0);
+  for (let i = 0; i < times; i++) total = convolve(total, dist);
+  return total;
+}
+
+/** Sum of a random number of independent copies of `dist`, the count drawn from `times`. */
+function repeatRandom(dist: Distribution, times: Distribution): Distribution {
+  let power = fixed(0);
+  let out: Distribution = [];
+  times.forEach((pn, n) => {
+    if (n > 0) power = convolve(power, dist);
+    if (pn > 0) out = mix([[1, out], [pn, power]]);
+  });
+  return out;
+}
+
+/** Weighted sum of distributions, e.g. the outcome of one attack across miss / hit / critical hit. */
+function mix(parts: [number, Distribution][]): Distribution {
+  const out = Array<number>(Math.max(...parts.map(([, dist]) => dist.length))).fill(0);
+  for (const [weight, dist] of parts) dist.forEach((p, i) => { out[i] += weight * p; });
+  return out;
+}
+
+function bernoulli(p: number): Distribution {
+  return [1 - p, p];
+}
+
+/**
+ * Parses a characteristic such as `3`, `D6`, `2D3` or `D6+1`. Returns null for anything
+ * else, so the caller can skip the profile rather than guess.
+ */
+export function parseDice(expression: string): Distribution | null {
+  const text = expression.trim();
+  if (/^\d+$/.test(text)) return fixed(parseInt(text, 10));
+
+  const match = text.match(DICE_EXPRESSION);
+  if (!match) return null;
+  const count = match[1] ? parseInt(match[1], 10) : 1;
+  const bonus = match[3] ? parseInt(match[3], 10) : 0;
+  return convolve(repeat(uniform(parseInt(match[2], 10)), count), fixed(bonus));
+}
+
+export function mean(dist: Distribution): number {
+  return dist.reduce((sum, p, value) => sum + p * value, 0);
+}
+
+/**
+ * Successes out of a random number of trials: `trials[n]` is the chance of n trials, each
+ * succeeding with probability `p`.
+ */
+export function thin(trials: Distribution, p: number): Distribution {
+  if (p >= 1) return [...trials];
+  if (p <= 0) return fixed(0);
+
+  const out = Array<number>(trials.length).fill(0);
+  trials.forEach((pn, n) => {
+    if (pn === 0) return;
+    // Binomial(n, p), built up term by term rather than with factorials
+    let term = (1 - p) ** n;
+    for (let k = 0; k <= n; k++) {
+      out[k] += pn * term;
+      term *= ((n - k) / (k + 1)) * (p / (1 - p));
+    }
+  });
+  return out;
+}
+
+// ============================================================
+// Rolls
+// ============================================================
+
+/** "3+" → 3. Null for "N/A" and the like — a weapon with no skill hits automatically. */
+export function parseRoll(value: string | null | undefined): number | null {
+  const match = value?.trim().match(/^(\d)\+$/);
+  return match ? parseInt(match[1], 10) : null;
+}
+
+/** Chance of rolling `target`+ on a D6 where a 1 always fails and a 6 always succeeds. */
+function d6Chance(target: number): number {
+  return Math.min(5, Math.max(1, 7 - target)) / 6;
+}
+
+export function woundRollNeeded(strength: number, toughness: number): number {
+  if (strength >= toughness * 2) return 2;
+  if (strength > toughness) return 3;
+  if (strength === toughness) return 4;
+  if (strength * 2 <= toughness) return 6;
+  return 5;
+}
+
+/**
+ * The save the defender actually rolls: armour worsened by AP (stored negative, e.g. -2),
+ * or the invulnerable save when that's better. Null when no save is possible.
+ */
+export function effectiveSave(save: number | null, ap: number, invulnerable: number | null): number | null {
+  const armour = save != null ? save - ap : null;
+  const best = Math.min(armour ?? 7, invulnerable ?? 7);
+  return best > 6 ? null : Math.max(best, 2);
+}
+
+// ============================================================
+// Profiles
+// ============================================================
+
+export interface AttackProfile {
+  name: string;
+  attacks: string;
+  skill: string;
+  strength: number;
+  ap: number;
+  damage: string;
+  /** Raw weapon keywords, e.g. "Sustained Hits 1" */
+  keywords: string[];
+  /** How many models fire or fight with it */
+  count: number;
+}
+
+export interface DefenderProfile {
+  name: string;
+  toughness: number;
+  save: number | null;
+  invulnerable: number | null;
+  feelNoPain: number | null;
+  /** Unit keywords, checked against Anti-X */
+  keywords: string[];
+  /** Wounds per model */
+  wounds: number;
+  models: number;
+}
+
+type DefenderUnit = Pick<Unit, 'name' | 'toughness' | 'save' | 'wounds' | 'keywords'> & { abilities: Pick<Ability, 'name' | 'type' | 'description'>[] };
+
+/** The unit's invulnerable save, read from its ability text ("4+ invulnerable save"). */
+export function invulnerableSave(unit: Pick<DefenderUnit, 'abilities'>): number | null {
+  const ability = unit.abilities.find(a => a.type === 'invulnerable');
+  return parseRoll(ability?.description?.match(/(\d\+)/)?.[1] ?? ability?.name.match(/(\d\+)/)?.[1]);
+}
+
+/** The unit's unconditional Feel No Pain, from an ability named e.g. "Feel No Pain 5+". */
+export function feelNoPain(unit: Pick<DefenderUnit, 'abilities'>): number | null {
+  const rolls = unit.abilities
+    .map(a => a.name.match(/feel no pain\s*(\d\+)/i)?.[1])
+    .map(parseRoll)
+    .filter(roll => roll != null);
+  return rolls.length > 0 ? Math.min(...rolls) : null;
+}
+
+export function defenderFromUnit(unit: DefenderUnit, models: number): DefenderProfile {
+  return {
+    name: unit.name,
+    toughness: unit.toughness,
+    save: parseRoll(unit.save),
+    invulnerable: invulnerableSave(unit),
+    feelNoPain: feelNoPain(unit),
+    keywords: unit.keywords,
+    wounds: Math.max(1, unit.wounds),
+    models: Math.max(1, models),
+  };
+}
+
+// ============================================================
+// Attack sequence
+// ============================================================
+
+export interface WeaponResult {
+  name: string;
+  /** Null when the profile couldn't be parsed; the other numbers are then 0 */
+  error: string | null;
+  hitChance: number;
+  woundChance: number;
+  /** Chance a wound gets through the save */
+  unsavedChance: number;
+  attacks: number;
+  hits: number;
+  wounds: number;
+  unsaved: number;
+  /** Before Feel No Pain and before damage is lost to overkill */
+  damage: number;
+}
+
+export interface DistributionSummary {
+  mean: number;
+  distribution: Distribution;
+}
+
+export interface AttackResult {
+  weapons: WeaponResult[];
+  woundsDealt: DistributionSummary;
+  modelsKilled: DistributionSummary;
+}
+
+function emptyResult(name: string, error: string): WeaponResult {
+  return { name, error, hitChance: 0, woundChance: 0, unsavedChance: 0, attacks: 0, hits: 0, wounds: 0, unsaved: 0, damage: 0 };
+}
+
+/**
+ * Applies one failed save to every allocation state. A state's index is the wounds dealt so
+ * far — models killed × wounds per model plus damage on the current model — with the last
+ * index meaning the whole unit is dead.
+ */
+function allocate(states: Distribution, damage: Distribution, defender: DefenderProfile): Distribution {
+  const { wounds, models } = defender;
+  const dead = models * wounds;
+  const next = Array<number>(dead + 1).fill(0);
+  next[dead] += states[dead];
+
+  for (let state = 0; state < dead; state++) {
+    const p = states[state];
+    if (p === 0) continue;
+    const killed = Math.floor(state / wounds);
+    const onModel = state % wounds;
+    damage.forEach((pd, d) => {
+      if (pd === 0) return;
+      // Damage beyond the model's remaining wounds is lost
+      const target = onModel + d >= wounds ? (killed + 1) * wounds : state + d;
+      next[target] += p * pd;
+    });
+  }
+  return next;
+}
+
+export interface AttackOptions {
+  /** Target is within half range, so Melta and Rapid Fire apply */
+  halfRange?: boolean;
+}
+
+interface ResolvedProfile {
+  result: WeaponResult;
+  /** Total attacks across every model carrying the weapon */
+  attacks: Distribution;
+  /** Failed saves produced by a single attack */
+  perAttack: Distribution;
+  /** Damage of one failed save, after Feel No Pain */
+  damageTaken: Distribution;
+}
+
+/** Runs one profile through the hit, wound, save and Feel No Pain rolls, or explains why it can't. */
+function resolveProfile(profile: AttackProfile, defender: DefenderProfile, options: AttackOptions): ResolvedProfile | WeaponResult {
+  const defenderKeywords = new Set(defender.keywords.map(k => k.toUpperCase()));
+  const modifiers = parseWeaponKeywords(profile.keywords);
+  const rapidFire = options.halfRange ? findModifier(modifiers, 'rapid_fire') : undefined;
+  const melta = options.halfRange ? findModifier(modifiers, 'melta') : undefined;
+  const sustained = findModifier(modifiers, 'sustained_hits');
+
+  let attacksPerModel = parseDice(profile.attacks);
+  if (!attacksPerModel) return emptyResult(profile.name, `Can't read attacks "${profile.attacks}"`);
+  let damage = parseDice(profile.damage);
+  if (!damage) return emptyResult(profile.name, `Can't read damage "${profile.damage}"`);
+  const extraHits = sustained ? parseDice(sustained.hits) ?? fixed(0) : fixed(0);
+
+  if (rapidFire) attacksPerModel = convolve(attacksPerModel, parseDice(rapidFire.attacks) ?? fixed(0));
+  if (findModifier(modifiers, 'blast')) attacksPerModel = convolve(attacksPerModel, fixed(Math.floor(defender.models / 5)));
+  if (melta) damage = convolve(damage, parseDice(melta.damage) ?? fixed(0));
+
+  // Hit roll: a natural 6 is a critical hit, unless the weapon never rolls to hit
+  const skill = parseRoll(profile.skill);
+  const autoHit = skill == null || findModifier(modifiers, 'torrent') != null;
+  const hitChance = autoHit ? 1 : d6Chance(skill);
+  const criticalHit = autoHit ? 0 : 1 / 6;
+
+  // Wound roll: a natural 6 is a critical wound, or lower with a matching Anti-X
+  const criticalOn = Math.min(6, ...modifiers.flatMap(m =>
+    m.type === 'anti' && defenderKeywords.has(m.keyword) ? [m.criticalOn] : []));
+  let criticalWound = d6Chance(criticalOn);
+  let woundChance = Math.max(d6Chance(woundRollNeeded(profile.strength, defender.toughness)), criticalWound);
+  if (findModifier(modifiers, 'twin_linked')) {
+    criticalWound += (1 - woundChance) * criticalWound;
+    woundChance += (1 - woundChance) * woundChance;
+  }
+
+  const save = effectiveSave(defender.save, profile.ap, defender.invulnerable);
+  const unsavedChance = save == null ? 1 : 1 - d6Chance(save);
+
+  // Chance that one hit which rolls to wound ends up as a failed save
+  const perHit = findModifier(modifiers, 'devastating_wounds')
+    ? criticalWound + (woundChance - criticalWound) * unsavedChance
+    : woundChance * unsavedChance;
+  const lethal = findModifier(modifiers, 'lethal_hits') != null;
+  const criticalOutcome = convolve(bernoulli(lethal ? unsavedChance : perHit), thin(extraHits, perHit));
+  const perAttack = mix([
+    [1 - hitChance, fixed(0)],
+    [hitChance - criticalHit, bernoulli(perHit)],
+    [criticalHit, criticalOutcome],
+  ]);
+
+  const attacks = repeat(attacksPerModel, Math.max(0, profile.count));
+  // Each point of damage is ignored on a successful Feel No Pain roll
+  const fnpPass = defender.feelNoPain != null ? d6Chance(defender.feelNoPain) : 0;
+  const damageTaken = thin(damage, 1 - fnpPass);
+
+  const meanAttacks = mean(attacks);
+  const meanExtraHits = mean(extraHits);
+  const meanUnsaved = meanAttacks * mean(perAttack);
+  return {
+    attacks,
+    perAttack,
+    damageTaken,
+    result: {
+      name: profile.name,
+      error: null,
+      hitChance,
+      woundChance,
+      unsavedChance,
+      attacks: meanAttacks,
+      hits: meanAttacks * (hitChance + criticalHit * meanExtraHits),
+      wounds: meanAttacks * ((hitChance - criticalHit) * woundChance
+        + criticalHit * ((lethal ? 1 : woundChance) + meanExtraHits * woundChance)),
+      unsaved: meanUnsaved,
+      damage: meanUnsaved * mean(damage),
+    },
+  };
+}
+
+/**
+ * Resolves every profile against the defender in order, carrying damage over from one
+ * weapon to the next as it would be on the table.
+ */
+export function calculateAttack(profiles: AttackProfile[], defender: DefenderProfile, options: AttackOptions = {}): AttackResult {
+  const dead = defender.models * defender.wounds;
+  let states: Distribution = Array<number>(dead + 1).fill(0);
+  states[0] = 1;
+
+  const weapons = profiles.map((profile): WeaponResult => {
+    const resolved = resolveProfile(profile, defender, options);
+    if (!('perAttack' in resolved)) return resolved;
+
+    const unsaved = repeatRandom(resolved.perAttack, resolved.attacks);
+    let afterK = states;
+    const combined = Array<number>(dead + 1).fill(0);
+    unsaved.forEach((pk, k) => {
+      if (k > 0) afterK = allocate(afterK, resolved.damageTaken, defender);
+      afterK.forEach((p, i) => { combined[i] += pk * p; });
+    });
+    states = combined;
+    return resolved.result;
+  });
+
+  const modelsKilled = Array<number>(defender.models + 1).fill(0);
+  states.forEach((p, i) => { modelsKilled[Math.floor(i / defender.wounds)] += p; });
+
+  return {
+    weapons,
+    woundsDealt: { mean: mean(states), distribution: states },
+    modelsKilled: { mean: mean(modelsKilled), distribution: modelsKilled },
+  };
+}
+
+/**
+ * Expected wounds one profile strips from the defender, losing damage beyond a model's
+ * wounds but ignoring how many models the unit has. Unlike calculateAttack the results
+ * add up, which is what an army-wide total needs. Zero for a profile that can't be read.
+ */
+export function expectedDamage(profile: AttackProfile, defender: DefenderProfile, options: AttackOptions = {}): number {
+  const resolved = resolveProfile(profile, defender, options);
+  if (!('perAttack' in resolved)) return 0;
+  const perFailedSave = resolved.damageTaken.reduce((sum, p, d) => sum + p * Math.min(d, defender.wounds), 0);
+  return resolved.result.unsaved * perFailedSave;
+}
+
+/** Chance of at least `value`: the number players usually quote ("70% to kill 2"). */
+export function chanceOfAtLeast(dist: Distribution, value: number): number {
+  return dist.slice(Math.max(0, value)).reduce((sum, p) => sum + p, 0);
+}
@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildQueryVocabulary, matchesUnitQuery, parseUnitQuery, suggestQueryCompletions, type QueryableUnit,
+} from './unitQuery';
+
+function unit(overrides?: Partial<QueryableUnit>): QueryableUnit {
+  return {
+    id: 'u-int', name: 'Intercessors', role: 'battleline', movement: '6"', toughness: 4, save: '3+', wounds: 2,
+    leadership: 6, objective_control: 2, keywords: ['Infantry', 'Battleline', 'Grenades'], is_legends: false,
+    abilities: [{ name: 'Oath of Moment', type: 'faction', description: '' }],
+    unit_points_tiers: [{ points: 80 }, { points: 160 }],
+    ...overrides,
+  };
+}
+
+const intercessors = unit();
+const captain = unit({
+  id: 'u-cap', name: 'Captain with Jump Pack', role: 'character', movement: '12"', toughness: 4, wounds: 5,
+  keywords: ['Infantry', 'Character', 'Jump Pack', 'Fly'],
+  abilities: [
+    { name: 'Deep Strike', type: 'core', description: '' },
+    { name: 'Invulnerable Save', type: 'invulnerable', description: '4+ invulnerable save' },
+  ],
+  unit_points_tiers: [{ points: 75 }],
+});
+const knight = unit({
+  id: 'u-kni', name: 'Knight Castellan', role: 'vehicle', movement: '10"', toughness: 12, wounds: 28,
+  keywords: ['Vehicle', 'Titanic'], is_legends: true, abilities: [], unit_points_tiers: [{ points: 470 }],
+});
+
+const search = (input: string, owned = new Map<string, number>()) => {
+  const query = parseUnitQuery(input);
+  return [intercessors, captain, knight].filter(u => matchesUnitQuery(u, query, { ownedUnitCounts: owned })).map(u => u.id);
+};
+
+describe('parseUnitQuery', () => {
+  it('reads filters, comparisons, quotes and free text', () => {
+    expect(parseUnitQuery('role:character kw:"jump pack" t>=5 pts<150 captain').terms).toEqual([
+      { type: 'role', value: 'character', negated: false },
+      { type: 'keyword', value: 'jump pack', negated: false },
+      { type: 'stat', stat: 'toughness', op: '>=', value: 5, negated: false },
+      { type: 'stat', stat: 'points', op: '<', value: 150, negated: false },
+      { type: 'text', value: 'captain', negated: false },
+    ]);
+  });
+
+  it('folds negation into yes/no filters', () => {
+    expect(parseUnitQuery('-legends:yes owned:no').terms).toEqual([
+      { type: 'legends', value: false, negated: false },
+      { type: 'owned', value: false, negated: false },
+    ]);
+  });
+
+  it('reports filters it cannot read and skips them', () => {
+    const query = parseUnitQuery('colour:red t>=tough legends:maybe kw>3 intercessors');
+    expect(query.errors).toEqual([
+      'Unknown filter "colour"',
+      't needs a number, not "tough"',
+      'legends should be yes or no, not "maybe"',
+      'kw can\'t be compared with >; use kw:3',
+    ]);
+    expect(query.terms).toEqual([{ type: 'text', value: 'intercessors', negated: false }]);
+  });
+
+  it('ignores a filter that is still being typed', () => {
+    expect(parseUnitQuery('kw:')).toEqual({ terms: [], errors: [] });
+  });
+});
+
+describe('matchesUnitQuery', () => {
+  it('matches keywords whole and ignoring case and hyphens', () => {
+    expect(search('kw:"jump pack"')).toEqual(['u-cap']);
+    expect(search('kw:jump-pack')).toEqual(['u-cap']);
+    expect(search('kw:jump')).toEqual([]);
+  });
+
+  it('matches ability names, roles and the name', () => {
+    expect(search('has:"deep strike"')).toEqual(['u-cap']);
+    expect(search('role:character')).toEqual(['u-cap']);
+    expect(search('castellan')).toEqual(['u-kni']);
+  });
+
+  it('compares stats, with points from the cheapest tier', () => {
+    expect(search('t>=5')).toEqual(['u-kni']);
+    expect(search('pts<=80')).toEqual(['u-int', 'u-cap']);
+    expect(search('sv:3+ w>2')).toEqual(['u-cap', 'u-kni']);
+    expect(search('inv<=4')).toEqual(['u-cap']);
+    expect(search('m>=10')).toEqual(['u-cap', 'u-kni']);
+  });
+
+  it('negates terms and filters on ownership and legends', () => {
+    expect(search('-kw:infantry')).toEqual(['u-kni']);
+    expect(search('owned:yes', new Map([['u-int', 10]]))).toEqual(['u-int']);
+    expect(search('legends:no')).toEqual(['u-int', 'u-cap']);
+  });
+});
+
+describe('suggestQueryCompletions', () => {
+  const vocabulary = buildQueryVocabulary([intercessors, captain, knight]);
+
+  it('offers values for the filter being typed, quoting phrases', () => {
+    expect(suggestQueryCompletions('role:character kw:ju', vocabulary)).toEqual([
+      { label: 'Jump Pack', text: 'role:character kw:"Jump Pack" ' },
+    ]);
+    expect(suggestQueryCompletions('has:"deep', vocabulary).map(s => s.text)).toEqual(['has:"Deep Strike" ']);
+  });
+
+  it('puts prefix matches first', () => {
+    expect(suggestQueryCompletions('kw:i', vocabulary).map(s => s.label)).toEqual(['Infantry', 'Battleline', 'Titanic', 'Vehicle']);
+  });
+
+  it('offers filter names for a bare word and nothing after a space', () => {
+    expect(suggestQueryCompletions('le', vocabulary).map(s => s.text)).toEqual(['legends:']);
+    expect(suggestQueryCompletions('kw:fly ', vocabulary)).toEqual([]);
+  });
+});
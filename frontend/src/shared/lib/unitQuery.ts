@@ -0,0 +1,287 @@
+import type { Ability, Unit, UnitPointsTier } from '../types/database';
+import { invulnerableSave, parseRoll } from './mathhammer';
+
+/**
+ * Datasheet search syntax shared by the list editor's unit picker and the Units page:
+ *
+ *   role:character kw:"jump pack" t>=5 pts<150 owned:yes legends:no has:"Lone Operative"
+ *
+ * Terms are ANDed; a leading "-" negates one ("-kw:fly"). Anything that isn't a filter is
+ * matched against the unit name. Filters that can't be read are reported in `errors` and
+ * left out rather than hiding every unit.
+ */
+
+export type QueryableUnit = Pick<Unit,
+  | 'id' | 'name' | 'role' | 'movement' | 'toughness' | 'save' | 'wounds' | 'leadership'
+  | 'objective_control' | 'keywords' | 'is_legends'> & {
+  abilities: Pick<Ability, 'name' | 'type' | 'description'>[];
+  unit_points_tiers: Pick<UnitPointsTier, 'points'>[];
+};
+
+export type UnitStat = 'toughness' | 'wounds' | 'save' | 'invulnerable' | 'movement' | 'leadership' | 'objective_control' | 'points';
+
+export type Comparison = '=' | '<' | '<=' | '>' | '>=';
+
+export type UnitQueryTerm =
+  | { type: 'text'; value: string; negated: boolean }
+  | { type: 'role'; value: string; negated: boolean }
+  | { type: 'keyword'; value: string; negated: boolean }
+  | { type: 'ability'; value: string; negated: boolean }
+  | { type: 'owned'; value: boolean; negated: boolean }
+  | { type: 'legends'; value: boolean; negated: boolean }
+  | { type: 'stat'; stat: UnitStat; op: Comparison; value: number; negated: boolean };
+
+export type UnitQueryTermType = UnitQueryTerm['type'];
+
+export interface UnitQuery {
+  terms: UnitQueryTerm[];
+  errors: string[];
+}
+
+type FilterField = Exclude<UnitQueryTermType, 'text' | 'stat'> | 'name' | UnitStat;
+
+/** Every spelling a filter accepts */
+const FIELD_ALIASES: Record<string, FilterField> = {
+  role: 'role',
+  kw: 'keyword', keyword: 'keyword',
+  has: 'ability', ability: 'ability',
+  owned: 'owned',
+  legends: 'legends',
+  name: 'name',
+  t: 'toughness', toughness: 'toughness',
+  w: 'wounds', wounds: 'wounds',
+  sv: 'save', save: 'save',
+  inv: 'invulnerable', invuln: 'invulnerable',
+  m: 'movement', move: 'movement',
+  ld: 'leadership',
+  oc: 'objective_control',
+  pts: 'points', points: 'points',
+};
+
+const STATS = new Set<FilterField>(['toughness', 'wounds', 'save', 'invulnerable', 'movement', 'leadership', 'objective_control', 'points']);
+
+const YES = new Set(['yes', 'y', 'true']);
+const NO = new Set(['no', 'n', 'false']);
+
+// -field<op>value, where value may be quoted, or a quoted phrase, or a bare word
+const TOKEN = /(-?)([a-z]+)(>=|<=|:|>|<|=)(?:"([^"]*)"?|(\S*))|(-?)"([^"]*)"?|(\S+)/gi;
+
+const normalise = (text: string) => text.trim().toLowerCase().replace(/[\s_-]+/g, ' ');
+
+export function parseUnitQuery(input: string): UnitQuery {
+  const terms: UnitQueryTerm[] = [];
+  const errors: string[] = [];
+
+  for (const match of input.matchAll(TOKEN)) {
+    const [, minus, name, op, quoted, bare, phraseMinus, phrase, word] = match;
+
+    if (name === undefined) {
+      const text = phrase ?? word;
+      const negated = phrase !== undefined ? phraseMinus === '-' : text.startsWith('-') && text.length > 1;
+      const value = phrase ?? (negated ? text.slice(1) : text);
+      if (value.trim()) terms.push({ type: 'text', value: normalise(value), negated });
+      continue;
+    }
+
+    const field = FIELD_ALIASES[name.toLowerCase()];
+    const value = (quoted ?? bare).trim();
+    const negated = minus === '-';
+    // Still being typed: leave it out without complaining
+    if (!value) continue;
+
+    if (!field) {
+      errors.push(`Unknown filter "${name}"`);
+      continue;
+    }
+
+    if (STATS.has(field)) {
+      const number = Number(value.replace(/["+]$/, ''));
+      if (!Number.isFinite(number)) {
+        errors.push(`${name} needs a number, not "${value}"`);
+        continue;
+      }
+      terms.push({ type: 'stat', stat: field as UnitStat, op: op === ':' ? '=' : op as Comparison, value: number, negated });
+      continue;
+    }
+
+    if (op !== ':') {
+      errors.push(`${name} can't be compared with ${op}; use ${name}:${value}`);
+      continue;
+    }
+
+    switch (field) {
+      case 'name':
+        terms.push({ type: 'text', value: normalise(value), negated });
+        break;
+      case 'owned':
+      case 'legends': {
+        const flag = YES.has(value.toLowerCase()) ? true : NO.has(value.toLowerCase()) ? false : null;
+        if (flag === null) errors.push(`${name} should be yes or no, not "${value}"`);
+        else terms.push({ type: field, value: negated ? !flag : flag, negated: false });
+        break;
+      }
+      default:
+        terms.push({ type: field as 'role' | 'keyword' | 'ability', value: normalise(value), negated });
+    }
+  }
+
+  return { terms, errors };
+}
+
+/** Whether the query says anything about a filter, so page-level toggles can step aside. */
+export function hasQueryTerm(query: UnitQuery, type: UnitQueryTermType): boolean {
+  return query.terms.some(t => t.type === type);
+}
+
+// ============================================================
+// Matching
+// ============================================================
+
+export interface UnitQueryContext {
+  /** unit_id → models owned; units missing from it count as not owned */
+  ownedUnitCounts?: Map<string, number>;
+}
+
+function statValue(unit: QueryableUnit, stat: UnitStat): number | null {
+  switch (stat) {
+    case 'toughness': return unit.toughness;
+    case 'wounds': return unit.wounds;
+    case 'save': return parseRoll(unit.save);
+    case 'invulnerable': return invulnerableSave(unit);
+    case 'movement': {
+      const inches = parseInt(unit.movement, 10);
+      return Number.isNaN(inches) ? null : inches;
+    }
+    case 'leadership': return unit.leadership;
+    case 'objective_control': return unit.objective_control;
+    case 'points': return unit.unit_points_tiers.length > 0 ? Math.min(...unit.unit_points_tiers.map(t => t.points)) : null;
+  }
+}
+
+function compare(actual: number, op: Comparison, expected: number): boolean {
+  switch (op) {
+    case '=': return actual === expected;
+    case '<': return actual < expected;
+    case '<=': return actual <= expected;
+    case '>': return actual > expected;
+    case '>=': return actual >= expected;
+  }
+}
+
+function termMatches(unit: QueryableUnit, term: UnitQueryTerm, context: UnitQueryContext): boolean {
+  switch (term.type) {
+    case 'text': return normalise(unit.name).includes(term.value);
+    case 'role': return normalise(unit.role) === term.value;
+    // Keywords match whole, abilities on any part of the name
+    case 'keyword': return unit.keywords.some(k => normalise(k) === term.value);
+    case 'ability': return unit.abilities.some(a => normalise(a.name).includes(term.value));
+    case 'owned': return (context.ownedUnitCounts?.has(unit.id) ?? false) === term.value;
+    case 'legends': return unit.is_legends === term.value;
+    case 'stat': {
+      const actual = statValue(unit, term.stat);
+      return actual !== null && compare(actual, term.op, term.value);
+    }
+  }
+}
+
+export function matchesUnitQuery(unit: QueryableUnit, query: UnitQuery, context: UnitQueryContext = {}): boolean {
+  return query.terms.every(term => termMatches(unit, term, context) !== term.negated);
+}
+
+// ============================================================
+// Autocomplete
+// ============================================================
+
+export interface QueryVocabulary {
+  roles: string[];
+  keywords: string[];
+  abilities: string[];
+}
+
+function uniqueSorted(values: string[]): string[] {
+  const byKey = new Map<string, string>();
+  for (const value of values) {
+    const key = normalise(value);
+    if (key && !byKey.has(key)) byKey.set(key, value);
+  }
+  return [...byKey.values()].sort((a, b) => a.localeCompare(b));
+}
+
+export function buildQueryVocabulary(units: QueryableUnit[]): QueryVocabulary {
+  return {
+    roles: uniqueSorted(units.map(u => u.role)),
+    keywords: uniqueSorted(units.flatMap(u => u.keywords)),
+    abilities: uniqueSorted(units.flatMap(u => u.abilities.map(a => a.name))),
+  };
+}
+
+export interface QueryCompletion {
+  /** What the suggestion list shows */
+  label: string;
+  /** The whole input with the suggestion applied */
+  text: string;
+}
+
+const FIELD_HINTS: { field: string; hint: string }[] = [
+  { field: 'role:', hint: 'Battlefield role' },
+  { field: 'kw:', hint: 'Keyword' },
+  { field: 'has:', hint: 'Ability name' },
+  { field: 'owned:', hint: 'yes / no' },
+  { field: 'legends:', hint: 'yes / no' },
+  { field: 't', hint: 'Toughness, e.g. t>=5' },
+  { field: 'w', hint: 'Wounds' },
+  { field: 'sv', hint: 'Save, e.g. sv<=3' },
+  { field: 'inv', hint: 'Invulnerable save' },
+  { field: 'm', hint: 'Movement' },
+  { field: 'ld', hint: 'Leadership' },
+  { field: 'oc', hint: 'Objective Control' },
+  { field: 'pts', hint: 'Cheapest points cost, e.g. pts<150' },
+];
+
+const quoteIfNeeded = (value: string) => (/\s/.test(value) ? `"${value}"` : value);
+
+/** Where the token under the cursor (the end of the input) starts, honouring quotes. */
+function lastTokenStart(input: string): number {
+  let start = 0;
+  let inQuotes = false;
+  for (let i = 0; i < input.length; i++) {
+    if (input[i] === '"') inQuotes = !inQuotes;
+    else if (!inQuotes && /\s/.test(input[i])) start = i + 1;
+  }
+  return start;
+}
+
+/** Suggestions for the token being typed at the end of `input`. */
+export function suggestQueryCompletions(input: string, vocabulary: QueryVocabulary, limit = 8): QueryCompletion[] {
+  const start = lastTokenStart(input);
+  const token = input.slice(start);
+  if (!token) return [];
+  const before = input.slice(0, start);
+
+  const filter = token.match(/^(-?)([a-z]+):"?([^"]*)$/i);
+  if (filter) {
+    const [, minus, name, partial] = filter;
+    const field = FIELD_ALIASES[name.toLowerCase()];
+    const values = field === 'role' ? vocabulary.roles
+      : field === 'keyword' ? vocabulary.keywords
+        : field === 'ability' ? vocabulary.abilities
+          : field === 'owned' || field === 'legends' ? ['yes', 'no']
+            : [];
+    const needle = normalise(partial);
+    const matches = values.filter(v => normalise(v).includes(needle));
+    // Prefix matches first
+    matches.sort((a, b) => Number(!normalise(a).startsWith(needle)) - Number(!normalise(b).startsWith(needle)));
+    return matches
+      .filter(v => v !== partial)
+      .slice(0, limit)
+      .map(v => ({ label: v, text: `${before}${minus}${name}:${quoteIfNeeded(v)} ` }));
+  }
+
+  const bare = token.match(/^(-?)([a-z]+)$/i);
+  if (!bare) return [];
+  const [, minus, prefix] = bare;
+  return FIELD_HINTS
+    .filter(f => f.field.startsWith(prefix.toLowerCase()) && f.field !== prefix.toLowerCase())
+    .slice(0, limit)
+    .map(f => ({ label: `${f.field} — ${f.hint}`, text: `${before}${minus}${f.field}` }));
+}
@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { md5Hex, uuidFromSeed } from './uuidFromSeed';
+
+describe('md5Hex', () => {
+  it('matches the RFC 1321 test vectors', () => {
+    expect(md5Hex('')).toBe('d41d8cd98f00b204e9800998ecf8427e');
+    expect(md5Hex('abc')).toBe('900150983cd24fb0d6963f7d28e17f72');
+    expect(md5Hex('message digest')).toBe('f96b697d7cb7938d525a2f31aaf161d0');
+  });
+
+  it('handles input around the padding block boundary', () => {
+    expect(md5Hex('x'.repeat(55))).toBe('04364420e25c512fd958a70738aa8f72');
+    expect(md5Hex('x'.repeat(56))).toBe('668a72d5ba17f08e62dabcafad6db14b');
+    expect(md5Hex('x'.repeat(64))).toBe('c1bb4f81d892b2d57947682aeb252456');
+    expect(md5Hex('x'.repeat(200))).toBe('30a83621ce5422fbdfdd539777458c78');
+  });
+
+  it('hashes the UTF-8 bytes, like Node crypto', () => {
+    expect(md5Hex("unit:T'au Empire:Kroot Farstalkers")).toBe('6fe992f2ea89ea26ff00d637fef6a685');
+    expect(md5Hex('wargear:Ævum:Ûnit')).toBe('63a90dd5dca5bebe84871785e29d6771');
+  });
+});
+
+describe('uuidFromSeed', () => {
+  it('produces the same IDs as the data scripts', () => {
+    expect(uuidFromSeed('unit:Space Marines:Intercessor Squad')).toBe('7a209e63-225b-2371-5b70-64a1106fe0e5');
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { describeWeaponModifier, findModifier, parseWeaponKeyword, parseWeaponKeywords } from './weaponKeywords';
+
+// Every distinct weapon keyword in data/bsdata at the time of writing, spelled as the data spells it
+const DATA_KEYWORDS = [
+  'Anti Vehicle 3+', 'Anti-CHARACTER 2+', 'Anti-CHARACTER 4+', 'Anti-Chaos 2+', 'Anti-Character 2+', 'Anti-Character 3+',
+  'Anti-Character 4+', 'Anti-Character 5+', 'Anti-DAEMON 4+', 'Anti-Daemon 2+', 'Anti-Epic Hero 2+', 'Anti-FLY 2',
+  'Anti-FLY 2+', 'Anti-FLY 4+', 'Anti-Fly 2+', 'Anti-Fly 3+', 'Anti-Fly 4+', 'Anti-INFANTRY 2+', 'Anti-INFANTRY 3+',
+  'Anti-INFANTRY 4+', 'Anti-INFANTRY 5+', 'Anti-Infantry 2+', 'Anti-Infantry 3+', 'Anti-Infantry 4+', 'Anti-MONSTER 2+',
+  'Anti-MONSTER 3+', 'Anti-MONSTER 4+', 'Anti-Monster 2+', 'Anti-Monster 3+', 'Anti-Monster 4+', 'Anti-Monster 5+',
+  'Anti-PSYKER 2+', 'Anti-PSYKER 4+', 'Anti-Psyker 2+', 'Anti-Psyker 4+', 'Anti-Psyker 5+', 'Anti-TITANIC 4+',
+  'Anti-Titanic 4+', 'Anti-Tyranids 4+', 'Anti-VEHICLE 2+', 'Anti-VEHICLE 3+', 'Anti-VEHICLE 4+', 'Anti-Vehicle 2+',
+  'Anti-Vehicle 3+', 'Anti-Vehicle 4+', 'Anti-Vehicle 5+', 'Anti-Walker 2+', 'Anti-character 4+', 'Anti-fly 2',
+  'Anti-fly 2+', 'Anti-infantry 2+', 'Anti-infantry 3+', 'Anti-infantry 4+', 'Anti-monster 4+', 'Anti-vehicle 2+',
+  'Anti-vehicle 3+', 'Anti-vehicle 4+', 'Assault', 'Blast', 'Conversion', 'Devastating Wounds', 'Devastating wounds',
+  'Extra Attacks', 'Hazardous', 'Heavy', 'Ignores Cover', 'Ignores cover', 'Indirect Fire', 'Lance', 'Lethal Hits',
+  'Melta 1', 'Melta 2', 'Melta 3', 'Melta 4', 'Melta 6', 'One Shot', 'Pistol', 'Precision', 'Psychic', 'Rapid Fire 1',
+  'Rapid Fire 10', 'Rapid Fire 2', 'Rapid Fire 3', 'Rapid Fire 4', 'Rapid Fire 5', 'Rapid Fire 6', 'Rapid Fire 9',
+  'Rapid Fire D3', 'Rapid Fire D6', 'Rapid Fire D6+3', 'Rapid fire 2', 'Sustained Hits', 'Sustained Hits 1',
+  'Sustained Hits 2', 'Sustained Hits 3', 'Sustained Hits D3', 'Sustained hits 1', 'Sustained hits 2', 'Torrent',
+  'Twin Linked', 'Twin-Linked', 'Twin-linked',
+];
+
+// Datasheet-specific weapon rules, explained in the owning unit's abilities
+const DATASHEET_KEYWORDS = [
+  'Blinding Light', 'Bubblechukka', 'Dead Choppy', 'Defensive Array', 'Harpooned', 'Hive Defences', 'Hooked', 'Impaled',
+  'Linked Fire', 'Overcharge', 'Plasma Warhead', 'Psychic Assassin', 'Reverberating Summons', 'Snagged', 'Sonic Devastation',
+];
+
+describe('parseWeaponKeyword', () => {
+  it.each(DATA_KEYWORDS)('recognises %s', (raw) => {
+    const modifier = parseWeaponKeyword(raw);
+    expect(modifier.type).not.toBe('unknown');
+    expect(describeWeaponModifier(modifier)).toBeTruthy();
+  });
+
+  it.each(DATASHEET_KEYWORDS)('leaves %s as unknown', (raw) => {
+    expect(parseWeaponKeyword(raw)).toEqual({ type: 'unknown', text: raw });
+    expect(describeWeaponModifier(parseWeaponKeyword(raw))).toBeNull();
+  });
+
+  it('reads the target keyword and threshold of Anti, with or without the plus', () => {
+    expect(parseWeaponKeyword('Anti-Infantry 4+')).toEqual({ type: 'anti', keyword: 'INFANTRY', criticalOn: 4 });
+    expect(parseWeaponKeyword('Anti-fly 2')).toEqual({ type: 'anti', keyword: 'FLY', criticalOn: 2 });
+    expect(parseWeaponKeyword('Anti Vehicle 3+')).toEqual({ type: 'anti', keyword: 'VEHICLE', criticalOn: 3 });
+    expect(parseWeaponKeyword('Anti-Epic Hero 2+')).toEqual({ type: 'anti', keyword: 'EPIC HERO', criticalOn: 2 });
+  });
+
+  it('keeps dice amounts as expressions', () => {
+    expect(parseWeaponKeyword('Sustained Hits D3')).toEqual({ type: 'sustained_hits', hits: 'D3' });
+    expect(parseWeaponKeyword('Sustained Hits')).toEqual({ type: 'sustained_hits', hits: '1' });
+    expect(parseWeaponKeyword('Rapid Fire D6+3')).toEqual({ type: 'rapid_fire', attacks: 'D6+3' });
+    expect(parseWeaponKeyword('Melta 2')).toEqual({ type: 'melta', damage: '2' });
+  });
+
+  it('ignores case, hyphens and spacing in flag keywords', () => {
+    expect(['Twin-linked', 'Twin-Linked', 'Twin Linked', ' twin  linked '].map(k => parseWeaponKeyword(k).type))
+      .toEqual(['twin_linked', 'twin_linked', 'twin_linked', 'twin_linked']);
+    expect(parseWeaponKeyword('Devastating wounds')).toEqual({ type: 'devastating_wounds' });
+  });
+});
+
+describe('findModifier', () => {
+  it('returns the first modifier of a type with its fields typed', () => {
+    const modifiers = parseWeaponKeywords(['Rapid Fire 1', 'Melta 2', 'Blast']);
+    expect(findModifier(modifiers, 'melta')?.damage).toBe('2');
+    expect(findModifier(modifiers, 'torrent')).toBeUndefined();
+  });
+});
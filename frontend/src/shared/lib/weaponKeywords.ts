@@ -0,0 +1,127 @@
+/**
+ * Weapon keywords ("Sustained Hits 2", "Anti-Infantry 4+", "Twin-linked") parsed into typed
+ * modifiers.
+ *
+ * BSData spells the same keyword several ways — "Twin-linked", "Twin-Linked", "Twin Linked",
+ * "Anti-FLY 2" without the plus — so matching ignores case, hyphens and spacing. Anything
+ * that isn't a core weapon ability comes back as `unknown`; those are mostly datasheet-only
+ * rules explained in the unit's abilities, and scripts/validate-data.js lists them so that
+ * parser gaps show up when the data changes. Keep its KNOWN_WEAPON_KEYWORDS in step with
+ * the patterns below.
+ */
+
+export type WeaponModifier =
+  | { type: 'assault' }
+  | { type: 'anti'; keyword: string; criticalOn: number }
+  | { type: 'blast' }
+  | { type: 'conversion' }
+  | { type: 'devastating_wounds' }
+  | { type: 'extra_attacks' }
+  | { type: 'hazardous' }
+  | { type: 'heavy' }
+  | { type: 'ignores_cover' }
+  | { type: 'indirect_fire' }
+  | { type: 'lance' }
+  | { type: 'lethal_hits' }
+  | { type: 'melta'; damage: string }
+  | { type: 'one_shot' }
+  | { type: 'pistol' }
+  | { type: 'precision' }
+  | { type: 'psychic' }
+  | { type: 'rapid_fire'; attacks: string }
+  | { type: 'sustained_hits'; hits: string }
+  | { type: 'torrent' }
+  | { type: 'twin_linked' }
+  | { type: 'unknown'; text: string };
+
+export type WeaponModifierType = WeaponModifier['type'];
+
+/** A dice value as the data writes it: "2", "D3", "D6+3" */
+const AMOUNT = '(\\d*D\\d+(?:\\+\\d+)?|\\d+)';
+
+const FLAGS: Record<string, WeaponModifierType> = {
+  'assault': 'assault',
+  'blast': 'blast',
+  'conversion': 'conversion',
+  'devastating wounds': 'devastating_wounds',
+  'extra attacks': 'extra_attacks',
+  'hazardous': 'hazardous',
+  'heavy': 'heavy',
+  'ignores cover': 'ignores_cover',
+  'indirect fire': 'indirect_fire',
+  'lance': 'lance',
+  'lethal hits': 'lethal_hits',
+  'one shot': 'one_shot',
+  'pistol': 'pistol',
+  'precision': 'precision',
+  'psychic': 'psychic',
+  'torrent': 'torrent',
+  'twin linked': 'twin_linked',
+};
+
+const ANTI = /^anti[\s-]+(.+?)\s+([2-6])\+?$/i;
+const SUSTAINED_HITS = new RegExp(`^sustained hits(?:\\s+${AMOUNT})?$`, 'i');
+const MELTA = new RegExp(`^melta\\s+${AMOUNT}$`, 'i');
+const RAPID_FIRE = new RegExp(`^rapid fire\\s+${AMOUNT}$`, 'i');
+
+export function parseWeaponKeyword(raw: string): WeaponModifier {
+  const text = raw.trim().replace(/\s+/g, ' ');
+
+  const anti = text.match(ANTI);
+  if (anti) return { type: 'anti', keyword: anti[1].toUpperCase(), criticalOn: parseInt(anti[2], 10) };
+
+  // A bare "Sustained Hits" turns up once in the data; it can only mean 1
+  const sustained = text.match(SUSTAINED_HITS);
+  if (sustained) return { type: 'sustained_hits', hits: (sustained[1] ?? '1').toUpperCase() };
+
+  const melta = text.match(MELTA);
+  if (melta) return { type: 'melta', damage: melta[1].toUpperCase() };
+
+  const rapidFire = text.match(RAPID_FIRE);
+  if (rapidFire) return { type: 'rapid_fire', attacks: rapidFire[1].toUpperCase() };
+
+  const flag = FLAGS[text.toLowerCase().replace(/-/g, ' ')];
+  if (flag) return { type: flag } as WeaponModifier;
+
+  return { type: 'unknown', text };
+}
+
+export function parseWeaponKeywords(keywords: string[]): WeaponModifier[] {
+  return keywords.map(parseWeaponKeyword);
+}
+
+/** The first modifier of a type, typed to match: `findModifier(mods, 'melta')?.damage`. */
+export function findModifier<T extends WeaponModifierType>(
+  modifiers: WeaponModifier[],
+  type: T,
+): Extract<WeaponModifier, { type: T }> | undefined {
+  return modifiers.find((m): m is Extract<WeaponModifier, { type: T }> => m.type === type);
+}
+
+/** One-line rules reminder for tooltips and Play Mode prompts. Null for unknown keywords. */
+export function describeWeaponModifier(modifier: WeaponModifier): string | null {
+  switch (modifier.type) {
+    case 'assault': return 'Can shoot after Advancing';
+    case 'anti': return `Critical wound on ${modifier.criticalOn}+ against ${modifier.keyword}`;
+    case 'blast': return '+1 attack per 5 models in the target; never against units in Engagement Range';
+    case 'conversion': return 'Critical hit on 4+ against targets over 12" away';
+    case 'devastating_wounds': return 'Critical wounds cannot be saved';
+    case 'extra_attacks': return 'Used in addition to the model\'s other melee weapon';
+    case 'hazardous': return 'Roll a D6 after attacking; on a 1 the bearer suffers 3 mortal wounds';
+    case 'heavy': return '+1 to hit if the unit Remained Stationary';
+    case 'ignores_cover': return 'Target gets no Benefit of Cover';
+    case 'indirect_fire': return 'Can target units out of sight (-1 to hit, target gets cover)';
+    case 'lance': return '+1 to wound if the bearer charged this turn';
+    case 'lethal_hits': return 'Critical hits wound automatically';
+    case 'melta': return `+${modifier.damage} damage within half range`;
+    case 'one_shot': return 'Can only be fired once per battle';
+    case 'pistol': return 'Can shoot while in Engagement Range';
+    case 'precision': return 'Can allocate attacks to a visible Character';
+    case 'psychic': return 'Psychic attack';
+    case 'rapid_fire': return `+${modifier.attacks} attacks within half range`;
+    case 'sustained_hits': return `Critical hits score ${modifier.hits} extra hit${modifier.hits === '1' ? '' : 's'}`;
+    case 'torrent': return 'Hits automatically';
+    case 'twin_linked': return 'Re-roll the wound roll';
+    case 'unknown': return null;
+  }
+}
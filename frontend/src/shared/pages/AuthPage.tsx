@@ -15,8 +15,10 @@ export function AuthPage() {
   const [signupSuccess, setSignupSuccess] = useState(false);
   const [resetSent, setResetSent] = useState(false);
 
-  // Already logged in — redirect home
-  if (user && !loading) return <Navigate to="/" replace />;
+  // Already logged in — back to where sign-in was asked for (same-site paths only), else home
+  const redirect = searchParams.get('redirect');
+  const returnTo = redirect?.startsWith('/') && !redirect.startsWith('//') ? redirect : '/';
+  if (user && !loading) return <Navigate to={returnTo} replace />;
 
   async function handleSubmit(e: React.FormEvent) {
     e.preventDefault();
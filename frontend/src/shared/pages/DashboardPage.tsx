@@ -5,6 +5,8 @@ import { useAuth } from '../hooks/useAuth';
 import { WelcomeModal } from '../components/WelcomeModal';
 import { StreakWidget } from '../../features/collection/components/StreakWidget';
 import { FriendActivityFeed } from '../../features/social/components/FriendActivityFeed';
+import { ReviewInbox } from '../../features/list-builder/components/ReviewInbox';
+import { PointsUpdateReport } from '../../features/list-builder/components/PointsUpdateReport';
 import type { ArmyList, Faction, GameSession } from '../types/database';
 
 export function DashboardPage() {
@@ -191,6 +193,20 @@ export function DashboardPage() {
           </div>
         </div>
 
+        {/* Lists changed by the latest points update */}
+        {user && <PointsUpdateReport userId={user.id} />}
+
+        {/* Review Inbox */}
+        <div className="dashboard__card dashboard__card--reviews">
+          <div className="dashboard__card-header">
+            <span className="dashboard__card-icon">&#128172;</span>
+            <h3 className="dashboard__card-title">Review Inbox</h3>
+          </div>
+          <div className="dashboard__card-body">
+            {user && <ReviewInbox userId={user.id} />}
+          </div>
+        </div>
+
         {/* Collection & Hobby */}
         <div className="dashboard__card dashboard__card--hobby">
           <div className="dashboard__card-header">
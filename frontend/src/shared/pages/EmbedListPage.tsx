@@ -0,0 +1,171 @@
+import { useEffect, useState } from 'react';
+import { useParams, useSearchParams } from 'react-router-dom';
+import { supabase } from '../lib/supabase';
+import { loadListPoints, type ListPoints } from '../lib/listPoints';
+import { THEMES } from '../stores/themeStore';
+import { ROLE_ORDER, ROLE_LABELS, type ArmyListUnitWithDetails } from '../../features/list-builder/hooks/useListEditor';
+
+interface EmbedList {
+  id: string;
+  name: string;
+  points_limit: number;
+  detachments: { name: string } | null;
+  factions: { name: string } | null;
+}
+
+interface EmbedEnhancement {
+  army_list_unit_id: string;
+  enhancement_id: string;
+  enhancements: { name: string; points: number } | null;
+}
+
+const THEME_IDS = new Set<string>(THEMES.map(t => t.id));
+
+/**
+ * Compact read-only roster of a shared list, rendered without the app chrome for iframes on
+ * other sites. `?theme=<theme id>` picks one of the app's themes and `?mode=light` switches
+ * to light colours.
+ */
+export function EmbedListPage() {
+  const { shareCode } = useParams<{ shareCode: string }>();
+  const [searchParams] = useSearchParams();
+  const [list, setList] = useState<EmbedList | null>(null);
+  const [listUnits, setListUnits] = useState<ArmyListUnitWithDetails[]>([]);
+  const [listEnhancements, setListEnhancements] = useState<EmbedEnhancement[]>([]);
+  const [points, setPoints] = useState<ListPoints | null>(null);
+  const [loadError, setLoadError] = useState(false);
+  const [loading, setLoading] = useState(true);
+
+  const themeParam = searchParams.get('theme');
+  const theme = themeParam && THEME_IDS.has(themeParam) && themeParam !== 'void-dark' ? themeParam : undefined;
+  const light = searchParams.get('mode') === 'light';
+
+  useEffect(() => {
+    if (!shareCode) return;
+    (async () => {
+      const { data: listData, error } = await supabase
+        .from('army_lists')
+        .select('id, name, points_limit, points_dataset_id, detachments(name), factions(name)')
+        .eq('share_code', shareCode)
+        .single();
+
+      if (error || !listData) {
+        if (error) console.error('Failed to load embedded list:', error);
+        setLoading(false);
+        return;
+      }
+
+      try {
+        // Costed under the list's pinned points release, as the editor does
+        const [unitRes, enhancementRes, points] = await Promise.all([
+          supabase
+            .from('army_list_units')
+            .select('*, units(*)')
+            .eq('army_list_id', listData.id)
+            .order('sort_order'),
+          supabase
+            .from('army_list_enhancements')
+            .select('army_list_unit_id, enhancement_id, enhancements(name, points)')
+            .eq('army_list_id', listData.id),
+          loadListPoints(listData.id, listData.points_dataset_id),
+        ]);
+        const loadErr = unitRes.error ?? enhancementRes.error;
+        if (loadErr) throw new Error(loadErr.message);
+
+        setList(listData as unknown as EmbedList);
+        setListUnits((unitRes.data ?? []) as ArmyListUnitWithDetails[]);
+        setListEnhancements((enhancementRes.data ?? []) as unknown as EmbedEnhancement[]);
+        setPoints(points);
+      } catch (err) {
+        console.error('Failed to load embedded list:', err);
+        setLoadError(true);
+      }
+      setLoading(false);
+    })();
+  }, [shareCode]);
+
+  const className = `embed-list${light ? ' embed-list--light' : ''}`;
+
+  if (loading) {
+    return (
+      <div className={className} data-theme={theme}>
+        <div className="skeleton skeleton--header" />
+        <div className="skeleton skeleton--bar" />
+      </div>
+    );
+  }
+
+  if (loadError) {
+    return (
+      <div className={className} data-theme={theme}>
+        <div className="embed-list__empty">Couldn't load this list.</div>
+      </div>
+    );
+  }
+
+  if (!list || !points) {
+    return (
+      <div className={className} data-theme={theme}>
+        <div className="embed-list__empty">This list is no longer shared.</div>
+      </div>
+    );
+  }
+
+  const enhancementFor = (armyListUnitId: string) =>
+    listEnhancements.find(le => le.army_list_unit_id === armyListUnitId) ?? null;
+  const unitTotal = (lu: ArmyListUnitWithDetails) => {
+    const le = enhancementFor(lu.id);
+    const enhancementPoints = le ? points.enhancements.get(le.enhancement_id) ?? le.enhancements?.points ?? 0 : 0;
+    return (points.units.get(lu.id) ?? 0) + enhancementPoints;
+  };
+  const totalPoints = points.total;
+
+  return (
+    <div className={className} data-theme={theme}>
+      <header className="embed-list__header">
+        <div>
+          <div className="embed-list__name">{list.name}</div>
+          <div className="embed-list__meta">
+            {list.factions?.name} &middot; {list.detachments?.name} &middot; {listUnits.length} {listUnits.length === 1 ? 'unit' : 'units'}
+          </div>
+        </div>
+        <div className={`embed-list__points${totalPoints > list.points_limit ? ' embed-list__points--over' : ''}`}>
+          {totalPoints}<span className="embed-list__limit">/{list.points_limit} pts</span>
+        </div>
+      </header>
+
+      <div className="embed-list__roster">
+        {ROLE_ORDER.map(role => {
+          const roleUnits = listUnits.filter(lu => lu.units.role === role);
+          if (roleUnits.length === 0) return null;
+          return (
+            <section key={role} className="embed-list__section">
+              <div className="embed-list__role">{ROLE_LABELS[role]}</div>
+              {roleUnits.map(lu => {
+                const enhancement = enhancementFor(lu.id)?.enhancements;
+                return (
+                  <div key={lu.id} className="embed-list__unit">
+                    <span className="embed-list__unit-name">
+                      {lu.model_count > 1 ? `${lu.model_count} ` : ''}{lu.units.name}
+                      {enhancement && <span className="embed-list__enhancement"> · {enhancement.name}</span>}
+                    </span>
+                    <span className="embed-list__unit-points">{unitTotal(lu)}</span>
+                  </div>
+                );
+              })}
+            </section>
+          );
+        })}
+      </div>
+
+      <a
+        className="embed-list__footer"
+        href={`${window.location.origin}/shared/${shareCode}`}
+        target="_blank"
+        rel="noopener noreferrer"
+      >
+        View on WarForge &rarr;
+      </a>
+    </div>
+  );
+}
@@ -1,20 +1,159 @@
-import { useEffect, useState } from 'react';
-import { useParams, Link } from 'react-router-dom';
+import { useEffect, useMemo, useState } from 'react';
+import { useParams, useLocation, useNavigate, Link } from 'react-router-dom';
 import { supabase } from '../lib/supabase';
+import { useAuth } from '../hooks/useAuth';
 import type { ArmyList, Enhancement, Detachment } from '../types/database';
 import { DatasheetView } from '../components/DatasheetView';
 import { PointsBar } from '../../features/list-builder/components/PointsBar';
 import { getUnitPoints, ROLE_ORDER, ROLE_LABELS, type ArmyListUnitWithDetails } from '../../features/list-builder/hooks/useListEditor';
+import { CommentThreadView } from '../../features/list-builder/components/CommentThreadView';
+import {
+  buildThreads, threadAnchorLabel, threadsByUnit, type CommentWithAuthor,
+} from '../../features/list-builder/lib/listReview';
+import { serializeListDocument, type ListDocument } from '../../features/list-builder/lib/listDocument';
+import { decodeListLink } from '../../features/list-builder/lib/listLink';
+import {
+  datasetPoints, withDatasetEnhancementPoints, withDatasetTiers,
+} from '../../features/list-builder/lib/pointsDataset';
+import { loadListPoints, type ListPoints } from '../lib/listPoints';
+import type { UnitWithRelations } from '../../features/list-builder/stores/listEditorStore';
 
+type SharedList = Pick<ArmyList, 'name' | 'faction_id' | 'points_limit'> & {
+  detachments: Detachment | null;
+  factions: { name: string } | null;
+};
+
+/**
+ * Shows a list shared by share code (`/shared/:code`, loaded from the database) or carried in
+ * a list link (`/shared#<list>`). A list link only needs reference data and no account. It
+ * loads its faction's units the way the editor does, so it also opens offline once the app
+ * has cached that faction. Either way the list is costed under its pinned points release.
+ */
 export function SharedListPage() {
   const { code } = useParams<{ code: string }>();
-  const [list, setList] = useState<(ArmyList & { detachments: Detachment; factions: { name: string } }) | null>(null);
+  const { hash } = useLocation();
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const [list, setList] = useState<SharedList | null>(null);
   const [listUnits, setListUnits] = useState<ArmyListUnitWithDetails[]>([]);
   const [enhancements, setEnhancements] = useState<Enhancement[]>([]);
   const [listEnhancements, setListEnhancements] = useState<{ id: string; enhancement_id: string; army_list_unit_id: string }[]>([]);
   const [loading, setLoading] = useState(true);
   const [notFound, setNotFound] = useState(false);
   const [expandedUnits, setExpandedUnits] = useState<Set<string>>(new Set());
+  const [comments, setComments] = useState<CommentWithAuthor[]>([]);
+  // The list carried by a list link, and how many of its units the data no longer has
+  const [linkDocument, setLinkDocument] = useState<ListDocument | null>(null);
+  const [missingUnits, setMissingUnits] = useState(0);
+  const [linkError, setLinkError] = useState<string | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  // A saved list's points as the database costs them; list links are priced client-side
+  const [listPoints, setListPoints] = useState<ListPoints | null>(null);
+  const [importing, setImporting] = useState(false);
+
+  useEffect(() => {
+    if (code) return;
+    (async () => {
+      const { document, error } = await decodeListLink(hash);
+      if (!document) {
+        setLinkError(error);
+        setNotFound(true);
+        setLoading(false);
+        return;
+      }
+
+      const showLoadError = (error: unknown) => {
+        console.error('Failed to load the game data for a list link:', error);
+        setLoadError("Couldn't load the game data for this list. Check your connection and try again.");
+        setLoading(false);
+      };
+
+      const factionRes = await supabase
+        .from('factions')
+        .select('name, parent_faction_id')
+        .eq('id', document.list.factionId)
+        .single();
+      if (factionRes.error) return showLoadError(factionRes.error);
+
+      // The same query the editor makes for this faction, so the service worker's cached copy
+      // answers it offline
+      const unitFactionIds = [document.list.factionId];
+      if (factionRes.data.parent_faction_id) unitFactionIds.push(factionRes.data.parent_faction_id as string);
+
+      const detachmentId = document.list.detachment?.id;
+      const [unitRes, detachmentRes, enhancementRes] = await Promise.all([
+        supabase
+          .from('units')
+          .select('*, unit_points_tiers(*), abilities(*), weapons(*)')
+          .in('faction_id', unitFactionIds)
+          .order('name'),
+        detachmentId
+          ? supabase.from('detachments').select('*').eq('id', detachmentId).single()
+          : Promise.resolve({ data: null }),
+        detachmentId
+          ? supabase.from('enhancements').select('*').eq('detachment_id', detachmentId)
+          : Promise.resolve({ data: [] }),
+      ]);
+
+      if (unitRes.error) return showLoadError(unitRes.error);
+      let units = unitRes.data as UnitWithRelations[];
+      let linkEnhancements = (enhancementRes.data ?? []) as Enhancement[];
+
+      // Allies come from other factions; look those up by ID
+      const allyIds = [...new Set(document.units.map(u => u.unit.id))].filter(id => !units.some(u => u.id === id));
+      if (allyIds.length > 0) {
+        const allyRes = await supabase
+          .from('units')
+          .select('*, unit_points_tiers(*), abilities(*), weapons(*)')
+          .in('id', allyIds);
+        if (allyRes.error) return showLoadError(allyRes.error);
+        units.push(...(allyRes.data as UnitWithRelations[]));
+      }
+
+      // Swap in the pinned release's points, as the editor does
+      const datasetId = document.list.pointsDatasetId;
+      if (datasetId) {
+        const [tiersRes, datasetEnhancementRes] = await Promise.all([
+          supabase
+            .from('points_dataset_tiers')
+            .select('unit_id, model_count, points')
+            .eq('dataset_id', datasetId)
+            .in('unit_id', document.units.map(u => u.unit.id)),
+          supabase
+            .from('points_dataset_enhancements')
+            .select('enhancement_id, points')
+            .eq('dataset_id', datasetId),
+        ]);
+        if (tiersRes.error) return showLoadError(tiersRes.error);
+        if (datasetEnhancementRes.error) return showLoadError(datasetEnhancementRes.error);
+        const points = datasetPoints(tiersRes.data, datasetEnhancementRes.data);
+        units = withDatasetTiers(units, points);
+        linkEnhancements = withDatasetEnhancementPoints(linkEnhancements, points);
+      }
+
+      const linkUnits = document.units.flatMap((du, index) => {
+        const unit = units.find(u => u.id === du.unit.id);
+        if (!unit) return [];
+        return [{ id: du.key, army_list_id: '', unit_id: unit.id, model_count: du.modelCount, sort_order: index, units: unit }];
+      }) as ArmyListUnitWithDetails[];
+
+      setLinkDocument(document);
+      setList({
+        name: document.list.name,
+        faction_id: document.list.factionId,
+        points_limit: document.list.pointsLimit,
+        detachments: (detachmentRes.data ?? null) as Detachment | null,
+        factions: { name: factionRes.data.name as string },
+      });
+      setListUnits(linkUnits);
+      setMissingUnits(document.units.length - linkUnits.length);
+      setEnhancements(linkEnhancements);
+      setListEnhancements(document.units.flatMap(du => (du.enhancement
+        ? [{ id: du.key, enhancement_id: du.enhancement.id, army_list_unit_id: du.key }]
+        : [])));
+      setLoading(false);
+    })();
+  }, [code, hash]);
 
   useEffect(() => {
     if (!code) return;
@@ -31,7 +170,7 @@ export function SharedListPage() {
         return;
       }
 
-      setList(listData as ArmyList & { detachments: Detachment; factions: { name: string } });
+      setList(listData as SharedList);
 
       const { data: unitData } = await supabase
         .from('army_list_units')
@@ -55,10 +194,77 @@ export function SharedListPage() {
 
       if (listEnhData) setListEnhancements(listEnhData);
 
+      try {
+        setListPoints(await loadListPoints(listData.id, listData.points_dataset_id));
+      } catch (err) {
+        console.error('Failed to cost shared list:', err);
+        setLoadError("Couldn't load this list's points. Check your connection and try again.");
+      }
+
+      const { data: commentData } = await supabase
+        .from('army_list_comments')
+        .select('*, user_profiles(display_name)')
+        .eq('army_list_id', listData.id)
+        .order('created_at');
+
+      if (commentData) setComments(commentData as CommentWithAuthor[]);
+
       setLoading(false);
     })();
   }, [code]);
 
+  const threads = useMemo(() => threadsByUnit(buildThreads(comments)), [comments]);
+
+  /**
+   * Copies a list link into the user's lists: creates the list, then has the editor import
+   * the document so units, wargear and leaders are matched like any other import.
+   */
+  async function handleImport() {
+    if (!user || !linkDocument || !list) return;
+    setImporting(true);
+
+    let detachmentId = list.detachments?.id;
+    if (!detachmentId) {
+      const { data: detachments } = await supabase
+        .from('detachments')
+        .select('id')
+        .eq('faction_id', list.faction_id)
+        .eq('is_combat_patrol', false)
+        .order('name')
+        .limit(1);
+      detachmentId = detachments?.[0]?.id;
+    }
+    if (!detachmentId) {
+      setLinkError('No detachments found for this faction.');
+      setImporting(false);
+      return;
+    }
+
+    const { data: inserted, error } = await supabase
+      .from('army_lists')
+      .insert({
+        name: linkDocument.list.name,
+        faction_id: list.faction_id,
+        detachment_id: detachmentId,
+        points_limit: linkDocument.list.pointsLimit,
+        battle_size: linkDocument.list.battleSize,
+        edition: linkDocument.list.edition,
+        // The editor's import fields the force and pins the points release
+        combat_patrol_id: linkDocument.list.combatPatrolId,
+        user_id: user.id,
+      })
+      .select('id')
+      .single();
+
+    setImporting(false);
+    if (error || !inserted) {
+      console.error('Failed to import shared list:', error);
+      setLinkError(error?.message ?? 'Failed to import the list.');
+      return;
+    }
+    navigate(`/list/${inserted.id}`, { state: { importDocument: serializeListDocument(linkDocument) } });
+  }
+
   if (loading) return (
     <div className="shared-list">
       <div className="skeleton-list">
@@ -70,21 +276,36 @@ export function SharedListPage() {
       </div>
     </div>
   );
+  if (loadError) {
+    return (
+      <div className="empty-state card">
+        <div className="empty-state__title">Couldn't Open List</div>
+        <p>{loadError}</p>
+        <button className="btn btn--primary shared-list__home-link" onClick={() => window.location.reload()}>
+          Try Again
+        </button>
+      </div>
+    );
+  }
   if (notFound || !list) {
     return (
       <div className="empty-state card">
         <div className="empty-state__title">List Not Found</div>
-        <p>This shared list link is invalid or has been removed.</p>
+        <p>{linkError ?? 'This shared list link is invalid or has been removed.'}</p>
         <Link to="/" className="btn btn--primary shared-list__home-link">Go Home</Link>
       </div>
     );
   }
 
-  const totalPoints = listUnits.reduce((sum, lu) => sum + getUnitPoints(lu.units, lu.model_count), 0)
-    + listEnhancements.reduce((sum, le) => {
-      const enh = enhancements.find(e => e.id === le.enhancement_id);
-      return sum + (enh?.points ?? 0);
-    }, 0);
+  const unitPoints = (lu: ArmyListUnitWithDetails) =>
+    listPoints?.units.get(lu.id) ?? getUnitPoints(lu.units, lu.model_count);
+  const enhancementPoints = (enh: Enhancement) => listPoints?.enhancements.get(enh.id) ?? enh.points;
+  const totalPoints = listPoints?.total
+    ?? listUnits.reduce((sum, lu) => sum + unitPoints(lu), 0)
+      + listEnhancements.reduce((sum, le) => {
+        const enh = enhancements.find(e => e.id === le.enhancement_id);
+        return sum + (enh ? enhancementPoints(enh) : 0);
+      }, 0);
 
   const rosterByRole: Record<string, ArmyListUnitWithDetails[]> = {};
   for (const lu of listUnits) {
@@ -108,8 +329,21 @@ export function SharedListPage() {
         <div>
           <h2 className="list-editor__army-name">{list.name}</h2>
           <span className="list-editor__detachment">
-            {(list.factions as { name: string })?.name} &middot; {list.detachments?.name}
+            {list.factions?.name} &middot; {list.detachments?.name}
           </span>
+          {linkDocument && (
+            <div className="shared-list__import">
+              {user ? (
+                <button className="btn btn--primary" onClick={handleImport} disabled={importing}>
+                  {importing ? 'Importing...' : 'Import into my lists'}
+                </button>
+              ) : (
+                <Link to={`/auth?redirect=${encodeURIComponent(`/shared${hash}`)}`} className="btn btn--primary">
+                  Sign in to import
+                </Link>
+              )}
+            </div>
+          )}
         </div>
         <div className={`list-editor__points-display${totalPoints > list.points_limit ? ' list-editor__points-display--over' : ''}`}>
           {totalPoints}
@@ -119,6 +353,15 @@ export function SharedListPage() {
 
       <PointsBar current={totalPoints} limit={list.points_limit} />
 
+      {(missingUnits > 0 || (linkDocument && linkError)) && (
+        <div className="validation-banner validation-banner--warning">
+          {missingUnits > 0 && (
+            <div>{missingUnits} {missingUnits === 1 ? 'unit' : 'units'} in this link {missingUnits === 1 ? 'is' : 'are'} no longer in the game data.</div>
+          )}
+          {linkDocument && linkError && <div>{linkError}</div>}
+        </div>
+      )}
+
       <div className="shared-list__roster">
         {ROLE_ORDER.map(role => {
           const roleUnits = rosterByRole[role];
@@ -129,12 +372,13 @@ export function SharedListPage() {
                 <span>{ROLE_LABELS[role]}</span>
               </div>
               {roleUnits.map(lu => {
-                const pts = getUnitPoints(lu.units, lu.model_count);
+                const pts = unitPoints(lu);
                 const enhAssignment = listEnhancements.find(le => le.army_list_unit_id === lu.id);
                 const enh = enhAssignment ? enhancements.find(e => e.id === enhAssignment.enhancement_id) : null;
-                const totalPts = pts + (enh?.points ?? 0);
+                const totalPts = pts + (enh ? enhancementPoints(enh) : 0);
                 const isExpanded = expandedUnits.has(lu.id);
                 const displayName = lu.model_count > 1 ? `${lu.model_count} ${lu.units.name}` : lu.units.name;
+                const unitThreads = threads.get(lu.id) ?? [];
 
                 return (
                   <div
@@ -146,6 +390,11 @@ export function SharedListPage() {
                     <div className="roster-item__row1">
                       <span className="roster-item__name">{displayName}</span>
                       <div className="roster-item__right">
+                        {unitThreads.length > 0 && (
+                          <span className="shared-list__comment-count" title="Comments">
+                            &#128172; {unitThreads.length}
+                          </span>
+                        )}
                         <span className="roster-item__points">{totalPts} pts</span>
                         <button className="roster-item__expand" onClick={(e) => { e.stopPropagation(); toggleExpand(lu.id); }}>
                           {isExpanded ? '\u25B2' : '\u25BC'}
@@ -155,7 +404,7 @@ export function SharedListPage() {
                     {enh && (
                       <div className="roster-item__row2">
                         <span className="roster-item__enhancement">
-                          {enh.name} (+{enh.points} pts)
+                          {enh.name} (+{enhancementPoints(enh)} pts)
                         </span>
                       </div>
                     )}
@@ -164,6 +413,11 @@ export function SharedListPage() {
                         <DatasheetView unit={lu.units} weapons={lu.units.weapons ?? []} />
                       </div>
                     )}
+                    {isExpanded && unitThreads.length > 0 && (
+                      <div className="shared-list__unit-comments" onClick={(e) => e.stopPropagation()}>
+                        {unitThreads.map(thread => <CommentThreadView key={thread.root.id} thread={thread} />)}
+                      </div>
+                    )}
                   </div>
                 );
               })}
@@ -172,6 +426,19 @@ export function SharedListPage() {
         })}
       </div>
 
+      {(threads.get(null) ?? []).length > 0 && (
+        <div className="shared-list__comments">
+          <h3 className="shared-list__comments-title">Comments</h3>
+          {threads.get(null)!.map(thread => (
+            <CommentThreadView
+              key={thread.root.id}
+              thread={thread}
+              anchorLabel={threadAnchorLabel(thread, new Map())}
+            />
+          ))}
+        </div>
+      )}
+
       <div className="shared-list__footer">
         <Link to="/" className="btn">Build Your Own List</Link>
       </div>
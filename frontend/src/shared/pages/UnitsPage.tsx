@@ -2,6 +2,10 @@ import { useEffect, useState, useMemo } from 'react';
 import { supabase } from '../lib/supabase';
 import type { Faction, Unit, UnitPointsTier, Weapon, Ability } from '../types/database';
 import { DatasheetView } from '../components/DatasheetView';
+import { MathhammerPanel } from '../components/MathhammerPanel';
+import { UnitQueryInput } from '../components/UnitQueryInput';
+import { useAuth } from '../hooks/useAuth';
+import { hasQueryTerm, matchesUnitQuery, parseUnitQuery } from '../lib/unitQuery';
 import { ROLE_ORDER, ROLE_LABELS } from '../../features/list-builder/hooks/useListEditor';
 
 type UnitWithDetails = Unit & {
@@ -13,6 +17,7 @@ type UnitWithDetails = Unit & {
 type SortOption = 'name' | 'points_asc' | 'points_desc' | 'wounds' | 'toughness';
 
 export function UnitsPage() {
+  const { user } = useAuth();
   const [factions, setFactions] = useState<Faction[]>([]);
   const [selectedFaction, setSelectedFaction] = useState<string>('');
   const [units, setUnits] = useState<UnitWithDetails[]>([]);
@@ -21,8 +26,8 @@ export function UnitsPage() {
   const [filter, setFilter] = useState('');
   const [roleFilter, setRoleFilter] = useState<string>('all');
   const [sort, setSort] = useState<SortOption>('name');
-  const [keywordFilter, setKeywordFilter] = useState('');
   const [showLegends, setShowLegends] = useState(false);
+  const [ownedUnitCounts, setOwnedUnitCounts] = useState(new Map<string, number>());
 
   useEffect(() => {
     supabase
@@ -63,6 +68,21 @@ export function UnitsPage() {
       });
   }, [selectedFaction, factions]);
 
+  // Collection counts for owned: filters
+  const userId = user?.id;
+  useEffect(() => {
+    if (!userId) return;
+    supabase
+      .from('collection_entries')
+      .select('unit_id, quantity')
+      .eq('user_id', userId)
+      .gt('quantity', 0)
+      .not('unit_id', 'is', null)
+      .then(({ data }) => {
+        if (data) setOwnedUnitCounts(new Map(data.map(e => [e.unit_id as string, e.quantity as number])));
+      });
+  }, [userId]);
+
   // Available roles for this faction
   const availableRoles = useMemo(() => {
     const roles = new Set(units.map(u => u.role));
@@ -78,32 +98,21 @@ export function UnitsPage() {
 
   const filteredAndSorted = useMemo(() => {
     let result = units;
+    const query = parseUnitQuery(filter);
 
-    // Legends filter
-    if (!showLegends) {
+    // Legends filter, unless the query has its own legends: term
+    if (!showLegends && !hasQueryTerm(query, 'legends')) {
       result = result.filter(u => !u.is_legends);
     }
 
-    // Name filter
-    if (filter) {
-      const q = filter.toLowerCase();
-      result = result.filter(u => u.name.toLowerCase().includes(q));
-    }
+    // Query filter
+    result = result.filter(u => matchesUnitQuery(u, query, { ownedUnitCounts }));
 
     // Role filter
     if (roleFilter !== 'all') {
       result = result.filter(u => u.role === roleFilter);
     }
 
-    // Keyword filter
-    if (keywordFilter) {
-      const q = keywordFilter.toLowerCase();
-      result = result.filter(u =>
-        u.keywords.some(kw => kw.toLowerCase().includes(q)) ||
-        u.abilities.some(a => a.name.toLowerCase().includes(q))
-      );
-    }
-
     // Sort
     result = [...result].sort((a, b) => {
       switch (sort) {
@@ -117,7 +126,7 @@ export function UnitsPage() {
     });
 
     return result;
-  }, [units, filter, roleFilter, keywordFilter, sort, showLegends]);
+  }, [units, filter, roleFilter, sort, showLegends, ownedUnitCounts]);
 
   // Stats summary
   const statsSummary = useMemo(() => {
@@ -171,23 +180,12 @@ export function UnitsPage() {
           </select>
         </div>
         <div className="form-group" style={{ flex: 1, minWidth: '150px' }}>
-          <label>Search Name</label>
-          <input
-            className="form-input"
-            type="text"
-            placeholder="Unit name..."
+          <label>Search</label>
+          <UnitQueryInput
+            placeholder='Name or filters, e.g. kw:fly t>=5 has:"Deep Strike"'
             value={filter}
-            onChange={(e) => setFilter(e.target.value)}
-          />
-        </div>
-        <div className="form-group" style={{ minWidth: '130px' }}>
-          <label>Keyword / Ability</label>
-          <input
-            className="form-input"
-            type="text"
-            placeholder="e.g. Fly, Psyker..."
-            value={keywordFilter}
-            onChange={(e) => setKeywordFilter(e.target.value)}
+            onChange={setFilter}
+            units={units}
           />
         </div>
       </div>
@@ -243,7 +241,7 @@ export function UnitsPage() {
           <div className="empty-state__icon">&#128269;</div>
           <div className="empty-state__title">No units found</div>
           <p className="empty-state__description">
-            {filter || keywordFilter
+            {filter
               ? 'No units match your current filters. Try adjusting your search or clearing filters.'
               : 'No units available for this faction yet.'}
           </p>
@@ -312,6 +310,10 @@ export function UnitsPage() {
                 {isExpanded && (
                   <div className="unit-browser-card__datasheet" onClick={(e) => e.stopPropagation()}>
                     <DatasheetView unit={unit} weapons={unit.weapons} />
+                    <MathhammerPanel
+                      weapons={unit.weapons}
+                      modelCount={[...unit.unit_points_tiers].sort((a, b) => a.model_count - b.model_count)[0]?.model_count ?? 1}
+                    />
                   </div>
                 )}
               </div>
@@ -40,6 +40,8 @@ export type Database = {
           faction_id: string;
           name: string;
           rule_text: string | null;
+          /** The rule/enhancement/stratagem anchor of a Combat Patrol, not a pickable detachment */
+          is_combat_patrol: boolean;
           edition: string;
           created_at: string;
         };
@@ -48,6 +50,7 @@ export type Database = {
           faction_id: string;
           name: string;
           rule_text?: string | null;
+          is_combat_patrol?: boolean;
           edition?: string;
         };
         Update: {
@@ -55,6 +58,7 @@ export type Database = {
           faction_id?: string;
           name?: string;
           rule_text?: string | null;
+          is_combat_patrol?: boolean;
           edition?: string;
         };
         Relationships: [];
@@ -77,6 +81,8 @@ export type Database = {
           transport_capacity: number | null;
           transport_keywords_allowed: string[] | null;
           transport_keywords_excluded: string[] | null;
+          /** Keyword → slots each such model takes up, e.g. { Gravis: 2 } */
+          transport_bulky_keywords: Record<string, number> | null;
           edition: string;
           created_at: string;
         };
@@ -97,6 +103,7 @@ export type Database = {
           transport_capacity?: number | null;
           transport_keywords_allowed?: string[] | null;
           transport_keywords_excluded?: string[] | null;
+          transport_bulky_keywords?: Record<string, number> | null;
           edition?: string;
         };
         Update: {
@@ -116,6 +123,7 @@ export type Database = {
           transport_capacity?: number | null;
           transport_keywords_allowed?: string[] | null;
           transport_keywords_excluded?: string[] | null;
+          transport_bulky_keywords?: Record<string, number> | null;
           edition?: string;
         };
         Relationships: [];
@@ -144,6 +152,64 @@ export type Database = {
         };
         Relationships: [];
       };
+      points_datasets: {
+        Row: {
+          id: string;
+          name: string;
+          edition: string;
+          effective_date: string;
+          source: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          name: string;
+          edition?: string;
+          effective_date: string;
+          source?: string | null;
+        };
+        Update: {
+          name?: string;
+          edition?: string;
+          effective_date?: string;
+          source?: string | null;
+        };
+        Relationships: [];
+      };
+      points_dataset_tiers: {
+        Row: {
+          dataset_id: string;
+          unit_id: string;
+          model_count: number;
+          points: number;
+        };
+        Insert: {
+          dataset_id: string;
+          unit_id: string;
+          model_count: number;
+          points: number;
+        };
+        Update: {
+          points?: number;
+        };
+        Relationships: [];
+      };
+      points_dataset_enhancements: {
+        Row: {
+          dataset_id: string;
+          enhancement_id: string;
+          points: number;
+        };
+        Insert: {
+          dataset_id: string;
+          enhancement_id: string;
+          points: number;
+        };
+        Update: {
+          points?: number;
+        };
+        Relationships: [];
+      };
       weapons: {
         Row: {
           id: string;
@@ -243,6 +309,120 @@ export type Database = {
         };
         Relationships: [];
       };
+      enhancement_restrictions: {
+        Row: {
+          enhancement_id: string;
+          required_keywords: string[][];
+          excluded_keywords: string[][];
+          required_abilities: string[];
+        };
+        Insert: {
+          enhancement_id: string;
+          required_keywords?: string[][];
+          excluded_keywords?: string[][];
+          required_abilities?: string[];
+        };
+        Update: {
+          required_keywords?: string[][];
+          excluded_keywords?: string[][];
+          required_abilities?: string[];
+        };
+        Relationships: [];
+      };
+      allied_contingent_rules: {
+        Row: {
+          id: string;
+          faction_id: string;
+          allied_faction_id: string;
+          rule_name: string;
+          points_caps: Record<string, number>;
+          unit_caps: Record<string, number>;
+          excluded_roles: string[];
+          allow_enhancements: boolean;
+        };
+        Insert: {
+          id?: string;
+          faction_id: string;
+          allied_faction_id: string;
+          rule_name: string;
+          points_caps?: Record<string, number>;
+          unit_caps?: Record<string, number>;
+          excluded_roles?: string[];
+          allow_enhancements?: boolean;
+        };
+        Update: {
+          rule_name?: string;
+          points_caps?: Record<string, number>;
+          unit_caps?: Record<string, number>;
+          excluded_roles?: string[];
+          allow_enhancements?: boolean;
+        };
+        Relationships: [];
+      };
+      combat_patrols: {
+        Row: {
+          id: string;
+          faction_id: string;
+          detachment_id: string;
+          name: string;
+          description: string | null;
+          edition: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          faction_id: string;
+          detachment_id: string;
+          name: string;
+          description?: string | null;
+          edition?: string;
+        };
+        Update: {
+          name?: string;
+          description?: string | null;
+          edition?: string;
+        };
+        Relationships: [];
+      };
+      combat_patrol_units: {
+        Row: {
+          id: string;
+          combat_patrol_id: string;
+          unit_id: string;
+          model_count: number;
+          sort_order: number;
+          datasheet_notes: string | null;
+        };
+        Insert: {
+          id?: string;
+          combat_patrol_id: string;
+          unit_id: string;
+          model_count: number;
+          sort_order?: number;
+          datasheet_notes?: string | null;
+        };
+        Update: {
+          model_count?: number;
+          sort_order?: number;
+          datasheet_notes?: string | null;
+        };
+        Relationships: [];
+      };
+      combat_patrol_wargear_options: {
+        Row: {
+          combat_patrol_unit_id: string;
+          wargear_option_id: string;
+        };
+        Insert: {
+          combat_patrol_unit_id: string;
+          wargear_option_id: string;
+        };
+        Update: {
+          combat_patrol_unit_id?: string;
+          wargear_option_id?: string;
+        };
+        Relationships: [];
+      };
       battle_sizes: {
         Row: {
           id: string;
@@ -281,6 +461,8 @@ export type Database = {
           battle_size: string;
           share_code: string | null;
           edition: string;
+          points_dataset_id: string | null;
+          combat_patrol_id: string | null;
           created_at: string;
           updated_at: string;
         };
@@ -294,6 +476,8 @@ export type Database = {
           battle_size?: string;
           share_code?: string | null;
           edition?: string;
+          points_dataset_id?: string | null;
+          combat_patrol_id?: string | null;
         };
         Update: {
           id?: string;
@@ -305,6 +489,8 @@ export type Database = {
           battle_size?: string;
           share_code?: string | null;
           edition?: string;
+          points_dataset_id?: string | null;
+          combat_patrol_id?: string | null;
         };
         Relationships: [];
       };
@@ -332,6 +518,86 @@ export type Database = {
         };
         Relationships: [];
       };
+      army_list_collaborators: {
+        Row: {
+          id: string;
+          army_list_id: string;
+          user_id: string;
+          role: 'editor' | 'viewer';
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          army_list_id: string;
+          user_id: string;
+          role?: 'editor' | 'viewer';
+          created_at?: string;
+        };
+        Update: {
+          role?: 'editor' | 'viewer';
+        };
+        Relationships: [];
+      };
+      army_list_review_requests: {
+        Row: {
+          id: string;
+          army_list_id: string;
+          requester_id: string;
+          reviewer_id: string;
+          message: string | null;
+          status: 'pending' | 'completed' | 'declined';
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          army_list_id: string;
+          requester_id: string;
+          reviewer_id: string;
+          message?: string | null;
+          status?: 'pending' | 'completed' | 'declined';
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          status?: 'pending' | 'completed' | 'declined';
+        };
+        Relationships: [];
+      };
+      army_list_comments: {
+        Row: {
+          id: string;
+          army_list_id: string;
+          army_list_unit_id: string | null;
+          unit_name: string | null;
+          parent_id: string | null;
+          author_id: string;
+          body: string;
+          proposal: Record<string, unknown> | null;
+          proposal_status: 'open' | 'accepted' | 'dismissed' | null;
+          resolved_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          army_list_id: string;
+          army_list_unit_id?: string | null;
+          unit_name?: string | null;
+          parent_id?: string | null;
+          author_id: string;
+          body: string;
+          proposal?: Record<string, unknown> | null;
+          proposal_status?: 'open' | 'accepted' | 'dismissed' | null;
+          resolved_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          body?: string;
+          proposal_status?: 'open' | 'accepted' | 'dismissed' | null;
+          resolved_at?: string | null;
+        };
+        Relationships: [];
+      };
       army_list_units: {
         Row: {
           id: string;
@@ -584,6 +850,27 @@ export type Database = {
         };
         Relationships: [];
       };
+      army_list_transport_embarks: {
+        Row: {
+          id: string;
+          army_list_id: string;
+          transport_army_list_unit_id: string;
+          passenger_army_list_unit_id: string;
+        };
+        Insert: {
+          id?: string;
+          army_list_id: string;
+          transport_army_list_unit_id: string;
+          passenger_army_list_unit_id: string;
+        };
+        Update: {
+          id?: string;
+          army_list_id?: string;
+          transport_army_list_unit_id?: string;
+          passenger_army_list_unit_id?: string;
+        };
+        Relationships: [];
+      };
       missions: {
         Row: {
           id: string;
@@ -1307,6 +1594,28 @@ export type Database = {
         };
         Relationships: [];
       };
+      unit_filter_presets: {
+        Row: {
+          id: string;
+          user_id: string;
+          name: string;
+          /** Unit search syntax, see shared/lib/unitQuery.ts */
+          query: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          name: string;
+          query: string;
+          created_at?: string;
+        };
+        Update: {
+          name?: string;
+          query?: string;
+        };
+        Relationships: [];
+      };
       // W2-4: Hobby Streaks & Achievements
       hobby_streaks: {
         Row: {
@@ -1622,6 +1931,14 @@ export type Database = {
           is_valid: boolean;
         };
       };
+      list_points_in_dataset: {
+        Args: { p_list_id: string; p_dataset_id: string | null };
+        Returns: { unit_points: number; enhancement_points: number }[];
+      };
+      points_update_impact: {
+        Args: Record<string, never>;
+        Returns: PointsUpdateImpact[];
+      };
       validate_army_list: {
         Args: { list_id: string };
         Returns: {
@@ -1639,6 +1956,8 @@ export type Database = {
           has_unit_limit_violations: boolean;
           enhancement_violations: string[];
           has_enhancement_violations: boolean;
+          allied_violations: string[];
+          has_allied_violations: boolean;
         };
       };
       duplicate_army_list: {
@@ -1748,9 +2067,17 @@ export type Faction = Database['public']['Tables']['factions']['Row'];
 export type Detachment = Database['public']['Tables']['detachments']['Row'];
 export type Unit = Database['public']['Tables']['units']['Row'];
 export type UnitPointsTier = Database['public']['Tables']['unit_points_tiers']['Row'];
+export type PointsDataset = Database['public']['Tables']['points_datasets']['Row'];
+export type PointsDatasetTier = Database['public']['Tables']['points_dataset_tiers']['Row'];
+export type PointsDatasetEnhancement = Database['public']['Tables']['points_dataset_enhancements']['Row'];
 export type Weapon = Database['public']['Tables']['weapons']['Row'];
 export type Ability = Database['public']['Tables']['abilities']['Row'];
 export type Enhancement = Database['public']['Tables']['enhancements']['Row'];
+export type EnhancementRestriction = Database['public']['Tables']['enhancement_restrictions']['Row'];
+export type AlliedContingentRule = Database['public']['Tables']['allied_contingent_rules']['Row'];
+export type CombatPatrol = Database['public']['Tables']['combat_patrols']['Row'];
+export type CombatPatrolUnit = Database['public']['Tables']['combat_patrol_units']['Row'];
+export type CombatPatrolWargearOption = Database['public']['Tables']['combat_patrol_wargear_options']['Row'];
 export type ArmyList = Database['public']['Tables']['army_lists']['Row'];
 export type ArmyListVersion = Database['public']['Tables']['army_list_versions']['Row'];
 export type ArmyListUnit = Database['public']['Tables']['army_list_units']['Row'];
@@ -1763,6 +2090,7 @@ export type ModelVariant = Database['public']['Tables']['unit_model_variants']['
 export type ArmyListUnitComposition = Database['public']['Tables']['army_list_unit_composition']['Row'];
 export type LeaderTarget = Database['public']['Tables']['unit_leader_targets']['Row'];
 export type LeaderAttachment = Database['public']['Tables']['army_list_leader_attachments']['Row'];
+export type TransportEmbark = Database['public']['Tables']['army_list_transport_embarks']['Row'];
 export type Mission = Database['public']['Tables']['missions']['Row'];
 export type SecondaryObjective = Database['public']['Tables']['secondary_objectives']['Row'];
 export type Stratagem = Database['public']['Tables']['stratagems']['Row'];
@@ -1776,6 +2104,10 @@ export type WishlistItem = Database['public']['Tables']['wishlist_items']['Row']
 export type PaintRecipe = Database['public']['Tables']['paint_recipes']['Row'];
 export type PaintRecipeStep = Database['public']['Tables']['paint_recipe_steps']['Row'];
 export type UserPaintInventory = Database['public']['Tables']['user_paint_inventory']['Row'];
+export type UnitFilterPreset = Database['public']['Tables']['unit_filter_presets']['Row'];
+export type ArmyListCollaborator = Database['public']['Tables']['army_list_collaborators']['Row'];
+export type ArmyListReviewRequest = Database['public']['Tables']['army_list_review_requests']['Row'];
+export type ArmyListComment = Database['public']['Tables']['army_list_comments']['Row'];
 
 // Phase 4: Crusade & Campaign
 export type Campaign = Database['public']['Tables']['campaigns']['Row'];
@@ -1897,6 +2229,17 @@ export interface DetachmentPlayRate {
   play_count: number;
 }
 
+export interface PointsUpdateImpact {
+  army_list_id: string;
+  list_name: string;
+  points_limit: number;
+  pinned_dataset_id: string | null;
+  from_dataset_id: string;
+  to_dataset_id: string;
+  points_before: number;
+  points_after: number;
+}
+
 export interface ShoppingListItem {
   unit_id: string;
   unit_name: string;
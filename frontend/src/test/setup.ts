@@ -17,6 +17,7 @@ vi.mock('../shared/lib/supabase', () => ({
       delete: vi.fn().mockReturnThis(),
       upsert: vi.fn().mockReturnThis(),
       eq: vi.fn().mockReturnThis(),
+      neq: vi.fn().mockReturnThis(),
       in: vi.fn().mockReturnThis(),
       or: vi.fn().mockReturnThis(),
       order: vi.fn().mockReturnThis(),
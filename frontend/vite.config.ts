@@ -51,7 +51,7 @@ export default defineConfig({
           // Game data (public read, rarely changes) — serve stale, revalidate in background
           {
             urlPattern:
-              /\/rest\/v1\/(factions|detachments|units|unit_points_tiers|weapons|abilities|enhancements|wargear_options|wargear_sub_options|battle_sizes|unit_model_variants|unit_leader_targets)/,
+              /\/rest\/v1\/(factions|detachments|units|unit_points_tiers|weapons|abilities|enhancements|wargear_options|wargear_sub_options|battle_sizes|unit_model_variants|unit_leader_targets|allied_contingent_rules|points_datasets|points_dataset_tiers|points_dataset_enhancements|combat_patrols|combat_patrol_units|combat_patrol_wargear_options)/,
             handler: 'StaleWhileRevalidate',
             options: {
               cacheName: 'game-data',
@@ -61,7 +61,7 @@ export default defineConfig({
           // User data — network first, fall back to cache if offline
           {
             urlPattern:
-              /\/rest\/v1\/(army_lists|army_list_units|army_list_enhancements|army_list_unit_wargear|army_list_unit_composition|army_list_leader_attachments|army_list_versions|game_sessions|game_session_events|casualty_logs|collection_entries|paint_recipes|paint_inventory|crusade_|tournament_|league_|organisation_|user_profiles|friendships|hobby_streaks)/,
+              /\/rest\/v1\/(army_lists|army_list_units|army_list_enhancements|army_list_unit_wargear|army_list_unit_composition|army_list_leader_attachments|army_list_transport_embarks|army_list_versions|game_sessions|game_session_events|casualty_logs|collection_entries|paint_recipes|paint_inventory|crusade_|tournament_|league_|organisation_|user_profiles|friendships|hobby_streaks)/,
             handler: 'NetworkFirst',
             options: {
               cacheName: 'user-data',
@@ -0,0 +1,146 @@
+/**
+ * Generate the pgTAP test for validate_army_list from the shared validation cases.
+ *
+ * The same JSON cases drive the client rules engine test
+ * (frontend/src/features/list-builder/lib/listRules.parity.test.ts), so a rule change
+ * on either side that isn't mirrored on the other fails one of the two suites.
+ *
+ * Usage:
+ *   node scripts/generate-validation-tests.js
+ *   npx supabase test db
+ */
+
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+
+const CASES_FILE = path.join(__dirname, '..', 'supabase', 'tests', 'fixtures', 'validate_army_list.cases.json');
+const OUT_FILE = path.join(__dirname, '..', 'supabase', 'tests', 'database', 'validate_army_list.test.sql');
+
+function uuidFromSeed(seed) {
+  const hash = crypto.createHash('md5').update(seed).digest('hex');
+  return [hash.slice(0,8),hash.slice(8,12),hash.slice(12,16),hash.slice(16,20),hash.slice(20,32)].join('-');
+}
+
+function escSql(s) {
+  return s.replace(/'/g, "''");
+}
+
+const id = (...parts) => uuidFromSeed(['validation-test', ...parts].join(':'));
+
+const { units, enhancements, allied_rules: alliedRules = [], cases } = JSON.parse(fs.readFileSync(CASES_FILE, 'utf8'));
+
+const FACTION_ID = id('faction');
+const DETACHMENT_ID = id('detachment');
+const PATROL_DETACHMENT_ID = id('patrol-detachment');
+const PATROL_ID = id('combat-patrol');
+const USER_ID = id('user');
+
+// Units from another faction are allies of the list faction; `faction` names that faction
+const factionId = (key) => (key ? id('faction', key) : FACTION_ID);
+const alliedFactions = [...new Set(Object.values(units).map(u => u.faction).filter(Boolean))];
+const jsonSql = (value) => `'${escSql(JSON.stringify(value))}'::jsonb`;
+
+const lines = [
+  '-- GENERATED by scripts/generate-validation-tests.js — do not edit by hand.',
+  '-- Source: supabase/tests/fixtures/validate_army_list.cases.json',
+  '',
+  'BEGIN;',
+  'CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;',
+  `SELECT plan(${cases.length});`,
+  '',
+  '-- Fixture game data',
+  `INSERT INTO public.factions (id, name) VALUES ('${FACTION_ID}', 'Validation Test Faction');`,
+  `INSERT INTO public.detachments (id, faction_id, name) VALUES ('${DETACHMENT_ID}', '${FACTION_ID}', 'Validation Test Detachment');`,
+  `INSERT INTO public.detachments (id, faction_id, name, is_combat_patrol) VALUES ('${PATROL_DETACHMENT_ID}', '${FACTION_ID}', 'Validation Test Patrol', true);`,
+  `INSERT INTO public.combat_patrols (id, faction_id, detachment_id, name) VALUES ('${PATROL_ID}', '${FACTION_ID}', '${PATROL_DETACHMENT_ID}', 'Validation Test Patrol');`,
+];
+
+for (const key of alliedFactions) {
+  lines.push(`INSERT INTO public.factions (id, name) VALUES ('${factionId(key)}', 'Validation Test ${escSql(key)}');`);
+}
+
+for (const rule of alliedRules) {
+  lines.push(
+    `INSERT INTO public.allied_contingent_rules ` +
+    `(faction_id, allied_faction_id, rule_name, points_caps, unit_caps, excluded_roles, allow_enhancements) VALUES ` +
+    `('${FACTION_ID}', '${factionId(rule.allied_faction)}', '${escSql(rule.rule_name)}', ` +
+    `${jsonSql(rule.points_caps)}, ${jsonSql(rule.unit_caps)}, ` +
+    `ARRAY[${rule.excluded_roles.map(r => `'${escSql(r)}'`).join(', ')}]::text[], ${rule.allow_enhancements});`,
+  );
+}
+
+for (const [key, unit] of Object.entries(units)) {
+  lines.push(
+    `INSERT INTO public.units (id, faction_id, name, role, max_per_list) VALUES ` +
+    `('${id('unit', key)}', '${factionId(unit.faction)}', '${escSql(unit.name)}', '${unit.role}', ${unit.max_per_list});`,
+  );
+  for (const [modelCount, points] of unit.tiers) {
+    lines.push(
+      `INSERT INTO public.unit_points_tiers (unit_id, model_count, points) VALUES ` +
+      `('${id('unit', key)}', ${modelCount}, ${points});`,
+    );
+  }
+}
+
+for (const [key, enh] of Object.entries(enhancements)) {
+  lines.push(
+    `INSERT INTO public.enhancements (id, detachment_id, name, points, description) VALUES ` +
+    `('${id('enhancement', key)}', '${DETACHMENT_ID}', '${escSql(enh.name)}', ${enh.points}, '');`,
+  );
+}
+
+cases.forEach((testCase, i) => {
+  const listId = id('list', String(i));
+  lines.push('', `-- ${testCase.name}`);
+  const battleSize = testCase.battle_size ? `'${testCase.battle_size}'` : 'NULL';
+  const patrolId = testCase.combat_patrol ? `'${PATROL_ID}'` : 'NULL';
+  lines.push(
+    `INSERT INTO public.army_lists (id, user_id, name, faction_id, detachment_id, points_limit, battle_size, combat_patrol_id) VALUES ` +
+    `('${listId}', '${USER_ID}', '${escSql(testCase.name)}', '${FACTION_ID}', '${DETACHMENT_ID}', ${testCase.points_limit}, ` +
+    `${battleSize}, ${patrolId});`,
+  );
+  testCase.list_units.forEach((lu, sortOrder) => {
+    lines.push(
+      `INSERT INTO public.army_list_units (id, army_list_id, unit_id, model_count, sort_order) VALUES ` +
+      `('${id('list-unit', String(i), lu.key)}', '${listId}', '${id('unit', lu.unit)}', ${lu.model_count}, ${sortOrder});`,
+    );
+  });
+  for (const le of testCase.list_enhancements) {
+    lines.push(
+      `INSERT INTO public.army_list_enhancements (army_list_id, enhancement_id, army_list_unit_id) VALUES ` +
+      `('${listId}', '${id('enhancement', le.enhancement)}', '${id('list-unit', String(i), le.unit)}');`,
+    );
+  }
+
+  // Arrays come back from jsonb_agg in no particular order, so compare them sorted
+  const expected = {
+    ...testCase.expected,
+    unit_limit_violations: [...testCase.expected.unit_limit_violations]
+      .sort((a, b) => a.unit_name.localeCompare(b.unit_name)),
+    enhancement_violations: [...testCase.expected.enhancement_violations].sort(),
+    allied_violations: [...(testCase.expected.allied_violations ?? [])].sort(),
+  };
+  lines.push(
+    'SELECT is(',
+    '  (SELECT jsonb_build_object(',
+    "      'total_points', r->'total_points', 'unit_points', r->'unit_points',",
+    "      'enhancement_points', r->'enhancement_points', 'points_limit', r->'points_limit', 'is_valid', r->'is_valid',",
+    "      'unit_limit_violations', (SELECT coalesce(jsonb_agg(v - 'unit_id' ORDER BY v->>'unit_name'), '[]'::jsonb)",
+    "                                FROM jsonb_array_elements(r->'unit_limit_violations') v),",
+    "      'enhancement_violations', (SELECT coalesce(jsonb_agg(v ORDER BY v #>> '{}'), '[]'::jsonb)",
+    "                                 FROM jsonb_array_elements(r->'enhancement_violations') v),",
+    "      'allied_violations', (SELECT coalesce(jsonb_agg(v ORDER BY v #>> '{}'), '[]'::jsonb)",
+    "                            FROM jsonb_array_elements(r->'allied_violations') v))",
+    `   FROM public.validate_army_list('${listId}') r),`,
+    `  '${escSql(JSON.stringify(expected))}'::jsonb,`,
+    `  '${escSql(testCase.name)}'`,
+    ');',
+  );
+});
+
+lines.push('', 'SELECT * FROM finish();', 'ROLLBACK;', '');
+
+fs.mkdirSync(path.dirname(OUT_FILE), { recursive: true });
+fs.writeFileSync(OUT_FILE, lines.join('\n'));
+console.log(`Wrote ${OUT_FILE} (${cases.length} cases)`);
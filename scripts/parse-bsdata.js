@@ -18,6 +18,15 @@ const activeSource = getActiveSource();
 const DATA_SOURCE_NAME = activeSource.name;
 const DATA_SOURCE_UPDATED_AT = activeSource.getLatestMtime()?.toISOString() ?? new Date().toISOString();
 
+// Points release the sync publishes as a dataset. Lists pinned to an earlier dataset keep its
+// points, so name it after the Munitorum Field Manual it tracks, e.g.
+// POINTS_DATASET_NAME="MFM v3.2" POINTS_EFFECTIVE_DATE=2026-10-24 node scripts/parse-bsdata.js
+const POINTS_EFFECTIVE_DATE = process.env.POINTS_EFFECTIVE_DATE || DATA_SOURCE_UPDATED_AT.slice(0, 10);
+const POINTS_DATASET_NAME = process.env.POINTS_DATASET_NAME || `${DATA_SOURCE_NAME} ${POINTS_EFFECTIVE_DATE}`;
+if (!/^\d{4}-\d{2}-\d{2}$/.test(POINTS_EFFECTIVE_DATE)) {
+  throw new Error(`POINTS_EFFECTIVE_DATE must be YYYY-MM-DD, got "${POINTS_EFFECTIVE_DATE}"`);
+}
+
 // Deterministic UUID from a string seed (so re-runs produce same IDs)
 function uuidFromSeed(seed) {
   const hash = crypto.createHash('md5').update(seed).digest('hex');
@@ -175,18 +184,42 @@ function buildProfileIndex(root) {
   return index;
 }
 
+/**
+ * Build a lookup map of category (keyword) names by ID.
+ * Conditions reference keywords by category ID, e.g.
+ * <condition type="notInstanceOf" scope="ancestor" childId="<categoryId>"/>
+ */
+function buildCategoryIndex(root) {
+  const index = new Map();
+  for (const category of ensureArray(root?.categoryEntries?.categoryEntry)) {
+    if (category['@_id'] && category['@_name']) {
+      index.set(category['@_id'], category['@_name']);
+    }
+  }
+  return index;
+}
+
+// Categories defined by the game system (Character, Infantry, Captain, ...) rather than a catalogue
+const GAME_SYSTEM_CATEGORIES = (() => {
+  const gstFile = fs.readdirSync(DATA_DIR).find(f => f.endsWith('.gst'));
+  if (!gstFile) return new Map();
+  const root = parser.parse(fs.readFileSync(path.join(DATA_DIR, gstFile), 'utf8'));
+  return buildCategoryIndex(root.gameSystem);
+})();
+
 /**
  * Parse imported catalogues referenced via <catalogueLink> and merge their
- * shared entries and profiles into the provided indexes.
+ * shared entries, profiles and categories into the provided indexes.
  * This enables resolving cross-catalogue entryLink and infoLink references
  * (e.g. Space Wolves referencing weapons defined in Space Marines.cat).
  *
  * @param {object} catalog - The parsed catalogue root
  * @param {Map} entryIndex - Entry index to merge into
  * @param {Map} profileIndex - Profile index to merge into
+ * @param {Map} categoryIndex - Category index to merge into
  * @param {Set} [visited] - Track visited catalogue IDs to avoid cycles
  */
-function mergeImportedCatalogues(catalog, entryIndex, profileIndex, visited = new Set()) {
+function mergeImportedCatalogues(catalog, entryIndex, profileIndex, categoryIndex, visited = new Set()) {
   const catId = catalog['@_id'];
   if (catId) visited.add(catId);
 
@@ -218,8 +251,13 @@ function mergeImportedCatalogues(catalog, entryIndex, profileIndex, visited = ne
         if (!profileIndex.has(id)) profileIndex.set(id, profile);
       }
 
+      // Merge categories so keyword conditions can name keywords defined by the import
+      for (const [id, name] of buildCategoryIndex(importedCat)) {
+        if (!categoryIndex.has(id)) categoryIndex.set(id, name);
+      }
+
       // Recursively import any catalogues that the imported catalogue depends on
-      mergeImportedCatalogues(importedCat, entryIndex, profileIndex, visited);
+      mergeImportedCatalogues(importedCat, entryIndex, profileIndex, categoryIndex, visited);
     } catch (e) {
       console.log(`  (warning: could not import catalogue ${catFile}: ${e.message})`);
     }
@@ -422,6 +460,9 @@ function extractAbilities(node, profileIndex, entryIndex, depth = 0) {
       const nameLower = name.toLowerCase();
       if (['oath of moment', 'templar vows'].some(f => nameLower.includes(f.toLowerCase()))) {
         addAbility({ name, type: 'faction', description: '' });
+      } else if (classifyAbility(name) === 'core') {
+        // Needed for "model with the Deep Strike ability only" enhancement restrictions
+        addAbility({ name, type: 'core', description: '' });
       }
     }
   }
@@ -1137,10 +1178,168 @@ function extractLeaderTargets(unit, allUnitNames) {
   return targets;
 }
 
+// Condition scopes that look at the bearer (the model, its unit or the entry the enhancement sits on)
+const BEARER_SCOPES = new Set(['self', 'parent', 'ancestor', 'model', 'unit', 'root-entry']);
+
+// Caps the DNF expansion below; anything bigger is left to the description parser
+const MAX_RESTRICTION_TERMS = 64;
+
+/**
+ * Turn one BSData condition into a keyword literal about the bearer.
+ * Returns { keyword, has } for keyword checks, true/false for conditions that are
+ * always/never met for a legal bearer, and false for anything that isn't about the bearer
+ * (detachment selected, already taken elsewhere, Crusade-only) — in matched play those
+ * never hide the enhancement from a unit that could otherwise take it.
+ */
+function conditionLiteral(cond, entryIndex, categoryIndex) {
+  if (!BEARER_SCOPES.has(cond['@_scope']) || cond['@_field'] !== 'selections') return false;
+
+  const childId = cond['@_childId'];
+  let keyword = categoryIndex.get(childId) || null;
+  if (!keyword) {
+    // Some catalogues name the datasheets themselves rather than a keyword
+    const target = entryIndex.get(childId);
+    if (target && (target['@_type'] === 'unit' || target['@_type'] === 'model')) {
+      keyword = target['@_name'].replace(/\s*\[Legends\]\s*/i, '').trim();
+    }
+  }
+  if (!keyword) return false;
+
+  let has;
+  const type = cond['@_type'];
+  const value = parseInt(cond['@_value'] ?? '1');
+  if (type === 'instanceOf' || (type === 'atLeast' && value === 1)) has = true;
+  else if (type === 'notInstanceOf' || (type === 'lessThan' && value === 1)) has = false;
+  else return false;
+
+  // Every unit that can take one of the faction's enhancements has its faction keyword
+  if (keyword.startsWith('Faction:')) return has;
+  return { keyword, has };
+}
+
+/** Build the condition tree of a modifier/conditionGroup node; op defaults to "and". */
+function conditionTree(node, entryIndex, categoryIndex) {
+  return {
+    op: node['@_type'] === 'or' ? 'or' : 'and',
+    items: [
+      ...ensureArray(node?.conditions?.condition).map(c => conditionLiteral(c, entryIndex, categoryIndex)),
+      ...ensureArray(node?.conditionGroups?.conditionGroup).map(g => conditionTree(g, entryIndex, categoryIndex)),
+    ],
+  };
+}
+
+/**
+ * Disjunctive normal form of a condition tree: an array of conjuncts, each a Map of
+ * keyword -> has. [] is never true, [new Map()] is always true. Returns null when the
+ * expansion grows past MAX_RESTRICTION_TERMS.
+ */
+function toDnf(tree) {
+  if (tree === true) return [new Map()];
+  if (tree === false) return [];
+  if (!tree.op) return [new Map([[tree.keyword, tree.has]])];
+
+  const parts = tree.items.map(toDnf);
+  if (parts.includes(null)) return null;
+
+  if (tree.op === 'or') {
+    const terms = parts.flat();
+    return terms.length > MAX_RESTRICTION_TERMS ? null : terms;
+  }
+
+  let terms = [new Map()];
+  for (const part of parts) {
+    const next = [];
+    for (const a of terms) {
+      for (const b of part) {
+        // Drop contradictions (has X and lacks X)
+        if ([...b].some(([k, has]) => a.has(k) && a.get(k) !== has)) continue;
+        next.push(new Map([...a, ...b]));
+      }
+    }
+    if (next.length > MAX_RESTRICTION_TERMS) return null;
+    terms = next;
+  }
+  return terms;
+}
+
+/** Drop keyword groups that contain another group (they add nothing to an OR). */
+function minimalGroups(groups) {
+  const unique = [...new Map(groups.map(g => [[...g].sort().join('|'), [...new Set(g)]])).values()];
+  return unique.filter(g => !unique.some(o => o !== g && o.length < g.length && o.every(k => g.includes(k))));
+}
+
+/**
+ * Read an enhancement's bearer restriction from the modifiers that hide it.
+ *
+ * BSData hides an enhancement from units that can't take it, e.g.
+ *   <modifier type="set" field="hidden" value="true">
+ *     <conditionGroup type="or">
+ *       <condition type="notInstanceOf" scope="ancestor" childId="<Captain category>"/> ...
+ * so the enhancement is available exactly when none of those hide conditions hold.
+ * The hide condition, in DNF, splits into:
+ *   - conjuncts of only "lacks" literals → the bearer needs one of those keywords
+ *   - conjuncts of only "has" literals   → the bearer is excluded if it has all of them
+ * "With the X ability" requirements aren't modelled as conditions, so they come from
+ * the description.
+ *
+ * Returns null when there is nothing structured to say, leaving the front end to parse
+ * the description as before.
+ */
+function extractEnhancementRestriction(enhEntry, description, entryIndex, categoryIndex) {
+  const hideConditions = [];
+  for (const mod of ensureArray(enhEntry?.modifiers?.modifier)) {
+    if (mod['@_type'] === 'set' && mod['@_field'] === 'hidden' && mod['@_value'] === 'true') {
+      hideConditions.push(conditionTree(mod, entryIndex, categoryIndex));
+    }
+  }
+  for (const group of ensureArray(enhEntry?.modifierGroups?.modifierGroup)) {
+    for (const mod of ensureArray(group?.modifiers?.modifier)) {
+      if (mod['@_type'] === 'set' && mod['@_field'] === 'hidden' && mod['@_value'] === 'true') {
+        hideConditions.push({ op: 'and', items: [conditionTree(group, entryIndex, categoryIndex), conditionTree(mod, entryIndex, categoryIndex)] });
+      }
+    }
+  }
+
+  const requiredAbilities = [];
+  const abilityMatch = description.replace(/\*\*|\^\^/g, '').match(/\bmodel with the (.+?) ability only\b/i);
+  if (abilityMatch) requiredAbilities.push(abilityMatch[1].trim());
+
+  const hidden = toDnf({ op: 'or', items: hideConditions });
+  if (hidden === null) return null;
+
+  const clauses = [];
+  const excludedKeywords = [];
+  for (const conjunct of hidden) {
+    const literals = [...conjunct];
+    if (literals.length === 0) return null; // hidden outright — nothing to model
+    if (literals.every(([, has]) => !has)) clauses.push(literals.map(([k]) => k));
+    else if (literals.every(([, has]) => has)) excludedKeywords.push(literals.map(([k]) => k));
+    // Mixed "lacks X but has Y" conjuncts are rare enough to leave to the description parser
+    else return null;
+  }
+
+  // AND of OR-clauses → OR of AND-groups, the shape the front end evaluates
+  let requiredKeywords = [[]];
+  for (const clause of clauses) {
+    requiredKeywords = minimalGroups(requiredKeywords.flatMap(group => clause.map(k => [...group, k])));
+    if (requiredKeywords.length > MAX_RESTRICTION_TERMS) return null;
+  }
+  if (clauses.length === 0) requiredKeywords = [];
+
+  if (requiredKeywords.length === 0 && excludedKeywords.length === 0 && requiredAbilities.length === 0) {
+    return null;
+  }
+  return {
+    requiredKeywords,
+    excludedKeywords: minimalGroups(excludedKeywords),
+    requiredAbilities,
+  };
+}
+
 /**
  * Extract detachments and their enhancements from the catalog.
  */
-function extractDetachments(root, entryIndex) {
+function extractDetachments(root, entryIndex, categoryIndex) {
   const detachments = [];
 
   // Find the Detachment selection entry group (the one containing individual detachment choices)
@@ -1335,6 +1534,7 @@ function extractDetachments(root, entryIndex) {
           name: enhEntry['@_name'],
           points: enhPoints,
           description: enhDesc,
+          restriction: extractEnhancementRestriction(enhEntry, enhDesc, entryIndex, categoryIndex),
         });
       }
     }
@@ -1403,6 +1603,7 @@ function extractDetachments(root, entryIndex) {
       name: node['@_name'],
       points: enhPoints,
       description: enhDesc,
+      restriction: extractEnhancementRestriction(node, enhDesc, entryIndex, categoryIndex),
     });
   }
 
@@ -1445,6 +1646,7 @@ function extractDetachments(root, entryIndex) {
             name: enhEntry['@_name'],
             points: enhPoints,
             description: enhDesc,
+            restriction: extractEnhancementRestriction(enhEntry, enhDesc, entryIndex, categoryIndex),
           });
         }
       }
@@ -1510,9 +1712,12 @@ function parseCatalog(filePath) {
   // Build profile index for resolving infoLink type="profile" references
   const profileIndex = buildProfileIndex(catalog);
 
-  // Import shared entries and profiles from linked catalogues
+  // Build category index for resolving keyword conditions on enhancements
+  const categoryIndex = new Map([...GAME_SYSTEM_CATEGORIES, ...buildCategoryIndex(catalog)]);
+
+  // Import shared entries, profiles and categories from linked catalogues
   // (e.g. Space Wolves imports weapons from Space Marines.cat)
-  mergeImportedCatalogues(catalog, entryIndex, profileIndex);
+  mergeImportedCatalogues(catalog, entryIndex, profileIndex, categoryIndex);
 
   // Extract faction name (clean up the prefix)
   let factionName = catName
@@ -1527,7 +1732,7 @@ function parseCatalog(filePath) {
   const factionId = uuidFromSeed(`faction:${factionName}`);
 
   // Extract detachments
-  const detachments = extractDetachments(catalog, entryIndex);
+  const detachments = extractDetachments(catalog, entryIndex, categoryIndex);
 
   // Find all unit entries
   const units = [];
@@ -1681,6 +1886,17 @@ function parseCatalog(filePath) {
   };
 }
 
+/**
+ * INSERT for an enhancement's structured bearer restriction (see extractEnhancementRestriction).
+ */
+function restrictionInsertSQL(enhId, restriction) {
+  const abilities = `'{${restriction.requiredAbilities.map(a => `"${a.replace(/"/g, '\\"').replace(/'/g, "''")}"`).join(', ')}}'`;
+  return [
+    `INSERT INTO public.enhancement_restrictions (enhancement_id, required_keywords, excluded_keywords, required_abilities) VALUES`,
+    `  (${esc(enhId)}, ${esc(JSON.stringify(restriction.requiredKeywords))}::jsonb, ${esc(JSON.stringify(restriction.excludedKeywords))}::jsonb, ${abilities})`,
+  ];
+}
+
 /**
  * Generate upsert-safe sync SQL for a faction (production-safe, no truncates).
  * Preserves all user data — uses ON CONFLICT DO UPDATE for stable IDs,
@@ -1713,6 +1929,13 @@ function generateSyncSQL(faction) {
       lines.push(`INSERT INTO public.enhancements (id, detachment_id, name, points, description) VALUES`);
       lines.push(`  (${esc(enhId)}, ${esc(detId)}, ${esc(enh.name)}, ${enh.points}, ${esc(enh.description)})`);
       lines.push(`ON CONFLICT (id) DO UPDATE SET detachment_id = EXCLUDED.detachment_id, name = EXCLUDED.name, points = EXCLUDED.points, description = EXCLUDED.description;`);
+
+      // Bearer restriction: delete then reinsert, so a restriction BSData drops goes too
+      lines.push(`DELETE FROM public.enhancement_restrictions WHERE enhancement_id = ${esc(enhId)};`);
+      if (enh.restriction) {
+        const [insert, values] = restrictionInsertSQL(enhId, enh.restriction);
+        lines.push(insert, `${values};`);
+      }
       lines.push('');
     }
   }
@@ -1848,6 +2071,10 @@ function generateSQL(faction) {
         const enhId = uuidFromSeed(`enhancement:${factionName}:${det.name}:${enh.name}`);
         lines.push(`INSERT INTO public.enhancements (id, detachment_id, name, points, description) VALUES`);
         lines.push(`  (${esc(enhId)}, ${esc(detId)}, ${esc(enh.name)}, ${enh.points}, ${esc(enh.description)});`);
+        if (enh.restriction) {
+          const [insert, values] = restrictionInsertSQL(enhId, enh.restriction);
+          lines.push(insert, `${values};`);
+        }
       }
       if (det.enhancements.length > 0) lines.push('');
     }
@@ -2270,6 +2497,14 @@ CREATE TABLE IF NOT EXISTS public.army_list_leader_attachments (
 CREATE INDEX IF NOT EXISTS idx_army_list_leader_attachments_list ON public.army_list_leader_attachments(army_list_id);
 CREATE INDEX IF NOT EXISTS idx_army_list_leader_attachments_target ON public.army_list_leader_attachments(target_army_list_unit_id);
 
+-- Ensure enhancement restrictions table exists (structured "X model only" rules)
+CREATE TABLE IF NOT EXISTS public.enhancement_restrictions (
+  enhancement_id uuid PRIMARY KEY REFERENCES public.enhancements(id) ON DELETE CASCADE,
+  required_keywords jsonb NOT NULL DEFAULT '[]',
+  excluded_keywords jsonb NOT NULL DEFAULT '[]',
+  required_abilities text[] NOT NULL DEFAULT '{}'
+);
+
 -- Extend wargear_options with model_variant_id, pool_group, pool_max, is_required
 ALTER TABLE public.wargear_options ADD COLUMN IF NOT EXISTS model_variant_id uuid REFERENCES public.unit_model_variants(id) ON DELETE SET NULL;
 ALTER TABLE public.wargear_options ADD COLUMN IF NOT EXISTS pool_group text;
@@ -2318,5 +2553,9 @@ const syncHeader = `-- =========================================================
 -- ============================================================
 
 `;
-fs.writeFileSync(syncFile, syncHeader + allSyncSQL.join('\n\n'));
-console.log(`Wrote bsdata-sync.sql (production-safe upsert)`);
+// Snapshot the synced points as a dataset so lists pinned to an earlier release keep theirs
+const publishSQL = `-- Points dataset
+SELECT public.publish_points_dataset(${esc(POINTS_DATASET_NAME)}, ${esc(POINTS_EFFECTIVE_DATE)}, ${esc(DATA_SOURCE_NAME)});
+`;
+fs.writeFileSync(syncFile, syncHeader + allSyncSQL.join('\n\n') + '\n\n' + publishSQL);
+console.log(`Wrote bsdata-sync.sql (production-safe upsert, points dataset "${POINTS_DATASET_NAME}" effective ${POINTS_EFFECTIVE_DATE})`);
@@ -57,6 +57,22 @@ async function query(table, params = '') {
   return all;
 }
 
+// Core weapon abilities that parseWeaponKeyword (frontend/src/shared/lib/weaponKeywords.ts)
+// turns into modifiers. Keep the two in step; anything else is reported below.
+const WEAPON_AMOUNT = '(\\d*D\\d+(\\+\\d+)?|\\d+)';
+const KNOWN_WEAPON_KEYWORDS = [
+  /^anti[\s-]+.+?\s+[2-6]\+?$/i,
+  new RegExp(`^sustained hits(\\s+${WEAPON_AMOUNT})?$`, 'i'),
+  new RegExp(`^melta\\s+${WEAPON_AMOUNT}$`, 'i'),
+  new RegExp(`^rapid fire\\s+${WEAPON_AMOUNT}$`, 'i'),
+  /^(assault|blast|conversion|devastating wounds|extra attacks|hazardous|heavy|ignores cover|indirect fire|lance|lethal hits|one shot|pistol|precision|psychic|torrent|twin linked)$/i,
+];
+
+function isKnownWeaponKeyword(raw) {
+  const text = raw.trim().replace(/\s+/g, ' ');
+  return KNOWN_WEAPON_KEYWORDS.some(pattern => pattern.test(text) || pattern.test(text.replace(/-/g, ' ')));
+}
+
 async function main() {
   console.log('=== WarForge Data Validation ===\n');
 
@@ -223,7 +239,30 @@ async function main() {
     warnings += noAbilities.length;
   }
 
-  // 6. Check points tiers exist for all units
+  // 6. Check weapon keywords are ones the client understands
+  console.log('\n--- Weapon Keywords ---');
+  const dbWeaponKeywords = await query('weapons', 'select=name,keywords&order=name');
+  const unknownKeywords = new Map();
+  for (const w of dbWeaponKeywords) {
+    for (const kw of w.keywords || []) {
+      if (isKnownWeaponKeyword(kw)) continue;
+      const entry = unknownKeywords.get(kw) || { count: 0, example: w.name };
+      entry.count++;
+      unknownKeywords.set(kw, entry);
+    }
+  }
+
+  if (unknownKeywords.size > 0) {
+    console.log(`  WARN: ${unknownKeywords.size} weapon keywords are not parsed into modifiers (datasheet-only rules or parser gaps):`);
+    for (const [kw, { count, example }] of [...unknownKeywords].sort((a, b) => b[1].count - a[1].count)) {
+      console.log(`    "${kw}" on ${count} weapon${count === 1 ? '' : 's'} (e.g. ${example})`);
+    }
+    warnings += unknownKeywords.size;
+  } else {
+    console.log('  All weapon keywords recognised');
+  }
+
+  // 7. Check points tiers exist for all units
   console.log('\n--- Points Tiers ---');
   const dbTiers = await query('unit_points_tiers', 'select=unit_id&order=unit_id');
   const unitsWithPoints = new Set(dbTiers.map(t => t.unit_id));
@@ -239,7 +278,7 @@ async function main() {
     errors += noPoints.length;
   }
 
-  // 7. Summary
+  // 8. Summary
   console.log('\n=== Summary ===');
   console.log(`Factions: ${dbFactions.length}`);
   console.log(`Units: ${dbUnits.length}`);
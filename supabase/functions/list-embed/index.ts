@@ -0,0 +1,197 @@
+/**
+ * Edge Function: list-embed
+ *
+ * Link previews for shared lists. Two responses, both public, read-only JSON:
+ *
+ *   GET ?url=<share or embed URL>[&maxwidth=&maxheight=&theme=&mode=]
+ *     oEmbed JSON (type "rich") whose html is an iframe of /embed/list/:shareCode.
+ *   GET ?code=<shareCode>
+ *     The list's summary. The site's /api/list-preview renders it as the Open Graph page
+ *     unfurlers get for /shared/:shareCode, since hosted Edge Functions don't serve HTML.
+ *
+ * The preview names the faction, detachment, points and unit count, costed under the list's
+ * pinned points release if it has one. Lists are read with the anon key, so only lists with
+ * a share code (public under RLS) resolve.
+ *
+ * Env:
+ *   SITE_URL — public site origin, defaults to https://warforge.website
+ */
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
+const SUPABASE_ANON_KEY = Deno.env.get("SUPABASE_ANON_KEY")!;
+const SITE_URL = (Deno.env.get("SITE_URL") ?? "https://warforge.website").replace(/\/$/, "");
+
+// oEmbed consumers fetch from anywhere, and everything served here is public
+const CORS_HEADERS: Record<string, string> = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, OPTIONS",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const DEFAULT_WIDTH = 480;
+const DEFAULT_HEIGHT = 600;
+const SHARE_CODE = /^[A-Za-z0-9]{4,32}$/;
+const THEME_PARAM = /^[a-z-]{1,40}$/;
+
+interface ListSummary {
+  shareCode: string;
+  name: string;
+  faction: string;
+  detachment: string;
+  points: number;
+  pointsLimit: number;
+  unitCount: number;
+}
+
+function jsonResponse(body: Record<string, unknown>, status: number): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...CORS_HEADERS, "Content-Type": "application/json" },
+  });
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/** The share code in a /shared/:code or /embed/list/:code URL on our site. */
+function shareCodeFromUrl(raw: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(raw);
+  } catch {
+    return null;
+  }
+  if (url.origin !== SITE_URL) return null;
+  const match = url.pathname.match(/^\/(?:shared|embed\/list)\/([^/]+)\/?$/);
+  return match && SHARE_CODE.test(match[1]) ? match[1] : null;
+}
+
+async function loadSummary(shareCode: string): Promise<ListSummary | null> {
+  const supabase = createClient(SUPABASE_URL, SUPABASE_ANON_KEY, {
+    auth: { autoRefreshToken: false, persistSession: false },
+  });
+
+  const { data, error } = await supabase
+    .from("army_lists")
+    .select("id, name, points_limit, points_dataset_id, factions(name), detachments(name), army_list_units(id)")
+    .eq("share_code", shareCode)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Failed to load shared list:", error.message);
+    return null;
+  }
+  if (!data) return null;
+
+  const list = data as unknown as {
+    id: string;
+    name: string;
+    points_limit: number;
+    points_dataset_id: string | null;
+    factions: { name: string } | null;
+    detachments: { name: string } | null;
+    army_list_units: { id: string }[];
+  };
+
+  // Same costing as the editor and validate_army_list, pinned release included
+  const { data: pointsData, error: pointsError } = await supabase
+    .rpc("list_points_in_dataset", { p_list_id: list.id, p_dataset_id: list.points_dataset_id })
+    .single();
+  if (pointsError || !pointsData) {
+    console.error("Failed to cost shared list:", pointsError?.message);
+    return null;
+  }
+  const { unit_points, enhancement_points } = pointsData as { unit_points: number; enhancement_points: number };
+  const points = unit_points + enhancement_points;
+
+  return {
+    shareCode,
+    name: list.name,
+    faction: list.factions?.name ?? "Unknown faction",
+    detachment: list.detachments?.name ?? "No detachment",
+    points,
+    pointsLimit: list.points_limit,
+    unitCount: list.army_list_units.length,
+  };
+}
+
+function describe(summary: ListSummary): string {
+  const units = `${summary.unitCount} ${summary.unitCount === 1 ? "unit" : "units"}`;
+  return `${summary.faction} · ${summary.detachment} · ${summary.points}/${summary.pointsLimit} pts · ${units}`;
+}
+
+function embedUrl(shareCode: string, theme: string | null, mode: string | null): string {
+  const url = new URL(`${SITE_URL}/embed/list/${shareCode}`);
+  if (theme && THEME_PARAM.test(theme)) url.searchParams.set("theme", theme);
+  if (mode === "light" || mode === "dark") url.searchParams.set("mode", mode);
+  return url.toString();
+}
+
+function oEmbedResponse(summary: ListSummary, params: URLSearchParams): Response {
+  const clamp = (value: string | null, fallback: number) => {
+    const n = Number(value);
+    return Number.isInteger(n) && n > 0 ? Math.min(n, fallback) : fallback;
+  };
+  const width = clamp(params.get("maxwidth"), DEFAULT_WIDTH);
+  const height = clamp(params.get("maxheight"), DEFAULT_HEIGHT);
+  const src = embedUrl(summary.shareCode, params.get("theme"), params.get("mode"));
+
+  return jsonResponse({
+    version: "1.0",
+    type: "rich",
+    provider_name: "WarForge",
+    provider_url: SITE_URL,
+    title: `${summary.name} — ${describe(summary)}`,
+    width,
+    height,
+    html:
+      `<iframe src="${escapeHtml(src)}" width="${width}" height="${height}" ` +
+      `style="border:0;border-radius:8px" loading="lazy" title="${escapeHtml(summary.name)}"></iframe>`,
+  }, 200);
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { status: 204, headers: CORS_HEADERS });
+  }
+
+  if (req.method !== "GET") {
+    return jsonResponse({ error: "Method not allowed" }, 405);
+  }
+
+  const requestUrl = new URL(req.url);
+  const params = requestUrl.searchParams;
+
+  // --- oEmbed ---
+  const target = params.get("url");
+  if (target !== null) {
+    const format = params.get("format") ?? "json";
+    if (format !== "json") {
+      return jsonResponse({ error: "Only the json format is supported" }, 501);
+    }
+    const shareCode = shareCodeFromUrl(target);
+    if (!shareCode) {
+      return jsonResponse({ error: "Not a WarForge shared list URL" }, 404);
+    }
+    const summary = await loadSummary(shareCode);
+    if (!summary) return jsonResponse({ error: "List not found" }, 404);
+    return oEmbedResponse(summary, params);
+  }
+
+  // --- Summary, for the site's Open Graph page ---
+  const code = params.get("code");
+  if (!code || !SHARE_CODE.test(code)) {
+    return jsonResponse({ error: "Missing 'url' or 'code' query parameter" }, 400);
+  }
+  const summary = await loadSummary(code);
+  if (!summary) return jsonResponse({ error: "List not found" }, 404);
+  return jsonResponse({ ...summary, description: describe(summary) }, 200);
+});
@@ -0,0 +1,71 @@
+-- Bump army_lists.updated_at whenever a list's child rows change.
+--
+-- The list editor queues edits made offline and replays them on reconnect.
+-- Before replaying it compares the list's updated_at with the value it last
+-- saw; until now only edits to the army_lists row itself moved that timestamp,
+-- so a unit added from another device went unnoticed and queued edits were
+-- replayed straight over it.
+
+BEGIN;
+
+CREATE OR REPLACE FUNCTION public.touch_army_list()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  row_data jsonb;
+  target_list_id uuid;
+BEGIN
+  -- Rows removed by an ON DELETE CASCADE are covered by the parent row's own trigger
+  IF pg_trigger_depth() > 1 THEN
+    RETURN NULL;
+  END IF;
+
+  row_data := CASE WHEN TG_OP = 'DELETE' THEN to_jsonb(OLD) ELSE to_jsonb(NEW) END;
+
+  IF row_data ? 'army_list_id' THEN
+    target_list_id := (row_data->>'army_list_id')::uuid;
+  ELSIF row_data ? 'army_list_unit_id' THEN
+    SELECT army_list_id INTO target_list_id
+    FROM public.army_list_units
+    WHERE id = (row_data->>'army_list_unit_id')::uuid;
+  ELSIF row_data ? 'army_list_unit_wargear_id' THEN
+    SELECT alu.army_list_id INTO target_list_id
+    FROM public.army_list_unit_wargear w
+    JOIN public.army_list_units alu ON alu.id = w.army_list_unit_id
+    WHERE w.id = (row_data->>'army_list_unit_wargear_id')::uuid;
+  END IF;
+
+  IF target_list_id IS NOT NULL THEN
+    UPDATE public.army_lists SET updated_at = now() WHERE id = target_list_id;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER army_list_units_touch_list
+  AFTER INSERT OR UPDATE OR DELETE ON public.army_list_units
+  FOR EACH ROW EXECUTE FUNCTION public.touch_army_list();
+
+CREATE TRIGGER army_list_enhancements_touch_list
+  AFTER INSERT OR UPDATE OR DELETE ON public.army_list_enhancements
+  FOR EACH ROW EXECUTE FUNCTION public.touch_army_list();
+
+CREATE TRIGGER army_list_unit_wargear_touch_list
+  AFTER INSERT OR UPDATE OR DELETE ON public.army_list_unit_wargear
+  FOR EACH ROW EXECUTE FUNCTION public.touch_army_list();
+
+CREATE TRIGGER army_list_unit_wargear_sub_touch_list
+  AFTER INSERT OR UPDATE OR DELETE ON public.army_list_unit_wargear_sub
+  FOR EACH ROW EXECUTE FUNCTION public.touch_army_list();
+
+CREATE TRIGGER army_list_unit_composition_touch_list
+  AFTER INSERT OR UPDATE OR DELETE ON public.army_list_unit_composition
+  FOR EACH ROW EXECUTE FUNCTION public.touch_army_list();
+
+CREATE TRIGGER army_list_leader_attachments_touch_list
+  AFTER INSERT OR UPDATE OR DELETE ON public.army_list_leader_attachments
+  FOR EACH ROW EXECUTE FUNCTION public.touch_army_list();
+
+COMMIT;
@@ -0,0 +1,105 @@
+-- Transport embark plans: which list units start the battle inside which transport.
+--
+-- 1. units.transport_bulky_keywords — models with one of these keywords take up more than
+--    one slot in the transport, e.g. {"Gravis": 2} for an Impulsor.
+-- 2. army_list_transport_embarks — one row per embarked unit, owner-only like leader
+--    attachments and publicly readable for shared lists.
+
+BEGIN;
+
+-- =============================================
+-- 1. Per-model transport costs
+-- =============================================
+ALTER TABLE public.units
+  ADD COLUMN IF NOT EXISTS transport_bulky_keywords jsonb DEFAULT NULL;
+
+-- Impulsor: each Gravis model takes up the space of 2 models
+UPDATE public.units SET
+  transport_keywords_excluded = '{"Jump Pack", "Centurion", "Terminator"}',
+  transport_bulky_keywords = '{"Gravis": 2}'
+WHERE id IN ('06f1d0f1-22bb-4cf2-2496-8c4b36ebefec', '27f9a26a-995c-2ffb-f4b0-e9f776f3a40e');
+
+-- Trukk: each Mega Armour or Jump Pack model takes up the space of 2 models
+UPDATE public.units SET
+  transport_keywords_excluded = '{"Ghazghkull Thraka"}',
+  transport_bulky_keywords = '{"Mega Armour": 2, "Jump Pack": 2}'
+WHERE id = '86102f68-d12c-f389-4172-8e79e6b0c25c';
+
+-- =============================================
+-- 2. Embark plan rows
+-- =============================================
+CREATE TABLE IF NOT EXISTS public.army_list_transport_embarks (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  army_list_id uuid NOT NULL REFERENCES public.army_lists(id) ON DELETE CASCADE,
+  transport_army_list_unit_id uuid NOT NULL REFERENCES public.army_list_units(id) ON DELETE CASCADE,
+  passenger_army_list_unit_id uuid NOT NULL REFERENCES public.army_list_units(id) ON DELETE CASCADE,
+  UNIQUE(passenger_army_list_unit_id),
+  CHECK (transport_army_list_unit_id <> passenger_army_list_unit_id)
+);
+CREATE INDEX IF NOT EXISTS idx_army_list_transport_embarks_list ON public.army_list_transport_embarks(army_list_id);
+CREATE INDEX IF NOT EXISTS idx_army_list_transport_embarks_transport ON public.army_list_transport_embarks(transport_army_list_unit_id);
+
+ALTER TABLE public.army_list_transport_embarks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owner select transport embarks"
+  ON public.army_list_transport_embarks FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.army_lists
+      WHERE army_lists.id = army_list_transport_embarks.army_list_id
+      AND army_lists.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Owner insert transport embarks"
+  ON public.army_list_transport_embarks FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.army_lists
+      WHERE army_lists.id = army_list_transport_embarks.army_list_id
+      AND army_lists.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Owner update transport embarks"
+  ON public.army_list_transport_embarks FOR UPDATE
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.army_lists
+      WHERE army_lists.id = army_list_transport_embarks.army_list_id
+      AND army_lists.user_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.army_lists
+      WHERE army_lists.id = army_list_transport_embarks.army_list_id
+      AND army_lists.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Owner delete transport embarks"
+  ON public.army_list_transport_embarks FOR DELETE
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.army_lists
+      WHERE army_lists.id = army_list_transport_embarks.army_list_id
+      AND army_lists.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Public read shared transport embarks"
+  ON public.army_list_transport_embarks FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.army_lists
+      WHERE army_lists.id = army_list_transport_embarks.army_list_id
+      AND army_lists.share_code IS NOT NULL
+    )
+  );
+
+CREATE TRIGGER army_list_transport_embarks_touch_list
+  AFTER INSERT OR UPDATE OR DELETE ON public.army_list_transport_embarks
+  FOR EACH ROW EXECUTE FUNCTION public.touch_army_list();
+
+COMMIT;
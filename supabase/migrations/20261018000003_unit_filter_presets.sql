@@ -0,0 +1,22 @@
+-- Saved unit search presets: named queries in the unit picker / Units page search syntax,
+-- e.g. "Cheap characters" = role:character pts<100. Private to their owner.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.unit_filter_presets (
+  id         uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id    uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name       text NOT NULL CHECK (char_length(name) BETWEEN 1 AND 60),
+  query      text NOT NULL CHECK (char_length(query) <= 500),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (user_id, name)
+);
+CREATE INDEX IF NOT EXISTS idx_unit_filter_presets_user ON public.unit_filter_presets(user_id);
+
+ALTER TABLE public.unit_filter_presets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "unit_filter_presets_owner" ON public.unit_filter_presets
+  FOR ALL USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+COMMIT;
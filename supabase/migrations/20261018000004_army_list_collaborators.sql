@@ -0,0 +1,182 @@
+-- Shared list editing: the owner can add teammates to a list as editors (full edit access to
+-- the list and its units) or viewers (read-only). Ownership itself stays on army_lists.user_id;
+-- only the owner manages collaborators, deletes the list or changes its share code.
+--
+-- Live editing runs over a Realtime broadcast/presence channel per list (list:<id>), so no
+-- tables are added to the supabase_realtime publication here.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.army_list_collaborators (
+  id           uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  army_list_id uuid NOT NULL REFERENCES public.army_lists(id) ON DELETE CASCADE,
+  user_id      uuid NOT NULL REFERENCES public.user_profiles(id) ON DELETE CASCADE,
+  role         text NOT NULL DEFAULT 'editor' CHECK (role IN ('editor', 'viewer')),
+  created_at   timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (army_list_id, user_id)
+);
+CREATE INDEX IF NOT EXISTS idx_army_list_collaborators_user ON public.army_list_collaborators(user_id);
+
+ALTER TABLE public.army_list_collaborators ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================
+-- Access helpers (SECURITY DEFINER so policies on army_lists and
+-- army_list_collaborators can call them without recursing)
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.can_view_army_list(p_list_id uuid)
+RETURNS boolean
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM army_lists WHERE id = p_list_id AND user_id = auth.uid())
+      OR EXISTS (SELECT 1 FROM army_list_collaborators WHERE army_list_id = p_list_id AND user_id = auth.uid());
+$$;
+
+CREATE OR REPLACE FUNCTION public.can_edit_army_list(p_list_id uuid)
+RETURNS boolean
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM army_lists WHERE id = p_list_id AND user_id = auth.uid())
+      OR EXISTS (
+        SELECT 1 FROM army_list_collaborators
+        WHERE army_list_id = p_list_id AND user_id = auth.uid() AND role = 'editor'
+      );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.can_view_army_list(uuid) FROM anon;
+REVOKE EXECUTE ON FUNCTION public.can_edit_army_list(uuid) FROM anon;
+GRANT EXECUTE ON FUNCTION public.can_view_army_list(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.can_edit_army_list(uuid) TO authenticated;
+
+-- ============================================================
+-- army_list_collaborators: owner manages, collaborators see who else is on the list
+-- ============================================================
+
+CREATE POLICY "Owner manage collaborators" ON public.army_list_collaborators
+  FOR ALL USING (
+    EXISTS (SELECT 1 FROM public.army_lists WHERE id = army_list_collaborators.army_list_id AND user_id = auth.uid())
+  )
+  WITH CHECK (
+    EXISTS (SELECT 1 FROM public.army_lists WHERE id = army_list_collaborators.army_list_id AND user_id = auth.uid())
+  );
+
+CREATE POLICY "Collaborators select collaborators" ON public.army_list_collaborators
+  FOR SELECT USING (public.can_view_army_list(army_list_id));
+
+-- A collaborator can leave a list
+CREATE POLICY "Collaborator delete own membership" ON public.army_list_collaborators
+  FOR DELETE USING (user_id = auth.uid());
+
+-- ============================================================
+-- army_lists: collaborators read, editors update
+-- ============================================================
+
+CREATE POLICY "Collaborator select lists" ON public.army_lists
+  FOR SELECT USING (public.can_view_army_list(id));
+
+CREATE POLICY "Editor update lists" ON public.army_lists
+  FOR UPDATE USING (public.can_edit_army_list(id))
+  WITH CHECK (public.can_edit_army_list(id));
+
+-- Editors update list settings but can't take the list over or change how it is shared
+CREATE OR REPLACE FUNCTION public.guard_army_list_owner_fields()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL AND auth.uid() IS DISTINCT FROM OLD.user_id
+     AND (NEW.user_id IS DISTINCT FROM OLD.user_id OR NEW.share_code IS DISTINCT FROM OLD.share_code) THEN
+    RAISE EXCEPTION 'only the list owner can change ownership or sharing';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER army_lists_guard_owner_fields
+  BEFORE UPDATE ON public.army_lists
+  FOR EACH ROW EXECUTE FUNCTION public.guard_army_list_owner_fields();
+
+-- ============================================================
+-- List children: collaborators read, editors write
+-- ============================================================
+
+CREATE POLICY "Collaborator select list units" ON public.army_list_units
+  FOR SELECT USING (public.can_view_army_list(army_list_id));
+CREATE POLICY "Editor write list units" ON public.army_list_units
+  FOR ALL USING (public.can_edit_army_list(army_list_id))
+  WITH CHECK (public.can_edit_army_list(army_list_id));
+
+CREATE POLICY "Collaborator select list enhancements" ON public.army_list_enhancements
+  FOR SELECT USING (public.can_view_army_list(army_list_id));
+CREATE POLICY "Editor write list enhancements" ON public.army_list_enhancements
+  FOR ALL USING (public.can_edit_army_list(army_list_id))
+  WITH CHECK (public.can_edit_army_list(army_list_id));
+
+CREATE POLICY "Collaborator select list wargear" ON public.army_list_unit_wargear
+  FOR SELECT USING (public.can_view_army_list(
+    (SELECT army_list_id FROM public.army_list_units WHERE id = army_list_unit_wargear.army_list_unit_id)
+  ));
+CREATE POLICY "Editor write list wargear" ON public.army_list_unit_wargear
+  FOR ALL USING (public.can_edit_army_list(
+    (SELECT army_list_id FROM public.army_list_units WHERE id = army_list_unit_wargear.army_list_unit_id)
+  ))
+  WITH CHECK (public.can_edit_army_list(
+    (SELECT army_list_id FROM public.army_list_units WHERE id = army_list_unit_wargear.army_list_unit_id)
+  ));
+
+CREATE POLICY "Collaborator select list wargear sub" ON public.army_list_unit_wargear_sub
+  FOR SELECT USING (public.can_view_army_list(
+    (SELECT alu.army_list_id FROM public.army_list_unit_wargear aluw
+     JOIN public.army_list_units alu ON alu.id = aluw.army_list_unit_id
+     WHERE aluw.id = army_list_unit_wargear_sub.army_list_unit_wargear_id)
+  ));
+CREATE POLICY "Editor write list wargear sub" ON public.army_list_unit_wargear_sub
+  FOR ALL USING (public.can_edit_army_list(
+    (SELECT alu.army_list_id FROM public.army_list_unit_wargear aluw
+     JOIN public.army_list_units alu ON alu.id = aluw.army_list_unit_id
+     WHERE aluw.id = army_list_unit_wargear_sub.army_list_unit_wargear_id)
+  ))
+  WITH CHECK (public.can_edit_army_list(
+    (SELECT alu.army_list_id FROM public.army_list_unit_wargear aluw
+     JOIN public.army_list_units alu ON alu.id = aluw.army_list_unit_id
+     WHERE aluw.id = army_list_unit_wargear_sub.army_list_unit_wargear_id)
+  ));
+
+CREATE POLICY "Collaborator select composition" ON public.army_list_unit_composition
+  FOR SELECT USING (public.can_view_army_list(
+    (SELECT army_list_id FROM public.army_list_units WHERE id = army_list_unit_composition.army_list_unit_id)
+  ));
+CREATE POLICY "Editor write composition" ON public.army_list_unit_composition
+  FOR ALL USING (public.can_edit_army_list(
+    (SELECT army_list_id FROM public.army_list_units WHERE id = army_list_unit_composition.army_list_unit_id)
+  ))
+  WITH CHECK (public.can_edit_army_list(
+    (SELECT army_list_id FROM public.army_list_units WHERE id = army_list_unit_composition.army_list_unit_id)
+  ));
+
+CREATE POLICY "Collaborator select leader attachments" ON public.army_list_leader_attachments
+  FOR SELECT USING (public.can_view_army_list(army_list_id));
+CREATE POLICY "Editor write leader attachments" ON public.army_list_leader_attachments
+  FOR ALL USING (public.can_edit_army_list(army_list_id))
+  WITH CHECK (public.can_edit_army_list(army_list_id));
+
+CREATE POLICY "Collaborator select transport embarks" ON public.army_list_transport_embarks
+  FOR SELECT USING (public.can_view_army_list(army_list_id));
+CREATE POLICY "Editor write transport embarks" ON public.army_list_transport_embarks
+  FOR ALL USING (public.can_edit_army_list(army_list_id))
+  WITH CHECK (public.can_edit_army_list(army_list_id));
+
+-- Version history: collaborators read it, editors' saves add to it
+CREATE POLICY "collaborator_select_versions" ON public.army_list_versions
+  FOR SELECT USING (public.can_view_army_list(list_id));
+CREATE POLICY "editor_insert_versions" ON public.army_list_versions
+  FOR INSERT WITH CHECK (public.can_edit_army_list(list_id));
+
+COMMIT;
@@ -0,0 +1,148 @@
+-- List reviews: an owner asks friends for feedback on a list; anyone who can see the list
+-- leaves comment threads on it, either on the list as a whole or on one of its units, and can
+-- attach a proposed change the list's editors accept in one click. Reviewers get read access
+-- to the list for as long as their request stands. Threads on a shared list are publicly
+-- readable alongside the list itself.
+
+BEGIN;
+
+-- ============================================================
+-- Review requests
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS public.army_list_review_requests (
+  id           uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  army_list_id uuid NOT NULL REFERENCES public.army_lists(id) ON DELETE CASCADE,
+  requester_id uuid NOT NULL REFERENCES public.user_profiles(id) ON DELETE CASCADE,
+  reviewer_id  uuid NOT NULL REFERENCES public.user_profiles(id) ON DELETE CASCADE,
+  message      text CHECK (message IS NULL OR char_length(message) <= 500),
+  status       text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'completed', 'declined')),
+  created_at   timestamptz NOT NULL DEFAULT now(),
+  updated_at   timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (army_list_id, reviewer_id),
+  CHECK (requester_id != reviewer_id)
+);
+CREATE INDEX IF NOT EXISTS idx_army_list_review_requests_reviewer
+  ON public.army_list_review_requests (reviewer_id, status);
+
+CREATE TRIGGER army_list_review_requests_updated_at
+  BEFORE UPDATE ON public.army_list_review_requests
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at();
+
+ALTER TABLE public.army_list_review_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Parties select review requests" ON public.army_list_review_requests
+  FOR SELECT USING (auth.uid() = requester_id OR auth.uid() = reviewer_id);
+
+-- Only the list owner asks, and only friends
+CREATE POLICY "Owner request review from friends" ON public.army_list_review_requests
+  FOR INSERT WITH CHECK (
+    auth.uid() = requester_id
+    AND EXISTS (SELECT 1 FROM public.army_lists WHERE id = army_list_id AND user_id = auth.uid())
+    AND EXISTS (
+      SELECT 1 FROM public.friendships f
+      WHERE f.status = 'accepted'
+        AND ((f.requester_id = auth.uid() AND f.addressee_id = reviewer_id)
+          OR (f.addressee_id = auth.uid() AND f.requester_id = reviewer_id))
+    )
+  );
+
+-- The reviewer marks the request done or declines it
+CREATE POLICY "Reviewer update review request" ON public.army_list_review_requests
+  FOR UPDATE USING (auth.uid() = reviewer_id)
+  WITH CHECK (auth.uid() = reviewer_id);
+
+-- The owner withdraws a request
+CREATE POLICY "Requester delete review request" ON public.army_list_review_requests
+  FOR DELETE USING (auth.uid() = requester_id);
+
+-- Reviewers can read the list while their request hasn't been declined
+CREATE OR REPLACE FUNCTION public.can_view_army_list(p_list_id uuid)
+RETURNS boolean
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM army_lists WHERE id = p_list_id AND user_id = auth.uid())
+      OR EXISTS (SELECT 1 FROM army_list_collaborators WHERE army_list_id = p_list_id AND user_id = auth.uid())
+      OR EXISTS (
+        SELECT 1 FROM army_list_review_requests
+        WHERE army_list_id = p_list_id AND reviewer_id = auth.uid() AND status != 'declined'
+      );
+$$;
+
+-- ============================================================
+-- Comments
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS public.army_list_comments (
+  id                uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  army_list_id      uuid NOT NULL REFERENCES public.army_lists(id) ON DELETE CASCADE,
+  -- NULL for threads on the list as a whole. Threads outlive the unit they were left on,
+  -- so unit_name keeps them readable after it is removed.
+  army_list_unit_id uuid REFERENCES public.army_list_units(id) ON DELETE SET NULL,
+  unit_name         text,
+  -- Replies point at the thread's first comment; threads don't nest further
+  parent_id         uuid REFERENCES public.army_list_comments(id) ON DELETE CASCADE,
+  author_id         uuid NOT NULL REFERENCES public.user_profiles(id) ON DELETE CASCADE,
+  body              text NOT NULL CHECK (char_length(body) BETWEEN 1 AND 2000),
+  -- A change the author suggests (see listReview.ts for the shapes)
+  proposal          jsonb,
+  proposal_status   text CHECK (proposal_status IN ('open', 'accepted', 'dismissed')),
+  resolved_at       timestamptz,
+  created_at        timestamptz NOT NULL DEFAULT now(),
+  CHECK ((proposal IS NULL) = (proposal_status IS NULL))
+);
+CREATE INDEX IF NOT EXISTS idx_army_list_comments_list ON public.army_list_comments (army_list_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_army_list_comments_parent ON public.army_list_comments (parent_id);
+
+ALTER TABLE public.army_list_comments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Viewers select comments" ON public.army_list_comments
+  FOR SELECT USING (public.can_view_army_list(army_list_id));
+
+CREATE POLICY "Anyone select comments on shared lists" ON public.army_list_comments
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.army_lists
+      WHERE army_lists.id = army_list_comments.army_list_id
+        AND army_lists.share_code IS NOT NULL
+    )
+  );
+
+CREATE POLICY "Viewers insert comments" ON public.army_list_comments
+  FOR INSERT WITH CHECK (auth.uid() = author_id AND public.can_view_army_list(army_list_id));
+
+-- Authors edit their own comments; editors resolve threads and settle proposals
+CREATE POLICY "Authors and editors update comments" ON public.army_list_comments
+  FOR UPDATE USING (auth.uid() = author_id OR public.can_edit_army_list(army_list_id))
+  WITH CHECK (auth.uid() = author_id OR public.can_edit_army_list(army_list_id));
+
+CREATE POLICY "Authors delete comments" ON public.army_list_comments
+  FOR DELETE USING (auth.uid() = author_id);
+
+-- Editors who aren't the author may only resolve a thread or settle its proposal
+CREATE OR REPLACE FUNCTION public.guard_army_list_comment_fields()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL AND auth.uid() IS DISTINCT FROM OLD.author_id
+     AND (NEW.body IS DISTINCT FROM OLD.body
+       OR NEW.proposal IS DISTINCT FROM OLD.proposal
+       OR NEW.author_id IS DISTINCT FROM OLD.author_id
+       OR NEW.army_list_id IS DISTINCT FROM OLD.army_list_id
+       OR NEW.parent_id IS DISTINCT FROM OLD.parent_id) THEN
+    RAISE EXCEPTION 'only the author can edit a comment';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER army_list_comments_guard_fields
+  BEFORE UPDATE ON public.army_list_comments
+  FOR EACH ROW EXECUTE FUNCTION public.guard_army_list_comment_fields();
+
+COMMIT;
@@ -0,0 +1,252 @@
+-- Points datasets: every points release (a Munitorum Field Manual update) is kept as its own
+-- dataset instead of being overwritten by the next BSData sync.
+--
+-- unit_points_tiers and enhancements.points keep holding the current points, exactly as the
+-- sync writes them. After each sync, publish_points_dataset() snapshots them into a dataset
+-- stamped with the release's effective date. A list either follows the latest dataset
+-- (army_lists.points_dataset_id IS NULL) or pins one, so its total stays put until its owner
+-- chooses to re-pin. A unit or enhancement that is newer than the pinned dataset is costed at
+-- current points.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.points_datasets (
+  id             uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name           text NOT NULL,
+  edition        text NOT NULL DEFAULT '10e',
+  effective_date date NOT NULL,
+  source         text,
+  created_at     timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (edition, effective_date)
+);
+
+CREATE TABLE IF NOT EXISTS public.points_dataset_tiers (
+  dataset_id  uuid NOT NULL REFERENCES public.points_datasets(id) ON DELETE CASCADE,
+  unit_id     uuid NOT NULL REFERENCES public.units(id) ON DELETE CASCADE,
+  model_count integer NOT NULL,
+  points      integer NOT NULL,
+  PRIMARY KEY (dataset_id, unit_id, model_count)
+);
+CREATE INDEX IF NOT EXISTS idx_points_dataset_tiers_unit ON public.points_dataset_tiers(unit_id);
+
+CREATE TABLE IF NOT EXISTS public.points_dataset_enhancements (
+  dataset_id     uuid NOT NULL REFERENCES public.points_datasets(id) ON DELETE CASCADE,
+  enhancement_id uuid NOT NULL REFERENCES public.enhancements(id) ON DELETE CASCADE,
+  points         integer NOT NULL,
+  PRIMARY KEY (dataset_id, enhancement_id)
+);
+
+ALTER TABLE public.army_lists
+  ADD COLUMN IF NOT EXISTS points_dataset_id uuid REFERENCES public.points_datasets(id) ON DELETE SET NULL;
+
+-- Game data: public read, written only by the sync
+ALTER TABLE public.points_datasets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.points_dataset_tiers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.points_dataset_enhancements ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Public read points datasets" ON public.points_datasets;
+CREATE POLICY "Public read points datasets" ON public.points_datasets FOR SELECT USING (true);
+DROP POLICY IF EXISTS "Public read points dataset tiers" ON public.points_dataset_tiers;
+CREATE POLICY "Public read points dataset tiers" ON public.points_dataset_tiers FOR SELECT USING (true);
+DROP POLICY IF EXISTS "Public read points dataset enhancements" ON public.points_dataset_enhancements;
+CREATE POLICY "Public read points dataset enhancements" ON public.points_dataset_enhancements FOR SELECT USING (true);
+
+-- ============================================================
+-- Publishing a release
+-- ============================================================
+
+-- Snapshots the current points as the dataset for p_effective_date. The weekly sync calls this
+-- every time, so when nothing has changed since the latest dataset it is returned as-is.
+-- Re-running it for the same date (a re-sync of the same release) replaces that dataset's points.
+CREATE OR REPLACE FUNCTION public.publish_points_dataset(
+  p_name text,
+  p_effective_date date,
+  p_source text DEFAULT NULL,
+  p_edition text DEFAULT '10e'
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_dataset_id uuid;
+BEGIN
+  SELECT id INTO v_dataset_id FROM points_datasets
+  WHERE edition = p_edition AND effective_date <= p_effective_date
+  ORDER BY effective_date DESC
+  LIMIT 1;
+
+  IF v_dataset_id IS NOT NULL AND NOT EXISTS (
+    (SELECT unit_id, model_count, points FROM unit_points_tiers WHERE edition = p_edition
+     EXCEPT SELECT unit_id, model_count, points FROM points_dataset_tiers WHERE dataset_id = v_dataset_id)
+    UNION ALL
+    (SELECT unit_id, model_count, points FROM points_dataset_tiers WHERE dataset_id = v_dataset_id
+     EXCEPT SELECT unit_id, model_count, points FROM unit_points_tiers WHERE edition = p_edition)
+    UNION ALL
+    (SELECT id, 0, points FROM enhancements WHERE edition = p_edition
+     EXCEPT SELECT enhancement_id, 0, points FROM points_dataset_enhancements WHERE dataset_id = v_dataset_id)
+  ) THEN
+    RETURN v_dataset_id;
+  END IF;
+
+  INSERT INTO points_datasets (name, edition, effective_date, source)
+  VALUES (p_name, p_edition, p_effective_date, p_source)
+  ON CONFLICT (edition, effective_date) DO UPDATE SET name = EXCLUDED.name, source = EXCLUDED.source
+  RETURNING id INTO v_dataset_id;
+
+  DELETE FROM points_dataset_tiers WHERE dataset_id = v_dataset_id;
+  INSERT INTO points_dataset_tiers (dataset_id, unit_id, model_count, points)
+  SELECT DISTINCT ON (unit_id, model_count) v_dataset_id, unit_id, model_count, points
+  FROM unit_points_tiers
+  WHERE edition = p_edition
+  ORDER BY unit_id, model_count, points DESC;
+
+  DELETE FROM points_dataset_enhancements WHERE dataset_id = v_dataset_id;
+  INSERT INTO points_dataset_enhancements (dataset_id, enhancement_id, points)
+  SELECT v_dataset_id, id, points
+  FROM enhancements
+  WHERE edition = p_edition;
+
+  RETURN v_dataset_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.publish_points_dataset(text, date, text, text) FROM PUBLIC, anon, authenticated;
+
+-- ============================================================
+-- Points under a dataset
+-- ============================================================
+
+-- A list's points costed under p_dataset_id, or under current points when it is null.
+-- Same tier matching as the client: the highest tier whose model_count the unit reaches.
+CREATE OR REPLACE FUNCTION public.list_points_in_dataset(p_list_id uuid, p_dataset_id uuid)
+RETURNS TABLE (unit_points integer, enhancement_points integer)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH tiers AS (
+    SELECT t.unit_id, t.model_count, t.points
+    FROM points_dataset_tiers t
+    WHERE t.dataset_id = p_dataset_id
+    UNION ALL
+    SELECT upt.unit_id, upt.model_count, upt.points
+    FROM unit_points_tiers upt
+    WHERE p_dataset_id IS NULL
+       OR NOT EXISTS (
+         SELECT 1 FROM points_dataset_tiers t
+         WHERE t.dataset_id = p_dataset_id AND t.unit_id = upt.unit_id
+       )
+  )
+  SELECT
+    (SELECT coalesce(sum(tier_points), 0)::integer
+     FROM (
+       SELECT DISTINCT ON (alu.id) tiers.points AS tier_points
+       FROM army_list_units alu
+       JOIN tiers ON tiers.unit_id = alu.unit_id AND tiers.model_count <= alu.model_count
+       WHERE alu.army_list_id = p_list_id
+       ORDER BY alu.id, tiers.model_count DESC
+     ) matched_tiers),
+    (SELECT coalesce(sum(coalesce(pde.points, e.points)), 0)::integer
+     FROM army_list_enhancements ale
+     JOIN enhancements e ON e.id = ale.enhancement_id
+     LEFT JOIN points_dataset_enhancements pde
+       ON pde.dataset_id = p_dataset_id AND pde.enhancement_id = e.id
+     WHERE ale.army_list_id = p_list_id);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.list_points_in_dataset(uuid, uuid) TO authenticated;
+
+-- Pinned lists are costed under their dataset; everything else is unchanged
+CREATE OR REPLACE FUNCTION public.calculate_list_points(list_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_points_limit integer;
+  v_dataset_id uuid;
+  v_unit_points integer;
+  v_enhancement_points integer;
+  v_total_points integer;
+BEGIN
+  SELECT al.points_limit, al.points_dataset_id INTO v_points_limit, v_dataset_id
+  FROM public.army_lists al
+  WHERE al.id = calculate_list_points.list_id;
+
+  IF v_points_limit IS NULL THEN
+    RAISE EXCEPTION 'Army list not found: %', list_id;
+  END IF;
+
+  SELECT p.unit_points, p.enhancement_points INTO v_unit_points, v_enhancement_points
+  FROM public.list_points_in_dataset(calculate_list_points.list_id, v_dataset_id) p;
+
+  v_total_points := v_unit_points + v_enhancement_points;
+
+  RETURN jsonb_build_object(
+    'total_points', v_total_points,
+    'unit_points', v_unit_points,
+    'enhancement_points', v_enhancement_points,
+    'points_limit', v_points_limit,
+    'is_valid', v_total_points <= v_points_limit
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.calculate_list_points(uuid) FROM anon;
+GRANT EXECUTE ON FUNCTION public.calculate_list_points(uuid) TO authenticated;
+
+-- ============================================================
+-- Impact report
+-- ============================================================
+
+-- For each of the caller's lists: its points before and after the latest release of its
+-- edition. "Before" is the pinned dataset, or for lists that follow the latest points, the
+-- release preceding it. Lists with nothing to compare against are left out.
+CREATE OR REPLACE FUNCTION public.points_update_impact()
+RETURNS TABLE (
+  army_list_id       uuid,
+  list_name          text,
+  points_limit       integer,
+  pinned_dataset_id  uuid,
+  from_dataset_id    uuid,
+  to_dataset_id      uuid,
+  points_before      integer,
+  points_after       integer
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    al.id, al.name, al.points_limit, al.points_dataset_id,
+    before_ds.id, latest.id,
+    (SELECT p.unit_points + p.enhancement_points FROM list_points_in_dataset(al.id, before_ds.id) p),
+    (SELECT p.unit_points + p.enhancement_points FROM list_points_in_dataset(al.id, latest.id) p)
+  FROM army_lists al
+  JOIN LATERAL (
+    SELECT d.id, d.effective_date FROM points_datasets d
+    WHERE d.edition = al.edition AND d.effective_date <= current_date
+    ORDER BY d.effective_date DESC
+    LIMIT 1
+  ) latest ON true
+  JOIN LATERAL (
+    SELECT d.id FROM points_datasets d
+    WHERE d.id = al.points_dataset_id
+    UNION ALL
+    (SELECT d.id FROM points_datasets d
+     WHERE al.points_dataset_id IS NULL AND d.edition = al.edition AND d.effective_date < latest.effective_date
+     ORDER BY d.effective_date DESC
+     LIMIT 1)
+  ) before_ds ON true
+  WHERE al.user_id = auth.uid()
+  ORDER BY al.updated_at DESC;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.points_update_impact() TO authenticated;
+
+-- The points in effect today become the first dataset
+SELECT public.publish_points_dataset('Initial points', current_date, 'Points at the time datasets were introduced');
+
+COMMIT;
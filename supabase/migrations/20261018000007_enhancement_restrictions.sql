@@ -0,0 +1,31 @@
+-- Structured enhancement restrictions, read from BSData by scripts/parse-bsdata.js.
+--
+-- "X model only" used to be parsed out of enhancement descriptions on every render, which
+-- misses restrictions the description doesn't spell out and mis-reads some it does. The parser
+-- now reads the BSData modifiers that hide an enhancement from ineligible bearers and writes
+-- them here. An enhancement without a row falls back to the description parser.
+--
+--   required_keywords  OR-groups of AND-keywords, e.g. [["Captain"], ["Infantry", "Officer"]];
+--                      empty means any bearer. Faction keywords are left out — every unit that
+--                      can take the faction's enhancements has them.
+--   excluded_keywords  AND-groups; the bearer is excluded if it has every keyword of any group
+--   required_abilities abilities the bearer needs ("model with the Deep Strike ability only")
+--
+-- Keywords are matched case-insensitively against units.keywords and the unit's name.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.enhancement_restrictions (
+  enhancement_id     uuid PRIMARY KEY REFERENCES public.enhancements(id) ON DELETE CASCADE,
+  required_keywords  jsonb NOT NULL DEFAULT '[]',
+  excluded_keywords  jsonb NOT NULL DEFAULT '[]',
+  required_abilities text[] NOT NULL DEFAULT '{}'
+);
+
+-- Game data: public read, written only by the sync
+ALTER TABLE public.enhancement_restrictions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Public read enhancement restrictions" ON public.enhancement_restrictions;
+CREATE POLICY "Public read enhancement restrictions" ON public.enhancement_restrictions FOR SELECT USING (true);
+
+COMMIT;
@@ -0,0 +1,65 @@
+-- Allied contingent rules: which factions a list may bring allies from, and on what terms.
+--
+-- The list editor used to decide allied factions from the list faction's alignment and apply
+-- no limits to them. Each row now covers one list faction / allied faction pair:
+--
+--   rule_name           the rule that grants the allies ("Assigned Agents", "Freeblades", ...)
+--   points_caps         battle_sizes.id → most points the allied units (and anything on them)
+--                       may cost; a battle size that isn't listed has no cap
+--   unit_caps           battle_sizes.id → most allied units; same convention
+--   excluded_roles      units.role values that can't be taken as allies
+--   allow_enhancements  whether allied characters may take the list's enhancements
+--
+-- A list looks up rows for its own faction first, then its parent faction's, so a chapter
+-- inherits Space Marines' allies unless it has a row of its own. Unaligned Forces stay
+-- available to every list without a row. Factions added by a later BSData sync get no rows
+-- until they are inserted here.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.allied_contingent_rules (
+  id                 uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  faction_id         uuid NOT NULL REFERENCES public.factions(id) ON DELETE CASCADE,
+  allied_faction_id  uuid NOT NULL REFERENCES public.factions(id) ON DELETE CASCADE,
+  rule_name          text NOT NULL,
+  points_caps        jsonb NOT NULL DEFAULT '{}',
+  unit_caps          jsonb NOT NULL DEFAULT '{}',
+  excluded_roles     text[] NOT NULL DEFAULT '{}',
+  allow_enhancements boolean NOT NULL DEFAULT false,
+  UNIQUE (faction_id, allied_faction_id),
+  CHECK (faction_id <> allied_faction_id)
+);
+
+-- Game data: public read, maintained by migrations
+ALTER TABLE public.allied_contingent_rules ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Public read allied contingent rules" ON public.allied_contingent_rules;
+CREATE POLICY "Public read allied contingent rules" ON public.allied_contingent_rules FOR SELECT USING (true);
+
+-- No allies in Combat Patrol; otherwise the caps scale with the battle size
+INSERT INTO public.allied_contingent_rules
+  (faction_id, allied_faction_id, rule_name, points_caps, unit_caps, excluded_roles, allow_enhancements)
+SELECT f.id, a.id, r.rule_name, r.points_caps::jsonb, r.unit_caps::jsonb, r.excluded_roles, false
+FROM (VALUES
+  ('Agents of the Imperium', 'imperium', 'Assigned Agents',
+    '{"combat_patrol": 0}',
+    '{"combat_patrol": 0, "incursion": 2, "strike_force": 4, "onslaught": 6}',
+    '{battleline}'::text[]),
+  ('Imperial Knights', 'imperium', 'Freeblades',
+    '{"combat_patrol": 0}',
+    '{"combat_patrol": 0, "incursion": 1, "strike_force": 3, "onslaught": 3}',
+    '{epic_hero}'::text[]),
+  ('Chaos Knights', 'chaos', 'Dreadblades',
+    '{"combat_patrol": 0}',
+    '{"combat_patrol": 0, "incursion": 1, "strike_force": 3, "onslaught": 3}',
+    '{epic_hero}'::text[]),
+  ('Chaos Daemons', 'chaos', 'Daemonic Pact',
+    '{"combat_patrol": 0, "incursion": 250, "strike_force": 500, "onslaught": 750}',
+    '{"combat_patrol": 0}',
+    '{epic_hero, battleline}'::text[])
+) AS r(allied_name, alignment, rule_name, points_caps, unit_caps, excluded_roles)
+JOIN public.factions a ON a.name = r.allied_name
+JOIN public.factions f ON f.alignment = r.alignment AND f.id <> a.id
+ON CONFLICT (faction_id, allied_faction_id) DO NOTHING;
+
+COMMIT;
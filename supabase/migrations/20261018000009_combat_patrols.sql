@@ -0,0 +1,67 @@
+-- Combat Patrol: fixed boxed forces instead of free list building.
+--
+-- A Combat Patrol list is one faction's boxed force. It has set units and model counts, its
+-- own rule, enhancements and stratagems, and a handful of permitted wargear swaps. Each patrol
+-- owns a detachment row flagged is_combat_patrol. That row carries the patrol's rule text,
+-- and its enhancements and stratagems hang off it the same way a detachment's do. The editor
+-- and Play Mode load them without special cases, and the regular detachment pickers skip
+-- flagged rows.
+--
+--   combat_patrol_units            the fixed force; datasheet_notes records where the Combat
+--                                  Patrol datasheet differs from the matched-play one
+--   combat_patrol_wargear_options  the wargear options each unit may take; a unit without
+--                                  rows keeps its default loadout
+--
+-- army_lists.combat_patrol_id marks a list created from a patrol. Those lists are held to the
+-- fixed force. BSData has no Combat Patrol data, so the catalogue is maintained by migrations.
+
+BEGIN;
+
+ALTER TABLE public.detachments
+  ADD COLUMN IF NOT EXISTS is_combat_patrol boolean NOT NULL DEFAULT false;
+
+CREATE TABLE IF NOT EXISTS public.combat_patrols (
+  id            uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  faction_id    uuid NOT NULL REFERENCES public.factions(id) ON DELETE CASCADE,
+  detachment_id uuid NOT NULL UNIQUE REFERENCES public.detachments(id) ON DELETE CASCADE,
+  name          text NOT NULL,
+  description   text,
+  edition       text NOT NULL DEFAULT '10e',
+  created_at    timestamptz NOT NULL DEFAULT now()
+);
+CREATE INDEX IF NOT EXISTS idx_combat_patrols_faction ON public.combat_patrols(faction_id);
+
+CREATE TABLE IF NOT EXISTS public.combat_patrol_units (
+  id               uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  combat_patrol_id uuid NOT NULL REFERENCES public.combat_patrols(id) ON DELETE CASCADE,
+  unit_id          uuid NOT NULL REFERENCES public.units(id) ON DELETE CASCADE,
+  model_count      integer NOT NULL CHECK (model_count > 0),
+  sort_order       integer NOT NULL DEFAULT 0,
+  datasheet_notes  text,
+  UNIQUE (combat_patrol_id, unit_id)
+);
+
+CREATE TABLE IF NOT EXISTS public.combat_patrol_wargear_options (
+  combat_patrol_unit_id uuid NOT NULL REFERENCES public.combat_patrol_units(id) ON DELETE CASCADE,
+  wargear_option_id     uuid NOT NULL REFERENCES public.wargear_options(id) ON DELETE CASCADE,
+  PRIMARY KEY (combat_patrol_unit_id, wargear_option_id)
+);
+
+ALTER TABLE public.army_lists
+  ADD COLUMN IF NOT EXISTS combat_patrol_id uuid REFERENCES public.combat_patrols(id) ON DELETE SET NULL;
+
+-- Game data: public read, maintained by migrations
+ALTER TABLE public.combat_patrols ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.combat_patrol_units ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.combat_patrol_wargear_options ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Public read combat patrols" ON public.combat_patrols;
+CREATE POLICY "Public read combat patrols" ON public.combat_patrols FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Public read combat patrol units" ON public.combat_patrol_units;
+CREATE POLICY "Public read combat patrol units" ON public.combat_patrol_units FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Public read combat patrol wargear options" ON public.combat_patrol_wargear_options;
+CREATE POLICY "Public read combat patrol wargear options" ON public.combat_patrol_wargear_options FOR SELECT USING (true);
+
+COMMIT;
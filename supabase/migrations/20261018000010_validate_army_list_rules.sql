@@ -0,0 +1,326 @@
+-- validate_army_list: the Combat Patrol enhancement limit and allied contingent rules.
+--
+-- The list editor holds Combat Patrol lists to one enhancement and checks allied units against
+-- allied_contingent_rules (caps, excluded roles, enhancements). The RPC only knew the
+-- matched-play limit of three and nothing about allies, so tournament submission accepted
+-- lists the editor rejects.
+--
+--   allied_violations      one message per broken allied rule, worded as in the editor
+--   has_allied_violations  whether there are any
+--
+-- submit_tournament_list now refuses any list with violations, not only one over its points.
+-- The shared parity cases (supabase/tests/fixtures/validate_army_list.cases.json) cover both.
+
+BEGIN;
+
+-- ============================================================
+-- Points per roster entry
+-- ============================================================
+
+-- Each unit's points under p_dataset_id, or under current points when it is null. Same tiers
+-- as list_points_in_dataset, kept per unit so allied contingents can be costed.
+CREATE OR REPLACE FUNCTION public.list_unit_points_in_dataset(p_list_id uuid, p_dataset_id uuid)
+RETURNS TABLE (army_list_unit_id uuid, points integer)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH tiers AS (
+    SELECT t.unit_id, t.model_count, t.points
+    FROM points_dataset_tiers t
+    WHERE t.dataset_id = p_dataset_id
+    UNION ALL
+    SELECT upt.unit_id, upt.model_count, upt.points
+    FROM unit_points_tiers upt
+    WHERE p_dataset_id IS NULL
+       OR NOT EXISTS (
+         SELECT 1 FROM points_dataset_tiers t
+         WHERE t.dataset_id = p_dataset_id AND t.unit_id = upt.unit_id
+       )
+  )
+  SELECT
+    alu.id,
+    coalesce((
+      SELECT tiers.points FROM tiers
+      WHERE tiers.unit_id = alu.unit_id AND tiers.model_count <= alu.model_count
+      ORDER BY tiers.model_count DESC
+      LIMIT 1
+    ), 0)::integer
+  FROM army_list_units alu
+  WHERE alu.army_list_id = p_list_id;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.list_unit_points_in_dataset(uuid, uuid) TO authenticated;
+
+-- ============================================================
+-- Allied contingents
+-- ============================================================
+
+-- Mirrors checkAllies in listRules.ts. Rules come from the list's faction, then its parent's,
+-- one per allied faction. A zero cap means the rule grants no allies at the list's battle
+-- size, and that is the only thing reported for the contingent.
+CREATE OR REPLACE FUNCTION public.allied_contingent_violations(p_list_id uuid)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH list AS (
+    SELECT al.faction_id, f.parent_faction_id, al.battle_size, al.points_dataset_id
+    FROM army_lists al
+    JOIN factions f ON f.id = al.faction_id
+    WHERE al.id = p_list_id
+  ),
+  rules AS (
+    SELECT DISTINCT ON (r.allied_faction_id) r.*
+    FROM allied_contingent_rules r, list
+    WHERE r.faction_id IN (list.faction_id, list.parent_faction_id)
+      AND r.allied_faction_id NOT IN (list.faction_id, coalesce(list.parent_faction_id, list.faction_id))
+    ORDER BY r.allied_faction_id, (r.faction_id = list.faction_id) DESC
+  ),
+  allied AS (
+    SELECT
+      rules.id AS rule_id,
+      u.name AS unit_name,
+      u.role,
+      up.points + coalesce(enh.points, 0) AS points,
+      enh.name AS enhancement_name
+    FROM rules
+    JOIN army_list_units alu ON alu.army_list_id = p_list_id
+    JOIN units u ON u.id = alu.unit_id AND u.faction_id = rules.allied_faction_id
+    JOIN list_unit_points_in_dataset(p_list_id, (SELECT points_dataset_id FROM list)) up
+      ON up.army_list_unit_id = alu.id
+    LEFT JOIN LATERAL (
+      SELECT e.name, coalesce(pde.points, e.points) AS points
+      FROM army_list_enhancements ale
+      JOIN enhancements e ON e.id = ale.enhancement_id
+      LEFT JOIN points_dataset_enhancements pde
+        ON pde.dataset_id = (SELECT points_dataset_id FROM list) AND pde.enhancement_id = e.id
+      WHERE ale.army_list_unit_id = alu.id
+      LIMIT 1
+    ) enh ON true
+  ),
+  contingents AS (
+    SELECT
+      rules.id,
+      rules.rule_name,
+      rules.excluded_roles,
+      rules.allow_enhancements,
+      caps.points_cap,
+      caps.unit_cap,
+      coalesce(caps.points_cap = 0 OR caps.unit_cap = 0, false) AS blocked,
+      (SELECT sum(a.points) FROM allied a WHERE a.rule_id = rules.id)::integer AS points,
+      (SELECT count(*) FROM allied a WHERE a.rule_id = rules.id)::integer AS units
+    FROM rules
+    CROSS JOIN list
+    CROSS JOIN LATERAL (
+      SELECT (rules.points_caps ->> list.battle_size)::integer AS points_cap,
+             (rules.unit_caps ->> list.battle_size)::integer AS unit_cap
+    ) caps
+    WHERE EXISTS (SELECT 1 FROM allied a WHERE a.rule_id = rules.id)
+  )
+  SELECT coalesce(jsonb_agg(violation), '[]'::jsonb)
+  FROM (
+    SELECT c.rule_name || ' allies can''t be taken at this battle size' AS violation
+    FROM contingents c
+    WHERE c.blocked
+
+    UNION ALL
+
+    SELECT c.rule_name || ' allies cost ' || c.points || ' pts (max ' || c.points_cap || ' pts)'
+    FROM contingents c
+    WHERE NOT c.blocked AND c.points > c.points_cap
+
+    UNION ALL
+
+    SELECT c.rule_name || ' allows ' || c.unit_cap || ' allied units (' || c.units || ' in your list)'
+    FROM contingents c
+    WHERE NOT c.blocked AND c.units > c.unit_cap
+
+    UNION ALL
+
+    SELECT a.unit_name || ' can''t be taken as an ally under ' || c.rule_name || ' ('
+      || CASE a.role
+           WHEN 'epic_hero' THEN 'Epic Hero'
+           WHEN 'character' THEN 'Character'
+           WHEN 'battleline' THEN 'Battleline'
+           WHEN 'infantry' THEN 'Infantry'
+           WHEN 'mounted' THEN 'Mounted'
+           WHEN 'beast' THEN 'Beast'
+           WHEN 'vehicle' THEN 'Vehicle'
+           WHEN 'monster' THEN 'Monster'
+           WHEN 'fortification' THEN 'Fortification'
+           WHEN 'dedicated_transport' THEN 'Dedicated Transport'
+           ELSE a.role
+         END || ')'
+    FROM contingents c
+    JOIN allied a ON a.rule_id = c.id
+    WHERE NOT c.blocked AND a.role = ANY (c.excluded_roles)
+
+    UNION ALL
+
+    SELECT a.unit_name || ' is an ally under ' || c.rule_name || ' and cannot take ' || a.enhancement_name
+    FROM contingents c
+    JOIN allied a ON a.rule_id = c.id
+    WHERE NOT c.blocked AND NOT c.allow_enhancements AND a.enhancement_name IS NOT NULL
+  ) allied_violations;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.allied_contingent_violations(uuid) TO authenticated;
+
+-- ============================================================
+-- validate_army_list
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.validate_army_list(list_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_points jsonb;
+  v_max_enhancements integer;
+  v_unit_violations jsonb;
+  v_enhancement_violations jsonb;
+  v_allied_violations jsonb;
+BEGIN
+  -- Get points calculation
+  v_points := public.calculate_list_points(list_id);
+
+  -- Combat Patrol forces take one enhancement; matched play allows three
+  SELECT CASE WHEN al.combat_patrol_id IS NULL THEN 3 ELSE 1 END INTO v_max_enhancements
+  FROM public.army_lists al
+  WHERE al.id = validate_army_list.list_id;
+
+  -- Check unit count limits against max_per_list (10th Edition muster rules)
+  SELECT coalesce(jsonb_agg(jsonb_build_object(
+    'unit_id', unit_id,
+    'unit_name', unit_name,
+    'count', cnt,
+    'max_allowed', max_allowed
+  )), '[]'::jsonb)
+  INTO v_unit_violations
+  FROM (
+    SELECT u.id AS unit_id, u.name AS unit_name, count(*) AS cnt, u.max_per_list AS max_allowed
+    FROM public.army_list_units alu
+    JOIN public.units u ON u.id = alu.unit_id
+    WHERE alu.army_list_id = list_id
+    GROUP BY u.id, u.name, u.max_per_list
+    HAVING count(*) > u.max_per_list
+  ) violations;
+
+  -- Check enhancement rules (enhancement limit, no duplicates, not on Epic Heroes)
+  SELECT coalesce(jsonb_agg(violation), '[]'::jsonb)
+  INTO v_enhancement_violations
+  FROM (
+    -- Too many enhancements total
+    SELECT 'Army has ' || count(*) || ' enhancements (max ' || v_max_enhancements || ' allowed)' AS violation
+    FROM public.army_list_enhancements ale
+    WHERE ale.army_list_id = list_id
+    HAVING count(*) > v_max_enhancements
+
+    UNION ALL
+
+    -- Duplicate enhancements
+    SELECT 'Enhancement "' || e.name || '" is used ' || count(*) || ' times (max 1 allowed)' AS violation
+    FROM public.army_list_enhancements ale
+    JOIN public.enhancements e ON e.id = ale.enhancement_id
+    WHERE ale.army_list_id = list_id
+    GROUP BY e.id, e.name
+    HAVING count(*) > 1
+
+    UNION ALL
+
+    -- Enhancements on Epic Heroes
+    SELECT 'Enhancement "' || e.name || '" assigned to Epic Hero "' || u.name || '"' AS violation
+    FROM public.army_list_enhancements ale
+    JOIN public.enhancements e ON e.id = ale.enhancement_id
+    JOIN public.army_list_units alu ON alu.id = ale.army_list_unit_id
+    JOIN public.units u ON u.id = alu.unit_id
+    WHERE ale.army_list_id = list_id
+      AND u.role = 'epic_hero'
+  ) enh_violations;
+
+  v_allied_violations := public.allied_contingent_violations(list_id);
+
+  RETURN v_points || jsonb_build_object(
+    'unit_limit_violations', v_unit_violations,
+    'has_unit_limit_violations', jsonb_array_length(v_unit_violations) > 0,
+    'enhancement_violations', v_enhancement_violations,
+    'has_enhancement_violations', jsonb_array_length(v_enhancement_violations) > 0,
+    'allied_violations', v_allied_violations,
+    'has_allied_violations', jsonb_array_length(v_allied_violations) > 0
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.validate_army_list(uuid) FROM anon;
+GRANT EXECUTE ON FUNCTION public.validate_army_list(uuid) TO authenticated;
+
+-- ============================================================
+-- Tournament submission
+-- ============================================================
+
+-- validate_army_list returns jsonb, so read its fields as such; reject every kind of violation
+CREATE OR REPLACE FUNCTION public.submit_tournament_list(
+  p_participant_id UUID,
+  p_list_id        UUID
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_participant tournament_participants%ROWTYPE;
+  v_validation  JSONB;
+BEGIN
+  -- Fetch participant, verify caller owns it
+  SELECT * INTO v_participant
+    FROM tournament_participants
+    WHERE id = p_participant_id AND user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Participant not found or not yours');
+  END IF;
+
+  -- Check deadline
+  IF v_participant.list_submission_deadline IS NOT NULL
+     AND NOW() > v_participant.list_submission_deadline THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Submission deadline has passed');
+  END IF;
+
+  -- Validate the list
+  v_validation := validate_army_list(p_list_id);
+
+  IF NOT (v_validation->>'is_valid')::boolean
+     OR (v_validation->>'has_unit_limit_violations')::boolean
+     OR (v_validation->>'has_enhancement_violations')::boolean
+     OR (v_validation->>'has_allied_violations')::boolean THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error',  'List is invalid',
+      'details', jsonb_build_object(
+        'total_points',               v_validation->'total_points',
+        'points_limit',               v_validation->'points_limit',
+        'has_unit_violations',        v_validation->'has_unit_limit_violations',
+        'has_enhancement_violations', v_validation->'has_enhancement_violations',
+        'has_allied_violations',      v_validation->'has_allied_violations'
+      )
+    );
+  END IF;
+
+  -- Persist the submission
+  UPDATE tournament_participants
+    SET submitted_list_id = p_list_id
+    WHERE id = p_participant_id;
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+REVOKE ALL   ON FUNCTION public.submit_tournament_list(UUID, UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.submit_tournament_list(UUID, UUID) TO authenticated;
+
+COMMIT;
@@ -0,0 +1,54 @@
+-- Live list editing runs over private Realtime channels (list:<id>). Realtime authorizes
+-- private channels against RLS on realtime.messages: anyone who can view the list joins,
+-- receives and shares presence, but only its owner and editors may broadcast edits.
+
+BEGIN;
+
+-- ============================================================
+-- Topic helper
+-- ============================================================
+
+-- The list a channel topic belongs to, or NULL when the topic isn't a list channel
+CREATE OR REPLACE FUNCTION public.army_list_channel_list_id(p_topic text)
+RETURNS uuid
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN p_topic ~ '^list:[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}$'
+      THEN substring(p_topic FROM 6)::uuid
+  END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.army_list_channel_list_id(text) TO authenticated;
+
+-- ============================================================
+-- realtime.messages policies
+-- ============================================================
+
+DROP POLICY IF EXISTS "List viewers receive list channel messages" ON realtime.messages;
+CREATE POLICY "List viewers receive list channel messages" ON realtime.messages
+  FOR SELECT TO authenticated
+  USING (
+    realtime.messages.extension IN ('broadcast', 'presence')
+    AND public.can_view_army_list(public.army_list_channel_list_id(realtime.topic()))
+  );
+
+DROP POLICY IF EXISTS "List viewers share presence" ON realtime.messages;
+CREATE POLICY "List viewers share presence" ON realtime.messages
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    realtime.messages.extension = 'presence'
+    AND public.can_view_army_list(public.army_list_channel_list_id(realtime.topic()))
+  );
+
+DROP POLICY IF EXISTS "List editors broadcast edits" ON realtime.messages;
+CREATE POLICY "List editors broadcast edits" ON realtime.messages
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    realtime.messages.extension = 'broadcast'
+    AND public.can_edit_army_list(public.army_list_channel_list_id(realtime.topic()))
+  );
+
+COMMIT;
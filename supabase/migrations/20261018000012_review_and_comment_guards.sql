@@ -0,0 +1,101 @@
+-- Tightens list reviews: a reviewer can only answer a pending request, not move it to another
+-- list or person, and comments stay on the list and thread they were left on. A comment's
+-- unit and parent must belong to the comment's list.
+
+BEGIN;
+
+-- ============================================================
+-- Review requests
+-- ============================================================
+
+-- The reviewer completes or declines a pending request; nothing else about it changes
+CREATE OR REPLACE FUNCTION public.guard_army_list_review_request_fields()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+  IF NEW.army_list_id IS DISTINCT FROM OLD.army_list_id
+     OR NEW.requester_id IS DISTINCT FROM OLD.requester_id
+     OR NEW.reviewer_id IS DISTINCT FROM OLD.reviewer_id
+     OR NEW.message IS DISTINCT FROM OLD.message
+     OR NEW.created_at IS DISTINCT FROM OLD.created_at THEN
+    RAISE EXCEPTION 'only the status of a review request can change';
+  END IF;
+  IF NEW.status IS DISTINCT FROM OLD.status
+     AND NOT (OLD.status = 'pending' AND NEW.status IN ('completed', 'declined')) THEN
+    RAISE EXCEPTION 'a review request can only go from pending to completed or declined';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER army_list_review_requests_guard_fields
+  BEFORE UPDATE ON public.army_list_review_requests
+  FOR EACH ROW EXECUTE FUNCTION public.guard_army_list_review_request_fields();
+
+-- ============================================================
+-- Comments
+-- ============================================================
+
+-- Whoever edits a comment must still be able to see its list
+DROP POLICY IF EXISTS "Authors and editors update comments" ON public.army_list_comments;
+CREATE POLICY "Authors and editors update comments" ON public.army_list_comments
+  FOR UPDATE USING (auth.uid() = author_id OR public.can_edit_army_list(army_list_id))
+  WITH CHECK (
+    public.can_view_army_list(army_list_id)
+    AND (auth.uid() = author_id OR public.can_edit_army_list(army_list_id))
+  );
+
+-- A comment's list and thread are fixed, and its unit and parent belong to its list. Editors
+-- who aren't the author may only resolve a thread or settle its proposal.
+CREATE OR REPLACE FUNCTION public.guard_army_list_comment_fields()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE'
+     AND (NEW.army_list_id IS DISTINCT FROM OLD.army_list_id
+       OR NEW.parent_id IS DISTINCT FROM OLD.parent_id
+       OR NEW.author_id IS DISTINCT FROM OLD.author_id) THEN
+    RAISE EXCEPTION 'a comment stays on its list and thread';
+  END IF;
+
+  IF NEW.army_list_unit_id IS NOT NULL
+     AND (TG_OP = 'INSERT' OR NEW.army_list_unit_id IS DISTINCT FROM OLD.army_list_unit_id)
+     AND NOT EXISTS (
+       SELECT 1 FROM army_list_units WHERE id = NEW.army_list_unit_id AND army_list_id = NEW.army_list_id
+     ) THEN
+    RAISE EXCEPTION 'the unit is not in this list';
+  END IF;
+
+  IF TG_OP = 'INSERT' AND NEW.parent_id IS NOT NULL
+     AND NOT EXISTS (
+       SELECT 1 FROM army_list_comments
+       WHERE id = NEW.parent_id AND army_list_id = NEW.army_list_id AND parent_id IS NULL
+     ) THEN
+    RAISE EXCEPTION 'replies must go on a thread of the same list';
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND auth.uid() IS NOT NULL AND auth.uid() IS DISTINCT FROM OLD.author_id
+     AND (NEW.body IS DISTINCT FROM OLD.body
+       OR NEW.proposal IS DISTINCT FROM OLD.proposal
+       -- Removing the unit clears army_list_unit_id for whoever removed it
+       OR (NEW.army_list_unit_id IS NOT NULL AND NEW.army_list_unit_id IS DISTINCT FROM OLD.army_list_unit_id)
+       OR NEW.unit_name IS DISTINCT FROM OLD.unit_name) THEN
+    RAISE EXCEPTION 'only the author can edit a comment';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS army_list_comments_guard_fields ON public.army_list_comments;
+CREATE TRIGGER army_list_comments_guard_fields
+  BEFORE INSERT OR UPDATE ON public.army_list_comments
+  FOR EACH ROW EXECUTE FUNCTION public.guard_army_list_comment_fields();
+
+COMMIT;
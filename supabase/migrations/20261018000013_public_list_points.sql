@@ -0,0 +1,9 @@
+-- Shared lists are costed without an account: the shared and embed pages and the link preview
+-- call these as anon. Both run as the caller, so RLS still limits anon to lists with a share code.
+
+BEGIN;
+
+GRANT EXECUTE ON FUNCTION public.list_points_in_dataset(uuid, uuid) TO anon;
+GRANT EXECUTE ON FUNCTION public.list_unit_points_in_dataset(uuid, uuid) TO anon;
+
+COMMIT;
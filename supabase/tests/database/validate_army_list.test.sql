@@ -0,0 +1,249 @@
+-- GENERATED by scripts/generate-validation-tests.js — do not edit by hand.
+-- Source: supabase/tests/fixtures/validate_army_list.cases.json
+
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+SELECT plan(10);
+
+-- Fixture game data
+INSERT INTO public.factions (id, name) VALUES ('99eac0e9-7b5f-8846-920a-432321486549', 'Validation Test Faction');
+INSERT INTO public.detachments (id, faction_id, name) VALUES ('0ff9c9eb-35a3-c4e9-aed3-7d86eebc76ea', '99eac0e9-7b5f-8846-920a-432321486549', 'Validation Test Detachment');
+INSERT INTO public.detachments (id, faction_id, name, is_combat_patrol) VALUES ('af886bd0-d112-1d9b-9c23-86a36f53fa6f', '99eac0e9-7b5f-8846-920a-432321486549', 'Validation Test Patrol', true);
+INSERT INTO public.combat_patrols (id, faction_id, detachment_id, name) VALUES ('7b7eb77e-67e4-2e0a-0f01-e324b138bf6d', '99eac0e9-7b5f-8846-920a-432321486549', 'af886bd0-d112-1d9b-9c23-86a36f53fa6f', 'Validation Test Patrol');
+INSERT INTO public.factions (id, name) VALUES ('9efd109e-6b17-ca3e-0379-602f9d1f3ae8', 'Validation Test agents');
+INSERT INTO public.allied_contingent_rules (faction_id, allied_faction_id, rule_name, points_caps, unit_caps, excluded_roles, allow_enhancements) VALUES ('99eac0e9-7b5f-8846-920a-432321486549', '9efd109e-6b17-ca3e-0379-602f9d1f3ae8', 'Assigned Agents', '{"combat_patrol":0,"incursion":150}'::jsonb, '{"combat_patrol":0,"strike_force":2}'::jsonb, ARRAY['battleline']::text[], false);
+INSERT INTO public.units (id, faction_id, name, role, max_per_list) VALUES ('e934fe03-f485-2493-a7e7-d4794b5d6466', '99eac0e9-7b5f-8846-920a-432321486549', 'Captain', 'character', 3);
+INSERT INTO public.unit_points_tiers (unit_id, model_count, points) VALUES ('e934fe03-f485-2493-a7e7-d4794b5d6466', 1, 80);
+INSERT INTO public.units (id, faction_id, name, role, max_per_list) VALUES ('4a38985e-59bf-b01f-b587-6c304422ed99', '99eac0e9-7b5f-8846-920a-432321486549', 'Roboute Guilliman', 'epic_hero', 1);
+INSERT INTO public.unit_points_tiers (unit_id, model_count, points) VALUES ('4a38985e-59bf-b01f-b587-6c304422ed99', 1, 350);
+INSERT INTO public.units (id, faction_id, name, role, max_per_list) VALUES ('5fcd661c-14a0-78c2-3d0e-736198987305', '99eac0e9-7b5f-8846-920a-432321486549', 'Intercessors', 'battleline', 6);
+INSERT INTO public.unit_points_tiers (unit_id, model_count, points) VALUES ('5fcd661c-14a0-78c2-3d0e-736198987305', 5, 80);
+INSERT INTO public.unit_points_tiers (unit_id, model_count, points) VALUES ('5fcd661c-14a0-78c2-3d0e-736198987305', 10, 160);
+INSERT INTO public.units (id, faction_id, name, role, max_per_list) VALUES ('7fc98117-c47e-e876-433e-0570ecbc1a8d', '99eac0e9-7b5f-8846-920a-432321486549', 'Eradicators', 'infantry', 3);
+INSERT INTO public.unit_points_tiers (unit_id, model_count, points) VALUES ('7fc98117-c47e-e876-433e-0570ecbc1a8d', 3, 95);
+INSERT INTO public.unit_points_tiers (unit_id, model_count, points) VALUES ('7fc98117-c47e-e876-433e-0570ecbc1a8d', 6, 190);
+INSERT INTO public.units (id, faction_id, name, role, max_per_list) VALUES ('51a63a98-dc6c-c24d-7251-92b2719164f7', '9efd109e-6b17-ca3e-0379-602f9d1f3ae8', 'Callidus Assassin', 'character', 1);
+INSERT INTO public.unit_points_tiers (unit_id, model_count, points) VALUES ('51a63a98-dc6c-c24d-7251-92b2719164f7', 1, 100);
+INSERT INTO public.units (id, faction_id, name, role, max_per_list) VALUES ('5ac70438-fb0d-c525-c796-a80d03e13912', '9efd109e-6b17-ca3e-0379-602f9d1f3ae8', 'Inquisitor', 'character', 3);
+INSERT INTO public.unit_points_tiers (unit_id, model_count, points) VALUES ('5ac70438-fb0d-c525-c796-a80d03e13912', 1, 55);
+INSERT INTO public.units (id, faction_id, name, role, max_per_list) VALUES ('48ed1457-4198-1051-a16f-4e8ee0ccb1ca', '9efd109e-6b17-ca3e-0379-602f9d1f3ae8', 'Vigilant Squad', 'battleline', 3);
+INSERT INTO public.unit_points_tiers (unit_id, model_count, points) VALUES ('48ed1457-4198-1051-a16f-4e8ee0ccb1ca', 5, 120);
+INSERT INTO public.enhancements (id, detachment_id, name, points, description) VALUES ('f14db7af-a853-09c1-f2ab-e2f764709f00', '0ff9c9eb-35a3-c4e9-aed3-7d86eebc76ea', 'Artificer Armour', 10, '');
+INSERT INTO public.enhancements (id, detachment_id, name, points, description) VALUES ('d3a08b4c-33b3-2c4a-3b6f-d4a2b914f285', '0ff9c9eb-35a3-c4e9-aed3-7d86eebc76ea', 'The Honour Vehement', 15, '');
+INSERT INTO public.enhancements (id, detachment_id, name, points, description) VALUES ('707efc9c-02b4-0c97-f8e6-fa04f271cffa', '0ff9c9eb-35a3-c4e9-aed3-7d86eebc76ea', 'Adept of the Codex', 20, '');
+INSERT INTO public.enhancements (id, detachment_id, name, points, description) VALUES ('8710d9a6-2930-c33b-3133-77950b9dd111', '0ff9c9eb-35a3-c4e9-aed3-7d86eebc76ea', 'Fire Discipline', 25, '');
+
+-- valid list within the limit
+INSERT INTO public.army_lists (id, user_id, name, faction_id, detachment_id, points_limit, battle_size, combat_patrol_id) VALUES ('c4b6b97c-13ae-e236-397d-3052f4aeeb43', '87a371eb-2c3a-ca7d-9054-9ce6fdee31f8', 'valid list within the limit', '99eac0e9-7b5f-8846-920a-432321486549', '0ff9c9eb-35a3-c4e9-aed3-7d86eebc76ea', 2000, NULL, NULL);
+INSERT INTO public.army_list_units (id, army_list_id, unit_id, model_count, sort_order) VALUES ('6beb7a57-1c16-5dd6-449a-0c0d58a4b11a', 'c4b6b97c-13ae-e236-397d-3052f4aeeb43', 'e934fe03-f485-2493-a7e7-d4794b5d6466', 1, 0);
+INSERT INTO public.army_list_units (id, army_list_id, unit_id, model_count, sort_order) VALUES ('341b39d3-2a8c-6f42-361d-ff6cb9358ee3', 'c4b6b97c-13ae-e236-397d-3052f4aeeb43', '5fcd661c-14a0-78c2-3d0e-736198987305', 10, 1);
+INSERT INTO public.army_list_enhancements (army_list_id, enhancement_id, army_list_unit_id) VALUES ('c4b6b97c-13ae-e236-397d-3052f4aeeb43', 'f14db7af-a853-09c1-f2ab-e2f764709f00', '6beb7a57-1c16-5dd6-449a-0c0d58a4b11a');
+SELECT is(
+  (SELECT jsonb_build_object(
+      'total_points', r->'total_points', 'unit_points', r->'unit_points',
+      'enhancement_points', r->'enhancement_points', 'points_limit', r->'points_limit', 'is_valid', r->'is_valid',
+      'unit_limit_violations', (SELECT coalesce(jsonb_agg(v - 'unit_id' ORDER BY v->>'unit_name'), '[]'::jsonb)
+                                FROM jsonb_array_elements(r->'unit_limit_violations') v),
+      'enhancement_violations', (SELECT coalesce(jsonb_agg(v ORDER BY v #>> '{}'), '[]'::jsonb)
+                                 FROM jsonb_array_elements(r->'enhancement_violations') v),
+      'allied_violations', (SELECT coalesce(jsonb_agg(v ORDER BY v #>> '{}'), '[]'::jsonb)
+                            FROM jsonb_array_elements(r->'allied_violations') v))
+   FROM public.validate_army_list('c4b6b97c-13ae-e236-397d-3052f4aeeb43') r),
+  '{"total_points":250,"unit_points":240,"enhancement_points":10,"points_limit":2000,"is_valid":true,"unit_limit_violations":[],"enhancement_violations":[],"allied_violations":[]}'::jsonb,
+  'valid list within the limit'
+);
+
+-- model count between tiers uses the highest tier reached
+INSERT INTO public.army_lists (id, user_id, name, faction_id, detachment_id, points_limit, battle_size, combat_patrol_id) VALUES ('3a075d61-1da8-0de8-58c2-34ec44b92760', '87a371eb-2c3a-ca7d-9054-9ce6fdee31f8', 'model count between tiers uses the highest tier reached', '99eac0e9-7b5f-8846-920a-432321486549', '0ff9c9eb-35a3-c4e9-aed3-7d86eebc76ea', 1000, NULL, NULL);
+INSERT INTO public.army_list_units (id, army_list_id, unit_id, model_count, sort_order) VALUES ('91658ac6-7237-2ec2-51c7-9306338300f9', '3a075d61-1da8-0de8-58c2-34ec44b92760', '5fcd661c-14a0-78c2-3d0e-736198987305', 7, 0);
+INSERT INTO public.army_list_units (id, army_list_id, unit_id, model_count, sort_order) VALUES ('e7a7ff0d-ac8a-2694-8b33-566d1cf96685', '3a075d61-1da8-0de8-58c2-34ec44b92760', '7fc98117-c47e-e876-433e-0570ecbc1a8d', 2, 1);
+SELECT is(
+  (SELECT jsonb_build_object(
+      'total_points', r->'total_points', 'unit_points', r->'unit_points',
+      'enhancement_points', r->'enhancement_points', 'points_limit', r->'points_limit', 'is_valid', r->'is_valid',
+      'unit_limit_violations', (SELECT coalesce(jsonb_agg(v - 'unit_id' ORDER BY v->>'unit_name'), '[]'::jsonb)
+                                FROM jsonb_array_elements(r->'unit_limit_violations') v),
+      'enhancement_violations', (SELECT coalesce(jsonb_agg(v ORDER BY v #>> '{}'), '[]'::jsonb)
+                                 FROM jsonb_array_elements(r->'enhancement_violations') v),
+      'allied_violations', (SELECT coalesce(jsonb_agg(v ORDER BY v #>> '{}'), '[]'::jsonb)
+                            FROM jsonb_array_elements(r->'allied_violations') v))
+   FROM public.validate_army_list('3a075d61-1da8-0de8-58c2-34ec44b92760') r),
+  '{"total_points":80,"unit_points":80,"enhancement_points":0,"points_limit":1000,"is_valid":true,"unit_limit_violations":[],"enhancement_violations":[],"allied_violations":[]}'::jsonb,
+  'model count between tiers uses the highest tier reached'
+);
+
+-- over the points limit
+INSERT INTO public.army_lists (id, user_id, name, faction_id, detachment_id, points_limit, battle_size, combat_patrol_id) VALUES ('6f596611-d57b-ebaa-b6b7-b36d8531cff3', '87a371eb-2c3a-ca7d-9054-9ce6fdee31f8', 'over the points limit', '99eac0e9-7b5f-8846-920a-432321486549', '0ff9c9eb-35a3-c4e9-aed3-7d86eebc76ea', 500, NULL, NULL);
+INSERT INTO public.army_list_units (id, army_list_id, unit_id, model_count, sort_order) VALUES ('b9056ba9-6277-94a2-9226-34ae1431f3bc', '6f596611-d57b-ebaa-b6b7-b36d8531cff3', '4a38985e-59bf-b01f-b587-6c304422ed99', 1, 0);
+INSERT INTO public.army_list_units (id, army_list_id, unit_id, model_count, sort_order) VALUES ('b16d9ede-9ced-2539-8142-a99cfbf54787', '6f596611-d57b-ebaa-b6b7-b36d8531cff3', '5fcd661c-14a0-78c2-3d0e-736198987305', 10, 1);
+SELECT is(
+  (SELECT jsonb_build_object(
+      'total_points', r->'total_points', 'unit_points', r->'unit_points',
+      'enhancement_points', r->'enhancement_points', 'points_limit', r->'points_limit', 'is_valid', r->'is_valid',
+      'unit_limit_violations', (SELECT coalesce(jsonb_agg(v - 'unit_id' ORDER BY v->>'unit_name'), '[]'::jsonb)
+                                FROM jsonb_array_elements(r->'unit_limit_violations') v),
+      'enhancement_violations', (SELECT coalesce(jsonb_agg(v ORDER BY v #>> '{}'), '[]'::jsonb)
+                                 FROM jsonb_array_elements(r->'enhancement_violations') v),
+      'allied_violations', (SELECT coalesce(jsonb_agg(v ORDER BY v #>> '{}'), '[]'::jsonb)
+                            FROM jsonb_array_elements(r->'allied_violations') v))
+   FROM public.validate_army_list('6f596611-d57b-ebaa-b6b7-b36d8531cff3') r),
+  '{"total_points":510,"unit_points":510,"enhancement_points":0,"points_limit":500,"is_valid":false,"unit_limit_violations":[],"enhancement_violations":[],"allied_violations":[]}'::jsonb,
+  'over the points limit'
+);
+
+-- datasheet over max_per_list
+INSERT INTO public.army_lists (id, user_id, name, faction_id, detachment_id, points_limit, battle_size, combat_patrol_id) VALUES ('364b49b6-2b96-0d61-9276-feaf90d69dc8', '87a371eb-2c3a-ca7d-9054-9ce6fdee31f8', 'datasheet over max_per_list', '99eac0e9-7b5f-8846-920a-432321486549', '0ff9c9eb-35a3-c4e9-aed3-7d86eebc76ea', 2000, NULL, NULL);
+INSERT INTO public.army_list_units (id, army_list_id, unit_id, model_count, sort_order) VALUES ('52fb03be-da63-ba83-1ccf-4bc8ed78a606', '364b49b6-2b96-0d61-9276-feaf90d69dc8', '7fc98117-c47e-e876-433e-0570ecbc1a8d', 3, 0);
+INSERT INTO public.army_list_units (id, army_list_id, unit_id, model_count, sort_order) VALUES ('dd7e36d0-f897-2058-10db-174c44773374', '364b49b6-2b96-0d61-9276-feaf90d69dc8', '7fc98117-c47e-e876-433e-0570ecbc1a8d', 3, 1);
+INSERT INTO public.army_list_units (id, army_list_id, unit_id, model_count, sort_order) VALUES ('972fff36-decb-50d1-304b-59bc2afbdae2', '364b49b6-2b96-0d61-9276-feaf90d69dc8', '7fc98117-c47e-e876-433e-0570ecbc1a8d', 3, 2);
+INSERT INTO public.army_list_units (id, army_list_id, unit_id, model_count, sort_order) VALUES ('88ce1447-8b53-1d75-d4f6-72b4425a2c44', '364b49b6-2b96-0d61-9276-feaf90d69dc8', '7fc98117-c47e-e876-433e-0570ecbc1a8d', 3, 3);
+INSERT INTO public.army_list_units (id, army_list_id, unit_id, model_count, sort_order) VALUES ('db2a32d1-ae19-b8b7-f152-c7d15ce53f90', '364b49b6-2b96-0d61-9276-feaf90d69dc8', '4a38985e-59bf-b01f-b587-6c304422ed99', 1, 4);
+INSERT INTO public.army_list_units (id, army_list_id, unit_id, model_count, sort_order) VALUES ('25f56d51-f5c6-dd82-e66a-174fd8319e91', '364b49b6-2b96-0d61-9276-feaf90d69dc8', '4a38985e-59bf-b01f-b587-6c304422ed99', 1, 5);
+SELECT is(
+  (SELECT jsonb_build_object(
+      'total_points', r->'total_points', 'unit_points', r->'unit_points',
+      'enhancement_points', r->'enhancement_points', 'points_limit', r->'points_limit', 'is_valid', r->'is_valid',
+      'unit_limit_violations', (SELECT coalesce(jsonb_agg(v - 'unit_id' ORDER BY v->>'unit_name'), '[]'::jsonb)
+                                FROM jsonb_array_elements(r->'unit_limit_violations') v),
+      'enhancement_violations', (SELECT coalesce(jsonb_agg(v ORDER BY v #>> '{}'), '[]'::jsonb)
+                                 FROM jsonb_array_elements(r->'enhancement_violations') v),
+      'allied_violations', (SELECT coalesce(jsonb_agg(v ORDER BY v #>> '{}'), '[]'::jsonb)
+                            FROM jsonb_array_elements(r->'allied_violations') v))
+   FROM public.validate_army_list('364b49b6-2b96-0d61-9276-feaf90d69dc8') r),
+  '{"total_points":1080,"unit_points":1080,"enhancement_points":0,"points_limit":2000,"is_valid":true,"unit_limit_violations":[{"unit_name":"Eradicators","count":4,"max_allowed":3},{"unit_name":"Roboute Guilliman","count":2,"max_allowed":1}],"enhancement_violations":[],"allied_violations":[]}'::jsonb,
+  'datasheet over max_per_list'
+);
+
+-- more than three enhancements
+INSERT INTO public.army_lists (id, user_id, name, faction_id, detachment_id, points_limit, battle_size, combat_patrol_id) VALUES ('01adef61-d49e-fd07-c1c5-05d71ffad2e6', '87a371eb-2c3a-ca7d-9054-9ce6fdee31f8', 'more than three enhancements', '99eac0e9-7b5f-8846-920a-432321486549', '0ff9c9eb-35a3-c4e9-aed3-7d86eebc76ea', 2000, NULL, NULL);
+INSERT INTO public.army_list_units (id, army_list_id, unit_id, model_count, sort_order) VALUES ('ea544e4e-e074-8ea3-22f6-5fa728e5a424', '01adef61-d49e-fd07-c1c5-05d71ffad2e6', 'e934fe03-f485-2493-a7e7-d4794b5d6466', 1, 0);
+INSERT INTO public.army_list_units (id, army_list_id, unit_id, model_count, sort_order) VALUES ('99ae9f70-4378-4ac6-dc70-45b06c98fc17', '01adef61-d49e-fd07-c1c5-05d71ffad2e6', 'e934fe03-f485-2493-a7e7-d4794b5d6466', 1, 1);
+INSERT INTO public.army_list_units (id, army_list_id, unit_id, model_count, sort_order) VALUES ('53e733cf-b066-92ed-7139-b9d824e8af5f', '01adef61-d49e-fd07-c1c5-05d71ffad2e6', 'e934fe03-f485-2493-a7e7-d4794b5d6466', 1, 2);
+INSERT INTO public.army_list_units (id, army_list_id, unit_id, model_count, sort_order) VALUES ('49c69314-b652-2822-3c5b-5b056dc3c950', '01adef61-d49e-fd07-c1c5-05d71ffad2e6', '5fcd661c-14a0-78c2-3d0e-736198987305', 5, 3);
+INSERT INTO public.army_list_enhancements (army_list_id, enhancement_id, army_list_unit_id) VALUES ('01adef61-d49e-fd07-c1c5-05d71ffad2e6', 'f14db7af-a853-09c1-f2ab-e2f764709f00', 'ea544e4e-e074-8ea3-22f6-5fa728e5a424');
+INSERT INTO public.army_list_enhancements (army_list_id, enhancement_id, army_list_unit_id) VALUES ('01adef61-d49e-fd07-c1c5-05d71ffad2e6', 'd3a08b4c-33b3-2c4a-3b6f-d4a2b914f285', '99ae9f70-4378-4ac6-dc70-45b06c98fc17');
+INSERT INTO public.army_list_enhancements (army_list_id, enhancement_id, army_list_unit_id) VALUES ('01adef61-d49e-fd07-c1c5-05d71ffad2e6', '707efc9c-02b4-0c97-f8e6-fa04f271cffa', '53e733cf-b066-92ed-7139-b9d824e8af5f');
+INSERT INTO public.army_list_enhancements (army_list_id, enhancement_id, army_list_unit_id) VALUES ('01adef61-d49e-fd07-c1c5-05d71ffad2e6', '8710d9a6-2930-c33b-3133-77950b9dd111', '49c69314-b652-2822-3c5b-5b056dc3c950');
+SELECT is(
+  (SELECT jsonb_build_object(
+      'total_points', r->'total_points', 'unit_points', r->'unit_points',
+      'enhancement_points', r->'enhancement_points', 'points_limit', r->'points_limit', 'is_valid', r->'is_valid',
+      'unit_limit_violations', (SELECT coalesce(jsonb_agg(v - 'unit_id' ORDER BY v->>'unit_name'), '[]'::jsonb)
+                                FROM jsonb_array_elements(r->'unit_limit_violations') v),
+      'enhancement_violations', (SELECT coalesce(jsonb_agg(v ORDER BY v #>> '{}'), '[]'::jsonb)
+                                 FROM jsonb_array_elements(r->'enhancement_violations') v),
+      'allied_violations', (SELECT coalesce(jsonb_agg(v ORDER BY v #>> '{}'), '[]'::jsonb)
+                            FROM jsonb_array_elements(r->'allied_violations') v))
+   FROM public.validate_army_list('01adef61-d49e-fd07-c1c5-05d71ffad2e6') r),
+  '{"total_points":390,"unit_points":320,"enhancement_points":70,"points_limit":2000,"is_valid":true,"unit_limit_violations":[],"enhancement_violations":["Army has 4 enhancements (max 3 allowed)"],"allied_violations":[]}'::jsonb,
+  'more than three enhancements'
+);
+
+-- duplicate enhancement and enhancement on an epic hero
+INSERT INTO public.army_lists (id, user_id, name, faction_id, detachment_id, points_limit, battle_size, combat_patrol_id) VALUES ('ef8f9b72-4635-1cc4-a4f7-5ffffff13795', '87a371eb-2c3a-ca7d-9054-9ce6fdee31f8', 'duplicate enhancement and enhancement on an epic hero', '99eac0e9-7b5f-8846-920a-432321486549', '0ff9c9eb-35a3-c4e9-aed3-7d86eebc76ea', 2000, NULL, NULL);
+INSERT INTO public.army_list_units (id, army_list_id, unit_id, model_count, sort_order) VALUES ('e4280204-7f09-18d6-b010-16a5d79a128b', 'ef8f9b72-4635-1cc4-a4f7-5ffffff13795', 'e934fe03-f485-2493-a7e7-d4794b5d6466', 1, 0);
+INSERT INTO public.army_list_units (id, army_list_id, unit_id, model_count, sort_order) VALUES ('418c56cb-274a-ea63-6dad-97856cfbb007', 'ef8f9b72-4635-1cc4-a4f7-5ffffff13795', 'e934fe03-f485-2493-a7e7-d4794b5d6466', 1, 1);
+INSERT INTO public.army_list_units (id, army_list_id, unit_id, model_count, sort_order) VALUES ('f8920a03-d449-da57-a8cd-878afadcad25', 'ef8f9b72-4635-1cc4-a4f7-5ffffff13795', '4a38985e-59bf-b01f-b587-6c304422ed99', 1, 2);
+INSERT INTO public.army_list_enhancements (army_list_id, enhancement_id, army_list_unit_id) VALUES ('ef8f9b72-4635-1cc4-a4f7-5ffffff13795', 'f14db7af-a853-09c1-f2ab-e2f764709f00', 'e4280204-7f09-18d6-b010-16a5d79a128b');
+INSERT INTO public.army_list_enhancements (army_list_id, enhancement_id, army_list_unit_id) VALUES ('ef8f9b72-4635-1cc4-a4f7-5ffffff13795', 'f14db7af-a853-09c1-f2ab-e2f764709f00', '418c56cb-274a-ea63-6dad-97856cfbb007');
+INSERT INTO public.army_list_enhancements (army_list_id, enhancement_id, army_list_unit_id) VALUES ('ef8f9b72-4635-1cc4-a4f7-5ffffff13795', '8710d9a6-2930-c33b-3133-77950b9dd111', 'f8920a03-d449-da57-a8cd-878afadcad25');
+SELECT is(
+  (SELECT jsonb_build_object(
+      'total_points', r->'total_points', 'unit_points', r->'unit_points',
+      'enhancement_points', r->'enhancement_points', 'points_limit', r->'points_limit', 'is_valid', r->'is_valid',
+      'unit_limit_violations', (SELECT coalesce(jsonb_agg(v - 'unit_id' ORDER BY v->>'unit_name'), '[]'::jsonb)
+                                FROM jsonb_array_elements(r->'unit_limit_violations') v),
+      'enhancement_violations', (SELECT coalesce(jsonb_agg(v ORDER BY v #>> '{}'), '[]'::jsonb)
+                                 FROM jsonb_array_elements(r->'enhancement_violations') v),
+      'allied_violations', (SELECT coalesce(jsonb_agg(v ORDER BY v #>> '{}'), '[]'::jsonb)
+                            FROM jsonb_array_elements(r->'allied_violations') v))
+   FROM public.validate_army_list('ef8f9b72-4635-1cc4-a4f7-5ffffff13795') r),
+  '{"total_points":555,"unit_points":510,"enhancement_points":45,"points_limit":2000,"is_valid":true,"unit_limit_violations":[],"enhancement_violations":["Enhancement \"Artificer Armour\" is used 2 times (max 1 allowed)","Enhancement \"Fire Discipline\" assigned to Epic Hero \"Roboute Guilliman\""],"allied_violations":[]}'::jsonb,
+  'duplicate enhancement and enhancement on an epic hero'
+);
+
+-- combat patrol lists take one enhancement
+INSERT INTO public.army_lists (id, user_id, name, faction_id, detachment_id, points_limit, battle_size, combat_patrol_id) VALUES ('eb3a511c-a320-ac8d-f065-c62590c819ed', '87a371eb-2c3a-ca7d-9054-9ce6fdee31f8', 'combat patrol lists take one enhancement', '99eac0e9-7b5f-8846-920a-432321486549', '0ff9c9eb-35a3-c4e9-aed3-7d86eebc76ea', 500, 'combat_patrol', '7b7eb77e-67e4-2e0a-0f01-e324b138bf6d');
+INSERT INTO public.army_list_units (id, army_list_id, unit_id, model_count, sort_order) VALUES ('3a97e013-39eb-4a7d-3008-a19c0d8de1eb', 'eb3a511c-a320-ac8d-f065-c62590c819ed', 'e934fe03-f485-2493-a7e7-d4794b5d6466', 1, 0);
+INSERT INTO public.army_list_units (id, army_list_id, unit_id, model_count, sort_order) VALUES ('174f16de-0d26-4cab-344f-8f2dc68fd936', 'eb3a511c-a320-ac8d-f065-c62590c819ed', 'e934fe03-f485-2493-a7e7-d4794b5d6466', 1, 1);
+INSERT INTO public.army_list_enhancements (army_list_id, enhancement_id, army_list_unit_id) VALUES ('eb3a511c-a320-ac8d-f065-c62590c819ed', 'f14db7af-a853-09c1-f2ab-e2f764709f00', '3a97e013-39eb-4a7d-3008-a19c0d8de1eb');
+INSERT INTO public.army_list_enhancements (army_list_id, enhancement_id, army_list_unit_id) VALUES ('eb3a511c-a320-ac8d-f065-c62590c819ed', 'd3a08b4c-33b3-2c4a-3b6f-d4a2b914f285', '174f16de-0d26-4cab-344f-8f2dc68fd936');
+SELECT is(
+  (SELECT jsonb_build_object(
+      'total_points', r->'total_points', 'unit_points', r->'unit_points',
+      'enhancement_points', r->'enhancement_points', 'points_limit', r->'points_limit', 'is_valid', r->'is_valid',
+      'unit_limit_violations', (SELECT coalesce(jsonb_agg(v - 'unit_id' ORDER BY v->>'unit_name'), '[]'::jsonb)
+                                FROM jsonb_array_elements(r->'unit_limit_violations') v),
+      'enhancement_violations', (SELECT coalesce(jsonb_agg(v ORDER BY v #>> '{}'), '[]'::jsonb)
+                                 FROM jsonb_array_elements(r->'enhancement_violations') v),
+      'allied_violations', (SELECT coalesce(jsonb_agg(v ORDER BY v #>> '{}'), '[]'::jsonb)
+                            FROM jsonb_array_elements(r->'allied_violations') v))
+   FROM public.validate_army_list('eb3a511c-a320-ac8d-f065-c62590c819ed') r),
+  '{"total_points":185,"unit_points":160,"enhancement_points":25,"points_limit":500,"is_valid":true,"unit_limit_violations":[],"enhancement_violations":["Army has 2 enhancements (max 1 allowed)"],"allied_violations":[]}'::jsonb,
+  'combat patrol lists take one enhancement'
+);
+
+-- allies over the unit cap, with an excluded role and an enhancement
+INSERT INTO public.army_lists (id, user_id, name, faction_id, detachment_id, points_limit, battle_size, combat_patrol_id) VALUES ('e7c42431-c354-9cf0-7602-b84c39ba226c', '87a371eb-2c3a-ca7d-9054-9ce6fdee31f8', 'allies over the unit cap, with an excluded role and an enhancement', '99eac0e9-7b5f-8846-920a-432321486549', '0ff9c9eb-35a3-c4e9-aed3-7d86eebc76ea', 2000, 'strike_force', NULL);
+INSERT INTO public.army_list_units (id, army_list_id, unit_id, model_count, sort_order) VALUES ('952d4f1a-7d7b-76d8-0807-38d2c63fa796', 'e7c42431-c354-9cf0-7602-b84c39ba226c', 'e934fe03-f485-2493-a7e7-d4794b5d6466', 1, 0);
+INSERT INTO public.army_list_units (id, army_list_id, unit_id, model_count, sort_order) VALUES ('ab89e6e4-e9b8-4558-295d-000e362c4d70', 'e7c42431-c354-9cf0-7602-b84c39ba226c', '51a63a98-dc6c-c24d-7251-92b2719164f7', 1, 1);
+INSERT INTO public.army_list_units (id, army_list_id, unit_id, model_count, sort_order) VALUES ('3c665768-f56a-9696-7aa7-3b2583af766c', 'e7c42431-c354-9cf0-7602-b84c39ba226c', '5ac70438-fb0d-c525-c796-a80d03e13912', 1, 2);
+INSERT INTO public.army_list_units (id, army_list_id, unit_id, model_count, sort_order) VALUES ('cedf6b93-9f6e-c8f3-b73a-0530cc165288', 'e7c42431-c354-9cf0-7602-b84c39ba226c', '5ac70438-fb0d-c525-c796-a80d03e13912', 1, 3);
+INSERT INTO public.army_list_units (id, army_list_id, unit_id, model_count, sort_order) VALUES ('e29a1439-6564-3b92-2954-63dac332f724', 'e7c42431-c354-9cf0-7602-b84c39ba226c', '48ed1457-4198-1051-a16f-4e8ee0ccb1ca', 5, 4);
+INSERT INTO public.army_list_enhancements (army_list_id, enhancement_id, army_list_unit_id) VALUES ('e7c42431-c354-9cf0-7602-b84c39ba226c', '8710d9a6-2930-c33b-3133-77950b9dd111', '3c665768-f56a-9696-7aa7-3b2583af766c');
+SELECT is(
+  (SELECT jsonb_build_object(
+      'total_points', r->'total_points', 'unit_points', r->'unit_points',
+      'enhancement_points', r->'enhancement_points', 'points_limit', r->'points_limit', 'is_valid', r->'is_valid',
+      'unit_limit_violations', (SELECT coalesce(jsonb_agg(v - 'unit_id' ORDER BY v->>'unit_name'), '[]'::jsonb)
+                                FROM jsonb_array_elements(r->'unit_limit_violations') v),
+      'enhancement_violations', (SELECT coalesce(jsonb_agg(v ORDER BY v #>> '{}'), '[]'::jsonb)
+                                 FROM jsonb_array_elements(r->'enhancement_violations') v),
+      'allied_violations', (SELECT coalesce(jsonb_agg(v ORDER BY v #>> '{}'), '[]'::jsonb)
+                            FROM jsonb_array_elements(r->'allied_violations') v))
+   FROM public.validate_army_list('e7c42431-c354-9cf0-7602-b84c39ba226c') r),
+  '{"total_points":435,"unit_points":410,"enhancement_points":25,"points_limit":2000,"is_valid":true,"unit_limit_violations":[],"enhancement_violations":[],"allied_violations":["Assigned Agents allows 2 allied units (4 in your list)","Inquisitor is an ally under Assigned Agents and cannot take Fire Discipline","Vigilant Squad can''t be taken as an ally under Assigned Agents (Battleline)"]}'::jsonb,
+  'allies over the unit cap, with an excluded role and an enhancement'
+);
+
+-- allies over the points cap
+INSERT INTO public.army_lists (id, user_id, name, faction_id, detachment_id, points_limit, battle_size, combat_patrol_id) VALUES ('3116057b-c5f7-5dde-4dde-3ed27c2a2213', '87a371eb-2c3a-ca7d-9054-9ce6fdee31f8', 'allies over the points cap', '99eac0e9-7b5f-8846-920a-432321486549', '0ff9c9eb-35a3-c4e9-aed3-7d86eebc76ea', 1000, 'incursion', NULL);
+INSERT INTO public.army_list_units (id, army_list_id, unit_id, model_count, sort_order) VALUES ('509deae1-ba4c-90d5-acb3-451e50c98d82', '3116057b-c5f7-5dde-4dde-3ed27c2a2213', 'e934fe03-f485-2493-a7e7-d4794b5d6466', 1, 0);
+INSERT INTO public.army_list_units (id, army_list_id, unit_id, model_count, sort_order) VALUES ('5334481a-014e-1bdc-85ff-a7d611a9fb85', '3116057b-c5f7-5dde-4dde-3ed27c2a2213', '51a63a98-dc6c-c24d-7251-92b2719164f7', 1, 1);
+INSERT INTO public.army_list_units (id, army_list_id, unit_id, model_count, sort_order) VALUES ('55492164-2347-e75f-23fc-a1c884fb355c', '3116057b-c5f7-5dde-4dde-3ed27c2a2213', '5ac70438-fb0d-c525-c796-a80d03e13912', 1, 2);
+SELECT is(
+  (SELECT jsonb_build_object(
+      'total_points', r->'total_points', 'unit_points', r->'unit_points',
+      'enhancement_points', r->'enhancement_points', 'points_limit', r->'points_limit', 'is_valid', r->'is_valid',
+      'unit_limit_violations', (SELECT coalesce(jsonb_agg(v - 'unit_id' ORDER BY v->>'unit_name'), '[]'::jsonb)
+                                FROM jsonb_array_elements(r->'unit_limit_violations') v),
+      'enhancement_violations', (SELECT coalesce(jsonb_agg(v ORDER BY v #>> '{}'), '[]'::jsonb)
+                                 FROM jsonb_array_elements(r->'enhancement_violations') v),
+      'allied_violations', (SELECT coalesce(jsonb_agg(v ORDER BY v #>> '{}'), '[]'::jsonb)
+                            FROM jsonb_array_elements(r->'allied_violations') v))
+   FROM public.validate_army_list('3116057b-c5f7-5dde-4dde-3ed27c2a2213') r),
+  '{"total_points":235,"unit_points":235,"enhancement_points":0,"points_limit":1000,"is_valid":true,"unit_limit_violations":[],"enhancement_violations":[],"allied_violations":["Assigned Agents allies cost 155 pts (max 150 pts)"]}'::jsonb,
+  'allies over the points cap'
+);
+
+-- allies at a battle size the rule grants none
+INSERT INTO public.army_lists (id, user_id, name, faction_id, detachment_id, points_limit, battle_size, combat_patrol_id) VALUES ('08d808b0-6e03-dd96-4986-d3d862f9ce1c', '87a371eb-2c3a-ca7d-9054-9ce6fdee31f8', 'allies at a battle size the rule grants none', '99eac0e9-7b5f-8846-920a-432321486549', '0ff9c9eb-35a3-c4e9-aed3-7d86eebc76ea', 500, 'combat_patrol', NULL);
+INSERT INTO public.army_list_units (id, army_list_id, unit_id, model_count, sort_order) VALUES ('24775288-bdb8-f5e0-dddb-41d0060419b3', '08d808b0-6e03-dd96-4986-d3d862f9ce1c', 'e934fe03-f485-2493-a7e7-d4794b5d6466', 1, 0);
+INSERT INTO public.army_list_units (id, army_list_id, unit_id, model_count, sort_order) VALUES ('38539236-eafe-3420-b736-40a3e7cbf240', '08d808b0-6e03-dd96-4986-d3d862f9ce1c', '5ac70438-fb0d-c525-c796-a80d03e13912', 1, 1);
+SELECT is(
+  (SELECT jsonb_build_object(
+      'total_points', r->'total_points', 'unit_points', r->'unit_points',
+      'enhancement_points', r->'enhancement_points', 'points_limit', r->'points_limit', 'is_valid', r->'is_valid',
+      'unit_limit_violations', (SELECT coalesce(jsonb_agg(v - 'unit_id' ORDER BY v->>'unit_name'), '[]'::jsonb)
+                                FROM jsonb_array_elements(r->'unit_limit_violations') v),
+      'enhancement_violations', (SELECT coalesce(jsonb_agg(v ORDER BY v #>> '{}'), '[]'::jsonb)
+                                 FROM jsonb_array_elements(r->'enhancement_violations') v),
+      'allied_violations', (SELECT coalesce(jsonb_agg(v ORDER BY v #>> '{}'), '[]'::jsonb)
+                            FROM jsonb_array_elements(r->'allied_violations') v))
+   FROM public.validate_army_list('08d808b0-6e03-dd96-4986-d3d862f9ce1c') r),
+  '{"total_points":135,"unit_points":135,"enhancement_points":0,"points_limit":500,"is_valid":true,"unit_limit_violations":[],"enhancement_violations":[],"allied_violations":["Assigned Agents allies can''t be taken at this battle size"]}'::jsonb,
+  'allies at a battle size the rule grants none'
+);
+
+SELECT * FROM finish();
+ROLLBACK;